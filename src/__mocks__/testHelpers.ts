@@ -227,6 +227,9 @@ export function createMockConnection(overrides: Partial<{
     fileExists: jest.fn().mockResolvedValue(false),
     forwardPort: jest.fn().mockResolvedValue(undefined),
     stopForward: jest.fn().mockResolvedValue(undefined),
+    forwardRemotePort: jest.fn().mockImplementation((_host: string, remotePort: number) => Promise.resolve(remotePort)),
+    forwardDynamic: jest.fn().mockResolvedValue(undefined),
+    stopRemoteForward: jest.fn().mockResolvedValue(undefined),
     searchFiles: jest.fn().mockResolvedValue([]),
     listDirectories: jest.fn().mockResolvedValue([]),
     listEntries: jest.fn().mockResolvedValue({ files: [], dirs: [] }),
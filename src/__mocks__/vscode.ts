@@ -268,6 +268,46 @@ export enum ExtensionKind {
   Workspace = 2
 }
 
+export enum FileType {
+  Unknown = 0,
+  File = 1,
+  Directory = 2,
+  SymbolicLink = 64
+}
+
+export enum FileChangeType {
+  Changed = 1,
+  Created = 2,
+  Deleted = 3
+}
+
+// FileSystemError mock: the static factories set `code` like VS Code's
+export class FileSystemError extends Error {
+  static FileNotFound(messageOrUri?: string | Uri): FileSystemError {
+    return new FileSystemError(messageOrUri, 'FileNotFound');
+  }
+  static FileExists(messageOrUri?: string | Uri): FileSystemError {
+    return new FileSystemError(messageOrUri, 'FileExists');
+  }
+  static FileNotADirectory(messageOrUri?: string | Uri): FileSystemError {
+    return new FileSystemError(messageOrUri, 'FileNotADirectory');
+  }
+  static FileIsADirectory(messageOrUri?: string | Uri): FileSystemError {
+    return new FileSystemError(messageOrUri, 'FileIsADirectory');
+  }
+  static NoPermissions(messageOrUri?: string | Uri): FileSystemError {
+    return new FileSystemError(messageOrUri, 'NoPermissions');
+  }
+  static Unavailable(messageOrUri?: string | Uri): FileSystemError {
+    return new FileSystemError(messageOrUri, 'Unavailable');
+  }
+
+  constructor(messageOrUri?: string | Uri, public readonly code: string = 'Unknown') {
+    super(messageOrUri === undefined ? code : String(messageOrUri));
+    this.name = 'FileSystemError';
+  }
+}
+
 // Disposable mock
 export class Disposable {
   static from(...disposables: { dispose(): unknown }[]): Disposable {
@@ -283,13 +323,17 @@ export class Disposable {
 
 // CancellationTokenSource mock
 export class CancellationTokenSource {
+  private emitter = new EventEmitter<void>();
   token = {
     isCancellationRequested: false,
-    onCancellationRequested: new EventEmitter<void>().event,
+    onCancellationRequested: this.emitter.event,
   };
 
   cancel(): void {
-    this.token.isCancellationRequested = true;
+    if (!this.token.isCancellationRequested) {
+      this.token.isCancellationRequested = true;
+      this.emitter.fire();
+    }
   }
 
   dispose(): void {}
@@ -331,6 +375,7 @@ export const workspace = {
     readFile: jest.fn(),
     writeFile: jest.fn().mockResolvedValue(undefined),
     delete: jest.fn(),
+    rename: jest.fn().mockResolvedValue(undefined),
     stat: jest.fn(),
     createDirectory: jest.fn().mockResolvedValue(undefined),
     readDirectory: jest.fn().mockResolvedValue([]),
@@ -365,6 +410,7 @@ export const window = {
     dispose: jest.fn(),
   }),
   registerFileDecorationProvider: jest.fn().mockReturnValue({ dispose: jest.fn() }),
+  registerTerminalLinkProvider: jest.fn().mockReturnValue({ dispose: jest.fn() }),
   createTerminal: jest.fn().mockReturnValue({
     name: 'mock-terminal',
     show: jest.fn(),
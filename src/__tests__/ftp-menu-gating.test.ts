@@ -6,6 +6,11 @@
  * commands must NOT appear on those rows; this test fails if a shell-only menu
  * entry stops excluding `.ftp`, or if the shared filename-filter commands stop
  * matching FTP rows.
+ *
+ * SFTP-only SSH rows (exec denied by the server) carry `.sftp` in the same
+ * place. They keep file operations, local backup history and filename
+ * search, so only commands that need a remote shell exclude them as well,
+ * via `(?!\.s?ftp)`.
  */
 import pkg from '../../package.json';
 
@@ -20,6 +25,17 @@ const SSH_ONLY = new Set([
   'sshLite.disableSudoMode', 'sshLite.showProperties',
 ]);
 
+// Commands that run a remote shell; hidden from `.sftp` rows too.
+const SHELL_ONLY = new Set([
+  'sshLite.openTerminal', 'sshLite.openTerminalHere', 'sshLite.monitor',
+  'sshLite.showRemoteProcesses', 'sshLite.manageRemoteService', 'sshLite.showRemoteEnv',
+  'sshLite.editRemoteCron', 'sshLite.runSnippet', 'sshLite.runLocalScriptRemote',
+  'sshLite.pushPubKeyToHost', 'sshLite.indexFolder', 'sshLite.openServerBackupFolder',
+  'sshLite.showAllBackups', 'sshLite.showServerBackups', 'sshLite.newFileAsRoot',
+  'sshLite.enableSudoMode', 'sshLite.showProperties', 'sshLite.showChanges',
+  'sshLite.showBackupLogs',
+]);
+
 // Copy/cut/paste are NOW supported over FTP (issue #14): same-host copy is
 // client-mediated (download+re-upload), cut uses FTP rename, and cross-host
 // already streamed via readFile/writeFile. They must therefore appear on FTP
@@ -38,7 +54,7 @@ describe('FTP menu gating (issue #9)', () => {
     for (const m of menus) {
       if (!m.when || !SSH_ONLY.has(m.command)) continue;
       if (!targetsFtpCapableRow(m.when)) continue;
-      if (!m.when.includes('(?!\\.ftp)')) {
+      if (!m.when.includes('(?!\\.ftp)') && !m.when.includes('(?!\\.s?ftp)')) {
         offenders.push(`${m.command} [${m.group}] :: ${m.when}`);
       }
     }
@@ -51,14 +67,26 @@ describe('FTP menu gating (issue #9)', () => {
     );
     expect(filterEntries.length).toBeGreaterThan(0);
     for (const m of filterEntries) {
-      expect(m.when).toContain('(\\.ftp)?');
+      expect(m.when).toContain('(\\.s?ftp)?');
     }
   });
 
+  it('hides shell commands from SFTP-only rows via a (?!\\.s?ftp) lookahead', () => {
+    const offenders: string[] = [];
+    for (const m of menus) {
+      if (!m.when || !SHELL_ONLY.has(m.command)) continue;
+      if (!targetsFtpCapableRow(m.when)) continue;
+      if (!m.when.includes('(?!\\.s?ftp)')) {
+        offenders.push(`${m.command} [${m.group}] :: ${m.when}`);
+      }
+    }
+    expect(offenders).toEqual([]);
+  });
+
   it('does not place two file-explorer inline icons in the same slot for any single viewItem', () => {
     // For each concrete viewItem we care about, no two visible inline commands
     // may share an inline@N slot (would visually collide / overwrite).
-    const rows = ['connection', 'connection.ftp', 'file', 'file.ftp', 'folder', 'folder.ftp'];
+    const rows = ['connection', 'connection.ftp', 'connection.sftp', 'file', 'file.ftp', 'file.sftp', 'folder', 'folder.ftp', 'folder.sftp'];
     const matches = (when: string, viewItem: string): boolean => {
       const m = when.match(/viewItem =~ (\/[^/]*\/(?:[a-z]*)?)|viewItem == (\S+)/);
       if (!m) return false;
@@ -3,8 +3,9 @@
  *
  * Covers:
  *  - batchRun: returns early when no connections / cancelled / no command / declined confirmation
- *  - batchRun: runs on all hosts, shows output channel
+ *  - batchRun: runs on all hosts, shows output channel, exit code per host and failures
  *  - runLocalScriptRemote: returns early when no connection / no file picked / file missing
+ *  - runLocalScriptRemote: streams output and reports a failing exit
  */
 
 import * as vscode from 'vscode';
@@ -22,6 +23,15 @@ jest.mock('../connection/ConnectionManager', () => ({
   },
 }));
 
+jest.mock('../services/CommandGuard', () => ({
+  CommandGuard: {
+    getInstance: jest.fn().mockReturnValue({
+      execDetailed: (conn: any, cmd: string) => conn.execDetailed(cmd),
+      execStream: (conn: any, cmd: string, onData: unknown) => conn.execStream(cmd, onData),
+    }),
+  },
+}));
+
 jest.mock('fs', () => ({ existsSync: jest.fn(), readFileSync: jest.fn() }));
 jest.mock('path', () => ({
   extname: jest.fn().mockReturnValue('.sh'),
@@ -37,6 +47,7 @@ beforeEach(() => resetWindowMocks());
 
 function makeOutputChannel() {
   return {
+    append: jest.fn(),
     appendLine: jest.fn(),
     show: jest.fn(),
   } as unknown as vscode.OutputChannel;
@@ -52,11 +63,16 @@ function makeContext(outputChannel = makeOutputChannel()): ToolsContext {
   };
 }
 
+function result(stdout = '', exitCode = 0, stderr = '') {
+  return { stdout, stderr, exitCode, durationMs: 40 };
+}
+
 function makeConn(id: string, name: string) {
   return {
     id, state: 'connected',
     host: { name, host: name, port: 22, username: 'u' },
-    exec: jest.fn().mockResolvedValue('output from ' + name),
+    execDetailed: jest.fn().mockResolvedValue(result('output from ' + name)),
+    execStream: jest.fn().mockResolvedValue(result()),
     writeFile: jest.fn().mockResolvedValue(undefined),
     deleteFile: jest.fn().mockResolvedValue(undefined),
   };
@@ -104,8 +120,8 @@ describe('batchRun command', () => {
     (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('ls -la');
     (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce(undefined);
     await vscode.commands.executeCommand('sshLite.batchRun');
-    expect(c1.exec).not.toHaveBeenCalled();
-    expect(c2.exec).not.toHaveBeenCalled();
+    expect(c1.execDetailed).not.toHaveBeenCalled();
+    expect(c2.execDetailed).not.toHaveBeenCalled();
   });
 
   it('runs command on all hosts after confirmation and shows output', async () => {
@@ -115,11 +131,29 @@ describe('batchRun command', () => {
     (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('uptime');
     (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Run');
     await vscode.commands.executeCommand('sshLite.batchRun');
-    expect(c1.exec).toHaveBeenCalledWith('uptime');
-    expect(c2.exec).toHaveBeenCalledWith('uptime');
+    expect(c1.execDetailed).toHaveBeenCalledWith('uptime');
+    expect(c2.execDetailed).toHaveBeenCalledWith('uptime');
     expect(ctx.outputChannel.show).toHaveBeenCalled();
   });
 
+  it('shows the exit code per host and reports hosts where the command failed', async () => {
+    const c1 = makeConn('a', 'Alpha'); const c2 = makeConn('b', 'Beta');
+    c2.execDetailed.mockResolvedValueOnce(result('', 2, 'ls: cannot access /nope'));
+    mockGetAllConnections.mockReturnValue([c1, c2]);
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce([{ conn: c1 }, { conn: c2 }]);
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('ls /nope');
+    (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Run');
+    await vscode.commands.executeCommand('sshLite.batchRun');
+
+    const lines = (ctx.outputChannel.appendLine as jest.Mock).mock.calls.map((c) => c[0]);
+    expect(lines).toContain('\n── [Alpha] ── exit 0 · 40 ms');
+    expect(lines).toContain('\n── [Beta] ── FAILED: exit 2 · 40 ms');
+    expect(lines).toContain('ls: cannot access /nope');
+    expect(lines).toContain('\n═══ Batch complete: 1 succeeded, 1 failed ═══');
+    expect(ctx.logResult).toHaveBeenCalledWith('batchRun', false, '2 hosts, 1 failed');
+    expect(vscode.window.showWarningMessage).toHaveBeenLastCalledWith(expect.stringContaining('failed on 1 of 2 hosts'));
+  });
+
   it('confirmation dialog includes command + host names + count', async () => {
     const c1 = makeConn('a', 'Alpha'); const c2 = makeConn('b', 'Beta');
     mockGetAllConnections.mockReturnValue([c1, c2]);
@@ -177,8 +211,26 @@ describe('runLocalScriptRemote command', () => {
     (fs.readFileSync as jest.Mock).mockReturnValue(Buffer.from('#!/bin/bash\necho hello'));
     await vscode.commands.executeCommand('sshLite.runLocalScriptRemote');
     expect(conn.writeFile).toHaveBeenCalled();
-    expect(conn.exec).toHaveBeenCalledTimes(2); // chmod + run
+    expect(conn.execDetailed).toHaveBeenCalledTimes(1); // chmod
+    expect(conn.execStream).toHaveBeenCalledTimes(1); // run
     expect(conn.deleteFile).toHaveBeenCalled();
     expect(ctx.outputChannel.show).toHaveBeenCalled();
   });
+
+  it('streams script output and reports a failing exit', async () => {
+    const conn = makeConn('a', 'A');
+    conn.execStream.mockImplementationOnce(async (_cmd: string, onData: (chunk: string) => void) => {
+      onData('step 1\n');
+      return result('', 1, 'step 2 failed');
+    });
+    mockGetAllConnections.mockReturnValue([conn]);
+    (vscode.window.showOpenDialog as jest.Mock).mockResolvedValueOnce([{ fsPath: '/local/test.sh' }]);
+    (fs.existsSync as jest.Mock).mockReturnValue(true);
+    (fs.readFileSync as jest.Mock).mockReturnValue(Buffer.from('#!/bin/bash'));
+    await vscode.commands.executeCommand('sshLite.runLocalScriptRemote');
+
+    expect(ctx.outputChannel.append).toHaveBeenCalledWith('step 1\n');
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith('Script run failed: Exit code 1: step 2 failed');
+    expect(conn.deleteFile).toHaveBeenCalled();
+  });
 });
@@ -2,10 +2,22 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { SSHConnection } from '../connection/SSHConnection';
+import { IExecResult } from '../types';
+import { CommandGuard } from '../services/CommandGuard';
+import { checkExecResult, execFailure } from '../utils/execResult';
 import { ToolsContext, pickConnection, pickMultiConnection } from './sshToolsCommands';
 
-async function runCommand(connection: SSHConnection, cmd: string): Promise<string> {
-  return connection.exec(cmd);
+/** Run a command that has to succeed, e.g. the chmod before a script */
+async function runChecked(connection: SSHConnection, cmd: string): Promise<string> {
+  return checkExecResult(await CommandGuard.getInstance().execDetailed(connection, cmd)).stdout;
+}
+
+/** `exit 0 · 120 ms`, or why it failed; the output itself is printed separately */
+function describeExit(result: IExecResult): string {
+  const failure = execFailure(result);
+  const ran = result.exitCode !== null && !result.timedOut && !result.cancelled;
+  const status = !failure ? 'exit 0' : 'FAILED: ' + (ran ? 'exit ' + result.exitCode : failure);
+  return status + ' · ' + result.durationMs + ' ms';
 }
 
 export function registerBatchAndScriptCommands(ctx: ToolsContext): vscode.Disposable[] {
@@ -31,20 +43,30 @@ export function registerBatchAndScriptCommands(ctx: ToolsContext): vscode.Dispos
     log('batchRun', connections.length + ' hosts');
     outputChannel.appendLine('\n═══ Batch: ' + command + ' ═══');
     outputChannel.show(true);
+    let failed = 0;
     await Promise.allSettled(
       connections.map(async (conn) => {
         try {
-          const out = await runCommand(conn, command);
-          outputChannel.appendLine('\n── [' + conn.host.name + '] ──');
-          outputChannel.appendLine(out.trim() || '(no output)');
+          const result = await CommandGuard.getInstance().execDetailed(conn, command, { description: 'Batch: ' + command });
+          if (execFailure(result)) { failed++; }
+          outputChannel.appendLine('\n── [' + conn.host.name + '] ── ' + describeExit(result));
+          outputChannel.appendLine(result.stdout.trim() || '(no output)');
+          if (result.stderr.trim()) {
+            outputChannel.appendLine('[stderr]');
+            outputChannel.appendLine(result.stderr.trim());
+          }
         } catch (err) {
+          failed++;
           outputChannel.appendLine('\n── [' + conn.host.name + '] ── FAILED');
           outputChannel.appendLine((err as Error).message);
         }
       })
     );
-    outputChannel.appendLine('\n═══ Batch complete ═══');
-    logResult('batchRun', true, connections.length + ' hosts');
+    outputChannel.appendLine('\n═══ Batch complete: ' + (connections.length - failed) + ' succeeded, ' + failed + ' failed ═══');
+    logResult('batchRun', failed === 0, connections.length + ' hosts, ' + failed + ' failed');
+    if (failed > 0) {
+      vscode.window.showWarningMessage('Batch command failed on ' + failed + ' of ' + connections.length + ' hosts. See the output for details.');
+    }
   }));
 
   disposables.push(vscode.commands.registerCommand('sshLite.runLocalScriptRemote', async (preConn?: SSHConnection) => {
@@ -70,11 +92,18 @@ export function registerBatchAndScriptCommands(ctx: ToolsContext): vscode.Dispos
       const contents = fs.readFileSync(localPath);
       await connection.writeFile(remoteTmp, contents);
       const esc = remoteTmp.replace(/'/g, "'\\''");
-      await runCommand(connection, "chmod +x '" + esc + "'");
-      const out = await runCommand(connection, "'" + esc + "'");
+      await runChecked(connection, "chmod +x '" + esc + "'");
       outputChannel.appendLine('\n── ' + path.basename(localPath) + ' on ' + connection.host.name + ' ──');
-      outputChannel.appendLine(out);
       outputChannel.show(true);
+      // Output shows up as the script prints it; stderr lands in the same place
+      const result = await CommandGuard.getInstance().execStream(
+        connection,
+        "'" + esc + "'",
+        (chunk) => outputChannel.append(chunk),
+        { description: 'Run ' + path.basename(localPath) }
+      );
+      outputChannel.appendLine('\n── ' + describeExit(result) + ' ──');
+      checkExecResult(result);
       logResult('runLocalScriptRemote', true, path.basename(localPath));
     } catch (err) {
       logResult('runLocalScriptRemote', false, (err as Error).message);
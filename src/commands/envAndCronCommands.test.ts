@@ -4,7 +4,8 @@
  * Covers:
  *  - showRemoteEnv: no connections, opens virtual doc, refreshes provider
  *  - editRemoteCron: no connections, opens virtual doc
- *  - saveRemoteCron: no active cron editor → error; active cron editor → writes crontab
+ *  - saveRemoteCron: no active cron editor → error; active cron editor → installs it
+ *    through `crontab -` and reports crontab's complaint when it rejects a line
  */
 
 import * as vscode from 'vscode';
@@ -27,6 +28,14 @@ var mockBuildUri = jest.fn().mockReturnValue({
   scheme: 'sshlite-env', authority: 'c1', path: '/env.txt', toString: () => 'sshlite-env://c1/env.txt',
 });
 
+jest.mock('../services/CommandGuard', () => ({
+  CommandGuard: {
+    getInstance: jest.fn().mockReturnValue({
+      execDetailed: (conn: any, cmd: string, opts?: unknown) => conn.execDetailed(cmd, opts),
+    }),
+  },
+}));
+
 jest.mock('../providers/VirtualDocProviders', () => ({
   ENV_SCHEME: 'sshlite-env',
   CRON_SCHEME: 'sshlite-cron',
@@ -49,7 +58,7 @@ function makeCtx(): ToolsContext {
   };
 }
 function makeConn(id = 'c1', name = 'box') {
-  return { id, state: 'connected', host: { name, host: name, port: 22, username: 'u' }, exec: jest.fn().mockResolvedValue(''), writeFile: jest.fn().mockResolvedValue(undefined), deleteFile: jest.fn().mockResolvedValue(undefined) };
+  return { id, state: 'connected', host: { name, host: name, port: 22, username: 'u' }, execDetailed: jest.fn().mockResolvedValue({ stdout: '', stderr: '', exitCode: 0, durationMs: 3 }) };
 }
 
 describe('showRemoteEnv', () => {
@@ -124,4 +133,26 @@ describe('saveRemoteCron', () => {
     await vscode.commands.executeCommand('sshLite.saveRemoteCron');
     expect(vscode.window.showErrorMessage).toHaveBeenCalled();
   });
+
+  it('installs the crontab from stdin', async () => {
+    const conn = makeConn();
+    (vscode.window as any).activeTextEditor = {
+      document: { uri: { scheme: 'sshlite-cron', authority: 'c1' }, getText: jest.fn().mockReturnValue('0 3 * * * /backup.sh\n') },
+    };
+    mockGetConnection.mockReturnValue(conn);
+    await vscode.commands.executeCommand('sshLite.saveRemoteCron');
+    expect(conn.execDetailed).toHaveBeenCalledWith('crontab -', expect.objectContaining({ stdin: '0 3 * * * /backup.sh\n' }));
+    expect(vscode.window.showErrorMessage).not.toHaveBeenCalled();
+  });
+
+  it('reports why crontab rejected the table', async () => {
+    const conn = makeConn();
+    conn.execDetailed.mockResolvedValueOnce({ stdout: '', stderr: '"-":1: bad minute\nerrors in crontab file, can\'t install.\n', exitCode: 1, durationMs: 3 });
+    (vscode.window as any).activeTextEditor = {
+      document: { uri: { scheme: 'sshlite-cron', authority: 'c1' }, getText: jest.fn().mockReturnValue('x * * * * /backup.sh\n') },
+    };
+    mockGetConnection.mockReturnValue(conn);
+    await vscode.commands.executeCommand('sshLite.saveRemoteCron');
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('Failed to save crontab: Exit code 1: "-":1: bad minute'));
+  });
 });
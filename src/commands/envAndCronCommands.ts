@@ -4,21 +4,24 @@ import { SSHConnection } from '../connection/SSHConnection';
 import { ENV_SCHEME, CRON_SCHEME, buildUri } from '../providers/VirtualDocProviders';
 import { ToolsContext, pickConnection } from './sshToolsCommands';
 import { hasCapability } from '../utils/capabilityGuard';
+import { CommandGuard } from '../services/CommandGuard';
+import { checkExecResult } from '../utils/execResult';
 
 async function saveCrontab(connection: SSHConnection, newContents: string): Promise<void> {
   if (!hasCapability(connection, 'supportsExec')) {
     vscode.window.showWarningMessage('Crontab is not available over FTP connections.');
     return;
   }
-  const tmpPath = '/tmp/sshlite-cron-' + Date.now() + '.txt';
   try {
-    await connection.writeFile(tmpPath, Buffer.from(newContents, 'utf8'));
-    const esc = tmpPath.replace(/'/g, "'\\''");
-    const applyCmd = "crontab '" + esc + "' && rm -f '" + esc + "'";
-    await connection.exec(applyCmd);
+    // crontab rejects a bad line with exit 1 and says which; without the
+    // exit code the old table silently stayed in place
+    const result = await CommandGuard.getInstance().execDetailed(connection, 'crontab -', {
+      stdin: newContents,
+      description: 'Save crontab',
+    });
+    checkExecResult(result);
     vscode.window.setStatusBarMessage('$(check) Crontab updated on ' + connection.host.name, 3000);
   } catch (err) {
-    try { await connection.deleteFile(tmpPath); } catch { /* ignore */ }
     vscode.window.showErrorMessage('Failed to save crontab: ' + (err as Error).message);
   }
 }
@@ -0,0 +1,175 @@
+import * as vscode from 'vscode';
+import { ConnectionManager } from '../connection/ConnectionManager';
+import { SSHConnection } from '../connection/SSHConnection';
+import { CompareSide, FolderCompareService, CompareCopyDirection, describeSide } from '../services/FolderCompareService';
+import { CompareEntryTreeItem, CompareFolderTreeItem } from '../providers/FolderCompareTreeProvider';
+import { CompareMode, ICompareEntry } from '../types';
+import { hasCapability } from '../utils/capabilityGuard';
+import { asRemoteFolder } from './folderSyncCommands';
+
+export interface FolderCompareContext {
+  /** Re-list a remote folder in the file tree after a copy changed it */
+  refreshFolder(connectionId: string, folderPath: string): void;
+}
+
+type CompareItem = CompareEntryTreeItem | CompareFolderTreeItem;
+
+/** The clicked folder as a compare side, if it is one */
+function asSide(arg: unknown): CompareSide | undefined {
+  const folder = asRemoteFolder(arg);
+  return folder ? { connection: folder.connection, path: folder.file.path } : undefined;
+}
+
+/** `~` and `~/x` typed into a path box, resolved against the server's home */
+async function expandHome(connection: SSHConnection, value: string): Promise<string> {
+  const trimmed = value.trim();
+  if (trimmed !== '~' && !trimmed.startsWith('~/')) {
+    return trimmed;
+  }
+  const home = await connection.resolveHomePath();
+  return trimmed === '~' ? home : `${home}/${trimmed.slice(2)}`;
+}
+
+/**
+ * Pick a folder: a local one, or a path on any connected server (default
+ * `suggestion`, the other side's path, since most compares are prod vs
+ * staging with the same layout).
+ */
+async function pickSide(placeHolder: string, suggestion?: string): Promise<CompareSide | undefined> {
+  const connections = ConnectionManager.getInstance().getAllConnections().filter((c) => c.state === 'connected');
+  const pick = await vscode.window.showQuickPick(
+    [
+      { label: '$(folder) Local Folder...', connection: undefined as SSHConnection | undefined },
+      ...connections.map((c) => ({ label: `$(remote) ${c.host.name}`, description: `${c.host.username}@${c.host.host}`, connection: c })),
+    ],
+    { placeHolder, ignoreFocusOut: true }
+  );
+  if (!pick) {
+    return undefined;
+  }
+
+  if (!pick.connection) {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectFolders: true,
+      canSelectFiles: false,
+      canSelectMany: false,
+      openLabel: 'Compare',
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+    });
+    return picked && picked.length > 0 ? { path: picked[0].fsPath } : undefined;
+  }
+
+  const connection = pick.connection;
+  const value = await vscode.window.showInputBox({
+    prompt: `Folder on ${connection.host.name}`,
+    value: suggestion ?? '~',
+    ignoreFocusOut: true,
+    validateInput: (v) => (v && v.trim() ? null : 'Folder is required'),
+  });
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return { connection, path: await expandHome(connection, value) };
+  } catch (error) {
+    vscode.window.showErrorMessage(`Could not resolve ~ on ${connection.host.name}: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
+async function pickMode(left: CompareSide, right: CompareSide): Promise<CompareMode | undefined> {
+  const items: Array<vscode.QuickPickItem & { mode: CompareMode }> = [
+    { label: 'Size and modification time', description: 'Fast', mode: 'mtime' },
+    { label: 'Size only', description: 'Ignores timestamps, e.g. after a deploy rewrote them', mode: 'size' },
+  ];
+  const canHash = (s: CompareSide) => !s.connection || hasCapability(s.connection, 'supportsExec');
+  if (canHash(left) && canHash(right)) {
+    items.push({ label: 'Checksum (sha256) when sizes match', description: 'Reads every same-size file on both sides', mode: 'checksum' });
+  }
+  const pick = await vscode.window.showQuickPick(items, { placeHolder: 'How should files be compared?', ignoreFocusOut: true });
+  return pick?.mode;
+}
+
+async function runCompare(left: CompareSide, right: CompareSide): Promise<void> {
+  const mode = await pickMode(left, right);
+  if (!mode) { return; }
+  const excludes = vscode.workspace.getConfiguration('sshLite').get<string[]>('syncDefaultExcludes', []);
+  try {
+    const comparison = await FolderCompareService.getInstance().compare(left, right, mode, excludes);
+    if (!comparison) { return; }
+    if (comparison.checksumUnavailable) {
+      vscode.window.showWarningMessage('Checksums need a shell on the server; files were compared by size and modification time.');
+    }
+    await vscode.commands.executeCommand('sshLite.folderCompare.focus');
+  } catch (error) {
+    vscode.window.showErrorMessage(`Compare failed: ${(error as Error).message}`);
+  }
+}
+
+/** Entries under the clicked item and any other selected ones, each once */
+function selectedEntries(item?: CompareItem, selected?: CompareItem[]): ICompareEntry[] {
+  const items = selected && selected.length > 0 ? selected : item ? [item] : [];
+  return [...new Set(items.flatMap((i) => i.entries ?? []))];
+}
+
+export function registerFolderCompareCommands(ctx: FolderCompareContext): vscode.Disposable[] {
+  const service = FolderCompareService.getInstance();
+
+  const copy = (direction: CompareCopyDirection) => async (item?: CompareItem, selected?: CompareItem[]) => {
+    const comparison = service.getComparison();
+    const entries = selectedEntries(item, selected);
+    if (!comparison || entries.length === 0) { return; }
+    const result = await service.copy(entries, direction);
+    const target = direction === 'toRight' ? comparison.right : comparison.left;
+    if (result && result.copied + result.deleted > 0 && target.connection) {
+      ctx.refreshFolder(target.connection.id, target.path);
+    }
+  };
+
+  return [
+    // From a remote folder: pick the other side. From the palette: pick both.
+    vscode.commands.registerCommand('sshLite.compareFolders', async (arg?: unknown) => {
+      const left = asSide(arg) ?? (await pickSide('Pick the left folder'));
+      if (!left) { return; }
+      const right = await pickSide(`Compare ${describeSide(left)} with...`, left.connection ? left.path : undefined);
+      if (!right) { return; }
+      await runCompare(left, right);
+    }),
+
+    vscode.commands.registerCommand('sshLite.selectForCompare', (arg?: unknown) => {
+      const side = asSide(arg);
+      if (!side) { return; }
+      service.selectForCompare(side);
+      vscode.window.setStatusBarMessage(`$(diff) Selected ${describeSide(side)} for compare`, 3000);
+    }),
+
+    vscode.commands.registerCommand('sshLite.compareWithSelected', async (arg?: unknown) => {
+      const left = service.getSelection();
+      const right = asSide(arg);
+      if (!left || !right) { return; }
+      await runCompare(left, right);
+    }),
+
+    vscode.commands.registerCommand('sshLite.openCompareEntry', async (item?: CompareEntryTreeItem) => {
+      if (!item?.entry) { return; }
+      try {
+        await service.openDiff(item.entry);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Diff failed: ${(error as Error).message}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('sshLite.compareCopyToRight', copy('toRight')),
+    vscode.commands.registerCommand('sshLite.compareCopyToLeft', copy('toLeft')),
+
+    vscode.commands.registerCommand('sshLite.refreshFolderCompare', async () => {
+      try {
+        await service.refresh();
+      } catch (error) {
+        vscode.window.showErrorMessage(`Compare failed: ${(error as Error).message}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('sshLite.closeFolderCompare', () => service.clear()),
+  ];
+}
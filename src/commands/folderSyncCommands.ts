@@ -0,0 +1,240 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConnectionManager } from '../connection/ConnectionManager';
+import { SSHConnection } from '../connection/SSHConnection';
+import { FolderSyncService } from '../services/FolderSyncService';
+import { HostService } from '../services/HostService';
+import { SyncProfileTreeItem } from '../providers/HostTreeProvider';
+import { IRemoteFile, ISyncProfile, SyncDirection } from '../types';
+import { hasCapability } from '../utils/capabilityGuard';
+import { parseExcludes } from '../utils/folderSync';
+import { infoLog } from '../utils/diagnosticLog';
+import { pickConnection } from './sshToolsCommands';
+
+export interface FolderSyncContext {
+  /** Re-list a remote folder in the file tree after a sync changed it */
+  refreshFolder(connectionId: string, folderPath: string): void;
+}
+
+const DIRECTIONS: Array<{ label: string; description: string; direction: SyncDirection }> = [
+  { label: '$(arrow-swap) Two-way', description: 'Newer side wins; changes on both sides are conflicts', direction: 'both' },
+  { label: '$(cloud-upload) Upload only', description: 'Local → server', direction: 'upload' },
+  { label: '$(cloud-download) Download only', description: 'Server → local', direction: 'download' },
+];
+
+/**
+ * A right-clicked remote folder arrives as a FileTreeItem. Duck-typed like
+ * resolvePreselect() in sshToolsCommands to keep the file tree out of here.
+ */
+export function asRemoteFolder(arg: unknown): { connection: SSHConnection; file: IRemoteFile } | undefined {
+  const a = arg as { connection?: SSHConnection; file?: IRemoteFile } | undefined;
+  return a?.connection && a.file?.isDirectory ? { connection: a.connection, file: a.file } : undefined;
+}
+
+/** Remote folder typed from the palette, starting at the server's home; absolute paths only */
+async function askRemoteFolder(connection: SSHConnection): Promise<string | undefined> {
+  let home = '/';
+  try {
+    home = await connection.resolveHomePath();
+  } catch {
+    // Leave the box at / rather than refuse to ask
+  }
+  const value = await vscode.window.showInputBox({
+    prompt: `Remote folder on ${connection.host.name} (absolute path)`,
+    value: home,
+    ignoreFocusOut: true,
+    validateInput: (v) => (v.trim().startsWith('/') ? null : 'Enter an absolute path, starting with /'),
+  });
+  return value?.trim() || undefined;
+}
+
+async function askDirection(current?: SyncDirection): Promise<SyncDirection | undefined> {
+  const pick = await vscode.window.showQuickPick(
+    DIRECTIONS.map((d) => ({ ...d, picked: d.direction === current })),
+    { placeHolder: 'Which way should changes go?', ignoreFocusOut: true }
+  );
+  return pick?.direction;
+}
+
+async function askExcludes(current: string[]): Promise<string[] | undefined> {
+  const value = await vscode.window.showInputBox({
+    prompt: 'Exclude (comma-separated globs; a name without / matches anywhere, e.g. node_modules, *.log, dist/**)',
+    value: current.join(', '),
+    ignoreFocusOut: true,
+  });
+  return value === undefined ? undefined : parseExcludes(value);
+}
+
+async function askChecksum(connection: SSHConnection, current = false): Promise<boolean | undefined> {
+  if (!hasCapability(connection, 'supportsExec')) {
+    return false;
+  }
+  const pick = await vscode.window.showQuickPick(
+    [
+      { label: 'Size and modification time', description: 'Fast', checksum: false, picked: !current },
+      { label: 'Checksum (sha256) when sizes match', description: 'Reads every same-size file on both sides', checksum: true, picked: current },
+    ],
+    { placeHolder: 'How should files be compared?', ignoreFocusOut: true }
+  );
+  return pick?.checksum;
+}
+
+/** The profile's connection, connecting first if needed */
+async function connectionFor(profile: ISyncProfile): Promise<SSHConnection | undefined> {
+  const manager = ConnectionManager.getInstance();
+  const existing = manager.getConnection(profile.hostId);
+  if (existing) {
+    return existing;
+  }
+  const host = HostService.getInstance().getAllHosts().find((h) => h.id === profile.hostId);
+  if (!host) {
+    vscode.window.showErrorMessage(`The host for sync "${profile.name}" no longer exists.`);
+    return undefined;
+  }
+  return vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: `Connecting to ${host.name}...`, cancellable: false },
+    () => manager.connect(host)
+  );
+}
+
+async function pickProfile(placeHolder: string): Promise<ISyncProfile | undefined> {
+  const profiles = FolderSyncService.getInstance().getProfiles();
+  if (profiles.length === 0) {
+    vscode.window.showInformationMessage('No sync profiles yet. Right-click a remote folder and choose "Sync with Local Folder...".');
+    return undefined;
+  }
+  const pick = await vscode.window.showQuickPick(
+    profiles.map((p) => ({ label: p.name, description: `${p.localPath} ⇄ ${p.remotePath}`, profile: p })),
+    { placeHolder }
+  );
+  return pick?.profile;
+}
+
+async function runProfile(ctx: FolderSyncContext, profile: ISyncProfile): Promise<void> {
+  let connection: SSHConnection | undefined;
+  try {
+    connection = await connectionFor(profile);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Connection failed: ${(error as Error).message}`);
+    return;
+  }
+  if (!connection) {
+    return;
+  }
+  const result = await FolderSyncService.getInstance().run(connection, profile);
+  if (result && result.applied > 0) {
+    ctx.refreshFolder(connection.id, profile.remotePath);
+  }
+}
+
+export function registerFolderSyncCommands(ctx: FolderSyncContext): vscode.Disposable[] {
+  const service = FolderSyncService.getInstance();
+  const disposables: vscode.Disposable[] = [];
+
+  // New profile from a remote folder (or, from the palette, a connection and a typed path), then run it
+  disposables.push(vscode.commands.registerCommand('sshLite.newSyncProfile', async (arg?: unknown) => {
+    const folder = asRemoteFolder(arg);
+    const connection = folder?.connection ?? (await pickConnection('Pick host to sync with', arg));
+    if (!connection) { return; }
+    const remotePath = folder?.file.path ?? (await askRemoteFolder(connection));
+    if (!remotePath) { return; }
+
+    const picked = await vscode.window.showOpenDialog({
+      canSelectFolders: true,
+      canSelectFiles: false,
+      canSelectMany: false,
+      openLabel: 'Sync with This Folder',
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+    });
+    if (!picked || picked.length === 0) { return; }
+    const localPath = picked[0].fsPath;
+
+    const direction = await askDirection('both');
+    if (!direction) { return; }
+    const defaults = vscode.workspace.getConfiguration('sshLite').get<string[]>('syncDefaultExcludes', []);
+    const excludes = await askExcludes(defaults);
+    if (!excludes) { return; }
+    const useChecksum = await askChecksum(connection);
+    if (useChecksum === undefined) { return; }
+    const name = await vscode.window.showInputBox({
+      prompt: 'Name this sync (re-run it later from the host in the SSH Hosts view)',
+      value: `${path.basename(localPath)} ⇄ ${path.posix.basename(remotePath) || remotePath}`,
+      ignoreFocusOut: true,
+      validateInput: (v) => (v && v.trim() ? null : 'Name is required'),
+    });
+    if (!name) { return; }
+
+    const profile = await service.saveProfile({
+      name: name.trim(),
+      hostId: connection.id,
+      localPath,
+      remotePath,
+      direction,
+      excludes,
+      useChecksum,
+    });
+    infoLog('folder-sync', 'profile/created', { profile: profile.id, direction, excludes: excludes.length, useChecksum });
+    await runProfile(ctx, profile);
+  }));
+
+  disposables.push(vscode.commands.registerCommand('sshLite.runSyncProfile', async (item?: SyncProfileTreeItem) => {
+    const profile = item?.profile ?? (await pickProfile('Pick a sync to run'));
+    if (!profile) { return; }
+    await runProfile(ctx, service.getProfile(profile.id) ?? profile);
+  }));
+
+  disposables.push(vscode.commands.registerCommand('sshLite.editSyncProfile', async (item?: SyncProfileTreeItem) => {
+    const chosen = item?.profile ?? (await pickProfile('Pick a sync to edit'));
+    const profile = chosen && service.getProfile(chosen.id);
+    if (!profile) { return; }
+    const field = await vscode.window.showQuickPick(
+      [
+        { label: 'Rename', key: 'name' },
+        { label: 'Direction', description: DIRECTIONS.find((d) => d.direction === profile.direction)?.description, key: 'direction' },
+        { label: 'Excludes', description: profile.excludes.join(', ') || '(none)', key: 'excludes' },
+        { label: 'Comparison', description: profile.useChecksum ? 'Checksum' : 'Size and modification time', key: 'checksum' },
+      ],
+      { placeHolder: `Edit sync "${profile.name}"` }
+    );
+    if (!field) { return; }
+
+    const updated = { ...profile };
+    if (field.key === 'name') {
+      const name = await vscode.window.showInputBox({ prompt: 'New name', value: profile.name, ignoreFocusOut: true });
+      if (!name?.trim()) { return; }
+      updated.name = name.trim();
+    } else if (field.key === 'direction') {
+      const direction = await askDirection(profile.direction);
+      if (!direction) { return; }
+      updated.direction = direction;
+    } else if (field.key === 'excludes') {
+      const excludes = await askExcludes(profile.excludes);
+      if (!excludes) { return; }
+      updated.excludes = excludes;
+    } else {
+      const connection = ConnectionManager.getInstance().getConnection(profile.hostId);
+      // Offline: offer both; the scan falls back to size and time if the server has no shell
+      const useChecksum = connection
+        ? await askChecksum(connection, profile.useChecksum)
+        : (await vscode.window.showQuickPick(['Size and modification time', 'Checksum (sha256) when sizes match'], { placeHolder: 'How should files be compared?' }))?.startsWith('Checksum');
+      if (useChecksum === undefined) { return; }
+      updated.useChecksum = useChecksum;
+    }
+    await service.saveProfile(updated);
+    vscode.window.setStatusBarMessage(`$(check) Sync "${updated.name}" updated`, 3000);
+  }));
+
+  disposables.push(vscode.commands.registerCommand('sshLite.deleteSyncProfile', async (item?: SyncProfileTreeItem) => {
+    const profile = item?.profile ?? (await pickProfile('Pick a sync to delete'));
+    if (!profile) { return; }
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete sync "${profile.name}"? No files are touched.`,
+      'Delete'
+    );
+    if (confirm !== 'Delete') { return; }
+    await service.deleteProfile(profile.id);
+    vscode.window.setStatusBarMessage('$(trash) Sync deleted', 3000);
+  }));
+
+  return disposables;
+}
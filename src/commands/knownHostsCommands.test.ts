@@ -0,0 +1,164 @@
+/**
+ * knownHostsCommands tests
+ *
+ * Covers:
+ *  - parseHostPort: host, host:port, [host]:port, malformed input
+ *  - removeKnownHost: confirm → removeEntry / removeLegacyPin; cancel does nothing
+ *  - repinKnownHost: fetches the key, confirms, rewrites the entry in its own file;
+ *    asks for the host of a hashed entry; unchanged key short-circuits; errors are shown
+ */
+
+import * as vscode from 'vscode';
+
+var mockFetchHostKey = jest.fn();
+var mockRemoveEntry = jest.fn().mockResolvedValue(undefined);
+var mockAddHostKey = jest.fn().mockResolvedValue(undefined);
+var mockReplaceHostKey = jest.fn().mockResolvedValue(undefined);
+var mockRemoveLegacyPin = jest.fn().mockResolvedValue(undefined);
+
+jest.mock('../services/KnownHostsService', () => ({
+  KnownHostsService: {
+    getInstance: jest.fn().mockImplementation(() => ({
+      fetchHostKey: mockFetchHostKey,
+      removeEntry: mockRemoveEntry,
+      addHostKey: mockAddHostKey,
+      replaceHostKey: mockReplaceHostKey,
+      removeLegacyPin: mockRemoveLegacyPin,
+      onDidChange: jest.fn(),
+    })),
+  },
+}));
+
+import { registerKnownHostsCommands, parseHostPort } from './knownHostsCommands';
+import { KnownHostEntryTreeItem, LegacyPinTreeItem } from '../providers/KnownHostsTreeProvider';
+import { KnownHostEntry } from '../utils/knownHosts';
+import { resetWindowMocks } from '../__mocks__/vscode';
+
+function keyBlob(seed: string): Buffer {
+  const t = Buffer.from('ssh-ed25519');
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(t.length);
+  return Buffer.concat([len, t, Buffer.from(seed)]);
+}
+
+const OLD = keyBlob('old');
+const NEW = keyBlob('new');
+
+function entry(overrides: Partial<KnownHostEntry> = {}): KnownHostEntry {
+  return {
+    file: '/home/u/.ssh/known_hosts',
+    line: 3,
+    raw: 'x',
+    hosts: '*.prod,[web]:2222',
+    hashed: false,
+    keyType: 'ssh-ed25519',
+    key: OLD.toString('base64'),
+    ...overrides,
+  };
+}
+
+describe('parseHostPort', () => {
+  it('parses the accepted forms', () => {
+    expect(parseHostPort('web')).toEqual({ host: 'web', port: 22 });
+    expect(parseHostPort('web:2222')).toEqual({ host: 'web', port: 2222 });
+    expect(parseHostPort('[::1]:2222')).toEqual({ host: '::1', port: 2222 });
+    expect(parseHostPort('::1')).toEqual({ host: '::1', port: 22 });
+  });
+  it('rejects empty or malformed input', () => {
+    expect(parseHostPort('')).toBeUndefined();
+    expect(parseHostPort(':22')).toBeUndefined();
+    expect(parseHostPort('a b')).toBeUndefined();
+  });
+});
+
+describe('known hosts commands', () => {
+  let disposables: vscode.Disposable[];
+  const provider = { refresh: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetWindowMocks();
+    disposables = registerKnownHostsCommands(provider as any);
+  });
+  afterEach(() => disposables.forEach((d) => d.dispose()));
+
+  it('refresh refreshes the view', async () => {
+    await vscode.commands.executeCommand('sshLite.refreshKnownHosts');
+    expect(provider.refresh).toHaveBeenCalled();
+  });
+
+  describe('removeKnownHost', () => {
+    it('removes the entry after confirmation', async () => {
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Remove');
+      const item = new KnownHostEntryTreeItem(entry());
+      await vscode.commands.executeCommand('sshLite.removeKnownHost', item);
+      expect(mockRemoveEntry).toHaveBeenCalledWith(item.entry);
+    });
+
+    it('removes a legacy pin', async () => {
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Remove');
+      await vscode.commands.executeCommand('sshLite.removeKnownHost', new LegacyPinTreeItem({ hostPort: 'web:22', fingerprint: 'x' }));
+      expect(mockRemoveLegacyPin).toHaveBeenCalledWith('web:22');
+    });
+
+    it('does nothing when cancelled', async () => {
+      await vscode.commands.executeCommand('sshLite.removeKnownHost', new KnownHostEntryTreeItem(entry()));
+      expect(mockRemoveEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('repinKnownHost', () => {
+    it('fetches from the first concrete host and rewrites the entry in its own file', async () => {
+      mockFetchHostKey.mockResolvedValueOnce(NEW);
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Pin Key');
+      const item = new KnownHostEntryTreeItem(entry());
+      await vscode.commands.executeCommand('sshLite.repinKnownHost', item);
+
+      expect(mockFetchHostKey).toHaveBeenCalledWith('web', 2222);
+      expect(mockRemoveEntry).toHaveBeenCalledWith(item.entry);
+      expect(mockAddHostKey).toHaveBeenCalledWith('web', 2222, NEW, {
+        userKnownHostsFiles: ['/home/u/.ssh/known_hosts'],
+        hashKnownHosts: false,
+      });
+    });
+
+    it('adds to the user file when the old entry cannot be removed (read-only file)', async () => {
+      mockFetchHostKey.mockResolvedValueOnce(NEW);
+      mockRemoveEntry.mockRejectedValueOnce(new Error('EACCES'));
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Pin Key');
+      await vscode.commands.executeCommand('sshLite.repinKnownHost', new KnownHostEntryTreeItem(entry({ file: '/etc/ssh/ssh_known_hosts' })));
+      expect(mockAddHostKey).toHaveBeenCalledWith('web', 2222, NEW, undefined);
+      expect(vscode.window.showErrorMessage).not.toHaveBeenCalled();
+    });
+
+    it('asks which host a hashed entry belongs to', async () => {
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('db.prod:2200');
+      mockFetchHostKey.mockResolvedValueOnce(NEW);
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Pin Key');
+      await vscode.commands.executeCommand('sshLite.repinKnownHost', new KnownHostEntryTreeItem(entry({ hosts: '|1|a|b', hashed: true })));
+      expect(mockFetchHostKey).toHaveBeenCalledWith('db.prod', 2200);
+      expect(mockAddHostKey).toHaveBeenCalledWith('db.prod', 2200, NEW, expect.objectContaining({ hashKnownHosts: true }));
+    });
+
+    it('stops when the server still presents the pinned key', async () => {
+      mockFetchHostKey.mockResolvedValueOnce(OLD);
+      await vscode.commands.executeCommand('sshLite.repinKnownHost', new KnownHostEntryTreeItem(entry()));
+      expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+      expect(mockRemoveEntry).not.toHaveBeenCalled();
+    });
+
+    it('replaces a legacy pin with a known_hosts entry', async () => {
+      mockFetchHostKey.mockResolvedValueOnce(NEW);
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Pin Key');
+      await vscode.commands.executeCommand('sshLite.repinKnownHost', new LegacyPinTreeItem({ hostPort: 'web:22', fingerprint: 'x' }));
+      expect(mockReplaceHostKey).toHaveBeenCalledWith('web', 22, NEW);
+      expect(mockRemoveLegacyPin).toHaveBeenCalledWith('web:22');
+    });
+
+    it('shows fetch errors', async () => {
+      mockFetchHostKey.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+      await vscode.commands.executeCommand('sshLite.repinKnownHost', new KnownHostEntryTreeItem(entry()));
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('ECONNREFUSED'));
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import { KnownHostsService } from '../services/KnownHostsService';
+import {
+  KnownHostsTreeProvider,
+  KnownHostsFileTreeItem,
+  KnownHostEntryTreeItem,
+  LegacyPinTreeItem,
+} from '../providers/KnownHostsTreeProvider';
+import { KnownHostEntry, fingerprintSHA256, hostKeyType, knownHostsName } from '../utils/knownHosts';
+import { infoLog } from '../utils/diagnosticLog';
+
+/** `host`, `host:port` or `[host]:port` → host/port, or undefined if malformed. */
+export function parseHostPort(value: string): { host: string; port: number } | undefined {
+  const trimmed = value.trim();
+  const bracketed = trimmed.match(/^\[([^\]]+)\]:(\d+)$/);
+  if (bracketed) {
+    return { host: bracketed[1], port: parseInt(bracketed[2], 10) };
+  }
+  const parts = trimmed.split(':');
+  if (parts.length === 2 && /^\d+$/.test(parts[1])) {
+    return parts[0] ? { host: parts[0], port: parseInt(parts[1], 10) } : undefined;
+  }
+  if (trimmed && !/\s/.test(trimmed)) {
+    return { host: trimmed, port: 22 }; // bare host (or unbracketed IPv6)
+  }
+  return undefined;
+}
+
+/** The concrete host an entry pins, if its host field names one (not hashed, not only wildcards). */
+function entryTarget(entry: KnownHostEntry): { host: string; port: number } | undefined {
+  if (entry.hashed) {
+    return undefined;
+  }
+  const name = entry.hosts.split(',').find((p) => !p.startsWith('!') && !/[*?]/.test(p));
+  return name ? parseHostPort(name) : undefined;
+}
+
+async function askHostPort(placeHolder?: string): Promise<{ host: string; port: number } | undefined> {
+  const value = await vscode.window.showInputBox({
+    prompt: 'Host to fetch the current key from (host, host:port or [host]:port)',
+    value: placeHolder,
+    ignoreFocusOut: true,
+    validateInput: (v) => (parseHostPort(v) ? null : 'Enter host, host:port or [host]:port'),
+  });
+  return value ? parseHostPort(value) : undefined;
+}
+
+/**
+ * Fetch the key the server presents now and pin it in place of the old one.
+ * The replacement goes into the same file (keeping it hashed if it was) unless
+ * that file is read-only, in which case the user known_hosts file gets it.
+ */
+async function repin(item: KnownHostEntryTreeItem | LegacyPinTreeItem): Promise<void> {
+  const service = KnownHostsService.getInstance();
+  const entry = item instanceof KnownHostEntryTreeItem ? item.entry : undefined;
+  const known = entry ? entryTarget(entry) : parseHostPort(item instanceof LegacyPinTreeItem ? item.pin.hostPort : '');
+  const target = known ?? (await askHostPort());
+  if (!target) {
+    return;
+  }
+  const name = knownHostsName(target.host, target.port);
+
+  const key = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: `Fetching host key from ${name}...` },
+    () => service.fetchHostKey(target.host, target.port)
+  );
+  const fingerprint = fingerprintSHA256(key);
+  if (entry && entry.key === key.toString('base64')) {
+    vscode.window.showInformationMessage(`${name} still presents the pinned key (${fingerprint}).`);
+    return;
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `Pin the key ${name} presents now?\n\n` +
+    (entry ? `Old: ${fingerprintSHA256(entry.key)} (${entry.keyType})\n` : '') +
+    `New: ${fingerprint} (${hostKeyType(key)})\n\n` +
+    `Only do this if you know why the key changed.`,
+    { modal: true },
+    'Pin Key'
+  );
+  if (choice !== 'Pin Key') {
+    return;
+  }
+
+  if (entry) {
+    let targetFile: string | undefined;
+    try {
+      await service.removeEntry(entry);
+      targetFile = entry.file;
+    } catch (err) {
+      // Read-only (e.g. /etc/ssh/ssh_known_hosts): the user file entry takes precedence
+      infoLog('known-hosts', 'repin: old entry kept', { file: entry.file, message: err instanceof Error ? err.message : String(err) });
+    }
+    await service.addHostKey(
+      target.host,
+      target.port,
+      key,
+      targetFile ? { userKnownHostsFiles: [targetFile], hashKnownHosts: entry.hashed } : undefined
+    );
+  } else {
+    await service.replaceHostKey(target.host, target.port, key);
+    if (item instanceof LegacyPinTreeItem) {
+      await service.removeLegacyPin(item.pin.hostPort);
+    }
+  }
+  infoLog('known-hosts', 'repinned', { host: name, fingerprint });
+  vscode.window.setStatusBarMessage(`$(check) Pinned ${fingerprint} for ${name}`, 3000);
+}
+
+async function remove(item: KnownHostEntryTreeItem | LegacyPinTreeItem): Promise<void> {
+  const service = KnownHostsService.getInstance();
+  const what = item instanceof KnownHostEntryTreeItem
+    ? `the ${item.entry.keyType} key for ${item.entry.hashed ? 'a hashed host' : item.entry.hosts} from ${item.entry.file}`
+    : `the pinned fingerprint for ${item.pin.hostPort}`;
+  const choice = await vscode.window.showWarningMessage(
+    `Remove ${what}?\n\nYou will be asked to verify the host key on the next connect.`,
+    { modal: true },
+    'Remove'
+  );
+  if (choice !== 'Remove') {
+    return;
+  }
+  if (item instanceof KnownHostEntryTreeItem) {
+    await service.removeEntry(item.entry);
+  } else {
+    await service.removeLegacyPin(item.pin.hostPort);
+  }
+}
+
+/**
+ * Commands of the Known Hosts view.
+ */
+export function registerKnownHostsCommands(provider: KnownHostsTreeProvider): vscode.Disposable[] {
+  const run = (name: string, fn: () => Promise<void>) => async (): Promise<void> => {
+    try {
+      await fn();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      infoLog('known-hosts', `${name}-error`, { message });
+      vscode.window.showErrorMessage(`SSH Lite: ${message}`);
+    }
+  };
+
+  return [
+    vscode.commands.registerCommand('sshLite.refreshKnownHosts', () => provider.refresh()),
+    vscode.commands.registerCommand('sshLite.repinKnownHost', (item?: KnownHostEntryTreeItem | LegacyPinTreeItem) =>
+      item ? run('repin', () => repin(item))() : undefined
+    ),
+    vscode.commands.registerCommand('sshLite.removeKnownHost', (item?: KnownHostEntryTreeItem | LegacyPinTreeItem) =>
+      item ? run('remove', () => remove(item))() : undefined
+    ),
+    vscode.commands.registerCommand('sshLite.openKnownHostsFile', async (item?: KnownHostsFileTreeItem) => {
+      if (item) {
+        await vscode.window.showTextDocument(vscode.Uri.file(item.file));
+      }
+    }),
+  ];
+}
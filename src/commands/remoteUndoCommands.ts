@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import { ConnectionManager } from '../connection/ConnectionManager';
+import { SSHConnection } from '../connection/SSHConnection';
+import { RemoteUndoService, UndoEntry, affectedFolders } from '../services/RemoteUndoService';
+import { formatRelativeTime } from '../utils/helpers';
+
+export interface RemoteUndoContext {
+  /** Re-list a remote folder in the file tree after an undo changed it */
+  refreshFolder(connectionId: string, folderPath: string): void;
+  /** The file tree selection, for keybinding invocations that pass no item */
+  getSelection(): readonly unknown[];
+}
+
+/**
+ * The connection to undo on: the clicked or selected item's, when it has
+ * history, otherwise the one with the newest operation.
+ */
+function resolveConnection(ctx: RemoteUndoContext, arg: unknown, stack: 'undo' | 'redo'): SSHConnection | undefined {
+  const service = RemoteUndoService.getInstance();
+  const item = (arg ?? ctx.getSelection()[0]) as { connection?: SSHConnection } | undefined;
+  const has = (id: string) => (stack === 'undo' ? service.canUndo(id) : service.canRedo(id));
+  if (item?.connection && has(item.connection.id)) {
+    return item.connection;
+  }
+  const id = service.latestConnectionId(stack);
+  return id ? ConnectionManager.getInstance().getConnection(id) : undefined;
+}
+
+/**
+ * Undo or redo `count` entries on one connection, refreshing every folder
+ * they touched. Stops at the first failure and reports it.
+ */
+async function step(
+  ctx: RemoteUndoContext,
+  connection: SSHConnection,
+  direction: 'undo' | 'redo',
+  count = 1
+): Promise<void> {
+  const service = RemoteUndoService.getInstance();
+  const applied: UndoEntry[] = [];
+  try {
+    for (let i = 0; i < count; i++) {
+      const entry = direction === 'undo' ? await service.undo(connection) : await service.redo(connection);
+      if (!entry) { break; }
+      applied.push(entry);
+    }
+    if (applied.length > 0) {
+      const what = applied.length === 1 ? applied[0].label : `${applied.length} operations`;
+      vscode.window.setStatusBarMessage(`$(${direction === 'undo' ? 'discard' : 'redo'}) ${direction === 'undo' ? 'Undid' : 'Redid'}: ${what}`, 3000);
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`${direction === 'undo' ? 'Undo' : 'Redo'} failed on ${connection.host.name}: ${(error as Error).message}`);
+  } finally {
+    // What was applied now sits on the other stack, a partly applied batch included
+    const history = service.getHistory(connection.id);
+    const done = (direction === 'undo' ? history.redo : history.undo).slice(0, applied.length + 1);
+    const folders = new Set(done.flatMap((e) => e.steps.flatMap(affectedFolders)));
+    for (const folder of folders) {
+      ctx.refreshFolder(connection.id, folder);
+    }
+  }
+}
+
+export function registerRemoteUndoCommands(ctx: RemoteUndoContext): vscode.Disposable[] {
+  const service = RemoteUndoService.getInstance();
+
+  return [
+    vscode.commands.registerCommand('sshLite.undoRemoteOperation', async (arg?: unknown) => {
+      const connection = resolveConnection(ctx, arg, 'undo');
+      if (!connection) {
+        vscode.window.setStatusBarMessage('$(info) Nothing to undo', 3000);
+        return;
+      }
+      await step(ctx, connection, 'undo');
+    }),
+
+    vscode.commands.registerCommand('sshLite.redoRemoteOperation', async (arg?: unknown) => {
+      const connection = resolveConnection(ctx, arg, 'redo');
+      if (!connection) {
+        vscode.window.setStatusBarMessage('$(info) Nothing to redo', 3000);
+        return;
+      }
+      await step(ctx, connection, 'redo');
+    }),
+
+    // Timeline, newest first: undone entries above the undoable ones. Picking
+    // an entry redoes or undoes everything up to it.
+    vscode.commands.registerCommand('sshLite.showRemoteOperationHistory', async (arg?: unknown) => {
+      const connection = resolveConnection(ctx, arg, 'undo') ?? resolveConnection(ctx, arg, 'redo');
+      if (!connection) {
+        vscode.window.showInformationMessage('No remote operations to undo or redo.');
+        return;
+      }
+      const { undo, redo } = service.getHistory(connection.id);
+      type Item = vscode.QuickPickItem & { action?: 'undo' | 'redo' | 'clear'; count?: number };
+      const describe = (e: UndoEntry) =>
+        `${formatRelativeTime(e.timestamp)}${e.steps.length > 1 ? ` · ${e.steps.length} items` : ''}`;
+      const items: Item[] = [
+        ...[...redo].reverse().map((e, i): Item => ({
+          label: `$(redo) ${e.label}`, description: `undone · ${describe(e)}`, action: 'redo', count: redo.length - i,
+        })),
+        ...undo.map((e, i): Item => ({ label: `$(discard) ${e.label}`, description: describe(e), action: 'undo', count: i + 1 })),
+        { label: '$(clear-all) Clear History', action: 'clear' },
+      ];
+      const pick = await vscode.window.showQuickPick(items, {
+        placeHolder: `Operations on ${connection.host.name}: pick one to undo or redo back to it`,
+        ignoreFocusOut: true,
+      });
+      if (!pick?.action) { return; }
+      if (pick.action === 'clear') {
+        service.clear(connection.id);
+        return;
+      }
+      await step(ctx, connection, pick.action, pick.count);
+    }),
+  ];
+}
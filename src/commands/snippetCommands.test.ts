@@ -2,7 +2,7 @@
  * snippetCommands tests
  *
  * Covers:
- *  - runSnippet: no connections, cancelled pick, runs snippet + shows output
+ *  - runSnippet: no connections, cancelled pick, runs snippet + shows output, failing exit
  *  - addSnippet: cancelled name/command, saves snippet
  *  - manageSnippets: no user snippets info, delete/rename/update flows
  */
@@ -26,6 +26,14 @@ var mockRename = jest.fn().mockResolvedValue(true);
 var mockUpdate = jest.fn().mockResolvedValue(true);
 var mockRemove = jest.fn().mockResolvedValue(true);
 
+jest.mock('../services/CommandGuard', () => ({
+  CommandGuard: {
+    getInstance: jest.fn().mockReturnValue({
+      execDetailed: (conn: any, cmd: string, opts?: unknown) => conn.execDetailed(cmd, opts),
+    }),
+  },
+}));
+
 jest.mock('../services/SnippetService', () => ({
   SnippetService: {
     getInstance: jest.fn().mockImplementation(() => ({
@@ -51,8 +59,11 @@ function makeOutputChannel() {
 function makeContext(outputChannel = makeOutputChannel()): ToolsContext {
   return { log: jest.fn(), logResult: jest.fn(), envProvider: {} as any, cronProvider: {} as any, outputChannel };
 }
-function makeConn(id: string, name: string, execResult = '') {
-  return { id, state: 'connected', host: { name, host: name, port: 22, username: 'u' }, exec: jest.fn().mockResolvedValue(execResult) };
+function result(stdout = '', exitCode = 0, stderr = '') {
+  return { stdout, stderr, exitCode, durationMs: 8 };
+}
+function makeConn(id: string, name: string, stdout = '') {
+  return { id, state: 'connected', host: { name, host: name, port: 22, username: 'u' }, execDetailed: jest.fn().mockResolvedValue(result(stdout)) };
 }
 
 describe('runSnippet', () => {
@@ -74,7 +85,7 @@ describe('runSnippet', () => {
     mockGetAll.mockReturnValue([{ id: 'b1', name: 'Disk', command: 'df -h', builtin: true }]);
     (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce(undefined);
     await vscode.commands.executeCommand('sshLite.runSnippet');
-    expect(conn.exec).not.toHaveBeenCalled();
+    expect(conn.execDetailed).not.toHaveBeenCalled();
   });
 
   it('executes snippet and shows output', async () => {
@@ -84,14 +95,14 @@ describe('runSnippet', () => {
     mockGetAll.mockReturnValue([snip]);
     (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce({ snip });
     await vscode.commands.executeCommand('sshLite.runSnippet');
-    expect(conn.exec).toHaveBeenCalledWith('df -h');
+    expect(conn.execDetailed).toHaveBeenCalledWith('df -h', expect.anything());
     expect(ctx.outputChannel.show).toHaveBeenCalled();
     expect(ctx.logResult).toHaveBeenCalledWith('runSnippet', true, snip.name);
   });
 
   it('shows error message on exec failure', async () => {
     const conn = makeConn('a', 'A');
-    conn.exec.mockRejectedValueOnce(new Error('connection lost'));
+    conn.execDetailed.mockRejectedValueOnce(new Error('connection lost'));
     mockGetAllConnections.mockReturnValue([conn]);
     const snip = { id: 'b1', name: 'Disk', command: 'df', builtin: true };
     mockGetAll.mockReturnValue([snip]);
@@ -99,6 +110,22 @@ describe('runSnippet', () => {
     await vscode.commands.executeCommand('sshLite.runSnippet');
     expect(vscode.window.showErrorMessage).toHaveBeenCalled();
   });
+
+  it('shows the output and stderr, then reports a failing exit code', async () => {
+    const conn = makeConn('a', 'A');
+    conn.execDetailed.mockResolvedValueOnce(result('', 1, 'df: /mnt/gone: No such file or directory'));
+    mockGetAllConnections.mockReturnValue([conn]);
+    const snip = { id: 'u1', name: 'Mount', command: 'df /mnt/gone', builtin: false };
+    mockGetAll.mockReturnValue([snip]);
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce({ snip });
+    await vscode.commands.executeCommand('sshLite.runSnippet');
+
+    const lines = (ctx.outputChannel.appendLine as jest.Mock).mock.calls.map((c) => c[0]);
+    expect(lines).toContain('df: /mnt/gone: No such file or directory');
+    expect(lines).toContain('── exit 1 · 8 ms ──');
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith('Snippet failed: Exit code 1: df: /mnt/gone: No such file or directory');
+    expect(ctx.logResult).toHaveBeenCalledWith('runSnippet', false, expect.stringContaining('Exit code 1'));
+  });
 });
 
 describe('addSnippet', () => {
@@ -1,12 +1,10 @@
 import * as vscode from 'vscode';
 import { SSHConnection } from '../connection/SSHConnection';
+import { CommandGuard } from '../services/CommandGuard';
 import { SnippetService } from '../services/SnippetService';
+import { checkExecResult } from '../utils/execResult';
 import { ToolsContext, pickConnection } from './sshToolsCommands';
 
-async function runOnConnection(connection: SSHConnection, command: string): Promise<string> {
-  return connection.exec(command);
-}
-
 export function registerSnippetCommands(ctx: ToolsContext): vscode.Disposable[] {
   const { log, logResult, outputChannel } = ctx;
   const disposables: vscode.Disposable[] = [];
@@ -27,12 +25,18 @@ export function registerSnippetCommands(ctx: ToolsContext): vscode.Disposable[]
     if (!pick) { return; }
     log('runSnippet', pick.snip.name);
     try {
-      const out = await runOnConnection(connection, pick.snip.command);
+      const result = await CommandGuard.getInstance().execDetailed(connection, pick.snip.command, { description: 'Snippet: ' + pick.snip.name });
       outputChannel.appendLine('\n── ' + pick.snip.name + ' on ' + connection.host.name + ' ──');
       outputChannel.appendLine(pick.snip.command);
       outputChannel.appendLine('');
-      outputChannel.appendLine(out);
+      outputChannel.appendLine(result.stdout);
+      if (result.stderr.trim()) {
+        outputChannel.appendLine('[stderr]');
+        outputChannel.appendLine(result.stderr);
+      }
+      outputChannel.appendLine('── exit ' + (result.exitCode ?? result.signal ?? '?') + ' · ' + result.durationMs + ' ms ──');
       outputChannel.show(true);
+      checkExecResult(result);
       logResult('runSnippet', true, pick.snip.name);
     } catch (err) {
       logResult('runSnippet', false, (err as Error).message);
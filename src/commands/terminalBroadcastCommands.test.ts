@@ -0,0 +1,166 @@
+/**
+ * terminalBroadcastCommands tests
+ *
+ * Covers:
+ *  - startBroadcast: needs two picks, leader is the focused terminal, opens
+ *    terminals on picked hosts, confirms across PRD/DEV-style tab labels
+ *  - hosts whose terminal fails to open are left out, or the opened
+ *    terminals closed when too few remain
+ *  - toggleBroadcastMember: given or focused member toggles, otherwise pick members
+ *  - mixedTabLabels
+ */
+
+import * as vscode from 'vscode';
+
+var mockConnections: any[] = [];
+jest.mock('./sshToolsCommands', () => ({ getConnectedConnections: () => mockConnections }));
+
+var mockService = {
+  getTerminals: jest.fn(),
+  createTerminal: jest.fn(),
+  startBroadcast: jest.fn(),
+  stopBroadcast: jest.fn(),
+  getBroadcast: jest.fn(),
+  setBroadcastPaused: jest.fn(),
+};
+jest.mock('../services/TerminalService', () => ({
+  TerminalService: { getInstance: () => mockService },
+}));
+
+import { registerTerminalBroadcastCommands, mixedTabLabels } from './terminalBroadcastCommands';
+import { resetWindowMocks } from '../__mocks__/vscode';
+
+const host = (name: string, tabLabel?: string): any => ({ name, host: `${name}.lan`, username: 'ops', tabLabel });
+const term = (name: string): any => ({ name, show: jest.fn(), dispose: jest.fn() });
+
+describe('terminal broadcast commands', () => {
+  let disposables: vscode.Disposable[];
+  const t1 = term('SSH: web1');
+  const t2 = term('SSH: web2');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetWindowMocks();
+    mockConnections = [];
+    mockService.getTerminals.mockReturnValue([
+      { terminal: t1, connectionId: 'web1', host: host('web1') },
+      { terminal: t2, connectionId: 'web2', host: host('web2') },
+    ]);
+    (vscode.window as any).activeTerminal = t2;
+    disposables = registerTerminalBroadcastCommands();
+  });
+
+  afterEach(() => {
+    (vscode.window as any).activeTerminal = undefined;
+    disposables.forEach((d) => d.dispose());
+  });
+
+  it('leads from the focused terminal', async () => {
+    (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(async (items: any[]) => items);
+    await vscode.commands.executeCommand('sshLite.startBroadcast');
+
+    const items = (vscode.window.showQuickPick as jest.Mock).mock.calls[0][0];
+    expect(items.map((i: any) => i.picked)).toEqual([false, true]);
+    expect(mockService.startBroadcast).toHaveBeenCalledWith(t2, [t1, t2]);
+    expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+  });
+
+  it('needs at least two picks', async () => {
+    (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(async (items: any[]) => [items[0]]);
+    await vscode.commands.executeCommand('sshLite.startBroadcast');
+    expect(mockService.startBroadcast).not.toHaveBeenCalled();
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('Pick at least two terminals or hosts to broadcast to.');
+  });
+
+  it('opens a terminal on each picked host', async () => {
+    const conn = { host: host('db1') };
+    mockConnections = [conn];
+    const t3 = term('SSH: db1');
+    mockService.createTerminal.mockResolvedValue(t3);
+    (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(async (items: any[]) => [items[0], items[2]]);
+
+    await vscode.commands.executeCommand('sshLite.startBroadcast');
+
+    expect((vscode.window.showQuickPick as jest.Mock).mock.calls[0][0][2].label).toBe('$(add) New terminal on db1');
+    expect(mockService.createTerminal).toHaveBeenCalledWith(conn);
+    expect(mockService.startBroadcast).toHaveBeenCalledWith(t1, [t1, t3]);
+  });
+
+  it('leaves out a host whose terminal fails to open and names it', async () => {
+    mockConnections = [{ host: host('db1') }, { host: host('db2') }];
+    const t3 = term('SSH: db1');
+    mockService.createTerminal.mockResolvedValueOnce(t3).mockRejectedValueOnce(new Error('Channel open failure'));
+    (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(async (items: any[]) => [items[0], items[2], items[3]]);
+
+    await vscode.commands.executeCommand('sshLite.startBroadcast');
+
+    expect(mockService.startBroadcast).toHaveBeenCalledWith(t1, [t1, t3]);
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith('Broadcasting without db2: no terminal could be opened there.');
+    expect(t3.dispose).not.toHaveBeenCalled();
+  });
+
+  it('closes the terminals it opened when too few remain to broadcast', async () => {
+    mockConnections = [{ host: host('db1') }, { host: host('db2') }];
+    const t3 = term('SSH: db1');
+    mockService.createTerminal.mockResolvedValueOnce(t3).mockRejectedValueOnce(new Error('Channel open failure'));
+    (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(async (items: any[]) => [items[2], items[3]]);
+
+    await vscode.commands.executeCommand('sshLite.startBroadcast');
+
+    expect(mockService.startBroadcast).not.toHaveBeenCalled();
+    expect(t3.dispose).toHaveBeenCalled();
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith('Cannot broadcast: no terminal could be opened on db2');
+  });
+
+  it('asks before broadcasting across differently labelled hosts', async () => {
+    mockService.getTerminals.mockReturnValue([
+      { terminal: t1, connectionId: 'web1', host: host('web1', 'PRD') },
+      { terminal: t2, connectionId: 'web2', host: host('web2', 'DEV') },
+    ]);
+    (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(async (items: any[]) => items);
+
+    await vscode.commands.executeCommand('sshLite.startBroadcast');
+
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      'Broadcast to hosts labelled PRD, DEV?',
+      expect.objectContaining({ modal: true }),
+      'Broadcast'
+    );
+    expect(mockService.startBroadcast).not.toHaveBeenCalled();
+  });
+
+  it('toggles the focused member, or lets the user pick the members that receive input', async () => {
+    mockService.getBroadcast.mockReturnValue({ leader: t1, members: [{ terminal: t2, paused: false }] });
+    await vscode.commands.executeCommand('sshLite.toggleBroadcastMember');
+    expect(mockService.setBroadcastPaused).toHaveBeenCalledWith(t2, true);
+
+    (vscode.window as any).activeTerminal = t1;
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce([]);
+    await vscode.commands.executeCommand('sshLite.toggleBroadcastMember');
+    expect(mockService.setBroadcastPaused).toHaveBeenLastCalledWith(t2, true);
+  });
+
+  it('toggles the terminal a terminal menu passes, not the focused one', async () => {
+    (vscode.window as any).activeTerminal = t1;
+    mockService.getBroadcast.mockReturnValue({ leader: t1, members: [{ terminal: t2, paused: true }] });
+    await vscode.commands.executeCommand('sshLite.toggleBroadcastMember', t2);
+    expect(mockService.setBroadcastPaused).toHaveBeenCalledWith(t2, false);
+    expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+  });
+
+  it('says so when there is nothing to stop', async () => {
+    mockService.getBroadcast.mockReturnValue(undefined);
+    await vscode.commands.executeCommand('sshLite.stopBroadcast');
+    expect(mockService.stopBroadcast).not.toHaveBeenCalled();
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('No terminal broadcast is running.');
+  });
+});
+
+describe('mixedTabLabels', () => {
+  it('lists labels only when they differ and one is set', () => {
+    expect(mixedTabLabels([host('a', 'PRD'), host('b', 'DEV')])).toEqual(['PRD', 'DEV']);
+    expect(mixedTabLabels([host('a', 'PRD'), host('b')])).toEqual(['PRD', '(no label)']);
+    expect(mixedTabLabels([host('a', 'PRD'), host('b', 'PRD')])).toBeUndefined();
+    expect(mixedTabLabels([host('a'), host('b')])).toBeUndefined();
+  });
+});
@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import { SSHConnection } from '../connection/SSHConnection';
+import { IHostConfig } from '../types';
+import { TerminalService } from '../services/TerminalService';
+import { infoLog } from '../utils/diagnosticLog';
+import { getConnectedConnections } from './sshToolsCommands';
+
+const NO_LABEL = '(no label)';
+
+function hostDescription(host: IHostConfig): string {
+  return `${host.username}@${host.host}${host.tabLabel ? ` · ${host.tabLabel}` : ''}`;
+}
+
+/**
+ * Tab labels across a group when they differ and at least one is set
+ * (e.g. PRD and DEV), else undefined: what the confirmation lists.
+ */
+export function mixedTabLabels(hosts: IHostConfig[]): string[] | undefined {
+  const labels = [...new Set(hosts.map((h) => h.tabLabel || NO_LABEL))];
+  return labels.length > 1 && labels.some((l) => l !== NO_LABEL) ? labels : undefined;
+}
+
+export function registerTerminalBroadcastCommands(): vscode.Disposable[] {
+  return [
+    // Pick open SSH terminals and/or hosts to open a terminal on; the focused
+    // terminal (or the first picked) leads
+    vscode.commands.registerCommand('sshLite.startBroadcast', async () => {
+      const terminalService = TerminalService.getInstance();
+      const active = vscode.window.activeTerminal;
+      const items = [
+        ...terminalService.getTerminals().map((t) => ({
+          label: `$(terminal) ${t.terminal.name}`,
+          description: hostDescription(t.host),
+          picked: t.terminal === active,
+          terminal: t.terminal as vscode.Terminal | undefined,
+          connection: undefined as SSHConnection | undefined,
+          host: t.host,
+        })),
+        ...getConnectedConnections().map((c) => ({
+          label: `$(add) New terminal on ${c.host.name}`,
+          description: hostDescription(c.host),
+          picked: false,
+          terminal: undefined as vscode.Terminal | undefined,
+          connection: c as SSHConnection | undefined,
+          host: c.host,
+        })),
+      ];
+      const picks = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Terminals to type into at once: pick two or more',
+        canPickMany: true,
+        ignoreFocusOut: true,
+      });
+      if (!picks) { return; }
+      if (picks.length < 2) {
+        vscode.window.showInformationMessage('Pick at least two terminals or hosts to broadcast to.');
+        return;
+      }
+
+      const labels = mixedTabLabels(picks.map((p) => p.host));
+      if (labels) {
+        const confirm = await vscode.window.showWarningMessage(
+          `Broadcast to hosts labelled ${labels.join(', ')}?`,
+          { modal: true, detail: `Everything typed in the leader terminal will run on all ${picks.length} terminals.` },
+          'Broadcast'
+        );
+        if (confirm !== 'Broadcast') { return; }
+      }
+
+      // A host whose terminal fails to open is left out; the terminals opened
+      // here are closed again if too few remain to broadcast
+      const terminals: vscode.Terminal[] = [];
+      const created: vscode.Terminal[] = [];
+      const failed: string[] = [];
+      for (const pick of picks) {
+        if (pick.terminal) {
+          terminals.push(pick.terminal);
+        } else if (pick.connection) {
+          try {
+            const terminal = await terminalService.createTerminal(pick.connection);
+            created.push(terminal);
+            terminals.push(terminal);
+          } catch {
+            // createTerminal already reported why
+            failed.push(pick.host.name);
+          }
+        }
+      }
+      const leader = terminals.find((t) => t === active) ?? terminals[0];
+      try {
+        if (terminals.length < 2) {
+          throw new Error(`no terminal could be opened on ${failed.join(', ')}`);
+        }
+        terminalService.startBroadcast(leader, terminals);
+      } catch (error) {
+        created.forEach((t) => t.dispose());
+        vscode.window.showErrorMessage(`Cannot broadcast: ${(error as Error).message}`);
+        return;
+      }
+      if (failed.length > 0) {
+        vscode.window.showWarningMessage(`Broadcasting without ${failed.join(', ')}: no terminal could be opened there.`);
+      }
+      leader.show();
+      infoLog('terminal', 'broadcast/picked', { terminals: terminals.length, mixedLabels: !!labels });
+      const choice = await vscode.window.showInformationMessage(
+        `Broadcasting from ${leader.name} to ${terminals.length - 1} other terminal${terminals.length > 2 ? 's' : ''}.`,
+        'Stop'
+      );
+      if (choice === 'Stop') {
+        terminalService.stopBroadcast();
+      }
+    }),
+
+    // On a member (the terminal menus pass it, the palette uses the focused
+    // one): toggle it. Otherwise pick which members receive input.
+    vscode.commands.registerCommand('sshLite.toggleBroadcastMember', async (terminal?: vscode.Terminal) => {
+      const terminalService = TerminalService.getInstance();
+      const group = terminalService.getBroadcast();
+      if (!group) {
+        vscode.window.showInformationMessage('No terminal broadcast is running.');
+        return;
+      }
+      const target = terminal ?? vscode.window.activeTerminal;
+      const member = group.members.find((m) => m.terminal === target);
+      if (member) {
+        terminalService.setBroadcastPaused(member.terminal, !member.paused);
+        return;
+      }
+      const picks = await vscode.window.showQuickPick(
+        group.members.map((m) => ({ label: m.terminal.name, picked: !m.paused, terminal: m.terminal })),
+        { placeHolder: `Terminals that receive what is typed in ${group.leader.name}`, canPickMany: true }
+      );
+      if (!picks) { return; }
+      for (const m of group.members) {
+        terminalService.setBroadcastPaused(m.terminal, !picks.some((p) => p.terminal === m.terminal));
+      }
+    }),
+
+    vscode.commands.registerCommand('sshLite.stopBroadcast', () => {
+      const terminalService = TerminalService.getInstance();
+      if (!terminalService.getBroadcast()) {
+        vscode.window.showInformationMessage('No terminal broadcast is running.');
+        return;
+      }
+      terminalService.stopBroadcast();
+      vscode.window.setStatusBarMessage('Terminal broadcast stopped', 3000);
+    }),
+  ];
+}
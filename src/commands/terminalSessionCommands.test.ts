@@ -0,0 +1,167 @@
+/**
+ * terminalSessionCommands tests
+ *
+ * Covers:
+ *  - reattachTerminalSession: nothing to reattach, sessions already open in a tab
+ *    left out, picked session attached in a new terminal, listing failure
+ *  - start/stop recording act on the focused SSH terminal only
+ *  - replayTerminalRecording: from a .cast uri, or picked from the recordings folder
+ */
+
+import * as vscode from 'vscode';
+
+jest.mock('../connection/ConnectionManager', () => ({
+  ConnectionManager: { getInstance: jest.fn().mockReturnValue({ getAllConnections: () => [] }) },
+}));
+
+var mockListSessions = jest.fn();
+jest.mock('../services/PersistentSessionService', () => ({
+  PersistentSessionService: { getInstance: jest.fn().mockReturnValue({ listSessions: (...a: unknown[]) => mockListSessions(...a) }) },
+}));
+
+var mockOpenShell = jest.fn();
+jest.mock('../services/CommandGuard', () => ({
+  CommandGuard: { getInstance: jest.fn().mockReturnValue({ openShell: (...a: unknown[]) => mockOpenShell(...a) }) },
+}));
+
+var mockCreateTerminal = jest.fn();
+var mockGetSessionNames = jest.fn();
+var mockIsSshTerminal = jest.fn();
+var mockStartRecording = jest.fn();
+var mockStopRecording = jest.fn();
+jest.mock('../services/TerminalService', () => ({
+  TerminalService: {
+    getInstance: jest.fn().mockReturnValue({
+      getSessionNames: (...a: unknown[]) => mockGetSessionNames(...a),
+      createTerminal: (...a: unknown[]) => mockCreateTerminal(...a),
+      getTermType: () => 'xterm-256color',
+      shellOptions: (session: { name: string }) => ({ env: {}, command: `attach ${session.name}` }),
+      isSshTerminal: (...a: unknown[]) => mockIsSshTerminal(...a),
+      startRecording: (...a: unknown[]) => mockStartRecording(...a),
+      stopRecording: (...a: unknown[]) => mockStopRecording(...a),
+    }),
+  },
+}));
+
+var mockListRecordings = jest.fn();
+jest.mock('../services/TerminalRecordingService', () => ({
+  formatSeconds: (s: number) => `${s}s`,
+  TerminalRecordingService: {
+    getInstance: jest.fn().mockReturnValue({
+      listRecordings: (...a: unknown[]) => mockListRecordings(...a),
+      getRecordingsDir: () => '/rec',
+    }),
+  },
+}));
+
+var mockOpenReplay = jest.fn();
+jest.mock('../webviews/TerminalReplayPanel', () => ({
+  TerminalReplayPanel: { open: (...a: unknown[]) => mockOpenReplay(...a) },
+}));
+
+import { registerTerminalSessionCommands } from './terminalSessionCommands';
+import { resetWindowMocks } from '../__mocks__/vscode';
+
+const conn = { id: 'web1:22:u', host: { name: 'web1' }, exec: jest.fn() };
+
+describe('reattachTerminalSession', () => {
+  let disposables: vscode.Disposable[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetWindowMocks();
+    mockGetSessionNames.mockReturnValue(['sshlite-open-1']);
+    disposables = registerTerminalSessionCommands();
+  });
+
+  afterEach(() => disposables.forEach((d) => d.dispose()));
+
+  it('says so when every session is already open in a tab', async () => {
+    mockListSessions.mockResolvedValue([{ backend: 'tmux', name: 'sshlite-open-1', attached: true }]);
+    await vscode.commands.executeCommand('sshLite.reattachTerminalSession', conn);
+    expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('No detached terminal sessions on web1.');
+  });
+
+  it('attaches the picked session in a new terminal', async () => {
+    const build = { backend: 'screen', name: 'sshlite-build-2', attached: false, createdAt: Date.now() - 86_400_000 };
+    mockListSessions.mockResolvedValue([build, { backend: 'tmux', name: 'sshlite-open-1', attached: true }]);
+    (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(async (items: any[]) => items[0]);
+    mockOpenShell.mockResolvedValue('channel');
+
+    await vscode.commands.executeCommand('sshLite.reattachTerminalSession', conn);
+
+    const items = (vscode.window.showQuickPick as jest.Mock).mock.calls[0][0];
+    expect(items).toHaveLength(1);
+    expect(items[0]).toEqual(expect.objectContaining({ label: '$(terminal) sshlite-build-2', description: 'screen' }));
+    expect(mockOpenShell).toHaveBeenCalledWith(conn, { term: 'xterm-256color' }, { env: {}, command: 'attach sshlite-build-2' });
+    expect(mockCreateTerminal).toHaveBeenCalledWith(conn, 'channel', { backend: 'screen', name: 'sshlite-build-2' });
+  });
+
+  it('reports a host it could not list', async () => {
+    mockListSessions.mockRejectedValue(new Error('Exit code 1: sh: denied'));
+    await vscode.commands.executeCommand('sshLite.reattachTerminalSession', conn);
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith('Reattach failed: Exit code 1: sh: denied');
+  });
+});
+
+describe('terminal recording commands', () => {
+  let disposables: vscode.Disposable[];
+  const terminal = { name: 'SSH: web1' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetWindowMocks();
+    (vscode.window as any).activeTerminal = terminal;
+    mockIsSshTerminal.mockReturnValue(true);
+    disposables = registerTerminalSessionCommands();
+  });
+
+  afterEach(() => {
+    (vscode.window as any).activeTerminal = undefined;
+    disposables.forEach((d) => d.dispose());
+  });
+
+  it('only records SSH Lite terminals', async () => {
+    mockIsSshTerminal.mockReturnValue(false);
+    await vscode.commands.executeCommand('sshLite.startTerminalRecording');
+    expect(mockStartRecording).not.toHaveBeenCalled();
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith('Focus an SSH Lite terminal first.');
+  });
+
+  it('starts recording the focused terminal', async () => {
+    mockStartRecording.mockReturnValue('/rec/web1-20261019-091244.cast');
+    await vscode.commands.executeCommand('sshLite.startTerminalRecording');
+    expect(mockStartRecording).toHaveBeenCalledWith(terminal);
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('Recording SSH: web1 to web1-20261019-091244.cast.');
+  });
+
+  it('offers to replay a recording it stops', async () => {
+    mockStopRecording.mockResolvedValue('/rec/web1.cast');
+    (vscode.window.showInformationMessage as jest.Mock).mockResolvedValueOnce('Replay');
+    await vscode.commands.executeCommand('sshLite.stopTerminalRecording');
+    expect(mockOpenReplay).toHaveBeenCalledWith('/rec/web1.cast');
+  });
+
+  it('replays a .cast file it is given', async () => {
+    await vscode.commands.executeCommand('sshLite.replayTerminalRecording', vscode.Uri.file('/tmp/x.cast'));
+    expect(mockOpenReplay).toHaveBeenCalledWith('/tmp/x.cast');
+    expect(mockListRecordings).not.toHaveBeenCalled();
+  });
+
+  it('picks from the recordings folder', async () => {
+    mockListRecordings.mockResolvedValue([{ filePath: '/rec/web1.cast', title: 'deploy@web1', duration: 42, size: 2048 }]);
+    (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(async (items: any[]) => items[0]);
+    await vscode.commands.executeCommand('sshLite.replayTerminalRecording');
+    const items = (vscode.window.showQuickPick as jest.Mock).mock.calls[0][0];
+    expect(items.map((i: any) => i.label)).toEqual(['$(play) deploy@web1', '$(folder-opened) Browse…']);
+    expect(items[0].detail).toBe('42s · 2 KB · web1.cast');
+    expect(mockOpenReplay).toHaveBeenCalledWith('/rec/web1.cast');
+  });
+
+  it('reports a recording it cannot replay', async () => {
+    mockOpenReplay.mockRejectedValueOnce(new Error('Not an asciicast v2 recording'));
+    await vscode.commands.executeCommand('sshLite.replayTerminalRecording', vscode.Uri.file('/tmp/x.cast'));
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith('Cannot replay x.cast: Not an asciicast v2 recording');
+  });
+});
@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SSHConnection } from '../connection/SSHConnection';
+import { CommandGuard } from '../services/CommandGuard';
+import { PersistentSessionService } from '../services/PersistentSessionService';
+import { TerminalService } from '../services/TerminalService';
+import { TerminalRecordingService, formatSeconds } from '../services/TerminalRecordingService';
+import { TerminalReplayPanel } from '../webviews/TerminalReplayPanel';
+import { formatFileSize, formatRelativeTime } from '../utils/helpers';
+import { infoLog } from '../utils/diagnosticLog';
+import { pickConnection } from './sshToolsCommands';
+
+export function registerTerminalSessionCommands(): vscode.Disposable[] {
+  return [
+    // Persistent sessions running on a host with no terminal tab here: left
+    // behind by a closed window or tab, a detach, or another machine
+    vscode.commands.registerCommand('sshLite.reattachTerminalSession', async (preConn?: SSHConnection) => {
+      const connection = await pickConnection('Pick host to reattach a terminal session on', preConn);
+      if (!connection) { return; }
+      const terminalService = TerminalService.getInstance();
+      try {
+        const open = new Set(terminalService.getSessionNames(connection.id));
+        const sessions = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Window, title: `Listing sessions on ${connection.host.name}` },
+          () => PersistentSessionService.getInstance().listSessions(connection)
+        );
+        const orphaned = sessions.filter((s) => !open.has(s.name));
+        if (orphaned.length === 0) {
+          vscode.window.showInformationMessage(`No detached terminal sessions on ${connection.host.name}.`);
+          return;
+        }
+        const pick = await vscode.window.showQuickPick(
+          orphaned.map((s) => ({
+            label: `$(terminal) ${s.name}`,
+            description: s.attached ? `${s.backend} · attached elsewhere` : s.backend,
+            detail: s.createdAt ? `Started ${formatRelativeTime(s.createdAt)}` : undefined,
+            session: s,
+          })),
+          { placeHolder: `Sessions on ${connection.host.name}: pick one to reattach`, ignoreFocusOut: true }
+        );
+        if (!pick) { return; }
+        const session = { backend: pick.session.backend, name: pick.session.name };
+        const shell = await CommandGuard.getInstance().openShell(
+          connection,
+          { term: terminalService.getTermType() },
+          terminalService.shellOptions(session)
+        );
+        await terminalService.createTerminal(connection, shell, session);
+        infoLog('terminal-session', 'reattach/picked', { connectionId: connection.id, session: session.name, backend: session.backend });
+      } catch (error) {
+        vscode.window.showErrorMessage(`Reattach failed: ${(error as Error).message}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('sshLite.startTerminalRecording', () => {
+      const terminal = activeSshTerminal();
+      if (!terminal) { return; }
+      try {
+        const filePath = TerminalService.getInstance().startRecording(terminal);
+        const input = vscode.workspace.getConfiguration('sshLite').get<boolean>('terminal.recordInput', false);
+        vscode.window.showInformationMessage(
+          `Recording ${terminal.name}${input ? ' with keystrokes' : ''} to ${path.basename(filePath)}.`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(`Cannot start recording: ${(error as Error).message}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('sshLite.stopTerminalRecording', async () => {
+      const terminal = activeSshTerminal();
+      if (!terminal) { return; }
+      const filePath = await TerminalService.getInstance().stopRecording(terminal);
+      if (!filePath) {
+        vscode.window.showInformationMessage(`${terminal.name} is not being recorded.`);
+        return;
+      }
+      const choice = await vscode.window.showInformationMessage(`Saved recording ${path.basename(filePath)}.`, 'Replay');
+      if (choice === 'Replay') {
+        await openReplay(filePath);
+      }
+    }),
+
+    // From the Command Palette (pick a recording) or the editor title of an open .cast file
+    vscode.commands.registerCommand('sshLite.replayTerminalRecording', async (uri?: vscode.Uri) => {
+      const filePath = uri?.fsPath ?? await pickRecording();
+      if (filePath) {
+        await openReplay(filePath);
+      }
+    }),
+  ];
+}
+
+/** The focused terminal when it is one of ours; tells the user otherwise */
+function activeSshTerminal(): vscode.Terminal | undefined {
+  const terminal = vscode.window.activeTerminal;
+  if (!terminal || !TerminalService.getInstance().isSshTerminal(terminal)) {
+    vscode.window.showWarningMessage('Focus an SSH Lite terminal first.');
+    return undefined;
+  }
+  return terminal;
+}
+
+async function pickRecording(): Promise<string | undefined> {
+  const service = TerminalRecordingService.getInstance();
+  const recordings = await service.listRecordings();
+  const browse = { label: '$(folder-opened) Browse…', detail: 'Open a .cast file from anywhere' };
+  const pick = await vscode.window.showQuickPick(
+    [
+      ...recordings.map((r) => ({
+        label: `$(play) ${r.title ?? path.basename(r.filePath)}`,
+        description: r.startedAt ? formatRelativeTime(r.startedAt) : undefined,
+        detail: `${formatSeconds(r.duration)} · ${formatFileSize(r.size)} · ${path.basename(r.filePath)}`,
+        filePath: r.filePath as string | undefined,
+      })),
+      { ...browse, filePath: undefined },
+    ],
+    { placeHolder: recordings.length ? `Recordings in ${service.getRecordingsDir()}` : 'No recordings yet: browse for a .cast file' }
+  );
+  if (!pick) { return undefined; }
+  if (pick.filePath) { return pick.filePath; }
+  const uris = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    filters: { 'Terminal recordings': ['cast'] },
+    defaultUri: vscode.Uri.file(service.getRecordingsDir()),
+  });
+  return uris?.[0]?.fsPath;
+}
+
+async function openReplay(filePath: string): Promise<void> {
+  try {
+    await TerminalReplayPanel.open(filePath);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Cannot replay ${path.basename(filePath)}: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+import { TransferQueueService } from '../services/TransferQueueService';
+import { TransferTreeItem } from '../providers/TransferTreeProvider';
+
+/**
+ * Transfers view: pause, resume, cancel and retry single transfers, or the
+ * whole queue from the view title.
+ */
+export function registerTransferCommands(): vscode.Disposable[] {
+  const queue = TransferQueueService.getInstance();
+  const onItem = (fn: (id: string) => void) => (item?: TransferTreeItem) => {
+    if (item?.transfer) {
+      fn(item.transfer.id);
+    }
+  };
+
+  return [
+    vscode.commands.registerCommand('sshLite.pauseTransfer', onItem((id) => queue.pause(id))),
+    vscode.commands.registerCommand('sshLite.resumeTransfer', onItem((id) => queue.resume(id))),
+    vscode.commands.registerCommand('sshLite.cancelTransfer', onItem((id) => queue.cancel(id))),
+    vscode.commands.registerCommand('sshLite.retryTransfer', onItem((id) => queue.retry(id))),
+    vscode.commands.registerCommand('sshLite.pauseAllTransfers', () => queue.pauseAll()),
+    vscode.commands.registerCommand('sshLite.resumeAllTransfers', () => queue.resumeAll()),
+    vscode.commands.registerCommand('sshLite.clearFinishedTransfers', () => queue.clearFinished()),
+  ];
+}
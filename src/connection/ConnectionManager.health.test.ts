@@ -0,0 +1,160 @@
+/**
+ * ConnectionManager health sampling: a sample on connect and on every
+ * interval, transfers routed into throughput, drop counting, and the
+ * `sshLite.healthSampleInterval` probe switch (30 s by default; 0 stops only
+ * the probe). SSHConnection is a small fake
+ * class (the manager only samples real SSH connections, checked with
+ * instanceof).
+ */
+
+import { ConnectionState, IConnectionHealth } from '../types';
+import { setMockConfig, clearMockConfig } from '../__mocks__/vscode';
+import { createMockHostConfig } from '../__mocks__/testHelpers';
+
+jest.mock('./SSHConnection', () => {
+  const { EventEmitter } = require('../__mocks__/vscode');
+  class FakeSSHConnection {
+    id: string;
+    state = 'disconnected';
+    _state = new EventEmitter();
+    _transfer = new EventEmitter();
+    onStateChange = this._state.event;
+    onDidTransfer = this._transfer.event;
+    measureLatency = jest.fn().mockResolvedValue({ transportMs: 30, sftpMs: 45 });
+    constructor(public host: { host: string; port: number; username: string }) {
+      this.id = `${host.host}:${host.port}:${host.username}`;
+    }
+    async connect() {
+      this.state = 'connected';
+    }
+    async disconnect() {
+      this.state = 'disconnected';
+    }
+    dispose() {}
+  }
+  return { SSHConnection: FakeSSHConnection };
+});
+
+jest.mock('../services/ActivityService', () => ({
+  ActivityService: {
+    getInstance: jest.fn().mockReturnValue({
+      startActivity: jest.fn().mockReturnValue('activity-1'),
+      completeActivity: jest.fn(),
+      failActivity: jest.fn(),
+    }),
+  },
+}));
+
+jest.mock('../services/CredentialService', () => ({
+  CredentialService: {
+    getInstance: jest.fn().mockReturnValue({ listCredentials: jest.fn().mockReturnValue([]) }),
+  },
+}));
+
+jest.mock('../services/CommandGuard', () => ({
+  CommandGuard: {
+    getInstance: jest.fn().mockReturnValue({
+      getChannelUsage: jest.fn().mockReturnValue({ active: 1, max: 8, queued: 0 }),
+    }),
+  },
+}));
+
+import { ConnectionManager } from './ConnectionManager';
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('ConnectionManager health sampling', () => {
+  let manager: ConnectionManager;
+  const host = createMockHostConfig({ id: 'web:22:deploy', host: 'web', port: 22, username: 'deploy', name: 'web' });
+
+  beforeEach(() => {
+    setMockConfig('sshLite.healthSampleInterval', 30);
+    manager = ConnectionManager.getInstance();
+  });
+
+  afterEach(() => {
+    manager.dispose();
+    clearMockConfig();
+    jest.useRealTimers();
+  });
+
+  it('samples right after connecting and publishes the figures', async () => {
+    const published: IConnectionHealth[] = [];
+    manager.onDidChangeHealth((e) => published.push(e.health));
+
+    const connection = await manager.connect(host);
+    await flush();
+
+    expect((connection as any).measureLatency).toHaveBeenCalledWith(10_000);
+    expect(published).toHaveLength(1);
+    expect(manager.getHealth(connection.id)).toMatchObject({
+      status: 'healthy',
+      transportMs: 30,
+      sftpMs: 45,
+      channels: { active: 1, max: 8, queued: 0 },
+    });
+  });
+
+  it('samples again on every interval', async () => {
+    jest.useFakeTimers();
+    setMockConfig('sshLite.healthSampleInterval', 5);
+    const connection = await manager.connect(host);
+
+    jest.advanceTimersByTime(10_000);
+
+    expect((connection as any).measureLatency).toHaveBeenCalledTimes(3);
+  });
+
+  it('turns recent transfers into throughput and publishes it', async () => {
+    const connection = await manager.connect(host);
+    await flush();
+    const published: IConnectionHealth[] = [];
+    manager.onDidChangeHealth((e) => published.push(e.health));
+
+    (connection as any)._transfer.fire({ bytes: 1000, durationMs: 20, direction: 'download' });
+    (connection as any)._transfer.fire({ bytes: 4 * 1024 * 1024, durationMs: 2000, direction: 'download' });
+
+    expect(manager.getHealth(connection.id)?.downloadBps).toBe(2 * 1024 * 1024);
+    expect(published.map((h) => h.downloadBps)).toEqual([2 * 1024 * 1024]);
+  });
+
+  it('counts an unexpected drop and stops probing the dead connection', async () => {
+    jest.useFakeTimers();
+    const connection = await manager.connect(host);
+    const probe = (connection as any).measureLatency as jest.Mock;
+
+    (connection as any).state = ConnectionState.Disconnected;
+    (connection as any)._state.fire(ConnectionState.Disconnected);
+    probe.mockClear();
+    jest.advanceTimersByTime(60_000);
+
+    expect(manager.getHealth(connection.id)?.drops).toBe(1);
+    expect(probe).not.toHaveBeenCalled();
+    manager.stopReconnect(connection.id);
+  });
+
+  it('still counts throughput and drops when the interval is 0, without probing', async () => {
+    jest.useFakeTimers();
+    setMockConfig('sshLite.healthSampleInterval', 0);
+    const connection = await manager.connect(host);
+
+    (connection as any)._transfer.fire({ bytes: 4 * 1024 * 1024, durationMs: 2000, direction: 'upload' });
+    (connection as any).state = ConnectionState.Disconnected;
+    (connection as any)._state.fire(ConnectionState.Disconnected);
+    jest.advanceTimersByTime(60_000);
+
+    expect((connection as any).measureLatency).not.toHaveBeenCalled();
+    expect(manager.getHealth(connection.id)).toMatchObject({ status: 'unknown', uploadBps: 2 * 1024 * 1024, drops: 1 });
+    manager.stopReconnect(connection.id);
+  });
+
+  it('probes every 30 seconds unless configured otherwise', async () => {
+    jest.useFakeTimers();
+    clearMockConfig();
+    const connection = await manager.connect(host);
+
+    jest.advanceTimersByTime(60_000);
+
+    expect((connection as any).measureLatency).toHaveBeenCalledTimes(3);
+  });
+});
@@ -5,8 +5,8 @@
  * SSHConnection is fully mocked to avoid real SSH connections.
  */
 
-import { ConnectionState } from '../types';
-import { commands } from '../__mocks__/vscode';
+import { ConnectionState, InteractiveAuthRequiredError } from '../types';
+import { commands, window } from '../__mocks__/vscode';
 import { createMockHostConfig, createMockCredential } from '../__mocks__/testHelpers';
 
 // Mock SSHConnection - captures onStateChange listener for simulating disconnects
@@ -213,6 +213,20 @@ describe('ConnectionManager', () => {
         'Network error'
       );
     });
+
+    it('connects with the host\'s ssh-config Match exec blocks applied', async () => {
+      const { HostService } = require('../services/HostService');
+      const { SSHConnection } = require('./SSHConnection');
+      const host = createMockHostConfig();
+      const apply = jest.spyOn(HostService.getInstance(), 'applyMatchExec')
+        .mockImplementation(async (h: any) => ({ ...h, privateKeyPath: '/keys/vpn' }));
+
+      await manager.connect(host);
+
+      expect(apply).toHaveBeenCalledWith(host);
+      expect(SSHConnection).toHaveBeenCalledWith(expect.objectContaining({ id: host.id, privateKeyPath: '/keys/vpn' }), undefined);
+      apply.mockRestore();
+    });
   });
 
   describe('connectWithCredential', () => {
@@ -408,6 +422,34 @@ describe('ConnectionManager', () => {
       expect(result.reconnecting).toEqual([]);
     });
 
+    it('connects interactively, but never lets an auto-reconnect prompt for login input', async () => {
+      const host = createMockHostConfig();
+      const conn = await manager.connect(host);
+      expect(conn.connect).toHaveBeenCalledWith({ interactive: true });
+
+      (conn as any)._stateEmitter.fire(ConnectionState.Disconnected);
+      await jest.advanceTimersByTimeAsync(3000);
+
+      const retry = manager.getConnection(conn.id) as any;
+      expect(retry).not.toBe(conn);
+      expect(retry.connect).toHaveBeenCalledWith({ interactive: false });
+    });
+
+    it('stops reconnecting and offers a manual reconnect when the login needs a verification code', async () => {
+      const host = createMockHostConfig();
+      const conn = await manager.connect(host);
+      (window.showWarningMessage as jest.Mock).mockResolvedValueOnce(undefined);
+      mockConnectBehavior = () => Promise.reject(new InteractiveAuthRequiredError('asked for input'));
+
+      (conn as any)._stateEmitter.fire(ConnectionState.Disconnected);
+      await jest.advanceTimersByTimeAsync(3000);
+
+      expect(window.showWarningMessage).toHaveBeenCalledWith(`${host.name} needs a verification code to reconnect.`, 'Reconnect');
+      expect(manager.isReconnecting(conn.id)).toBe(false);
+      expect(manager.getReconnectingConnections()).toEqual([]);
+      expect(window.showErrorMessage).not.toHaveBeenCalled();
+    });
+
     it('hasConnectionsOrReconnecting should check both maps', async () => {
       expect(manager.hasConnectionsOrReconnecting()).toBe(false);
 
@@ -1,10 +1,13 @@
 import * as vscode from 'vscode';
 import { SSHConnection } from './SSHConnection';
 import { createConnection } from './ConnectionFactory';
-import { IConnection, IHostConfig, ConnectionState, AuthenticationError, ILastConnectionAttempt, SSHError } from '../types';
+import { IConnection, IHostConfig, ConnectionState, AuthenticationError, InteractiveAuthRequiredError, ILastConnectionAttempt, SSHError, IConnectionHealth } from '../types';
 import { SavedCredential, CredentialService } from '../services/CredentialService';
 import { ActivityService } from '../services/ActivityService';
+import { CommandGuard } from '../services/CommandGuard';
+import { HostService } from '../services/HostService';
 import { infoLog, diagLog } from '../utils/diagnosticLog';
+import { ConnectionHealthTracker } from './connectionHealth';
 
 /**
  * Bridge for the public ConnectionManager API.
@@ -58,6 +61,13 @@ export class ConnectionManager {
   private readonly RECONNECT_INTERVAL_MS = 3000;
   private readonly MAX_RECONNECT_ATTEMPTS = 0; // 0 = unlimited
 
+  // Health sampling: trackers outlive reconnects (drop/reconnect counts), the
+  // probe timer (none when probing is off) and transfer listener belong to the
+  // current SSHConnection
+  private _health: Map<string, ConnectionHealthTracker> = new Map();
+  private _healthSamplers: Map<string, { timer: NodeJS.Timeout | undefined; listener: vscode.Disposable }> = new Map();
+  private readonly HEALTH_PROBE_TIMEOUT_MS = 10_000;
+
   private readonly _onDidChangeConnections = new vscode.EventEmitter<void>();
   public readonly onDidChangeConnections = this._onDidChangeConnections.event;
 
@@ -76,6 +86,10 @@ export class ConnectionManager {
   }>();
   public readonly onReconnecting = this._onReconnecting.event;
 
+  // Fires after every health sample
+  private readonly _onDidChangeHealth = new vscode.EventEmitter<{ connectionId: string; health: IConnectionHealth }>();
+  public readonly onDidChangeHealth = this._onDidChangeHealth.event;
+
   private constructor() {}
 
   /**
@@ -151,6 +165,7 @@ export class ConnectionManager {
     }
 
     // Create new connection
+    host = await this.withMatchExec(host);
     const connection = createConnection(host);
 
     // Listen to state changes
@@ -160,6 +175,7 @@ export class ConnectionManager {
 
       // Handle unexpected disconnect - start auto-reconnect
       if (state === ConnectionState.Disconnected) {
+        this.stopHealthSampling(connectionId);
         const disconnectInfo = this._disconnectedConnections.get(connectionId);
         const isActiveAttempt = this._activeReconnectAttempts.has(connectionId);
         diagLog('connection-manager', 'disconnect-handler', {
@@ -180,9 +196,11 @@ export class ConnectionManager {
           infoLog('connection-manager', 'manual-disconnect-cleanup', { connectionId });
           this._connections.delete(connectionId);
           this._disconnectedConnections.delete(connectionId);
+          this._health.delete(connectionId);
         } else if (!disconnectInfo?.reconnectTimer) {
           // Unexpected disconnect and no reconnect scheduled - start auto-reconnect
           infoLog('connection-manager', 'auto-reconnect-start', { connectionId });
+          this._health.get(connectionId)?.recordDrop();
           this.startReconnect(connectionId, host);
         }
       }
@@ -205,11 +223,13 @@ export class ConnectionManager {
     );
 
     try {
-      await connection.connect();
+      // Auto-reconnect runs unattended: never pop login prompts for it
+      await connection.connect({ interactive: !this._activeReconnectAttempts.has(connectionId) });
       // Complete activity tracking
       activityService.completeActivity(activityId, 'Connected');
       // Clear failed connection indicator on success
       await this.saveLastConnectionAttempt(host.id, true);
+      this.startHealthSampling(connectionId, connection);
       // Update context for VS Code when clauses
       await vscode.commands.executeCommand(
         'setContext',
@@ -228,6 +248,16 @@ export class ConnectionManager {
     }
   }
 
+  /** Apply the host's ssh-config `Match exec` blocks; a config that cannot be read leaves it as listed */
+  private async withMatchExec(host: IHostConfig): Promise<IHostConfig> {
+    try {
+      return await HostService.getInstance().applyMatchExec(host);
+    } catch (error) {
+      infoLog('connection-manager', 'match-exec/failed', { hostName: host.name, errorMessage: (error as Error).message });
+      return host;
+    }
+  }
+
   /**
    * Connect to a host with a specific credential
    */
@@ -261,6 +291,7 @@ export class ConnectionManager {
     }
 
     // Create new connection with credential
+    host = await this.withMatchExec(host);
     const connection = createConnection(host, credential);
 
     // Listen to state changes
@@ -270,6 +301,7 @@ export class ConnectionManager {
 
       // Handle unexpected disconnect - start auto-reconnect
       if (state === ConnectionState.Disconnected) {
+        this.stopHealthSampling(connectionId);
         const disconnectInfo = this._disconnectedConnections.get(connectionId);
         const isActiveAttempt = this._activeReconnectAttempts.has(connectionId);
         diagLog('connection-manager', 'disconnect-handler', {
@@ -291,9 +323,11 @@ export class ConnectionManager {
           infoLog('connection-manager', 'manual-disconnect-cleanup', { connectionId, withCredential: true });
           this._connections.delete(connectionId);
           this._disconnectedConnections.delete(connectionId);
+          this._health.delete(connectionId);
         } else if (!disconnectInfo?.reconnectTimer) {
           // Unexpected disconnect and no reconnect scheduled - start auto-reconnect
           infoLog('connection-manager', 'auto-reconnect-start', { connectionId, withCredential: true });
+          this._health.get(connectionId)?.recordDrop();
           this.startReconnect(connectionId, host, credential);
         }
       }
@@ -316,11 +350,13 @@ export class ConnectionManager {
     );
 
     try {
-      await connection.connect();
+      // Auto-reconnect runs unattended: never pop login prompts for it
+      await connection.connect({ interactive: !this._activeReconnectAttempts.has(connectionId) });
       // Complete activity tracking
       activityService.completeActivity(activityId, 'Connected');
       // Clear failed connection indicator on success
       await this.saveLastConnectionAttempt(host.id, true);
+      this.startHealthSampling(connectionId, connection);
       // Update context for VS Code when clauses
       await vscode.commands.executeCommand(
         'setContext',
@@ -475,6 +511,7 @@ export class ConnectionManager {
       });
       this._activeReconnectAttempts.delete(connectionId);
       this.stopReconnect(connectionId);
+      this._health.get(connectionId)?.recordReconnect();
       vscode.window.setStatusBarMessage(
         `$(check) Reconnected to ${info.host.name}`,
         3000
@@ -489,6 +526,31 @@ export class ConnectionManager {
       });
 
     } catch (error) {
+      if (error instanceof InteractiveAuthRequiredError) {
+        // The login wants a human (typically a 2FA code with no TOTP secret
+        // saved): stop retrying and let the user reconnect when they are ready.
+        infoLog('connection-manager', 'reconnect/needs-user', {
+          connectionId,
+          attempt: info.reconnectAttempts,
+          errorMsg: error.message,
+        });
+        this.stopReconnect(connectionId);
+        setTimeout(() => this._activeReconnectAttempts.delete(connectionId), 500);
+        const { host, credential } = info;
+        void vscode.window.showWarningMessage(
+          `${host.name} needs a verification code to reconnect.`,
+          'Reconnect'
+        ).then((choice) => {
+          if (choice !== 'Reconnect') {
+            return;
+          }
+          (credential ? this.connectWithCredential(host, credential) : this.connect(host)).catch((err: Error) => {
+            vscode.window.showErrorMessage(`Cannot reconnect to ${host.name}: ${err.message}`);
+          });
+        });
+        return;
+      }
+
       // Classify error: non-recoverable (stop) vs transient (retry)
       const errorMsg = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
 
@@ -547,6 +609,90 @@ export class ConnectionManager {
     }
   }
 
+  /**
+   * Track the health of a newly connected SSH connection: its transfers count
+   * toward throughput, and drops and reconnects are counted from here on.
+   * Only the latency probe is optional: it runs right away and then every
+   * `sshLite.healthSampleInterval` seconds (0 = no probe). FTP has neither
+   * keepalives nor realpath, so it is skipped.
+   */
+  private startHealthSampling(connectionId: string, connection: IConnection): void {
+    this.stopHealthSampling(connectionId);
+    if (!(connection instanceof SSHConnection)) {
+      return;
+    }
+    let tracker = this._health.get(connectionId);
+    if (!tracker) {
+      tracker = new ConnectionHealthTracker();
+      this._health.set(connectionId, tracker);
+    }
+    const listener = connection.onDidTransfer((sample) => {
+      if (tracker!.recordTransfer(sample)) {
+        this._onDidChangeHealth.fire({ connectionId, health: this.getHealth(connectionId)! });
+      }
+    });
+    const intervalSec = vscode.workspace.getConfiguration('sshLite').get<number>('healthSampleInterval', 30);
+    const probing = intervalSec > 0;
+    const timer = probing ? setInterval(() => void this.sampleHealth(connectionId, connection), intervalSec * 1000) : undefined;
+    this._healthSamplers.set(connectionId, { timer, listener });
+    diagLog('connection-health', 'start', { connectionId, intervalSec });
+    if (probing) {
+      void this.sampleHealth(connectionId, connection);
+    }
+  }
+
+  private stopHealthSampling(connectionId: string): void {
+    const sampler = this._healthSamplers.get(connectionId);
+    if (sampler) {
+      clearInterval(sampler.timer);
+      sampler.listener.dispose();
+      this._healthSamplers.delete(connectionId);
+    }
+  }
+
+  /**
+   * Take one latency sample and publish the snapshot. Every sample goes to
+   * the diagnostic log; a change of status is logged at info level.
+   */
+  private async sampleHealth(connectionId: string, connection: SSHConnection): Promise<void> {
+    const tracker = this._health.get(connectionId);
+    if (!tracker || connection.state !== ConnectionState.Connected) {
+      return;
+    }
+    const previous = tracker.snapshot(CommandGuard.getInstance().getChannelUsage(connectionId)).status;
+    try {
+      tracker.recordLatency(await connection.measureLatency(this.HEALTH_PROBE_TIMEOUT_MS));
+    } catch (error) {
+      diagLog('connection-health', 'sample-failed', { connectionId, error: (error as Error).message });
+      return;
+    }
+    const health = tracker.snapshot(CommandGuard.getInstance().getChannelUsage(connectionId));
+    diagLog('connection-health', 'sample', { connectionId, ...health });
+    if (health.status !== previous) {
+      infoLog('connection-health', 'status-change', { connectionId, from: previous, ...health });
+    }
+    this._onDidChangeHealth.fire({ connectionId, health });
+  }
+
+  /**
+   * Latest health figures for a connection; undefined when it is not tracked
+   * (FTP, or never connected). Without the latency probe the status stays
+   * 'unknown' but throughput, drops and reconnects are still counted.
+   */
+  getHealth(connectionId: string): IConnectionHealth | undefined {
+    return this._health.get(connectionId)?.snapshot(CommandGuard.getInstance().getChannelUsage(connectionId));
+  }
+
+  /**
+   * Write every sampled connection's figures to the log, for bug reports
+   */
+  logHealthReport(): void {
+    infoLog('connection-health', 'report', { sampledConnections: this._health.size });
+    for (const connectionId of this._health.keys()) {
+      infoLog('connection-health', 'report/connection', { connectionId, ...this.getHealth(connectionId) });
+    }
+  }
+
   /**
    * Stop auto-reconnect for a connection
    */
@@ -761,6 +907,11 @@ export class ConnectionManager {
     }
     this._disconnectedConnections.clear();
 
+    for (const connectionId of this._healthSamplers.keys()) {
+      this.stopHealthSampling(connectionId);
+    }
+    this._health.clear();
+
     for (const connection of this._connections.values()) {
       connection.dispose();
     }
@@ -768,6 +919,7 @@ export class ConnectionManager {
     this._onDidChangeConnections.dispose();
     this._onConnectionStateChange.dispose();
     this._onReconnecting.dispose();
+    this._onDidChangeHealth.dispose();
 
     // Reset singleton instance to ensure clean state on reload
     ConnectionManager._instance = undefined as unknown as ConnectionManager;
@@ -0,0 +1,111 @@
+/**
+ * SSHConnection agent forwarding: the one-time `auth-agent-req` probe made
+ * right after login. The ssh2 client is a fake whose exec() records the
+ * options it was given and answers with a channel or the server's refusal.
+ */
+
+import { EventEmitter } from 'events';
+import { window, resetWindowMocks } from '../__mocks__/vscode';
+import { createMockHostConfig } from '../__mocks__/testHelpers';
+import { ConnectionState } from '../types';
+
+jest.mock('ssh2', () => ({
+  ...jest.requireActual('ssh2'),
+  Client: jest.fn().mockImplementation(() => ({
+    on: jest.fn().mockReturnThis(),
+    connect: jest.fn(),
+    end: jest.fn(),
+    destroy: jest.fn(),
+  })),
+}));
+
+jest.mock('../services/CredentialService', () => ({
+  CredentialService: {
+    getInstance: jest.fn().mockReturnValue({
+      getCredentialPassword: jest.fn().mockResolvedValue(undefined),
+      listCredentials: jest.fn().mockReturnValue([]),
+    }),
+  },
+}));
+
+import { SSHConnection } from './SSHConnection';
+import { InProcessAgent } from './agentForwarding';
+
+function fakeChannel() {
+  const channel = Object.assign(new EventEmitter(), { resume: jest.fn(), stderr: { resume: jest.fn() } });
+  return channel;
+}
+
+describe('SSHConnection agent forwarding', () => {
+  let connection: SSHConnection;
+  let exec: jest.Mock;
+
+  beforeEach(() => {
+    resetWindowMocks();
+    connection = new SSHConnection(createMockHostConfig({ name: 'web', forwardAgent: true }));
+    exec = jest.fn((_cmd: string, _opts: unknown, cb: (err: Error | undefined, stream?: unknown) => void) => cb(undefined, fakeChannel()));
+    (connection as any)._client = { exec, end: jest.fn() };
+    (connection as any)._forwardingAgent = { agent: '/tmp/agent.sock', source: 'ssh-agent' };
+    connection.state = ConnectionState.Connected;
+  });
+
+  function probe(): Promise<void> {
+    return (connection as any).requestAgentForwarding(1000);
+  }
+
+  it('requests forwarding on a throwaway exec channel and reports it active', async () => {
+    await probe();
+
+    expect(exec).toHaveBeenCalledWith('true', { agentForward: true }, expect.any(Function));
+    expect(connection.agentForwardingActive).toBe(true);
+    expect(window.showWarningMessage).not.toHaveBeenCalled();
+  });
+
+  it('works the same with the in-process agent', async () => {
+    (connection as any)._forwardingAgent = { agent: new InProcessAgent([]), source: 'in-process' };
+
+    await probe();
+
+    expect(connection.agentForwardingActive).toBe(true);
+  });
+
+  it('warns and stays inactive when the server refuses', async () => {
+    exec.mockImplementation((_cmd, _opts, cb) => cb(new Error('Unable to request agent forwarding')));
+
+    await probe();
+
+    expect(connection.agentForwardingActive).toBe(false);
+    expect(window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('AllowAgentForwarding'));
+  });
+
+  it('gives up when the server never answers', async () => {
+    jest.useFakeTimers();
+    exec.mockImplementation(() => undefined);
+
+    const done = probe();
+    jest.advanceTimersByTime(1000);
+    await done;
+    jest.useRealTimers();
+
+    expect(connection.agentForwardingActive).toBe(false);
+    expect(window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('No reply'));
+  });
+
+  it('warns without probing when there is no agent and no key', async () => {
+    (connection as any)._forwardingAgent = undefined;
+
+    await probe();
+
+    expect(exec).not.toHaveBeenCalled();
+    expect(connection.agentForwardingActive).toBe(false);
+    expect(window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('no ssh-agent'));
+  });
+
+  it('is no longer active after disconnect', async () => {
+    await probe();
+
+    await connection.disconnect();
+
+    expect(connection.agentForwardingActive).toBe(false);
+  });
+});
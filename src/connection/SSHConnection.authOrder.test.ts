@@ -0,0 +1,140 @@
+/**
+ * SSHConnection — every key is offered, and the one that worked goes first.
+ *
+ * The fake server below drives ssh2's authHandler the way ssh2 does: it asks
+ * for the next attempt after each rejection and reports the method that got
+ * through. The real CredentialService is mocked down to the remembered-method
+ * store so the second connect can be checked against what the first recorded.
+ */
+
+import { createMockHostConfig } from '../__mocks__/testHelpers';
+import { AuthenticationError } from '../types';
+
+// `var` so the @swc/jest mock factories can reference them.
+var mockOffered: string[];
+var mockAccept: (auth: any) => boolean;
+var mockLastAuth: Map<string, string>;
+
+/** ssh2 method object → the name the test asserts on */
+function describeAuth(auth: any): string {
+  return auth.type === 'publickey' ? `publickey:${String(auth.key)}` : auth.type;
+}
+
+jest.mock('ssh2', () => ({
+  ...jest.requireActual('ssh2'),
+  Client: jest.fn().mockImplementation(() => {
+    const handlers: Record<string, (...args: any[]) => void> = {};
+    const client: any = {
+      on: jest.fn((event: string, cb: (...args: any[]) => void) => {
+        handlers[event] = cb;
+        return client;
+      }),
+      connect: jest.fn((cfg: any) => setImmediate(() => {
+        for (;;) {
+          const next = cfg.authHandler(mockOffered.length ? ['publickey', 'password', 'keyboard-interactive'] : null, false);
+          if (next === false) {
+            handlers.error(new Error('All configured authentication methods failed'));
+            return;
+          }
+          mockOffered.push(describeAuth(next));
+          if (mockAccept(next)) {
+            handlers.ready();
+            return;
+          }
+        }
+      })),
+      end: jest.fn(),
+    };
+    return client;
+  }),
+}));
+
+jest.mock('fs', () => ({
+  existsSync: jest.fn((p: string) => /id_(rsa|ed25519)$/.test(String(p))),
+  readFileSync: jest.fn((p: string) => Buffer.from(String(p).replace(/^.*\//, ''))),
+}));
+
+// fs is mocked: there are no known_hosts files to look for a @cert-authority in
+jest.mock('../services/KnownHostsService', () => ({
+  KnownHostsService: { getInstance: () => ({ hasCertificateAuthority: () => false }) },
+}));
+
+jest.mock('./keyEncryption', () => ({
+  isPrivateKeyEncrypted: () => false,
+  isKeyPassphraseValid: () => true,
+}));
+
+jest.mock('../services/CredentialService', () => ({
+  CredentialService: {
+    getInstance: jest.fn(() => ({
+      get: jest.fn().mockResolvedValue(undefined),
+      getOrPrompt: jest.fn().mockResolvedValue(undefined),
+      getCredentialSecret: jest.fn().mockResolvedValue(undefined),
+      listCredentials: jest.fn().mockReturnValue([]),
+      getTotpSecret: jest.fn().mockResolvedValue(undefined),
+      deleteAll: jest.fn(),
+      getLastAuthMethod: jest.fn(async (hostId: string) => mockLastAuth.get(hostId)),
+      setLastAuthMethod: jest.fn(async (hostId: string, method: string) => {
+        mockLastAuth.set(hostId, method);
+      }),
+    })),
+  },
+}));
+
+import { SSHConnection } from './SSHConnection';
+
+describe('SSHConnection — auth attempt order', () => {
+  let savedAuthSock: string | undefined;
+  const host = createMockHostConfig({ host: 'web', port: 22, username: 'alice', privateKeyPath: undefined });
+
+  beforeEach(() => {
+    mockOffered = [];
+    mockLastAuth = new Map();
+    savedAuthSock = process.env.SSH_AUTH_SOCK;
+    process.env.SSH_AUTH_SOCK = '/tmp/agent.sock';
+  });
+
+  afterEach(() => {
+    if (savedAuthSock === undefined) {
+      delete process.env.SSH_AUTH_SOCK;
+    } else {
+      process.env.SSH_AUTH_SOCK = savedAuthSock;
+    }
+  });
+
+  it('falls through agent and a rejected key to the next key, and remembers it', async () => {
+    mockAccept = (auth) => describeAuth(auth) === 'publickey:id_ed25519';
+
+    await new SSHConnection(host).connect();
+
+    expect(mockOffered).toEqual(['none', 'agent', 'publickey:id_rsa', 'publickey:id_ed25519']);
+    expect(mockLastAuth.get('web:22:alice')).toBe('publickey:~/.ssh/id_ed25519');
+  });
+
+  it('offers the remembered method first on the next connect', async () => {
+    mockLastAuth.set('web:22:alice', 'publickey:~/.ssh/id_ed25519');
+    mockAccept = (auth) => describeAuth(auth) === 'publickey:id_ed25519';
+
+    await new SSHConnection(host).connect();
+
+    expect(mockOffered).toEqual(['none', 'publickey:id_ed25519']);
+  });
+
+  it('still tries the rest when the remembered method stops working', async () => {
+    mockLastAuth.set('web:22:alice', 'publickey:~/.ssh/id_ed25519');
+    mockAccept = (auth) => auth.type === 'agent';
+
+    await new SSHConnection(host).connect();
+
+    expect(mockOffered).toEqual(['none', 'publickey:id_ed25519', 'agent']);
+    expect(mockLastAuth.get('web:22:alice')).toBe('agent');
+  });
+
+  it('fails with an AuthenticationError once every attempt is rejected', async () => {
+    mockAccept = () => false;
+
+    await expect(new SSHConnection(host).connect()).rejects.toBeInstanceOf(AuthenticationError);
+    expect(mockOffered).toEqual(['none', 'agent', 'publickey:id_rsa', 'publickey:id_ed25519', 'keyboard-interactive']);
+    expect(mockLastAuth.size).toBe(0);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * SSHConnection structured exec: execDetailed reports stdout, stderr, exit
+ * code, signal and timing without rejecting on a failing exit; env, stdin,
+ * timeouts and cancellation stop or feed the channel; execStream hands
+ * output to a callback as it arrives and keeps only the tail of stderr.
+ */
+
+import { EventEmitter } from 'events';
+import * as vscode from 'vscode';
+import { createMockHostConfig } from '../__mocks__/testHelpers';
+import { ConnectionState } from '../types';
+
+jest.mock('ssh2', () => ({
+  ...jest.requireActual('ssh2'),
+  Client: jest.fn().mockImplementation(() => ({
+    on: jest.fn().mockReturnThis(),
+    connect: jest.fn(),
+    end: jest.fn(),
+    destroy: jest.fn(),
+  })),
+}));
+
+jest.mock('../services/CredentialService', () => ({
+  CredentialService: {
+    getInstance: jest.fn().mockReturnValue({
+      getCredentialPassword: jest.fn().mockResolvedValue(undefined),
+      listCredentials: jest.fn().mockReturnValue([]),
+    }),
+  },
+}));
+
+import { SSHConnection } from './SSHConnection';
+
+/** An exec channel the test drives: emit output, then finish() it */
+function fakeChannel() {
+  const channel = Object.assign(new EventEmitter(), {
+    stderr: new EventEmitter(),
+    end: jest.fn(),
+    signal: jest.fn(),
+    close: jest.fn(),
+    finish(code: number | null, signal?: string) {
+      channel.emit('exit', code, signal);
+      channel.emit('close');
+    },
+  });
+  channel.close.mockImplementation(() => channel.finish(null, 'TERM'));
+  return channel;
+}
+
+/** Let execDetailed open the channel and attach its listeners */
+async function opened(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('SSHConnection - execDetailed / execStream', () => {
+  let connection: SSHConnection;
+  let channel: ReturnType<typeof fakeChannel>;
+  let execChannel: jest.Mock;
+
+  beforeEach(() => {
+    connection = new SSHConnection(createMockHostConfig({ name: 'web', username: 'web' }));
+    (connection as any)._client = {};
+    connection.state = ConnectionState.Connected;
+    channel = fakeChannel();
+    execChannel = jest.fn().mockResolvedValue(channel);
+    (connection as any)._execChannel = execChannel;
+  });
+
+  it('reports stdout, stderr and a failing exit code without rejecting', async () => {
+    const pending = connection.execDetailed('crontab /tmp/x');
+    await opened();
+    channel.emit('data', Buffer.from('partial'));
+    channel.stderr.emit('data', Buffer.from('"/tmp/x":1: bad minute\n'));
+    channel.finish(1);
+
+    const result = await pending;
+
+    expect(result).toEqual(expect.objectContaining({
+      stdout: 'partial',
+      stderr: '"/tmp/x":1: bad minute\n',
+      exitCode: 1,
+    }));
+    expect(result.timedOut).toBeUndefined();
+    expect(channel.end).toHaveBeenCalledWith();
+  });
+
+  it('exports env vars before the command and writes stdin', async () => {
+    const pending = connection.execDetailed('crontab -', { env: { LANG: 'C', NOTE: "it's" }, stdin: '* * * * * true\n' });
+    await opened();
+    channel.finish(0);
+    await pending;
+
+    expect(execChannel).toHaveBeenCalledWith("export LANG='C' NOTE='it'\\''s'; crontab -");
+    expect(channel.end).toHaveBeenCalledWith('* * * * * true\n');
+  });
+
+  it('rejects env var names that are not shell identifiers', async () => {
+    await expect(connection.execDetailed('env', { env: { 'A;rm': '1' } })).rejects.toThrow('Invalid environment variable name: A;rm');
+    expect(execChannel).not.toHaveBeenCalled();
+  });
+
+  it('signals and closes the channel on timeout', async () => {
+    jest.useFakeTimers();
+    try {
+      const pending = connection.execDetailed('sleep 100', { timeoutMs: 1000, killSignal: 'KILL' });
+      await opened();
+      jest.advanceTimersByTime(1000);
+
+      const result = await pending;
+
+      expect(channel.signal).toHaveBeenCalledWith('KILL');
+      expect(result).toEqual(expect.objectContaining({ exitCode: null, signal: 'TERM', timedOut: true }));
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('stops the command when the token is cancelled', async () => {
+    const source = new vscode.CancellationTokenSource();
+    const pending = connection.execDetailed('tail -f log', { token: source.token });
+    await opened();
+    source.cancel();
+
+    const result = await pending;
+
+    expect(channel.signal).toHaveBeenCalledWith('TERM');
+    expect(result.cancelled).toBe(true);
+  });
+
+  it('passes output to onData as it arrives, keeping multi-byte characters whole', async () => {
+    const chunks: string[] = [];
+    const pending = connection.execStream('make', (chunk, stream) => chunks.push(`${stream}:${chunk}`));
+    await opened();
+    const euro = Buffer.from('€');
+    channel.emit('data', euro.subarray(0, 1));
+    channel.emit('data', euro.subarray(1));
+    channel.stderr.emit('data', Buffer.from('warning'));
+    channel.finish(0);
+
+    const result = await pending;
+
+    expect(chunks.join('')).toBe('stdout:stdout:€stderr:warning');
+    expect(result.stdout).toBe('');
+    expect(result.stderr).toBe('warning');
+  });
+});
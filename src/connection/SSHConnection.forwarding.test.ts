@@ -0,0 +1,248 @@
+/**
+ * SSHConnection remote (-R) and dynamic (-D) forwards.
+ *
+ * The ssh2 client is a fake whose forwardOut() hands back an in-memory echo
+ * channel and whose forwardIn()/unforwardIn() just record their calls; the
+ * local side (SOCKS listener, -R target) uses real loopback sockets.
+ */
+
+import * as net from 'net';
+import { Duplex } from 'stream';
+import { ConnectionState, SFTPError } from '../types';
+import { createMockHostConfig } from '../__mocks__/testHelpers';
+
+jest.mock('ssh2', () => ({
+  ...jest.requireActual('ssh2'),
+  Client: jest.fn().mockImplementation(() => ({
+    on: jest.fn().mockReturnThis(),
+    connect: jest.fn(),
+    end: jest.fn(),
+    destroy: jest.fn(),
+  })),
+}));
+
+jest.mock('../services/CredentialService', () => ({
+  CredentialService: {
+    getInstance: jest.fn().mockReturnValue({
+      getCredentialPassword: jest.fn().mockResolvedValue(undefined),
+      listCredentials: jest.fn().mockReturnValue([]),
+    }),
+  },
+}));
+
+import { SSHConnection } from './SSHConnection';
+
+/** A channel that writes back whatever it receives, prefixed so the test can tell it went through. */
+function echoChannel(): Duplex {
+  const channel: Duplex = new Duplex({
+    read() {},
+    write(chunk, _enc, cb) {
+      channel.push(Buffer.concat([Buffer.from('echo:'), chunk]));
+      cb();
+    },
+    final(cb) {
+      channel.push(null);
+      cb();
+    },
+  });
+  return channel;
+}
+
+function createFakeClient() {
+  return {
+    forwardOut: jest.fn((_srcIP: string, _srcPort: number, _host: string, _port: number, cb: (err: Error | undefined, stream?: Duplex) => void) =>
+      cb(undefined, echoChannel())
+    ),
+    forwardIn: jest.fn((_host: string, port: number, cb: (err: Error | undefined, port: number) => void) => cb(undefined, port)),
+    unforwardIn: jest.fn((_host: string, _port: number, cb: (err?: Error) => void) => cb()),
+    end: jest.fn(),
+  };
+}
+
+/** Run a SOCKS5 CONNECT to host:port through the proxy, send `payload`, resolve with every byte received after the handshake. */
+function socksRoundTrip(proxyPort: number, host: string, port: number, payload: string): Promise<{ reply: number; data: string }> {
+  return new Promise((resolve, reject) => {
+    let buf = Buffer.alloc(0);
+    let sent = false;
+    const client = net.connect(proxyPort, '127.0.0.1', () => {
+      const name = Buffer.from(host);
+      client.write(Buffer.from([5, 1, 0]));
+      client.write(Buffer.from([5, 1, 0, 3, name.length, ...name, port >> 8, port & 0xff]));
+    });
+    client.on('data', (d) => {
+      buf = Buffer.concat([buf, d]);
+      // 2-byte method reply + 10-byte CONNECT reply, then tunnelled data
+      if (!sent && buf.length >= 12 && buf[3] === 0) {
+        sent = true;
+        client.write(payload);
+      } else if (buf.length > 12) {
+        client.end();
+      }
+    });
+    client.on('error', reject);
+    client.on('close', () => resolve({ reply: buf[3], data: buf.subarray(12).toString() }));
+  });
+}
+
+describe('SSHConnection forwards', () => {
+  let connection: SSHConnection;
+  let client: ReturnType<typeof createFakeClient>;
+
+  beforeEach(() => {
+    connection = new SSHConnection(createMockHostConfig());
+    client = createFakeClient();
+    (connection as any)._client = client;
+    connection.state = ConnectionState.Connected;
+  });
+
+  afterEach(async () => {
+    for (const port of connection.getActiveForwards()) {
+      await connection.stopForward(port);
+    }
+    (connection as any)._client = null;
+  });
+
+  async function freePort(): Promise<number> {
+    const probe = net.createServer();
+    await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve));
+    const { port } = probe.address() as net.AddressInfo;
+    await new Promise<void>((resolve) => probe.close(() => resolve()));
+    return port;
+  }
+
+  describe('forwardDynamic', () => {
+    it('tunnels each SOCKS CONNECT through forwardOut to the requested destination', async () => {
+      const port = await freePort();
+      await connection.forwardDynamic(port);
+
+      const result = await socksRoundTrip(port, 'admin.internal', 8443, 'hello');
+
+      expect(client.forwardOut).toHaveBeenCalledWith('127.0.0.1', expect.any(Number), 'admin.internal', 8443, expect.any(Function));
+      expect(result.reply).toBe(0);
+      expect(result.data).toBe('echo:hello');
+    });
+
+    it('answers "connection refused" when the server cannot reach the destination', async () => {
+      client.forwardOut.mockImplementation((_a, _b, _c, _d, cb) => cb(new Error('Connection refused')));
+      const port = await freePort();
+      await connection.forwardDynamic(port);
+
+      const result = await socksRoundTrip(port, 'down.internal', 80, 'x');
+
+      expect(result.reply).toBe(5);
+    });
+
+    it('is listed and stopped like a local forward', async () => {
+      const port = await freePort();
+      await connection.forwardDynamic(port);
+
+      expect(connection.getActiveForwards()).toContain(port);
+      await expect(connection.forwardDynamic(port)).rejects.toThrow('already forwarded');
+
+      await connection.stopForward(port);
+      expect(connection.getActiveForwards()).not.toContain(port);
+    });
+  });
+
+  describe('forwardRemotePort', () => {
+    let target: net.Server;
+    let targetPort: number;
+
+    beforeEach(async () => {
+      target = net.createServer((socket) => socket.on('data', (d) => socket.end(`local:${d}`)));
+      await new Promise<void>((resolve) => target.listen(0, '127.0.0.1', resolve));
+      targetPort = (target.address() as net.AddressInfo).port;
+    });
+
+    afterEach(async () => {
+      await new Promise<void>((resolve) => target.close(() => resolve()));
+    });
+
+    it('asks the server to listen with forwardIn and returns the bound port', async () => {
+      const bound = await connection.forwardRemotePort('localhost', 9000, '127.0.0.1', targetPort);
+
+      expect(bound).toBe(9000);
+      expect(client.forwardIn).toHaveBeenCalledWith('localhost', 9000, expect.any(Function));
+    });
+
+    it('splices incoming server connections to the local target', async () => {
+      await connection.forwardRemotePort('localhost', 9000, '127.0.0.1', targetPort);
+      const channel = new Duplex({
+        read() {},
+        write(chunk, _enc, cb) {
+          received.push(chunk);
+          cb();
+        },
+      });
+      const received: Buffer[] = [];
+      const accept = jest.fn(() => channel);
+      const reject = jest.fn();
+
+      (connection as any).acceptRemoteForward(
+        { destIP: '127.0.0.1', destPort: 9000, srcIP: '10.0.0.9', srcPort: 50000 },
+        accept,
+        reject
+      );
+      await new Promise((r) => setTimeout(r, 50));
+      channel.push('ping');
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(accept).toHaveBeenCalled();
+      expect(reject).not.toHaveBeenCalled();
+      expect(Buffer.concat(received).toString()).toBe('local:ping');
+    });
+
+    it('rejects connections for ports it is not forwarding', () => {
+      const accept = jest.fn();
+      const reject = jest.fn();
+
+      (connection as any).acceptRemoteForward({ destIP: '127.0.0.1', destPort: 9999, srcIP: '', srcPort: 0 }, accept, reject);
+
+      expect(reject).toHaveBeenCalled();
+      expect(accept).not.toHaveBeenCalled();
+    });
+
+    it('rejects the channel when the local target is down', async () => {
+      const closedPort = await freePort();
+      await connection.forwardRemotePort('localhost', 9000, '127.0.0.1', closedPort);
+      const accept = jest.fn();
+      const reject = jest.fn();
+
+      (connection as any).acceptRemoteForward({ destIP: '127.0.0.1', destPort: 9000, srcIP: '', srcPort: 0 }, accept, reject);
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(reject).toHaveBeenCalled();
+      expect(accept).not.toHaveBeenCalled();
+    });
+
+    it('surfaces a refused forwardIn as an SFTPError', async () => {
+      client.forwardIn.mockImplementation((_h, _p, cb) => cb(new Error('request failed'), 0));
+
+      await expect(connection.forwardRemotePort('localhost', 80, 'localhost', 3000)).rejects.toThrow(SFTPError);
+      await expect(connection.forwardRemotePort('localhost', 80, 'localhost', 3000)).rejects.toThrow(/refused to listen/);
+    });
+
+    it('refuses a second forward on the same server port', async () => {
+      await connection.forwardRemotePort('localhost', 9000, 'localhost', 3000);
+
+      await expect(connection.forwardRemotePort('localhost', 9000, 'localhost', 4000)).rejects.toThrow('already forwarded');
+    });
+
+    it('stops with unforwardIn on the original bind address', async () => {
+      await connection.forwardRemotePort('0.0.0.0', 9000, 'localhost', 3000);
+
+      await connection.stopRemoteForward(9000);
+
+      expect(client.unforwardIn).toHaveBeenCalledWith('0.0.0.0', 9000, expect.any(Function));
+      const reject = jest.fn();
+      (connection as any).acceptRemoteForward({ destIP: '', destPort: 9000, srcIP: '', srcPort: 0 }, jest.fn(), reject);
+      expect(reject).toHaveBeenCalled();
+    });
+
+    it('requires a live connection', async () => {
+      connection.state = ConnectionState.Disconnected;
+
+      await expect(connection.forwardRemotePort('localhost', 9000, 'localhost', 3000)).rejects.toThrow('Not connected');
+    });
+  });
+});
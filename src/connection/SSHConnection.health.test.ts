@@ -0,0 +1,108 @@
+/**
+ * SSHConnection health probes: the keepalive and SFTP realpath round trips
+ * behind measureLatency(), and the transfer events the sampler turns into
+ * throughput. The ssh2 client is a fake exposing the protocol ping and the
+ * in-order reply callback queue that ssh2's own keepalive timer uses.
+ */
+
+import { createMockHostConfig } from '../__mocks__/testHelpers';
+import { ConnectionError, ConnectionState, ITransferSample } from '../types';
+
+jest.mock('ssh2', () => ({
+  ...jest.requireActual('ssh2'),
+  Client: jest.fn().mockImplementation(() => ({
+    on: jest.fn().mockReturnThis(),
+    connect: jest.fn(),
+    end: jest.fn(),
+    destroy: jest.fn(),
+  })),
+}));
+
+jest.mock('../services/CredentialService', () => ({
+  CredentialService: {
+    getInstance: jest.fn().mockReturnValue({
+      getCredentialPassword: jest.fn().mockResolvedValue(undefined),
+      listCredentials: jest.fn().mockReturnValue([]),
+    }),
+  },
+}));
+
+import { SSHConnection } from './SSHConnection';
+
+function fakeClient(answerPing: boolean) {
+  const callbacks: Array<(err: boolean) => void> = [];
+  return {
+    _callbacks: callbacks,
+    _protocol: {
+      ping: jest.fn(() => {
+        if (answerPing) {
+          // sshd answers keepalive@openssh.com with REQUEST_FAILURE
+          setImmediate(() => callbacks.shift()!(true));
+        }
+      }),
+    },
+    end: jest.fn(),
+  };
+}
+
+describe('SSHConnection health probes', () => {
+  let connection: SSHConnection;
+  let sftp: { realpath: jest.Mock; writeFile: jest.Mock };
+
+  beforeEach(() => {
+    connection = new SSHConnection(createMockHostConfig({ name: 'web' }));
+    sftp = {
+      realpath: jest.fn((_p: string, cb: (err: Error | undefined, abs?: string) => void) => setImmediate(() => cb(undefined, '/home/web'))),
+      writeFile: jest.fn((_p: string, _data: Buffer, cb: (err?: Error) => void) => cb()),
+    };
+    (connection as any)._sftp = sftp;
+    (connection as any)._client = fakeClient(true);
+    connection.state = ConnectionState.Connected;
+  });
+
+  it('times a keepalive and an SFTP realpath', async () => {
+    const sample = await connection.measureLatency(1000);
+
+    expect((connection as any)._client._protocol.ping).toHaveBeenCalledTimes(1);
+    expect(sftp.realpath).toHaveBeenCalledWith('.', expect.any(Function));
+    expect(sample.transportMs).toEqual(expect.any(Number));
+    expect(sample.sftpMs).toEqual(expect.any(Number));
+  });
+
+  it('leaves a round trip undefined when it gets no answer in time', async () => {
+    jest.useFakeTimers();
+    (connection as any)._client = fakeClient(false);
+    sftp.realpath.mockImplementation(() => undefined);
+
+    const pending = connection.measureLatency(1000);
+    jest.advanceTimersByTime(1000);
+    const sample = await pending;
+    jest.useRealTimers();
+
+    expect(sample).toEqual({ transportMs: undefined, sftpMs: undefined });
+  });
+
+  it('counts a failed realpath as no answer', async () => {
+    sftp.realpath.mockImplementation((_p: string, cb: (err: Error) => void) => cb(new Error('Permission denied')));
+
+    const sample = await connection.measureLatency(1000);
+
+    expect(sample.sftpMs).toBeUndefined();
+    expect(sample.transportMs).toEqual(expect.any(Number));
+  });
+
+  it('refuses to measure a closed connection', async () => {
+    connection.state = ConnectionState.Disconnected;
+
+    await expect(connection.measureLatency(1000)).rejects.toThrow(ConnectionError);
+  });
+
+  it('reports completed writes as upload transfers', async () => {
+    const transfers: ITransferSample[] = [];
+    connection.onDidTransfer((t) => transfers.push(t));
+
+    await connection.writeFile('/home/web/a.bin', Buffer.alloc(2048));
+
+    expect(transfers).toEqual([{ bytes: 2048, durationMs: expect.any(Number), direction: 'upload' }]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * SSHConnection jump-host (ProxyJump) chain.
+ *
+ * The final ssh2 Client must never dial the target directly when jumpHosts are
+ * configured: each hop is connected in order, every later hop (and the target)
+ * is reached over the previous hop's forwardOut stream, and the bastion clients
+ * are torn down with the session.
+ */
+
+import { createMockHostConfig } from '../__mocks__/testHelpers';
+import { ConnectionState } from '../types';
+
+// Every Client the connection creates, in creation order: the target client
+// first (created up-front in connect()), then one per hop. `var` so the
+// @swc/jest mock factory can reference it.
+var mockClients: any[];
+var mockForwardFails: boolean;
+
+jest.mock('ssh2', () => ({
+  ...jest.requireActual('ssh2'),
+  Client: jest.fn().mockImplementation(() => {
+    const handlers: Record<string, (...args: any[]) => void> = {};
+    const client: any = {
+      handlers,
+      on: jest.fn((event: string, cb: (...args: any[]) => void) => {
+        handlers[event] = cb;
+        return client;
+      }),
+      connect: jest.fn(() => setImmediate(() => handlers.ready?.())),
+      forwardOut: jest.fn((_srcIp: string, _srcPort: number, dstHost: string, dstPort: number, cb: any) => {
+        if (mockForwardFails) {
+          cb(new Error('administratively prohibited'));
+          return;
+        }
+        cb(undefined, { tunnel: `${dstHost}:${dstPort}` });
+      }),
+      end: jest.fn(),
+    };
+    mockClients.push(client);
+    return client;
+  }),
+}));
+
+jest.mock('fs', () => ({
+  existsSync: jest.fn().mockReturnValue(false),
+  readFileSync: jest.fn(),
+}));
+
+// fs is mocked: there are no known_hosts files to look for a @cert-authority in
+jest.mock('../services/KnownHostsService', () => ({
+  KnownHostsService: { getInstance: () => ({ hasCertificateAuthority: () => false }) },
+}));
+
+var mockListCredentials: jest.Mock;
+var mockGetCredentialSecret: jest.Mock;
+jest.mock('../services/CredentialService', () => ({
+  CredentialService: {
+    getInstance: jest.fn(() => ({
+      get: jest.fn().mockResolvedValue(undefined),
+      getOrPrompt: jest.fn().mockResolvedValue('pw'),
+      getCredentialSecret: mockGetCredentialSecret,
+      listCredentials: mockListCredentials,
+      deleteAll: jest.fn(),
+      getTotpSecret: jest.fn().mockResolvedValue(undefined),
+      getLastAuthMethod: jest.fn().mockResolvedValue(undefined),
+      setLastAuthMethod: jest.fn().mockResolvedValue(undefined),
+    })),
+  },
+}));
+
+import { SSHConnection } from './SSHConnection';
+
+describe('SSHConnection — jump host chain', () => {
+  let savedAuthSock: string | undefined;
+
+  beforeEach(() => {
+    mockClients = [];
+    mockForwardFails = false;
+    mockListCredentials = jest.fn().mockReturnValue([]);
+    mockGetCredentialSecret = jest.fn().mockResolvedValue(undefined);
+    savedAuthSock = process.env.SSH_AUTH_SOCK;
+    process.env.SSH_AUTH_SOCK = '/tmp/agent.sock';
+  });
+
+  afterEach(() => {
+    if (savedAuthSock === undefined) {
+      delete process.env.SSH_AUTH_SOCK;
+    } else {
+      process.env.SSH_AUTH_SOCK = savedAuthSock;
+    }
+  });
+
+  function makeConnection(jumpHosts?: Array<{ host: string; port: number; username: string; credentialId?: string }>): SSHConnection {
+    const host = createMockHostConfig({ host: '10.0.1.5', port: 22, username: 'app', jumpHosts });
+    return new SSHConnection(host);
+  }
+
+  it('dials the target directly when no jump hosts are configured', async () => {
+    const conn = makeConnection();
+    await conn.connect();
+
+    expect(mockClients).toHaveLength(1);
+    const cfg = mockClients[0].connect.mock.calls[0][0];
+    expect(cfg.host).toBe('10.0.1.5');
+    expect(cfg.sock).toBeUndefined();
+    expect(conn.state).toBe(ConnectionState.Connected);
+  });
+
+  it('tunnels a single hop: bastion forwards to the target, target rides on that stream', async () => {
+    const conn = makeConnection([{ host: 'bastion', port: 2222, username: 'ops' }]);
+    await conn.connect();
+
+    expect(mockClients).toHaveLength(2);
+    const [target, bastion] = mockClients;
+    expect(bastion.connect.mock.calls[0][0]).toMatchObject({ host: 'bastion', port: 2222, username: 'ops' });
+    expect(bastion.connect.mock.calls[0][0].sock).toBeUndefined();
+    expect(bastion.forwardOut).toHaveBeenCalledWith('127.0.0.1', 0, '10.0.1.5', 22, expect.any(Function));
+    expect(target.connect.mock.calls[0][0].sock).toEqual({ tunnel: '10.0.1.5:22' });
+    expect(conn.state).toBe(ConnectionState.Connected);
+  });
+
+  it('chains multiple hops in order, each over the previous hop', async () => {
+    const conn = makeConnection([
+      { host: 'edge', port: 22, username: 'a' },
+      { host: 'inner', port: 22, username: 'b' },
+    ]);
+    await conn.connect();
+
+    expect(mockClients).toHaveLength(3);
+    const [target, edge, inner] = mockClients;
+    expect(edge.forwardOut.mock.calls[0][2]).toBe('inner');
+    expect(inner.connect.mock.calls[0][0].sock).toEqual({ tunnel: 'inner:22' });
+    expect(inner.forwardOut.mock.calls[0][2]).toBe('10.0.1.5');
+    expect(target.connect.mock.calls[0][0].sock).toEqual({ tunnel: '10.0.1.5:22' });
+  });
+
+  it('authenticates a hop with the saved credential picked for it', async () => {
+    mockListCredentials.mockImplementation((hostId: string) =>
+      hostId === 'bastion:22:ops'
+        ? [
+            { id: 'cred_1', label: 'ops', type: 'password' },
+            { id: 'cred_2', label: 'ops (backup)', type: 'password' },
+          ]
+        : []
+    );
+    mockGetCredentialSecret.mockImplementation(async (_hostId: string, id: string) => `pw-${id}`);
+
+    const conn = makeConnection([{ host: 'bastion', port: 22, username: 'ops', credentialId: 'cred_2' }]);
+    await conn.connect();
+
+    expect(mockGetCredentialSecret).toHaveBeenCalledWith('bastion:22:ops', 'cred_2');
+    expect(mockClients[1].connect.mock.calls[0][0].password).toBe('pw-cred_2');
+  });
+
+  it('does not guess a saved credential for a hop that has none picked', async () => {
+    mockListCredentials.mockReturnValue([{ id: 'cred_1', label: 'ops', type: 'password' }]);
+    mockGetCredentialSecret.mockResolvedValue('bastion-pw');
+
+    const conn = makeConnection([{ host: 'bastion', port: 22, username: 'ops' }]);
+    await conn.connect();
+
+    expect(mockGetCredentialSecret).not.toHaveBeenCalled();
+    expect(mockClients[1].connect.mock.calls[0][0].password).toBeUndefined();
+    expect(mockClients[1].connect.mock.calls[0][0].agent).toBe('/tmp/agent.sock');
+  });
+
+  it('fails clearly when the credential picked for a hop was deleted', async () => {
+    const conn = makeConnection([{ host: 'bastion', port: 22, username: 'ops', credentialId: 'cred_gone' }]);
+
+    await expect(conn.connect()).rejects.toThrow(/credential picked for jump host ops@bastion no longer exists/);
+    expect(mockClients[0].connect).not.toHaveBeenCalled();
+  });
+
+  it('fails with a hop-specific error and closes the bastion when forwardOut is refused', async () => {
+    mockForwardFails = true;
+    const conn = makeConnection([{ host: 'bastion', port: 22, username: 'ops' }]);
+
+    await expect(conn.connect()).rejects.toThrow(/Jump host ops@bastion:22 could not reach 10\.0\.1\.5:22/);
+    expect(mockClients).toHaveLength(2);
+    expect(mockClients[0].connect).not.toHaveBeenCalled(); // target never dialled
+    expect(mockClients[1].end).toHaveBeenCalled();
+    expect(conn.state).toBe(ConnectionState.Error);
+  });
+
+  it('ends the bastion clients on disconnect', async () => {
+    const conn = makeConnection([{ host: 'bastion', port: 22, username: 'ops' }]);
+    await conn.connect();
+    const bastion = mockClients[1];
+
+    await conn.disconnect();
+
+    expect(bastion.end).toHaveBeenCalled();
+  });
+});
@@ -18,6 +18,7 @@ let capturedClientHandlers: EvtMap = {};
 let lastConnectArgs: unknown = null;
 
 jest.mock('ssh2', () => ({
+  ...jest.requireActual('ssh2'),
   Client: jest.fn().mockImplementation(() => {
     const handlers: EvtMap = {};
     capturedClientHandlers = handlers;
@@ -38,16 +39,19 @@ jest.mock('../services/CredentialService', () => ({
   CredentialService: {
     getInstance: jest.fn().mockReturnValue({
       getCredentialPassword: jest.fn().mockResolvedValue(undefined),
-      // Return a password so buildAuthConfig() always has at least one auth
+      // Return a password so buildAuthAttempts() always has at least one auth
       // method. Otherwise — on a machine with no default ~/.ssh/id_* keys and
       // no SSH_AUTH_SOCK (fs is NOT mocked here) — it throws "No authentication
       // method available" before reaching auth-methods / handler registration,
       // making these tests pass or fail by accident of the host's ~/.ssh.
       getOrPrompt: jest.fn().mockResolvedValue('test-password'),
-      // buildAuthConfig() now calls get() (no prompt) for the password fallback
+      // buildAuthAttempts() now calls get() (no prompt) for the password fallback
       // when a key/agent is present. Undefined == no saved password; an existing
       // default ~/.ssh key still supplies a non-empty auth method on dev machines.
       get: jest.fn().mockResolvedValue(undefined),
+      getTotpSecret: jest.fn().mockResolvedValue(undefined),
+      getLastAuthMethod: jest.fn().mockResolvedValue(undefined),
+      setLastAuthMethod: jest.fn().mockResolvedValue(undefined),
       getCredentialSecret: jest.fn().mockResolvedValue(undefined),
       listCredentials: jest.fn().mockReturnValue([]),
       deleteAll: jest.fn(),
@@ -55,7 +59,7 @@ jest.mock('../services/CredentialService', () => ({
   },
 }));
 
-// ssh2 is mocked above with only Client (no utils.parseKey). buildAuthConfig's
+// ssh2 is mocked above with only Client (no utils.parseKey). buildAuthAttempts'
 // legacy path calls isPrivateKeyEncrypted on any default ~/.ssh keys the dev
 // machine happens to have; stub it to a deterministic "unencrypted" so these
 // log tests never depend on the host's key material.
@@ -70,7 +74,7 @@ beforeEach(() => {
 
 /**
  * Flush microtasks until `cond` is true (or maxTicks reached). connect() awaits
- * buildAuthConfig() before it logs `auth-methods` and registers the error/close
+ * buildAuthAttempts() before it logs `auth-methods` and registers the error/close
  * handlers, and how many microtask ticks that takes depends on the credential
  * path. Poll for the observable effect rather than assuming a fixed tick count
  * (the old `await Promise.resolve()` ×2 was brittle and broke when the auth
@@ -91,7 +95,7 @@ describe('SSHConnection.connect — begin + auth-methods', () => {
     // Don't await — connect() will hang waiting for ssh2 'ready' which we never fire.
     // We only need the synchronous logs.
     void conn.connect().catch(() => { /* ignored */ });
-    // Yield once so buildAuthConfig() has a chance to run
+    // Yield once so buildAuthAttempts() has a chance to run
     await Promise.resolve();
     await Promise.resolve();
     const begin = cap.find('INFO', 'ssh-connect', 'begin');
@@ -114,8 +118,8 @@ describe('SSHConnection.connect — begin + auth-methods', () => {
     await flushUntil(() => cap.find('INFO', 'ssh-connect', 'auth-methods').length > 0);
     const auth = cap.find('INFO', 'ssh-connect', 'auth-methods');
     expect(auth).toHaveLength(1);
-    // tryKeyboard is always added in the no-credential path
-    expect(auth[0].data.tryKeyboard).toBe('true');
+    // keyboard-interactive is always offered in the no-credential path
+    expect(String(auth[0].data.methods)).toContain('keyboard-interactive');
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     (conn as any)._client = null;
     conn.dispose();
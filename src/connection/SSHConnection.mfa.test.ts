@@ -0,0 +1,154 @@
+/**
+ * SSHConnection keyboard-interactive / 2FA handling.
+ *
+ * PAM logins ask for the password and then a verification code in
+ * keyboard-interactive rounds. The saved password and the host's TOTP secret
+ * answer them; anything else goes to the user — except during auto-reconnect,
+ * which must fail fast with InteractiveAuthRequiredError instead of prompting.
+ */
+
+import * as vscode from 'vscode';
+import { createMockHostConfig } from '../__mocks__/testHelpers';
+import { resetWindowMocks } from '../__mocks__/vscode';
+import { AuthenticationError, ConnectionState, InteractiveAuthRequiredError } from '../types';
+import { parseTotpSecret, generateTotp } from '../utils/totp';
+
+// `var` so the @swc/jest mock factories can reference them.
+var mockClient: any;
+var mockServer: (client: any) => void;
+var mockTotpSecret: string | undefined;
+var mockDeleteAll: jest.Mock;
+
+jest.mock('ssh2', () => ({
+  ...jest.requireActual('ssh2'),
+  Client: jest.fn().mockImplementation(() => {
+    const handlers: Record<string, (...args: any[]) => void> = {};
+    mockClient = {
+      handlers,
+      on: jest.fn((event: string, cb: (...args: any[]) => void) => {
+        handlers[event] = cb;
+        return mockClient;
+      }),
+      connect: jest.fn(() => setImmediate(() => mockServer(mockClient))),
+      end: jest.fn(),
+    };
+    return mockClient;
+  }),
+}));
+
+jest.mock('fs', () => ({
+  existsSync: jest.fn().mockReturnValue(false),
+  readFileSync: jest.fn(),
+}));
+
+// fs is mocked: there are no known_hosts files to look for a @cert-authority in
+jest.mock('../services/KnownHostsService', () => ({
+  KnownHostsService: { getInstance: () => ({ hasCertificateAuthority: () => false }) },
+}));
+
+jest.mock('../services/CredentialService', () => ({
+  CredentialService: {
+    getInstance: jest.fn(() => ({
+      get: jest.fn().mockResolvedValue(undefined),
+      getOrPrompt: jest.fn().mockResolvedValue('saved-pw'),
+      getCredentialSecret: jest.fn().mockResolvedValue(undefined),
+      listCredentials: jest.fn().mockReturnValue([]),
+      getTotpSecret: jest.fn(async () => mockTotpSecret),
+      getLastAuthMethod: jest.fn().mockResolvedValue(undefined),
+      setLastAuthMethod: jest.fn().mockResolvedValue(undefined),
+      deleteAll: mockDeleteAll,
+    })),
+  },
+}));
+
+import { SSHConnection } from './SSHConnection';
+
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const PAM_PROMPTS = [
+  { prompt: 'Password: ', echo: false },
+  { prompt: 'Verification code: ', echo: false },
+];
+
+/** Server that runs one PAM round and accepts whatever it gets (recording it). */
+function pamServer(answers: string[][]): (client: any) => void {
+  return (client) => {
+    client.handlers['keyboard-interactive']('', '', '', PAM_PROMPTS, (responses: string[]) => {
+      answers.push(responses);
+      client.handlers.ready();
+    });
+  };
+}
+
+describe('SSHConnection — keyboard-interactive / 2FA', () => {
+  let savedAuthSock: string | undefined;
+
+  beforeEach(() => {
+    resetWindowMocks();
+    mockTotpSecret = undefined;
+    mockDeleteAll = jest.fn();
+    savedAuthSock = process.env.SSH_AUTH_SOCK;
+    delete process.env.SSH_AUTH_SOCK;
+  });
+
+  afterEach(() => {
+    if (savedAuthSock !== undefined) {
+      process.env.SSH_AUTH_SOCK = savedAuthSock;
+    }
+  });
+
+  const makeConnection = () => new SSHConnection(createMockHostConfig({ host: 'web', port: 22, username: 'alice' }));
+
+  it('answers the password prompt with the saved password and the code prompt from the TOTP secret', async () => {
+    mockTotpSecret = SECRET;
+    const answers: string[][] = [];
+    mockServer = pamServer(answers);
+
+    const conn = makeConnection();
+    await conn.connect();
+
+    expect(answers).toEqual([['saved-pw', generateTotp(parseTotpSecret(SECRET))]]);
+    expect(vscode.window.showInputBox).not.toHaveBeenCalled();
+    expect(conn.state).toBe(ConnectionState.Connected);
+  });
+
+  it('asks the user for the code when no TOTP secret is saved', async () => {
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('424242');
+    const answers: string[][] = [];
+    mockServer = pamServer(answers);
+
+    await makeConnection().connect();
+
+    expect(answers).toEqual([['saved-pw', '424242']]);
+    expect(vscode.window.showInputBox).toHaveBeenCalledWith(expect.objectContaining({ prompt: 'Verification code:', password: true }));
+  });
+
+  it('fails with InteractiveAuthRequiredError instead of prompting when not interactive', async () => {
+    mockServer = pamServer([]);
+
+    const conn = makeConnection();
+    await expect(conn.connect({ interactive: false })).rejects.toBeInstanceOf(InteractiveAuthRequiredError);
+    expect(vscode.window.showInputBox).not.toHaveBeenCalled();
+    expect(mockDeleteAll).not.toHaveBeenCalled();
+    expect(conn.state).toBe(ConnectionState.Error);
+  });
+
+  it('reports a cancelled prompt without clearing saved credentials', async () => {
+    mockServer = pamServer([]);
+    await expect(makeConnection().connect()).rejects.toThrow('Login cancelled');
+    expect(mockDeleteAll).not.toHaveBeenCalled();
+  });
+
+  it('keeps the saved password when the login fails after a code was sent', async () => {
+    mockTotpSecret = 'JBSWY3DPEHPK3PXP'; // not SECRET: its code for this time step is spent above
+    mockServer = (client) => {
+      client.handlers['keyboard-interactive']('', '', '', PAM_PROMPTS, () => {
+        client.handlers.error(new Error('All configured authentication methods failed'));
+      });
+    };
+
+    const err = await makeConnection().connect().catch((e) => e);
+    expect(err).toBeInstanceOf(AuthenticationError);
+    expect(err.message).toContain('verification code or password was rejected');
+    expect(mockDeleteAll).not.toHaveBeenCalled();
+  });
+});
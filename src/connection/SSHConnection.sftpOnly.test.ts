@@ -0,0 +1,189 @@
+/**
+ * SSHConnection on SFTP-only servers (`ForceCommand internal-sftp`): the
+ * connect-time exec probe, the capabilities it turns off, and the SFTP
+ * fallbacks for the home directory and filename search. The ssh2 client is
+ * a fake whose exec() answers like a normal shell, an internal-sftp account
+ * (channel closes without output once stdin ends) or a refusing server.
+ */
+
+import { EventEmitter } from 'events';
+import { createMockHostConfig } from '../__mocks__/testHelpers';
+import { ConnectionState, SFTPError } from '../types';
+
+jest.mock('ssh2', () => ({
+  ...jest.requireActual('ssh2'),
+  Client: jest.fn().mockImplementation(() => ({
+    on: jest.fn().mockReturnThis(),
+    connect: jest.fn(),
+    end: jest.fn(),
+    destroy: jest.fn(),
+  })),
+}));
+
+jest.mock('../services/CredentialService', () => ({
+  CredentialService: {
+    getInstance: jest.fn().mockReturnValue({
+      getCredentialPassword: jest.fn().mockResolvedValue(undefined),
+      listCredentials: jest.fn().mockReturnValue([]),
+    }),
+  },
+}));
+
+import { SSHConnection } from './SSHConnection';
+
+type ExecReply = 'shell' | 'internal-sftp' | 'refused';
+
+/** A channel that prints `output` (if any) and closes when stdin ends */
+function channel(output: string) {
+  const stream = Object.assign(new EventEmitter(), {
+    stderr: Object.assign(new EventEmitter(), { resume: jest.fn() }),
+    close: jest.fn(),
+    end: jest.fn(() => {
+      if (output) stream.emit('data', Buffer.from(output));
+      stream.emit('close', 0);
+    }),
+  });
+  return stream;
+}
+
+function fakeClient(reply: ExecReply) {
+  const channels: Array<ReturnType<typeof channel>> = [];
+  return {
+    channels,
+    exec: jest.fn((command: string, cb: (err: Error | undefined, stream?: unknown) => void) => {
+      if (reply === 'refused') {
+        cb(new Error('Unable to exec'));
+      } else {
+        channels.push(channel(reply === 'shell' ? command.replace(/^echo /, '') + '\n' : ''));
+        cb(undefined, channels[channels.length - 1]);
+      }
+    }),
+    end: jest.fn(),
+  };
+}
+
+const DIR = 0o040755;
+const FILE = 0o100644;
+
+function fakeSftp() {
+  const tree: Record<string, Array<{ filename: string; mode: number }>> = {
+    '/home/web': [
+      { filename: 'public', mode: DIR },
+      { filename: 'config.php', mode: FILE },
+    ],
+    '/home/web/public': [{ filename: 'index.php', mode: FILE }],
+  };
+  return {
+    realpath: jest.fn((_p: string, cb: (err: Error | undefined, abs?: string) => void) => cb(undefined, '/home/web')),
+    readdir: jest.fn((dir: string, cb: (err: Error | undefined, list?: unknown[]) => void) =>
+      cb(undefined, (tree[dir] ?? []).map((e) => ({ filename: e.filename, longname: '', attrs: { mode: e.mode } })))
+    ),
+    stat: jest.fn((_p: string, cb: (err: Error | undefined, s?: unknown) => void) => cb(undefined, { size: 10, mtime: 0, mode: FILE })),
+  };
+}
+
+describe('SSHConnection on SFTP-only servers', () => {
+  let connection: SSHConnection;
+
+  async function connectWith(reply: ExecReply) {
+    const client = fakeClient(reply);
+    (connection as any)._client = client;
+    await (connection as any).probeExec(1000);
+    connection.state = ConnectionState.Connected;
+    return client;
+  }
+
+  beforeEach(() => {
+    connection = new SSHConnection(createMockHostConfig({ name: 'files', username: 'web' }));
+    (connection as any)._sftp = fakeSftp();
+  });
+
+  describe('exec probe', () => {
+    it('keeps the full feature set when the shell answers', async () => {
+      await connectWith('shell');
+
+      expect(connection.sftpOnly).toBe(false);
+      expect(connection.capabilities.supportsShell).toBe(true);
+    });
+
+    it('detects internal-sftp, which closes the channel without running the command', async () => {
+      const client = await connectWith('internal-sftp');
+
+      expect(connection.sftpOnly).toBe(true);
+      // stdin is closed at once so an sftp-server in place of the command exits
+      expect(client.channels[0].end).toHaveBeenCalled();
+    });
+
+    it('detects a server that refuses exec channels', async () => {
+      await connectWith('refused');
+
+      expect(connection.sftpOnly).toBe(true);
+    });
+
+    it('gives up on a channel that never answers', async () => {
+      jest.useFakeTimers();
+      const hung = channel('');
+      hung.end.mockImplementation(() => undefined);
+      (connection as any)._client = { exec: jest.fn((_c: string, cb: (e: undefined, s: unknown) => void) => cb(undefined, hung)) };
+
+      const probe = (connection as any).probeExec(1000);
+      jest.advanceTimersByTime(1000);
+      await probe;
+      jest.useRealTimers();
+
+      expect(connection.sftpOnly).toBe(true);
+      expect(hung.close).toHaveBeenCalled();
+    });
+
+    it('reports shell features as unavailable and leaves file transfer and port forwarding', async () => {
+      await connectWith('internal-sftp');
+
+      expect(connection.capabilities).toEqual({
+        type: 'ssh',
+        supportsExec: false,
+        supportsShell: false,
+        supportsPortForward: true,
+        supportsNativeWatch: false,
+        supportsSearch: false,
+        supportsServerBackup: false,
+        supportsSudo: false,
+      });
+    });
+
+    it('skips server capability detection', async () => {
+      const client = await connectWith('internal-sftp');
+
+      await (connection as any).detectCapabilities();
+
+      expect(client.exec).toHaveBeenCalledTimes(1);
+      expect(connection.serverCapabilities?.watchMethod).toBe('poll');
+    });
+  });
+
+  describe('fallbacks', () => {
+    beforeEach(async () => {
+      await connectWith('internal-sftp');
+    });
+
+    it('resolves the home directory with SFTP realpath', async () => {
+      expect(await connection.resolveHomePath()).toBe('/home/web');
+      expect((connection as any)._client.exec).toHaveBeenCalledTimes(1);
+    });
+
+    it('finds filenames by walking the tree over SFTP', async () => {
+      const results = await connection.searchFiles('/home/web', 'index', { searchContent: false });
+
+      expect(results.map((r) => r.path)).toEqual(['/home/web/public/index.php']);
+      expect(results[0].size).toBe(10);
+    });
+
+    it('refuses content search with a clear error', async () => {
+      await expect(connection.searchFiles('/home/web', 'TODO')).rejects.toThrow(SFTPError);
+      await expect(connection.searchFiles('/home/web', 'TODO')).rejects.toThrow(/only allows SFTP/);
+    });
+
+    it('has no locate index to offer', async () => {
+      expect(await connection.searchIndexed('/home/web', 'index')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * SSHConnection — options carried over from ~/.ssh/config.
+ *
+ * An ssh-config host should connect like `ssh <alias>`: several IdentityFile
+ * entries (all readable ones offered in order, missing ones skipped), IdentitiesOnly,
+ * ConnectTimeout / ServerAlive* and the algorithm directives.
+ */
+
+import { createMockHostConfig } from '../__mocks__/testHelpers';
+import { setMockConfig, clearMockConfig } from '../__mocks__/vscode';
+
+// `var` so the @swc/jest mock factory can reference it.
+var mockConnectConfigs: any[];
+var mockClients: any[];
+var mockServerAnswers: boolean;
+
+jest.mock('ssh2', () => ({
+  ...jest.requireActual('ssh2'),
+  Client: jest.fn().mockImplementation(() => {
+    const handlers: Record<string, (...args: any[]) => void> = {};
+    const client: any = {
+      on: jest.fn((event: string, cb: (...args: any[]) => void) => {
+        handlers[event] = cb;
+        return client;
+      }),
+      connect: jest.fn((cfg: any) => {
+        mockConnectConfigs.push(cfg);
+        if (mockServerAnswers) {
+          setImmediate(() => handlers.ready?.());
+        }
+      }),
+      end: jest.fn(),
+      destroy: jest.fn(),
+    };
+    mockClients.push(client);
+    return client;
+  }),
+}));
+
+jest.mock('fs', () => ({
+  existsSync: jest.fn(),
+  readFileSync: jest.fn(),
+}));
+
+// fs is mocked: there are no known_hosts files to look for a @cert-authority in
+jest.mock('../services/KnownHostsService', () => ({
+  KnownHostsService: { getInstance: () => ({ hasCertificateAuthority: () => false }) },
+}));
+
+jest.mock('../services/CredentialService', () => ({
+  CredentialService: {
+    getInstance: jest.fn(() => ({
+      get: jest.fn().mockResolvedValue(undefined),
+      getOrPrompt: jest.fn().mockResolvedValue(undefined),
+      getCredentialSecret: jest.fn().mockResolvedValue(undefined),
+      listCredentials: jest.fn().mockReturnValue([]),
+      getTotpSecret: jest.fn().mockResolvedValue(undefined),
+      getLastAuthMethod: jest.fn().mockResolvedValue(undefined),
+      setLastAuthMethod: jest.fn().mockResolvedValue(undefined),
+    })),
+  },
+}));
+
+jest.mock('./keyEncryption', () => ({
+  isPrivateKeyEncrypted: () => false,
+}));
+
+import * as fs from 'fs';
+import { SSHConnection } from './SSHConnection';
+import { AuthAttempt, authAttemptId } from './authAttempts';
+
+describe('SSHConnection — ssh config options', () => {
+  let savedAuthSock: string | undefined;
+
+  beforeEach(() => {
+    mockConnectConfigs = [];
+    mockClients = [];
+    mockServerAnswers = true;
+    clearMockConfig();
+    (fs.existsSync as jest.Mock).mockReset();
+    (fs.readFileSync as jest.Mock).mockReset();
+    (fs.readFileSync as jest.Mock).mockImplementation((p: string) => Buffer.from(`key:${p}`));
+    savedAuthSock = process.env.SSH_AUTH_SOCK;
+    process.env.SSH_AUTH_SOCK = '/tmp/agent.sock';
+  });
+
+  afterEach(() => {
+    clearMockConfig();
+    if (savedAuthSock === undefined) {
+      delete process.env.SSH_AUTH_SOCK;
+    } else {
+      process.env.SSH_AUTH_SOCK = savedAuthSock;
+    }
+  });
+
+  function buildAuth(overrides: Record<string, unknown>): Promise<AuthAttempt[]> {
+    const conn = new SSHConnection(createMockHostConfig({ source: 'ssh-config', ...overrides }));
+    return (conn as any).buildAuthAttempts();
+  }
+
+  describe('identity files', () => {
+    it('offers every IdentityFile that exists, in order, after the agent', async () => {
+      (fs.existsSync as jest.Mock).mockImplementation((p: string) => p !== '/k/gone');
+
+      const auth = await buildAuth({ privateKeyPath: '/k/first', identityFiles: ['/k/first', '/k/gone', '/k/second'] });
+
+      expect(auth.map(authAttemptId)).toEqual(['agent', 'publickey:/k/first', 'publickey:/k/second', 'keyboard-interactive']);
+      expect(auth.filter(a => a.type === 'publickey').map(a => String((a as { key: Buffer }).key))).toEqual(['key:/k/first', 'key:/k/second']);
+    });
+
+    it('does not fall back to default ~/.ssh keys when IdentityFile is set', async () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+      await buildAuth({ privateKeyPath: '/k/first', identityFiles: ['/k/first'] });
+
+      expect(fs.existsSync).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps agent keys out when IdentitiesOnly is set and a key was loaded', async () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+
+      const auth = await buildAuth({ identityFiles: ['/k/only'], sshOptions: { identitiesOnly: true } });
+
+      expect(auth.map(authAttemptId)).toEqual(['publickey:/k/only', 'keyboard-interactive']);
+    });
+
+    it('still offers the agent under IdentitiesOnly when no IdentityFile could be read', async () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+      const auth = await buildAuth({ identityFiles: ['/k/gone'], sshOptions: { identitiesOnly: true } });
+
+      expect(auth[0]).toEqual({ type: 'agent', agent: '/tmp/agent.sock' });
+    });
+  });
+
+  describe('connect options', () => {
+    beforeEach(() => {
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+    });
+
+    it('uses the extension settings when ssh config sets nothing', async () => {
+      setMockConfig('sshLite.connectionTimeout', 12000);
+      setMockConfig('sshLite.keepaliveInterval', 25000);
+
+      await new SSHConnection(createMockHostConfig()).connect();
+
+      expect(mockConnectConfigs[0]).toMatchObject({ keepaliveInterval: 25000 });
+      expect(mockConnectConfigs[0].algorithms).toBeUndefined();
+      expect(mockConnectConfigs[0].keepaliveCountMax).toBeUndefined();
+    });
+
+    it('maps ConnectTimeout, ServerAliveInterval/CountMax and algorithm lists onto ssh2', async () => {
+      const host = createMockHostConfig({
+        sshOptions: {
+          connectTimeout: 5,
+          serverAliveInterval: 0,
+          serverAliveCountMax: 2,
+          ciphers: 'aes256-ctr',
+          hostKeyAlgorithms: '+ssh-rsa',
+        },
+      });
+
+      await new SSHConnection(host).connect();
+
+      const cfg = mockConnectConfigs[0];
+      expect(cfg.keepaliveInterval).toBe(0);
+      expect(cfg.keepaliveCountMax).toBe(2);
+      expect(cfg.algorithms).toEqual({
+        cipher: { remove: [/.*/], append: [/^aes256-ctr$/] },
+        serverHostKey: { append: [/^ssh-rsa$/] },
+      });
+    });
+
+    it('times the login with its own ConnectTimeout timer rather than ssh2\'s', async () => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+      try {
+        mockServerAnswers = false;
+        const connecting = new SSHConnection(createMockHostConfig({ sshOptions: { connectTimeout: 5 } })).connect();
+        const outcome = connecting.catch((err: Error) => err);
+        while (mockConnectConfigs.length === 0) {
+          await new Promise((r) => setImmediate(r));
+        }
+        expect(mockConnectConfigs[0].readyTimeout).toBe(0);
+
+        jest.advanceTimersByTime(5000);
+        expect(((await outcome) as Error).message).toBe('Connection timeout after 5000ms');
+        expect(mockClients[0].destroy).toHaveBeenCalled();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
@@ -24,6 +24,7 @@ import { ConnectionState, SFTPError } from '../types';
 import { createMockHostConfig } from '../__mocks__/testHelpers';
 
 jest.mock('ssh2', () => ({
+  ...jest.requireActual('ssh2'),
   Client: jest.fn().mockImplementation(() => ({
     on: jest.fn().mockReturnThis(),
     connect: jest.fn(),
@@ -0,0 +1,123 @@
+/**
+ * SSHConnection symlink handling: readdir reports links as links, so
+ * listFiles() reads each link's target and stats through it for the type;
+ * deleteFile() lstat's so a link is unlinked and never rmdir'ed through.
+ */
+
+import { createMockHostConfig } from '../__mocks__/testHelpers';
+import { ConnectionState } from '../types';
+
+jest.mock('ssh2', () => ({
+  ...jest.requireActual('ssh2'),
+  Client: jest.fn().mockImplementation(() => ({
+    on: jest.fn().mockReturnThis(),
+    connect: jest.fn(),
+    end: jest.fn(),
+    destroy: jest.fn(),
+  })),
+}));
+
+jest.mock('../services/CredentialService', () => ({
+  CredentialService: {
+    getInstance: jest.fn().mockReturnValue({
+      getCredentialPassword: jest.fn().mockResolvedValue(undefined),
+      listCredentials: jest.fn().mockReturnValue([]),
+    }),
+  },
+}));
+
+import { SSHConnection } from './SSHConnection';
+
+const DIR = 0o040755;
+const FILE = 0o100644;
+const LINK = 0o120777;
+
+type Cb<T> = (err: Error | undefined, value?: T) => void;
+
+function stats(mode: number, size = 10) {
+  return { mode, size, mtime: 1700000000, atime: 1700000000, isDirectory: () => (mode & 0o170000) === 0o040000 };
+}
+
+function fakeSftp() {
+  // What each path is (lstat) and what it resolves to (stat)
+  const lstat: Record<string, number> = {
+    '/srv/current': LINK,
+    '/srv/gone': LINK,
+    '/srv/hosts': LINK,
+    '/srv/app': DIR,
+    '/srv/readme': FILE,
+  };
+  const targets: Record<string, [string, number | undefined]> = {
+    '/srv/current': ['releases/3', DIR],
+    '/srv/gone': ['/nonexistent', undefined],
+    '/srv/hosts': ['/etc/hosts', FILE],
+  };
+  return {
+    readdir: jest.fn((_dir: string, cb: Cb<unknown[]>) =>
+      cb(undefined, Object.keys(lstat).map((p) => ({
+        filename: p.split('/').pop(),
+        longname: '',
+        attrs: { size: 9, mtime: 1700000000, atime: 1700000000, mode: lstat[p] },
+      })))
+    ),
+    readlink: jest.fn((p: string, cb: Cb<string>) => cb(undefined, targets[p][0])),
+    stat: jest.fn((p: string, cb: Cb<unknown>) => {
+      const mode = targets[p] ? targets[p][1] : lstat[p];
+      return mode === undefined ? cb(new Error('No such file')) : cb(undefined, stats(mode, 4242));
+    }),
+    lstat: jest.fn((p: string, cb: Cb<unknown>) => cb(undefined, stats(lstat[p]))),
+    unlink: jest.fn((_p: string, cb: Cb<void>) => cb(undefined)),
+    rmdir: jest.fn((_p: string, cb: Cb<void>) => cb(undefined)),
+    symlink: jest.fn((_t: string, _l: string, cb: Cb<void>) => cb(undefined)),
+  };
+}
+
+describe('SSHConnection - symlinks', () => {
+  let connection: SSHConnection;
+  let sftp: ReturnType<typeof fakeSftp>;
+
+  beforeEach(() => {
+    connection = new SSHConnection(createMockHostConfig({ name: 'web', username: 'web' }));
+    sftp = fakeSftp();
+    (connection as any)._sftp = sftp;
+    (connection as any)._client = {};
+    connection.state = ConnectionState.Connected;
+  });
+
+  it('lists links with their target, the target type, and broken links', async () => {
+    const files = await connection.listFiles('/srv');
+    const byName = Object.fromEntries(files.map((f) => [f.name, f]));
+
+    expect(byName.current).toMatchObject({ isSymlink: true, linkTarget: 'releases/3', isDirectory: true, size: 4242 });
+    expect(byName.hosts).toMatchObject({ isSymlink: true, linkTarget: '/etc/hosts', isDirectory: false });
+    expect(byName.gone).toMatchObject({ isSymlink: true, linkTarget: '/nonexistent', linkBroken: true, isDirectory: false });
+    expect(byName.app.isSymlink).toBeUndefined();
+    // A link to a folder sorts with the folders
+    expect(files.map((f) => f.name)).toEqual(['app', 'current', 'gone', 'hosts', 'readme']);
+  });
+
+  it('does not readlink plain entries', async () => {
+    await connection.listFiles('/srv');
+
+    expect(sftp.readlink).toHaveBeenCalledTimes(3);
+    expect(sftp.readlink).not.toHaveBeenCalledWith('/srv/app', expect.anything());
+  });
+
+  it('unlinks a link to a folder instead of removing the folder', async () => {
+    await connection.deleteFile('/srv/current');
+
+    expect(sftp.unlink).toHaveBeenCalledWith('/srv/current', expect.any(Function));
+    expect(sftp.rmdir).not.toHaveBeenCalled();
+  });
+
+  it('can delete a broken link', async () => {
+    await expect(connection.deleteFile('/srv/gone')).resolves.toBeUndefined();
+    expect(sftp.unlink).toHaveBeenCalledWith('/srv/gone', expect.any(Function));
+  });
+
+  it('creates a link with target first, link path second', async () => {
+    await connection.symlink('../shared/.env', '/srv/app/.env');
+
+    expect(sftp.symlink).toHaveBeenCalledWith('../shared/.env', '/srv/app/.env', expect.any(Function));
+  });
+});
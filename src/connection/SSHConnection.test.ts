@@ -16,6 +16,7 @@ import { createMockHostConfig } from '../__mocks__/testHelpers';
 
 // Mock ssh2 Client to prevent real SSH connections
 jest.mock('ssh2', () => ({
+  ...jest.requireActual('ssh2'),
   Client: jest.fn().mockImplementation(() => ({
     on: jest.fn().mockReturnThis(),
     connect: jest.fn(),
@@ -1203,6 +1204,33 @@ describe('SSHConnection - Actual Class', () => {
         expect(files[2].name).toBe('link');
       });
 
+      it('should keep link targets and mark links to folders and broken links', async () => {
+        const output = [
+          'total 8',
+          'lrwxrwxrwx 1 root root    9 Mar  1 08:00 current -> releases/3',
+          'lrwxrwxrwx 1 root root   11 Mar  1 08:00 gone -> /nonexistent',
+          'lrwxrwxrwx 1 root root   10 Mar  1 08:00 hosts -> /etc/hosts',
+          '--SSHLITE-LINKS--',
+          'd current',
+          'b gone',
+          '',
+        ].join('\n');
+        (connection as any)._client.exec.mockImplementation((cmd: string, cb: any) => {
+          lastExecCmd = cmd;
+          cb(null, createAutoStream({ stdout: output }));
+        });
+
+        const files = await connection.sudoListFiles('/srv', 'pass');
+
+        expect(extractInnerCmd(lastExecCmd)).toContain("find '/srv' -mindepth 1 -maxdepth 1 -type l");
+        expect(files.map((f) => [f.name, f.isDirectory, f.linkTarget, !!f.linkBroken])).toEqual([
+          ['current', true, 'releases/3', false],
+          ['gone', false, '/nonexistent', true],
+          ['hosts', false, '/etc/hosts', false],
+        ]);
+        expect(files.every((f) => f.isSymlink)).toBe(true);
+      });
+
       it('should skip . and .. entries', async () => {
         const lsOutput = [
           'total 4',
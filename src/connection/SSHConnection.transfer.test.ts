@@ -0,0 +1,201 @@
+/**
+ * SSHConnection resumable transfer primitives: readFileChunked can start at
+ * an offset and hand chunks to the caller as they arrive (instead of keeping them), writeFileAt writes at an
+ * offset over one handle, and replaceFile moves a finished part file over
+ * its target keeping the target's permission bits. openReadStream and
+ * openWriteStream hand out raw SFTP streams for cross-host copies.
+ */
+
+import { EventEmitter } from 'events';
+import { createMockHostConfig } from '../__mocks__/testHelpers';
+import { ConnectionState } from '../types';
+
+jest.mock('ssh2', () => ({
+  ...jest.requireActual('ssh2'),
+  Client: jest.fn().mockImplementation(() => ({
+    on: jest.fn().mockReturnThis(),
+    connect: jest.fn(),
+    end: jest.fn(),
+    destroy: jest.fn(),
+  })),
+}));
+
+jest.mock('../services/CredentialService', () => ({
+  CredentialService: {
+    getInstance: jest.fn().mockReturnValue({
+      getCredentialPassword: jest.fn().mockResolvedValue(undefined),
+      listCredentials: jest.fn().mockReturnValue([]),
+    }),
+  },
+}));
+
+import { SSHConnection } from './SSHConnection';
+
+type Cb<T> = (err: Error | undefined, value?: T) => void;
+
+function stats(mode: number, size: number) {
+  return { mode, size, mtime: 1700000000, atime: 1700000000, isDirectory: () => false };
+}
+
+function fakeSftp(files: Record<string, { mode: number; size: number }>) {
+  return {
+    stat: jest.fn((p: string, cb: Cb<unknown>) =>
+      files[p] ? cb(undefined, stats(files[p].mode, files[p].size)) : cb(new Error('No such file'))
+    ),
+    open: jest.fn((_p: string, _flags: string, cb: Cb<Buffer>) => cb(undefined, Buffer.from('handle'))),
+    write: jest.fn((_h: Buffer, _buf: Buffer, _off: number, _len: number, _pos: number, cb: Cb<void>) => cb(undefined)),
+    close: jest.fn((_h: Buffer, cb: Cb<void>) => cb(undefined)),
+    chmod: jest.fn((_p: string, _mode: number, cb: Cb<void>) => cb(undefined)),
+    ext_openssh_rename: jest.fn((_from: string, _to: string, cb: Cb<void>) => cb(undefined)),
+    unlink: jest.fn((_p: string, cb: Cb<void>) => cb(undefined)),
+    rename: jest.fn((_from: string, _to: string, cb: Cb<void>) => cb(undefined)),
+    createReadStream: jest.fn(),
+    createWriteStream: jest.fn(),
+  };
+}
+
+describe('SSHConnection - resumable transfers', () => {
+  let connection: SSHConnection;
+  let sftp: ReturnType<typeof fakeSftp>;
+
+  beforeEach(() => {
+    connection = new SSHConnection(createMockHostConfig({ name: 'web', username: 'web' }));
+    sftp = fakeSftp({
+      '/srv/big.iso': { mode: 0o100644, size: 10 },
+      '/srv/run.sh': { mode: 0o100755, size: 3 },
+    });
+    (connection as any)._sftp = sftp;
+    (connection as any)._client = {};
+    connection.state = ConnectionState.Connected;
+  });
+
+  describe('readFileChunked', () => {
+    const readStream = () => Object.assign(new EventEmitter(), { destroy: jest.fn(), pause: jest.fn(), resume: jest.fn() });
+
+    it('reads from the start offset, reporting progress from there', async () => {
+      const stream = readStream();
+      sftp.createReadStream.mockReturnValue(stream);
+      const progress: number[] = [];
+
+      const pending = connection.readFileChunked('/srv/big.iso', (t) => progress.push(t), undefined, 4, { start: 6 });
+      await new Promise((r) => setImmediate(r));
+      stream.emit('data', Buffer.from('gh'));
+      stream.emit('data', Buffer.from('ij'));
+      stream.emit('end');
+
+      expect((await pending).toString()).toBe('ghij');
+      expect(sftp.createReadStream).toHaveBeenCalledWith('/srv/big.iso', { highWaterMark: 4, start: 6 });
+      expect(progress).toEqual([8, 10]);
+    });
+
+    it('hands each chunk to onChunk without keeping it, waiting for it to be stored', async () => {
+      const stream = readStream();
+      sftp.createReadStream.mockReturnValue(stream);
+      const chunks: string[] = [];
+      let store!: () => void;
+
+      const pending = connection.readFileChunked('/srv/big.iso', jest.fn(), undefined, 4, {
+        start: 6,
+        onChunk: (c) => new Promise<void>((r) => { chunks.push(c.toString()); store = r; }),
+      });
+      await new Promise((r) => setImmediate(r));
+      stream.emit('data', Buffer.from('gh'));
+      stream.emit('end');
+      await new Promise((r) => setImmediate(r));
+
+      expect(stream.pause).toHaveBeenCalled();
+      expect(stream.resume).not.toHaveBeenCalled();
+      store();
+
+      expect((await pending).length).toBe(0);
+      expect(stream.resume).toHaveBeenCalled();
+      expect(chunks).toEqual(['gh']);
+    });
+
+    it('fails the read when onChunk cannot store a chunk', async () => {
+      const stream = readStream();
+      sftp.createReadStream.mockReturnValue(stream);
+
+      const pending = connection.readFileChunked('/srv/big.iso', jest.fn(), undefined, 4, {
+        onChunk: () => Promise.reject(new Error('ENOSPC: no space left on device')),
+      });
+      await new Promise((r) => setImmediate(r));
+      stream.emit('data', Buffer.from('ab'));
+
+      await expect(pending).rejects.toThrow('ENOSPC');
+      expect(stream.destroy).toHaveBeenCalled();
+    });
+  });
+
+  describe('writeFileAt', () => {
+    it('truncates at offset 0 and writes chunk by chunk at increasing positions', async () => {
+      const progress: number[] = [];
+      await connection.writeFileAt('/srv/a.part', Buffer.from('abcdefghij'), 0, (t) => progress.push(t), undefined, 4);
+
+      expect(sftp.open).toHaveBeenCalledWith('/srv/a.part', 'w', expect.any(Function));
+      expect(sftp.write.mock.calls.map((c) => [c[2], c[3], c[4]])).toEqual([[0, 4, 0], [4, 4, 4], [8, 2, 8]]);
+      expect(progress).toEqual([4, 8, 10]);
+      expect(sftp.close).toHaveBeenCalledTimes(1);
+    });
+
+    it('opens without truncating and writes at the offset when resuming', async () => {
+      await connection.writeFileAt('/srv/a.part', Buffer.from('xyz'), 7);
+
+      expect(sftp.open).toHaveBeenCalledWith('/srv/a.part', 'r+', expect.any(Function));
+      expect(sftp.write.mock.calls[0][4]).toBe(7);
+    });
+
+    it('stops between chunks when aborted and closes the handle', async () => {
+      const abort = { aborted: false };
+      sftp.write.mockImplementation((_h, _b, _o, _l, _p, cb) => {
+        abort.aborted = true;
+        cb(undefined);
+      });
+
+      await expect(connection.writeFileAt('/srv/a.part', Buffer.alloc(8), 0, undefined, abort, 4)).rejects.toThrow('cancelled');
+      expect(sftp.write).toHaveBeenCalledTimes(1);
+      expect(sftp.close).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('replaceFile', () => {
+    it('copies the target mode and uses posix-rename over an existing target', async () => {
+      await connection.replaceFile('/srv/run.sh.part', '/srv/run.sh');
+
+      expect(sftp.chmod).toHaveBeenCalledWith('/srv/run.sh.part', 0o755, expect.any(Function));
+      expect(sftp.ext_openssh_rename).toHaveBeenCalledWith('/srv/run.sh.part', '/srv/run.sh', expect.any(Function));
+      expect(sftp.rename).not.toHaveBeenCalled();
+    });
+
+    it('falls back to unlink + rename when the server lacks posix-rename', async () => {
+      sftp.ext_openssh_rename.mockImplementation(() => {
+        throw new Error('Server does not support this extended request');
+      });
+
+      await connection.replaceFile('/srv/run.sh.part', '/srv/run.sh');
+
+      expect(sftp.unlink).toHaveBeenCalledWith('/srv/run.sh', expect.any(Function));
+      expect(sftp.rename).toHaveBeenCalledWith('/srv/run.sh.part', '/srv/run.sh', expect.any(Function));
+    });
+
+    it('just renames when there is no target yet', async () => {
+      await connection.replaceFile('/srv/new.part', '/srv/new');
+
+      expect(sftp.chmod).not.toHaveBeenCalled();
+      expect(sftp.unlink).not.toHaveBeenCalled();
+      expect(sftp.rename).toHaveBeenCalledWith('/srv/new.part', '/srv/new', expect.any(Function));
+    });
+  });
+
+  describe('streams', () => {
+    it('opens a read stream with the chunk size and a truncating write stream', async () => {
+      sftp.createReadStream.mockReturnValue('read-stream');
+      sftp.createWriteStream.mockReturnValue('write-stream');
+
+      expect(await connection.openReadStream('/srv/big.iso', 1024)).toBe('read-stream');
+      expect(await connection.openWriteStream('/srv/copy.iso')).toBe('write-stream');
+      expect(sftp.createReadStream).toHaveBeenCalledWith('/srv/big.iso', { highWaterMark: 1024 });
+      expect(sftp.createWriteStream).toHaveBeenCalledWith('/srv/copy.iso', { flags: 'w' });
+    });
+  });
+});
@@ -1,22 +1,51 @@
-import { Client, ClientChannel, SFTPWrapper } from 'ssh2';
+import { Client, ClientChannel, ExecOptions, SFTPWrapper, Stats, TcpConnectionDetails, utils as ssh2Utils } from 'ssh2';
 import * as fs from 'fs';
 import * as net from 'net';
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
 import * as crypto from 'crypto';
+import { StringDecoder } from 'string_decoder';
 import * as vscode from 'vscode';
 import {
   ISSHConnection,
   IConnectionCapabilities,
   IHostConfig,
+  IConnectOptions,
+  IJumpHost,
   IRemoteFile,
+  ISSHConfigOptions,
+  IExecStreamOptions,
+  IExecOptions,
+  IExecResult,
+  ILatencySample,
+  ITransferSample,
   ConnectionState,
   AuthenticationError,
+  InteractiveAuthRequiredError,
   ConnectionError,
   SFTPError,
 } from '../types';
 import { expandPath } from '../utils/helpers';
+import { withEnv } from '../utils/execResult';
 import { buildHostId } from '../utils/hostId';
-import { isPrivateKeyEncrypted } from './keyEncryption';
+import { describeJumpChain, jumpHostId } from '../utils/proxyJump';
+import { buildSSH2Algorithms } from '../utils/sshConfig';
+import {
+  certificatePathFor,
+  certificateValidity,
+  formatCertificateDuration,
+  readSshCertificate,
+  SshCertificate,
+} from '../utils/sshCertificate';
+import { isPrivateKeyEncrypted, isKeyPassphraseValid } from './keyEncryption';
+import { AuthAttempt, AuthSequence, authAttemptId, preferAuthAttempt } from './authAttempts';
+import { certificateAuthUnavailable, createCertificateKey, enableCertificateAuth } from './certificateAuth';
+import { enableHostCertificates } from './hostCertificates';
+import { KeyboardInteractiveResponder } from './keyboardInteractive';
+import { readSocksRequest, sendSocksReply, SOCKS_REPLY } from './socks5';
+import { createForwardingAgent, ForwardingAgent } from './agentForwarding';
 import { CredentialService, SavedCredential } from '../services/CredentialService';
+import { KnownHostsService } from '../services/KnownHostsService';
 import { diagLog, infoLog } from '../utils/diagnosticLog';
 import {
   RemoteSearchTools,
@@ -35,6 +64,31 @@ import {
   describeStrategy,
   validateMaxResults,
 } from './searchCommandBuilder';
+import { sftpFindFiles, SftpFindEntry } from './sftpFind';
+
+/** setTimeout's ceiling (~24.8 days); a longer wait would fire immediately */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/** Printed by the connect-time exec probe; missing output means the server does not run commands */
+const EXEC_PROBE_MARKER = 'sshlite-exec-ok';
+
+/** stderr kept by execStream(), from the end: enough to explain a failure */
+const EXEC_STREAM_STDERR_TAIL = 64 * 1024;
+
+/** Separates `ls -la` from the symlink kinds in sudoListFiles() output */
+const SUDO_LINKS_MARKER = '--SSHLITE-LINKS--';
+
+// File type bits of st_mode
+const S_IFMT = 0o170000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+
+/** Directories first, then alphabetically */
+function compareEntries(a: IRemoteFile, b: IRemoteFile): number {
+  if (a.isDirectory && !b.isDirectory) return -1;
+  if (!a.isDirectory && b.isDirectory) return 1;
+  return a.name.localeCompare(b.name);
+}
 
 // Shared output channel for SSH command logging
 let sshOutputChannel: vscode.OutputChannel | null = null;
@@ -58,98 +112,36 @@ function logSFTPOperation(host: string, operation: string, path: string, detail?
   getOutputChannel().appendLine(`[${timestamp}] [SFTP ${host}] ${operation}: ${path}${detailStr}`);
 }
 
-// Known hosts storage key
-const KNOWN_HOSTS_KEY = 'sshLite.knownHosts';
-
-// Global state for known hosts (set by extension on activation)
-let globalState: vscode.Memento | null = null;
-
 /**
- * Set the global state for known hosts storage
- * Called by extension.ts on activation
+ * Set the globalState holding pre-known_hosts fingerprint pins (migrated on
+ * next connect). Kept for test harnesses; the extension calls
+ * KnownHostsService.initialize() instead.
  */
 export function setGlobalState(state: vscode.Memento): void {
-  globalState = state;
-}
-
-/**
- * Get known hosts from storage
- */
-function getKnownHosts(): Record<string, string> {
-  if (!globalState) return {};
-  return globalState.get<Record<string, string>>(KNOWN_HOSTS_KEY, {});
-}
-
-/**
- * Save known host to storage
- */
-async function saveKnownHost(hostKey: string, fingerprint: string): Promise<void> {
-  if (!globalState) return;
-  const knownHosts = getKnownHosts();
-  knownHosts[hostKey] = fingerprint;
-  await globalState.update(KNOWN_HOSTS_KEY, knownHosts);
-}
-
-/**
- * Generate host key fingerprint (SHA256)
- */
-function getHostKeyFingerprint(key: Buffer): string {
-  return crypto.createHash('sha256').update(key).digest('base64');
+  KnownHostsService.getInstance().setLegacyStore(state);
 }
 
 /**
- * Verify host key and prompt user if needed
+ * Verify host key against known_hosts and prompt user if needed
  * Returns true if connection should proceed, false otherwise
  */
-async function verifyHostKey(
+function verifyHostKey(
   host: string,
   port: number,
-  hostKey: Buffer
+  hostKey: Buffer,
+  options?: ISSHConfigOptions
 ): Promise<boolean> {
-  const hostIdentifier = `${host}:${port}`;
-  const fingerprint = getHostKeyFingerprint(hostKey);
-  const knownHosts = getKnownHosts();
-  const storedFingerprint = knownHosts[hostIdentifier];
-
-  if (storedFingerprint === fingerprint) {
-    // Known host, fingerprint matches
-    return true;
-  }
-
-  if (storedFingerprint) {
-    // WARNING: Host key has changed!
-    const choice = await vscode.window.showWarningMessage(
-      `⚠️ WARNING: HOST KEY CHANGED for ${host}!\n\n` +
-      `This could indicate a man-in-the-middle attack or server reconfiguration.\n\n` +
-      `Old fingerprint: SHA256:${storedFingerprint.substring(0, 16)}...\n` +
-      `New fingerprint: SHA256:${fingerprint.substring(0, 16)}...`,
-      { modal: true },
-      'Accept New Key',
-      'Reject'
-    );
-
-    if (choice === 'Accept New Key') {
-      await saveKnownHost(hostIdentifier, fingerprint);
-      return true;
-    }
-    return false;
-  }
-
-  // New host - ask user to verify
-  const choice = await vscode.window.showInformationMessage(
-    `The authenticity of host '${host}' can't be established.\n\n` +
-    `Fingerprint: SHA256:${fingerprint}\n\n` +
-    `Are you sure you want to continue connecting?`,
-    { modal: true },
-    'Yes, Connect',
-    'No'
-  );
+  return KnownHostsService.getInstance().verifyHostKey(host, port, hostKey, options);
+}
 
-  if (choice === 'Yes, Connect') {
-    await saveKnownHost(hostIdentifier, fingerprint);
-    return true;
+/**
+ * Ask the server for a host certificate when known_hosts trusts a CA for it
+ * (`@cert-authority`); other hosts negotiate plain keys as before.
+ */
+function offerHostCertificates(client: Client, host: string, port: number, options?: ISSHConfigOptions): void {
+  if (KnownHostsService.getInstance().hasCertificateAuthority(host, port, options)) {
+    enableHostCertificates(client);
   }
-  return false;
 }
 
 /**
@@ -189,11 +181,22 @@ export class SSHConnection implements ISSHConnection {
   public readonly id: string;
   public state: ConnectionState = ConnectionState.Disconnected;
   private _client: Client | null = null;
+  /** Bastion clients of the ProxyJump chain, first hop first. Empty for a direct connection. */
+  private _jumpClients: Client[] = [];
   private _sftp: SFTPWrapper | null = null;
   private _portForwards: Map<number, net.Server> = new Map();
+  /** Remote (-R) forwards by the port the server listens on */
+  private _remoteForwards: Map<number, { bindHost: string; localHost: string; localPort: number }> = new Map();
   private _credential: SavedCredential | undefined;
   private _capabilities: ServerCapabilities | null = null;
   private _activeWatchers: Map<string, ClientChannel> = new Map(); // remotePath -> watcher channel
+  /** Fires the "certificate expires soon" warning while connected with a certificate */
+  private _certificateExpiryTimer: ReturnType<typeof setTimeout> | undefined;
+  /** Where forwarded agent requests go, when the host has forwardAgent and an agent was found */
+  private _forwardingAgent: ForwardingAgent | undefined;
+  private _agentForwardingActive = false;
+  /** Set at connect when the server refuses to run commands (SFTP-only / restricted account) */
+  private _execDenied = false;
 
   // Sudo mode state — scoped to this connection only, cleared on disconnect
   private _sudoMode: boolean = false;
@@ -206,6 +209,10 @@ export class SSHConnection implements ISSHConnection {
   private readonly _onFileChange = new vscode.EventEmitter<{ remotePath: string; event: 'modify' | 'delete' | 'create' }>();
   public readonly onFileChange = this._onFileChange.event;
 
+  // Completed SFTP reads/writes, for the connection health sampler
+  private readonly _onDidTransfer = new vscode.EventEmitter<ITransferSample>();
+  public readonly onDidTransfer = this._onDidTransfer.event;
+
   constructor(public readonly host: IHostConfig, credential?: SavedCredential) {
     this.id = buildHostId(host);
     this._credential = credential;
@@ -216,20 +223,30 @@ export class SSHConnection implements ISSHConnection {
     return this._capabilities;
   }
 
-  /** Protocol capabilities — an SSH connection supports the full feature set. */
+  /**
+   * Protocol capabilities — the full feature set, unless the server turned out
+   * to be SFTP-only at connect: then everything that needs a shell is off and
+   * only file operations (and port forwarding) remain.
+   */
   get capabilities(): IConnectionCapabilities {
+    const shell = !this._execDenied;
     return {
       type: 'ssh',
-      supportsExec: true,
-      supportsShell: true,
+      supportsExec: shell,
+      supportsShell: shell,
       supportsPortForward: true,
-      supportsNativeWatch: true,
-      supportsSearch: true,
-      supportsServerBackup: true,
-      supportsSudo: true,
+      supportsNativeWatch: shell,
+      supportsSearch: shell,
+      supportsServerBackup: shell,
+      supportsSudo: shell,
     };
   }
 
+  /** Whether the server only allows SFTP (`ForceCommand internal-sftp`, rssh, scponly) */
+  get sftpOnly(): boolean {
+    return this._execDenied;
+  }
+
   get client(): Client | null {
     return this._client;
   }
@@ -237,8 +254,12 @@ export class SSHConnection implements ISSHConnection {
   /**
    * Resolve the connection's home directory as an absolute path.
    * Protocol-agnostic entry point (IConnection) — replaces scattered `echo ~` calls.
+   * SFTP-only servers answer with SFTP `realpath('.')`, the login directory.
    */
   async resolveHomePath(): Promise<string> {
+    if (this._execDenied) {
+      return this.sftpRealpath('.');
+    }
     const home = (await this.exec('echo ~')).trim();
     if (home) return home;
     // Fallback only when the shell could not expand ~. Never build `/home/`
@@ -246,6 +267,11 @@ export class SSHConnection implements ISSHConnection {
     return this.host.username ? `/home/${this.host.username}` : '/';
   }
 
+  /** Whether the server accepted agent forwarding for this session */
+  get agentForwardingActive(): boolean {
+    return this._agentForwardingActive;
+  }
+
   /** Whether sudo mode is active for this connection */
   get sudoMode(): boolean {
     return this._sudoMode;
@@ -276,9 +302,11 @@ export class SSHConnection implements ISSHConnection {
   }
 
   /**
-   * Connect to the SSH host
+   * Connect to the SSH host. With `interactive: false` (auto-reconnect) a
+   * keyboard-interactive prompt that needs the user fails the attempt with
+   * InteractiveAuthRequiredError instead of showing an input box.
    */
-  async connect(): Promise<void> {
+  async connect(options?: IConnectOptions): Promise<void> {
     if (this.state === ConnectionState.Connected) {
       return;
     }
@@ -302,8 +330,16 @@ export class SSHConnection implements ISSHConnection {
     this._client = new Client();
 
     const config = vscode.workspace.getConfiguration('sshLite');
-    const timeout = config.get<number>('connectionTimeout', 10000);
-    const keepaliveInterval = config.get<number>('keepaliveInterval', 30000);
+    // ssh config ConnectTimeout / ServerAlive* override the extension-wide settings for this host
+    const sshOptions = this.host.sshOptions;
+    const timeout = sshOptions?.connectTimeout
+      ? sshOptions.connectTimeout * 1000
+      : config.get<number>('connectionTimeout', 10000);
+    const keepaliveInterval = sshOptions?.serverAliveInterval !== undefined
+      ? sshOptions.serverAliveInterval * 1000
+      : config.get<number>('keepaliveInterval', 30000);
+    const algorithms = buildSSH2Algorithms(sshOptions);
+    const interactive = options?.interactive !== false;
     const connectStart = Date.now();
 
     infoLog('ssh-connect', 'begin', {
@@ -315,37 +351,83 @@ export class SSHConnection implements ISSHConnection {
       source: this.host.source,
       readyTimeoutMs: timeout,
       keepaliveIntervalMs: keepaliveInterval,
+      sshOptions,
       hasCredential: !!this._credential,
       credentialType: this._credential?.type,
     });
 
     try {
-      const authConfig = await this.buildAuthConfig();
-      const advertisedAuth = Object.keys(authConfig).filter(k => k !== 'passphrase');
+      // Dial the bastion chain first (if any); the final client rides on the
+      // last hop's forwardOut stream instead of opening its own TCP socket.
+      const sock = await this.openJumpChain(timeout, keepaliveInterval, interactive);
+
+      const creds = CredentialService.getInstance();
+      const preferredAuth = await creds.getLastAuthMethod(this.id, this._credential?.id);
+      const authAttempts = preferAuthAttempt(await this.buildAuthAttempts(), preferredAuth);
+      const totpSecret = await creds.getTotpSecret(this.id);
       infoLog('ssh-connect', 'auth-methods', {
         connectionId: this.id,
-        methods: advertisedAuth,
-        privateKeyBytes: typeof authConfig.privateKey === 'object' && authConfig.privateKey instanceof Buffer ? authConfig.privateKey.length : undefined,
-        agent: !!authConfig.agent,
-        tryKeyboard: !!authConfig.tryKeyboard,
+        methods: authAttempts.map(authAttemptId),
+        preferred: preferredAuth,
+        totp: !!totpSecret,
+        interactive,
       });
+      this._forwardingAgent = this.host.forwardAgent ? createForwardingAgent(authAttempts) : undefined;
 
       await new Promise<void>((resolve, reject) => {
-        const timeoutId = setTimeout(() => {
-          infoLog('ssh-connect', 'ready-timeout', {
-            connectionId: this.id,
-            timeoutMs: timeout,
-            elapsedMs: Date.now() - connectStart,
-          });
-          reject(new ConnectionError(`Connection timeout after ${timeout}ms`));
-        }, timeout);
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        const armTimeout = (): void => {
+          timeoutId = setTimeout(() => {
+            infoLog('ssh-connect', 'ready-timeout', {
+              connectionId: this.id,
+              timeoutMs: timeout,
+              elapsedMs: Date.now() - connectStart,
+            });
+            this._client?.destroy();
+            reject(new ConnectionError(`Connection timeout after ${timeout}ms`));
+          }, timeout);
+        };
+        armTimeout();
+
+        const keyboard = new KeyboardInteractiveResponder({
+          label: `${this.host.username}@${this.host.host}:${this.host.port}`,
+          password: authAttempts.find(a => a.type === 'password')?.password,
+          totpSecret,
+          interactive,
+          // Time spent typing a code must not count against the connect timeout:
+          // hold the timer while the prompt waits, start it afresh once answered.
+          pauseTimeout: (paused) => {
+            clearTimeout(timeoutId);
+            if (!paused) {
+              armTimeout();
+            }
+          },
+        });
+        let keyboardAborted = false;
+
+        const auth = new AuthSequence(
+          this.host.username,
+          authAttempts,
+          (...args) => this._client!.emit('keyboard-interactive', ...args),
+          (attempt) => diagLog('ssh-connect', 'auth-attempt', { connectionId: this.id, method: authAttemptId(attempt) }),
+        );
 
         this._client!.on('ready', () => {
           clearTimeout(timeoutId);
+          const authMethod = auth.succeeded ? authAttemptId(auth.succeeded) : 'none';
           infoLog('ssh-connect', 'ready', {
             connectionId: this.id,
             elapsedMs: Date.now() - connectStart,
+            authMethod,
           });
+          if (auth.succeeded) {
+            creds.setLastAuthMethod(this.id, authMethod, this._credential?.id).catch(() => {
+              // Only an ordering hint for the next connect
+            });
+          }
+          if (auth.succeeded?.type === 'certificate') {
+            this.watchCertificateExpiry(auth.succeeded.certPath, auth.succeeded.certificate);
+          }
           resolve();
         });
 
@@ -385,7 +467,16 @@ export class SSHConnection implements ISSHConnection {
           });
           getOutputChannel().appendLine(`[${new Date().toISOString()}] [CONNECT] SSH2 error for ${this.host.host}:${this.host.port}: ${err.message}`);
           const msg = err.message.toLowerCase();
+          if (keyboardAborted) {
+            // Already rejected with the reason; the prompt was abandoned, not failed
+            return;
+          }
           if (msg.includes('authentication') || msg.includes('auth') || msg.includes('permission denied') || msg.includes('publickey') || msg.includes('invalid username')) {
+            if (keyboard.codeSent) {
+              // A rejected one-time code says nothing about the saved password
+              reject(new AuthenticationError(`Authentication failed: ${err.message}. The verification code or password was rejected.`, err));
+              return;
+            }
             // Clear saved credentials on auth failure so user can retry
             CredentialService.getInstance().deleteAll(this.id);
             reject(new AuthenticationError(`Authentication failed: ${err.message}. Saved credentials cleared - please try again.`, err));
@@ -408,32 +499,58 @@ export class SSHConnection implements ISSHConnection {
           diagLog('ssh-connect', 'end', { connectionId: this.id });
         });
 
-        // Handle keyboard-interactive authentication
-        this._client!.on('keyboard-interactive', (_name, _instructions, _instructionsLang, prompts, finish) => {
+        // Handle keyboard-interactive authentication (PAM password, 2FA codes, ...)
+        this._client!.on('keyboard-interactive', (name, instructions, _instructionsLang, prompts, finish) => {
           diagLog('ssh-connect', 'keyboard-interactive-prompt', {
             connectionId: this.id,
             promptCount: prompts.length,
             prompts: prompts.map(p => ({ prompt: p.prompt, echo: p.echo })),
           });
-          // Use saved password for keyboard-interactive prompts
-          const responses = prompts.map(() => authConfig.password as string || '');
-          finish(responses);
+          keyboard.respond(name, instructions, prompts)
+            .then((outcome) => {
+              if (Array.isArray(outcome)) {
+                finish(outcome);
+                return;
+              }
+              infoLog('ssh-connect', 'keyboard-interactive-abort', { connectionId: this.id, outcome });
+              keyboardAborted = true;
+              clearTimeout(timeoutId);
+              reject(outcome === 'needs-user'
+                ? new InteractiveAuthRequiredError(`${this.host.name} asked for input during login (${prompts.map(p => p.prompt.trim()).join(', ')})`)
+                : new AuthenticationError('Login cancelled'));
+              this._client?.end();
+            })
+            .catch((err) => {
+              keyboardAborted = true;
+              clearTimeout(timeoutId);
+              reject(new AuthenticationError(`Keyboard-interactive authentication failed: ${(err as Error).message}`, err as Error));
+              this._client?.end();
+            });
         });
 
+        // Connections arriving on remote (-R) forwards
+        this._client!.on('tcp connection', (info, accept, rejectConn) => this.acceptRemoteForward(info, accept, rejectConn));
+
         this._client!.connect({
           host: this.host.host,
           port: this.host.port,
           username: this.host.username,
           keepaliveInterval,
-          readyTimeout: timeout,
-          ...authConfig,
+          ...(sshOptions?.serverAliveCountMax !== undefined ? { keepaliveCountMax: sshOptions.serverAliveCountMax } : {}),
+          // Our own timer above stands in for ssh2's, which cannot be paused for a prompt
+          readyTimeout: 0,
+          ...(algorithms ? { algorithms } : {}),
+          ...(sock ? { sock } : {}),
+          authHandler: auth.handler,
+          // Only used for forwarding: logins go through authHandler's own attempts
+          ...(this._forwardingAgent ? { agent: this._forwardingAgent.agent } : {}),
           // Host key verification for MITM protection
           hostVerifier: (key: Buffer, verify: (valid: boolean) => void) => {
             diagLog('ssh-connect', 'host-key-verify', {
               connectionId: this.id,
               keyBytes: key.length,
             });
-            verifyHostKey(this.host.host, this.host.port, key)
+            verifyHostKey(this.host.host, this.host.port, key, this.host.sshOptions)
               .then((accepted) => {
                 infoLog('ssh-connect', 'host-key-decision', {
                   connectionId: this.id,
@@ -456,8 +573,15 @@ export class SSHConnection implements ISSHConnection {
               });
           },
         });
+        enableCertificateAuth(this._client!);
+        offerHostCertificates(this._client!, this.host.host, this.host.port, this.host.sshOptions);
       });
 
+      await this.probeExec(timeout);
+      if (this.host.forwardAgent && !this._execDenied) {
+        await this.requestAgentForwarding(timeout);
+      }
+
       this.setState(ConnectionState.Connected);
 
       // Detect server capabilities in background (don't block connection)
@@ -468,14 +592,245 @@ export class SSHConnection implements ISSHConnection {
       this.setState(ConnectionState.Error);
       this._client?.end();
       this._client = null;
+      this.closeJumpChain();
       throw error;
     }
   }
 
+  /**
+   * Connect through each configured jump host in turn (OpenSSH ProxyJump).
+   * Every hop after the first, and the final host, is dialled over a
+   * `forwardOut` stream of the previous hop. Returns the stream the final
+   * client should use as its socket, or undefined for a direct connection.
+   */
+  private async openJumpChain(readyTimeout: number, keepaliveInterval: number, interactive: boolean): Promise<ClientChannel | undefined> {
+    const hops = this.host.jumpHosts ?? [];
+    if (hops.length === 0) {
+      return undefined;
+    }
+
+    infoLog('ssh-connect', 'jump/begin', {
+      connectionId: this.id,
+      chain: describeJumpChain(hops),
+      hopCount: hops.length,
+    });
+
+    let sock: ClientChannel | undefined;
+    for (let i = 0; i < hops.length; i++) {
+      const hop = hops[i];
+      const hopLabel = `${hop.username}@${hop.host}:${hop.port}`;
+      const hopStart = Date.now();
+      const authConfig = await this.buildJumpAuthConfig(hop);
+      const client = new Client();
+      this._jumpClients.push(client);
+      const totpSecret = await CredentialService.getInstance().getTotpSecret(jumpHostId(hop));
+
+      await new Promise<void>((resolve, reject) => {
+        // Like the final hop: our own ready timer, held while a prompt waits for the user
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        const armTimeout = (): void => {
+          timeoutId = setTimeout(() => {
+            infoLog('ssh-connect', 'jump/hop-timeout', { connectionId: this.id, hop: i + 1, hopHost: hopLabel, timeoutMs: readyTimeout });
+            client.destroy();
+            reject(new ConnectionError(`Jump host ${hopLabel}: connection timeout after ${readyTimeout}ms`));
+          }, readyTimeout);
+        };
+        armTimeout();
+
+        const keyboard = new KeyboardInteractiveResponder({
+          label: `${hopLabel} (jump host)`,
+          password: authConfig.password as string | undefined,
+          totpSecret,
+          interactive,
+          pauseTimeout: (paused) => {
+            clearTimeout(timeoutId);
+            if (!paused) {
+              armTimeout();
+            }
+          },
+        });
+
+        client.on('ready', () => {
+          clearTimeout(timeoutId);
+          infoLog('ssh-connect', 'jump/hop-ready', {
+            connectionId: this.id,
+            hop: i + 1,
+            hopHost: hopLabel,
+            elapsedMs: Date.now() - hopStart,
+          });
+          resolve();
+        });
+
+        client.on('error', (err) => {
+          clearTimeout(timeoutId);
+          infoLog('ssh-connect', 'jump/hop-error', {
+            connectionId: this.id,
+            hop: i + 1,
+            hopHost: hopLabel,
+            errorMessage: err.message,
+          });
+          const msg = err.message.toLowerCase();
+          if (msg.includes('authentication') || msg.includes('permission denied') || msg.includes('publickey')) {
+            reject(new AuthenticationError(`Jump host ${hopLabel}: authentication failed: ${err.message}`, err));
+          } else {
+            reject(new ConnectionError(`Jump host ${hopLabel}: ${err.message}`, err));
+          }
+        });
+
+        // A bastion dropping mid-session takes the tunnelled session with it.
+        client.on('close', () => {
+          diagLog('ssh-connect', 'jump/hop-close', { connectionId: this.id, hop: i + 1, hopHost: hopLabel });
+        });
+
+        client.on('keyboard-interactive', (name, instructions, _lang, prompts, finish) => {
+          keyboard.respond(name, instructions, prompts)
+            .then((outcome) => {
+              if (Array.isArray(outcome)) {
+                finish(outcome);
+                return;
+              }
+              clearTimeout(timeoutId);
+              reject(outcome === 'needs-user'
+                ? new InteractiveAuthRequiredError(`Jump host ${hopLabel} asked for input during login`)
+                : new AuthenticationError(`Jump host ${hopLabel}: login cancelled`));
+              client.end();
+            })
+            .catch((err) => {
+              clearTimeout(timeoutId);
+              reject(new AuthenticationError(`Jump host ${hopLabel}: ${(err as Error).message}`, err as Error));
+              client.end();
+            });
+        });
+
+        client.connect({
+          host: hop.host,
+          port: hop.port,
+          username: hop.username,
+          keepaliveInterval,
+          readyTimeout: 0,
+          ...(sock ? { sock } : {}),
+          ...authConfig,
+          hostVerifier: (key: Buffer, verify: (valid: boolean) => void) => {
+            verifyHostKey(hop.host, hop.port, key)
+              .then((accepted) => {
+                verify(accepted);
+                if (!accepted) {
+                  reject(new ConnectionError(`Host key verification failed for jump host ${hopLabel} - connection rejected by user`));
+                }
+              })
+              .catch(() => {
+                verify(false);
+                reject(new ConnectionError(`Host key verification failed for jump host ${hopLabel}`));
+              });
+          },
+        });
+        offerHostCertificates(client, hop.host, hop.port);
+      });
+
+      // Open the tunnel to whatever comes next: the following hop or the target.
+      const next = i + 1 < hops.length ? hops[i + 1] : { host: this.host.host, port: this.host.port };
+      sock = await new Promise<ClientChannel>((resolve, reject) => {
+        client.forwardOut('127.0.0.1', 0, next.host, next.port, (err, stream) => {
+          if (err) {
+            infoLog('ssh-connect', 'jump/forward-failed', {
+              connectionId: this.id,
+              hop: i + 1,
+              target: `${next.host}:${next.port}`,
+              errorMessage: err.message,
+            });
+            reject(new ConnectionError(`Jump host ${hopLabel} could not reach ${next.host}:${next.port}: ${err.message}`, err));
+            return;
+          }
+          resolve(stream);
+        });
+      });
+    }
+    return sock;
+  }
+
+  /** Tear down the bastion clients (last hop first). Safe to call when there are none. */
+  private closeJumpChain(): void {
+    for (const client of this._jumpClients.reverse()) {
+      try {
+        client.end();
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+    this._jumpClients = [];
+  }
+
+  /**
+   * Authentication for one jump host. A hop is authenticated like a plain
+   * connection to that bastion: the saved credential picked for it in the host
+   * editor (`credentialId`, stored under the hop's host id), otherwise the
+   * hop's key, the SSH agent, and finally a password prompt.
+   */
+  private async buildJumpAuthConfig(hop: IJumpHost): Promise<Record<string, unknown>> {
+    const creds = CredentialService.getInstance();
+    const hopId = jumpHostId(hop);
+    const authMethods: Record<string, unknown> = { tryKeyboard: true };
+
+    const saved = hop.credentialId
+      ? creds.listCredentials(hopId).find((c) => c.id === hop.credentialId)
+      : undefined;
+    if (hop.credentialId && !saved) {
+      throw new AuthenticationError(
+        `The saved credential picked for jump host ${hop.username}@${hop.host} no longer exists; edit the host to choose another`
+      );
+    }
+    if (saved?.type === 'privateKey' && saved.privateKeyPath) {
+      const keyPath = expandPath(saved.privateKeyPath);
+      if (!fs.existsSync(keyPath)) {
+        throw new AuthenticationError(`Private key not found for jump host ${hop.host}: ${keyPath}`);
+      }
+      authMethods.privateKey = fs.readFileSync(keyPath);
+      const passphrase = await creds.getCredentialSecret(hopId, saved.id);
+      if (passphrase) {
+        authMethods.passphrase = passphrase;
+      }
+    } else if (saved?.type === 'password') {
+      const password = await creds.getCredentialSecret(hopId, saved.id);
+      if (password) {
+        authMethods.password = password;
+      }
+    } else if (hop.privateKeyPath) {
+      const keyPath = expandPath(hop.privateKeyPath);
+      if (fs.existsSync(keyPath)) {
+        const privateKey = fs.readFileSync(keyPath);
+        authMethods.privateKey = privateKey;
+        if (isPrivateKeyEncrypted(privateKey)) {
+          const passphrase = await creds.getOrPrompt(hopId, 'passphrase', `Passphrase for ${hop.privateKeyPath} (jump host ${hop.host})`);
+          if (passphrase) {
+            authMethods.passphrase = passphrase;
+          }
+        }
+      }
+    }
+
+    if (process.env.SSH_AUTH_SOCK) {
+      authMethods.agent = process.env.SSH_AUTH_SOCK;
+    }
+
+    // Same rule as the target host: only prompt when nothing else can work.
+    if (!authMethods.privateKey && !authMethods.agent && !authMethods.password) {
+      const password = await creds.getOrPrompt(hopId, 'password', `Password for ${hop.username}@${hop.host} (jump host)`);
+      if (!password) {
+        throw new AuthenticationError(`No authentication method available for jump host ${hop.host}`);
+      }
+      authMethods.password = password;
+    }
+    return authMethods;
+  }
+
   /**
    * Detect server capabilities (OS, file watcher availability)
    */
   private async detectCapabilities(): Promise<void> {
+    if (this._execDenied) {
+      this._capabilities = { os: 'unknown', hasInotifywait: false, hasFswatch: false, watchMethod: 'poll' };
+      return;
+    }
     try {
       // Detect OS
       const unameResult = await this.exec('uname -s 2>/dev/null || echo unknown');
@@ -512,12 +867,17 @@ export class SSHConnection implements ISSHConnection {
   }
 
   /**
-   * Build authentication configuration
-   * Uses specific credential if provided, otherwise tries multiple methods
+   * Build the ordered list of auth attempts for this host.
+   *
+   * A specific credential offers only its password, key or certificate.
+   * Otherwise the order is OpenSSH's: agent identities, each IdentityFile (or
+   * the ~/.ssh defaults) with its own passphrase and preceded by its
+   * `-cert.pub`, keyboard-interactive, then password. connect()
+   * moves the attempt that worked last time to the front.
    */
-  private async buildAuthConfig(): Promise<Record<string, unknown>> {
+  private async buildAuthAttempts(): Promise<AuthAttempt[]> {
     const creds = CredentialService.getInstance();
-    const authMethods: Record<string, unknown> = {};
+    const attempts: AuthAttempt[] = [];
 
     // If a specific credential was provided, use only that
     if (this._credential) {
@@ -545,71 +905,71 @@ export class SSHConnection implements ISSHConnection {
             creds.setSessionCredential(this.id, this._credential.id, password);
           }
         }
-        authMethods.password = password;
+        // PAM servers take the password over keyboard-interactive (the responder sends it)
+        attempts.push({ type: 'keyboard-interactive' }, { type: 'password', password });
+        return attempts;
       } else if (this._credential.type === 'privateKey' && this._credential.privateKeyPath) {
         // Use private key from credential
         const keyPath = expandPath(this._credential.privateKeyPath);
-        if (fs.existsSync(keyPath)) {
-          authMethods.privateKey = fs.readFileSync(keyPath);
-          // Get passphrase if stored
-          const passphrase = await creds.getCredentialSecret(this.id, this._credential.id);
-          if (passphrase) {
-            authMethods.passphrase = passphrase;
-          }
-        } else {
+        if (!fs.existsSync(keyPath)) {
           throw new AuthenticationError(`Private key not found: ${keyPath}`);
         }
-      }
-
-      // Enable keyboard-interactive as fallback
-      authMethods.tryKeyboard = true;
-      return authMethods;
-    }
-
-    // No specific credential - try multiple auth methods (legacy behavior)
-    // Collect all available private keys
-    const privateKeys: Buffer[] = [];
-    const passphrases: string[] = [];
-
-    // Check configured private key
-    if (this.host.privateKeyPath) {
-      const keyPath = expandPath(this.host.privateKeyPath);
-      if (fs.existsSync(keyPath)) {
-        const privateKey = fs.readFileSync(keyPath);
-        privateKeys.push(privateKey);
-        if (isPrivateKeyEncrypted(privateKey)) {
-          const passphrase = await creds.getOrPrompt(this.id, 'passphrase', `Passphrase for ${this.host.privateKeyPath}`);
-          if (passphrase) passphrases.push(passphrase);
+        // Get passphrase if stored
+        const passphrase = await creds.getCredentialSecret(this.id, this._credential.id);
+        attempts.push({
+          type: 'publickey',
+          keyPath: this._credential.privateKeyPath,
+          key: fs.readFileSync(keyPath),
+          ...(passphrase ? { passphrase } : {}),
+        });
+      } else if (this._credential.type === 'certificate' && this._credential.privateKeyPath) {
+        const keyPath = expandPath(this._credential.privateKeyPath);
+        if (!fs.existsSync(keyPath)) {
+          throw new AuthenticationError(`Private key not found: ${keyPath}`);
         }
+        const passphrase = await creds.getCredentialSecret(this.id, this._credential.id);
+        attempts.push(this.loadCertificateAttempt(
+          this._credential.certificatePath ?? certificatePathFor(this._credential.privateKeyPath),
+          fs.readFileSync(keyPath),
+          passphrase,
+        ));
       }
-    }
 
-    // Check default key locations
-    for (const keyPath of ['~/.ssh/id_rsa', '~/.ssh/id_ed25519', '~/.ssh/id_ecdsa']) {
-      const expanded = expandPath(keyPath);
-      if (fs.existsSync(expanded)) {
-        const privateKey = fs.readFileSync(expanded);
-        privateKeys.push(privateKey);
-        if (isPrivateKeyEncrypted(privateKey)) {
-          const passphrase = await creds.getOrPrompt(this.id, 'passphrase', `Passphrase for ${keyPath}`);
-          if (passphrase) passphrases.push(passphrase);
+      // Enable keyboard-interactive as fallback
+      attempts.push({ type: 'keyboard-interactive' });
+      return attempts;
+    }
+
+    // No specific credential - try multiple auth methods (legacy behavior).
+    // Configured keys: ssh config may list several IdentityFile entries; like
+    // OpenSSH, ones that don't exist on disk are skipped and the rest are all
+    // offered. The ~/.ssh defaults are only used when no IdentityFile is set.
+    const configuredKeys = this.host.identityFiles?.length
+      ? this.host.identityFiles
+      : this.host.privateKeyPath ? [this.host.privateKeyPath] : [];
+    const defaultKeys = this.host.identityFiles?.length ? [] : ['~/.ssh/id_rsa', '~/.ssh/id_ed25519', '~/.ssh/id_ecdsa'];
+    const keyAttempts: AuthAttempt[] = [];
+    for (const keyPath of [...configuredKeys, ...defaultKeys.filter(k => !configuredKeys.includes(k))]) {
+      const attempt = await this.loadKeyAttempt(keyPath);
+      if (attempt?.type === 'publickey') {
+        // Like OpenSSH, a `<key>-cert.pub` next to the key is offered before the plain key
+        const certificate = this.findCertificateAttempt(attempt.keyPath, attempt.key, attempt.passphrase);
+        if (certificate) {
+          keyAttempts.push(certificate);
         }
+        keyAttempts.push(attempt);
       }
     }
 
-    // Add keys if found
-    const haveKey = privateKeys.length > 0;
-    if (haveKey) {
-      authMethods.privateKey = privateKeys[0]; // ssh2 uses first key
-      if (passphrases.length > 0) {
-        authMethods.passphrase = passphrases[0];
-      }
-    }
-
-    // Add SSH agent if available
-    if (process.env.SSH_AUTH_SOCK) {
-      authMethods.agent = process.env.SSH_AUTH_SOCK;
+    // SSH agent first, as OpenSSH offers agent identities before key files.
+    // IdentitiesOnly keeps agent keys out once a configured key is loaded (the
+    // agent is still the fallback when no IdentityFile could be read).
+    const haveKey = keyAttempts.length > 0;
+    const useAgent = !!process.env.SSH_AUTH_SOCK && !(this.host.sshOptions?.identitiesOnly && haveKey);
+    if (useAgent) {
+      attempts.push({ type: 'agent', agent: process.env.SSH_AUTH_SOCK! });
     }
+    attempts.push(...keyAttempts);
 
     // Password handling. Only PROMPT for a password when there is no other way
     // to authenticate (no private key and no agent). When a key/agent IS
@@ -617,88 +977,300 @@ export class SSHConnection implements ISSHConnection {
     // unnecessary password box on every first connect (the original UX bug).
     // We still attach a *previously saved* password silently so it can serve as
     // a genuine fallback if the key/agent is rejected, without bugging the user.
-    const haveAgent = !!authMethods.agent;
-    const password = haveKey || haveAgent
+    const password = haveKey || useAgent
       ? await creds.get(this.id, 'password')
       : await creds.getOrPrompt(this.id, 'password', `Password for ${this.host.username}@${this.host.host}`);
-    if (password) {
-      authMethods.password = password;
-    }
 
     // If no auth methods available, throw error
-    if (Object.keys(authMethods).length === 0) {
+    if (attempts.length === 0 && !password) {
       throw new AuthenticationError('No authentication method available');
     }
 
-    // Enable trying all auth methods
-    authMethods.tryKeyboard = true;
-
-    return authMethods;
+    attempts.push({ type: 'keyboard-interactive' });
+    if (password) {
+      attempts.push({ type: 'password', password });
+    }
+    return attempts;
   }
 
   /**
-   * Handle disconnect event
+   * Read one identity file for the legacy auth path. Missing files are
+   * skipped; an encrypted key needs its passphrase, and is left out if the
+   * user dismisses the prompt or the passphrase does not unlock it (a wrong
+   * saved passphrase is forgotten so the next connect asks again).
    */
-  private handleDisconnect(): void {
-    infoLog('ssh-connect', 'handleDisconnect', {
-      connectionId: this.id,
-      hadSftp: !!this._sftp,
-      activeWatcherCount: this._activeWatchers.size,
-      portForwardCount: this._portForwards.size,
-      hadCapabilities: !!this._capabilities,
-      previousState: this.state,
-    });
-    // Close SFTP session properly
-    if (this._sftp) {
-      try {
-        this._sftp.end();
-      } catch {
-        // Ignore cleanup errors
-      }
-      this._sftp = null;
+  private async loadKeyAttempt(keyPath: string): Promise<AuthAttempt | undefined> {
+    const expanded = expandPath(keyPath);
+    if (!fs.existsSync(expanded)) {
+      return undefined;
     }
-
-    // Close all file watchers
-    for (const [, stream] of this._activeWatchers) {
-      try {
-        stream.close();
-      } catch {
-        // Ignore cleanup errors
-      }
+    const key = fs.readFileSync(expanded);
+    if (!isPrivateKeyEncrypted(key)) {
+      return { type: 'publickey', keyPath, key };
     }
-    this._activeWatchers.clear();
-
-    this._client = null;
-    this._capabilities = null;
-
-    // Clear sudo state on disconnect
-    this.disableSudoMode();
+    const creds = CredentialService.getInstance();
+    const passphrase = await creds.getOrPromptKeyPassphrase(this.id, keyPath, `Passphrase for ${keyPath}`);
+    if (!passphrase) {
+      infoLog('ssh-connect', 'key-skipped', { connectionId: this.id, keyPath, reason: 'no-passphrase' });
+      return undefined;
+    }
+    if (!isKeyPassphraseValid(key, passphrase)) {
+      infoLog('ssh-connect', 'key-skipped', { connectionId: this.id, keyPath, reason: 'bad-passphrase' });
+      await creds.deleteKeyPassphrase(this.id, keyPath);
+      vscode.window.showWarningMessage(`Wrong passphrase for ${keyPath}; trying other login methods.`);
+      return undefined;
+    }
+    return { type: 'publickey', keyPath, key, passphrase };
+  }
 
-    // Close all port forwards with error handling
-    for (const [, server] of this._portForwards) {
-      try {
-        server.close();
-      } catch {
-        // Ignore cleanup errors
-      }
+  /**
+   * Pair a private key with its OpenSSH certificate. Throws an
+   * AuthenticationError when the certificate is unreadable, outside its
+   * validity window, or was issued for another key, or when the installed
+   * ssh2 cannot send certificate logins.
+   */
+  private loadCertificateAttempt(certPath: string, key: Buffer, passphrase?: string): AuthAttempt {
+    const unavailable = certificateAuthUnavailable();
+    if (unavailable) {
+      throw new AuthenticationError(`${unavailable}; cannot use ${certPath}`);
+    }
+    const certificate = readSshCertificate(expandPath(certPath));
+    if (!certificate) {
+      throw new AuthenticationError(`Certificate not found or unreadable: ${certPath}`);
+    }
+    const validity = certificateValidity(certificate);
+    if (validity.state === 'expired') {
+      throw new AuthenticationError(`Certificate ${certPath} expired ${formatCertificateDuration(validity.expiredMsAgo)} ago`);
+    }
+    if (validity.state === 'not-yet-valid') {
+      throw new AuthenticationError(`Certificate ${certPath} is not valid for another ${formatCertificateDuration(validity.validInMs)}`);
+    }
+    const privateKey = ssh2Utils.parseKey(key, passphrase);
+    if (privateKey instanceof Error) {
+      throw new AuthenticationError(`Cannot read the key for ${certPath}: ${privateKey.message}`, privateKey);
+    }
+    try {
+      return { type: 'certificate', certPath, certificate, key: createCertificateKey(privateKey, certificate) };
+    } catch (err) {
+      throw new AuthenticationError(`${certPath}: ${(err as Error).message}`, err as Error);
     }
-    this._portForwards.clear();
-    this.setState(ConnectionState.Disconnected);
   }
 
   /**
-   * Set connection state and emit event
+   * The certificate OpenSSH would pick up for an identity file, if there is
+   * one. An unusable certificate is reported and left out so the plain key
+   * can still be tried.
    */
-  private setState(state: ConnectionState): void {
-    this.state = state;
-    this._onStateChange.fire(state);
+  private findCertificateAttempt(keyPath: string, key: Buffer, passphrase?: string): AuthAttempt | undefined {
+    const certPath = certificatePathFor(keyPath);
+    if (!fs.existsSync(expandPath(certPath))) {
+      return undefined;
+    }
+    try {
+      return this.loadCertificateAttempt(certPath, key, passphrase);
+    } catch (err) {
+      const message = (err as Error).message;
+      infoLog('ssh-connect', 'certificate-skipped', { connectionId: this.id, certPath, reason: message });
+      vscode.window.showWarningMessage(`${message}; trying other login methods.`);
+      return undefined;
+    }
   }
 
   /**
-   * Disconnect from the SSH host
+   * Find out whether the server runs commands at all. SFTP-only accounts
+   * (`ForceCommand internal-sftp`, rssh, scponly) refuse the exec channel or
+   * run something other than the command, so the marker never comes back;
+   * the connection then reports no shell capabilities instead of failing
+   * each exec-based feature on its own.
    */
-  async disconnect(): Promise<void> {
-    infoLog('ssh-connect', 'disconnect/begin', {
+  private async probeExec(timeoutMs: number): Promise<void> {
+    const client = this._client!;
+    const outcome = await new Promise<string | Error>((resolve) => {
+      let channel: ClientChannel | undefined;
+      const timer = setTimeout(() => {
+        channel?.close();
+        resolve(new Error('No reply to the exec probe'));
+      }, timeoutMs);
+      try {
+        client.exec(`echo ${EXEC_PROBE_MARKER}`, (err, stream) => {
+          if (err) {
+            clearTimeout(timer);
+            resolve(err);
+            return;
+          }
+          channel = stream;
+          const chunks: Buffer[] = [];
+          stream.on('data', (data: Buffer) => chunks.push(data));
+          stream.stderr.resume();
+          stream.on('close', () => {
+            clearTimeout(timer);
+            resolve(Buffer.concat(chunks).toString('utf8'));
+          });
+          // An sftp-server started in place of the command waits for a handshake on stdin
+          stream.end();
+        });
+      } catch (err) {
+        clearTimeout(timer);
+        resolve(err as Error);
+      }
+    });
+
+    this._execDenied = typeof outcome !== 'string' || !outcome.includes(EXEC_PROBE_MARKER);
+    if (this._execDenied) {
+      infoLog('ssh-connect', 'exec-probe/denied', {
+        connectionId: this.id,
+        reason: outcome instanceof Error ? outcome.message : 'command output missing',
+      });
+    }
+  }
+
+  /**
+   * Ask the server to forward the agent (OpenSSH ForwardAgent). sshd sets up
+   * one agent socket per connection and points SSH_AUTH_SOCK of every later
+   * session at it, and ssh2 likewise sends the request only once per client,
+   * so a throwaway exec channel right after login covers every terminal and
+   * exec channel opened afterwards. A refusal is reported, never fatal.
+   */
+  private async requestAgentForwarding(timeoutMs: number): Promise<void> {
+    this._agentForwardingActive = false;
+    if (!this._forwardingAgent) {
+      infoLog('ssh-connect', 'agent-forward/no-agent', { connectionId: this.id });
+      vscode.window.showWarningMessage(
+        `Agent forwarding for ${this.host.name} is on, but there is no ssh-agent (SSH_AUTH_SOCK) and no private key to offer.`
+      );
+      return;
+    }
+
+    const client = this._client!;
+    const outcome = await new Promise<Error | undefined>((resolve) => {
+      const timer = setTimeout(() => resolve(new Error('No reply to the agent forwarding request')), timeoutMs);
+      // ssh2 honours exec's agentForward option; @types/ssh2 leaves it out
+      client.exec('true', { agentForward: true } as ExecOptions, (err, stream) => {
+        clearTimeout(timer);
+        if (stream) {
+          stream.resume();
+          stream.stderr.resume();
+        }
+        resolve(err);
+      });
+    });
+
+    if (outcome) {
+      infoLog('ssh-connect', 'agent-forward/refused', {
+        connectionId: this.id,
+        source: this._forwardingAgent.source,
+        errorMessage: outcome.message,
+      });
+      vscode.window.showWarningMessage(
+        `${this.host.name} did not accept agent forwarding (${outcome.message}). Check AllowAgentForwarding in the server's sshd_config.`
+      );
+      return;
+    }
+    this._agentForwardingActive = true;
+    infoLog('ssh-connect', 'agent-forward/active', { connectionId: this.id, source: this._forwardingAgent.source });
+  }
+
+  /**
+   * Warn when the certificate used to log in is about to expire — now if it
+   * is already inside the warning window, otherwise when it gets there.
+   * The session itself outlives the certificate (the server only checks it
+   * at login); the next connect is what fails.
+   */
+  private watchCertificateExpiry(certPath: string, certificate: SshCertificate): void {
+    clearTimeout(this._certificateExpiryTimer);
+    this._certificateExpiryTimer = undefined;
+    const validity = certificateValidity(certificate);
+    if (validity.state !== 'valid' || validity.expiresInMs === undefined) {
+      return;
+    }
+    const warnMinutes = vscode.workspace.getConfiguration('sshLite').get<number>('certificateExpiryWarningMinutes', 60);
+    if (warnMinutes <= 0) {
+      return;
+    }
+    const warn = (): void => {
+      const left = certificate.validBefore!.getTime() - Date.now();
+      infoLog('ssh-connect', 'certificate-expiring', { connectionId: this.id, certPath, expiresInMs: left });
+      vscode.window.showWarningMessage(
+        `SSH certificate ${certPath} for ${this.host.name} expires in ${formatCertificateDuration(left)}. Renew it before reconnecting.`
+      );
+    };
+    const delay = validity.expiresInMs - warnMinutes * 60_000;
+    if (delay <= 0) {
+      warn();
+    } else if (delay <= MAX_TIMER_DELAY_MS) {
+      this._certificateExpiryTimer = setTimeout(warn, delay);
+    }
+  }
+
+  /**
+   * Handle disconnect event
+   */
+  private handleDisconnect(): void {
+    infoLog('ssh-connect', 'handleDisconnect', {
+      connectionId: this.id,
+      hadSftp: !!this._sftp,
+      activeWatcherCount: this._activeWatchers.size,
+      portForwardCount: this._portForwards.size,
+      hadCapabilities: !!this._capabilities,
+      previousState: this.state,
+    });
+    // Close SFTP session properly
+    if (this._sftp) {
+      try {
+        this._sftp.end();
+      } catch {
+        // Ignore cleanup errors
+      }
+      this._sftp = null;
+    }
+
+    // Close all file watchers
+    for (const [, stream] of this._activeWatchers) {
+      try {
+        stream.close();
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+    this._activeWatchers.clear();
+
+    this._client = null;
+    this._capabilities = null;
+    this.closeJumpChain();
+    clearTimeout(this._certificateExpiryTimer);
+    this._certificateExpiryTimer = undefined;
+    this._agentForwardingActive = false;
+
+    // Clear sudo state on disconnect
+    this.disableSudoMode();
+
+    // Close all port forwards with error handling
+    for (const [, server] of this._portForwards) {
+      try {
+        server.close();
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+    this._portForwards.clear();
+    // Remote listeners die with the SSH session
+    this._remoteForwards.clear();
+    this.setState(ConnectionState.Disconnected);
+  }
+
+  /**
+   * Set connection state and emit event
+   */
+  private setState(state: ConnectionState): void {
+    this.state = state;
+    this._onStateChange.fire(state);
+  }
+
+  /**
+   * Disconnect from the SSH host
+   */
+  async disconnect(): Promise<void> {
+    infoLog('ssh-connect', 'disconnect/begin', {
       connectionId: this.id,
       hasSftp: !!this._sftp,
       portForwardCount: this._portForwards.size,
@@ -725,12 +1297,16 @@ export class SSHConnection implements ISSHConnection {
       }
     }
     this._portForwards.clear();
+    this._remoteForwards.clear();
 
     // Clear cached search-tool profile so a reconnect re-probes (the server may
     // have changed). A fresh SSHConnection is created per connect anyway; this
     // is belt-and-suspenders for any reuse path.
     this._remoteTools = null;
     this._remoteToolsPromise = null;
+    clearTimeout(this._certificateExpiryTimer);
+    this._certificateExpiryTimer = undefined;
+    this._agentForwardingActive = false;
 
     // Close client connection - the 'close' event will call handleDisconnect()
     // which sets state to Disconnected. Don't call setState here to avoid
@@ -742,6 +1318,7 @@ export class SSHConnection implements ISSHConnection {
       // Client already null, manually set state
       this.setState(ConnectionState.Disconnected);
     }
+    this.closeJumpChain();
   }
 
   /** Serialization promise for SFTP session creation — prevents duplicate sessions from concurrent calls */
@@ -899,19 +1476,7 @@ export class SSHConnection implements ISSHConnection {
    * Execute a command on the remote host
    */
   async exec(command: string): Promise<string> {
-    if (!this._client || this.state !== ConnectionState.Connected) {
-      throw new ConnectionError('Not connected');
-    }
-
-    // Log the command being executed
-    logSSHCommand(this.host.name, command);
-
-    let stream: ClientChannel;
-    try {
-      stream = await this._execChannel(command);
-    } catch (err) {
-      throw new SFTPError(`Failed to execute command: ${(err as Error).message}`, err as Error);
-    }
+    const stream = await this.openExecChannel(command);
 
     return new Promise((resolve, reject) => {
       const stdoutChunks: Buffer[] = [];
@@ -937,6 +1502,223 @@ export class SSHConnection implements ISSHConnection {
     });
   }
 
+  /**
+   * Run a command and report everything about how it ended. Unlike exec(),
+   * a non-zero exit resolves (check it with execFailure / checkExecResult);
+   * only failing to open the channel rejects.
+   */
+  async execDetailed(command: string, options: IExecOptions = {}): Promise<IExecResult> {
+    return this.runExec(command, options, true);
+  }
+
+  /**
+   * Run a command whose output is only passed to `onData`, for long or
+   * chatty commands that should not sit in memory. The result's stderr is
+   * its last 64 KB, enough for an error message.
+   */
+  async execStream(
+    command: string,
+    onData: NonNullable<IExecOptions['onData']>,
+    options: IExecOptions = {}
+  ): Promise<IExecResult> {
+    return this.runExec(command, { ...options, onData }, false);
+  }
+
+  private async runExec(command: string, options: IExecOptions, keepOutput: boolean): Promise<IExecResult> {
+    const stream = await this.openExecChannel(withEnv(command, options.env));
+    const t0 = Date.now();
+
+    return new Promise((resolve, reject) => {
+      const stdoutChunks: Buffer[] = [];
+      let stderrChunks: Buffer[] = [];
+      let stderrBytes = 0;
+      const decoders = { stdout: new StringDecoder('utf8'), stderr: new StringDecoder('utf8') };
+      let exitCode: number | null = null;
+      let signal: string | undefined;
+      let timedOut = false;
+      let cancelled = false;
+
+      // Ask the remote process to stop (servers without signal support ignore
+      // the request), then close the channel so the call returns either way
+      const stop = () => {
+        try {
+          stream.signal(options.killSignal ?? 'TERM');
+        } catch {
+          // channel already gone
+        }
+        stream.close();
+      };
+      const timer = options.timeoutMs
+        ? setTimeout(() => { timedOut = true; stop(); }, options.timeoutMs)
+        : undefined;
+      const cancelListener = options.token?.onCancellationRequested(() => { cancelled = true; stop(); });
+      if (options.token?.isCancellationRequested) {
+        cancelled = true;
+        stop();
+      }
+
+      stream.on('data', (data: Buffer) => {
+        if (keepOutput) {
+          stdoutChunks.push(data);
+        }
+        options.onData?.(decoders.stdout.write(data), 'stdout');
+      });
+      stream.stderr.on('data', (data: Buffer) => {
+        stderrChunks.push(data);
+        stderrBytes += data.length;
+        if (!keepOutput && stderrBytes > 2 * EXEC_STREAM_STDERR_TAIL) {
+          const tail = Buffer.concat(stderrChunks).subarray(-EXEC_STREAM_STDERR_TAIL);
+          stderrChunks = [tail];
+          stderrBytes = tail.length;
+        }
+        options.onData?.(decoders.stderr.write(data), 'stderr');
+      });
+      // exit-status gives (code); exit-signal gives (null, signalName)
+      stream.on('exit', (code: number | null, signalName?: string) => {
+        if (typeof code === 'number') {
+          exitCode = code;
+        }
+        if (signalName) {
+          signal = signalName;
+        }
+      });
+      stream.on('error', (err: Error) => {
+        if (timer) { clearTimeout(timer); }
+        cancelListener?.dispose();
+        reject(new SFTPError(`Command failed: ${err.message}`, err));
+      });
+      stream.once('close', () => {
+        if (timer) { clearTimeout(timer); }
+        cancelListener?.dispose();
+        const stdoutRest = decoders.stdout.end();
+        const stderrRest = decoders.stderr.end();
+        if (stdoutRest) { options.onData?.(stdoutRest, 'stdout'); }
+        if (stderrRest) { options.onData?.(stderrRest, 'stderr'); }
+        const stderr = Buffer.concat(stderrChunks);
+        resolve({
+          stdout: Buffer.concat(stdoutChunks).toString('utf8'),
+          stderr: (keepOutput ? stderr : stderr.subarray(-EXEC_STREAM_STDERR_TAIL)).toString('utf8'),
+          exitCode,
+          signal,
+          durationMs: Date.now() - t0,
+          ...(timedOut ? { timedOut } : {}),
+          ...(cancelled ? { cancelled } : {}),
+        });
+      });
+
+      if (options.stdin !== undefined) {
+        stream.end(options.stdin);
+      } else {
+        stream.end();
+      }
+    });
+  }
+
+  /**
+   * Run a command and pipe its stdout into `target`. pipeline() pauses the
+   * channel while the target is full, so a multi-GB `tar czf -` never sits in
+   * memory. Aborting closes the channel.
+   */
+  async execToStream(command: string, target: Writable, options: IExecStreamOptions = {}): Promise<number> {
+    return this.pipeStdout(await this.openExecChannel(command), target, options);
+  }
+
+  /** Stream an open channel's stdout into `target` until the command exits (execToStream, sudoExecToStream) */
+  private async pipeStdout(stream: ClientChannel, target: Writable, options: IExecStreamOptions, stderrHead = ''): Promise<number> {
+    const exit = this.waitForExit(stream, stderrHead);
+    stream.end(); // nothing to send on stdin
+    let bytes = 0;
+    const meter = new Transform({
+      transform: (chunk: Buffer, _encoding, done) => {
+        bytes += chunk.length;
+        options.onProgress?.(bytes);
+        done(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(stream, meter, target, { signal: options.signal });
+    } catch (error) {
+      stream.close();
+      throw options.signal?.aborted ? new Error('Cancelled') : error;
+    }
+    this.checkExit(await exit);
+    return bytes;
+  }
+
+  /**
+   * Run a command with `source` piped into its stdin (EOF when the source
+   * ends), e.g. a local `tar czf -` into a remote `tar xzf -`.
+   */
+  async execFromStream(command: string, source: Readable, options: IExecStreamOptions = {}): Promise<number> {
+    return this.pipeStdin(await this.openExecChannel(command), source, options);
+  }
+
+  /** Stream `source` into an open channel's stdin until the command exits (execFromStream, sudoExecFromStream) */
+  private async pipeStdin(stream: ClientChannel, source: Readable, options: IExecStreamOptions, stderrHead = ''): Promise<number> {
+    const exit = this.waitForExit(stream, stderrHead);
+    stream.on('data', () => undefined); // drain stdout so the channel window keeps moving
+    let bytes = 0;
+    const meter = new Transform({
+      transform: (chunk: Buffer, _encoding, done) => {
+        bytes += chunk.length;
+        options.onProgress?.(bytes);
+        done(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(source, meter, stream, { signal: options.signal });
+    } catch (error) {
+      stream.close();
+      throw options.signal?.aborted ? new Error('Cancelled') : error;
+    }
+    this.checkExit(await exit);
+    return bytes;
+  }
+
+  private async openExecChannel(command: string): Promise<ClientChannel> {
+    if (!this._client || this.state !== ConnectionState.Connected) {
+      throw new ConnectionError('Not connected');
+    }
+
+    // Log the command being executed
+    logSSHCommand(this.host.name, command);
+
+    try {
+      return await this._execChannel(command);
+    } catch (err) {
+      throw new SFTPError(`Failed to execute command: ${(err as Error).message}`, err as Error);
+    }
+  }
+
+  /**
+   * Exit code (null if the channel closed without one) and stderr, once the
+   * channel closes. `stderrHead` is stderr already read off the channel.
+   */
+  private waitForExit(stream: ClientChannel, stderrHead = ''): Promise<{ code: number | null; stderr: string }> {
+    const stderrChunks: Buffer[] = stderrHead ? [Buffer.from(stderrHead)] : [];
+    let exitCode: number | null = null;
+    stream.stderr.on('data', (data: Buffer) => stderrChunks.push(data));
+    stream.on('exit', (code: number | null) => {
+      exitCode = code;
+    });
+    return new Promise((resolve) => {
+      stream.once('close', (code?: number) => {
+        resolve({
+          code: exitCode ?? (typeof code === 'number' ? code : null),
+          stderr: Buffer.concat(stderrChunks).toString('utf8'),
+        });
+      });
+    });
+  }
+
+  private checkExit(result: { code: number | null; stderr: string }): void {
+    if (result.code !== 0) {
+      throw new SFTPError(`Command failed (exit code ${result.code ?? 'unknown'}): ${result.stderr.trim()}`);
+    }
+  }
+
   /**
    * Create an interactive shell.
    *
@@ -946,10 +1728,11 @@ export class SSHConnection implements ISSHConnection {
    * so remote TUI apps and shell plugins (fzf-tab, powerlevel10k, vim, tmux)
    * render exactly as in a native `ssh user@host` session. These are sent once
    * when the channel opens (no polling, no extra server commands).
+   * `opts.command` runs that command on the PTY instead of the login shell.
    */
   async shell(
     pty?: { term?: string; rows?: number; cols?: number },
-    opts?: { env?: Record<string, string> }
+    opts?: { env?: Record<string, string>; command?: string }
   ): Promise<ClientChannel> {
     if (!this._client || this.state !== ConnectionState.Connected) {
       throw new ConnectionError('Not connected');
@@ -963,7 +1746,11 @@ export class SSHConnection implements ISSHConnection {
         }
         resolve(stream);
       };
-      if (pty || opts) {
+      if (opts?.command) {
+        // A command on a PTY instead of the login shell, e.g. attaching to a
+        // tmux session; the channel behaves like a shell channel
+        this._client!.exec(opts.command, { pty: pty ?? {}, env: opts.env }, cb);
+      } else if (pty || opts) {
         // ssh2 overload: shell(window, options, cb). Passing {} for an absent
         // arg requests a default PTY — fine here because every real caller that
         // supplies opts also supplies pty (the terminal always sets `term`).
@@ -976,6 +1763,74 @@ export class SSHConnection implements ISSHConnection {
     });
   }
 
+  /**
+   * Time one keepalive and one SFTP realpath round trip for the health
+   * sampler. The keepalive is a `keepalive@openssh.com` global request, which
+   * sshd answers itself without touching a session, so it measures the
+   * network alone; realpath also waits for the server's sftp-server. ssh2 has
+   * no public call for a single keepalive: replies are matched in order
+   * against the client's callback queue, the same queue its keepalive timer
+   * uses, so a callback is queued before the ping goes out.
+   */
+  async measureLatency(timeoutMs: number): Promise<ILatencySample> {
+    if (!this._client || this.state !== ConnectionState.Connected) {
+      throw new ConnectionError('Not connected');
+    }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const client = this._client as any;
+    const [transportMs, sftpMs] = await Promise.all([
+      this.timeRoundTrip(timeoutMs, (done) => {
+        if (!client._protocol || !Array.isArray(client._callbacks)) {
+          done(false);
+          return;
+        }
+        // Either reply (success or failure) is the server answering
+        client._callbacks.push(() => done(true));
+        client._protocol.ping();
+      }),
+      this.timeRoundTrip(timeoutMs, (done) => {
+        this.sftpRealpath('.').then(() => done(true), () => done(false));
+      }),
+    ]);
+    return { transportMs, sftpMs };
+  }
+
+  /** Milliseconds until `start` reports success; undefined on failure or timeout */
+  private timeRoundTrip(timeoutMs: number, start: (done: (ok: boolean) => void) => void): Promise<number | undefined> {
+    return new Promise((resolve) => {
+      const startedAt = Date.now();
+      let settled = false;
+      const finish = (ok: boolean) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        resolve(ok ? Date.now() - startedAt : undefined);
+      };
+      const timer = setTimeout(() => finish(false), timeoutMs);
+      try {
+        start(finish);
+      } catch {
+        finish(false);
+      }
+    });
+  }
+
+  /** Resolve a path on the server over SFTP (no shell) */
+  private async sftpRealpath(remotePath: string): Promise<string> {
+    const sftp = await this.getSFTP();
+    return new Promise((resolve, reject) => {
+      sftp.realpath(remotePath, (err, absPath) => {
+        if (err) {
+          reject(new SFTPError(`Failed to resolve path: ${err.message}`, err));
+        } else {
+          resolve(absPath);
+        }
+      });
+    });
+  }
+
   /**
    * List files in a remote directory
    */
@@ -984,7 +1839,7 @@ export class SSHConnection implements ISSHConnection {
     const sftp = await this.getSFTP();
     const expandedPath = remotePath === '~' ? '.' : remotePath;
 
-    return new Promise((resolve, reject) => {
+    const files = await new Promise<IRemoteFile[]>((resolve, reject) => {
       sftp.readdir(expandedPath, (err, list) => {
         if (err) {
           reject(new SFTPError(`Failed to list directory: ${err.message}`, err));
@@ -1006,6 +1861,92 @@ export class SSHConnection implements ISSHConnection {
         }
       });
     });
+
+    if (!files.some((f) => f.isSymlink)) {
+      return files;
+    }
+    await Promise.all(files.filter((f) => f.isSymlink).map((f) => this.resolveSymlink(sftp, f)));
+    return files.sort(compareEntries);
+  }
+
+  /**
+   * Fill in a symlink entry from readdir (which reports the link itself):
+   * the readlink target, and the target's type and size. A link whose target
+   * cannot be stat'ed is marked broken and listed as a file.
+   */
+  private async resolveSymlink(sftp: SFTPWrapper, file: IRemoteFile): Promise<void> {
+    await Promise.all([
+      new Promise<void>((resolve) => {
+        sftp.readlink(file.path, (err, target) => {
+          if (!err) {
+            file.linkTarget = target;
+          }
+          resolve();
+        });
+      }),
+      new Promise<void>((resolve) => {
+        sftp.stat(file.path, (err, stats) => {
+          if (err) {
+            file.linkBroken = true;
+          } else {
+            file.isDirectory = stats.isDirectory();
+            file.size = stats.size;
+          }
+          resolve();
+        });
+      }),
+    ]);
+  }
+
+  /**
+   * Read the target of a symlink (as stored, possibly relative)
+   */
+  async readlink(remotePath: string): Promise<string> {
+    const sftp = await this.getSFTP();
+
+    return new Promise((resolve, reject) => {
+      sftp.readlink(remotePath, (err, target) => {
+        if (err) {
+          reject(new SFTPError(`Failed to read link: ${err.message}`, err));
+          return;
+        }
+        resolve(target);
+      });
+    });
+  }
+
+  /**
+   * Create a symlink at `linkPath` pointing to `targetPath`
+   */
+  async symlink(targetPath: string, linkPath: string): Promise<void> {
+    const sftp = await this.getSFTP();
+
+    return new Promise((resolve, reject) => {
+      sftp.symlink(targetPath, linkPath, (err) => {
+        if (err) {
+          reject(new SFTPError(`Failed to create symlink: ${err.message}`, err));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Resolve a path to its canonical absolute form, following every symlink
+   */
+  async realpath(remotePath: string): Promise<string> {
+    const sftp = await this.getSFTP();
+
+    return new Promise((resolve, reject) => {
+      sftp.realpath(remotePath, (err, absPath) => {
+        if (err) {
+          reject(new SFTPError(`Failed to resolve path: ${err.message}`, err));
+          return;
+        }
+        resolve(absPath);
+      });
+    });
   }
 
   /**
@@ -1074,10 +2015,10 @@ export class SSHConnection implements ISSHConnection {
         // Parse owner and group from longname
         const { owner, group } = this.parseOwnerGroup(item.longname);
 
-        return {
+        const file: IRemoteFile = {
           name: item.filename,
           path: itemPath,
-          isDirectory: (item.attrs.mode & 0o40000) !== 0,
+          isDirectory: (item.attrs.mode & S_IFMT) === S_IFDIR,
           size: item.attrs.size,
           modifiedTime: item.attrs.mtime * 1000,
           accessTime: item.attrs.atime * 1000,
@@ -1086,13 +2027,13 @@ export class SSHConnection implements ISSHConnection {
           permissions: this.formatPermissions(item.attrs.mode),
           connectionId: this.id,
         };
+        // readdir reports the link itself; listFiles() resolves the target
+        if ((item.attrs.mode & S_IFMT) === S_IFLNK) {
+          file.isSymlink = true;
+        }
+        return file;
       })
-      .sort((a, b) => {
-        // Directories first, then alphabetically
-        if (a.isDirectory && !b.isDirectory) return -1;
-        if (!a.isDirectory && b.isDirectory) return 1;
-        return a.name.localeCompare(b.name);
-      });
+      .sort(compareEntries);
   }
 
   /**
@@ -1105,6 +2046,7 @@ export class SSHConnection implements ISSHConnection {
 
     return new Promise((resolve, reject) => {
       const chunks: Buffer[] = [];
+      const startedAt = Date.now();
       const stream = sftp.createReadStream(remotePath);
 
       stream.on('data', (chunk: Buffer) => {
@@ -1112,7 +2054,9 @@ export class SSHConnection implements ISSHConnection {
       });
 
       stream.on('end', () => {
-        resolve(Buffer.concat(chunks));
+        const content = Buffer.concat(chunks);
+        this._onDidTransfer.fire({ bytes: content.length, durationMs: Date.now() - startedAt, direction: 'download' });
+        resolve(content);
       });
 
       stream.on('error', (err: Error) => {
@@ -1129,13 +2073,18 @@ export class SSHConnection implements ISSHConnection {
    * @param onProgress - Callback for progress updates (bytesTransferred, totalBytes)
    * @param abortSignal - Optional abort signal to cancel download
    * @param chunkSize - Size of each chunk in bytes (default: 64KB)
-   * @returns Buffer containing file contents
+   * @param options.start - Byte offset to start reading at (resume); progress counts from here
+   * @param options.onChunk - Takes every chunk as it arrives (e.g. to append it to a file),
+   *   so a large file never sits in memory; the stream waits for a returned promise, and a
+   *   rejection fails the read. Chunks are then not kept and the result is empty.
+   * @returns Buffer containing file contents (from `start` on), empty with `onChunk`
    */
   async readFileChunked(
     remotePath: string,
     onProgress: (transferred: number, total: number) => void,
     abortSignal?: { aborted: boolean },
-    chunkSize: number = 64 * 1024
+    chunkSize: number = 64 * 1024,
+    options: { start?: number; onChunk?: (chunk: Buffer) => void | Promise<void> } = {}
   ): Promise<Buffer> {
     SSHConnection.chaosReadFileCount++;
     const sftp = await this.getSFTP();
@@ -1143,14 +2092,19 @@ export class SSHConnection implements ISSHConnection {
     // Get file size first for progress calculation
     const stats = await this.stat(remotePath);
     const totalSize = stats.size;
+    const start = options.start ?? 0;
 
     return new Promise((resolve, reject) => {
       const chunks: Buffer[] = [];
-      let transferred = 0;
+      let transferred = start;
+      const startedAt = Date.now();
+      // Last onChunk hand-off; 'end' waits for it
+      let handedOff: Promise<void> = Promise.resolve();
 
       // Create read stream with configurable high water mark for chunked reads
       const stream = sftp.createReadStream(remotePath, {
         highWaterMark: chunkSize,
+        ...(start > 0 ? { start } : {}),
       });
 
       stream.on('data', (chunk: Buffer) => {
@@ -1161,15 +2115,32 @@ export class SSHConnection implements ISSHConnection {
           return;
         }
 
-        chunks.push(chunk);
         transferred += chunk.length;
+        const done = transferred;
+        if (options.onChunk) {
+          // Hold the stream until the caller has stored the chunk
+          stream.pause();
+          handedOff = Promise.resolve(options.onChunk(chunk)).then(() => {
+            onProgress(done, totalSize);
+            stream.resume();
+          });
+          handedOff.catch((err: Error) => {
+            stream.destroy();
+            reject(err);
+          });
+          return;
+        }
 
+        chunks.push(chunk);
         // Report progress
         onProgress(transferred, totalSize);
       });
 
       stream.on('end', () => {
-        resolve(Buffer.concat(chunks));
+        handedOff.then(() => {
+          this._onDidTransfer.fire({ bytes: transferred - start, durationMs: Date.now() - startedAt, direction: 'download' });
+          resolve(Buffer.concat(chunks));
+        }, () => undefined);
       });
 
       stream.on('error', (err: Error) => {
@@ -1224,40 +2195,174 @@ export class SSHConnection implements ISSHConnection {
   }
 
   /**
-   * Write content to a remote file
+   * Write content to a remote file
+   */
+  async writeFile(remotePath: string, content: Buffer): Promise<void> {
+    logSFTPOperation(this.host.name, 'WRITE', remotePath, `${content.length} bytes`);
+    const sftp = await this.getSFTP();
+
+    const WRITE_TIMEOUT_MS = 60_000; // 60 second timeout for slow servers
+
+    // Use sftp.writeFile() instead of createWriteStream — the callback fires only
+    // after the file is fully written AND the SFTP handle is closed on the server.
+    // createWriteStream's 'finish' event fires when data is flushed to the SSH socket,
+    // which can be before the server confirms the close, causing false failures.
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const startedAt = Date.now();
+
+      const timer = setTimeout(() => {
+        if (!settled) {
+          settled = true;
+          reject(new SFTPError('Write timed out after 60 seconds', new Error('SFTP write timeout')));
+        }
+      }, WRITE_TIMEOUT_MS);
+
+      sftp.writeFile(remotePath, content, (err) => {
+        if (!settled) {
+          settled = true;
+          clearTimeout(timer);
+          if (err) {
+            reject(new SFTPError(`Failed to write file: ${err.message}`, err));
+          } else {
+            this._onDidTransfer.fire({ bytes: content.length, durationMs: Date.now() - startedAt, direction: 'upload' });
+            resolve();
+          }
+        }
+      });
+    });
+  }
+
+  /**
+   * Write `content` into a remote file starting at byte `offset`, in chunks,
+   * over one SFTP handle. Offset 0 creates/truncates the file; a larger offset
+   * continues an existing one (resume), leaving the bytes before it alone.
+   * @param onProgress - Called after each chunk with (bytes written incl. offset, final size)
+   * @param abortSignal - Checked between chunks; an abort closes the handle and rejects
+   */
+  async writeFileAt(
+    remotePath: string,
+    content: Buffer,
+    offset: number,
+    onProgress?: (transferred: number, total: number) => void,
+    abortSignal?: { aborted: boolean },
+    chunkSize: number = 256 * 1024
+  ): Promise<void> {
+    logSFTPOperation(this.host.name, 'WRITE', remotePath, `${content.length} bytes at ${offset}`);
+    const sftp = await this.getSFTP();
+    const total = offset + content.length;
+    const startedAt = Date.now();
+
+    const handle = await new Promise<Buffer>((resolve, reject) => {
+      sftp.open(remotePath, offset > 0 ? 'r+' : 'w', (err, h) => {
+        if (err) {
+          reject(new SFTPError(`Failed to open file for writing: ${err.message}`, err));
+          return;
+        }
+        resolve(h);
+      });
+    });
+    const close = (): Promise<void> =>
+      new Promise((resolve) => sftp.close(handle, () => resolve()));
+
+    try {
+      for (let written = 0; written < content.length; ) {
+        if (abortSignal?.aborted) {
+          throw new SFTPError('Upload cancelled by user');
+        }
+        const length = Math.min(chunkSize, content.length - written);
+        await new Promise<void>((resolve, reject) => {
+          sftp.write(handle, content, written, length, offset + written, (err) => {
+            if (err) {
+              reject(new SFTPError(`Failed to write file: ${err.message}`, err));
+              return;
+            }
+            resolve();
+          });
+        });
+        written += length;
+        onProgress?.(offset + written, total);
+      }
+    } catch (error) {
+      await close();
+      throw error;
+    }
+
+    // Like writeFile: only report success once the server has closed the handle
+    await new Promise<void>((resolve, reject) => {
+      sftp.close(handle, (err) => {
+        if (err) {
+          reject(new SFTPError(`Failed to write file: ${err.message}`, err));
+          return;
+        }
+        resolve();
+      });
+    });
+    this._onDidTransfer.fire({ bytes: content.length, durationMs: Date.now() - startedAt, direction: 'upload' });
+  }
+
+  /**
+   * Move a finished temp file over its target. An existing target's
+   * permission bits are copied first, so replacing a script keeps it
+   * executable. Uses posix-rename@openssh.com (atomic overwrite) when the
+   * server has it; otherwise removes the target and renames.
+   */
+  async replaceFile(sourcePath: string, targetPath: string): Promise<void> {
+    const sftp = await this.getSFTP();
+    const existing = await new Promise<Stats | undefined>((resolve) => {
+      sftp.stat(targetPath, (err, st) => resolve(err ? undefined : st));
+    });
+
+    if (existing) {
+      await this.chmod(sourcePath, existing.mode & 0o7777);
+      const posixRename = await new Promise<boolean>((resolve, reject) => {
+        try {
+          sftp.ext_openssh_rename(sourcePath, targetPath, (err) => {
+            if (err) {
+              reject(new SFTPError(`Failed to replace ${targetPath}: ${err.message}`, err));
+              return;
+            }
+            resolve(true);
+          });
+        } catch {
+          // Server does not advertise posix-rename@openssh.com
+          resolve(false);
+        }
+      });
+      if (posixRename) {
+        return;
+      }
+      await new Promise<void>((resolve, reject) => {
+        sftp.unlink(targetPath, (err) => {
+          if (err) {
+            reject(new SFTPError(`Failed to replace ${targetPath}: ${err.message}`, err));
+            return;
+          }
+          resolve();
+        });
+      });
+    }
+    await this.rename(sourcePath, targetPath);
+  }
+
+  /**
+   * Open an SFTP read stream. Callers pipe it (with backpressure) instead of
+   * buffering the whole file, e.g. a host-to-host copy.
+   */
+  async openReadStream(remotePath: string, chunkSize: number = 256 * 1024): Promise<Readable> {
+    logSFTPOperation(this.host.name, 'READ', remotePath, 'stream');
+    const sftp = await this.getSFTP();
+    return sftp.createReadStream(remotePath, { highWaterMark: chunkSize });
+  }
+
+  /**
+   * Open an SFTP write stream (truncates). The stream finishes once the
+   * server has closed the handle.
    */
-  async writeFile(remotePath: string, content: Buffer): Promise<void> {
-    logSFTPOperation(this.host.name, 'WRITE', remotePath, `${content.length} bytes`);
+  async openWriteStream(remotePath: string): Promise<Writable> {
+    logSFTPOperation(this.host.name, 'WRITE', remotePath, 'stream');
     const sftp = await this.getSFTP();
-
-    const WRITE_TIMEOUT_MS = 60_000; // 60 second timeout for slow servers
-
-    // Use sftp.writeFile() instead of createWriteStream — the callback fires only
-    // after the file is fully written AND the SFTP handle is closed on the server.
-    // createWriteStream's 'finish' event fires when data is flushed to the SSH socket,
-    // which can be before the server confirms the close, causing false failures.
-    return new Promise((resolve, reject) => {
-      let settled = false;
-
-      const timer = setTimeout(() => {
-        if (!settled) {
-          settled = true;
-          reject(new SFTPError('Write timed out after 60 seconds', new Error('SFTP write timeout')));
-        }
-      }, WRITE_TIMEOUT_MS);
-
-      sftp.writeFile(remotePath, content, (err) => {
-        if (!settled) {
-          settled = true;
-          clearTimeout(timer);
-          if (err) {
-            reject(new SFTPError(`Failed to write file: ${err.message}`, err));
-          } else {
-            resolve();
-          }
-        }
-      });
-    });
+    return sftp.createWriteStream(remotePath, { flags: 'w' });
   }
 
   /**
@@ -1265,10 +2370,19 @@ export class SSHConnection implements ISSHConnection {
    */
   async deleteFile(remotePath: string): Promise<void> {
     const sftp = await this.getSFTP();
-    const stats = await this.stat(remotePath);
+    // lstat: a symlink is unlinked, never rmdir'ed through to its target
+    const stats = await new Promise<Stats>((resolve, reject) => {
+      sftp.lstat(remotePath, (err, st) => {
+        if (err) {
+          reject(new SFTPError(`Failed to stat file: ${err.message}`, err));
+          return;
+        }
+        resolve(st);
+      });
+    });
 
     return new Promise((resolve, reject) => {
-      if (stats.isDirectory) {
+      if (stats.isDirectory()) {
         sftp.rmdir(remotePath, (err) => {
           if (err) {
             reject(new SFTPError(`Failed to delete directory: ${err.message}`, err));
@@ -1323,6 +2437,59 @@ export class SSHConnection implements ISSHConnection {
     });
   }
 
+  /**
+   * Set permission bits (including setuid/setgid/sticky) via SFTP setstat
+   */
+  async chmod(remotePath: string, mode: number): Promise<void> {
+    const sftp = await this.getSFTP();
+
+    return new Promise((resolve, reject) => {
+      sftp.chmod(remotePath, mode, (err) => {
+        if (err) {
+          reject(new SFTPError(`Failed to change permissions of ${remotePath}: ${err.message}`, err));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Set numeric owner and group via SFTP setstat (the protocol has no names)
+   */
+  async chown(remotePath: string, uid: number, gid: number): Promise<void> {
+    const sftp = await this.getSFTP();
+
+    return new Promise((resolve, reject) => {
+      sftp.chown(remotePath, uid, gid, (err) => {
+        if (err) {
+          reject(new SFTPError(`Failed to change owner of ${remotePath}: ${err.message}`, err));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Set modification and access time via SFTP setstat, e.g. to keep the
+   * source's time on a copy. ssh2 takes seconds; `mtimeMs` is milliseconds.
+   */
+  async setModifiedTime(remotePath: string, mtimeMs: number): Promise<void> {
+    const sftp = await this.getSFTP();
+    const seconds = Math.floor(mtimeMs / 1000);
+
+    return new Promise((resolve, reject) => {
+      sftp.utimes(remotePath, seconds, seconds, (err) => {
+        if (err) {
+          reject(new SFTPError(`Failed to set the modification time of ${remotePath}: ${err.message}`, err));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
   // ─── Sudo Operations ─────────────────────────────────────────────────
   // All sudo methods use SSH exec channels (not local shell).
   // Password is written to channel stdin, never in the command string.
@@ -1398,15 +2565,7 @@ export class SSHConnection implements ISSHConnection {
       userFlag = `-u ${options.runAsUser} `;
     }
 
-    const nonce = crypto.randomBytes(8).toString('hex');
-    const PROMPT_TOKEN = `SSHLITE_SUDO_PASS:${nonce}:`;
-    const READY_TOKEN = `SSHLITE_SUDO_READY:${nonce}:`;
-
-    // Build the inner script and escape single quotes for embedding inside
-    // the outer single-quoted `sh -c '...'` argument: ' becomes '\''
-    const innerScript = `echo '${READY_TOKEN}' >&2; ${command}`;
-    const escapedInner = innerScript.replace(/'/g, "'\\''");
-    const sudoCmd = `sudo ${userFlag}-S -p '${PROMPT_TOKEN}' -- sh -c '${escapedInner}'`;
+    const { nonce, PROMPT_TOKEN, READY_TOKEN, sudoCmd } = this.buildSudoCommand(command, userFlag);
 
     logSSHCommand(
       this.host.name,
@@ -1555,6 +2714,95 @@ export class SSHConnection implements ISSHConnection {
     });
   }
 
+  /** The wrapped command and its sentinels, with a fresh nonce (see _sudoExecRaw) */
+  private buildSudoCommand(command: string, userFlag = ''): { nonce: string; PROMPT_TOKEN: string; READY_TOKEN: string; sudoCmd: string } {
+    const nonce = crypto.randomBytes(8).toString('hex');
+    const PROMPT_TOKEN = `SSHLITE_SUDO_PASS:${nonce}:`;
+    const READY_TOKEN = `SSHLITE_SUDO_READY:${nonce}:`;
+
+    // Build the inner script and escape single quotes for embedding inside
+    // the outer single-quoted `sh -c '...'` argument: ' becomes '\''
+    const innerScript = `echo '${READY_TOKEN}' >&2; ${command}`;
+    const escapedInner = innerScript.replace(/'/g, "'\\''");
+    return { nonce, PROMPT_TOKEN, READY_TOKEN, sudoCmd: `sudo ${userFlag}-S -p '${PROMPT_TOKEN}' -- sh -c '${escapedInner}'` };
+  }
+
+  /**
+   * Open a sudo exec channel and answer its password prompt, the same way as
+   * _sudoExecRaw, but hand the channel back at READY instead of collecting
+   * stdout: the caller streams stdin/stdout itself. Resolves with the channel
+   * and any of the command's stderr that came in the READY chunk.
+   */
+  private async openSudoChannel(command: string, password: string): Promise<{ stream: ClientChannel; stderrHead: string }> {
+    if (!this._client || this.state !== ConnectionState.Connected) {
+      throw new ConnectionError('Not connected');
+    }
+    const { PROMPT_TOKEN, READY_TOKEN, sudoCmd } = this.buildSudoCommand(command);
+    logSSHCommand(this.host.name, `[sudo] ${command}`);
+    infoLog('sudo', 'stream/begin', { host: this.host.name });
+
+    const stream = await this._execChannel(sudoCmd);
+    return new Promise((resolve, reject) => {
+      let stderrBuf = '';
+      let passwordWritten = false;
+      const finish = (error?: Error, stderrHead = ''): void => {
+        clearTimeout(timer);
+        stream.stderr.removeListener('data', onStderr);
+        stream.removeListener('close', onClose);
+        if (error) {
+          infoLog('sudo', 'stream/fail', { host: this.host.name, errorMessage: error.message });
+          stream.destroy();
+          reject(error);
+        } else {
+          resolve({ stream, stderrHead });
+        }
+      };
+      const timer = setTimeout(() => {
+        finish(new SFTPError('sudo did not respond within 60s — possible NOPASSWD misconfig, network stall, or sudo not present'));
+      }, 60_000);
+      const onClose = (): void => {
+        const category = this.categorizeSudoError(stderrBuf);
+        finish(new SFTPError(category ? this.sudoErrorMessage(category) : `Sudo command ended early: ${stderrBuf.trim()}`));
+      };
+      const onStderr = (chunk: Buffer): void => {
+        stderrBuf += chunk.toString();
+        const category = this.categorizeSudoError(stderrBuf);
+        if (category) {
+          finish(new SFTPError(this.sudoErrorMessage(category)));
+          return;
+        }
+        const readyIdx = stderrBuf.indexOf(READY_TOKEN);
+        if (readyIdx !== -1) {
+          finish(undefined, stderrBuf.slice(readyIdx + READY_TOKEN.length));
+          return;
+        }
+        if (stderrBuf.includes(PROMPT_TOKEN)) {
+          if (passwordWritten) {
+            finish(new SFTPError(this.sudoErrorMessage('auth')));
+            return;
+          }
+          stream.write(password + '\n');
+          passwordWritten = true;
+          stderrBuf = stderrBuf.replace(PROMPT_TOKEN, '');
+        }
+      };
+      stream.stderr.on('data', onStderr);
+      stream.once('close', onClose);
+    });
+  }
+
+  /** execToStream under sudo: stdout streams once sudo has taken the password */
+  async sudoExecToStream(command: string, target: Writable, password: string, options: IExecStreamOptions = {}): Promise<number> {
+    const { stream, stderrHead } = await this.openSudoChannel(command, password);
+    return this.pipeStdout(stream, target, options, stderrHead);
+  }
+
+  /** execFromStream under sudo: `source` goes to stdin only after sudo has read the password from it */
+  async sudoExecFromStream(command: string, source: Readable, password: string, options: IExecStreamOptions = {}): Promise<number> {
+    const { stream, stderrHead } = await this.openSudoChannel(command, password);
+    return this.pipeStdin(stream, source, options, stderrHead);
+  }
+
   /** Check sudo exec result for common error patterns and throw appropriate errors */
   private checkSudoResult(result: { stderr: string; code: number }, operation: string): void {
     if (result.code === 0) { return; }
@@ -1642,10 +2890,21 @@ export class SSHConnection implements ISSHConnection {
    */
   async sudoListFiles(remotePath: string, password: string, runAsUser?: string): Promise<IRemoteFile[]> {
     const escaped = this.escapePath(remotePath);
-    const result = await this._sudoExecRaw(`ls -la '${escaped}'`, password, undefined, { runAsUser });
+    // After the listing, GNU find names links to folders (d) and broken links (b)
+    const result = await this._sudoExecRaw(
+      `ls -la '${escaped}' && { echo '${SUDO_LINKS_MARKER}'; ` +
+        `find '${escaped}' -mindepth 1 -maxdepth 1 -type l \\( -xtype d -printf 'd %f\\n' -o -xtype l -printf 'b %f\\n' \\) 2>/dev/null || true; }`,
+      password, undefined, { runAsUser }
+    );
     this.checkSudoResult(result, 'Sudo list');
 
-    const output = result.stdout.toString('utf8');
+    const [output, linkOutput = ''] = result.stdout.toString('utf8').split(`${SUDO_LINKS_MARKER}\n`);
+    const linkKinds = new Map<string, string>();
+    for (const line of linkOutput.split('\n')) {
+      if (line.length > 2) {
+        linkKinds.set(line.slice(2), line[0]);
+      }
+    }
     const files: IRemoteFile[] = [];
 
     for (const line of output.split('\n')) {
@@ -1661,10 +2920,12 @@ export class SSHConnection implements ISSHConnection {
       const [, typeChar, perms, owner, group, sizeStr, dateStr, name] = match;
       if (name === '.' || name === '..') { continue; }
 
-      const isDirectory = typeChar === 'd';
       const isSymlink = typeChar === 'l';
-      // For symlinks, strip " -> target" from name
-      const cleanName = isSymlink ? name.replace(/ -> .*$/, '') : name;
+      // For symlinks, split "name -> target"
+      const arrow = isSymlink ? name.indexOf(' -> ') : -1;
+      const cleanName = arrow >= 0 ? name.slice(0, arrow) : name;
+      const linkKind = isSymlink ? linkKinds.get(cleanName) : undefined;
+      const isDirectory = typeChar === 'd' || linkKind === 'd';
       const filePath = remotePath.endsWith('/')
         ? `${remotePath}${cleanName}`
         : `${remotePath}/${cleanName}`;
@@ -1682,6 +2943,11 @@ export class SSHConnection implements ISSHConnection {
         owner: `${owner}:${group}`,
         permissions: perms,
         connectionId: this.id,
+        ...(isSymlink && {
+          isSymlink,
+          linkTarget: arrow >= 0 ? name.slice(arrow + 4) : undefined,
+          linkBroken: linkKind === 'b' || undefined,
+        }),
       });
     }
 
@@ -1905,47 +3171,186 @@ export class SSHConnection implements ISSHConnection {
    * Forward a local port to a remote port
    */
   async forwardPort(localPort: number, remoteHost: string, remotePort: number): Promise<void> {
-    if (!this._client || this.state !== ConnectionState.Connected) {
-      throw new ConnectionError('Not connected');
-    }
-
-    if (this._portForwards.has(localPort)) {
-      infoLog('ssh-connect', 'forwardPort/duplicate', { connectionId: this.id, localPort });
-      throw new SFTPError(`Port ${localPort} is already forwarded`);
-    }
-
     diagLog('ssh-connect', 'forwardPort/begin', { connectionId: this.id, localPort, remoteHost, remotePort });
-    return new Promise((resolve, reject) => {
-      const server = net.createServer((socket) => {
-        diagLog('ssh-connect', 'forwardPort/incoming-connection', {
-          connectionId: this.id,
-          localPort,
-          from: socket.remoteAddress + ':' + socket.remotePort,
-        });
-        this._client!.forwardOut(
-          socket.remoteAddress || '127.0.0.1',
-          socket.remotePort || 0,
-          remoteHost,
-          remotePort,
-          (err, stream) => {
+    await this.listenLocal(localPort, (socket) => {
+      diagLog('ssh-connect', 'forwardPort/incoming-connection', {
+        connectionId: this.id,
+        localPort,
+        from: socket.remoteAddress + ':' + socket.remotePort,
+      });
+      this.tunnel(socket, remoteHost, remotePort, (err, stream) => {
+        if (err) {
+          infoLog('ssh-connect', 'forwardPort/forwardOut-error', {
+            connectionId: this.id,
+            localPort,
+            remoteHost,
+            remotePort,
+            errorMessage: err.message,
+          });
+          socket.end();
+          return;
+        }
+        socket.pipe(stream).pipe(socket);
+      });
+    });
+    infoLog('ssh-connect', 'forwardPort/listening', { connectionId: this.id, localPort, remoteHost, remotePort });
+  }
+
+  /**
+   * Dynamic forward (`ssh -D`): a SOCKS5 proxy on a local port. Each client
+   * connection is opened from the server to the destination it asks for.
+   */
+  async forwardDynamic(localPort: number): Promise<void> {
+    diagLog('ssh-connect', 'forwardDynamic/begin', { connectionId: this.id, localPort });
+    await this.listenLocal(localPort, (socket) => {
+      socket.on('error', () => socket.destroy());
+      readSocksRequest(socket)
+        .then(({ host, port }) => {
+          diagLog('ssh-connect', 'forwardDynamic/request', { connectionId: this.id, localPort, host, port });
+          this.tunnel(socket, host, port, (err, stream) => {
             if (err) {
-              infoLog('ssh-connect', 'forwardPort/forwardOut-error', {
+              diagLog('ssh-connect', 'forwardDynamic/forwardOut-error', {
                 connectionId: this.id,
                 localPort,
-                remoteHost,
-                remotePort,
+                host,
+                port,
                 errorMessage: err.message,
               });
+              sendSocksReply(socket, SOCKS_REPLY.connectionRefused);
               socket.end();
               return;
             }
-            // Handle errors on both sides to prevent unhandled 'error' events crashing the process
-            stream.on('error', () => socket.destroy());
-            socket.on('error', () => stream.destroy());
+            sendSocksReply(socket, SOCKS_REPLY.succeeded);
             socket.pipe(stream).pipe(socket);
-          }
-        );
+          });
+        })
+        .catch((err) => {
+          diagLog('ssh-connect', 'forwardDynamic/handshake-error', {
+            connectionId: this.id,
+            localPort,
+            errorMessage: (err as Error).message,
+          });
+        });
+    });
+    infoLog('ssh-connect', 'forwardDynamic/listening', { connectionId: this.id, localPort });
+  }
+
+  /**
+   * Remote forward (`ssh -R`): ask the server to listen on
+   * remoteHost:remotePort and send each connection to localHost:localPort
+   * on this machine. Resolves with the port the server bound (the one asked
+   * for, or the one it picked for port 0).
+   */
+  async forwardRemotePort(remoteHost: string, remotePort: number, localHost: string, localPort: number): Promise<number> {
+    if (!this._client || this.state !== ConnectionState.Connected) {
+      throw new ConnectionError('Not connected');
+    }
+    if (remotePort !== 0 && this._remoteForwards.has(remotePort)) {
+      infoLog('ssh-connect', 'forwardRemotePort/duplicate', { connectionId: this.id, remotePort });
+      throw new SFTPError(`Remote port ${remotePort} is already forwarded`);
+    }
+
+    diagLog('ssh-connect', 'forwardRemotePort/begin', { connectionId: this.id, remoteHost, remotePort, localHost, localPort });
+    const client = this._client;
+    const bound = await new Promise<number>((resolve, reject) => {
+      client.forwardIn(remoteHost, remotePort, (err, port) => {
+        if (err) {
+          infoLog('ssh-connect', 'forwardRemotePort/refused', {
+            connectionId: this.id,
+            remoteHost,
+            remotePort,
+            errorMessage: err.message,
+          });
+          // sshd only says "request failed": the port is taken, privileged, or AllowTcpForwarding is off
+          reject(new SFTPError(`Server refused to listen on ${remoteHost}:${remotePort} (port in use or remote forwarding disabled)`, err));
+          return;
+        }
+        resolve(port || remotePort);
+      });
+    });
+    this._remoteForwards.set(bound, { bindHost: remoteHost, localHost, localPort });
+    infoLog('ssh-connect', 'forwardRemotePort/listening', { connectionId: this.id, remoteHost, remotePort: bound, localHost, localPort });
+    return bound;
+  }
+
+  /**
+   * Stop a remote port forward
+   */
+  async stopRemoteForward(remotePort: number): Promise<void> {
+    const forward = this._remoteForwards.get(remotePort);
+    if (!forward) {
+      diagLog('ssh-connect', 'stopRemoteForward/not-found', { connectionId: this.id, remotePort });
+      return;
+    }
+    this._remoteForwards.delete(remotePort);
+    diagLog('ssh-connect', 'stopRemoteForward', { connectionId: this.id, remotePort });
+    const client = this._client;
+    if (!client) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      client.unforwardIn(forward.bindHost, remotePort, (err) => {
+        if (err) {
+          reject(new SFTPError(`Failed to stop remote forward on port ${remotePort}: ${err.message}`, err));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * A connection the server accepted on one of our remote forwards: dial
+   * the local target and splice the two together. Unknown ports (a forward
+   * being torn down) and unreachable targets are refused.
+   */
+  private acceptRemoteForward(info: TcpConnectionDetails, accept: () => ClientChannel, rejectConn: () => void): void {
+    const forward = this._remoteForwards.get(info.destPort);
+    if (!forward) {
+      diagLog('ssh-connect', 'remoteForward/unknown-port', { connectionId: this.id, destPort: info.destPort });
+      rejectConn();
+      return;
+    }
+    const socket = net.connect(forward.localPort, forward.localHost);
+    socket.once('error', (err) => {
+      infoLog('ssh-connect', 'remoteForward/local-connect-error', {
+        connectionId: this.id,
+        remotePort: info.destPort,
+        localHost: forward.localHost,
+        localPort: forward.localPort,
+        errorMessage: err.message,
+      });
+      rejectConn();
+    });
+    socket.once('connect', () => {
+      diagLog('ssh-connect', 'remoteForward/incoming-connection', {
+        connectionId: this.id,
+        remotePort: info.destPort,
+        from: `${info.srcIP}:${info.srcPort}`,
       });
+      const stream = accept();
+      socket.removeAllListeners('error');
+      stream.on('error', () => socket.destroy());
+      socket.on('error', () => stream.destroy());
+      socket.pipe(stream).pipe(socket);
+    });
+  }
+
+  /**
+   * Listen on a local port (127.0.0.1 only) for a local or dynamic forward.
+   */
+  private listenLocal(localPort: number, onSocket: (socket: net.Socket) => void): Promise<void> {
+    if (!this._client || this.state !== ConnectionState.Connected) {
+      throw new ConnectionError('Not connected');
+    }
+
+    if (this._portForwards.has(localPort)) {
+      infoLog('ssh-connect', 'forwardPort/duplicate', { connectionId: this.id, localPort });
+      throw new SFTPError(`Port ${localPort} is already forwarded`);
+    }
+
+    return new Promise((resolve, reject) => {
+      const server = net.createServer(onSocket);
 
       server.on('error', (err) => {
         infoLog('ssh-connect', 'forwardPort/server-error', {
@@ -1957,13 +3362,38 @@ export class SSHConnection implements ISSHConnection {
       });
 
       server.listen(localPort, '127.0.0.1', () => {
-        infoLog('ssh-connect', 'forwardPort/listening', { connectionId: this.id, localPort, remoteHost, remotePort });
         this._portForwards.set(localPort, server);
         resolve();
       });
     });
   }
 
+  /**
+   * Open a channel from the server to host:port for a local socket. Errors on
+   * either side tear down the other, so an unhandled 'error' cannot crash the
+   * extension host.
+   */
+  private tunnel(
+    socket: net.Socket,
+    host: string,
+    port: number,
+    cb: (err: Error | undefined, stream: ClientChannel) => void,
+  ): void {
+    if (!this._client) {
+      cb(new ConnectionError('Not connected'), undefined as unknown as ClientChannel);
+      return;
+    }
+    this._client.forwardOut(socket.remoteAddress || '127.0.0.1', socket.remotePort || 0, host, port, (err, stream) => {
+      if (err) {
+        cb(err, stream);
+        return;
+      }
+      stream.on('error', () => socket.destroy());
+      socket.on('error', () => stream.destroy());
+      cb(undefined, stream);
+    });
+  }
+
   /**
    * Stop a port forward
    */
@@ -2089,6 +3519,18 @@ export class SSHConnection implements ISSHConnection {
     const validatedMaxResults = validateMaxResults(maxResults);
     const searchPaths = Array.isArray(searchPath) ? searchPath : [searchPath];
 
+    // No find/grep on an SFTP-only server: filenames come from walking the
+    // tree over SFTP, contents cannot be searched at all
+    if (this._execDenied) {
+      if (searchContent) {
+        throw new SFTPError('Content search needs shell access, but this server only allows SFTP');
+      }
+      return this.searchFilenamesOverSftp({
+        pattern, searchPaths, caseSensitive, excludePattern,
+        maxResults: validatedMaxResults, findType: options.findType || 'f',
+      }, signal);
+    }
+
     // Resolve which tools to use. 'auto' lazily probes the server once per
     // connection (inside this user-triggered search → LITE-compliant); 'off'
     // (the default) keeps the universal grep/find path with no probe at all.
@@ -2172,6 +3614,32 @@ export class SSHConnection implements ISSHConnection {
     return this._enrichAndSort(outcome.results, outcome.uniquePaths, () => signal?.aborted === true);
   }
 
+  /** Filename search for SFTP-only servers: sftpFindFiles() over readdir, then the usual stat enrichment */
+  private async searchFilenamesOverSftp(opts: FilenameSearchOpts, signal?: AbortSignal): Promise<SearchResultRow[]> {
+    const sftp = await this.getSFTP();
+    const readdir = (dirPath: string) => new Promise<SftpFindEntry[]>((resolve, reject) => {
+      sftp.readdir(dirPath, (err, list) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(list.map((item) => {
+          const type = item.attrs.mode & 0o170000;
+          return { name: item.filename, kind: type === 0o040000 ? 'directory' : type === 0o100000 ? 'file' : 'other' };
+        }));
+      });
+    });
+
+    const t0 = Date.now();
+    const isAborted = () => signal?.aborted === true;
+    const paths = await sftpFindFiles(readdir, opts, isAborted);
+    if (isAborted()) return [];
+    infoLog('search-exec', 'sftp-walk-done', {
+      connectionId: this.id, durationMs: Date.now() - t0, resultCount: paths.length, roots: opts.searchPaths.length,
+    });
+    return this._enrichAndSort(paths.map((p) => ({ path: p })), new Set(paths), isAborted);
+  }
+
   /**
    * Opt-in indexed filename search via plocate/locate. MUCH faster than a live
    * find (the OS keeps a trigram index) but STALE — it can miss files created
@@ -2190,6 +3658,9 @@ export class SSHConnection implements ISSHConnection {
     if (this.state !== ConnectionState.Connected || !this._client) {
       throw new SFTPError('Not connected');
     }
+    if (this._execDenied) {
+      return null; // no locate without a shell → caller falls back to live (SFTP) search
+    }
     const { caseSensitive = false, maxResults = 2000, signal } = options;
     const tools = await this.getRemoteSearchTools();
     const toolName: 'plocate' | 'locate' = tools.plocate ? 'plocate' : 'locate';
@@ -2476,5 +3947,6 @@ export class SSHConnection implements ISSHConnection {
     infoLog('ssh-connect', 'dispose', { connectionId: this.id });
     this.disconnect();
     this._onStateChange.dispose();
+    this._onDidTransfer.dispose();
   }
 }
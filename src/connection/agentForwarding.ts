@@ -0,0 +1,119 @@
+import { AgentInboundRequest, AgentProtocol, BaseAgent, GetStreamCallback, IdentityCallback, ParsedKey, SignCallback, SigningRequestOptions, utils } from 'ssh2';
+import { AuthAttempt } from './authAttempts';
+
+/**
+ * Agent forwarding (OpenSSH `ForwardAgent`).
+ *
+ * When a host asks for it, the session requests `auth-agent-req@openssh.com`
+ * and the server's `SSH_AUTH_SOCK` leads back to an agent on this machine:
+ * the user's running ssh-agent when `SSH_AUTH_SOCK` is set, otherwise an
+ * in-process agent holding the private keys SSH Lite loaded for the login.
+ */
+
+/** Where forwarded agent requests are answered */
+export type ForwardingAgentSource = 'ssh-agent' | 'in-process';
+
+export interface ForwardingAgent {
+  /** ssh2 `agent` option: a socket path, or an agent object */
+  agent: string | BaseAgent;
+  source: ForwardingAgentSource;
+}
+
+/**
+ * An agent that answers from keys held in memory. Serves the identity list
+ * and signatures; it cannot add, remove or lock keys.
+ */
+export class InProcessAgent extends BaseAgent<ParsedKey> {
+  constructor(private readonly keys: ParsedKey[]) {
+    super();
+  }
+
+  getIdentities(cb: IdentityCallback<ParsedKey>): void {
+    cb(undefined, this.keys);
+  }
+
+  sign(pubKey: ParsedKey, data: Buffer, options: SigningRequestOptions | SignCallback, cb?: SignCallback): void {
+    const done = typeof options === 'function' ? options : cb;
+    const hash = typeof options === 'function' ? undefined : options?.hash;
+    const key = this.findKey(pubKey);
+    if (!key) {
+      done?.(new Error('Key not held by this agent'));
+      return;
+    }
+    const signature = key.sign(data, hash);
+    if (signature instanceof Error) {
+      done?.(signature);
+    } else {
+      done?.(undefined, signature);
+    }
+  }
+
+  /** A fresh agent-protocol stream for each forwarded `auth-agent@openssh.com` channel */
+  getStream(cb: GetStreamCallback): void {
+    const protocol = new AgentProtocol(false);
+    protocol.on('identities', (req: AgentInboundRequest) => {
+      protocol.getIdentitiesReply(req, this.keys);
+    });
+    protocol.on('sign', (req: AgentInboundRequest, pubKey: ParsedKey, data: Buffer, options: SigningRequestOptions) => {
+      const key = this.findKey(pubKey);
+      const signature = key?.sign(data, options?.hash);
+      // ParsedKey.sign() gives ECDSA signatures in DER; agent replies carry SSH wire format
+      const wire = signature instanceof Buffer ? convertSignature(signature, key!.type) : false;
+      if (wire) {
+        protocol.signReply(req, wire);
+      } else {
+        protocol.failureReply(req);
+      }
+    });
+    cb(undefined, protocol);
+  }
+
+  private findKey(pubKey: ParsedKey): ParsedKey | undefined {
+    const wanted = pubKey.getPublicSSH();
+    return this.keys.find((k) => k.getPublicSSH().equals(wanted));
+  }
+}
+
+function convertSignature(signature: Buffer, keyType: string): Buffer | false {
+  // ssh2/lib/protocol has no public export; the DER → SSH conversion is internal
+  const protocolUtils = require('ssh2/lib/protocol/utils.js');
+  return protocolUtils.convertSignature(signature, keyType);
+}
+
+/**
+ * Private keys from the login attempts, for the in-process agent: every
+ * identity file and credential key that parsed (encrypted ones with their
+ * passphrase), and the plain key behind a certificate.
+ */
+export function forwardableKeys(attempts: AuthAttempt[]): ParsedKey[] {
+  const keys: ParsedKey[] = [];
+  for (const attempt of attempts) {
+    let key: ParsedKey | undefined;
+    if (attempt.type === 'publickey') {
+      const parsed = utils.parseKey(attempt.key, attempt.passphrase);
+      key = parsed instanceof Error ? undefined : parsed;
+    } else if (attempt.type === 'certificate') {
+      // createCertificateKey() wraps the private key in a prototype layer
+      key = Object.getPrototypeOf(attempt.key) as ParsedKey;
+    }
+    if (key?.isPrivateKey() && !keys.some((k) => k.getPublicSSH().equals(key!.getPublicSSH()))) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+/**
+ * The agent to forward: the running ssh-agent if there is one, else the
+ * login keys served in-process, else undefined (nothing to forward).
+ */
+export function createForwardingAgent(
+  attempts: AuthAttempt[],
+  authSock: string | undefined = process.env.SSH_AUTH_SOCK,
+): ForwardingAgent | undefined {
+  if (authSock) {
+    return { agent: authSock, source: 'ssh-agent' };
+  }
+  const keys = forwardableKeys(attempts);
+  return keys.length > 0 ? { agent: new InProcessAgent(keys), source: 'in-process' } : undefined;
+}
@@ -0,0 +1,69 @@
+import { AuthAttempt, AuthSequence, authAttemptId, preferAuthAttempt } from './authAttempts';
+
+const agent: AuthAttempt = { type: 'agent', agent: '/tmp/agent.sock' };
+const rsa: AuthAttempt = { type: 'publickey', keyPath: '~/.ssh/id_rsa', key: Buffer.from('rsa') };
+const ed: AuthAttempt = { type: 'publickey', keyPath: '~/.ssh/id_ed25519', key: Buffer.from('ed'), passphrase: 'pp' };
+const certKey = { type: 'ssh-ed25519-cert-v01@openssh.com' } as never;
+const cert: AuthAttempt = { type: 'certificate', certPath: '~/.ssh/id_ed25519-cert.pub', certificate: {} as never, key: certKey };
+const keyboard: AuthAttempt = { type: 'keyboard-interactive' };
+const password: AuthAttempt = { type: 'password', password: 'pw' };
+
+describe('authAttemptId', () => {
+  it('names keys by their configured path', () => {
+    expect([agent, cert, ed, keyboard, password].map(authAttemptId))
+      .toEqual(['agent', 'certificate:~/.ssh/id_ed25519-cert.pub', 'publickey:~/.ssh/id_ed25519', 'keyboard-interactive', 'password']);
+  });
+});
+
+describe('preferAuthAttempt', () => {
+  it('moves the remembered attempt to the front and keeps the rest in order', () => {
+    expect(preferAuthAttempt([agent, rsa, ed, password], 'publickey:~/.ssh/id_ed25519')).toEqual([ed, agent, rsa, password]);
+  });
+
+  it('leaves the order alone for an unknown or missing preference', () => {
+    const attempts = [agent, rsa];
+    expect(preferAuthAttempt(attempts, 'publickey:~/.ssh/gone')).toBe(attempts);
+    expect(preferAuthAttempt(attempts, undefined)).toBe(attempts);
+  });
+});
+
+describe('AuthSequence', () => {
+  const prompt = jest.fn();
+
+  it('probes with none, then walks the attempts and ends with false', () => {
+    const seq = new AuthSequence('alice', [agent, ed], prompt);
+    expect(seq.handler(null, null)).toEqual({ type: 'none', username: 'alice' });
+    expect(seq.handler(['publickey'], false)).toEqual({ type: 'agent', username: 'alice', agent: '/tmp/agent.sock' });
+    expect(seq.handler(['publickey'], false)).toEqual({ type: 'publickey', username: 'alice', key: Buffer.from('ed'), passphrase: 'pp' });
+    expect(seq.handler(['publickey'], false)).toBe(false);
+  });
+
+  it('skips methods the server does not accept and reports each attempt', () => {
+    const onAttempt = jest.fn();
+    const seq = new AuthSequence('alice', [agent, rsa, keyboard, password], prompt, onAttempt);
+    seq.handler(null, null);
+    expect(seq.handler(['password'], false)).toEqual({ type: 'password', username: 'alice', password: 'pw' });
+    expect(onAttempt.mock.calls).toEqual([[password]]);
+    expect(seq.succeeded).toBe(password);
+  });
+
+  it('offers a certificate as publickey auth with the wrapped key', () => {
+    const seq = new AuthSequence('alice', [cert], prompt);
+    seq.handler(null, null);
+    expect(seq.handler(['publickey'], false)).toEqual({ type: 'publickey', username: 'alice', key: certKey });
+  });
+
+  it('hands keyboard-interactive rounds to the prompt callback', () => {
+    const seq = new AuthSequence('alice', [keyboard], prompt);
+    seq.handler(null, null);
+    expect(seq.handler(null, false)).toEqual({ type: 'keyboard-interactive', username: 'alice', prompt });
+  });
+
+  it('credits a multi-step login to the attempt that started it', () => {
+    const seq = new AuthSequence('alice', [ed, keyboard], prompt);
+    seq.handler(null, null);
+    seq.handler(['publickey', 'keyboard-interactive'], false);
+    seq.handler(['keyboard-interactive'], true);
+    expect(seq.succeeded).toBe(ed);
+  });
+});
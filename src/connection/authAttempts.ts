@@ -0,0 +1,115 @@
+import { AuthenticationType, KeyboardInteractiveAuthMethod, ParsedKey } from 'ssh2';
+import { SshCertificate } from '../utils/sshCertificate';
+
+/**
+ * One way of logging in, in the order it should be offered to the server.
+ * `keyPath`/`certPath` are the paths as configured (e.g. `~/.ssh/id_ed25519`)
+ * — they name the attempt in logs and in the remembered method, so they must
+ * not be expanded. A certificate attempt carries the key already wrapped by
+ * createCertificateKey().
+ */
+export type AuthAttempt =
+  | { type: 'agent'; agent: string }
+  | { type: 'certificate'; certPath: string; certificate: SshCertificate; key: ParsedKey }
+  | { type: 'publickey'; keyPath: string; key: Buffer; passphrase?: string }
+  | { type: 'keyboard-interactive' }
+  | { type: 'password'; password: string };
+
+/**
+ * Stable name of an attempt: `agent`, `certificate:<certPath>`,
+ * `publickey:<keyPath>`, `keyboard-interactive` or `password`.
+ */
+export function authAttemptId(attempt: AuthAttempt): string {
+  switch (attempt.type) {
+    case 'certificate':
+      return `certificate:${attempt.certPath}`;
+    case 'publickey':
+      return `publickey:${attempt.keyPath}`;
+    default:
+      return attempt.type;
+  }
+}
+
+/**
+ * Move the attempt that worked last time to the front, keeping the rest in
+ * their OpenSSH order. Unknown or stale names (a key file since removed)
+ * leave the order unchanged.
+ */
+export function preferAuthAttempt(attempts: AuthAttempt[], preferred: string | undefined): AuthAttempt[] {
+  const index = preferred ? attempts.findIndex(a => authAttemptId(a) === preferred) : -1;
+  if (index <= 0) {
+    return attempts;
+  }
+  return [attempts[index], ...attempts.slice(0, index), ...attempts.slice(index + 1)];
+}
+
+/** Method name the server lists in "methods that can continue" (agent identities and certificates are publickey auth). */
+function serverMethod(attempt: AuthAttempt): AuthenticationType {
+  return attempt.type === 'agent' || attempt.type === 'certificate' ? 'publickey' : attempt.type;
+}
+
+/**
+ * Walks a list of attempts as an ssh2 `authHandler`.
+ *
+ * ssh2's plain config offers a single `privateKey`; the handler lets every
+ * agent identity and every key be tried in turn. It starts with a `none`
+ * probe (as OpenSSH does) so later attempts can skip methods the server
+ * does not accept, and it remembers which attempt got the login through —
+ * for a multi-step login (key, then a verification code) that is the
+ * attempt that started it, since it is the one worth trying first next time.
+ */
+export class AuthSequence {
+  private next = 0;
+  private probed = false;
+  private current: AuthAttempt | undefined;
+  private firstPartial: AuthAttempt | undefined;
+
+  constructor(
+    private readonly username: string,
+    private readonly attempts: AuthAttempt[],
+    private readonly prompt: KeyboardInteractiveAuthMethod['prompt'],
+    private readonly onAttempt?: (attempt: AuthAttempt) => void,
+  ) {}
+
+  /** The attempt that logged in, or undefined if the server let `none` through. */
+  get succeeded(): AuthAttempt | undefined {
+    return this.firstPartial ?? this.current;
+  }
+
+  /** ssh2 `authHandler`; returning `false` ends authentication ("All configured authentication methods failed"). */
+  readonly handler = (methodsLeft: AuthenticationType[] | null, partialSuccess: boolean | null): object | false => {
+    if (!this.probed) {
+      this.probed = true;
+      return { type: 'none', username: this.username };
+    }
+    if (partialSuccess && this.current && !this.firstPartial) {
+      this.firstPartial = this.current;
+    }
+    while (this.next < this.attempts.length) {
+      const attempt = this.attempts[this.next++];
+      if (methodsLeft && !methodsLeft.includes(serverMethod(attempt))) {
+        continue;
+      }
+      this.current = attempt;
+      this.onAttempt?.(attempt);
+      return this.toSsh2(attempt);
+    }
+    return false;
+  };
+
+  private toSsh2(attempt: AuthAttempt): object {
+    const username = this.username;
+    switch (attempt.type) {
+      case 'agent':
+        return { type: 'agent', username, agent: attempt.agent };
+      case 'certificate':
+        return { type: 'publickey', username, key: attempt.key };
+      case 'publickey':
+        return { type: 'publickey', username, key: attempt.key, passphrase: attempt.passphrase };
+      case 'keyboard-interactive':
+        return { type: 'keyboard-interactive', username, prompt: this.prompt };
+      case 'password':
+        return { type: 'password', username, password: attempt.password };
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { Client, ParsedKey } from 'ssh2';
+import { SshCertificate } from '../utils/sshCertificate';
+
+/**
+ * Certificate login on top of ssh2 1.x.
+ *
+ * ssh2 can sign with a private key but knows nothing of certificates: it
+ * offers the plain public key, and if handed a certificate it labels the
+ * signature with the certificate algorithm (`ssh-ed25519-cert-v01@…`)
+ * instead of the key's own (`ssh-ed25519`), which OpenSSH rejects.
+ *
+ * createCertificateKey() wraps the private key so ssh2 offers the
+ * certificate; enableCertificateAuth() replaces ssh2's signed publickey
+ * request for such keys with one that names the signature correctly.
+ *
+ * That replacement uses ssh2 internals (the protocol object and two helpers
+ * from lib/protocol/utils.js), so package.json pins ssh2 to the version it
+ * was tested with, and certificateAuthUnavailable() checks they are there
+ * before a certificate is offered.
+ */
+
+const CERTIFICATE = Symbol('sshLite.certificate');
+const USERAUTH_REQUEST = 50;
+
+interface CertificateSigning {
+  /** Signature algorithm inside the signature blob, e.g. `rsa-sha2-512` */
+  sigAlgo: string;
+  /** Plain key type, for ssh2's DER → SSH signature conversion */
+  keyType: string;
+}
+
+type CertificateKey = ParsedKey & { [CERTIFICATE]: CertificateSigning };
+
+/**
+ * Algorithms for a certificate login. RSA signs with SHA-512: SHA-1
+ * `ssh-rsa` signatures are refused by default since OpenSSH 8.8.
+ */
+function certificateAlgorithms(cert: SshCertificate): { algo: string; sigAlgo: string; hash?: string } {
+  if (cert.keyType === 'ssh-rsa') {
+    return { algo: 'rsa-sha2-512-cert-v01@openssh.com', sigAlgo: 'rsa-sha2-512', hash: 'sha512' };
+  }
+  return { algo: cert.type, sigAlgo: cert.keyType };
+}
+
+/**
+ * A parsed private key that presents itself as its certificate. Pass it as
+ * the `key` of a publickey auth attempt. Throws if the certificate was
+ * issued for a different key.
+ */
+export function createCertificateKey(privateKey: ParsedKey, cert: SshCertificate): ParsedKey {
+  if (!privateKey.getPublicSSH().equals(cert.publicKey)) {
+    throw new Error('The certificate was not issued for this private key');
+  }
+  const { algo, sigAlgo, hash } = certificateAlgorithms(cert);
+  // Prototype chain keeps ssh2's "already parsed" marker and the private half
+  const key = Object.create(privateKey) as CertificateKey;
+  key.type = algo as ParsedKey['type'];
+  key.getPublicSSH = () => cert.blob;
+  key.sign = (data: Buffer) => privateKey.sign(data, hash);
+  key[CERTIFICATE] = { sigAlgo, keyType: cert.keyType };
+  return key;
+}
+
+/** The ssh2 helpers enableCertificateAuth() sends its request with */
+interface ProtocolUtils {
+  convertSignature(signature: Buffer, keyType: string): Buffer | false;
+  sendPacket(protocol: unknown, packet: Buffer): void;
+}
+
+let protocolUtils: ProtocolUtils | string | undefined;
+
+/** Load the ssh2 internals once; a string says what is missing */
+function loadProtocolUtils(): ProtocolUtils | string {
+  if (protocolUtils === undefined) {
+    try {
+      // ssh2/lib/protocol has no public export
+      const utils = require('ssh2/lib/protocol/utils.js');
+      const Protocol = require('ssh2/lib/protocol/Protocol.js');
+      if (typeof utils.convertSignature !== 'function' || typeof utils.sendPacket !== 'function') {
+        protocolUtils = 'ssh2/lib/protocol/utils.js has no convertSignature or sendPacket';
+      } else if (typeof Protocol?.prototype?.authPK !== 'function') {
+        protocolUtils = 'the ssh2 protocol class has no authPK';
+      } else {
+        protocolUtils = { convertSignature: utils.convertSignature, sendPacket: utils.sendPacket };
+      }
+    } catch (err) {
+      protocolUtils = `ssh2 internals not found: ${(err as Error).message}`;
+    }
+  }
+  return protocolUtils;
+}
+
+/**
+ * Why certificate logins cannot work with the installed ssh2 (a version laid
+ * out differently from the pinned one), or undefined when they can.
+ */
+export function certificateAuthUnavailable(): string | undefined {
+  const utils = loadProtocolUtils();
+  return typeof utils === 'string' ? `Certificate login is not supported by this ssh2 version (${utils})` : undefined;
+}
+
+function sshString(value: string | Buffer): Buffer {
+  const data = typeof value === 'string' ? Buffer.from(value) : value;
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(data.length);
+  return Buffer.concat([len, data]);
+}
+
+/**
+ * Teach a client's protocol layer to send certificate logins. Call right
+ * after `client.connect()` (the protocol object exists from then on);
+ * requests for ordinary keys are passed through untouched. Failures inside
+ * ssh2's signing callback cannot be thrown to anyone, so they end the
+ * connection with an `error` event instead.
+ */
+export function enableCertificateAuth(client: Client): void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const proto = (client as any)._protocol;
+  const utils = loadProtocolUtils();
+  if (!proto || proto[CERTIFICATE] || typeof utils === 'string' || typeof proto.authPK !== 'function') {
+    return;
+  }
+  proto[CERTIFICATE] = true;
+  const authPK = proto.authPK;
+  const { convertSignature, sendPacket } = utils;
+  const fail = (message: string): void => {
+    client.emit('error', new Error(message));
+    client.end();
+  };
+
+  proto.authPK = function (
+    username: string,
+    pubKey: CertificateKey,
+    keyAlgo: string | undefined,
+    cbSign?: (data: Buffer, cb: (signature: Buffer) => void) => void,
+  ): void {
+    const signing = pubKey?.[CERTIFICATE];
+    if (!signing || !cbSign) {
+      // Ordinary keys, and the unsigned "would this key do?" query, for which
+      // ssh2 already sends the certificate algorithm and blob
+      return authPK.call(this, username, pubKey, keyAlgo, cbSign);
+    }
+
+    const writer = this._packetRW?.write;
+    if (!this._kex?.sessionID || typeof writer?.alloc !== 'function' || !Array.isArray(this._authsQueue)) {
+      fail('Certificate login is not supported by this ssh2 version (protocol state not found)');
+      return;
+    }
+
+    const request = Buffer.concat([
+      Buffer.from([USERAUTH_REQUEST]),
+      sshString(username),
+      sshString('ssh-connection'),
+      sshString('publickey'),
+      Buffer.from([1]),
+      sshString(pubKey.type),
+      sshString(pubKey.getPublicSSH()),
+    ]);
+    cbSign(Buffer.concat([sshString(this._kex.sessionID), request]), (signature: Buffer) => {
+      let sig: Buffer | false;
+      try {
+        sig = convertSignature(signature, signing.keyType);
+      } catch {
+        sig = false;
+      }
+      if (sig === false) {
+        fail(`Certificate login failed: cannot convert the ${signing.keyType} signature`);
+        return;
+      }
+      const payload = Buffer.concat([request, sshString(Buffer.concat([sshString(signing.sigAlgo), sshString(sig)]))]);
+      const packet: Buffer = writer.alloc(payload.length);
+      packet.set(payload, writer.allocStart);
+      this._authsQueue.push('publickey');
+      sendPacket(this, writer.finalize(packet));
+    });
+  };
+}
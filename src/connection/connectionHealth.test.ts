@@ -0,0 +1,120 @@
+/**
+ * connectionHealth — the rolling figures behind the health sampler and the
+ * network-versus-server verdict.
+ */
+
+import { assessHealth, ConnectionHealthTracker, formatHealthLines, healthSeverity } from './connectionHealth';
+
+const MB = 1024 * 1024;
+
+describe('ConnectionHealthTracker', () => {
+  it('reports the median of the recent latency samples', () => {
+    const tracker = new ConnectionHealthTracker();
+    for (const ms of [30, 900, 32, 31, 35]) {
+      tracker.recordLatency({ transportMs: ms, sftpMs: ms + 10 });
+    }
+
+    const health = tracker.snapshot();
+
+    expect(health.transportMs).toBe(32);
+    expect(health.sftpMs).toBe(42);
+    expect(health.status).toBe('healthy');
+  });
+
+  it('keeps only the last five samples', () => {
+    const tracker = new ConnectionHealthTracker();
+    for (const ms of [800, 800, 800, 20, 20, 20, 20, 20]) {
+      tracker.recordLatency({ transportMs: ms });
+    }
+
+    expect(tracker.snapshot().transportMs).toBe(20);
+  });
+
+  it('computes throughput per direction from large recent transfers only', () => {
+    const tracker = new ConnectionHealthTracker();
+    expect(tracker.recordTransfer({ bytes: 4 * MB, durationMs: 2000, direction: 'download' }, 0)).toBe(true);
+    tracker.recordTransfer({ bytes: 2 * MB, durationMs: 2000, direction: 'download' }, 1000);
+    expect(tracker.recordTransfer({ bytes: 1000, durationMs: 500, direction: 'download' }, 1000)).toBe(false);
+    tracker.recordTransfer({ bytes: MB, durationMs: 4000, direction: 'upload' }, 1000);
+
+    const health = tracker.snapshot(undefined, 2000);
+
+    expect(health.downloadBps).toBe(Math.round((6 * MB) / 4));
+    expect(health.uploadBps).toBe(MB / 4);
+  });
+
+  it('forgets transfers after five minutes', () => {
+    const tracker = new ConnectionHealthTracker();
+    tracker.recordTransfer({ bytes: 4 * MB, durationMs: 1000, direction: 'download' }, 0);
+
+    expect(tracker.snapshot(undefined, 5 * 60_000 + 1).downloadBps).toBeUndefined();
+  });
+
+  it('counts drops and reconnects and passes channel usage through', () => {
+    const tracker = new ConnectionHealthTracker();
+    tracker.recordDrop();
+    tracker.recordDrop();
+    tracker.recordReconnect();
+
+    const health = tracker.snapshot({ active: 2, max: 8, queued: 0 });
+
+    expect(health).toMatchObject({ drops: 2, reconnects: 1, channels: { active: 2, max: 8, queued: 0 } });
+  });
+});
+
+describe('assessHealth', () => {
+  const base = { drops: 0, reconnects: 0 };
+
+  it('blames the network when the keepalive itself is slow', () => {
+    expect(assessHealth({ ...base, transportMs: 450, sftpMs: 1200 })).toBe('slow-network');
+  });
+
+  it('blames the server when only the SFTP round trip is slow', () => {
+    expect(assessHealth({ ...base, transportMs: 40, sftpMs: 900 })).toBe('slow-server');
+    expect(assessHealth({ ...base, transportMs: 40, sftpMs: 400 })).toBe('healthy');
+  });
+
+  it('reports waiting callers as saturated channels', () => {
+    expect(assessHealth({ ...base, transportMs: 40, sftpMs: 50, channels: { active: 8, max: 8, queued: 3 } })).toBe('saturated');
+  });
+
+  it('reports an unanswered probe as unresponsive, and no samples as unknown', () => {
+    expect(assessHealth({ ...base, transportMs: 40 }, {})).toBe('unresponsive');
+    expect(assessHealth(base)).toBe('unknown');
+  });
+
+  it('orders statuses by how worrying they are', () => {
+    expect(healthSeverity('unresponsive')).toBeGreaterThan(healthSeverity('slow-network'));
+    expect(healthSeverity('slow-network')).toBeGreaterThan(healthSeverity('slow-server'));
+    expect(healthSeverity('slow-server')).toBeGreaterThan(healthSeverity('healthy'));
+  });
+});
+
+describe('formatHealthLines', () => {
+  it('lists only the figures that are known', () => {
+    expect(formatHealthLines({ status: 'healthy', transportMs: 32, drops: 0, reconnects: 0 })).toEqual([
+      '- Health: healthy',
+      '- Latency: network 32 ms, SFTP n/a',
+    ]);
+  });
+
+  it('adds throughput, channels and reconnects when present', () => {
+    const lines = formatHealthLines({
+      status: 'saturated',
+      transportMs: 32,
+      sftpMs: 40,
+      downloadBps: 1.5 * MB,
+      channels: { active: 8, max: 8, queued: 2 },
+      drops: 1,
+      reconnects: 1,
+    });
+
+    expect(lines).toEqual([
+      '- Health: channels saturated',
+      '- Latency: network 32 ms, SFTP 40 ms',
+      '- Throughput: down 1.5 MB/s, up n/a',
+      '- Channels: 8/8 in use, 2 waiting',
+      '- Drops: 1, reconnects: 1',
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+// src/connection/connectionHealth.ts
+//
+// Per-connection health figures for ConnectionManager's sampler. NO ssh2 /
+// vscode imports — samples are pushed in, so the arithmetic and the verdict
+// can be unit-tested on their own. The verdict separates the network from the
+// server by comparing two round trips: an SSH keepalive, which sshd answers
+// itself, and an SFTP realpath, which also waits for the sftp-server process.
+// A slow keepalive means a slow network; a fast keepalive with a slow realpath
+// means a busy server.
+
+import { ConnectionHealthStatus, IConnectionHealth, ILatencySample, ITransferSample } from '../types';
+import { formatFileSize } from '../utils/helpers';
+
+/** Latency samples kept; the reported figure is their median */
+const LATENCY_WINDOW = 5;
+/** Transfers older than this no longer count toward throughput */
+const THROUGHPUT_WINDOW_MS = 5 * 60_000;
+/** Smaller transfers are dominated by round trips and would understate throughput */
+const THROUGHPUT_MIN_BYTES = 256 * 1024;
+/** Keepalive round trip above which the network is called slow */
+export const SLOW_NETWORK_MS = 300;
+/** Time the server adds on top of the network above which it is called slow */
+export const SLOW_SERVER_MS = 500;
+
+interface TimedTransfer extends ITransferSample {
+  at: number;
+}
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/**
+ * Decide where a connection is slow. Order matters: a probe that got no
+ * answer at all outranks everything, and a network problem explains a slow
+ * realpath too, so it is reported before the server.
+ */
+export function assessHealth(health: Omit<IConnectionHealth, 'status'>, lastSample?: ILatencySample): ConnectionHealthStatus {
+  if (lastSample && lastSample.transportMs === undefined && lastSample.sftpMs === undefined) {
+    return 'unresponsive';
+  }
+  if (health.transportMs === undefined && health.sftpMs === undefined) {
+    return 'unknown';
+  }
+  if (health.transportMs !== undefined && health.transportMs > SLOW_NETWORK_MS) {
+    return 'slow-network';
+  }
+  if (health.sftpMs !== undefined && health.sftpMs - (health.transportMs ?? 0) > SLOW_SERVER_MS) {
+    return 'slow-server';
+  }
+  if (health.channels && health.channels.queued > 0) {
+    return 'saturated';
+  }
+  return 'healthy';
+}
+
+/**
+ * Rolling latency, throughput and reconnect figures for one connection.
+ * Lives across reconnects so the drop and reconnect counts add up.
+ */
+export class ConnectionHealthTracker {
+  private _latency: ILatencySample[] = [];
+  private _transfers: TimedTransfer[] = [];
+  private _sampledAt: number | undefined;
+  private _drops = 0;
+  private _reconnects = 0;
+
+  recordLatency(sample: ILatencySample, now: number = Date.now()): void {
+    this._latency.push(sample);
+    if (this._latency.length > LATENCY_WINDOW) {
+      this._latency.shift();
+    }
+    this._sampledAt = now;
+  }
+
+  /** Returns whether the transfer counted toward throughput (too small or instant ones do not) */
+  recordTransfer(sample: ITransferSample, now: number = Date.now()): boolean {
+    if (sample.bytes < THROUGHPUT_MIN_BYTES || sample.durationMs <= 0) {
+      return false;
+    }
+    this._transfers.push({ ...sample, at: now });
+    this.pruneTransfers(now);
+    return true;
+  }
+
+  recordDrop(): void {
+    this._drops++;
+  }
+
+  recordReconnect(): void {
+    this._reconnects++;
+  }
+
+  /** Current figures; `channels` comes from the connection's ChannelSemaphore */
+  snapshot(channels?: IConnectionHealth['channels'], now: number = Date.now()): IConnectionHealth {
+    this.pruneTransfers(now);
+    const figures: Omit<IConnectionHealth, 'status'> = {
+      transportMs: median(this._latency.flatMap((s) => (s.transportMs === undefined ? [] : [s.transportMs]))),
+      sftpMs: median(this._latency.flatMap((s) => (s.sftpMs === undefined ? [] : [s.sftpMs]))),
+      downloadBps: this.throughput('download'),
+      uploadBps: this.throughput('upload'),
+      channels,
+      drops: this._drops,
+      reconnects: this._reconnects,
+      sampledAt: this._sampledAt,
+    };
+    return { status: assessHealth(figures, this._latency[this._latency.length - 1]), ...figures };
+  }
+
+  private throughput(direction: ITransferSample['direction']): number | undefined {
+    const transfers = this._transfers.filter((t) => t.direction === direction);
+    if (transfers.length === 0) {
+      return undefined;
+    }
+    const bytes = transfers.reduce((sum, t) => sum + t.bytes, 0);
+    const ms = transfers.reduce((sum, t) => sum + t.durationMs, 0);
+    return Math.round((bytes * 1000) / ms);
+  }
+
+  private pruneTransfers(now: number): void {
+    this._transfers = this._transfers.filter((t) => now - t.at <= THROUGHPUT_WINDOW_MS);
+  }
+}
+
+const SEVERITY: Record<ConnectionHealthStatus, number> = {
+  unknown: 0,
+  healthy: 1,
+  saturated: 2,
+  'slow-server': 3,
+  'slow-network': 4,
+  unresponsive: 5,
+};
+
+/** Orders statuses from least to most worrying, for picking the host to show */
+export function healthSeverity(status: ConnectionHealthStatus): number {
+  return SEVERITY[status];
+}
+
+/** Short label for a status: "slow network", "not responding" */
+export function describeHealthStatus(status: ConnectionHealthStatus): string {
+  switch (status) {
+    case 'healthy': return 'healthy';
+    case 'slow-network': return 'slow network';
+    case 'slow-server': return 'slow server';
+    case 'saturated': return 'channels saturated';
+    case 'unresponsive': return 'not responding';
+    default: return 'not sampled yet';
+  }
+}
+
+function formatMs(ms: number | undefined): string {
+  return ms === undefined ? 'n/a' : `${ms} ms`;
+}
+
+function formatRate(bps: number | undefined): string {
+  return bps === undefined ? 'n/a' : `${formatFileSize(bps)}/s`;
+}
+
+/** Markdown bullet lines for the host tooltip */
+export function formatHealthLines(health: IConnectionHealth): string[] {
+  const lines = [
+    `- Health: ${describeHealthStatus(health.status)}`,
+    `- Latency: network ${formatMs(health.transportMs)}, SFTP ${formatMs(health.sftpMs)}`,
+  ];
+  if (health.downloadBps !== undefined || health.uploadBps !== undefined) {
+    lines.push(`- Throughput: down ${formatRate(health.downloadBps)}, up ${formatRate(health.uploadBps)}`);
+  }
+  if (health.channels) {
+    const { active, max, queued } = health.channels;
+    lines.push(`- Channels: ${active}/${max} in use${queued > 0 ? `, ${queued} waiting` : ''}`);
+  }
+  if (health.drops > 0 || health.reconnects > 0) {
+    lines.push(`- Drops: ${health.drops}, reconnects: ${health.reconnects}`);
+  }
+  return lines;
+}
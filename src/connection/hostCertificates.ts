@@ -0,0 +1,111 @@
+import { Client } from 'ssh2';
+import { hostKeyType } from '../utils/knownHosts';
+import { decodeSshCertificate } from '../utils/sshCertificate';
+
+/**
+ * Host certificates on top of ssh2 1.x.
+ *
+ * ssh2 never offers the `*-cert-v01@openssh.com` host key algorithms, and
+ * could not use a certificate if a server sent one: it checks the key
+ * exchange signature against the presented blob, which for a certificate is
+ * the whole certificate, and expects the signature to be labelled with the
+ * certificate algorithm where OpenSSH labels it with the key's own
+ * (`ssh-ed25519`).
+ *
+ * enableHostCertificates() adds the certificate algorithms to the client's
+ * offer and, when the server presents a certificate, has ssh2 check the
+ * signature with the certified key. Whether the certificate is trusted is
+ * the hostVerifier's call (KnownHostsService.verifyHostKey).
+ *
+ * Only ed25519 and ECDSA host keys: ssh2 refuses an `ssh-rsa-cert-v01` blob
+ * under the negotiated `rsa-sha2-*-cert-v01` name before any of this runs,
+ * so RSA host certificates are never asked for. Like certificateAuth.ts this
+ * relies on ssh2 internals (the protocol's offer, host verifier and key
+ * exchange object), which is why ssh2 is pinned.
+ */
+
+const CERT_SUFFIX = '-cert-v01@openssh.com';
+
+/** Host key algorithms whose certificate form ssh2 can be taught to check */
+const CERTIFIABLE = ['ssh-ed25519', 'ecdsa-sha2-nistp256', 'ecdsa-sha2-nistp384', 'ecdsa-sha2-nistp521'];
+
+type KexList = { array: string[] };
+
+/**
+ * Ask the server for a host certificate, and accept one. Call right after
+ * `client.connect()`, before the handshake starts (it starts once the socket
+ * connects). A client whose ssh2 internals are not laid out as expected is
+ * left alone and negotiates plain host keys as before.
+ */
+export function enableHostCertificates(client: Client): void {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const proto = (client as any)._protocol;
+  const offer = proto?._offer;
+  const lists = offer?.lists;
+  const hostVerifier = proto?._hostVerifier;
+  if (!Array.isArray(lists?.serverHostKey?.array) || typeof hostVerifier !== 'function' || proto._kexinit !== undefined) {
+    return;
+  }
+  const plain: string[] = lists.serverHostKey.array;
+  const certificates = plain.filter((algo) => CERTIFIABLE.includes(algo)).map((algo) => algo + CERT_SUFFIX);
+  if (certificates.length === 0) {
+    return;
+  }
+
+  const both = (side: Record<string, KexList>) => ({
+    cipher: side.cipher.array,
+    mac: side.mac.array,
+    compress: side.compress.array,
+    lang: side.lang.array,
+  });
+  // OpenSSH lists certificate algorithms first, so a server that has a certificate sends it
+  proto._offer = new offer.constructor({
+    kex: lists.kex.array,
+    serverHostKey: [...certificates, ...plain],
+    cs: both(lists.cs),
+    sc: both(lists.sc),
+  });
+
+  proto._hostVerifier = (key: Buffer, verify: (valid: boolean) => void): unknown => {
+    const type = hostKeyType(key);
+    if (type.endsWith(CERT_SUFFIX) && !checkWithCertifiedKey(proto._kex, key, type.slice(0, -CERT_SUFFIX.length))) {
+      client.emit('error', new Error('Host certificates are not supported by this ssh2 version (key exchange state not found)'));
+      client.end();
+      return undefined;
+    }
+    return hostVerifier(key, verify);
+  };
+}
+
+/**
+ * Make the running key exchange verify the server's signature with the key
+ * inside the certificate. ssh2's finish() hashes the presented blob into the
+ * exchange hash, then asks for our own DH public key, then parses the host
+ * key and checks the signature type: the swap happens at that middle step.
+ */
+function checkWithCertifiedKey(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  kex: any,
+  certificate: Buffer,
+  signatureAlgo: string
+): boolean {
+  if (typeof kex?.getPublicKey !== 'function' || typeof kex.negotiated !== 'object') {
+    return false;
+  }
+  let certified: Buffer;
+  try {
+    certified = decodeSshCertificate(certificate).publicKey;
+  } catch {
+    // Unreadable: ssh2 fails the handshake on it, and the host verifier refuses it
+    return true;
+  }
+  const getPublicKey = kex.getPublicKey;
+  kex.getPublicKey = function (this: typeof kex, ...args: unknown[]) {
+    if (this._hostKey === certificate) {
+      this._hostKey = certified;
+      this.negotiated.serverHostKey = signatureAlgo;
+    }
+    return getPublicKey.apply(this, args);
+  };
+  return true;
+}
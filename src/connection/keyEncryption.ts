@@ -31,6 +31,16 @@ export function isPrivateKeyEncrypted(keyData: string | Buffer): boolean {
   return false;
 }
 
+/**
+ * True if `passphrase` unlocks the key, checked with the same ssh2 parser the
+ * connection uses. Lets a wrong saved or typed passphrase be caught before
+ * connecting: inside an ssh2 authHandler an unreadable key is skipped
+ * silently rather than reported.
+ */
+export function isKeyPassphraseValid(keyData: string | Buffer, passphrase: string): boolean {
+  return !(ssh2Utils.parseKey(keyData, passphrase) instanceof Error);
+}
+
 /**
  * True if a connection error means the private key could not be decrypted with
  * the supplied passphrase — i.e. the passphrase was wrong, empty, or missing.
@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import { resetWindowMocks } from '../__mocks__/vscode';
+import { KeyboardInteractiveResponder } from './keyboardInteractive';
+import { parseTotpSecret, generateTotp, totpCounter } from '../utils/totp';
+
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const password = { prompt: 'Password: ', echo: false };
+const code = { prompt: 'Verification code: ', echo: false };
+
+function responder(overrides: Partial<ConstructorParameters<typeof KeyboardInteractiveResponder>[0]> = {}) {
+  return new KeyboardInteractiveResponder({ label: 'alice@web:22', interactive: true, ...overrides });
+}
+
+describe('KeyboardInteractiveResponder', () => {
+  beforeEach(() => {
+    resetWindowMocks();
+    jest.useRealTimers();
+  });
+
+  it('answers an empty round with no answers', async () => {
+    await expect(responder().respond('', '', [])).resolves.toEqual([]);
+  });
+
+  it('sends the saved password once, then asks the user if the server asks again', async () => {
+    const r = responder({ password: 'pw' });
+    await expect(r.respond('', '', [password])).resolves.toEqual(['pw']);
+
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('typed');
+    await expect(r.respond('', '', [password])).resolves.toEqual(['typed']);
+    expect(vscode.window.showInputBox).toHaveBeenCalledWith(expect.objectContaining({ password: true, prompt: 'Password:' }));
+  });
+
+  it('fills the verification code from the TOTP secret', async () => {
+    const r = responder({ password: 'pw', totpSecret: `otpauth://totp/x?secret=${SECRET}&period=300` });
+    const params = parseTotpSecret(`otpauth://totp/x?secret=${SECRET}&period=300`);
+    const answers = await r.respond('', '', [password, code]);
+    expect(answers).toEqual(['pw', generateTotp(params, totpCounter(params))]);
+    expect(r.codeSent).toBe(true);
+    expect(vscode.window.showInputBox).not.toHaveBeenCalled();
+  });
+
+  it('waits for the next time step rather than sending a code twice', async () => {
+    jest.useFakeTimers({ now: 1_000_000_000_000 });
+    const pause = jest.fn();
+    const first = responder({ totpSecret: SECRET, pauseTimeout: pause });
+    const firstCode = (await first.respond('', '', [code])) as string[];
+
+    const second = responder({ totpSecret: SECRET, pauseTimeout: pause });
+    const pending = second.respond('', '', [code]);
+    await jest.advanceTimersByTimeAsync(31_000);
+    const secondCode = (await pending) as string[];
+
+    expect(secondCode[0]).not.toBe(firstCode[0]);
+    expect(pause.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('shows other prompts to the user, echoing when the server allows it and holding the timeout meanwhile', async () => {
+    const pause = jest.fn();
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('blue');
+    const r = responder({ pauseTimeout: pause });
+    await expect(r.respond('Security', 'Answer the question', [{ prompt: 'Favourite colour? ', echo: true }])).resolves.toEqual(['blue']);
+    expect(vscode.window.showInputBox).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Security (alice@web:22)',
+      prompt: 'Answer the question — Favourite colour?',
+      password: false,
+    }));
+    expect(pause.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('marks a code typed by the user as sent', async () => {
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('123456');
+    const r = responder();
+    await r.respond('', '', [code]);
+    expect(r.codeSent).toBe(true);
+  });
+
+  it('reports a dismissed prompt as cancelled', async () => {
+    await expect(responder().respond('', '', [code])).resolves.toBe('cancelled');
+  });
+
+  it('never prompts when not interactive', async () => {
+    await expect(responder({ interactive: false, password: 'pw' }).respond('', '', [password, code])).resolves.toBe('needs-user');
+    expect(vscode.window.showInputBox).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import { Prompt } from 'ssh2';
+import { TotpParams, parseTotpSecret, generateTotp, totpCounter } from '../utils/totp';
+
+/**
+ * Answers to one keyboard-interactive round, or why there are none:
+ * - `cancelled`: the user dismissed a prompt
+ * - `needs-user`: a prompt needs a human but the caller said not to ask (auto-reconnect)
+ */
+export type KeyboardInteractiveOutcome = string[] | 'cancelled' | 'needs-user';
+
+export interface KeyboardInteractiveOptions {
+  /** `user@host:port`, shown in the input box title */
+  label: string;
+  /** Saved password — sent once, to the first password prompt */
+  password?: string;
+  /** TOTP secret (base32 or otpauth:// URI) — fills the first verification-code prompt */
+  totpSecret?: string;
+  /** false during auto-reconnect: never show an input box */
+  interactive: boolean;
+  /** Called around every wait on the user (or the next TOTP step) so the caller can hold its connect timeout */
+  pauseTimeout?: (paused: boolean) => void;
+}
+
+const PASSWORD_PROMPT = /pass(word|phrase)/i;
+const CODE_PROMPT = /verification|one[- ]?time|\b(t?otp|2fa|mfa)\b|authenticator|two[- ]factor|passcode|token|\bcode\b/i;
+
+/** Last time step a code was sent for, per TOTP key: PAM modules refuse the same code twice. */
+const lastCodeStep = new Map<string, number>();
+
+/**
+ * Answers the prompts of PAM-style keyboard-interactive logins (password,
+ * then "Verification code:", or anything else the server asks).
+ *
+ * The saved password and the TOTP code are each sent automatically once;
+ * a server that asks again (wrong password, rejected code) gets the user's
+ * answer instead of the same value on repeat. Every other prompt is shown
+ * to the user, masked unless the server asked for echo.
+ */
+export class KeyboardInteractiveResponder {
+  private readonly totp: TotpParams | undefined;
+  private passwordSent = false;
+  private autoCodeSent = false;
+  /** A one-time code went out, so a failed login may be down to the code rather than the password */
+  codeSent = false;
+
+  constructor(private readonly options: KeyboardInteractiveOptions) {
+    try {
+      this.totp = options.totpSecret ? parseTotpSecret(options.totpSecret) : undefined;
+    } catch {
+      this.totp = undefined; // validated when saved; an unreadable secret just means asking the user
+    }
+  }
+
+  async respond(name: string, instructions: string, prompts: Prompt[]): Promise<KeyboardInteractiveOutcome> {
+    const answers: string[] = [];
+    let usedPassword = false;
+    let usedCode = false;
+    for (const p of prompts) {
+      const isCode = CODE_PROMPT.test(p.prompt);
+      if (!p.echo && !isCode && PASSWORD_PROMPT.test(p.prompt) && this.options.password && !this.passwordSent) {
+        answers.push(this.options.password);
+        usedPassword = true;
+        continue;
+      }
+      if (isCode && this.totp && !this.autoCodeSent) {
+        answers.push(await this.nextCode(this.totp));
+        usedCode = true;
+        continue;
+      }
+      if (!this.options.interactive) {
+        return 'needs-user';
+      }
+      const answer = await this.ask(name, instructions, p);
+      if (answer === undefined) {
+        return 'cancelled';
+      }
+      this.codeSent = this.codeSent || isCode;
+      answers.push(answer);
+    }
+    this.passwordSent = this.passwordSent || usedPassword;
+    if (usedCode) {
+      this.autoCodeSent = true;
+      this.codeSent = true;
+    }
+    return answers;
+  }
+
+  private async nextCode(totp: TotpParams): Promise<string> {
+    const id = totp.key.toString('base64');
+    let step = totpCounter(totp);
+    if (lastCodeStep.get(id) === step) {
+      // This step's code was already used (e.g. reconnecting right after a login): wait for the next one
+      const waitMs = (step + 1) * totp.period * 1000 - Date.now() + 250;
+      this.options.pauseTimeout?.(true);
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+      this.options.pauseTimeout?.(false);
+      step = totpCounter(totp);
+    }
+    lastCodeStep.set(id, step);
+    return generateTotp(totp, step);
+  }
+
+  private async ask(name: string, instructions: string, p: Prompt): Promise<string | undefined> {
+    const text = p.prompt.trim();
+    this.options.pauseTimeout?.(true);
+    try {
+      return await vscode.window.showInputBox({
+        title: name ? `${name} (${this.options.label})` : `SSH Lite: ${this.options.label}`,
+        prompt: instructions?.trim() ? `${instructions.trim()} — ${text}` : text,
+        password: !p.echo,
+        ignoreFocusOut: true,
+      });
+    } finally {
+      this.options.pauseTimeout?.(false);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * sftpFind — filename search over SFTP listings, checked against the
+ * `find -iname '*pattern*'` semantics of the legacy search command. The
+ * directory reader is an in-memory tree.
+ */
+
+import { globToRegExp, sftpFindFiles, SftpFindEntry, SftpReaddir } from './sftpFind';
+import { FilenameSearchOpts } from './searchCommandBuilder';
+
+const TREE: Record<string, SftpFindEntry[]> = {
+  '/srv': [
+    { name: 'README.md', kind: 'file' },
+    { name: 'app', kind: 'directory' },
+    { name: 'node_modules', kind: 'directory' },
+    { name: 'current', kind: 'other' }, // symlink → app
+  ],
+  '/srv/app': [
+    { name: 'readme.txt', kind: 'file' },
+    { name: 'Readme-old', kind: 'directory' },
+    { name: 'secret', kind: 'directory' },
+  ],
+  '/srv/app/Readme-old': [{ name: 'notes', kind: 'file' }],
+  '/srv/node_modules': [{ name: 'readme.md', kind: 'file' }],
+};
+
+function reader(tree = TREE): SftpReaddir & jest.Mock {
+  return jest.fn(async (dir: string) => {
+    if (dir === '/srv/app/secret') {
+      throw new Error('Permission denied');
+    }
+    return tree[dir] ?? [];
+  });
+}
+
+function opts(overrides: Partial<FilenameSearchOpts> = {}): FilenameSearchOpts {
+  return {
+    pattern: 'readme',
+    searchPaths: ['/srv'],
+    caseSensitive: false,
+    excludePattern: '',
+    maxResults: 0,
+    findType: 'f',
+    ...overrides,
+  };
+}
+
+describe('globToRegExp', () => {
+  it('handles *, ? and character classes', () => {
+    expect(globToRegExp('*.ts', true).test('index.ts')).toBe(true);
+    expect(globToRegExp('*.ts', true).test('index.tsx')).toBe(false);
+    expect(globToRegExp('file?.log', true).test('file1.log')).toBe(true);
+    expect(globToRegExp('[ab]*', true).test('beta')).toBe(true);
+    expect(globToRegExp('[!ab]*', true).test('beta')).toBe(false);
+  });
+
+  it('treats regex characters literally', () => {
+    expect(globToRegExp('a+b(1).txt', true).test('a+b(1).txt')).toBe(true);
+    expect(globToRegExp('a.b', true).test('axb')).toBe(false);
+    expect(globToRegExp('[x', true).test('[x')).toBe(true);
+  });
+
+  it('ignores case unless asked not to', () => {
+    expect(globToRegExp('*README*', false).test('readme.txt')).toBe(true);
+    expect(globToRegExp('*README*', true).test('readme.txt')).toBe(false);
+  });
+});
+
+describe('sftpFindFiles', () => {
+  it('finds matching files at every depth, skipping unreadable directories', async () => {
+    const found = await sftpFindFiles(reader(), opts());
+
+    expect(found).toEqual(['/srv/README.md', '/srv/app/readme.txt', '/srv/node_modules/readme.md']);
+  });
+
+  it('does not follow symlinks or list special files', async () => {
+    const readdir = reader();
+
+    await sftpFindFiles(readdir, opts({ pattern: 'current', findType: 'both' }));
+
+    expect(readdir).not.toHaveBeenCalledWith('/srv/current');
+  });
+
+  it('prunes excluded names without listing them', async () => {
+    const readdir = reader();
+
+    const found = await sftpFindFiles(readdir, opts({ excludePattern: 'node_modules, *.md' }));
+
+    expect(found).toEqual(['/srv/app/readme.txt']);
+    expect(readdir).not.toHaveBeenCalledWith('/srv/node_modules');
+  });
+
+  it('follows findType and case sensitivity', async () => {
+    expect(await sftpFindFiles(reader(), opts({ findType: 'd' }))).toEqual(['/srv/app/Readme-old']);
+    expect(await sftpFindFiles(reader(), opts({ findType: 'both', caseSensitive: true, pattern: 'Readme' }))).toEqual([
+      '/srv/app/Readme-old',
+    ]);
+  });
+
+  it('stops at maxResults', async () => {
+    expect(await sftpFindFiles(reader(), opts({ maxResults: 2 }))).toHaveLength(2);
+  });
+
+  it('searches several roots', async () => {
+    const found = await sftpFindFiles(reader(), opts({ searchPaths: ['/srv/app', '/srv/node_modules'] }));
+
+    expect(found).toEqual(['/srv/app/readme.txt', '/srv/node_modules/readme.md']);
+  });
+
+  it('stops listing once aborted', async () => {
+    const readdir = reader();
+
+    const found = await sftpFindFiles(readdir, opts(), () => true);
+
+    expect(found).toEqual([]);
+    expect(readdir).not.toHaveBeenCalled();
+  });
+});
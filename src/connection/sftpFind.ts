@@ -0,0 +1,103 @@
+// src/connection/sftpFind.ts
+//
+// Filename search over SFTP directory listings, for servers that only allow
+// SFTP (no find). NO ssh2 / vscode imports — the directory reader is passed
+// in, so the walk can be unit-tested without a connection. It mirrors the
+// legacy `find <paths> \( -name <exclude> \) -prune -o -type f -iname
+// '*pattern*' -print` that buildFilenameSearchCommand() produces: same glob
+// semantics, excluded names pruned, symlinks not followed, unreadable
+// directories skipped (find's `2>/dev/null`).
+
+import { FilenameSearchOpts } from './searchCommandBuilder';
+
+export interface SftpFindEntry {
+  name: string;
+  /** From the entry's mode bits; symlinks and special files are 'other' */
+  kind: 'file' | 'directory' | 'other';
+}
+
+/** List one directory; rejects when it cannot be read */
+export type SftpReaddir = (dirPath: string) => Promise<SftpFindEntry[]>;
+
+/** Directories listed at once — SFTP requests pipeline over the one channel */
+const READDIR_CONCURRENCY = 8;
+
+/**
+ * Compile a find-style glob (`*`, `?`, `[...]`, `[!...]`) into an anchored
+ * RegExp matched against a basename.
+ */
+export function globToRegExp(glob: string, caseSensitive: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*') {
+      source += '.*';
+    } else if (c === '?') {
+      source += '.';
+    } else if (c === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close === -1) {
+        source += '\\[';
+        continue;
+      }
+      let body = glob.slice(i + 1, close);
+      const negate = body.startsWith('!');
+      if (negate) {
+        body = body.slice(1);
+      }
+      source += `[${negate ? '^' : ''}${body.replace(/[\\\]^]/g, '\\$&')}]`;
+      i = close;
+    } else {
+      source += c.replace(/[.+^${}()|\\\]]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, caseSensitive ? '' : 'i');
+}
+
+function joinPath(dir: string, name: string): string {
+  return dir.endsWith('/') ? `${dir}${name}` : `${dir}/${name}`;
+}
+
+/**
+ * Walk `opts.searchPaths` breadth-first and return the paths whose basename
+ * matches `*pattern*`, up to `opts.maxResults` (0 = unlimited).
+ */
+export async function sftpFindFiles(
+  readdir: SftpReaddir,
+  opts: FilenameSearchOpts,
+  isAborted: () => boolean = () => false,
+): Promise<string[]> {
+  const match = globToRegExp(`*${opts.pattern}*`, opts.caseSensitive);
+  const excludes = opts.excludePattern
+    .split(',')
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => globToRegExp(p, true));
+  const wantFiles = opts.findType !== 'd';
+  const wantDirs = opts.findType !== 'f';
+  const limit = opts.maxResults > 0 ? opts.maxResults : Infinity;
+
+  const results: string[] = [];
+  let queue = [...opts.searchPaths];
+  while (queue.length > 0 && results.length < limit && !isAborted()) {
+    const batch = queue.slice(0, READDIR_CONCURRENCY);
+    queue = queue.slice(READDIR_CONCURRENCY);
+    const listings = await Promise.all(batch.map((dir) => readdir(dir).catch(() => [] as SftpFindEntry[])));
+    for (let i = 0; i < batch.length; i++) {
+      for (const entry of listings[i]) {
+        if (entry.name === '.' || entry.name === '..' || excludes.some((re) => re.test(entry.name))) {
+          continue;
+        }
+        const entryPath = joinPath(batch[i], entry.name);
+        const wanted = entry.kind === 'directory' ? wantDirs : entry.kind === 'file' && wantFiles;
+        if (wanted && match.test(entry.name) && results.length < limit) {
+          results.push(entryPath);
+        }
+        if (entry.kind === 'directory') {
+          queue.push(entryPath);
+        }
+      }
+    }
+  }
+  return results;
+}
@@ -0,0 +1,150 @@
+/**
+ * SOCKS5 handshake tests: the pure parsers, then readSocksRequest() over a
+ * real loopback socket the way curl / a browser would drive it.
+ */
+
+import * as net from 'net';
+import {
+  parseSocksGreeting,
+  parseSocksRequest,
+  readSocksRequest,
+  sendSocksReply,
+  SOCKS_REPLY,
+  SocksProtocolError,
+  SocksRequest,
+} from './socks5';
+
+function connectRequest(atyp: number, addr: number[], port: number): Buffer {
+  return Buffer.from([5, 1, 0, atyp, ...addr, port >> 8, port & 0xff]);
+}
+
+describe('parseSocksGreeting', () => {
+  it('waits for the full method list', () => {
+    expect(parseSocksGreeting(Buffer.from([5]))).toBeUndefined();
+    expect(parseSocksGreeting(Buffer.from([5, 2, 0]))).toBeUndefined();
+  });
+
+  it('returns the bytes used when no-auth is offered', () => {
+    expect(parseSocksGreeting(Buffer.from([5, 2, 2, 0, 0xaa]))).toBe(4);
+  });
+
+  it('rejects SOCKS4 and auth-only clients', () => {
+    expect(() => parseSocksGreeting(Buffer.from([4, 1, 0]))).toThrow(SocksProtocolError);
+    expect(() => parseSocksGreeting(Buffer.from([5, 1, 2]))).toThrow('requires authentication');
+  });
+});
+
+describe('parseSocksRequest', () => {
+  it('parses an IPv4 CONNECT', () => {
+    expect(parseSocksRequest(connectRequest(1, [10, 0, 1, 5], 8080))).toEqual({
+      request: { host: '10.0.1.5', port: 8080 },
+      used: 10,
+    });
+  });
+
+  it('parses a domain CONNECT', () => {
+    const name = Buffer.from('admin.internal');
+    const buf = connectRequest(3, [name.length, ...name], 443);
+    expect(parseSocksRequest(buf)?.request).toEqual({ host: 'admin.internal', port: 443 });
+  });
+
+  it('parses an IPv6 CONNECT', () => {
+    const addr = [0x20, 0x01, 0x0d, 0xb8, ...new Array(11).fill(0), 1];
+    expect(parseSocksRequest(connectRequest(4, addr, 22))?.request).toEqual({ host: '2001:db8:0:0:0:0:0:1', port: 22 });
+  });
+
+  it('waits for a truncated request', () => {
+    const buf = connectRequest(1, [10, 0, 1, 5], 8080);
+    expect(parseSocksRequest(buf.subarray(0, 8))).toBeUndefined();
+  });
+
+  it('refuses BIND and unknown address types with the matching reply code', () => {
+    const bind = Buffer.from([5, 2, 0, 1, 127, 0, 0, 1, 0, 80]);
+    expect(() => parseSocksRequest(bind)).toThrow(expect.objectContaining({ reply: SOCKS_REPLY.commandNotSupported }));
+    const badType = Buffer.from([5, 1, 0, 9, 0, 0]);
+    expect(() => parseSocksRequest(badType)).toThrow(expect.objectContaining({ reply: SOCKS_REPLY.addressTypeNotSupported }));
+  });
+});
+
+describe('readSocksRequest', () => {
+  let server: net.Server;
+  let port: number;
+  let onSocket: (socket: net.Socket) => void;
+
+  beforeEach(async () => {
+    server = net.createServer((socket) => onSocket(socket));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  /** Connect a client, send `chunks` one write at a time, collect everything received until close. */
+  function runClient(chunks: Buffer[]): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const received: Buffer[] = [];
+      const client = net.connect(port, '127.0.0.1', async () => {
+        for (const chunk of chunks) {
+          client.write(chunk);
+          await new Promise((r) => setTimeout(r, 5));
+        }
+      });
+      client.on('data', (d) => received.push(d));
+      client.on('error', reject);
+      client.on('close', () => resolve(Buffer.concat(received)));
+    });
+  }
+
+  it('completes the handshake and keeps data sent ahead of the reply', async () => {
+    let request: SocksRequest | undefined;
+    let afterReply = '';
+    onSocket = (socket) => {
+      readSocksRequest(socket).then((req) => {
+        request = req;
+        sendSocksReply(socket, SOCKS_REPLY.succeeded);
+        socket.on('data', (d) => {
+          afterReply += d.toString();
+          socket.end();
+        });
+        socket.resume();
+      });
+    };
+
+    const name = Buffer.from('example.test');
+    const received = await runClient([
+      Buffer.from([5, 1, 0]),
+      Buffer.concat([connectRequest(3, [name.length, ...name], 80), Buffer.from('GET /')]),
+    ]);
+
+    expect(request).toEqual({ host: 'example.test', port: 80 });
+    expect(afterReply).toBe('GET /');
+    expect([...received.subarray(0, 2)]).toEqual([5, 0]);
+    expect([...received.subarray(2, 4)]).toEqual([5, SOCKS_REPLY.succeeded]);
+  });
+
+  it('answers "no acceptable method" and rejects when auth is required', async () => {
+    let error: Error | undefined;
+    onSocket = (socket) => {
+      readSocksRequest(socket).catch((err) => (error = err));
+    };
+
+    const received = await runClient([Buffer.from([5, 1, 2])]);
+
+    expect([...received]).toEqual([5, 0xff]);
+    expect(error).toBeInstanceOf(SocksProtocolError);
+  });
+
+  it('answers "command not supported" for BIND', async () => {
+    let error: Error | undefined;
+    onSocket = (socket) => {
+      readSocksRequest(socket).catch((err) => (error = err));
+    };
+
+    const received = await runClient([Buffer.from([5, 1, 0]), Buffer.from([5, 2, 0, 1, 127, 0, 0, 1, 0, 80])]);
+
+    expect(received[3]).toBe(SOCKS_REPLY.commandNotSupported);
+    expect(error?.message).toContain('Unsupported SOCKS5 command');
+  });
+});
@@ -0,0 +1,179 @@
+import * as net from 'net';
+
+/**
+ * Server side of the SOCKS5 handshake (RFC 1928) for dynamic forwards
+ * (`ssh -D`): no authentication, CONNECT only — what browsers and curl use.
+ * The tunnel itself is opened by the caller once the destination is known.
+ */
+
+export interface SocksRequest {
+  host: string;
+  port: number;
+}
+
+/** Reply codes sent back to the SOCKS client */
+export const SOCKS_REPLY = {
+  succeeded: 0x00,
+  generalFailure: 0x01,
+  hostUnreachable: 0x04,
+  connectionRefused: 0x05,
+  commandNotSupported: 0x07,
+  addressTypeNotSupported: 0x08,
+} as const;
+
+const VERSION = 0x05;
+const NO_AUTH = 0x00;
+const NO_ACCEPTABLE_METHOD = 0xff;
+const CMD_CONNECT = 0x01;
+const ATYP_IPV4 = 0x01;
+const ATYP_DOMAIN = 0x03;
+const ATYP_IPV6 = 0x04;
+
+/** A protocol violation; `reply` is what to answer before closing (none for a bad greeting). */
+export class SocksProtocolError extends Error {
+  constructor(message: string, public readonly reply?: number) {
+    super(message);
+    this.name = 'SocksProtocolError';
+  }
+}
+
+/**
+ * Parse the greeting (`VER NMETHODS METHODS…`). Returns the bytes it used,
+ * or undefined if more are needed. Throws unless "no authentication" is offered.
+ */
+export function parseSocksGreeting(buf: Buffer): number | undefined {
+  if (buf.length < 2) {
+    return undefined;
+  }
+  if (buf[0] !== VERSION) {
+    throw new SocksProtocolError(`Not a SOCKS5 client (version ${buf[0]})`);
+  }
+  const used = 2 + buf[1];
+  if (buf.length < used) {
+    return undefined;
+  }
+  if (!buf.subarray(2, used).includes(NO_AUTH)) {
+    throw new SocksProtocolError('SOCKS client requires authentication');
+  }
+  return used;
+}
+
+/**
+ * Parse a request (`VER CMD RSV ATYP DST.ADDR DST.PORT`). Returns the
+ * destination and the bytes used, or undefined if more are needed.
+ */
+export function parseSocksRequest(buf: Buffer): { request: SocksRequest; used: number } | undefined {
+  if (buf.length < 5) {
+    return undefined;
+  }
+  if (buf[0] !== VERSION) {
+    throw new SocksProtocolError(`Bad SOCKS5 request version ${buf[0]}`, SOCKS_REPLY.generalFailure);
+  }
+  if (buf[1] !== CMD_CONNECT) {
+    throw new SocksProtocolError(`Unsupported SOCKS5 command ${buf[1]}`, SOCKS_REPLY.commandNotSupported);
+  }
+
+  let addrStart = 4;
+  let addrLen: number;
+  switch (buf[3]) {
+    case ATYP_IPV4:
+      addrLen = 4;
+      break;
+    case ATYP_IPV6:
+      addrLen = 16;
+      break;
+    case ATYP_DOMAIN:
+      addrStart = 5;
+      addrLen = buf[4];
+      break;
+    default:
+      throw new SocksProtocolError(`Unsupported SOCKS5 address type ${buf[3]}`, SOCKS_REPLY.addressTypeNotSupported);
+  }
+  const used = addrStart + addrLen + 2;
+  if (buf.length < used) {
+    return undefined;
+  }
+
+  const addr = buf.subarray(addrStart, addrStart + addrLen);
+  let host: string;
+  if (buf[3] === ATYP_IPV4) {
+    host = Array.from(addr).join('.');
+  } else if (buf[3] === ATYP_IPV6) {
+    const groups: string[] = [];
+    for (let i = 0; i < 16; i += 2) {
+      groups.push(addr.readUInt16BE(i).toString(16));
+    }
+    host = groups.join(':');
+  } else {
+    host = addr.toString('latin1');
+  }
+  return { request: { host, port: buf.readUInt16BE(addrStart + addrLen) }, used };
+}
+
+/** Answer a request; the bound address is not meaningful for a tunnel, so it is all zeros. */
+export function sendSocksReply(socket: net.Socket, reply: number): void {
+  socket.write(Buffer.from([VERSION, reply, 0x00, ATYP_IPV4, 0, 0, 0, 0, 0, 0]));
+}
+
+/**
+ * Run the handshake on a freshly accepted socket and resolve with the
+ * requested destination. The socket is left paused with any bytes the client
+ * sent ahead of the reply pushed back, ready to be piped once the caller has
+ * answered with sendSocksReply(). On a protocol error the client is answered
+ * (where SOCKS allows it), the socket closed, and the promise rejected.
+ */
+export function readSocksRequest(socket: net.Socket): Promise<SocksRequest> {
+  return new Promise((resolve, reject) => {
+    let buf = Buffer.alloc(0);
+    let greeted = false;
+
+    const finish = (err?: Error, request?: SocksRequest): void => {
+      socket.removeListener('data', onData);
+      socket.removeListener('close', onClose);
+      if (err) {
+        reject(err);
+      } else {
+        resolve(request!);
+      }
+    };
+
+    const onClose = (): void => finish(new SocksProtocolError('SOCKS client closed during handshake'));
+
+    const onData = (chunk: Buffer): void => {
+      buf = Buffer.concat([buf, chunk]);
+      try {
+        if (!greeted) {
+          const used = parseSocksGreeting(buf);
+          if (used === undefined) {
+            return;
+          }
+          greeted = true;
+          buf = buf.subarray(used);
+          socket.write(Buffer.from([VERSION, NO_AUTH]));
+        }
+        const parsed = parseSocksRequest(buf);
+        if (!parsed) {
+          return;
+        }
+        socket.pause();
+        const rest = buf.subarray(parsed.used);
+        if (rest.length) {
+          socket.unshift(rest);
+        }
+        finish(undefined, parsed.request);
+      } catch (err) {
+        const reply = (err as SocksProtocolError).reply;
+        if (!greeted) {
+          socket.write(Buffer.from([VERSION, NO_ACCEPTABLE_METHOD]));
+        } else if (reply !== undefined) {
+          sendSocksReply(socket, reply);
+        }
+        socket.end();
+        finish(err as Error);
+      }
+    };
+
+    socket.on('data', onData);
+    socket.on('close', onClose);
+  });
+}
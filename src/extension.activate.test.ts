@@ -80,22 +80,25 @@ describe('extension.activate — regression net for v0.8.10 tree-view-fail-to-re
   });
 
   describe('happy path', () => {
-    it('registers all 4 tree views with the expected viewIds and records zero failures', () => {
+    it('registers all 7 tree views with the expected viewIds and records zero failures', () => {
       const context = makeMockContext();
       const createTreeView = vscode.window.createTreeView as jest.Mock;
 
       activate(context);
 
-      // All 4 SSH Lite tree views must register — the v0.8.10 bug was that
+      // All 7 SSH Lite tree views must register — the v0.8.10 bug was that
       // ZERO of these calls happened because activate() crashed earlier.
-      expect(createTreeView).toHaveBeenCalledTimes(4);
+      expect(createTreeView).toHaveBeenCalledTimes(7);
 
       const viewIds = createTreeView.mock.calls.map((args) => args[0]).sort();
       expect(viewIds).toEqual([
         'sshLite.activity',
         'sshLite.fileExplorer',
+        'sshLite.folderCompare',
         'sshLite.hosts',
+        'sshLite.knownHosts',
         'sshLite.portForwards',
+        'sshLite.transfers',
       ]);
 
       expect(__testGetActivateFailures()).toEqual([]);
@@ -185,7 +188,7 @@ describe('extension.activate — regression net for v0.8.10 tree-view-fail-to-re
   });
 
   describe('degraded path — one service init throws', () => {
-    it('still registers all 4 trees, records the failure, and shows one error notification', () => {
+    it('still registers all 7 trees, records the failure, and shows one error notification', () => {
       const context = makeMockContext();
       const createTreeView = vscode.window.createTreeView as jest.Mock;
       const showErrorMessage = vscode.window.showErrorMessage as jest.Mock;
@@ -198,14 +201,17 @@ describe('extension.activate — regression net for v0.8.10 tree-view-fail-to-re
 
       activate(context);
 
-      // The OTHER 3 trees still register — this is the whole point of safeStep.
-      expect(createTreeView).toHaveBeenCalledTimes(4);
+      // The OTHER trees still register — this is the whole point of safeStep.
+      expect(createTreeView).toHaveBeenCalledTimes(7);
       const viewIds = createTreeView.mock.calls.map((args) => args[0]).sort();
       expect(viewIds).toEqual([
         'sshLite.activity',
         'sshLite.fileExplorer',
+        'sshLite.folderCompare',
         'sshLite.hosts',
+        'sshLite.knownHosts',
         'sshLite.portForwards',
+        'sshLite.transfers',
       ]);
 
       // The failure is recorded so the end-of-activate summary fires.
@@ -3,25 +3,39 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import { ConnectionManager } from './connection/ConnectionManager';
-import { SSHConnection, setGlobalState } from './connection/SSHConnection';
+import { SSHConnection } from './connection/SSHConnection';
+import { describeHealthStatus, formatHealthLines, healthSeverity } from './connection/connectionHealth';
 import { isPrivateKeyEncrypted, isKeyPassphraseError } from './connection/keyEncryption';
 import { pickPrivateKeyPath } from './utils/keyFilePicker';
+import { certificatePathFor, readSshCertificate } from './utils/sshCertificate';
 import { HostService } from './services/HostService';
 import { FileService } from './services/FileService';
 import { TerminalService } from './services/TerminalService';
 import { PortForwardService } from './services/PortForwardService';
 import { CredentialService } from './services/CredentialService';
+import { KnownHostsService } from './services/KnownHostsService';
 import { GoogleDriveSyncService } from './services/GoogleDriveSyncService';
 import { AuditService } from './services/AuditService';
 import { ServerMonitorService, showMonitorQuickPick } from './services/ServerMonitorService';
 import { FolderHistoryService } from './services/FolderHistoryService';
 import { FilenameIndexService } from './services/FilenameIndexService';
 import { RemoteClipboardService } from './services/RemoteClipboardService';
+import { RemoteUndoService } from './services/RemoteUndoService';
 import { SnippetService } from './services/SnippetService';
+import { FolderSyncService } from './services/FolderSyncService';
 import { CommandGuard } from './services/CommandGuard';
 import { RemoteEnvDocumentProvider, RemoteCronDocumentProvider, ENV_SCHEME, CRON_SCHEME } from './providers/VirtualDocProviders';
+import { RemoteFileSystemProvider, FS_SCHEME, buildRemoteUri } from './providers/RemoteFileSystemProvider';
 import { registerSshToolsCommands } from './commands/sshToolsCommands';
 import { registerConnectionSyncCommands } from './commands/connectionSyncCommands';
+import { registerKnownHostsCommands } from './commands/knownHostsCommands';
+import { registerFolderSyncCommands } from './commands/folderSyncCommands';
+import { registerTransferCommands } from './commands/transferCommands';
+import { registerFolderCompareCommands } from './commands/folderCompareCommands';
+import { registerRemoteUndoCommands } from './commands/remoteUndoCommands';
+import { registerTerminalSessionCommands } from './commands/terminalSessionCommands';
+import { registerTerminalBroadcastCommands } from './commands/terminalBroadcastCommands';
+import { PersistentSessionService } from './services/PersistentSessionService';
 import { ProgressiveDownloadManager } from './services/ProgressiveDownloadManager';
 import { BeaconService } from './services/BeaconService';
 import { AiActivityWatchService } from './services/AiActivityWatchService';
@@ -31,15 +45,22 @@ import { HousekeepingService } from './services/HousekeepingService';
 import { RemoteDiffService, DIFF_TMP_PREFIX } from './services/RemoteDiffService';
 import { HostTreeProvider, ServerTreeItem, UserCredentialTreeItem, CredentialTreeItem, PinnedFolderTreeItem, setExtensionPath } from './providers/HostTreeProvider';
 import { SavedCredential, PinnedFolder } from './services/CredentialService';
-import { IHostConfig, ConnectionState } from './types';
+import { IHostConfig, ConnectionState, IRemoteAccount } from './types';
 import { FileTreeProvider, FileTreeItem, ConnectionTreeItem, ReconnectingConnectionTreeItem, ParentFolderTreeItem, setFileTreeExtensionPath, FilterMode } from './providers/FileTreeProvider';
 import { PortForwardTreeProvider, PortForwardTreeItem, SavedForwardTreeItem } from './providers/PortForwardTreeProvider';
+import { KnownHostsTreeProvider } from './providers/KnownHostsTreeProvider';
 import { ActivityTreeProvider, ActivityTreeItem, ServerGroupTreeItem } from './providers/ActivityTreeProvider';
 import { ActivityService } from './services/ActivityService';
+import { TransferTreeProvider, describeSummary } from './providers/TransferTreeProvider';
+import { FolderCompareTreeProvider, describeComparison } from './providers/FolderCompareTreeProvider';
+import { FolderCompareService } from './services/FolderCompareService';
+import { TransferQueueService } from './services/TransferQueueService';
 import { SearchPanel, ServerSearchEntry } from './webviews/SearchPanel';
 import { SupportViewProvider } from './webviews/SupportViewProvider';
 import { DonatePanel } from './webviews/DonatePanel';
+import { PropertiesPanel } from './webviews/PropertiesPanel';
 import { SSHFileDecorationProvider } from './providers/FileDecorationProvider';
+import { RemoteTerminalLinkProvider } from './providers/RemoteTerminalLinkProvider';
 import { ProgressiveFileContentProvider } from './providers/ProgressiveFileContentProvider';
 import { PROGRESSIVE_PREVIEW_SCHEME, parsePreviewUri } from './types/progressive';
 import { formatFileSize, formatRelativeTime, normalizeLocalPath, expandPath } from './utils/helpers';
@@ -47,8 +68,9 @@ import { parseHostInfoFromPath as parseHostInfo, isInSshTempDir, hasSshPrefix }
 import { setDiagOutputChannel, refreshDiagEnabled, infoLog } from './utils/diagnosticLog';
 import { setTabPrefixMode, TabPrefixMode } from './utils/connectionPrefix';
 import { resolveTreeSelection } from './utils/treeSelection';
-import { ensureCapability, hasCapability, ConnectionCapabilityKey } from './utils/capabilityGuard';
+import { canFindFilenames, ensureCapability, hasCapability, ConnectionCapabilityKey } from './utils/capabilityGuard';
 import { expandAllInViews, expandFirstLevelInViews, ExpandableTreeView } from './utils/treeExpand';
+import { parseTotpSecret } from './utils/totp';
 
 let outputChannel: vscode.OutputChannel;
 
@@ -141,6 +163,32 @@ async function promptPrivateKeyAuth(
   return { privateKeyPath: keyPathInput, passphrase };
 }
 
+/**
+ * Prompt for the OpenSSH certificate that goes with a private key, defaulting
+ * to the `<key>-cert.pub` OpenSSH itself would use. Returns `undefined` if the
+ * user cancels or the file is not a readable certificate.
+ */
+async function promptCertificatePath(privateKeyPath: string, username: string): Promise<string | undefined> {
+  const certPath = await vscode.window.showInputBox({
+    prompt: 'Path to the OpenSSH certificate (-cert.pub) for this key',
+    value: certificatePathFor(privateKeyPath),
+    ignoreFocusOut: true,
+  });
+  if (!certPath) return undefined;
+
+  const cert = readSshCertificate(expandPath(certPath));
+  if (!cert) {
+    vscode.window.showErrorMessage(`Not a readable OpenSSH certificate: ${certPath}`);
+    return undefined;
+  }
+  if (cert.principals.length && !cert.principals.includes(username)) {
+    vscode.window.showWarningMessage(
+      `The certificate is for ${cert.principals.join(', ')}, not ${username}; the server may refuse it.`
+    );
+  }
+  return certPath;
+}
+
 /**
  * Helper to select a connection from quick pick
  */
@@ -312,7 +360,7 @@ export function activate(context: vscode.ExtensionContext): void {
   // others (the v0.8.10 regression). Output channel shows exactly which step
   // failed so users can file precise bug reports.
   safeStep('credential-svc',   () => credentialService.initialize(context));
-  safeStep('global-state',     () => setGlobalState(context.globalState));
+  safeStep('known-hosts-svc',  () => KnownHostsService.getInstance().initialize(context));
   safeStep('connection-mgr',   () => connectionManager.initialize(context));
   safeStep('port-forward-svc', () => portForwardService.initialize(context));
 
@@ -320,6 +368,7 @@ export function activate(context: vscode.ExtensionContext): void {
   safeStep('folder-history-svc', () => folderHistoryService.initialize(context));
   safeStep('filename-index-svc', () => FilenameIndexService.getInstance().initialize(context));
   safeStep('snippet-svc',        () => SnippetService.getInstance().initialize(context));
+  safeStep('folder-sync-svc',    () => FolderSyncService.getInstance().initialize(context));
   safeStep('drive-sync-svc',     () => GoogleDriveSyncService.getInstance().initialize(context.secrets));
 
   // Register virtual-doc providers for env + cron viewers (SSH Tools)
@@ -332,6 +381,13 @@ export function activate(context: vscode.ExtensionContext): void {
     { dispose: () => cronProvider.dispose() },
   );
 
+  // sshlite://<connectionId>/<path> — remote folders as workspace folders
+  const remoteFsProvider = new RemoteFileSystemProvider();
+  context.subscriptions.push(
+    vscode.workspace.registerFileSystemProvider(FS_SCHEME, remoteFsProvider, { isCaseSensitive: true }),
+    { dispose: () => remoteFsProvider.dispose() },
+  );
+
   // Set extension path for custom icons
   setExtensionPath(context.extensionPath);
   setFileTreeExtensionPath(context.extensionPath);
@@ -350,8 +406,13 @@ export function activate(context: vscode.ExtensionContext): void {
   };
   const fileTreeProvider = new FileTreeProvider();
   const portForwardTreeProvider = new PortForwardTreeProvider();
+  const knownHostsTreeProvider = new KnownHostsTreeProvider();
   const activityTreeProvider = new ActivityTreeProvider();
   const activityService = ActivityService.getInstance();
+  const transferQueue = TransferQueueService.getInstance();
+  const transferTreeProvider = new TransferTreeProvider();
+  const folderCompare = FolderCompareService.getInstance();
+  const folderCompareTreeProvider = new FolderCompareTreeProvider();
 
   // Initialize progressive download system for large files
   const progressiveContentProvider = ProgressiveFileContentProvider.getInstance();
@@ -614,6 +675,45 @@ export function activate(context: vscode.ExtensionContext): void {
     })
   );
 
+  const transferTreeView = safeStep('transfer-tree-view', () =>
+    vscode.window.createTreeView('sshLite.transfers', {
+      treeDataProvider: transferTreeProvider,
+      showCollapseAll: false,
+    })
+  );
+  if (transferTreeView) {
+    // Aggregate throughput and ETA in the view title
+    context.subscriptions.push(
+      transferQueue.onDidChange(() => {
+        transferTreeView.description = describeSummary(transferQueue.getSummary()) || undefined;
+      })
+    );
+  }
+
+  const folderCompareTreeView = safeStep('folder-compare-tree-view', () =>
+    vscode.window.createTreeView('sshLite.folderCompare', {
+      treeDataProvider: folderCompareTreeProvider,
+      showCollapseAll: true,
+      canSelectMany: true,
+    })
+  );
+  if (folderCompareTreeView) {
+    // Both folders and what is left to reconcile in the view title
+    context.subscriptions.push(
+      folderCompare.onDidChange(() => {
+        const comparison = folderCompare.getComparison();
+        folderCompareTreeView.description = comparison ? describeComparison(comparison) : undefined;
+      })
+    );
+  }
+
+  const knownHostsTreeView = safeStep('known-hosts-tree-view', () =>
+    vscode.window.createTreeView('sshLite.knownHosts', {
+      treeDataProvider: knownHostsTreeProvider,
+      showCollapseAll: false,
+    })
+  );
+
   // Register file decoration provider for live-refresh tab indicators
   const fileDecorationProvider = new SSHFileDecorationProvider(fileService, connectionManager);
   context.subscriptions.push(
@@ -621,6 +721,11 @@ export function activate(context: vscode.ExtensionContext): void {
     fileDecorationProvider
   );
 
+  // Clickable remote paths (file:line:col too) in SSH terminal output
+  context.subscriptions.push(
+    vscode.window.registerTerminalLinkProvider(new RemoteTerminalLinkProvider(terminalService, connectionManager, fileService))
+  );
+
   // When filename filter is auto-cleared (e.g., during reveal-in-tree), sync decoration provider
   fileTreeProvider.setOnFilterCleared(() => {
     fileDecorationProvider.clearFilteredFolder();
@@ -812,6 +917,45 @@ export function activate(context: vscode.ExtensionContext): void {
   // Initial update
   updateSshFileInfo();
 
+  // Connection health status bar item: the active remote file's connection,
+  // otherwise the connected host in the worst shape
+  const healthStatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+  healthStatusBar.name = 'SSH Lite Connection Health';
+  healthStatusBar.command = 'sshLite.showConnectionHealth';
+  context.subscriptions.push(healthStatusBar);
+
+  const updateHealthStatusBar = () => {
+    const editor = vscode.window.activeTextEditor;
+    const activeConnectionId = editor
+      ? fileService.getFileMapping(normalizeLocalPath(editor.document.uri.fsPath))?.connectionId
+      : undefined;
+    const sampled = connectionManager.getAllConnections().flatMap((conn) => {
+      const health = connectionManager.getHealth(conn.id);
+      return health && health.status !== 'unknown' ? [{ conn, health }] : [];
+    });
+    const shown = sampled.find((s) => s.conn.id === activeConnectionId) ??
+      sampled.sort((a, b) => healthSeverity(b.health.status) - healthSeverity(a.health.status))[0];
+    if (!shown) {
+      healthStatusBar.hide();
+      return;
+    }
+    const { conn, health } = shown;
+    const rtt = health.transportMs ?? health.sftpMs;
+    healthStatusBar.text = health.status === 'healthy'
+      ? `$(pulse) ${conn.host.name}${rtt !== undefined ? ` ${rtt} ms` : ''}`
+      : `$(warning) ${conn.host.name}: ${describeHealthStatus(health.status)}`;
+    healthStatusBar.tooltip = new vscode.MarkdownString(
+      [`**${conn.host.name}**`, '', ...formatHealthLines(health), '', 'Click to write every connection\'s health to the SSH Lite log'].join('\n')
+    );
+    healthStatusBar.show();
+  };
+
+  context.subscriptions.push(
+    connectionManager.onDidChangeHealth(updateHealthStatusBar),
+    connectionManager.onDidChangeConnections(updateHealthStatusBar),
+    vscode.window.onDidChangeActiveTextEditor(updateHealthStatusBar)
+  );
+
   // Track preload progress with periodic updates
   let preloadProgressInterval: ReturnType<typeof setInterval> | null = null;
 
@@ -879,6 +1023,13 @@ export function activate(context: vscode.ExtensionContext): void {
       if (event.state === ConnectionState.Connected) {
         await portForwardService.restoreForwardsForConnection(event.connection);
       }
+    }),
+
+    // Resume terminals whose persistent session lost its connection
+    connectionManager.onConnectionStateChange(async (event) => {
+      if (event.state === ConnectionState.Connected) {
+        await terminalService.reattachSessions(event.connection);
+      }
     })
   );
 
@@ -1076,6 +1227,7 @@ export function activate(context: vscode.ExtensionContext): void {
       const host = item.hosts[0];
       const conn = connectionManager.getConnection(host.id);
       if (!conn) { return; }
+      if (!ensureCapability(conn, 'supportsSudo')) { return; }
 
       const password = await CredentialService.getInstance().promptSudoPassword(conn.host.name);
       if (!password) { return; }
@@ -1504,6 +1656,32 @@ export function activate(context: vscode.ExtensionContext): void {
       );
     }),
 
+    vscode.commands.registerCommand('sshLite.toggleAgentForwarding', async (item?: ServerTreeItem) => {
+      if (!item) {
+        return;
+      }
+      const savedHost = item.hosts.find(h => h.source === 'saved' && h.connectionType !== 'ftp');
+      if (!savedHost) {
+        vscode.window.showInformationMessage('This host is from SSH config. Set "ForwardAgent yes" in ~/.ssh/config to forward your agent.');
+        return;
+      }
+
+      const enable = !savedHost.forwardAgent;
+      await hostService.setForwardAgent(savedHost.id, enable);
+      infoLog('host-edit', 'toggleAgentForwarding', { hostId: savedHost.id, forwardAgent: enable });
+      hostTreeProvider.refresh();
+      const connected = item.hosts.some(h => connectionManager.getConnection(h.id));
+      vscode.window.setStatusBarMessage(
+        `$(check) Agent forwarding ${enable ? 'enabled' : 'disabled'} for ${savedHost.name}${connected ? ' (reconnect to apply)' : ''}`,
+        5000
+      );
+    }),
+
+    vscode.commands.registerCommand('sshLite.showConnectionHealth', () => {
+      connectionManager.logHealthReport();
+      outputChannel.show(true);
+    }),
+
     // Navigation commands
     vscode.commands.registerCommand('sshLite.goToPath', async (connectionOrItem?: SSHConnection | ConnectionTreeItem | FileTreeItem | IHostConfig, pathArg?: string) => {
       let connection: SSHConnection | undefined;
@@ -1810,45 +1988,48 @@ export function activate(context: vscode.ExtensionContext): void {
           const movedSources: Array<{ srcConnId: string; srcPath: string }> = [];
           let doneCount = 0;
 
-          for (const entry of clipboard.items) {
-            if (token.isCancellationRequested) { break; }
-            const srcConn = sourceConnections.get(entry.connectionId)!;
-            const isSameHost = srcConn.id === destConnection.id;
-            const destName = fileService.nextCopyName(entry.name, existingNames);
-            existingNames.add(destName);
-            const destPath = destFolder.endsWith('/') ? `${destFolder}${destName}` : `${destFolder}/${destName}`;
+          // One undo entry per host for the whole paste
+          await RemoteUndoService.getInstance().batch(`${clipboard.operation === 'cut' ? 'Move' : 'Copy'} ${clipboard.items.length} items → ${destFolder}/`, async () => {
+            for (const entry of clipboard.items) {
+              if (token.isCancellationRequested) { break; }
+              const srcConn = sourceConnections.get(entry.connectionId)!;
+              const isSameHost = srcConn.id === destConnection.id;
+              const destName = fileService.nextCopyName(entry.name, existingNames);
+              existingNames.add(destName);
+              const destPath = destFolder.endsWith('/') ? `${destFolder}${destName}` : `${destFolder}/${destName}`;
 
-            progress.report({ message: `${doneCount + 1}/${clipboard.items.length}: ${entry.name}` });
+              progress.report({ message: `${doneCount + 1}/${clipboard.items.length}: ${entry.name}` });
 
-            try {
-              if (clipboard.operation === 'copy') {
-                if (isSameHost) {
-                  await fileService.copyRemoteSameHost(srcConn, entry.remotePath, destPath, entry.isDirectory);
-                } else {
-                  await fileService.copyRemoteCrossHost(srcConn, entry.remotePath, destConnection, destPath, entry.isDirectory, token);
-                }
-              } else {
-                if (isSameHost) {
-                  await fileService.moveRemoteSameHost(srcConn, entry.remotePath, destPath);
+              try {
+                if (clipboard.operation === 'copy') {
+                  if (isSameHost) {
+                    await fileService.copyRemoteSameHost(srcConn, entry.remotePath, destPath, entry.isDirectory);
+                  } else {
+                    await fileService.copyRemoteCrossHost(srcConn, entry.remotePath, destConnection, destPath, entry.isDirectory, token);
+                  }
                 } else {
-                  await fileService.copyRemoteCrossHost(srcConn, entry.remotePath, destConnection, destPath, entry.isDirectory, token);
-                  try {
-                    await fileService.deleteRemotePath(srcConn, entry.remotePath, entry.isDirectory);
-                  } catch (delErr) {
-                    vscode.window.showWarningMessage(
-                      `Copied ${entry.name} to destination, but failed to remove source: ${(delErr as Error).message}`
-                    );
+                  if (isSameHost) {
+                    await fileService.moveRemoteSameHost(srcConn, entry.remotePath, destPath, entry.isDirectory);
+                  } else {
+                    await fileService.copyRemoteCrossHost(srcConn, entry.remotePath, destConnection, destPath, entry.isDirectory, token);
+                    try {
+                      await fileService.deleteRemotePath(srcConn, entry.remotePath, entry.isDirectory, { backup: true });
+                    } catch (delErr) {
+                      vscode.window.showWarningMessage(
+                        `Copied ${entry.name} to destination, but failed to remove source: ${(delErr as Error).message}`
+                      );
+                    }
                   }
+                  movedSources.push({ srcConnId: srcConn.id, srcPath: entry.remotePath });
                 }
-                movedSources.push({ srcConnId: srcConn.id, srcPath: entry.remotePath });
+                doneCount++;
+                logResult('pasteRemoteItem', true, `${entry.name} → ${destPath}`);
+              } catch (err) {
+                logResult('pasteRemoteItem', false, `${entry.name}: ${(err as Error).message}`);
+                vscode.window.showErrorMessage(`Failed to paste ${entry.name}: ${(err as Error).message}`);
               }
-              doneCount++;
-              logResult('pasteRemoteItem', true, `${entry.name} → ${destPath}`);
-            } catch (err) {
-              logResult('pasteRemoteItem', false, `${entry.name}: ${(err as Error).message}`);
-              vscode.window.showErrorMessage(`Failed to paste ${entry.name}: ${(err as Error).message}`);
             }
-          }
+          });
 
           fileTreeProvider.refreshFolder(destConnection.id, destFolder);
           if (clipboard.operation === 'cut') {
@@ -1976,24 +2157,26 @@ export function activate(context: vscode.ExtensionContext): void {
       let okCount = 0;
       let failCount = 0;
 
-      for (const t of targets) {
-        try {
-          const ok = await fileService.deleteRemote(t.connection, t.file, { skipConfirm: true });
-          if (ok) {
-            okCount++;
-            const parent = path.dirname(t.file.path) || '/';
-            if (!parentsToRefresh.has(t.connection.id)) {
-              parentsToRefresh.set(t.connection.id, new Set());
+      await RemoteUndoService.getInstance().batch(`Delete ${targets.length} items`, async () => {
+        for (const t of targets) {
+          try {
+            const ok = await fileService.deleteRemote(t.connection, t.file, { skipConfirm: true });
+            if (ok) {
+              okCount++;
+              const parent = path.dirname(t.file.path) || '/';
+              if (!parentsToRefresh.has(t.connection.id)) {
+                parentsToRefresh.set(t.connection.id, new Set());
+              }
+              parentsToRefresh.get(t.connection.id)!.add(parent);
+            } else {
+              failCount++;
             }
-            parentsToRefresh.get(t.connection.id)!.add(parent);
-          } else {
+          } catch (e) {
             failCount++;
+            log(`Bulk delete failed for ${t.file.path}: ${(e as Error).message}`);
           }
-        } catch (e) {
-          failCount++;
-          log(`Bulk delete failed for ${t.file.path}: ${(e as Error).message}`);
         }
-      }
+      });
 
       for (const [connId, parents] of parentsToRefresh) {
         for (const parent of parents) {
@@ -2090,21 +2273,36 @@ export function activate(context: vscode.ExtensionContext): void {
       }
     }),
 
-    // Read-only Properties viewer: shells out via stat over the existing SSH
-    // connection (NOT Node child_process) and shows the result in a modal
-    // info message. Path is shell-quoted inside FileService.getRemoteProperties.
+    // Properties panel: stat (over the existing SSH connection, NOT Node
+    // child_process) plus getent for the owner/group pickers, then applies
+    // whatever the user changed via FileService.applyPermissionChange.
     vscode.commands.registerCommand('sshLite.showProperties', async (item?: FileTreeItem) => {
       if (!item) {
         return;
       }
       logCommand('showProperties', item.file.path);
       try {
-        const text = await fileService.getRemoteProperties(item.connection, item.file);
-        await vscode.window.showInformationMessage(text, {
-          modal: true,
-          detail: item.file.path,
+        const props = await fileService.statRemoteProperties(item.connection, item.file);
+        let accounts: { users: IRemoteAccount[]; groups: IRemoteAccount[] } = { users: [], groups: [] };
+        try {
+          accounts = await fileService.listRemoteAccounts(item.connection);
+        } catch (e) {
+          log(`showProperties: could not list users/groups: ${(e as Error).message}`);
+        }
+        const change = await PropertiesPanel.edit(props, accounts, {
+          hostName: item.connection.host.name,
+          canEditOwnership: accounts.users.length > 0 && accounts.groups.length > 0,
         });
-        logResult('showProperties', true, item.file.name);
+        if (!change) {
+          logResult('showProperties', true, `${item.file.name} (unchanged)`);
+          return;
+        }
+        const applied = await fileService.applyPermissionChange(item.connection, props, change);
+        logResult('showProperties', applied, item.file.name);
+        if (applied) {
+          const parentDir = item.file.path.substring(0, item.file.path.lastIndexOf('/')) || '/';
+          fileTreeProvider.refreshFolder(item.connection.id, parentDir);
+        }
       } catch (e) {
         const msg = (e as Error).message;
         vscode.window.showErrorMessage(`Failed to read properties: ${msg}`);
@@ -2112,6 +2310,133 @@ export function activate(context: vscode.ExtensionContext): void {
       }
     }),
 
+    vscode.commands.registerCommand('sshLite.createSymlink', async (item?: FileTreeItem) => {
+      if (!(item instanceof FileTreeItem) || !item.file.isDirectory) {
+        return;
+      }
+      logCommand('createSymlink', item.file.path);
+      const created = await fileService.createSymlink(item.connection, item.file.path);
+      if (created) {
+        logResult('createSymlink', true, created);
+        fileTreeProvider.refreshFolder(item.connection.id, item.file.path);
+      } else {
+        logResult('createSymlink', false, 'Cancelled or failed');
+      }
+    }),
+
+    vscode.commands.registerCommand('sshLite.editLinkTarget', async (item?: FileTreeItem) => {
+      if (!item?.file.isSymlink) {
+        return;
+      }
+      logCommand('editLinkTarget', item.file.path);
+      try {
+        const changed = await fileService.editLinkTarget(item.connection, item.file);
+        logResult('editLinkTarget', changed, item.file.name);
+        if (changed) {
+          const parentDir = item.file.path.substring(0, item.file.path.lastIndexOf('/')) || '/';
+          fileTreeProvider.refreshFolder(item.connection.id, parentDir);
+        }
+      } catch (e) {
+        const msg = (e as Error).message;
+        vscode.window.showErrorMessage(`Failed to read link: ${msg}`);
+        logResult('editLinkTarget', false, msg);
+      }
+    }),
+
+    // Resolves the whole link chain (realpath) and reveals the final target
+    vscode.commands.registerCommand('sshLite.revealLinkTarget', async (item?: FileTreeItem) => {
+      if (!item?.file.isSymlink) {
+        return;
+      }
+      logCommand('revealLinkTarget', item.file.path);
+      if (item.file.linkBroken) {
+        vscode.window.showWarningMessage(`${item.file.name} is a broken link: ${item.file.linkTarget ?? 'target'} does not exist.`);
+        logResult('revealLinkTarget', false, 'Broken link');
+        return;
+      }
+      let target: string;
+      try {
+        target = await item.connection.realpath(item.file.path);
+      } catch (e) {
+        const msg = (e as Error).message;
+        vscode.window.showWarningMessage(`Could not resolve ${item.file.name}: ${msg}`);
+        logResult('revealLinkTarget', false, msg);
+        return;
+      }
+      const treeItem = await fileTreeProvider.revealFile(item.connection.id, target);
+      if (treeItem && fileTreeView) {
+        try {
+          await fileTreeView.reveal(treeItem, { select: true, focus: true, expand: false });
+          logResult('revealLinkTarget', true, target);
+          return;
+        } catch (err) {
+          log(`revealLinkTarget: reveal failed: ${(err as Error).message}`);
+        }
+      }
+      vscode.window.showWarningMessage(`Could not reveal ${target} in tree.`);
+      logResult('revealLinkTarget', false, target);
+    }),
+
+    // Server-side archives (tar/zip over exec, sudo retry on permission denied)
+    vscode.commands.registerCommand('sshLite.compressRemote', async (item?: FileTreeItem, items?: FileTreeItem[]) => {
+      const selected = resolveTreeSelection<unknown>(item, items, fileTreeView?.selection)
+        .filter((i) => i instanceof FileTreeItem) as FileTreeItem[];
+      if (selected.length === 0) {
+        return;
+      }
+      const connection = selected[0].connection;
+      if (selected.some((i) => i.connection.id !== connection.id)) {
+        vscode.window.showErrorMessage('Select files and folders from one server to compress them together.');
+        return;
+      }
+      logCommand('compressRemote', selected.map((i) => i.file.path).join(', '));
+      const archivePath = await fileService.compressRemote(connection, selected.map((i) => i.file));
+      logResult('compressRemote', !!archivePath, archivePath ?? 'Cancelled or failed');
+      if (archivePath) {
+        fileTreeProvider.refreshFolder(connection.id, path.posix.dirname(archivePath));
+      }
+    }),
+
+    vscode.commands.registerCommand('sshLite.extractRemote', async (item?: FileTreeItem) => {
+      if (!item || item.file.isDirectory) {
+        return;
+      }
+      logCommand('extractRemote', item.file.path);
+      const extracted = await fileService.extractRemote(item.connection, item.file);
+      logResult('extractRemote', extracted, item.file.name);
+      if (extracted) {
+        fileTreeProvider.refreshFolder(item.connection.id, path.posix.dirname(item.file.path));
+      }
+    }),
+
+    vscode.commands.registerCommand('sshLite.downloadAsArchive', async (item?: FileTreeItem) => {
+      if (!item?.file.isDirectory) {
+        return;
+      }
+      logCommand('downloadAsArchive', item.file.path);
+      await fileService.downloadFolderAsArchive(item.connection, item.file);
+    }),
+
+    vscode.commands.registerCommand('sshLite.uploadFolderAsArchive', async (item?: FileTreeItem | ConnectionTreeItem) => {
+      let connection: SSHConnection;
+      let remoteDir: string;
+      if (item instanceof ConnectionTreeItem) {
+        connection = item.connection;
+        remoteDir = await fileService.resolveDefaultRemotePath(connection);
+      } else if (item instanceof FileTreeItem && item.file.isDirectory) {
+        connection = item.connection;
+        remoteDir = item.file.path;
+      } else {
+        return;
+      }
+      logCommand('uploadFolderAsArchive', remoteDir);
+      const uploaded = await fileService.uploadFolderAsArchive(connection, remoteDir);
+      logResult('uploadFolderAsArchive', uploaded, remoteDir);
+      if (uploaded) {
+        fileTreeProvider.refreshFolder(connection.id, remoteDir);
+      }
+    }),
+
     vscode.commands.registerCommand('sshLite.renameRemote', async (item?: FileTreeItem) => {
       if (!item) {
         // Keybinding invocations (F2) pass no args — fall back to the tree selection (issue #10)
@@ -2418,10 +2743,11 @@ export function activate(context: vscode.ExtensionContext): void {
       // Legacy: add all connections' current paths as default scopes only if no scopes exist.
       // Skip FTP (no remote search) so an FTP scope can never reach the SSH-only
       // searchFiles path — mirrors the cross-server filter (buildServerSearchEntries).
+      // SFTP-only servers stay: their filename search walks the tree over SFTP.
       if (!searchPanel.hasScopes()) {
         const connections = connectionManager.getAllConnections();
         for (const conn of connections) {
-          if (!hasCapability(conn, 'supportsSearch')) continue;
+          if (!canFindFilenames(conn)) continue;
           searchPanel.addScope(fileTreeProvider.getCurrentPath(conn.id), conn);
         }
       }
@@ -2550,14 +2876,15 @@ export function activate(context: vscode.ExtensionContext): void {
       // Add the selected scope (don't clear existing scopes to allow multiple).
       // Remote search needs find/grep over a shell; FTP has none, so never add an
       // FTP scope (it would crash the search worker on connection.searchFiles).
+      // SFTP-only servers are fine: filename search walks them over SFTP.
       if (item instanceof ConnectionTreeItem) {
-        if (!ensureCapability(item.connection, 'supportsSearch')) {
+        if (!canFindFilenames(item.connection) && !ensureCapability(item.connection, 'supportsSearch')) {
           return;
         }
         const searchPath = fileTreeProvider.getCurrentPath(item.connection.id);
         searchPanel.addScope(searchPath, item.connection);
       } else if (item instanceof FileTreeItem) {
-        if (!ensureCapability(item.connection, 'supportsSearch')) {
+        if (!canFindFilenames(item.connection) && !ensureCapability(item.connection, 'supportsSearch')) {
           return;
         }
         // For files, add the file directly as search scope
@@ -2571,7 +2898,7 @@ export function activate(context: vscode.ExtensionContext): void {
       } else {
         // No item - add all SEARCHABLE connections' current paths (only if no scopes exist)
         if (!searchPanel.hasScopes()) {
-          const connections = connectionManager.getAllConnections().filter((c) => hasCapability(c, 'supportsSearch'));
+          const connections = connectionManager.getAllConnections().filter((c) => canFindFilenames(c));
           for (const conn of connections) {
             searchPanel.addScope(fileTreeProvider.getCurrentPath(conn.id), conn);
           }
@@ -2956,6 +3283,7 @@ export function activate(context: vscode.ExtensionContext): void {
 
       logCommand('openTerminalHere', targetPath);
       try {
+        const session = await PersistentSessionService.getInstance().newSession(connection);
         const shell = await vscode.window.withProgress(
           {
             location: vscode.ProgressLocation.Notification,
@@ -2965,12 +3293,13 @@ export function activate(context: vscode.ExtensionContext): void {
           () => commandGuard.openShell(
             connection,
             { term: terminalService.getTermType() },
-            { env: terminalService.buildShellEnv() }
+            terminalService.shellOptions(session)
           )
         );
-        const terminal = await terminalService.createTerminal(connection, shell);
+        const terminal = await terminalService.createTerminal(connection, shell, session);
         if (terminal) {
           terminal.sendText(`cd "${targetPath}"`);
+          terminalService.setCwd(terminal, targetPath);
           logResult('openTerminalHere', true, `cd "${targetPath}"`);
         }
       } catch (error) {
@@ -2985,6 +3314,34 @@ export function activate(context: vscode.ExtensionContext): void {
       }
     }),
 
+    // Show the focused SSH terminal's working directory in the file tree
+    vscode.commands.registerCommand('sshLite.revealTerminalCwd', async () => {
+      const terminal = vscode.window.activeTerminal;
+      const location = terminal && terminalService.getTerminalLocation(terminal);
+      if (!terminal || !location) {
+        vscode.window.showInformationMessage('Focus an SSH Lite terminal first.');
+        return;
+      }
+      if (!location.cwd) {
+        const choice = await vscode.window.showInformationMessage(
+          `${terminal.name} has not reported its working directory. Turn on reporting for new terminals, or use a shell prompt that prints OSC 7.`,
+          'Open Setting'
+        );
+        if (choice === 'Open Setting') {
+          vscode.commands.executeCommand('workbench.action.openSettings', 'sshLite.terminal.reportCwd');
+        }
+        return;
+      }
+      const connection = connectionManager.getConnection(location.connectionId);
+      if (!connection) {
+        vscode.window.showWarningMessage('Not connected to this host');
+        return;
+      }
+      logCommand('revealTerminalCwd', location.cwd);
+      await vscode.commands.executeCommand('sshLite.goToPath', connection, location.cwd);
+      await vscode.commands.executeCommand('sshLite.fileExplorer.focus');
+    }),
+
     // Terminal commands
     vscode.commands.registerCommand('sshLite.openTerminal', async (item?: ServerTreeItem | ConnectionTreeItem) => {
       let connection: SSHConnection | undefined;
@@ -3033,6 +3390,7 @@ export function activate(context: vscode.ExtensionContext): void {
 
       logCommand('openTerminal', connection.host.name);
       try {
+        const session = await PersistentSessionService.getInstance().newSession(connection);
         const shell = await vscode.window.withProgress(
           {
             location: vscode.ProgressLocation.Notification,
@@ -3042,10 +3400,10 @@ export function activate(context: vscode.ExtensionContext): void {
           () => commandGuard.openShell(
             connection,
             { term: terminalService.getTermType() },
-            { env: terminalService.buildShellEnv() }
+            terminalService.shellOptions(session)
           )
         );
-        const terminal = await terminalService.createTerminal(connection, shell);
+        const terminal = await terminalService.createTerminal(connection, shell, session);
         if (terminal) {
           logResult('openTerminal', true, connection.host.name);
         }
@@ -3262,6 +3620,7 @@ export function activate(context: vscode.ExtensionContext): void {
         [
           { label: 'Password', description: 'Authenticate with a password', id: 'password' as const },
           { label: 'Private Key (PEM)', description: 'Authenticate with an SSH private key file', id: 'privateKey' as const },
+          { label: 'Certificate', description: 'Authenticate with a private key and its OpenSSH certificate', id: 'certificate' as const },
         ],
         { placeHolder: `Authentication method for ${username}@${host}`, ignoreFocusOut: true }
       );
@@ -3269,6 +3628,7 @@ export function activate(context: vscode.ExtensionContext): void {
 
       let credentialValue = '';
       let privateKeyPath: string | undefined;
+      let certificatePath: string | undefined;
 
       if (authChoice.id === 'password') {
         const password = await vscode.window.showInputBox({
@@ -3285,6 +3645,10 @@ export function activate(context: vscode.ExtensionContext): void {
         if (!keyInfo) return;
         privateKeyPath = keyInfo.privateKeyPath;
         credentialValue = keyInfo.passphrase;
+        if (authChoice.id === 'certificate') {
+          certificatePath = await promptCertificatePath(privateKeyPath, username);
+          if (!certificatePath) return;
+        }
       }
 
       // Create a new saved host with this username. Only attach
@@ -3307,13 +3671,16 @@ export function activate(context: vscode.ExtensionContext): void {
         await hostService.saveHost(newHost);
         log(`addCredential: Host saved to settings`);
 
-        const credLabel = authChoice.id === 'privateKey' ? 'SSH Key' : 'Default';
+        const credLabel = authChoice.id === 'privateKey' ? 'SSH Key'
+          : authChoice.id === 'certificate' ? 'SSH Certificate'
+          : 'Default';
         const cred = await credentialService.addCredential(
           newHostId,
           credLabel,
           authChoice.id,
           credentialValue,
-          privateKeyPath
+          privateKeyPath,
+          certificatePath
         );
         log(`addCredential: Success - created host ${newHostId} with credential ${cred.id}`);
 
@@ -3360,6 +3727,57 @@ export function activate(context: vscode.ExtensionContext): void {
       }
     }),
 
+    // 2FA: TOTP secret that answers "Verification code" prompts at login
+    vscode.commands.registerCommand('sshLite.setTotpSecret', async (item?: UserCredentialTreeItem) => {
+      if (!item) {
+        vscode.window.showWarningMessage('Select a user first');
+        return;
+      }
+
+      const hostConfig = item.hostConfig;
+      const secret = await vscode.window.showInputBox({
+        prompt: `TOTP secret for ${hostConfig.username}@${hostConfig.host} (base32 key or otpauth:// URI from the authenticator setup)`,
+        password: true,
+        ignoreFocusOut: true,
+        validateInput: (value) => {
+          try {
+            parseTotpSecret(value);
+            return null;
+          } catch (error) {
+            return (error as Error).message;
+          }
+        },
+      });
+      if (!secret) return;
+
+      log(`setTotpSecret: Saving TOTP secret for ${hostConfig.username}@${hostConfig.host}`);
+      try {
+        await credentialService.setTotpSecret(hostConfig.id, secret.trim());
+        vscode.window.setStatusBarMessage(`$(check) 2FA secret saved for ${hostConfig.username}`, 3000);
+      } catch (error) {
+        log(`setTotpSecret: Error - ${(error as Error).message}`);
+        vscode.window.showErrorMessage(`Failed to save 2FA secret: ${(error as Error).message}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('sshLite.removeTotpSecret', async (item?: UserCredentialTreeItem) => {
+      if (!item) {
+        vscode.window.showWarningMessage('Select a user first');
+        return;
+      }
+
+      const hostConfig = item.hostConfig;
+      const confirm = await vscode.window.showWarningMessage(
+        `Remove the saved 2FA secret for ${hostConfig.username}@${hostConfig.host}? You will be asked for the code at login.`,
+        { modal: true },
+        'Remove'
+      );
+      if (confirm !== 'Remove') return;
+
+      await credentialService.deleteTotpSecret(hostConfig.id);
+      vscode.window.setStatusBarMessage(`$(check) 2FA secret removed for ${hostConfig.username}`, 3000);
+    }),
+
     // Connect with specific credential
     vscode.commands.registerCommand('sshLite.connectWithCredential', async (hostConfig?: IHostConfig, credential?: SavedCredential | null) => {
       if (!hostConfig) {
@@ -3501,7 +3919,8 @@ export function activate(context: vscode.ExtensionContext): void {
         // server-auth keywords above, so isAuthError misses it. Detect it
         // explicitly so the key branch can show a clear "incorrect passphrase"
         // notice with a re-enter option instead of an opaque generic failure.
-        const isPassphraseError = effectiveCredential.type === 'privateKey' && isKeyPassphraseError(errMsg);
+        const usesKey = effectiveCredential.type === 'privateKey' || effectiveCredential.type === 'certificate';
+        const isPassphraseError = usesKey && isKeyPassphraseError(errMsg);
 
         if (isAuthError && effectiveCredential.type === 'password') {
           // Authentication failed - offer to retry with new password
@@ -3547,7 +3966,7 @@ export function activate(context: vscode.ExtensionContext): void {
               }
             }
           }
-        } else if (effectiveCredential.type === 'privateKey' && (isAuthError || isPassphraseError)) {
+        } else if (usesKey && (isAuthError || isPassphraseError)) {
           // Passphrase-protected key with the wrong (or stale) passphrase, or a
           // server-side key rejection — offer to re-enter and retry. For the
           // passphrase case show a clear, specific notice instead of the raw
@@ -3751,6 +4170,56 @@ export function activate(context: vscode.ExtensionContext): void {
     }),
 
     // Pin folder to credential (from file tree context menu)
+    vscode.commands.registerCommand('sshLite.openFolderAsWorkspace', async (item?: FileTreeItem | ConnectionTreeItem) => {
+      let connection: SSHConnection;
+      let remotePath: string;
+      if (item instanceof FileTreeItem && item.file.isDirectory) {
+        connection = item.connection;
+        remotePath = item.file.path;
+      } else if (item instanceof ConnectionTreeItem) {
+        connection = item.connection;
+        remotePath = item.currentPath;
+        if (remotePath === '~') {
+          try {
+            remotePath = await connection.resolveHomePath();
+          } catch {
+            remotePath = '/home/' + connection.host.username;
+          }
+        }
+      } else {
+        vscode.window.showWarningMessage('Select a folder to open as a workspace folder');
+        return;
+      }
+
+      const uri = buildRemoteUri(connection.id, remotePath);
+      const folders = vscode.workspace.workspaceFolders ?? [];
+      if (folders.some((f) => f.uri.toString() === uri.toString())) {
+        vscode.window.showInformationMessage(`${remotePath} is already in the workspace`);
+        return;
+      }
+
+      const choice = await vscode.window.showQuickPick(
+        [
+          { label: 'Add to Workspace', description: 'Keep the current window and its folders', newWindow: false },
+          { label: 'Open in New Window', description: 'Reconnects to the host in the new window', newWindow: true },
+        ],
+        { placeHolder: `Open ${connection.host.name}:${remotePath} as a workspace folder` }
+      );
+      if (!choice) {
+        return;
+      }
+
+      logCommand('openFolderAsWorkspace', `${connection.host.name}:${remotePath}`);
+      if (choice.newWindow) {
+        await vscode.commands.executeCommand('vscode.openFolder', uri, { forceNewWindow: true });
+      } else {
+        vscode.workspace.updateWorkspaceFolders(folders.length, 0, {
+          uri,
+          name: `${connection.host.name}: ${path.posix.basename(remotePath) || '/'}`,
+        });
+      }
+    }),
+
     vscode.commands.registerCommand('sshLite.pinFolder', async (item?: FileTreeItem) => {
       if (!item || !item.file.isDirectory) {
         vscode.window.showWarningMessage('Select a folder to pin');
@@ -4119,6 +4588,9 @@ export function activate(context: vscode.ExtensionContext): void {
   if (fileTreeView)        treeViewDisposables.push(fileTreeView);
   if (portForwardTreeView) treeViewDisposables.push(portForwardTreeView);
   if (activityTreeView)    treeViewDisposables.push(activityTreeView);
+  if (transferTreeView)    treeViewDisposables.push(transferTreeView);
+  if (knownHostsTreeView)  treeViewDisposables.push(knownHostsTreeView);
+  if (folderCompareTreeView) treeViewDisposables.push(folderCompareTreeView);
   context.subscriptions.push(
     outputChannel,
     ...treeViewDisposables,
@@ -4126,6 +4598,11 @@ export function activate(context: vscode.ExtensionContext): void {
     fileTreeProvider,
     portForwardTreeProvider,
     activityTreeProvider,
+    transferTreeProvider,
+    transferQueue,
+    folderCompareTreeProvider,
+    folderCompare,
+    knownHostsTreeProvider,
     ...commands
   );
 
@@ -4148,6 +4625,42 @@ export function activate(context: vscode.ExtensionContext): void {
     })
   );
 
+  // Known Hosts view: list, remove and re-pin known_hosts entries
+  context.subscriptions.push(...registerKnownHostsCommands(knownHostsTreeProvider));
+
+  // Folder sync: saved local <-> remote folder pairs, planned and reviewed before applying
+  context.subscriptions.push(...registerFolderSyncCommands(fileTreeProvider));
+
+  // Folder Compare view: two folders on any hosts (or one local), diff and copy differences across
+  context.subscriptions.push(...registerFolderCompareCommands(fileTreeProvider));
+
+  // Reattach persistent terminal sessions left running on a host
+  context.subscriptions.push(
+    ...registerTerminalSessionCommands(),
+    ...registerTerminalBroadcastCommands(),
+    PersistentSessionService.getInstance()
+  );
+
+  // Undo / redo of renames, moves, deletes and creates in the file tree
+  context.subscriptions.push(
+    ...registerRemoteUndoCommands({
+      refreshFolder: (connectionId, folderPath) => fileTreeProvider.refreshFolder(connectionId, folderPath),
+      getSelection: () => fileTreeView?.selection ?? [],
+    }),
+    RemoteUndoService.getInstance()
+  );
+
+  // Transfers view: pause / resume / cancel / retry. Uploads can finish long
+  // after their command returned (resumed, retried), so refresh where they land.
+  context.subscriptions.push(
+    ...registerTransferCommands(),
+    transferQueue.onDidComplete((item) => {
+      if (item.direction === 'upload') {
+        fileTreeProvider.refreshFolder(item.connectionId, path.posix.dirname(item.remotePath));
+      }
+    })
+  );
+
   // Set initial context
   vscode.commands.executeCommand('setContext', 'sshLite.hasConnections', false);
 
@@ -4414,7 +4927,7 @@ async function autoReconnectFromOpenFiles(
         const selected = await vscode.window.showQuickPick(
           credentials.map((c) => ({
             label: c.label,
-            description: c.type === 'password' ? 'Password' : 'Private Key',
+            description: c.type === 'password' ? 'Password' : c.type === 'certificate' ? 'Certificate' : 'Private Key',
             credential: c,
           })),
           {
@@ -4489,6 +5002,7 @@ export function deactivate(): void {
   folderHistory.dispose();
   activityService.dispose();
   portForwardService.dispose();
+  KnownHostsService.getInstance().dispose();
   connectionManager.dispose();
   RemoteDiffService.getInstance().dispose(); // remove any leftover diff temp dirs
 
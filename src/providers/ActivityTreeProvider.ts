@@ -314,6 +314,10 @@ function getTypeLabel(type: ActivityType): string {
     connect: 'Connect',
     disconnect: 'Disconnect',
     reveal: 'Reveal',
+    sync: 'Sync',
+    copy: 'Copy',
+    archive: 'Archive',
+    compare: 'Compare',
   };
   return labels[type] || type;
 }
@@ -331,6 +335,10 @@ function getTypeIcon(type: ActivityType): string {
     connect: 'plug',
     disconnect: 'debug-disconnect',
     reveal: 'target',
+    sync: 'sync',
+    copy: 'copy',
+    archive: 'file-zip',
+    compare: 'diff',
   };
   return icons[type] || 'circle-outline';
 }
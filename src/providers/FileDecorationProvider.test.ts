@@ -844,6 +844,26 @@ describe('SSHFileDecorationProvider', () => {
     });
   });
 
+  describe('symlink badge (ssh:// scheme)', () => {
+    it('should badge links and mark broken links red', () => {
+      const link = provider.provideFileDecoration(Uri.parse('ssh://host:22:user/srv/current?link') as any);
+      const broken = provider.provideFileDecoration(Uri.parse('ssh://host:22:user/srv/gone?link=broken') as any);
+
+      expect(link).toEqual({ badge: '↪', tooltip: 'Symbolic link' });
+      expect(broken!.badge).toBe('↪');
+      expect(broken!.tooltip).toBe('Broken symbolic link');
+      expect(broken!.color).toBeInstanceOf(ThemeColor);
+    });
+
+    it('should still highlight a filtered folder reached through a link', () => {
+      provider.setFilteredFolder('host:22:user', '/srv/current');
+
+      const decoration = provider.provideFileDecoration(Uri.parse('ssh://host:22:user/srv/current?link') as any);
+
+      expect(decoration!.badge).toBe('F');
+    });
+  });
+
   describe('event subscriptions', () => {
     it('should subscribe to file mapping changes', () => {
       expect(fileService.onFileMappingsChanged).toHaveBeenCalled();
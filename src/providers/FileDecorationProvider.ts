@@ -9,6 +9,7 @@ import { normalizeLocalPath, formatFileSize, formatDateTime } from '../utils/hel
  * - Upload state badge (↑ uploading, ✗ failed) on tab
  * - Grayed-out tab decoration for SSH temp files without active connection (file:// URIs)
  * - Blue highlight for filtered folders in the file tree (ssh:// URIs)
+ * - ↪ badge for symlinks in the file tree (red when broken)
  */
 export class SSHFileDecorationProvider implements vscode.FileDecorationProvider {
   private readonly _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
@@ -135,7 +136,9 @@ export class SSHFileDecorationProvider implements vscode.FileDecorationProvider
   provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
     // Handle ssh:// URIs — highlight filtered folders and gray out empty folders
     if (uri.scheme === 'ssh') {
-      const uriString = uri.toString();
+      // Symlink rows carry `?link` / `?link=broken` (see FileTreeItem)
+      const link = uri.query?.startsWith('link') ? uri.query : undefined;
+      const uriString = link ? uri.with({ query: '' }).toString() : uri.toString();
 
       // Blue badge for filtered folder(s)
       if (this.filteredFolderUris.has(uriString)) {
@@ -155,6 +158,17 @@ export class SSHFileDecorationProvider implements vscode.FileDecorationProvider
           };
         }
       }
+
+      if (link === 'link=broken') {
+        return {
+          badge: '↪',
+          color: new vscode.ThemeColor('errorForeground'),
+          tooltip: 'Broken symbolic link',
+        };
+      }
+      if (link) {
+        return { badge: '↪', tooltip: 'Symbolic link' };
+      }
     }
 
     // Handle file:// URIs
@@ -1494,7 +1494,7 @@ describe('FileTreeProvider - file drag-and-drop move (issue #18)', () => {
     const dt = makeDataTransfer();
     setFileTransfer(dt, [{ connectionId: 'conn-A', remotePath: '/src/a.txt', isDirectory: false, name: 'a.txt' }]);
     await provider.handleDrop(fileItem(connA, '/dst', true), dt, {} as any);
-    expect(mockMoveRemoteSameHost).toHaveBeenCalledWith(connA, '/src/a.txt', '/dst/a.txt');
+    expect(mockMoveRemoteSameHost).toHaveBeenCalledWith(connA, '/src/a.txt', '/dst/a.txt', false);
     expect(mockCopyRemoteCrossHost).not.toHaveBeenCalled();
     expect(mockDeleteRemotePath).not.toHaveBeenCalled();
   });
@@ -1508,7 +1508,7 @@ describe('FileTreeProvider - file drag-and-drop move (issue #18)', () => {
     expect(mockCopyRemoteCrossHost).toHaveBeenCalledWith(
       connA, '/e/public_html/index-copy.html', connB, '/d/public_html/test/index-copy.html', false, expect.anything()
     );
-    expect(mockDeleteRemotePath).toHaveBeenCalledWith(connA, '/e/public_html/index-copy.html', false);
+    expect(mockDeleteRemotePath).toHaveBeenCalledWith(connA, '/e/public_html/index-copy.html', false, { backup: true });
     expect(mockMoveRemoteSameHost).not.toHaveBeenCalled();
   });
 
@@ -1568,7 +1568,7 @@ describe('FileTreeProvider - file drag-and-drop move (issue #18)', () => {
     const dt = makeDataTransfer();
     setFileTransfer(dt, [{ connectionId: 'conn-A', remotePath: '/a/b/c.txt', isDirectory: false, name: 'c.txt' }]);
     await provider.handleDrop(new ParentFolderTreeItem(connA as any, '/a'), dt, {} as any);
-    expect(mockMoveRemoteSameHost).toHaveBeenCalledWith(connA, '/a/b/c.txt', '/a/c.txt');
+    expect(mockMoveRemoteSameHost).toHaveBeenCalledWith(connA, '/a/b/c.txt', '/a/c.txt', false);
   });
 
   it('handleDrop moves items from multiple source connections in one drop', async () => {
@@ -1580,8 +1580,64 @@ describe('FileTreeProvider - file drag-and-drop move (issue #18)', () => {
     // Drop onto a folder on conn-B: the conn-A item is cross-host, the conn-B item is same-host.
     await provider.handleDrop(fileItem(connB, '/dst', true), dt, {} as any);
     expect(mockCopyRemoteCrossHost).toHaveBeenCalledWith(connA, '/x/a.txt', connB, '/dst/a.txt', false, expect.anything());
-    expect(mockDeleteRemotePath).toHaveBeenCalledWith(connA, '/x/a.txt', false);
-    expect(mockMoveRemoteSameHost).toHaveBeenCalledWith(connB, '/y/b.txt', '/dst/b.txt');
+    expect(mockDeleteRemotePath).toHaveBeenCalledWith(connA, '/x/a.txt', false, { backup: true });
+    expect(mockMoveRemoteSameHost).toHaveBeenCalledWith(connB, '/y/b.txt', '/dst/b.txt', false);
   });
 });
 
+
+// ============================================================================
+// Symlinks
+// ============================================================================
+
+describe('FileTreeItem - symlinks', () => {
+  const conn = { id: 'conn-1', host: { name: 'Server' } } as any;
+
+  function link(overrides: Partial<IRemoteFile> = {}): IRemoteFile {
+    return {
+      name: 'current',
+      path: '/srv/current',
+      isDirectory: true,
+      size: 0,
+      modifiedTime: Date.now(),
+      connectionId: 'conn-1',
+      isSymlink: true,
+      linkTarget: 'releases/3',
+      ...overrides,
+    };
+  }
+
+  it('marks a link to a folder with a .link context value, link icon and target', () => {
+    const item = new FileTreeItem(link(), conn);
+
+    expect(item.contextValue).toBe('folder.link');
+    expect((item.iconPath as any).id).toBe('file-symlink-directory');
+    expect(item.description).toContain('→ releases/3');
+    expect((item.tooltip as any).value).toContain('- Link target: `releases/3`');
+    expect(item.resourceUri!.query).toBe('link');
+  });
+
+  it('keeps .link before .filtered so filter menus still match', () => {
+    const item = new FileTreeItem(link(), conn, false, false, false, false, true);
+
+    expect(item.contextValue).toBe('folder.link.filtered');
+  });
+
+  it('shows a broken link in red and does not open it', () => {
+    const item = new FileTreeItem(link({ isDirectory: false, linkTarget: '/gone', linkBroken: true }), conn);
+
+    expect(item.contextValue).toBe('file.link');
+    expect((item.iconPath as any).color.id).toBe('errorForeground');
+    expect(item.description).toContain('→ /gone (broken)');
+    expect(item.resourceUri!.query).toBe('link=broken');
+    expect(item.command).toBeUndefined();
+  });
+
+  it('leaves plain files untouched', () => {
+    const item = new FileTreeItem(link({ isDirectory: false, isSymlink: undefined, linkTarget: undefined }), conn);
+
+    expect(item.contextValue).toBe('file');
+    expect(item.resourceUri!.query).toBe('');
+    expect(item.command?.command).toBe('sshLite.openFile');
+  });
+});
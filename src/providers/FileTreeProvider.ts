@@ -4,11 +4,12 @@ import { ConnectionManager } from '../connection/ConnectionManager';
 import { SSHConnection } from '../connection/SSHConnection';
 import { IRemoteFile, IHostConfig } from '../types';
 import { formatFileSize, formatRelativeTime, formatDateTime } from '../utils/helpers';
-import { ensureCapability, hasCapability } from '../utils/capabilityGuard';
+import { contextMarker, ensureCapability, hasCapability } from '../utils/capabilityGuard';
 import { FolderHistoryService } from '../services/FolderHistoryService';
 import { FileService } from '../services/FileService';
 import { PriorityQueueService, PreloadPriority } from '../services/PriorityQueueService';
 import { ActivityService } from '../services/ActivityService';
+import { RemoteUndoService } from '../services/RemoteUndoService';
 import { infoLog } from '../utils/diagnosticLog';
 
 // Get extension path for custom icons
@@ -56,9 +57,10 @@ export class ConnectionTreeItem extends vscode.TreeItem {
     // Unique ID for VS Code to preserve expand/collapse state
     this.id = `connection:${connection.id}`;
     this.description = `${connection.host.username}@${connection.host.host} - ${currentPath}`;
-    // FTP connections get a `.ftp` suffix so package.json `when` clauses can hide
-    // shell-only actions (terminal, search, monitor, sudo, server backups) for them.
-    this.contextValue = connection.capabilities.type === 'ftp' ? 'connection.ftp' : 'connection';
+    // FTP connections get a `.ftp` suffix (SFTP-only servers `.sftp`) so package.json
+    // `when` clauses can hide shell-only actions (terminal, search, monitor, sudo,
+    // server backups) for them.
+    this.contextValue = `connection${contextMarker(connection)}`;
     // Use custom SVG icon with green color baked in (persists when selected)
     if (extensionPath) {
       this.iconPath = {
@@ -162,10 +164,15 @@ export class FileTreeItem extends vscode.TreeItem {
     // Unique ID for VS Code to preserve expand/collapse state
     this.id = `file:${connection.id}:${file.path}`;
     this.resourceUri = vscode.Uri.parse(`ssh://${connection.id}${file.path}`);
-    const ftpSuffix = connection.capabilities.type === 'ftp' ? '.ftp' : '';
+    if (file.isSymlink) {
+      // Picked up by FileDecorationProvider for the link badge
+      this.resourceUri = this.resourceUri.with({ query: file.linkBroken ? 'link=broken' : 'link' });
+    }
+    const ftpSuffix = contextMarker(connection);
+    const linkSuffix = file.isSymlink ? '.link' : '';
     this.contextValue = file.isDirectory
-      ? (isFiltered ? `folder${ftpSuffix}.filtered` : `folder${ftpSuffix}`)
-      : `file${ftpSuffix}`;
+      ? (isFiltered ? `folder${ftpSuffix}${linkSuffix}.filtered` : `folder${ftpSuffix}${linkSuffix}`)
+      : `file${ftpSuffix}${linkSuffix}`;
 
     // Set icon based on type, with special indicators for open/loading files
     if (file.isDirectory) {
@@ -173,6 +180,8 @@ export class FileTreeItem extends vscode.TreeItem {
         this.iconPath = new vscode.ThemeIcon('folder', new vscode.ThemeColor('disabledForeground'));
       } else if (isHighlighted) {
         this.iconPath = new vscode.ThemeIcon('folder', new vscode.ThemeColor('charts.yellow'));
+      } else if (file.isSymlink) {
+        this.iconPath = new vscode.ThemeIcon('file-symlink-directory');
       } else {
         this.iconPath = vscode.ThemeIcon.Folder;
       }
@@ -186,6 +195,10 @@ export class FileTreeItem extends vscode.TreeItem {
       this.iconPath = new vscode.ThemeIcon('file', new vscode.ThemeColor('charts.yellow'));
     } else if (isEmptyAfterFilter) {
       this.iconPath = new vscode.ThemeIcon('file', new vscode.ThemeColor('disabledForeground'));
+    } else if (file.isSymlink) {
+      this.iconPath = file.linkBroken
+        ? new vscode.ThemeIcon('file-symlink-file', new vscode.ThemeColor('errorForeground'))
+        : new vscode.ThemeIcon('file-symlink-file');
     } else {
       this.iconPath = vscode.ThemeIcon.File;
     }
@@ -201,6 +214,9 @@ export class FileTreeItem extends vscode.TreeItem {
     } else if (file.isDirectory && matchCount > 0) {
       // Show match count for folders with matches from an active filter
       this.description = `${timeStr}  (${matchCount})`;
+    } else if (file.isSymlink) {
+      const target = `→ ${file.linkTarget ?? '?'}${file.linkBroken ? ' (broken)' : ''}`;
+      this.description = file.isDirectory || file.linkBroken ? `${target}  ${timeStr}` : `${target}  ${sizeStr}  ${timeStr}`;
     } else {
       this.description = file.isDirectory
         ? timeStr
@@ -218,10 +234,14 @@ export class FileTreeItem extends vscode.TreeItem {
     const filterStr = matchCount > 0 && filterLimit > 0
       ? `\n- Filter matches: ${matchCount}${matchCount >= filterLimit ? ` *(limit ${filterLimit} reached)*` : ` (limit: ${filterLimit})`}`
       : '';
+    const linkStr = file.isSymlink
+      ? `- Link target: \`${file.linkTarget ?? 'unknown'}\`${file.linkBroken ? ' **(broken — target does not exist)**' : ''}\n`
+      : '';
     this.tooltip = new vscode.MarkdownString(
       loadingStr + openStr +
       `**${file.name}**\n\n` +
         `- Path: \`${file.path}\`\n` +
+        linkStr +
         `- Size: ${sizeStr || 'Directory'}\n` +
         `- Modified: ${modifiedStr}\n` +
         `- Accessed: ${accessStr}\n` +
@@ -230,8 +250,8 @@ export class FileTreeItem extends vscode.TreeItem {
         filterStr
     );
 
-    // Double-click to open file
-    if (!file.isDirectory) {
+    // Double-click to open file (a broken link has nothing to open)
+    if (!file.isDirectory && !file.linkBroken) {
       this.command = {
         command: 'sshLite.openFile',
         title: 'Open File',
@@ -1284,7 +1304,7 @@ export class FileTreeProvider implements vscode.TreeDataProvider<TreeItem>, vsco
         // Show connection.filtered contextValue when any filename filter is active on this connection
         const filterDesc = this.buildConnectionFilterDescription(conn.id);
         if (filterDesc !== undefined) {
-          item.contextValue = conn.capabilities.type === 'ftp' ? 'connection.ftp.filtered' : 'connection.filtered';
+          item.contextValue = `connection${contextMarker(conn)}.filtered`;
           // Replace the gray server info with the filter summary, mirroring folder.filtered.
           item.description = filterDesc;
         }
@@ -1923,41 +1943,44 @@ export class FileTreeProvider implements vscode.TreeDataProvider<TreeItem>, vsco
         const movedSources: Array<{ connId: string; srcPath: string }> = [];
         let done = 0;
 
-        for (const entry of moves) {
-          if (token.isCancellationRequested) {
-            break;
-          }
-          const srcConn = sourceConnections.get(entry.connectionId)!;
-          const sameHost = srcConn.id === destConnection.id;
-          const destName = this.fileService.nextCopyName(entry.name, existingNames);
-          existingNames.add(destName);
-          const destPath = destFolder.endsWith('/') ? `${destFolder}${destName}` : `${destFolder}/${destName}`;
-
-          progress.report({ message: `${done + 1}/${moves.length}: ${entry.name}` });
-
-          try {
-            if (sameHost) {
-              await this.fileService.moveRemoteSameHost(srcConn, entry.remotePath, destPath);
-            } else {
-              await this.fileService.copyRemoteCrossHost(
-                srcConn, entry.remotePath, destConnection, destPath, entry.isDirectory, token
-              );
-              try {
-                await this.fileService.deleteRemotePath(srcConn, entry.remotePath, entry.isDirectory);
-              } catch (delErr) {
-                vscode.window.showWarningMessage(
-                  `Moved ${entry.name} to destination, but failed to remove the source copy: ${(delErr as Error).message}`
+        // One undo entry per source host for the whole drop
+        await RemoteUndoService.getInstance().batch(`Move ${moves.length} items → ${destFolder}/`, async () => {
+          for (const entry of moves) {
+            if (token.isCancellationRequested) {
+              break;
+            }
+            const srcConn = sourceConnections.get(entry.connectionId)!;
+            const sameHost = srcConn.id === destConnection.id;
+            const destName = this.fileService.nextCopyName(entry.name, existingNames);
+            existingNames.add(destName);
+            const destPath = destFolder.endsWith('/') ? `${destFolder}${destName}` : `${destFolder}/${destName}`;
+
+            progress.report({ message: `${done + 1}/${moves.length}: ${entry.name}` });
+
+            try {
+              if (sameHost) {
+                await this.fileService.moveRemoteSameHost(srcConn, entry.remotePath, destPath, entry.isDirectory);
+              } else {
+                await this.fileService.copyRemoteCrossHost(
+                  srcConn, entry.remotePath, destConnection, destPath, entry.isDirectory, token
                 );
+                try {
+                  await this.fileService.deleteRemotePath(srcConn, entry.remotePath, entry.isDirectory, { backup: true });
+                } catch (delErr) {
+                  vscode.window.showWarningMessage(
+                    `Moved ${entry.name} to destination, but failed to remove the source copy: ${(delErr as Error).message}`
+                  );
+                }
               }
+              movedSources.push({ connId: srcConn.id, srcPath: entry.remotePath });
+              done++;
+              infoLog('file-tree-dnd', 'drop-move-ok', { name: entry.name, destPath, sameHost });
+            } catch (err) {
+              infoLog('file-tree-dnd', 'drop-move-fail', { name: entry.name, error: (err as Error).message });
+              vscode.window.showErrorMessage(`Failed to move ${entry.name}: ${(err as Error).message}`);
             }
-            movedSources.push({ connId: srcConn.id, srcPath: entry.remotePath });
-            done++;
-            infoLog('file-tree-dnd', 'drop-move-ok', { name: entry.name, destPath, sameHost });
-          } catch (err) {
-            infoLog('file-tree-dnd', 'drop-move-fail', { name: entry.name, error: (err as Error).message });
-            vscode.window.showErrorMessage(`Failed to move ${entry.name}: ${(err as Error).message}`);
           }
-        }
+        });
 
         // Refresh the destination and every distinct source folder so the move is visible.
         this.refreshFolder(destConnection.id, destFolder);
@@ -0,0 +1,98 @@
+/**
+ * FolderCompareTreeProvider tests
+ *
+ * Tests the Folder Compare view:
+ * - Differences nested by folder, folders first, each folder carrying its entries
+ * - Entry descriptions, context values and the click-to-diff command
+ * - Empty states (no comparison, identical folders) and the view title
+ */
+
+jest.mock('../services/CommandGuard', () => ({
+  CommandGuard: { getInstance: jest.fn().mockReturnValue({}) },
+}));
+jest.mock('../services/AuditService', () => ({
+  AuditService: { getInstance: jest.fn().mockReturnValue({ log: jest.fn() }) },
+}));
+
+import {
+  FolderCompareTreeProvider,
+  CompareEntryTreeItem,
+  CompareFolderTreeItem,
+  NoDifferencesTreeItem,
+  describeComparison,
+} from './FolderCompareTreeProvider';
+import { FolderCompareService, FolderComparison } from '../services/FolderCompareService';
+
+const T = 1_700_000_000_000;
+
+function comparison(over: Partial<FolderComparison> = {}): FolderComparison {
+  return {
+    left: { connection: { host: { name: 'prod' } } as any, path: '/var/www' },
+    right: { path: '/home/me/www' },
+    mode: 'mtime',
+    excludes: [],
+    entries: [
+      { path: 'index.html', status: 'modified', left: { size: 1024, mtime: T }, right: { size: 2048, mtime: T } },
+      { path: 'lib/a.js', status: 'added', right: { size: 10, mtime: T } },
+      { path: 'lib/deep/b.js', status: 'removed', left: { size: 20, mtime: T } },
+    ],
+    identical: 4,
+    checksumUnavailable: false,
+    ...over,
+  };
+}
+
+describe('FolderCompareTreeProvider', () => {
+  let provider: FolderCompareTreeProvider;
+  let current: FolderComparison | undefined;
+
+  beforeEach(() => {
+    (FolderCompareService as any)._instance = undefined;
+    current = comparison();
+    jest.spyOn(FolderCompareService.getInstance(), 'getComparison').mockImplementation(() => current);
+    provider = new FolderCompareTreeProvider();
+  });
+
+  afterEach(() => {
+    provider.dispose();
+  });
+
+  it('shows nothing without a comparison', async () => {
+    current = undefined;
+    expect(await provider.getChildren()).toEqual([]);
+  });
+
+  it('lists folders first, then files, at each level', async () => {
+    const root = await provider.getChildren();
+    expect(root.map((i) => i.label)).toEqual(['lib', 'index.html']);
+
+    const lib = root[0] as CompareFolderTreeItem;
+    expect(lib.entries.map((e) => e.path)).toEqual(['lib/a.js', 'lib/deep/b.js']);
+    expect(lib.description).toBe('1 added, 1 removed');
+
+    const inLib = await provider.getChildren(lib);
+    expect(inLib.map((i) => i.label)).toEqual(['deep', 'a.js']);
+  });
+
+  it('describes entries and opens a diff on click', async () => {
+    const [, index] = await provider.getChildren();
+    const item = index as CompareEntryTreeItem;
+
+    expect(item.contextValue).toBe('compareEntry.modified');
+    expect(item.description).toBe('modified · 1 KB → 2 KB');
+    expect(item.command).toEqual(expect.objectContaining({ command: 'sshLite.openCompareEntry', arguments: [item] }));
+    expect(item.entries).toEqual([item.entry]);
+  });
+
+  it('says so when the folders are identical', async () => {
+    current = comparison({ entries: [] });
+    const [item] = await provider.getChildren();
+
+    expect(item).toBeInstanceOf(NoDifferencesTreeItem);
+    expect(item.description).toBe('4 files compared');
+  });
+
+  it('describes both sides and the remaining differences in the view title', () => {
+    expect(describeComparison(comparison())).toBe('prod:/var/www ↔ /home/me/www · 1 added, 1 removed, 1 modified');
+  });
+});
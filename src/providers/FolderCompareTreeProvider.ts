@@ -0,0 +1,195 @@
+/*
+ * Copyright 2026 SSH Lite Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode';
+import { CompareStatus, ICompareEntry, ISyncFileState } from '../types';
+import { FolderCompareService, FolderComparison, describeSide } from '../services/FolderCompareService';
+import { entriesUnder, summarizeComparison } from '../utils/folderCompare';
+import { formatFileSize } from '../utils/helpers';
+
+/**
+ * Tree item for one differing file
+ */
+export class CompareEntryTreeItem extends vscode.TreeItem {
+  constructor(public readonly entry: ICompareEntry, comparison: FolderComparison) {
+    super(entry.path.split('/').pop() || entry.path, vscode.TreeItemCollapsibleState.None);
+    this.id = `compare:${entry.path}`;
+    this.contextValue = `compareEntry.${entry.status}`;
+    this.iconPath = getStatusIcon(entry.status);
+    this.description = describeEntry(entry);
+    this.tooltip = new vscode.MarkdownString(
+      `**${entry.path}**\n\n` +
+      `${getStatusLabel(entry.status)}\n\n` +
+      `Left (${describeSide(comparison.left)}): ${describeState(entry.left)}\n\n` +
+      `Right (${describeSide(comparison.right)}): ${describeState(entry.right)}`
+    );
+    this.command = {
+      command: 'sshLite.openCompareEntry',
+      title: 'Show Differences',
+      arguments: [this],
+    };
+  }
+
+  /** The entries a copy from this item covers */
+  get entries(): ICompareEntry[] {
+    return [this.entry];
+  }
+}
+
+/**
+ * Tree item for a folder that contains differences
+ */
+export class CompareFolderTreeItem extends vscode.TreeItem {
+  constructor(public readonly folderPath: string, public readonly entries: ICompareEntry[]) {
+    super(folderPath.split('/').pop() || folderPath, vscode.TreeItemCollapsibleState.Collapsed);
+    this.id = `compare-folder:${folderPath}`;
+    this.contextValue = 'compareFolder';
+    this.iconPath = vscode.ThemeIcon.Folder;
+    this.description = summarizeComparison(entries);
+  }
+}
+
+/**
+ * "Folders are identical" placeholder item
+ */
+export class NoDifferencesTreeItem extends vscode.TreeItem {
+  constructor(comparison: FolderComparison) {
+    super('Folders are identical', vscode.TreeItemCollapsibleState.None);
+    this.contextValue = 'compareIdentical';
+    this.iconPath = new vscode.ThemeIcon('check-all', new vscode.ThemeColor('charts.green'));
+    this.description = `${comparison.identical} file${comparison.identical === 1 ? '' : 's'} compared`;
+  }
+}
+
+type TreeItem = CompareEntryTreeItem | CompareFolderTreeItem | NoDifferencesTreeItem;
+
+/**
+ * Tree data provider for the Folder Compare view: the differences of the
+ * current comparison, nested by folder
+ */
+export class FolderCompareTreeProvider implements vscode.TreeDataProvider<TreeItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<TreeItem | undefined | null>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private service: FolderCompareService;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.service = FolderCompareService.getInstance();
+    this.disposables.push(this.service.onDidChange(() => this.refresh()));
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  getTreeItem(element: TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: TreeItem): Thenable<TreeItem[]> {
+    const comparison = this.service.getComparison();
+    if (!comparison) {
+      return Promise.resolve([]);
+    }
+    if (!element) {
+      if (comparison.entries.length === 0) {
+        return Promise.resolve([new NoDifferencesTreeItem(comparison)]);
+      }
+      return Promise.resolve(this.childrenOf(comparison, ''));
+    }
+    if (element instanceof CompareFolderTreeItem) {
+      return Promise.resolve(this.childrenOf(comparison, element.folderPath));
+    }
+    return Promise.resolve([]);
+  }
+
+  /** Direct children of a folder (relative path, `''` for the root): subfolders first */
+  private childrenOf(comparison: FolderComparison, folder: string): TreeItem[] {
+    const prefix = folder ? `${folder}/` : '';
+    const folders = new Set<string>();
+    const files: CompareEntryTreeItem[] = [];
+    for (const entry of entriesUnder(comparison.entries, folder)) {
+      const rest = entry.path.slice(prefix.length);
+      const slash = rest.indexOf('/');
+      if (slash >= 0) {
+        folders.add(prefix + rest.slice(0, slash));
+      } else {
+        files.push(new CompareEntryTreeItem(entry, comparison));
+      }
+    }
+    const folderItems = [...folders]
+      .sort((a, b) => a.localeCompare(b))
+      .map((f) => new CompareFolderTreeItem(f, entriesUnder(comparison.entries, f)));
+    return [...folderItems, ...files];
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) {
+      d.dispose();
+    }
+    this._onDidChangeTreeData.dispose();
+  }
+}
+
+/**
+ * View title line, e.g. "web1:/var/www ↔ web2:/var/www · 2 added, 1 modified"
+ */
+export function describeComparison(comparison: FolderComparison): string {
+  return `${describeSide(comparison.left)} ↔ ${describeSide(comparison.right)} · ${summarizeComparison(comparison.entries)}`;
+}
+
+// Helper functions
+
+function describeState(state?: ISyncFileState): string {
+  if (!state) {
+    return 'missing';
+  }
+  return `${formatFileSize(state.size)}, modified ${new Date(state.mtime).toLocaleString()}`;
+}
+
+function describeEntry(entry: ICompareEntry): string {
+  switch (entry.status) {
+    case 'added':
+      return `only right · ${formatFileSize(entry.right!.size)}`;
+    case 'removed':
+      return `only left · ${formatFileSize(entry.left!.size)}`;
+    case 'modified':
+      return entry.left!.size === entry.right!.size
+        ? `modified · ${formatFileSize(entry.left!.size)}`
+        : `modified · ${formatFileSize(entry.left!.size)} → ${formatFileSize(entry.right!.size)}`;
+  }
+}
+
+function getStatusLabel(status: CompareStatus): string {
+  const labels: Record<CompareStatus, string> = {
+    added: 'Only in the right folder',
+    removed: 'Only in the left folder',
+    modified: 'Different on each side',
+  };
+  return labels[status];
+}
+
+function getStatusIcon(status: CompareStatus): vscode.ThemeIcon {
+  switch (status) {
+    case 'added':
+      return new vscode.ThemeIcon('diff-added', new vscode.ThemeColor('charts.green'));
+    case 'removed':
+      return new vscode.ThemeIcon('diff-removed', new vscode.ThemeColor('charts.red'));
+    case 'modified':
+      return new vscode.ThemeIcon('diff-modified', new vscode.ThemeColor('charts.yellow'));
+  }
+}
@@ -19,6 +19,9 @@ var mockGetAllConnections = jest.fn().mockReturnValue([]);
 var mockListCredentials = jest.fn().mockReturnValue([]);
 var mockGetLastConnectionAttempt = jest.fn().mockReturnValue(undefined);
 var mockGetConnection = jest.fn().mockReturnValue(undefined);
+var mockGetHealth = jest.fn().mockReturnValue(undefined);
+var mockReadSshCertificate = jest.fn().mockReturnValue(undefined);
+var mockHealthEmitter: any;
 let mockConnectionChangeCallback: (() => void) | null = null;
 
 jest.mock('../services/HostService', () => ({
@@ -32,6 +35,7 @@ jest.mock('../services/HostService', () => ({
 jest.mock('../connection/ConnectionManager', () => {
   const { EventEmitter } = require('../__mocks__/vscode');
   const emitter = new EventEmitter();
+  mockHealthEmitter = new EventEmitter();
   // Capture the callback registered by HostTreeProvider
   const origEvent = emitter.event;
   emitter.event = (listener: any) => {
@@ -46,6 +50,8 @@ jest.mock('../connection/ConnectionManager', () => {
         get getLastConnectionAttempt() { return mockGetLastConnectionAttempt; },
         getReconnectingConnections: jest.fn().mockReturnValue([]),
         getConnection: mockGetConnection,
+        getHealth: mockGetHealth,
+        onDidChangeHealth: mockHealthEmitter.event,
       })),
     },
   };
@@ -59,6 +65,11 @@ jest.mock('../services/CredentialService', () => ({
   },
 }));
 
+jest.mock('../utils/sshCertificate', () => ({
+  ...jest.requireActual('../utils/sshCertificate'),
+  readSshCertificate: (...args: unknown[]) => mockReadSshCertificate(...args),
+}));
+
 import {
   HostTreeProvider,
   ServerTreeItem,
@@ -66,7 +77,10 @@ import {
   PinnedFolderTreeItem,
   AddCredentialTreeItem,
   ProtocolGroupTreeItem,
+  SyncProfileTreeItem,
 } from './HostTreeProvider';
+import { FolderSyncService } from '../services/FolderSyncService';
+import { ISyncProfile } from '../types';
 
 describe('HostTreeProvider', () => {
   let provider: HostTreeProvider;
@@ -190,6 +204,71 @@ describe('HostTreeProvider', () => {
       mockGetConnection.mockReturnValue(undefined);
     });
 
+    it('should mark the host while agent forwarding is active', () => {
+      const host = createMockHostConfig({ id: '10.0.0.1:22:user', host: '10.0.0.1', port: 22, username: 'user', name: 'S1' });
+      const mockConn = { id: '10.0.0.1:22:user', state: ConnectionState.Connected };
+      mockGetAllHosts.mockReturnValue([host]);
+      mockGetAllConnections.mockReturnValue([mockConn]);
+      mockGetConnection.mockReturnValue({ agentForwardingActive: true });
+
+      const items = provider.getChildren() as ServerTreeItem[];
+      expect(items[0].description).toContain('(agent forwarded)');
+      expect((items[0].tooltip as any).value ?? items[0].tooltip).toContain('Agent forwarding: active');
+
+      mockGetConnection.mockReturnValue(undefined);
+    });
+
+    it('should mark an SFTP-only server so shell menus hide', () => {
+      const host = createMockHostConfig({ id: '10.0.0.1:22:user', host: '10.0.0.1', port: 22, username: 'user', name: 'S1', source: 'saved' });
+      const mockConn = { id: '10.0.0.1:22:user', state: ConnectionState.Connected };
+      mockGetAllHosts.mockReturnValue([host]);
+      mockGetAllConnections.mockReturnValue([mockConn]);
+      mockGetConnection.mockReturnValue({ sftpOnly: true });
+
+      const items = provider.getChildren() as ServerTreeItem[];
+      expect(items[0].contextValue).toBe('connectedServer.sftp.saved');
+      expect(items[0].description).toContain('(SFTP only)');
+
+      mockGetConnection.mockReturnValue(undefined);
+    });
+
+    it('should show connection health in the tooltip', () => {
+      const host = createMockHostConfig({ id: '10.0.0.1:22:user', host: '10.0.0.1', port: 22, username: 'user', name: 'S1' });
+      const mockConn = { id: '10.0.0.1:22:user', state: ConnectionState.Connected };
+      mockGetAllHosts.mockReturnValue([host]);
+      mockGetAllConnections.mockReturnValue([mockConn]);
+      mockGetConnection.mockReturnValue({});
+      mockGetHealth.mockReturnValue({ status: 'slow-server', transportMs: 40, sftpMs: 900, drops: 1, reconnects: 1 });
+
+      const items = provider.getChildren() as ServerTreeItem[];
+      const tooltip = (items[0].tooltip as any).value ?? items[0].tooltip;
+      expect(tooltip).toContain('- Health: slow server');
+      expect(tooltip).toContain('- Latency: network 40 ms, SFTP 900 ms');
+      expect(tooltip).toContain('- Drops: 1, reconnects: 1');
+      expect(mockGetHealth).toHaveBeenCalledWith('10.0.0.1:22:user');
+
+      mockGetConnection.mockReturnValue(undefined);
+      mockGetHealth.mockReturnValue(undefined);
+    });
+
+    it('should redraw only the sampled server when its health changes', () => {
+      const host = createMockHostConfig({ id: '10.0.0.1:22:user', host: '10.0.0.1', port: 22, username: 'user', name: 'S1' });
+      const other = createMockHostConfig({ id: '10.0.0.2:22:user', host: '10.0.0.2', port: 22, username: 'user', name: 'S2' });
+      mockGetAllHosts.mockReturnValue([host, other]);
+      mockGetAllConnections.mockReturnValue([{ id: host.id, state: ConnectionState.Connected }]);
+      mockGetConnection.mockReturnValue({ host });
+
+      const [item] = provider.getChildren() as ServerTreeItem[];
+      const fired: unknown[] = [];
+      provider.onDidChangeTreeData((e) => fired.push(e));
+      mockHealthEmitter.fire({ connectionId: host.id, health: { status: 'healthy', transportMs: 12, sftpMs: 30, drops: 0, reconnects: 0 } });
+
+      expect(fired).toEqual([item]);
+      expect((item.tooltip as any).value).toContain('- Latency: network 12 ms, SFTP 30 ms');
+
+      mockGetConnection.mockReturnValue(undefined);
+    });
+
     it('should show vm icon when has saved credentials', () => {
       const host = createMockHostConfig({ id: 'h1' });
       mockGetAllHosts.mockReturnValue([host]);
@@ -282,6 +361,36 @@ describe('HostTreeProvider', () => {
       expect(item.description).toBe('Private Key');
     });
 
+    describe('certificate credential', () => {
+      const cert = (validBefore: Date) => ({
+        keyId: 'alice-2026',
+        principals: ['alice', 'deploy'],
+        validAfter: undefined,
+        validBefore,
+      });
+      const certCred = () => createMockCredential({ type: 'certificate', privateKeyPath: '/keys/id_ed25519' });
+
+      it('shows principals and expiry, reading <key>-cert.pub by default', () => {
+        mockReadSshCertificate.mockReturnValue(cert(new Date(Date.now() + 3 * 3600_000 + 30_000)));
+        const item = new UserCredentialTreeItem(createMockHostConfig(), certCred(), false);
+        expect(mockReadSshCertificate).toHaveBeenCalledWith('/keys/id_ed25519-cert.pub');
+        expect(item.description).toBe('alice, deploy · expires in 3h');
+        expect(item.tooltip).toContain('Key ID: alice-2026');
+        expect((item.iconPath as { id: string }).id).toBe('key');
+      });
+
+      it('flags an expired or missing certificate', () => {
+        mockReadSshCertificate.mockReturnValue(cert(new Date(Date.now() - 3600_000)));
+        const expired = new UserCredentialTreeItem(createMockHostConfig(), certCred(), false);
+        expect(expired.description).toBe('alice, deploy · expired 1h ago');
+        expect((expired.iconPath as { id: string }).id).toBe('warning');
+
+        mockReadSshCertificate.mockReturnValue(undefined);
+        const missing = new UserCredentialTreeItem(createMockHostConfig(), certCred(), false);
+        expect(missing.description).toBe('Certificate missing');
+      });
+    });
+
     it('should show "No password saved" when no credential', () => {
       const host = createMockHostConfig();
       const item = new UserCredentialTreeItem(host, null, false);
@@ -397,6 +506,53 @@ describe('HostTreeProvider', () => {
     });
   });
 
+  describe('sync profiles', () => {
+    const profile: ISyncProfile = {
+      id: 'sync-1',
+      name: 'Website',
+      hostId: '',
+      localPath: '/home/me/site',
+      remotePath: '/var/www/site',
+      direction: 'upload',
+      excludes: ['node_modules'],
+      useChecksum: false,
+    };
+
+    it('shows the folder pair and runs the sync on click', () => {
+      const host = createMockHostConfig();
+      const item = new SyncProfileTreeItem(host, { ...profile, hostId: host.id });
+      expect(item.label).toBe('Website');
+      expect(item.description).toBe('site → /var/www/site');
+      expect(item.contextValue).toBe('syncProfile');
+      expect(item.tooltip).toContain('Excludes: node_modules');
+      expect(item.tooltip).toContain('Never synced');
+      expect(item.command?.command).toBe('sshLite.runSyncProfile');
+      expect(item.command?.arguments).toEqual([item]);
+    });
+
+    it('lists the host\'s profiles after its pinned folders', async () => {
+      const storage = new Map<string, unknown>();
+      FolderSyncService.getInstance().initialize({
+        globalState: {
+          get: (k: string, def?: unknown) => storage.get(k) ?? def,
+          update: (k: string, v: unknown) => { storage.set(k, v); return Promise.resolve(); },
+        },
+      } as any);
+      const host = createMockHostConfig();
+      await FolderSyncService.getInstance().saveProfile({ ...profile, hostId: host.id });
+      await FolderSyncService.getInstance().saveProfile({ ...profile, id: 'sync-2', hostId: 'elsewhere' });
+      const cred = createMockCredential({ pinnedFolders: [createMockPinnedFolder()] });
+
+      const children = provider.getChildren(new UserCredentialTreeItem(host, cred, false, true));
+
+      expect(children).toHaveLength(2);
+      expect(children[0]).toBeInstanceOf(PinnedFolderTreeItem);
+      expect(children[1]).toBeInstanceOf(SyncProfileTreeItem);
+      await FolderSyncService.getInstance().deleteProfile('sync-1');
+      await FolderSyncService.getInstance().deleteProfile('sync-2');
+    });
+  });
+
   describe('host filter', () => {
     const setupHosts = () => {
       const hosts: IHostConfig[] = [
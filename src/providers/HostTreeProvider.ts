@@ -2,10 +2,14 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { HostService } from '../services/HostService';
 import { ConnectionManager } from '../connection/ConnectionManager';
+import { formatHealthLines } from '../connection/connectionHealth';
 import { CredentialService, SavedCredential, PinnedFolder } from '../services/CredentialService';
-import { IHostConfig, ILastConnectionAttempt, ConnectionType } from '../types';
-import { formatRelativeTime } from '../utils/helpers';
+import { FolderSyncService } from '../services/FolderSyncService';
+import { IHostConfig, ILastConnectionAttempt, ConnectionType, IConnectionHealth, ISyncProfile } from '../types';
+import { expandPath, formatRelativeTime } from '../utils/helpers';
 import { isEndpointHost } from '../utils/hostId';
+import { describeJumpChain } from '../utils/proxyJump';
+import { certificatePathFor, certificateValidity, describeCertificate, readSshCertificate } from '../utils/sshCertificate';
 
 // Get extension path for custom icons
 let extensionPath: string = '';
@@ -27,6 +31,8 @@ export class ServerTreeItem extends vscode.TreeItem {
   public readonly serverKey: string;
   public readonly hosts: IHostConfig[]; // All host configs for this server (different usernames)
   public readonly isConnected: boolean;
+  // Tooltip text above the health lines, for setHealth()
+  private readonly statusTooltip?: string;
 
   constructor(
     serverKey: string,
@@ -34,7 +40,10 @@ export class ServerTreeItem extends vscode.TreeItem {
     isConnected: boolean,
     lastFailedAttempt?: ILastConnectionAttempt,
     isReconnecting?: boolean,
-    isSudoMode?: boolean
+    isSudoMode?: boolean,
+    isAgentForwarding?: boolean,
+    isSftpOnly?: boolean,
+    health?: IConnectionHealth
   ) {
     // Use first host's name as display name
     const displayName = hosts[0].name;
@@ -49,8 +58,11 @@ export class ServerTreeItem extends vscode.TreeItem {
     // VS Code uses ID to track tree item identity; changing ID resets expansion
     this.id = `server:${serverKey}`;
 
-    // Description shows host:port only (no username)
-    this.description = serverKey;
+    // Description shows host:port only (no username), plus the bastion chain
+    // when the server is reached through jump hosts.
+    const jumpHosts = hosts.find(h => h.jumpHosts?.length)?.jumpHosts;
+    const viaChain = jumpHosts ? describeJumpChain(jumpHosts) : '';
+    this.description = viaChain ? `${serverKey} via ${viaChain}` : serverKey;
 
     // Set context value and icon based on connection status and source
     // Always use ThemeIcon to avoid VS Code SVG caching issues
@@ -62,8 +74,9 @@ export class ServerTreeItem extends vscode.TreeItem {
     // FTP servers get a `.ftp` marker immediately after `connectedServer` so the
     // shell-only `when` clauses (terminal, monitor, tools, backups, sudo) can
     // exclude them via a `(?!\.ftp)` lookahead. Sudo never applies to FTP.
+    // SFTP-only servers get `.sftp`, hidden from the shell rows by `(?!\.s?ftp)`.
     const isFtp = hosts.some(h => h.connectionType === 'ftp');
-    const ftpMark = isFtp ? '.ftp' : '';
+    const ftpMark = isFtp ? '.ftp' : isConnected && isSftpOnly ? '.sftp' : '';
 
     if (isReconnecting) {
       // Reconnecting: show spinning icon and reconnectingServer contextValue so disconnect button appears
@@ -74,7 +87,7 @@ export class ServerTreeItem extends vscode.TreeItem {
       const base = isSavedOrHasCredentials ? 'connectedServer.saved' : 'connectedServer';
       this.contextValue = `${base}.sudo`;
       this.iconPath = new vscode.ThemeIcon('shield', new vscode.ThemeColor('charts.yellow'));
-      this.description = `${serverKey} (sudo)`;
+      this.description = `${this.description} (sudo)`;
     } else if (isConnected) {
       // Use different context for saved vs config hosts so menu items work correctly
       this.contextValue = isSavedOrHasCredentials ? `connectedServer${ftpMark}.saved` : `connectedServer${ftpMark}`;
@@ -90,13 +103,25 @@ export class ServerTreeItem extends vscode.TreeItem {
       this.iconPath = new vscode.ThemeIcon('vm-outline');
     }
 
+    // The server holds a socket back to this machine's agent while forwarding is on
+    if (isConnected && isAgentForwarding) {
+      this.description = `${this.description} (agent forwarded)`;
+    }
+    if (isConnected && isSftpOnly) {
+      this.description = `${this.description} (SFTP only)`;
+    }
+
     // Tooltip with server info + failed connection details. Endpoint records have
     // no username — filter them out so an empty server reads "(no accounts)".
     const usernames = hosts.map(h => h.username).filter(Boolean).join(', ') || '(no accounts)';
+    const viaLine = jumpHosts
+      ? `- Via: ${jumpHosts.map(h => `${h.username}@${h.host}:${h.port}`).join(' → ')}\n`
+      : '';
     if (isReconnecting) {
       this.tooltip = new vscode.MarkdownString(
         `**${displayName}**\n\n` +
           `- Server: ${serverKey}\n` +
+          viaLine +
           `- Users: ${usernames}\n` +
           `- Status: Reconnecting...`
       );
@@ -105,20 +130,37 @@ export class ServerTreeItem extends vscode.TreeItem {
       this.tooltip = new vscode.MarkdownString(
         `**${displayName}** \u26A0\uFE0F\n\n` +
           `- Server: ${serverKey}\n` +
+          viaLine +
           `- Users: ${usernames}\n` +
           `- Status: Last connection failed ${ago}\n` +
           `- Error: ${lastFailedAttempt.errorMessage || 'Unknown error'}`
       );
     } else {
-      this.tooltip = new vscode.MarkdownString(
+      this.statusTooltip =
         `**${displayName}**\n\n` +
-          `- Server: ${serverKey}\n` +
-          `- Users: ${usernames}\n` +
-          `- Status: ${isConnected ? 'Connected' : 'Disconnected'}`
-      );
+        `- Server: ${serverKey}\n` +
+        viaLine +
+        `- Users: ${usernames}\n` +
+        `- Status: ${isConnected ? 'Connected' : 'Disconnected'}` +
+        (isConnected && isAgentForwarding ? `\n- Agent forwarding: active (keys usable from remote shells)` : '') +
+        (isConnected && isSftpOnly ? `\n- Shell: not allowed (SFTP-only account; terminal, search and tools are off)` : '');
+      this.setHealth(health);
     }
   }
 
+  /**
+   * Show a new health sample in the tooltip without rebuilding the item
+   * (only for connected servers; the reconnecting/failed tooltips have none)
+   */
+  setHealth(health: IConnectionHealth | undefined): void {
+    if (this.statusTooltip === undefined) {
+      return;
+    }
+    this.tooltip = new vscode.MarkdownString(
+      this.statusTooltip + (this.isConnected && health ? `\n${formatHealthLines(health).join('\n')}` : '')
+    );
+  }
+
   /**
    * Get the primary host config (first one, usually the one user interacts with most)
    */
@@ -135,12 +177,12 @@ export class UserCredentialTreeItem extends vscode.TreeItem {
     public readonly hostConfig: IHostConfig,
     public readonly credential: SavedCredential | null, // null if no saved credential
     public readonly isConnected: boolean,
-    hasPinnedFolders: boolean = false
+    hasChildren: boolean = false
   ) {
     // Show username as label
     super(
       hostConfig.username,
-      hasPinnedFolders ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+      hasChildren ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
     );
 
     // Stable, unique id so two accounts (or a future blank label) never collapse
@@ -175,6 +217,36 @@ export class UserCredentialTreeItem extends vscode.TreeItem {
         arguments: [hostConfig, credential],
       };
     }
+
+    if (credential?.type === 'certificate') {
+      this.describeCertificateCredential(credential);
+    }
+  }
+
+  /** Certificate credentials show principals and expiry; an unusable certificate gets a warning icon. */
+  private describeCertificateCredential(credential: SavedCredential): void {
+    const certPath = credential.certificatePath
+      ?? (credential.privateKeyPath ? certificatePathFor(credential.privateKeyPath) : undefined);
+    const cert = certPath ? readSshCertificate(expandPath(certPath)) : undefined;
+    if (!cert) {
+      this.description = 'Certificate missing';
+      this.iconPath = new vscode.ThemeIcon('warning');
+      return;
+    }
+    this.description = describeCertificate(cert);
+    if (certificateValidity(cert).state !== 'valid') {
+      this.iconPath = new vscode.ThemeIcon('warning');
+    }
+    const lines = [
+      `${this.tooltip}`,
+      '',
+      `Certificate: ${certPath}`,
+      `Key: ${credential.privateKeyPath}`,
+      `Key ID: ${cert.keyId}`,
+      `Principals: ${cert.principals.length ? cert.principals.join(', ') : '(any)'}`,
+      `Valid: ${cert.validAfter?.toLocaleString() ?? 'always'} → ${cert.validBefore?.toLocaleString() ?? 'forever'}`,
+    ];
+    this.tooltip = lines.join('\n');
   }
 }
 
@@ -214,6 +286,38 @@ export class PinnedFolderTreeItem extends vscode.TreeItem {
   }
 }
 
+/**
+ * Tree item representing a saved folder sync profile; click to run it
+ */
+export class SyncProfileTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly hostConfig: IHostConfig,
+    public readonly profile: ISyncProfile
+  ) {
+    super(profile.name, vscode.TreeItemCollapsibleState.None);
+
+    this.id = `sync:${profile.id}`;
+    const arrow = profile.direction === 'upload' ? '→' : profile.direction === 'download' ? '←' : '⇄';
+    this.description = `${path.basename(profile.localPath)} ${arrow} ${profile.remotePath}`;
+    this.contextValue = 'syncProfile';
+    this.iconPath = new vscode.ThemeIcon('sync');
+    this.tooltip = [
+      profile.name,
+      `${profile.localPath} ${arrow} ${profile.remotePath}`,
+      profile.excludes.length ? `Excludes: ${profile.excludes.join(', ')}` : 'No excludes',
+      profile.useChecksum ? 'Compares checksums' : 'Compares size and modification time',
+      profile.lastSyncTime ? `Last synced ${formatRelativeTime(profile.lastSyncTime)}` : 'Never synced',
+      '',
+      'Click to compare and review changes',
+    ].join('\n');
+    this.command = {
+      command: 'sshLite.runSyncProfile',
+      title: 'Sync Now',
+      arguments: [this],
+    };
+  }
+}
+
 /**
  * Tree item for adding new credential/user
  */
@@ -258,14 +362,14 @@ export class CredentialTreeItem extends UserCredentialTreeItem {
   constructor(
     hostConfig: IHostConfig,
     credential: SavedCredential,
-    hasPinnedFolders: boolean = false,
+    hasChildren: boolean = false,
     isHostConnected: boolean = false
   ) {
-    super(hostConfig, credential, isHostConnected, hasPinnedFolders);
+    super(hostConfig, credential, isHostConnected, hasChildren);
   }
 }
 
-type TreeItemType = ProtocolGroupTreeItem | ServerTreeItem | UserCredentialTreeItem | AddCredentialTreeItem | PinnedFolderTreeItem;
+type TreeItemType = ProtocolGroupTreeItem | ServerTreeItem | UserCredentialTreeItem | AddCredentialTreeItem | PinnedFolderTreeItem | SyncProfileTreeItem;
 
 /**
  * Tree data provider for SSH hosts
@@ -277,6 +381,7 @@ export class HostTreeProvider implements vscode.TreeDataProvider<TreeItemType> {
   private hostService: HostService;
   private connectionManager: ConnectionManager;
   private credentialService: CredentialService;
+  private folderSyncService: FolderSyncService;
 
   // Filter pattern for host tree (matches against name, host, username)
   private filterPattern: string = '';
@@ -284,17 +389,36 @@ export class HostTreeProvider implements vscode.TreeDataProvider<TreeItemType> {
   // list of all servers. Default grouped; the extension restores the persisted
   // choice at startup via setGrouped().
   private grouped: boolean = true;
+  // Server rows as last shown, by server key, for targeted health redraws
+  private readonly serverItems = new Map<string, ServerTreeItem>();
   private readonly _connectionListenerDisposable: vscode.Disposable;
+  private readonly _healthListenerDisposable: vscode.Disposable;
+  private readonly _syncProfilesListenerDisposable: vscode.Disposable;
 
   constructor() {
     this.hostService = HostService.getInstance();
     this.connectionManager = ConnectionManager.getInstance();
     this.credentialService = CredentialService.getInstance();
+    this.folderSyncService = FolderSyncService.getInstance();
 
     // Refresh when connections change (store disposable to prevent leak)
     this._connectionListenerDisposable = this.connectionManager.onDidChangeConnections(() => {
       this.refresh();
     });
+    // Keep the latency figures in the server tooltips current. Only the
+    // sampled server's row changes, so redraw just that one.
+    this._healthListenerDisposable = this.connectionManager.onDidChangeHealth(({ connectionId, health }) => {
+      const host = this.connectionManager.getConnection(connectionId)?.host;
+      const item = host && this.serverItems.get(getServerKey(host));
+      if (item?.isConnected) {
+        item.setHealth(health);
+        this._onDidChangeTreeData.fire(item);
+      }
+    });
+    // Sync profiles are listed under their account
+    this._syncProfilesListenerDisposable = this.folderSyncService.onDidChangeProfiles(() => {
+      this.refresh();
+    });
   }
 
   /**
@@ -423,12 +547,17 @@ export class HostTreeProvider implements vscode.TreeDataProvider<TreeItemType> {
       return this.getUserCredentialItems(element);
     }
 
-    // User credential level: show pinned folders
-    if (element instanceof UserCredentialTreeItem && element.credential) {
-      const pinnedFolders = element.credential.pinnedFolders || [];
-      return pinnedFolders.map(
-        (folder) => new PinnedFolderTreeItem(element.hostConfig, element.credential!, folder, element.isConnected)
-      );
+    // User credential level: show pinned folders, then sync profiles
+    if (element instanceof UserCredentialTreeItem) {
+      const pinnedFolders = element.credential?.pinnedFolders || [];
+      return [
+        ...pinnedFolders.map(
+          (folder) => new PinnedFolderTreeItem(element.hostConfig, element.credential!, folder, element.isConnected)
+        ),
+        ...this.folderSyncService.getProfiles(element.hostConfig.id).map(
+          (profile) => new SyncProfileTreeItem(element.hostConfig, profile)
+        ),
+      ];
     }
 
     return [];
@@ -487,18 +616,23 @@ export class HostTreeProvider implements vscode.TreeDataProvider<TreeItemType> {
           }
         }
       }
-      // Check if any connected host has sudo mode active
+      // Check if any connected host has sudo mode / agent forwarding active, or is SFTP-only
       let isSudoMode = false;
+      let isAgentForwarding = false;
+      let isSftpOnly = false;
+      let health: IConnectionHealth | undefined;
       if (isConnected) {
         for (const h of serverHosts) {
           const conn = this.connectionManager.getConnection(h.id);
-          if (conn?.sudoMode) {
-            isSudoMode = true;
-            break;
-          }
+          isSudoMode ||= !!conn?.sudoMode;
+          isAgentForwarding ||= !!conn?.agentForwardingActive;
+          isSftpOnly ||= !!conn?.sftpOnly;
+          health ??= conn ? this.connectionManager.getHealth(h.id) : undefined;
         }
       }
-      items.push(new ServerTreeItem(serverKey, serverHosts, isConnected, lastFailedAttempt, isReconnecting, isSudoMode));
+      const item = new ServerTreeItem(serverKey, serverHosts, isConnected, lastFailedAttempt, isReconnecting, isSudoMode, isAgentForwarding, isSftpOnly, health);
+      this.serverItems.set(serverKey, item);
+      items.push(item);
     }
 
     return items;
@@ -525,8 +659,9 @@ export class HostTreeProvider implements vscode.TreeDataProvider<TreeItemType> {
       const credentials = this.credentialService.listCredentials(host.id);
       const primaryCredential = credentials.length > 0 ? credentials[0] : null;
       const hasPinnedFolders = primaryCredential?.pinnedFolders?.length ? primaryCredential.pinnedFolders.length > 0 : false;
+      const hasSyncProfiles = this.folderSyncService.getProfiles(host.id).length > 0;
 
-      items.push(new UserCredentialTreeItem(host, primaryCredential, isConnected, hasPinnedFolders));
+      items.push(new UserCredentialTreeItem(host, primaryCredential, isConnected, hasPinnedFolders || hasSyncProfiles));
     }
 
     // Add "Add User" item
@@ -548,6 +683,8 @@ export class HostTreeProvider implements vscode.TreeDataProvider<TreeItemType> {
    */
   dispose(): void {
     this._connectionListenerDisposable.dispose();
+    this._healthListenerDisposable.dispose();
+    this._syncProfilesListenerDisposable.dispose();
     this._onDidChangeTreeData.dispose();
   }
 }
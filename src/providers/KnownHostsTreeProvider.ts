@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { KnownHostsService, LegacyHostPin } from '../services/KnownHostsService';
+import { KnownHostEntry, fingerprintSHA256 } from '../utils/knownHosts';
+
+type KnownHostsTreeElement = KnownHostsFileTreeItem | KnownHostEntryTreeItem | LegacyPinsTreeItem | LegacyPinTreeItem;
+
+/**
+ * Tree item for one known_hosts file
+ */
+export class KnownHostsFileTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly file: string,
+    public readonly entries: KnownHostEntry[],
+    exists: boolean
+  ) {
+    super(path.basename(file), entries.length > 0
+      ? vscode.TreeItemCollapsibleState.Expanded
+      : vscode.TreeItemCollapsibleState.None);
+
+    this.id = `knownHostsFile:${file}`;
+    this.description = exists ? `${path.dirname(file)} · ${entries.length}` : `${path.dirname(file)} · not found`;
+    this.contextValue = exists ? 'knownHostsFile' : 'knownHostsFileMissing';
+    this.iconPath = new vscode.ThemeIcon('file');
+    this.tooltip = file;
+    this.resourceUri = vscode.Uri.file(file);
+  }
+}
+
+/**
+ * Tree item for one known_hosts line
+ */
+export class KnownHostEntryTreeItem extends vscode.TreeItem {
+  constructor(public readonly entry: KnownHostEntry) {
+    const label = entry.hashed ? '(hashed host)' : entry.hosts;
+    super(label, vscode.TreeItemCollapsibleState.None);
+
+    const fingerprint = fingerprintSHA256(entry.key);
+    this.id = `knownHost:${entry.file}:${entry.line}`;
+    this.description = `${entry.marker ? `@${entry.marker} ` : ''}${entry.keyType} ${fingerprint.slice(0, 19)}…`;
+    this.contextValue = entry.marker === 'cert-authority'
+      ? 'knownHostCA'
+      : entry.marker === 'revoked' ? 'knownHostRevoked' : 'knownHost';
+    this.iconPath = entry.marker === 'revoked'
+      ? new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('errorForeground'))
+      : entry.marker === 'cert-authority'
+        ? new vscode.ThemeIcon('verified')
+        : new vscode.ThemeIcon('key');
+
+    this.tooltip = new vscode.MarkdownString(
+      `**${entry.marker ? `@${entry.marker}` : 'Known host'}**\n\n` +
+        `- Hosts: \`${entry.hosts}\`\n` +
+        `- Key type: ${entry.keyType}\n` +
+        `- Fingerprint: \`${fingerprint}\`\n` +
+        (entry.comment ? `- Comment: ${entry.comment}\n` : '') +
+        `- Location: ${entry.file}:${entry.line}`
+    );
+  }
+}
+
+/**
+ * Group of fingerprints pinned by older versions (before known_hosts support)
+ */
+export class LegacyPinsTreeItem extends vscode.TreeItem {
+  constructor(public readonly pins: LegacyHostPin[]) {
+    super('Pinned by older SSH Lite', vscode.TreeItemCollapsibleState.Collapsed);
+    this.id = 'knownHostsLegacy';
+    this.description = `${pins.length} · moved to known_hosts on next connect`;
+    this.contextValue = 'knownHostsLegacy';
+    this.iconPath = new vscode.ThemeIcon('history');
+  }
+}
+
+export class LegacyPinTreeItem extends vscode.TreeItem {
+  constructor(public readonly pin: LegacyHostPin) {
+    super(pin.hostPort, vscode.TreeItemCollapsibleState.None);
+    this.id = `knownHostsLegacy:${pin.hostPort}`;
+    this.description = `SHA256:${pin.fingerprint.replace(/=+$/, '').slice(0, 12)}…`;
+    this.contextValue = 'knownHostLegacyPin';
+    this.iconPath = new vscode.ThemeIcon('pin');
+  }
+}
+
+/**
+ * Tree data provider for the Known Hosts view
+ */
+export class KnownHostsTreeProvider implements vscode.TreeDataProvider<KnownHostsTreeElement> {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<KnownHostsTreeElement | undefined | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private readonly service = KnownHostsService.getInstance();
+  private readonly serviceListener: vscode.Disposable;
+
+  constructor() {
+    this.serviceListener = this.service.onDidChange(() => this.refresh());
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: KnownHostsTreeElement): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: KnownHostsTreeElement): KnownHostsTreeElement[] {
+    if (element instanceof KnownHostsFileTreeItem) {
+      return element.entries.map((e) => new KnownHostEntryTreeItem(e));
+    }
+    if (element instanceof LegacyPinsTreeItem) {
+      return element.pins.map((p) => new LegacyPinTreeItem(p));
+    }
+    if (element) {
+      return [];
+    }
+
+    // Missing files are hidden, except the default user file new keys go to
+    const primary = this.service.resolveFiles().user[0];
+    const items: KnownHostsTreeElement[] = [];
+    for (const file of this.service.listFiles()) {
+      const exists = fs.existsSync(file);
+      if (exists || file === primary) {
+        items.push(new KnownHostsFileTreeItem(file, this.service.readEntries([file]), exists));
+      }
+    }
+    const pins = this.service.getLegacyPins();
+    if (pins.length > 0) {
+      items.push(new LegacyPinsTreeItem(pins));
+    }
+    return items;
+  }
+
+  dispose(): void {
+    this.serviceListener.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -221,6 +221,24 @@ describe('PortForwardTreeProvider', () => {
       expect(children.filter(c => c instanceof SavedForwardTreeItem)).toHaveLength(1);
     });
 
+    it('should match a remote forward the server picked a port for to its saved rule', async () => {
+      const host = createMockHostConfig({ id: '192.168.1.100:22:testuser' });
+      const mockConn = createMockConnection({ host });
+      const connectionManager = ConnectionManager.getInstance();
+      (connectionManager.getAllConnections as jest.Mock).mockReturnValue([mockConn]);
+
+      provider.addForward(mockConn.id, 3000, 'localhost', 41234, 'remote', 'localhost', 0);
+
+      mockGetAllHosts.mockReturnValue([host]);
+      mockGetSavedRules.mockReturnValue([
+        { id: 'pf_1', kind: 'remote', localPort: 3000, remoteHost: 'localhost', remotePort: 0, localHost: 'localhost' },
+      ]);
+
+      const children = await provider.getChildren();
+      expect(children).toHaveLength(1);
+      expect((children[0] as PortForwardTreeItem).forward.remotePort).toBe(41234);
+    });
+
     it('should show saved rules for hosts not in hostService', async () => {
       const connectionManager = ConnectionManager.getInstance();
       (connectionManager.getAllConnections as jest.Mock).mockReturnValue([]);
@@ -279,6 +297,83 @@ describe('PortForwardTreeProvider', () => {
       const item = new PortForwardTreeItem(forward, mockConn as any);
       expect(item.contextValue).toBe('forward');
     });
+
+    it('should label a local forward as target <-> local port', () => {
+      const mockConn = createMockConnection();
+      const forward = createMockPortForward({ connectionId: mockConn.id, localPort: 8080, remoteHost: 'db', remotePort: 5432 });
+      const item = new PortForwardTreeItem(forward, mockConn as any);
+      expect(item.label).toBe('db:5432 <-> localhost:8080');
+      expect((item.iconPath as any).id).toBe('arrow-swap');
+    });
+
+    it('should label a remote forward as server port -> local target', () => {
+      const mockConn = createMockConnection();
+      const forward = createMockPortForward({
+        connectionId: mockConn.id,
+        kind: 'remote',
+        localPort: 3000,
+        remoteHost: 'localhost',
+        remotePort: 9000,
+        localHost: '127.0.0.1',
+      });
+      const item = new PortForwardTreeItem(forward, mockConn as any);
+      expect(item.label).toBe(`${mockConn.host.host}:9000 -> 127.0.0.1:3000`);
+      expect((item.iconPath as any).id).toBe('arrow-left');
+      expect((item.tooltip as any).value).toContain('Remote (-R)');
+    });
+
+    it('should label a dynamic forward as a SOCKS proxy', () => {
+      const mockConn = createMockConnection();
+      const forward = createMockPortForward({ connectionId: mockConn.id, kind: 'dynamic', localPort: 1080, remoteHost: '', remotePort: 0 });
+      const item = new PortForwardTreeItem(forward, mockConn as any);
+      expect(item.label).toBe(`SOCKS localhost:1080 -> ${mockConn.host.host}`);
+      expect((item.iconPath as any).id).toBe('globe');
+    });
+  });
+
+  describe('forward kinds', () => {
+    it('should key remote forwards by server port so they do not collide with local ones', () => {
+      provider.addForward('conn1', 3000, 'localhost', 3000);
+      provider.addForward('conn1', 3000, 'localhost', 3000, 'remote', 'localhost');
+
+      expect(provider.getForwardsForConnection('conn1')).toHaveLength(2);
+
+      provider.removeForward(3000, 'conn1', 'remote');
+
+      const remaining = provider.getForwardsForConnection('conn1');
+      expect(remaining).toHaveLength(1);
+      expect(remaining[0].kind).toBeUndefined();
+    });
+
+    it('should store kind and local host on non-local forwards', () => {
+      provider.addForward('conn1', 3000, 'localhost', 9000, 'remote', '127.0.0.1');
+      provider.addForward('conn1', 1080, '', 0, 'dynamic');
+
+      const forwards = provider.getForwardsForConnection('conn1');
+      expect(forwards[0]).toMatchObject({ id: 'remote:9000:conn1', kind: 'remote', localHost: '127.0.0.1' });
+      expect(forwards[1]).toMatchObject({ id: '1080:conn1', kind: 'dynamic' });
+    });
+
+    it('should match saved rules to active forwards by kind', async () => {
+      const host = createMockHostConfig({ id: '192.168.1.100:22:testuser' });
+      const mockConn = createMockConnection({ host });
+      const connectionManager = ConnectionManager.getInstance();
+      (connectionManager.getAllConnections as jest.Mock).mockReturnValue([mockConn]);
+
+      provider.addForward(mockConn.id, 3000, 'localhost', 9000, 'remote', 'localhost');
+
+      mockGetAllHosts.mockReturnValue([host]);
+      mockGetSavedRules.mockReturnValue([
+        { id: 'pf_1', kind: 'remote', localPort: 3000, remoteHost: 'localhost', remotePort: 9000, localHost: 'localhost' },
+        { id: 'pf_2', localPort: 3000, remoteHost: 'localhost', remotePort: 9000 },
+        { id: 'pf_3', kind: 'dynamic', localPort: 1080, remoteHost: '', remotePort: 0 },
+      ]);
+
+      const children = await provider.getChildren();
+      expect(children.filter(c => c instanceof PortForwardTreeItem)).toHaveLength(1);
+      const saved = children.filter((c): c is SavedForwardTreeItem => c instanceof SavedForwardTreeItem);
+      expect(saved.map((c) => c.rule.id)).toEqual(['pf_2', 'pf_3']);
+    });
   });
 
   describe('cleanupDisconnectedForwards', () => {
@@ -1,12 +1,67 @@
 import * as vscode from 'vscode';
 import { ConnectionManager } from '../connection/ConnectionManager';
 import { SSHConnection } from '../connection/SSHConnection';
-import { IPortForward, ISavedPortForwardRule } from '../types';
+import { IPortForward, ISavedPortForwardRule, PortForwardKind } from '../types';
 import { PortForwardService } from '../services/PortForwardService';
 import { HostService } from '../services/HostService';
 
 type PortForwardTreeElement = PortForwardTreeItem | SavedForwardTreeItem;
 
+type ForwardFields = Pick<IPortForward, 'kind' | 'localPort' | 'remoteHost' | 'remotePort' | 'localHost'>;
+
+const KIND_ICONS: Record<PortForwardKind, string> = {
+  local: 'arrow-swap',
+  remote: 'arrow-left',
+  dynamic: 'globe',
+};
+
+/**
+ * Label and tooltip lines for a forward of any kind. `hostAddress` stands in
+ * for "localhost" on the server side, which would otherwise read as this machine.
+ */
+function describeForward(forward: ForwardFields, hostAddress: string): { label: string; details: string[]; hint: string } {
+  const serverSide = (host: string, port: number): string =>
+    !host || host === 'localhost' ? `${hostAddress}:${port}` : `${host}:${port}`;
+
+  switch (forward.kind) {
+    case 'remote': {
+      const target = `${forward.localHost || 'localhost'}:${forward.localPort}`;
+      const listen = serverSide(forward.remoteHost, forward.remotePort);
+      return {
+        label: `${listen} -> ${target}`,
+        details: [`Type: Remote (-R)`, `Server listens: \`${forward.remoteHost || 'localhost'}:${forward.remotePort}\``, `Forwards to: \`${target}\` (this machine)`],
+        hint: `Connections to ${listen} on the server reach ${target}`,
+      };
+    }
+    case 'dynamic':
+      return {
+        label: `SOCKS localhost:${forward.localPort} -> ${hostAddress}`,
+        details: [`Type: Dynamic SOCKS5 (-D)`, `Local: \`localhost:${forward.localPort}\``],
+        hint: `Point a browser or tool at SOCKS5 proxy localhost:${forward.localPort} to connect from ${hostAddress}`,
+      };
+    default: {
+      // Shows the actual remote target clearly (not just "localhost" which is relative to SSH server)
+      const remoteDisplay = serverSide(forward.remoteHost, forward.remotePort);
+      return {
+        label: `${remoteDisplay} <-> localhost:${forward.localPort}`,
+        details: [`Local: \`localhost:${forward.localPort}\``, `Remote: \`${forward.remoteHost}:${forward.remotePort}\``],
+        hint: `Connect to localhost:${forward.localPort} to reach ${remoteDisplay}`,
+      };
+    }
+  }
+}
+
+/** Key identifying a forward in the tree. Remote forwards are keyed by the server port. */
+function forwardId(kind: PortForwardKind | undefined, port: number, connectionId: string): string {
+  return kind === 'remote' ? `remote:${port}:${connectionId}` : `${port}:${connectionId}`;
+}
+
+/** Key matching an active forward against its saved rule (which keeps the port asked for) */
+function ruleKey(hostId: string, forward: ForwardFields & Pick<IPortForward, 'requestedRemotePort'>): string {
+  const remotePort = forward.requestedRemotePort ?? forward.remotePort;
+  return `${hostId}:${forward.kind ?? 'local'}:${forward.localPort}:${forward.remoteHost}:${remotePort}:${forward.localHost ?? ''}`;
+}
+
 /**
  * Tree item representing an active port forward
  */
@@ -15,28 +70,21 @@ export class PortForwardTreeItem extends vscode.TreeItem {
     public readonly forward: IPortForward,
     public readonly connection: SSHConnection
   ) {
-    // Format: remoteHost:remotePort <-> localhost:localPort
-    // Shows the actual remote target clearly (not just "localhost" which is relative to SSH server)
-    const remoteDisplay = forward.remoteHost === 'localhost'
-      ? `${connection.host.host}:${forward.remotePort}`
-      : `${forward.remoteHost}:${forward.remotePort}`;
-
-    super(
-      `${remoteDisplay} <-> localhost:${forward.localPort}`,
-      vscode.TreeItemCollapsibleState.None
-    );
+    // Format (local): remoteHost:remotePort <-> localhost:localPort
+    const { label, details, hint } = describeForward(forward, connection.host.host);
+
+    super(label, vscode.TreeItemCollapsibleState.None);
 
     this.description = connection.host.name;
     this.contextValue = 'forward';
-    this.iconPath = new vscode.ThemeIcon('arrow-swap', new vscode.ThemeColor('charts.blue'));
+    this.iconPath = new vscode.ThemeIcon(KIND_ICONS[forward.kind ?? 'local'], new vscode.ThemeColor('charts.blue'));
 
     this.tooltip = new vscode.MarkdownString(
       `**Port Forward**\n\n` +
-        `- Local: \`localhost:${forward.localPort}\`\n` +
-        `- Remote: \`${forward.remoteHost}:${forward.remotePort}\` (on ${connection.host.host})\n` +
-        `- Connection: ${connection.host.name}\n` +
+        details.map((line) => `- ${line}\n`).join('') +
+        `- Connection: ${connection.host.name} (${connection.host.host})\n` +
         `- Status: ${forward.active ? 'Active' : 'Stopped'}\n\n` +
-        `*Connect to localhost:${forward.localPort} to reach ${remoteDisplay}*`
+        `*${hint}*`
     );
   }
 }
@@ -51,24 +99,18 @@ export class SavedForwardTreeItem extends vscode.TreeItem {
     public readonly hostName: string,
     public readonly hostAddress: string
   ) {
-    const remoteDisplay = rule.remoteHost === 'localhost'
-      ? `${hostAddress}:${rule.remotePort}`
-      : `${rule.remoteHost}:${rule.remotePort}`;
+    const { label, details } = describeForward(rule, hostAddress);
 
-    super(
-      `${remoteDisplay} <-> localhost:${rule.localPort}`,
-      vscode.TreeItemCollapsibleState.None
-    );
+    super(label, vscode.TreeItemCollapsibleState.None);
 
     this.id = `saved:${hostId}:${rule.id}`;
     this.description = `${hostName} (saved)`;
     this.contextValue = 'savedForward';
-    this.iconPath = new vscode.ThemeIcon('arrow-swap', new vscode.ThemeColor('disabledForeground'));
+    this.iconPath = new vscode.ThemeIcon(KIND_ICONS[rule.kind ?? 'local'], new vscode.ThemeColor('disabledForeground'));
 
     this.tooltip = new vscode.MarkdownString(
       `**Saved Port Forward** (inactive)\n\n` +
-        `- Local: \`localhost:${rule.localPort}\`\n` +
-        `- Remote: \`${rule.remoteHost}:${rule.remotePort}\`\n` +
+        details.map((line) => `- ${line}\n`).join('') +
         `- Host: ${hostName}\n\n` +
         `*Click play to activate, or delete to remove saved rule*`
     );
@@ -83,7 +125,7 @@ export class PortForwardTreeProvider implements vscode.TreeDataProvider<PortForw
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
   private connectionManager: ConnectionManager;
-  private forwards: Map<string, IPortForward> = new Map(); // localPort:connectionId -> forward
+  private forwards: Map<string, IPortForward> = new Map(); // localPort:connectionId (remote:remotePort:connectionId) -> forward
 
   constructor() {
     this.connectionManager = ConnectionManager.getInstance();
@@ -103,27 +145,44 @@ export class PortForwardTreeProvider implements vscode.TreeDataProvider<PortForw
   }
 
   /**
-   * Add a port forward
+   * Add a port forward. For a remote forward, `remotePort` is the port the
+   * server bound and `requestedRemotePort` the one asked for, if different.
    */
-  addForward(connectionId: string, localPort: number, remoteHost: string, remotePort: number): void {
+  addForward(
+    connectionId: string,
+    localPort: number,
+    remoteHost: string,
+    remotePort: number,
+    kind: PortForwardKind = 'local',
+    localHost?: string,
+    requestedRemotePort?: number
+  ): void {
     const forward: IPortForward = {
-      id: `${localPort}:${connectionId}`,
+      id: forwardId(kind, kind === 'remote' ? remotePort : localPort, connectionId),
       connectionId,
       localPort,
       remoteHost,
       remotePort,
       active: true,
     };
+    if (kind !== 'local') {
+      forward.kind = kind;
+    }
+    if (localHost !== undefined) {
+      forward.localHost = localHost;
+    }
+    if (requestedRemotePort !== undefined && requestedRemotePort !== remotePort) {
+      forward.requestedRemotePort = requestedRemotePort;
+    }
     this.forwards.set(forward.id, forward);
     this.refresh();
   }
 
   /**
-   * Remove a port forward
+   * Remove a port forward. `port` is the local port, or the server port for a remote forward.
    */
-  removeForward(localPort: number, connectionId: string): void {
-    const id = `${localPort}:${connectionId}`;
-    this.forwards.delete(id);
+  removeForward(port: number, connectionId: string, kind?: PortForwardKind): void {
+    this.forwards.delete(forwardId(kind, port, connectionId));
     this.refresh();
   }
 
@@ -175,7 +234,7 @@ export class PortForwardTreeProvider implements vscode.TreeDataProvider<PortForw
       const connection = connectionMap.get(forward.connectionId);
       if (connection) {
         items.push(new PortForwardTreeItem(forward, connection));
-        activeKeys.add(`${forward.connectionId}:${forward.localPort}:${forward.remoteHost}:${forward.remotePort}`);
+        activeKeys.add(ruleKey(forward.connectionId, forward));
       }
     }
 
@@ -187,8 +246,7 @@ export class PortForwardTreeProvider implements vscode.TreeDataProvider<PortForw
     for (const host of allHosts) {
       const savedRules = portForwardService.getSavedRules(host.id);
       for (const rule of savedRules) {
-        const key = `${host.id}:${rule.localPort}:${rule.remoteHost}:${rule.remotePort}`;
-        if (!activeKeys.has(key)) {
+        if (!activeKeys.has(ruleKey(host.id, rule))) {
           items.push(new SavedForwardTreeItem(rule, host.id, host.name, host.host));
         }
       }
@@ -204,8 +262,7 @@ export class PortForwardTreeProvider implements vscode.TreeDataProvider<PortForw
       const savedRules = portForwardService.getSavedRules(hostId);
       const [hostAddr] = hostId.split(':');
       for (const rule of savedRules) {
-        const key = `${hostId}:${rule.localPort}:${rule.remoteHost}:${rule.remotePort}`;
-        if (!activeKeys.has(key)) {
+        if (!activeKeys.has(ruleKey(hostId, rule))) {
           items.push(new SavedForwardTreeItem(rule, hostId, hostId, hostAddr));
         }
       }
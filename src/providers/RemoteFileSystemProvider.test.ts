@@ -0,0 +1,352 @@
+/**
+ * RemoteFileSystemProvider tests
+ *
+ * Covers:
+ *  - stat / readDirectory / readFile map IRemoteFile onto VS Code's types,
+ *    links carrying the SymbolicLink bit; delete and rename never touch a link's target
+ *  - writeFile create/overwrite semantics and change events
+ *  - recursive delete through FileService, rename with and without overwrite
+ *  - transport errors become FileSystemError (FileNotFound, NoPermissions)
+ *  - auto-connect to the saved host, once per burst, for a cold URI
+ *  - watch(): native watcher when available (never stopping one it did not
+ *    start), stat poll otherwise, listing diff for folders
+ */
+
+import { ConnectionState, IRemoteFile } from '../types';
+import { createMockHostConfig, createMockRemoteFile } from '../__mocks__/testHelpers';
+import { EventEmitter, setMockConfig, clearMockConfig } from '../__mocks__/vscode';
+
+var mockGetConnection = jest.fn();
+var mockConnect = jest.fn();
+var mockGetAllHosts = jest.fn();
+var mockDeleteRemotePath = jest.fn();
+
+jest.mock('../connection/ConnectionManager', () => ({
+  ConnectionManager: {
+    getInstance: jest.fn().mockImplementation(() => ({
+      getConnection: mockGetConnection,
+      connect: mockConnect,
+    })),
+  },
+}));
+
+jest.mock('../services/HostService', () => ({
+  HostService: {
+    getInstance: jest.fn().mockImplementation(() => ({ getAllHosts: mockGetAllHosts })),
+  },
+}));
+
+jest.mock('../services/FileService', () => ({
+  FileService: {
+    getInstance: jest.fn().mockImplementation(() => ({ deleteRemotePath: mockDeleteRemotePath })),
+  },
+}));
+
+import * as vscode from 'vscode';
+import { buildRemoteUri, FS_SCHEME, RemoteFileSystemProvider } from './RemoteFileSystemProvider';
+
+const ID = 'web:22:deploy';
+
+function notFound(): Error {
+  return Object.assign(new Error('Failed to stat file: No such file'), { cause: { code: 2 } });
+}
+
+function makeConnection(files: Record<string, Partial<IRemoteFile>> = {}, nativeWatch = false) {
+  const fileChange = new EventEmitter<{ remotePath: string; event: 'modify' | 'delete' | 'create' }>();
+  const stat = jest.fn(async (p: string) => {
+    if (!files[p]) throw notFound();
+    return createMockRemoteFile(p.split('/').pop()!, { path: p, ...files[p] });
+  });
+  return {
+    id: ID,
+    host: createMockHostConfig({ id: ID, name: 'web' }),
+    state: ConnectionState.Connected,
+    capabilities: { supportsNativeWatch: nativeWatch },
+    files,
+    fileChange,
+    onFileChange: fileChange.event,
+    stat,
+    readlink: jest.fn(async (p: string) => {
+      if (!files[p]?.isSymlink) throw new Error('Failed to read link: not a link');
+      return files[p].linkTarget ?? '';
+    }),
+    listFiles: jest.fn(async (dir: string) =>
+      Object.keys(files)
+        .filter((p) => p.startsWith(dir + '/') && !p.slice(dir.length + 1).includes('/'))
+        .map((p) => createMockRemoteFile(p.split('/').pop()!, { path: p, ...files[p] }))
+    ),
+    readFile: jest.fn().mockResolvedValue(Buffer.from('hello')),
+    writeFile: jest.fn().mockResolvedValue(undefined),
+    deleteFile: jest.fn().mockResolvedValue(undefined),
+    mkdir: jest.fn().mockResolvedValue(undefined),
+    rename: jest.fn().mockResolvedValue(undefined),
+    watchFile: jest.fn().mockResolvedValue(true),
+    unwatchFile: jest.fn().mockResolvedValue(undefined),
+    isWatching: jest.fn().mockReturnValue(false),
+  };
+}
+
+const uri = (p: string) => buildRemoteUri(ID, p);
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('RemoteFileSystemProvider', () => {
+  let provider: RemoteFileSystemProvider;
+  let conn: ReturnType<typeof makeConnection>;
+  let events: vscode.FileChangeEvent[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new RemoteFileSystemProvider();
+    events = [];
+    provider.onDidChangeFile((e) => events.push(...e));
+    conn = makeConnection({
+      '/srv/app': { isDirectory: true },
+      '/srv/app/index.js': { size: 12, modifiedTime: 1000 },
+      '/srv/app/lib': { isDirectory: true },
+    });
+    mockGetConnection.mockReturnValue(conn);
+  });
+
+  afterEach(() => {
+    provider.dispose();
+    clearMockConfig();
+    jest.useRealTimers();
+  });
+
+  it('builds sshlite:// URIs with the connection id as authority', () => {
+    const u = uri('/srv/app');
+    expect(u.scheme).toBe(FS_SCHEME);
+    expect(decodeURIComponent(u.authority)).toBe(ID);
+    expect(u.path).toBe('/srv/app');
+  });
+
+  describe('reading', () => {
+    it('stats files and folders', async () => {
+      expect(await provider.stat(uri('/srv/app/index.js'))).toEqual({
+        type: vscode.FileType.File,
+        ctime: 1000,
+        mtime: 1000,
+        size: 12,
+      });
+      expect((await provider.stat(uri('/srv/app'))).type).toBe(vscode.FileType.Directory);
+    });
+
+    it('lists a folder as name/type pairs', async () => {
+      expect(await provider.readDirectory(uri('/srv/app'))).toEqual([
+        ['index.js', vscode.FileType.File],
+        ['lib', vscode.FileType.Directory],
+      ]);
+    });
+
+    it('marks links with the SymbolicLink bit on top of their target\'s type', async () => {
+      conn.files['/srv/app/current'] = { isDirectory: true, isSymlink: true, linkTarget: 'lib' };
+      conn.files['/srv/app/env'] = { isSymlink: true, linkTarget: '/etc/app.env' };
+
+      expect((await provider.stat(uri('/srv/app/current'))).type).toBe(vscode.FileType.Directory | vscode.FileType.SymbolicLink);
+      expect((await provider.stat(uri('/srv/app/env'))).type).toBe(vscode.FileType.File | vscode.FileType.SymbolicLink);
+      expect(await provider.readDirectory(uri('/srv/app'))).toEqual(expect.arrayContaining([
+        ['current', vscode.FileType.Directory | vscode.FileType.SymbolicLink],
+        ['env', vscode.FileType.File | vscode.FileType.SymbolicLink],
+      ]));
+    });
+
+    it('reads file content', async () => {
+      expect(Buffer.from(await provider.readFile(uri('/srv/app/index.js'))).toString()).toBe('hello');
+      expect(conn.readFile).toHaveBeenCalledWith('/srv/app/index.js');
+    });
+
+    it('reports a missing path as FileNotFound', async () => {
+      await expect(provider.stat(uri('/srv/nope'))).rejects.toMatchObject({ code: 'FileNotFound' });
+    });
+
+    it('reports a permission error as NoPermissions', async () => {
+      conn.readFile.mockRejectedValue(new Error('Permission denied'));
+      await expect(provider.readFile(uri('/srv/app/index.js'))).rejects.toMatchObject({ code: 'NoPermissions' });
+    });
+  });
+
+  describe('writing', () => {
+    it('creates a new file and reports it created', async () => {
+      await provider.writeFile(uri('/srv/app/new.js'), Buffer.from('x'), { create: true, overwrite: false });
+
+      expect(conn.writeFile).toHaveBeenCalledWith('/srv/app/new.js', Buffer.from('x'));
+      expect(events).toEqual([{ type: vscode.FileChangeType.Created, uri: uri('/srv/app/new.js') }]);
+    });
+
+    it('overwrites an existing file and reports it changed', async () => {
+      await provider.writeFile(uri('/srv/app/index.js'), Buffer.from('y'), { create: false, overwrite: true });
+
+      expect(events[0].type).toBe(vscode.FileChangeType.Changed);
+    });
+
+    it('honours the create and overwrite flags', async () => {
+      await expect(
+        provider.writeFile(uri('/srv/app/index.js'), Buffer.from('y'), { create: true, overwrite: false })
+      ).rejects.toMatchObject({ code: 'FileExists' });
+      await expect(
+        provider.writeFile(uri('/srv/app/new.js'), Buffer.from('y'), { create: false, overwrite: true })
+      ).rejects.toMatchObject({ code: 'FileNotFound' });
+      await expect(
+        provider.writeFile(uri('/srv/app/lib'), Buffer.from('y'), { create: true, overwrite: true })
+      ).rejects.toMatchObject({ code: 'FileIsADirectory' });
+      expect(conn.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('creates folders', async () => {
+      await provider.createDirectory(uri('/srv/app/dist'));
+
+      expect(conn.mkdir).toHaveBeenCalledWith('/srv/app/dist');
+      expect(events[0].type).toBe(vscode.FileChangeType.Created);
+    });
+
+    it('deletes folders recursively through FileService and files directly', async () => {
+      await provider.delete(uri('/srv/app/lib'), { recursive: true });
+      await provider.delete(uri('/srv/app/index.js'), { recursive: false });
+
+      expect(mockDeleteRemotePath).toHaveBeenCalledWith(conn, '/srv/app/lib', true);
+      expect(conn.deleteFile).toHaveBeenCalledWith('/srv/app/index.js');
+      expect(events.map((e) => e.type)).toEqual([vscode.FileChangeType.Deleted, vscode.FileChangeType.Deleted]);
+    });
+
+    it('renames, replacing the target only when asked to', async () => {
+      await expect(
+        provider.rename(uri('/srv/app/index.js'), uri('/srv/app/lib'), { overwrite: false })
+      ).rejects.toMatchObject({ code: 'FileExists' });
+
+      await provider.rename(uri('/srv/app/index.js'), uri('/srv/app/lib'), { overwrite: true });
+
+      expect(mockDeleteRemotePath).toHaveBeenCalledWith(conn, '/srv/app/lib', true);
+      expect(conn.rename).toHaveBeenCalledWith('/srv/app/index.js', '/srv/app/lib');
+    });
+
+    it('deletes a link to a folder as the link itself, even when recursive', async () => {
+      conn.files['/srv/app/current'] = { isDirectory: true, isSymlink: true, linkTarget: 'lib' };
+
+      await provider.delete(uri('/srv/app/current'), { recursive: true });
+
+      expect(conn.deleteFile).toHaveBeenCalledWith('/srv/app/current');
+      expect(mockDeleteRemotePath).not.toHaveBeenCalled();
+    });
+
+    it('replaces a link standing at the rename target without touching its target', async () => {
+      conn.files['/srv/app/current'] = { isDirectory: true, isSymlink: true, linkTarget: 'lib' };
+
+      await expect(
+        provider.rename(uri('/srv/app/index.js'), uri('/srv/app/current'), { overwrite: false })
+      ).rejects.toMatchObject({ code: 'FileExists' });
+      await provider.rename(uri('/srv/app/index.js'), uri('/srv/app/current'), { overwrite: true });
+
+      expect(conn.deleteFile).toHaveBeenCalledWith('/srv/app/current');
+      expect(mockDeleteRemotePath).not.toHaveBeenCalled();
+      expect(conn.rename).toHaveBeenCalledWith('/srv/app/index.js', '/srv/app/current');
+    });
+
+    it('refuses to rename across connections', async () => {
+      const other = buildRemoteUri('db:22:root', '/tmp/index.js');
+      await expect(provider.rename(uri('/srv/app/index.js'), other, { overwrite: false })).rejects.toMatchObject({
+        code: 'Unavailable',
+      });
+    });
+  });
+
+  describe('connecting', () => {
+    it('connects to the saved host once for a burst of requests', async () => {
+      mockGetConnection.mockReturnValue(undefined);
+      mockGetAllHosts.mockReturnValue([createMockHostConfig({ id: ID, name: 'web' })]);
+      mockConnect.mockResolvedValue(conn);
+
+      await Promise.all([provider.stat(uri('/srv/app')), provider.readDirectory(uri('/srv/app'))]);
+
+      expect(mockConnect).toHaveBeenCalledTimes(1);
+      expect(vscode.window.withProgress).toHaveBeenCalled();
+    });
+
+    it('reports an unknown host or a failed connect as Unavailable', async () => {
+      mockGetConnection.mockReturnValue(undefined);
+      mockGetAllHosts.mockReturnValue([]);
+      await expect(provider.stat(uri('/srv/app'))).rejects.toMatchObject({ code: 'Unavailable' });
+
+      mockGetAllHosts.mockReturnValue([createMockHostConfig({ id: ID, name: 'web' })]);
+      mockConnect.mockRejectedValue(new Error('Authentication failed'));
+      await expect(provider.stat(uri('/srv/app'))).rejects.toThrow(/Authentication failed/);
+    });
+  });
+
+  describe('watch', () => {
+    it('uses the native watcher for files and stops it on dispose', async () => {
+      conn = makeConnection({ '/srv/app/index.js': {} }, true);
+      mockGetConnection.mockReturnValue(conn);
+
+      const watcher = provider.watch(uri('/srv/app/index.js'));
+      await flush();
+      conn.fileChange.fire({ remotePath: '/srv/app/index.js', event: 'modify' });
+      conn.fileChange.fire({ remotePath: '/srv/app/other.js', event: 'modify' });
+      watcher.dispose();
+
+      expect(conn.watchFile).toHaveBeenCalledWith('/srv/app/index.js');
+      expect(events).toEqual([{ type: vscode.FileChangeType.Changed, uri: uri('/srv/app/index.js') }]);
+      expect(conn.unwatchFile).toHaveBeenCalledWith('/srv/app/index.js');
+    });
+
+    it('leaves alone a native watcher someone else started', async () => {
+      conn = makeConnection({ '/srv/app/index.js': {} }, true);
+      conn.isWatching.mockReturnValue(true);
+      mockGetConnection.mockReturnValue(conn);
+
+      const watcher = provider.watch(uri('/srv/app/index.js'));
+      await flush();
+      conn.fileChange.fire({ remotePath: '/srv/app/index.js', event: 'delete' });
+      watcher.dispose();
+
+      expect(conn.watchFile).not.toHaveBeenCalled();
+      expect(conn.unwatchFile).not.toHaveBeenCalled();
+      expect(events[0].type).toBe(vscode.FileChangeType.Deleted);
+    });
+
+    it('polls a file when there is no native watcher', async () => {
+      setMockConfig('sshLite.fileRefreshIntervalSeconds', 3);
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+      const watcher = provider.watch(uri('/srv/app/index.js'));
+      await flush();
+
+      conn.files['/srv/app/index.js'] = { size: 20, modifiedTime: 2000 };
+      jest.advanceTimersByTime(3000);
+      await flush();
+      watcher.dispose();
+
+      expect(conn.watchFile).not.toHaveBeenCalled();
+      expect(events).toEqual([{ type: vscode.FileChangeType.Changed, uri: uri('/srv/app/index.js') }]);
+    });
+
+    it('reports entries that appear and disappear in a watched folder', async () => {
+      setMockConfig('sshLite.treeRefreshIntervalSeconds', 10);
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+      const watcher = provider.watch(uri('/srv/app'));
+      await flush();
+
+      delete conn.files['/srv/app/lib'];
+      conn.files['/srv/app/README.md'] = {};
+      jest.advanceTimersByTime(10_000);
+      await flush();
+      watcher.dispose();
+
+      expect(events).toEqual([
+        { type: vscode.FileChangeType.Created, uri: uri('/srv/app/README.md') },
+        { type: vscode.FileChangeType.Deleted, uri: uri('/srv/app/lib') },
+      ]);
+    });
+
+    it('does not poll when the refresh interval is 0', async () => {
+      setMockConfig('sshLite.treeRefreshIntervalSeconds', 0);
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+      const watcher = provider.watch(uri('/srv/app'));
+      await flush();
+      conn.listFiles.mockClear();
+
+      jest.advanceTimersByTime(60_000);
+      watcher.dispose();
+
+      expect(conn.listFiles).not.toHaveBeenCalled();
+    });
+  });
+});
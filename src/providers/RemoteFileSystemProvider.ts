@@ -0,0 +1,372 @@
+import * as vscode from 'vscode';
+import { ConnectionManager } from '../connection/ConnectionManager';
+import { SSHConnection } from '../connection/SSHConnection';
+import { HostService } from '../services/HostService';
+import { FileService } from '../services/FileService';
+import { ConnectionState, IRemoteFile, isSftpConnection } from '../types';
+import { infoLog } from '../utils/diagnosticLog';
+import { buildUri } from './VirtualDocProviders';
+
+export const FS_SCHEME = 'sshlite';
+
+/**
+ * URI for a remote path on a connection: `sshlite://<connectionId>/<path>`
+ */
+export function buildRemoteUri(connectionId: string, remotePath: string): vscode.Uri {
+  return buildUri(FS_SCHEME, connectionId, remotePath);
+}
+
+/** The entry's type as VS Code sees it: a link is its target's type plus SymbolicLink */
+function toFileType(file: IRemoteFile): vscode.FileType {
+  const type = file.isDirectory ? vscode.FileType.Directory : vscode.FileType.File;
+  return file.isSymlink ? type | vscode.FileType.SymbolicLink : type;
+}
+
+function toFileStat(file: IRemoteFile): vscode.FileStat {
+  return {
+    type: toFileType(file),
+    ctime: file.modifiedTime,
+    mtime: file.modifiedTime,
+    size: file.size,
+  };
+}
+
+/**
+ * Translate a transport error into the FileSystemError VS Code expects, so
+ * "file not found" during a save or a stat is handled as such instead of
+ * surfacing as a generic failure. ssh2 reports status codes on the cause
+ * (2 = NO_SUCH_FILE, 3 = PERMISSION_DENIED); FTP only has the reply text.
+ */
+function toFileSystemError(error: unknown, uri: vscode.Uri): Error {
+  if (error instanceof vscode.FileSystemError) {
+    return error;
+  }
+  const err = error as Error & { cause?: { code?: unknown } };
+  const code = err.cause?.code;
+  const message = err.message ?? String(error);
+  if (code === 2 || /no such file|not found|\b550\b/i.test(message)) {
+    return vscode.FileSystemError.FileNotFound(uri);
+  }
+  if (code === 3 || /permission denied/i.test(message)) {
+    return vscode.FileSystemError.NoPermissions(uri);
+  }
+  return err instanceof Error ? err : new Error(message);
+}
+
+/**
+ * FileSystemProvider backing `sshlite://<connectionId>/<path>`, so a remote
+ * folder can be opened as a workspace folder and VS Code's own explorer,
+ * search and editors work on it directly. Every operation goes through the
+ * connection's IConnection methods, so SSH and FTP hosts both work.
+ *
+ * A URI whose connection is not open (e.g. a workspace reopened after a
+ * restart) connects to the matching saved host on first use.
+ *
+ * watch() uses the connection's native inotify/fswatch watcher for files
+ * when the server has one; otherwise files are polled every
+ * `sshLite.fileRefreshIntervalSeconds` and folders every
+ * `sshLite.treeRefreshIntervalSeconds`. Folder polling only compares the
+ * folder's own listing — walking a whole tree over SFTP on a timer would cost
+ * far more than the refresh is worth.
+ */
+export class RemoteFileSystemProvider implements vscode.FileSystemProvider {
+  private readonly _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile = this._onDidChangeFile.event;
+
+  /** In-flight connects, so a burst of stats on a cold workspace connects once */
+  private readonly _pendingConnects = new Map<string, Promise<SSHConnection>>();
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const connection = await this.resolve(uri);
+    try {
+      const [file, isSymlink] = await Promise.all([connection.stat(uri.path), this.isSymlink(connection, uri.path)]);
+      return toFileStat({ ...file, isSymlink });
+    } catch (error) {
+      throw toFileSystemError(error, uri);
+    }
+  }
+
+  async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+    const connection = await this.resolve(uri);
+    try {
+      const files = await connection.listFiles(uri.path);
+      return files.map((f) => [f.name, toFileType(f)]);
+    } catch (error) {
+      throw toFileSystemError(error, uri);
+    }
+  }
+
+  async createDirectory(uri: vscode.Uri): Promise<void> {
+    const connection = await this.resolve(uri);
+    try {
+      await connection.mkdir(uri.path);
+    } catch (error) {
+      throw toFileSystemError(error, uri);
+    }
+    this.fire(vscode.FileChangeType.Created, uri);
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const connection = await this.resolve(uri);
+    try {
+      return await connection.readFile(uri.path);
+    } catch (error) {
+      throw toFileSystemError(error, uri);
+    }
+  }
+
+  async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }): Promise<void> {
+    const connection = await this.resolve(uri);
+    const existing = await this.tryStat(connection, uri.path);
+    if (existing?.isDirectory) {
+      throw vscode.FileSystemError.FileIsADirectory(uri);
+    }
+    if (!existing && !options.create) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    if (existing && !options.overwrite) {
+      throw vscode.FileSystemError.FileExists(uri);
+    }
+    try {
+      await connection.writeFile(uri.path, Buffer.from(content));
+    } catch (error) {
+      throw toFileSystemError(error, uri);
+    }
+    this.fire(existing ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created, uri);
+  }
+
+  async delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+    const connection = await this.resolve(uri);
+    // A link (even a broken one) is unlinked itself, never its target
+    const isSymlink = await this.isSymlink(connection, uri.path);
+    const existing = isSymlink ? undefined : await this.tryStat(connection, uri.path);
+    if (!existing && !isSymlink) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    try {
+      if (existing?.isDirectory && options.recursive) {
+        await FileService.getInstance().deleteRemotePath(connection, uri.path, true);
+      } else {
+        await connection.deleteFile(uri.path);
+      }
+    } catch (error) {
+      throw toFileSystemError(error, uri);
+    }
+    this.fire(vscode.FileChangeType.Deleted, uri);
+  }
+
+  async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+    if (oldUri.authority !== newUri.authority) {
+      // Moving between hosts is a transfer, not a rename; the file explorer's paste does that
+      throw vscode.FileSystemError.Unavailable('Cannot rename across connections');
+    }
+    const connection = await this.resolve(oldUri);
+    const targetIsSymlink = await this.isSymlink(connection, newUri.path);
+    const target = targetIsSymlink ? undefined : await this.tryStat(connection, newUri.path);
+    if ((target || targetIsSymlink) && !options.overwrite) {
+      throw vscode.FileSystemError.FileExists(newUri);
+    }
+    try {
+      // SFTP rename refuses an existing target; a link there is replaced, not what it points at
+      if (targetIsSymlink) {
+        await connection.deleteFile(newUri.path);
+      } else if (target) {
+        await FileService.getInstance().deleteRemotePath(connection, newUri.path, target.isDirectory);
+      }
+      await connection.rename(oldUri.path, newUri.path);
+    } catch (error) {
+      throw toFileSystemError(error, oldUri);
+    }
+    this.fire(vscode.FileChangeType.Deleted, oldUri);
+    this.fire(vscode.FileChangeType.Created, newUri);
+  }
+
+  watch(uri: vscode.Uri): vscode.Disposable {
+    let disposed = false;
+    let stop: (() => void) | undefined;
+
+    this.resolve(uri)
+      .then(async (connection) => {
+        const stat = await this.tryStat(connection, uri.path);
+        if (disposed) {
+          return;
+        }
+        stop = stat?.isDirectory
+          ? this.pollDirectory(connection, uri)
+          : await this.watchRemoteFile(connection, uri);
+        if (disposed) {
+          stop();
+        }
+      })
+      .catch((err: Error) => {
+        infoLog('remote-fs', 'watch/failed', { uri: uri.toString(), errorMsg: err.message });
+      });
+
+    return new vscode.Disposable(() => {
+      disposed = true;
+      stop?.();
+    });
+  }
+
+  dispose(): void {
+    this._onDidChangeFile.dispose();
+  }
+
+  /**
+   * Watch one file: the connection's native watcher when it has one, a stat
+   * poll otherwise. Only a watcher this provider started is stopped again —
+   * FileService may be watching the same file for an open editor.
+   */
+  private async watchRemoteFile(connection: SSHConnection, uri: vscode.Uri): Promise<() => void> {
+    const remotePath = uri.path;
+    const alreadyWatched = connection.capabilities.supportsNativeWatch && connection.isWatching(remotePath);
+    const started = !alreadyWatched && connection.capabilities.supportsNativeWatch
+      ? await connection.watchFile(remotePath)
+      : false;
+
+    if (alreadyWatched || started) {
+      const listener = connection.onFileChange((e) => {
+        if (e.remotePath === remotePath) {
+          this.fire(e.event === 'delete' ? vscode.FileChangeType.Deleted : vscode.FileChangeType.Changed, uri);
+        }
+      });
+      return () => {
+        listener.dispose();
+        if (started) {
+          void connection.unwatchFile(remotePath);
+        }
+      };
+    }
+
+    let last = await this.tryStat(connection, remotePath);
+    return this.poll('fileRefreshIntervalSeconds', async () => {
+      const current = await this.tryStat(connection, remotePath);
+      if (!current && last) {
+        this.fire(vscode.FileChangeType.Deleted, uri);
+      } else if (current && !last) {
+        this.fire(vscode.FileChangeType.Created, uri);
+      } else if (current && last && (current.modifiedTime !== last.modifiedTime || current.size !== last.size)) {
+        this.fire(vscode.FileChangeType.Changed, uri);
+      }
+      last = current;
+    });
+  }
+
+  /** Poll a folder's listing and report entries that appeared, went or changed */
+  private pollDirectory(connection: SSHConnection, uri: vscode.Uri): () => void {
+    let last: Map<string, IRemoteFile> | undefined;
+    const list = async (): Promise<Map<string, IRemoteFile> | undefined> => {
+      try {
+        const files = await connection.listFiles(uri.path);
+        return new Map(files.map((f) => [f.name, f]));
+      } catch {
+        return undefined;
+      }
+    };
+    void list().then((entries) => (last ??= entries));
+
+    return this.poll('treeRefreshIntervalSeconds', async () => {
+      const current = await list();
+      if (!current || !last) {
+        last = current ?? last;
+        return;
+      }
+      const changes: vscode.FileChangeEvent[] = [];
+      const child = (name: string) => uri.with({ path: `${uri.path.replace(/\/$/, '')}/${name}` });
+      for (const [name, file] of current) {
+        const before = last.get(name);
+        if (!before) {
+          changes.push({ type: vscode.FileChangeType.Created, uri: child(name) });
+        } else if (before.modifiedTime !== file.modifiedTime || before.size !== file.size) {
+          changes.push({ type: vscode.FileChangeType.Changed, uri: child(name) });
+        }
+      }
+      for (const name of last.keys()) {
+        if (!current.has(name)) {
+          changes.push({ type: vscode.FileChangeType.Deleted, uri: child(name) });
+        }
+      }
+      last = current;
+      if (changes.length > 0) {
+        this._onDidChangeFile.fire(changes);
+      }
+    });
+  }
+
+  /** Run `check` every `sshLite.<setting>` seconds (0 = never); returns the stop function */
+  private poll(setting: string, check: () => Promise<void>): () => void {
+    const seconds = vscode.workspace.getConfiguration('sshLite').get<number>(setting, 0);
+    if (!seconds || seconds <= 0) {
+      return () => undefined;
+    }
+    let busy = false;
+    const timer = setInterval(() => {
+      if (busy) {
+        return;
+      }
+      busy = true;
+      check().finally(() => (busy = false));
+    }, seconds * 1000);
+    return () => clearInterval(timer);
+  }
+
+  private async tryStat(connection: SSHConnection, remotePath: string): Promise<IRemoteFile | undefined> {
+    try {
+      return await connection.stat(remotePath);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** lstat-style check: `stat` follows links, `readlink` only succeeds on one. FTP has none. */
+  private async isSymlink(connection: SSHConnection, remotePath: string): Promise<boolean> {
+    if (!isSftpConnection(connection)) {
+      return false;
+    }
+    try {
+      await connection.readlink(remotePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private fire(type: vscode.FileChangeType, uri: vscode.Uri): void {
+    this._onDidChangeFile.fire([{ type, uri }]);
+  }
+
+  /**
+   * The open connection named by the URI's authority, connecting to the saved
+   * host when there is none yet.
+   */
+  private async resolve(uri: vscode.Uri): Promise<SSHConnection> {
+    const connectionId = decodeURIComponent(uri.authority);
+    const manager = ConnectionManager.getInstance();
+    const connection = manager.getConnection(connectionId);
+    if (connection?.state === ConnectionState.Connected) {
+      return connection;
+    }
+
+    let pending = this._pendingConnects.get(connectionId);
+    if (!pending) {
+      const host = HostService.getInstance().getAllHosts().find((h) => h.id === connectionId);
+      if (!host) {
+        throw vscode.FileSystemError.Unavailable(`No saved host for ${connectionId}`);
+      }
+      infoLog('remote-fs', 'auto-connect', { connectionId, hostName: host.name });
+      pending = Promise.resolve(
+        vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Connecting to ${host.name}...` },
+          () => manager.connect(host)
+        )
+      ).finally(() => this._pendingConnects.delete(connectionId));
+      this._pendingConnects.set(connectionId, pending);
+    }
+
+    try {
+      return await pending;
+    } catch (error) {
+      throw vscode.FileSystemError.Unavailable(`Cannot connect to ${connectionId}: ${(error as Error).message}`);
+    }
+  }
+}
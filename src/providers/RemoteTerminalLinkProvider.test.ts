@@ -0,0 +1,85 @@
+/**
+ * RemoteTerminalLinkProvider tests
+ *
+ * Covers:
+ *  - links only in SSH Lite terminals, relative paths only with a known cwd
+ *  - files open through FileService on the terminal's connection, at line:col
+ *  - folders show in the file tree, `~/` resolves on click
+ */
+
+import * as vscode from 'vscode';
+import { RemoteTerminalLinkProvider } from './RemoteTerminalLinkProvider';
+import { resetWindowMocks } from '../__mocks__/vscode';
+
+describe('RemoteTerminalLinkProvider', () => {
+  const terminal: any = { name: 'SSH: web1' };
+  let location: { connectionId: string; cwd?: string } | undefined;
+  let connection: any;
+  let terminalService: any;
+  let connectionManager: any;
+  let fileService: any;
+  let provider: RemoteTerminalLinkProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetWindowMocks();
+    location = { connectionId: 'web1:22:deploy', cwd: '/srv/app' };
+    connection = {
+      id: 'web1:22:deploy',
+      host: { name: 'web1' },
+      stat: jest.fn(async (p: string) => ({ name: p.split('/').pop(), path: p, isDirectory: p.endsWith('log'), size: 10, modifiedTime: 0 })),
+      resolveHomePath: jest.fn().mockResolvedValue('/home/deploy'),
+    };
+    terminalService = { getTerminalLocation: jest.fn(() => location) };
+    connectionManager = { getConnection: jest.fn(() => connection) };
+    fileService = { openRemoteFile: jest.fn() };
+    provider = new RemoteTerminalLinkProvider(terminalService, connectionManager, fileService);
+  });
+
+  const links = (line: string) => provider.provideTerminalLinks({ terminal, line } as any);
+
+  it('links paths in SSH terminals only', () => {
+    expect(links('src/index.ts:4:2: warning')).toEqual([expect.objectContaining({
+      startIndex: 0, length: 16, remotePath: '/srv/app/src/index.ts', line: 4, column: 2, tooltip: 'Open on web1',
+    })]);
+    location = undefined;
+    expect(links('/etc/hosts')).toEqual([]);
+  });
+
+  it('links relative paths only once the working directory is known', () => {
+    location = { connectionId: 'web1:22:deploy' };
+    expect(links('./run.sh /etc/hosts ~/.bashrc').map((l) => l.remotePath)).toEqual(['/etc/hosts', '~/.bashrc']);
+  });
+
+  it('opens files on the terminal\'s connection at the printed line and column', async () => {
+    const document = { uri: 'doc' };
+    (vscode.window as any).activeTextEditor = { document };
+    const [link] = links('src/index.ts:4:2');
+    await provider.handleTerminalLink(link);
+    (vscode.window as any).activeTextEditor = undefined;
+
+    expect(fileService.openRemoteFile).toHaveBeenCalledWith(connection, expect.objectContaining({ path: '/srv/app/src/index.ts' }));
+    const [, options] = (vscode.window.showTextDocument as jest.Mock).mock.calls[0];
+    expect(options.selection.start).toEqual({ line: 3, character: 1 });
+  });
+
+  it('shows folders in the file tree and resolves ~/ on the host', async () => {
+    const executeCommand = jest.spyOn(vscode.commands, 'executeCommand').mockResolvedValue(undefined);
+    const [link] = links('~/log');
+    await provider.handleTerminalLink(link);
+    expect(executeCommand).toHaveBeenCalledWith('sshLite.goToPath', connection, '/home/deploy/log');
+    expect(fileService.openRemoteFile).not.toHaveBeenCalled();
+    executeCommand.mockRestore();
+  });
+
+  it('reports paths that cannot be opened', async () => {
+    connection.stat.mockRejectedValueOnce(new Error('No such file'));
+    const [link] = links('/tmp/gone.txt');
+    await provider.handleTerminalLink(link);
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith('Cannot open /tmp/gone.txt on web1: No such file');
+
+    connectionManager.getConnection.mockReturnValue(undefined);
+    await provider.handleTerminalLink(link);
+    expect(vscode.window.showWarningMessage).toHaveBeenLastCalledWith(expect.stringContaining('connection is closed'));
+  });
+});
@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import { ConnectionManager } from '../connection/ConnectionManager';
+import { FileService } from '../services/FileService';
+import { TerminalService } from '../services/TerminalService';
+import { findPathLinks, resolveRemotePath } from '../utils/terminalPaths';
+import { infoLog } from '../utils/diagnosticLog';
+
+export interface RemoteTerminalLink extends vscode.TerminalLink {
+  connectionId: string;
+  /** Absolute, or `~/…` until the home directory is looked up on click */
+  remotePath: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Makes paths printed in SSH Lite terminals clickable: files open from the
+ * terminal's host (at `file:line:col` when given), folders show in the file
+ * tree. Relative paths resolve against the shell's working directory, so they
+ * are only linked once the terminal knows it (OSC 7 or Open Terminal Here).
+ */
+export class RemoteTerminalLinkProvider implements vscode.TerminalLinkProvider<RemoteTerminalLink> {
+  constructor(
+    private readonly terminalService: TerminalService,
+    private readonly connectionManager: ConnectionManager,
+    private readonly fileService: FileService
+  ) {}
+
+  provideTerminalLinks(context: vscode.TerminalLinkContext): RemoteTerminalLink[] {
+    const location = this.terminalService.getTerminalLocation(context.terminal);
+    if (!location) {
+      return [];
+    }
+    const hostName = this.connectionManager.getConnection(location.connectionId)?.host.name ?? 'the host';
+    const links: RemoteTerminalLink[] = [];
+    for (const link of findPathLinks(context.line)) {
+      const remotePath = link.path.startsWith('~/') ? link.path : resolveRemotePath(link.path, location.cwd);
+      if (!remotePath) {
+        continue;
+      }
+      links.push({
+        startIndex: link.startIndex,
+        length: link.length,
+        tooltip: `Open on ${hostName}`,
+        connectionId: location.connectionId,
+        remotePath,
+        line: link.line,
+        column: link.column,
+      });
+    }
+    return links;
+  }
+
+  async handleTerminalLink(link: RemoteTerminalLink): Promise<void> {
+    const connection = this.connectionManager.getConnection(link.connectionId);
+    if (!connection) {
+      vscode.window.showWarningMessage('The terminal\'s connection is closed. Reconnect to open paths from it.');
+      return;
+    }
+
+    let remotePath = link.remotePath;
+    try {
+      if (remotePath.startsWith('~/')) {
+        remotePath = resolveRemotePath(remotePath, undefined, await connection.resolveHomePath())!;
+      }
+      const remoteFile = await connection.stat(remotePath);
+      infoLog('terminal', 'link/open', { connectionId: connection.id, remotePath, isDirectory: remoteFile.isDirectory, line: link.line });
+
+      if (remoteFile.isDirectory) {
+        await vscode.commands.executeCommand('sshLite.goToPath', connection, remotePath);
+        await vscode.commands.executeCommand('sshLite.fileExplorer.focus');
+        return;
+      }
+
+      await this.fileService.openRemoteFile(connection, remoteFile);
+      const editor = vscode.window.activeTextEditor;
+      if (link.line && editor) {
+        const position = new vscode.Position(link.line - 1, Math.max((link.column ?? 1) - 1, 0));
+        await vscode.window.showTextDocument(editor.document, { selection: new vscode.Range(position, position) });
+      }
+    } catch (error) {
+      vscode.window.showWarningMessage(`Cannot open ${remotePath} on ${connection.host.name}: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * TransferTreeProvider tests
+ *
+ * Tests the Transfers view:
+ * - Per-transfer description (percent, bytes, speed, ETA) and context values
+ * - Empty state (NoTransfersTreeItem)
+ * - View title summary and ETA formatting
+ */
+
+jest.mock('../connection/ConnectionManager', () => ({
+  ConnectionManager: {
+    getInstance: jest.fn(() => ({
+      getConnection: jest.fn(),
+      onDidChangeConnections: jest.fn().mockReturnValue({ dispose: jest.fn() }),
+    })),
+  },
+}));
+
+import * as vscode from 'vscode';
+import {
+  TransferTreeProvider,
+  TransferTreeItem,
+  NoTransfersTreeItem,
+  describeSummary,
+  formatEta,
+} from './TransferTreeProvider';
+import { TransferQueueService, TransferItem } from '../services/TransferQueueService';
+
+function transfer(over: Partial<TransferItem>): TransferItem {
+  return {
+    id: 't1',
+    direction: 'download',
+    connectionId: 'web',
+    hostName: 'web',
+    remotePath: '/srv/big.iso',
+    localUri: vscode.Uri.file('/home/me/big.iso'),
+    name: 'big.iso',
+    size: 4 * 1024 * 1024,
+    transferred: 1024 * 1024,
+    status: 'running',
+    bytesPerSecond: 1024 * 1024,
+    attempts: 1,
+    queuedAt: 0,
+    ...over,
+  };
+}
+
+describe('TransferTreeProvider', () => {
+  beforeEach(() => {
+    (TransferQueueService as any)._instance = undefined;
+  });
+
+  it('shows progress, speed and ETA for a running transfer', () => {
+    const item = new TransferTreeItem(transfer({}));
+
+    expect(item.contextValue).toBe('transfer.running');
+    expect(item.description).toBe('25% · 1 MB of 4 MB · 1 MB/s · ETA 0:03 · web');
+    expect((item.iconPath as vscode.ThemeIcon).id).toBe('cloud-download');
+  });
+
+  it('shows kept progress for a paused transfer and the error for a failed one', () => {
+    expect(new TransferTreeItem(transfer({ status: 'paused' })).description).toBe('25% · 1 MB of 4 MB · Paused · web');
+    const failed = new TransferTreeItem(transfer({ status: 'failed', error: 'Permission denied' }));
+    expect(failed.contextValue).toBe('transfer.failed');
+    expect(failed.description).toBe('Failed: Permission denied · web');
+  });
+
+  it('lists the queue, or a placeholder when it is empty', async () => {
+    const provider = new TransferTreeProvider();
+    expect((await provider.getChildren())[0]).toBeInstanceOf(NoTransfersTreeItem);
+
+    (TransferQueueService.getInstance() as any).items = [transfer({ status: 'completed' }), transfer({ id: 't2' })];
+    const items = (await provider.getChildren()) as TransferTreeItem[];
+    expect(items.map((i) => i.transfer.status)).toEqual(['running', 'completed']);
+    provider.dispose();
+  });
+
+  it('summarises the queue for the view title', () => {
+    expect(describeSummary({ running: 2, pending: 3, paused: 0, failed: 1, bytesPerSecond: 2048, remainingBytes: 0, etaSeconds: 95 }))
+      .toBe('2 running · 3 queued · 1 failed · 2 KB/s · ETA 1:35');
+    expect(describeSummary({ running: 0, pending: 0, paused: 0, failed: 0, bytesPerSecond: 0, remainingBytes: 0 })).toBe('');
+    expect(formatEta(3725)).toBe('1:02:05');
+  });
+});
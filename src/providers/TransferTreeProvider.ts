@@ -0,0 +1,184 @@
+/*
+ * Copyright 2026 SSH Lite Contributors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as vscode from 'vscode';
+import {
+  TransferQueueService,
+  TransferItem,
+  TransferStatus,
+  TransferSummary,
+} from '../services/TransferQueueService';
+import { formatFileSize } from '../utils/helpers';
+
+/**
+ * Tree item representing one queued, running or finished transfer
+ */
+export class TransferTreeItem extends vscode.TreeItem {
+  constructor(public readonly transfer: TransferItem) {
+    super(transfer.name, vscode.TreeItemCollapsibleState.None);
+    this.contextValue = `transfer.${transfer.status}`;
+    this.id = transfer.id;
+    this.iconPath = getStatusIcon(transfer);
+    this.description = describeTransfer(transfer);
+
+    const arrow = transfer.direction === 'upload' ? '→' : '←';
+    this.tooltip = new vscode.MarkdownString(
+      `**${transfer.name}**\n\n` +
+      `${transfer.direction === 'upload' ? 'Upload' : 'Download'}: ${transfer.localUri.fsPath} ${arrow} ` +
+      `${transfer.hostName}:${transfer.remotePath}\n\n` +
+      `Status: ${getStatusLabel(transfer.status)}\n\n` +
+      (transfer.size ? `Progress: ${formatFileSize(transfer.transferred)} of ${formatFileSize(transfer.size)}\n\n` : '') +
+      (transfer.attempts > 1 ? `Attempts: ${transfer.attempts}\n\n` : '') +
+      (transfer.error ? `Error: ${transfer.error}` : '')
+    );
+  }
+}
+
+/**
+ * "No transfers" placeholder item
+ */
+export class NoTransfersTreeItem extends vscode.TreeItem {
+  constructor() {
+    super('No transfers', vscode.TreeItemCollapsibleState.None);
+    this.contextValue = 'noTransfers';
+    this.iconPath = new vscode.ThemeIcon('check-all', new vscode.ThemeColor('charts.green'));
+    this.description = 'Uploads and downloads show up here';
+  }
+}
+
+type TreeItem = TransferTreeItem | NoTransfersTreeItem;
+
+/**
+ * Tree data provider for the transfer queue
+ */
+export class TransferTreeProvider implements vscode.TreeDataProvider<TreeItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<TreeItem | undefined | null>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private queue: TransferQueueService;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.queue = TransferQueueService.getInstance();
+    this.disposables.push(this.queue.onDidChange(() => this.refresh()));
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  getTreeItem(element: TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: TreeItem): Thenable<TreeItem[]> {
+    if (element) {
+      return Promise.resolve([]);
+    }
+    const transfers = this.queue.getTransfers();
+    if (transfers.length === 0) {
+      return Promise.resolve([new NoTransfersTreeItem()]);
+    }
+    return Promise.resolve(transfers.map((t) => new TransferTreeItem(t)));
+  }
+
+  dispose(): void {
+    for (const d of this.disposables) {
+      d.dispose();
+    }
+    this._onDidChangeTreeData.dispose();
+  }
+}
+
+/**
+ * View title line, e.g. "2 running · 3 queued · 4.2 MB/s · ETA 0:35"
+ */
+export function describeSummary(summary: TransferSummary): string {
+  const parts: string[] = [];
+  if (summary.running) parts.push(`${summary.running} running`);
+  if (summary.pending) parts.push(`${summary.pending} queued`);
+  if (summary.paused) parts.push(`${summary.paused} paused`);
+  if (summary.failed) parts.push(`${summary.failed} failed`);
+  if (summary.bytesPerSecond > 0) parts.push(`${formatFileSize(summary.bytesPerSecond)}/s`);
+  if (summary.etaSeconds !== undefined) parts.push(`ETA ${formatEta(summary.etaSeconds)}`);
+  return parts.join(' · ');
+}
+
+/**
+ * Seconds as m:ss, or h:mm:ss past an hour
+ */
+export function formatEta(seconds: number): string {
+  const s = Math.max(0, Math.round(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const ss = String(s % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${ss}` : `${m}:${ss}`;
+}
+
+// Helper functions
+
+function describeTransfer(t: TransferItem): string {
+  const parts: string[] = [];
+  if (t.status === 'running' || t.status === 'paused' || ((t.status === 'queued' || t.status === 'waiting') && t.transferred > 0)) {
+    if (t.size > 0) {
+      parts.push(`${Math.floor((t.transferred / t.size) * 100)}%`);
+      parts.push(`${formatFileSize(t.transferred)} of ${formatFileSize(t.size)}`);
+    }
+    if (t.status === 'running' && t.bytesPerSecond > 0) {
+      parts.push(`${formatFileSize(t.bytesPerSecond)}/s`);
+      parts.push(`ETA ${formatEta(Math.max(0, t.size - t.transferred) / t.bytesPerSecond)}`);
+    }
+  } else if (t.status === 'completed' && t.size > 0) {
+    parts.push(formatFileSize(t.size));
+  }
+  if (t.status !== 'running') {
+    parts.push(t.status === 'failed' && t.error ? `Failed: ${t.error}` : getStatusLabel(t.status));
+  }
+  parts.push(t.hostName);
+  return parts.join(' · ');
+}
+
+function getStatusLabel(status: TransferStatus): string {
+  const labels: Record<TransferStatus, string> = {
+    queued: 'Queued',
+    running: 'Running',
+    paused: 'Paused',
+    waiting: 'Waiting for connection',
+    completed: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+  };
+  return labels[status];
+}
+
+function getStatusIcon(t: TransferItem): vscode.ThemeIcon {
+  switch (t.status) {
+    case 'running':
+      return new vscode.ThemeIcon(t.direction === 'upload' ? 'cloud-upload' : 'cloud-download', new vscode.ThemeColor('charts.blue'));
+    case 'queued':
+      return new vscode.ThemeIcon('clock');
+    case 'waiting':
+      return new vscode.ThemeIcon('debug-disconnect', new vscode.ThemeColor('charts.yellow'));
+    case 'paused':
+      return new vscode.ThemeIcon('debug-pause', new vscode.ThemeColor('charts.yellow'));
+    case 'completed':
+      return new vscode.ThemeIcon('check', new vscode.ThemeColor('charts.green'));
+    case 'failed':
+      return new vscode.ThemeIcon('error', new vscode.ThemeColor('charts.red'));
+    case 'cancelled':
+      return new vscode.ThemeIcon('circle-slash');
+  }
+}
@@ -30,7 +30,11 @@ export type ActivityType =
   | 'terminal'
   | 'connect'
   | 'disconnect'
-  | 'reveal';
+  | 'reveal'
+  | 'sync'
+  | 'copy'
+  | 'archive'
+  | 'compare';
 
 /**
  * Status of an activity
@@ -112,6 +112,30 @@ describe('AuditService', () => {
     });
   });
 
+  describe('logConflict', () => {
+    it('should log the server-side change and the chosen resolution', () => {
+      service.logConflict(
+        'conn1', 'Server1', 'admin',
+        '/etc/app.conf', '/tmp/app.conf',
+        'listen 80',
+        'listen 80\nworkers 4',
+        'merge'
+      );
+
+      const [entry] = service.getRecentEntries();
+      expect(entry.action).toBe('conflict');
+      expect(entry.resolution).toBe('merge');
+      expect(entry.success).toBe(true);
+      expect(entry.diff).toContain('+2: workers 4');
+    });
+
+    it('should mark a cancelled save as unsuccessful', () => {
+      service.logConflict('conn1', 'Server1', 'admin', '/a', '/tmp/a', 'x', 'y', 'cancel');
+
+      expect(service.getRecentEntries()[0].success).toBe(false);
+    });
+  });
+
   describe('generateDiff', () => {
     it('should detect added lines', () => {
       const diff = service.generateDiff('line1', 'line1\nline2');
@@ -6,7 +6,12 @@ import * as os from 'os';
 /**
  * Audit action types
  */
-export type AuditAction = 'create' | 'edit' | 'delete' | 'download' | 'upload' | 'mkdir' | 'rename' | 'move' | 'copy';
+export type AuditAction = 'create' | 'edit' | 'delete' | 'download' | 'upload' | 'mkdir' | 'rename' | 'move' | 'copy' | 'conflict' | 'permissions' | 'archive' | 'extract' | 'undo' | 'redo' | 'record';
+
+/**
+ * What the user chose when a save found the remote file changed since it was opened
+ */
+export type ConflictResolution = 'merge' | 'overwrite' | 'theirs' | 'cancel';
 
 /**
  * Audit log entry
@@ -24,6 +29,9 @@ export interface AuditEntry {
   diff?: string;
   success: boolean;
   error?: string;
+  resolution?: ConflictResolution;
+  /** Summary of a permissions/ownership change, e.g. "mode 0644 → 0755" */
+  detail?: string;
 }
 
 /**
@@ -202,6 +210,34 @@ export class AuditService {
     });
   }
 
+  /**
+   * Log a save that found the remote file changed since it was opened.
+   * The diff is base → server version: the edit that would have been lost.
+   */
+  logConflict(
+    connectionId: string,
+    hostName: string,
+    username: string,
+    remotePath: string,
+    localPath: string,
+    baseContent: string,
+    remoteContent: string,
+    resolution: ConflictResolution
+  ): void {
+    this.log({
+      action: 'conflict',
+      connectionId,
+      hostName,
+      username,
+      remotePath,
+      localPath,
+      fileSize: remoteContent.length,
+      diff: this.generateDiff(baseContent, remoteContent),
+      success: resolution !== 'cancel',
+      resolution,
+    });
+  }
+
   /**
    * Log to VS Code output channel
    */
@@ -209,9 +245,13 @@ export class AuditService {
     const lines = [
       `[${entry.timestamp}] ${entry.action.toUpperCase()} - ${entry.success ? 'SUCCESS' : 'FAILED'}`,
       `  Host: ${entry.hostName} (${entry.username})`,
-      `  Path: ${entry.remotePath}`,
     ];
 
+    // Terminal recordings have no remote path
+    if (entry.remotePath) {
+      lines.push(`  Path: ${entry.remotePath}`);
+    }
+
     if (entry.localPath) {
       lines.push(`  Local: ${entry.localPath}`);
     }
@@ -224,6 +264,14 @@ export class AuditService {
       lines.push(`  Changed: ${entry.bytesChanged} bytes`);
     }
 
+    if (entry.resolution) {
+      lines.push(`  Resolution: ${entry.resolution}`);
+    }
+
+    if (entry.detail) {
+      lines.push(`  Change: ${entry.detail}`);
+    }
+
     if (entry.error) {
       lines.push(`  Error: ${entry.error}`);
     }
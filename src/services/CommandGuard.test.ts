@@ -1,5 +1,6 @@
 import { CommandGuard } from './CommandGuard';
 import { ActivityService } from './ActivityService';
+import { PassThrough } from 'stream';
 
 // Mock SSHConnection
 function createMockConnection(overrides: Partial<{
@@ -137,6 +138,60 @@ describe('CommandGuard', () => {
     });
   });
 
+  describe('execDetailed', () => {
+    const ok = { stdout: 'up 3 days', stderr: '', exitCode: 0, durationMs: 12 };
+
+    function withExecDetailed(execDetailed: jest.Mock) {
+      return { ...createMockConnection(), execDetailed } as unknown as Parameters<typeof CommandGuard.prototype.exec>[0];
+    }
+
+    it('returns the result and completes the activity', async () => {
+      const execDetailed = jest.fn().mockResolvedValue(ok);
+      const conn = withExecDetailed(execDetailed);
+
+      const result = await guard.execDetailed(conn, 'uptime', { stdin: 'x', env: { LANG: 'C' }, timeoutMs: 5000 });
+
+      expect(result).toBe(ok);
+      expect(execDetailed).toHaveBeenCalledWith('uptime', expect.objectContaining({ stdin: 'x', env: { LANG: 'C' }, timeoutMs: 5000 }));
+      expect(activityService.getAllActivities()[0].status).toBe('completed');
+    });
+
+    it('fails the activity with the exit code and stderr of a failing command', async () => {
+      const conn = withExecDetailed(jest.fn().mockResolvedValue({ ...ok, stdout: '', stderr: 'crontab: bad minute\n', exitCode: 1 }));
+
+      const result = await guard.execDetailed(conn, 'crontab /tmp/x');
+
+      expect(result.exitCode).toBe(1);
+      const [activity] = activityService.getAllActivities();
+      expect(activity.status).toBe('failed');
+      expect(activity.detail).toBe('Exit code 1: crontab: bad minute');
+    });
+
+    it('stops the command when its activity is cancelled', async () => {
+      let token: { isCancellationRequested: boolean } | undefined;
+      const conn = withExecDetailed(jest.fn().mockImplementation(async (_cmd: string, opts: { token: typeof token }) => {
+        token = opts.token;
+        activityService.cancelActivity(activityService.getAllActivities()[0].id);
+        return { ...ok, exitCode: null, signal: 'TERM', cancelled: true };
+      }));
+
+      await guard.execDetailed(conn, 'tail -f /var/log/syslog');
+
+      expect(token?.isCancellationRequested).toBe(true);
+      expect(activityService.getAllActivities()[0].status).toBe('cancelled');
+    });
+
+    it('streams output to onData with execStream', async () => {
+      const execStream = jest.fn().mockResolvedValue(ok);
+      const conn = { ...createMockConnection(), execStream } as unknown as Parameters<typeof CommandGuard.prototype.exec>[0];
+      const onData = jest.fn();
+
+      await guard.execStream(conn, 'make', onData);
+
+      expect(execStream).toHaveBeenCalledWith('make', onData, expect.objectContaining({ token: expect.anything() }));
+    });
+  });
+
   describe('readFile', () => {
     it('should read file and track download activity', async () => {
       const fileContent = Buffer.from('test content');
@@ -358,6 +413,24 @@ describe('CommandGuard', () => {
       expect((conn as any).listFiles).not.toHaveBeenCalled();
     });
 
+    it('should route streamed commands through the sudo streams when sudo mode is active', async () => {
+      const conn = createMockConnection({ sudoMode: true, sudoPassword: 'pass' }) as any;
+      conn.execToStream = jest.fn();
+      conn.execFromStream = jest.fn();
+      conn.sudoExecToStream = jest.fn().mockResolvedValue(10);
+      conn.sudoExecFromStream = jest.fn().mockResolvedValue(undefined);
+      const target = new PassThrough();
+      const source = new PassThrough();
+
+      await guard.execToStream(conn, 'tar czf - app', target);
+      await guard.execFromStream(conn, 'tar xzf - -C /srv', source);
+
+      expect(conn.sudoExecToStream).toHaveBeenCalledWith('tar czf - app', target, 'pass', expect.anything());
+      expect(conn.sudoExecFromStream).toHaveBeenCalledWith('tar xzf - -C /srv', source, 'pass', expect.anything());
+      expect(conn.execToStream).not.toHaveBeenCalled();
+      expect(conn.execFromStream).not.toHaveBeenCalled();
+    });
+
     it('should prefix activity description with "Sudo" when sudo mode is active', async () => {
       const conn = createMockConnection({ sudoMode: true, sudoPassword: 'pass' });
       await guard.readFile(conn, '/etc/shadow');
@@ -16,14 +16,16 @@
 
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { Readable, Writable } from 'stream';
 import { ClientChannel } from 'ssh2';
 import { SSHConnection } from '../connection/SSHConnection';
-import { IRemoteFile } from '../types';
+import { IRemoteFile, IExecOptions, IExecResult } from '../types';
 import { ActivityService, ActivityType } from './ActivityService';
 import { formatFileSize } from '../utils/helpers';
 import { ChannelSemaphore, ChannelLimitError, ChannelTimeoutError } from './ChannelSemaphore';
 import { diagLog, infoLog } from '../utils/diagnosticLog';
 import { assertCapability } from '../utils/capabilityGuard';
+import { execFailure } from '../utils/execResult';
 
 /**
  * Options for tracked operations
@@ -83,6 +85,12 @@ export class CommandGuard {
     return this.semaphores.get(connectionId)!;
   }
 
+  /** Channel slots in use for a connection, or undefined before its first exec/shell */
+  getChannelUsage(connectionId: string): { active: number; max: number; queued: number } | undefined {
+    const sem = this.semaphores.get(connectionId);
+    return sem ? { active: sem.activeCount, max: sem.maxSlots, queued: sem.queued } : undefined;
+  }
+
   removeSemaphore(connectionId: string): void {
     const sem = this.semaphores.get(connectionId);
     if (sem) {
@@ -108,7 +116,7 @@ export class CommandGuard {
   async openShell(
     connection: SSHConnection,
     pty?: { term?: string; rows?: number; cols?: number },
-    opts?: { env?: Record<string, string> }
+    opts?: { env?: Record<string, string>; command?: string }
   ): Promise<ClientChannel> {
     // Backstop: FTP has no interactive shell. Fail clearly instead of a TypeError.
     assertCapability(connection, 'supportsShell');
@@ -282,6 +290,199 @@ export class CommandGuard {
     throw lastError!;
   }
 
+  /**
+   * Run a command and get stdout, stderr, exit code and timing instead of
+   * stdout alone. The activity ends failed with the reason when the command
+   * fails, and cancelling it in the Activity panel stops the command.
+   * Not routed through sudo: the sudo wrapper only returns stdout.
+   */
+  async execDetailed(
+    connection: SSHConnection,
+    command: string,
+    options?: TrackingOptions & IExecOptions
+  ): Promise<IExecResult> {
+    return this.execTracked(connection, command, options, (execOptions) =>
+      connection.execDetailed(command, execOptions)
+    );
+  }
+
+  /**
+   * execDetailed with output passed to `onData` as it arrives instead of
+   * collected, for long-running commands.
+   */
+  async execStream(
+    connection: SSHConnection,
+    command: string,
+    onData: NonNullable<IExecOptions['onData']>,
+    options?: TrackingOptions & IExecOptions
+  ): Promise<IExecResult> {
+    return this.execTracked(connection, command, options, (execOptions) =>
+      connection.execStream(command, onData, execOptions)
+    );
+  }
+
+  private async execTracked(
+    connection: SSHConnection,
+    command: string,
+    options: (TrackingOptions & IExecOptions) | undefined,
+    run: (execOptions: IExecOptions) => Promise<IExecResult>
+  ): Promise<IExecResult> {
+    assertCapability(connection, 'supportsExec');
+    // Either the caller's token or the Activity panel's cancel stops the command
+    const cancellation = new vscode.CancellationTokenSource();
+    const callerCancel = options?.token?.onCancellationRequested(() => cancellation.cancel());
+    if (options?.token?.isCancellationRequested) {
+      cancellation.cancel();
+    }
+    const activityId = this.activityService.startActivity(
+      options?.type || 'terminal',
+      connection.id,
+      connection.host.name,
+      options?.description || this.extractCommandDescription(command),
+      {
+        detail: options?.detail,
+        cancellable: true,
+        onCancel: () => {
+          cancellation.cancel();
+          options?.onCancel?.();
+        },
+      }
+    );
+
+    const semaphore = this.getSemaphore(connection.id);
+    const cmdPreview = command.length > 80 ? command.slice(0, 80) + '…' : command;
+    let release: (() => void) | undefined;
+    try {
+      release = await semaphore.acquire();
+      const result = await run({
+        stdin: options?.stdin,
+        env: options?.env,
+        timeoutMs: options?.timeoutMs,
+        killSignal: options?.killSignal,
+        onData: options?.onData,
+        token: cancellation.token,
+      });
+      semaphore.recordSuccess();
+      const failure = execFailure(result);
+      if (result.cancelled) {
+        this.activityService.cancelActivity(activityId);
+      } else if (failure) {
+        this.activityService.failActivity(activityId, failure);
+      } else {
+        this.activityService.completeActivity(activityId);
+      }
+      diagLog('command-guard', 'execDetailed/done', {
+        connectionId: connection.id,
+        cmd: cmdPreview,
+        exitCode: result.exitCode,
+        signal: result.signal,
+        durationMs: result.durationMs,
+      });
+      return result;
+    } catch (error) {
+      const err = error as Error;
+      infoLog('command-guard', 'execDetailed/failed', {
+        connectionId: connection.id,
+        cmd: cmdPreview,
+        errorName: err.name,
+        errorMessage: err.message,
+      });
+      this.activityService.failActivity(activityId, err.message);
+      throw error;
+    } finally {
+      release?.();
+      callerCancel?.dispose();
+      cancellation.dispose();
+    }
+  }
+
+  /**
+   * Run a command whose stdout streams into `target` (e.g. `tar czf -` into a
+   * local file), with bytes so far in the activity detail. Routed through
+   * sudo when sudo mode is active; stdout still streams.
+   */
+  async execToStream(
+    connection: SSHConnection,
+    command: string,
+    target: Writable,
+    options?: TrackingOptions & { signal?: AbortSignal }
+  ): Promise<number> {
+    return this.execStreamed(connection, command, options, 'download', (onProgress) =>
+      connection.sudoMode && connection.sudoPassword
+        ? connection.sudoExecToStream(command, target, connection.sudoPassword, { signal: options?.signal, onProgress })
+        : connection.execToStream(command, target, { signal: options?.signal, onProgress })
+    );
+  }
+
+  /**
+   * Run a command with `source` streamed into its stdin (e.g. a local
+   * `tar czf -` into a remote `tar xzf -`), with bytes so far in the activity
+   * detail. Routed through sudo when sudo mode is active; the data follows
+   * the password on stdin once sudo has read it.
+   */
+  async execFromStream(
+    connection: SSHConnection,
+    command: string,
+    source: Readable,
+    options?: TrackingOptions & { signal?: AbortSignal }
+  ): Promise<number> {
+    return this.execStreamed(connection, command, options, 'upload', (onProgress) =>
+      connection.sudoMode && connection.sudoPassword
+        ? connection.sudoExecFromStream(command, source, connection.sudoPassword, { signal: options?.signal, onProgress })
+        : connection.execFromStream(command, source, { signal: options?.signal, onProgress })
+    );
+  }
+
+  private async execStreamed(
+    connection: SSHConnection,
+    command: string,
+    options: TrackingOptions | undefined,
+    defaultType: ActivityType,
+    run: (onProgress: (bytes: number) => void) => Promise<number>
+  ): Promise<number> {
+    assertCapability(connection, 'supportsExec');
+    const activityId = this.activityService.startActivity(
+      options?.type || defaultType,
+      connection.id,
+      connection.host.name,
+      options?.description || this.extractCommandDescription(command),
+      {
+        detail: options?.detail,
+        cancellable: options?.cancellable,
+        onCancel: options?.onCancel,
+      }
+    );
+
+    const semaphore = this.getSemaphore(connection.id);
+    const release = await semaphore.acquire();
+    const t0 = Date.now();
+    let lastUpdate = 0;
+    try {
+      const bytes = await run((transferred) => {
+        const now = Date.now();
+        if (now - lastUpdate >= 500) {
+          lastUpdate = now;
+          this.activityService.updateDetail(activityId, formatFileSize(transferred));
+        }
+      });
+      semaphore.recordSuccess();
+      this.activityService.completeActivity(activityId, formatFileSize(bytes));
+      diagLog('command-guard', 'execStream/success', { connectionId: connection.id, bytes, durationMs: Date.now() - t0 });
+      return bytes;
+    } catch (error) {
+      const e = error as Error;
+      infoLog('command-guard', 'execStream/failed', { connectionId: connection.id, durationMs: Date.now() - t0, errorName: e.name, errorMessage: e.message });
+      if (e.message === 'Cancelled') {
+        this.activityService.cancelActivity(activityId);
+      } else {
+        this.activityService.failActivity(activityId, e.message);
+      }
+      throw error;
+    } finally {
+      release();
+    }
+  }
+
   /**
    * Read a remote file with activity tracking.
    * Automatically routes through sudo when connection sudo mode is active.
@@ -535,6 +736,50 @@ export class CommandGuard {
     this.activityService.failActivity(activityId, error);
   }
 
+  /**
+   * Start a folder sync with activity tracking. The per-file transfers are
+   * tracked on their own; this one carries the overall progress.
+   * Returns the activity ID for progress updates
+   */
+  startSync(
+    connection: SSHConnection,
+    name: string,
+    options?: TrackingOptions
+  ): string {
+    return this.activityService.startActivity(
+      'sync',
+      connection.id,
+      connection.host.name,
+      options?.description || `Sync: ${name}`,
+      {
+        detail: options?.detail,
+        cancellable: options?.cancellable,
+        onCancel: options?.onCancel,
+      }
+    );
+  }
+
+  /**
+   * Update folder sync progress (0-100)
+   */
+  updateSync(activityId: string, progress: number, detail: string): void {
+    this.activityService.updateProgress(activityId, progress, detail);
+  }
+
+  /**
+   * Complete a folder sync
+   */
+  completeSync(activityId: string, detail?: string): void {
+    this.activityService.completeActivity(activityId, detail);
+  }
+
+  /**
+   * Fail a folder sync
+   */
+  failSync(activityId: string, error: string): void {
+    this.activityService.failActivity(activityId, error);
+  }
+
   /**
    * Start a connection activity
    */
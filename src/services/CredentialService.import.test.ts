@@ -161,6 +161,17 @@ describe('CredentialService.importCredentialMetadata', () => {
       expect(creds.map((c) => c.label).sort()).toEqual(['Good', 'Key']);
       expect(creds.find((c) => c.type === '../../etc/passwd' as any)).toBeUndefined();
     });
+
+    it('keeps certificate credentials with their key and certificate paths', async () => {
+      const cert = {
+        id: 'c', label: 'Cert', type: 'certificate' as const,
+        privateKeyPath: '~/.ssh/id_ed25519', certificatePath: '~/.ssh/id_ed25519-cert.pub',
+      };
+
+      await service.importCredentialMetadata('h1:22:u', [cert], 'replace');
+
+      expect(service.listCredentials('h1:22:u')).toEqual([cert]);
+    });
   });
 
   describe('id generation', () => {
@@ -91,6 +91,23 @@ describe('CredentialService', () => {
       expect(credential.privateKeyPath).toBe('~/.ssh/id_rsa');
     });
 
+    it('should add a certificate credential with its key and certificate paths', async () => {
+      setMockConfig('sshLite.credentialIndex', {});
+
+      const credential = await credentialService.addCredential(
+        'host1',
+        'Cert',
+        'certificate',
+        '',
+        '~/.ssh/id_ed25519',
+        '~/.ssh/id_ed25519-cert.pub'
+      );
+
+      expect(credential.type).toBe('certificate');
+      expect(credential.privateKeyPath).toBe('~/.ssh/id_ed25519');
+      expect(credential.certificatePath).toBe('~/.ssh/id_ed25519-cert.pub');
+    });
+
     it('should store secret in session credentials', async () => {
       setMockConfig('sshLite.credentialIndex', {});
 
@@ -305,6 +322,66 @@ describe('CredentialService', () => {
     });
   });
 
+  describe('TOTP secret', () => {
+    it('stores, reads and deletes the secret in SecretStorage', async () => {
+      await credentialService.setTotpSecret('host1', 'JBSWY3DPEHPK3PXP');
+      expect(await mockContext.secrets.get('sshLite:host1:totp')).toBe('JBSWY3DPEHPK3PXP');
+      expect(await credentialService.getTotpSecret('host1')).toBe('JBSWY3DPEHPK3PXP');
+
+      await credentialService.deleteTotpSecret('host1');
+      expect(await credentialService.getTotpSecret('host1')).toBeUndefined();
+    });
+
+    it('survives deleteAll (which runs after a failed login)', async () => {
+      setMockConfig('sshLite.credentialIndex', { host1: [{ id: 'cred1', label: 'Default', type: 'password' }] });
+      await credentialService.setTotpSecret('host1', 'JBSWY3DPEHPK3PXP');
+
+      await credentialService.deleteAll('host1');
+
+      expect(await credentialService.getTotpSecret('host1')).toBe('JBSWY3DPEHPK3PXP');
+    });
+  });
+
+  describe('Key passphrases', () => {
+    it('prompts once per key path and keeps each answer separately', async () => {
+      (window.showInputBox as jest.Mock).mockResolvedValueOnce('rsa-pp').mockResolvedValueOnce('ed-pp');
+
+      expect(await credentialService.getOrPromptKeyPassphrase('host1', '~/.ssh/id_rsa', 'Passphrase')).toBe('rsa-pp');
+      expect(await credentialService.getOrPromptKeyPassphrase('host1', '~/.ssh/id_ed25519', 'Passphrase')).toBe('ed-pp');
+      expect(await credentialService.getOrPromptKeyPassphrase('host1', '~/.ssh/id_rsa', 'Passphrase')).toBe('rsa-pp');
+
+      expect(window.showInputBox).toHaveBeenCalledTimes(2);
+      expect(await mockContext.secrets.get('sshLite:host1:passphrase:~/.ssh/id_ed25519')).toBe('ed-pp');
+    });
+
+    it('forgets a deleted passphrase', async () => {
+      (window.showInputBox as jest.Mock).mockResolvedValueOnce('pp');
+      await credentialService.getOrPromptKeyPassphrase('host1', '~/.ssh/id_rsa', 'Passphrase');
+
+      await credentialService.deleteKeyPassphrase('host1', '~/.ssh/id_rsa');
+
+      expect(await credentialService.getKeyPassphrase('host1', '~/.ssh/id_rsa')).toBeUndefined();
+    });
+  });
+
+  describe('Last successful auth method', () => {
+    it('reads it from the saved credential when one was used', async () => {
+      setMockConfig('sshLite.credentialIndex', {
+        host1: [{ id: 'cred1', label: 'Key', type: 'privateKey', lastAuthMethod: 'publickey:~/.ssh/id_ed25519' }],
+      });
+
+      expect(await credentialService.getLastAuthMethod('host1', 'cred1')).toBe('publickey:~/.ssh/id_ed25519');
+      expect(await credentialService.getLastAuthMethod('host1')).toBeUndefined();
+    });
+
+    it('keeps it per host when connecting without a credential', async () => {
+      await credentialService.setLastAuthMethod('host1', 'agent');
+
+      expect(await credentialService.getLastAuthMethod('host1')).toBe('agent');
+      expect(await mockContext.secrets.get('sshLite:host1:authMethod')).toBe('agent');
+    });
+  });
+
   describe('Sudo password management', () => {
     it('should return null when no sudo password is cached', () => {
       expect(credentialService.getSudoPasswordCached('host1')).toBeNull();
@@ -3,7 +3,7 @@ import * as vscode from 'vscode';
 /**
  * Credential types
  */
-export type CredentialType = 'password' | 'privateKey';
+export type CredentialType = 'password' | 'privateKey' | 'certificate';
 
 /**
  * Pinned folder info
@@ -21,10 +21,14 @@ export interface SavedCredential {
   id: string;
   label: string;
   type: CredentialType;
-  // For privateKey type, this stores the path
+  // For privateKey and certificate types, this stores the path
   privateKeyPath?: string;
+  // For certificate type, the OpenSSH certificate paired with the key (usually `<key>-cert.pub`)
+  certificatePath?: string;
   // Pinned folders for this credential
   pinnedFolders?: PinnedFolder[];
+  // Auth attempt that last logged in with this credential (see authAttemptId), tried first next time
+  lastAuthMethod?: string;
 }
 
 /**
@@ -97,15 +101,16 @@ export class CredentialService {
    * Add a new credential for a host
    *
    * `value` is the password (for `password` type) or the passphrase
-   * (for `privateKey` type). Pass an empty string for a passwordless
-   * private key — no secret is stored in that case.
+   * (for `privateKey` and `certificate` types). Pass an empty string for a
+   * passwordless private key — no secret is stored in that case.
    */
   async addCredential(
     hostId: string,
     label: string,
     type: CredentialType,
     value: string,
-    privateKeyPath?: string
+    privateKeyPath?: string,
+    certificatePath?: string
   ): Promise<SavedCredential> {
     const index = this.getCredentialIndex();
     if (!index[hostId]) {
@@ -120,6 +125,7 @@ export class CredentialService {
       label,
       type,
       privateKeyPath,
+      ...(certificatePath ? { certificatePath } : {}),
     };
 
     // Store the secret value (password or passphrase). Skip when empty so a
@@ -229,6 +235,9 @@ export class CredentialService {
           if (c.privateKeyPath) {
             cred.privateKeyPath = c.privateKeyPath;
           }
+          if (c.certificatePath) {
+            cred.certificatePath = c.certificatePath;
+          }
           const pins = (c.pinnedFolders || [])
             .filter((p) => p && p.remotePath)
             .map((p) => ({ id: p.id, name: p.name, remotePath: p.remotePath }));
@@ -275,6 +284,9 @@ export class CredentialService {
       if (c.privateKeyPath) {
         cred.privateKeyPath = c.privateKeyPath;
       }
+      if (c.certificatePath) {
+        cred.certificatePath = c.certificatePath;
+      }
       const pins = (c.pinnedFolders || [])
         .filter((p) => p && p.remotePath)
         .map((p) => ({ id: p.id || genId('pin'), name: p.name, remotePath: p.remotePath }));
@@ -284,7 +296,7 @@ export class CredentialService {
       return cred;
     };
 
-    const ALLOWED_TYPES: ReadonlySet<CredentialType> = new Set(['password', 'privateKey']);
+    const ALLOWED_TYPES: ReadonlySet<CredentialType> = new Set(['password', 'privateKey', 'certificate']);
     const incoming = (creds || [])
       .filter((c) => c && c.label && ALLOWED_TYPES.has(c.type))
       .map(sanitize);
@@ -311,6 +323,9 @@ export class CredentialService {
         if (c.privateKeyPath) {
           prior.privateKeyPath = c.privateKeyPath;
         }
+        if (c.certificatePath) {
+          prior.certificatePath = c.certificatePath;
+        }
         const pins = prior.pinnedFolders || [];
         const seen = new Set(pins.map((p) => p.remotePath));
         for (const p of c.pinnedFolders || []) {
@@ -487,6 +502,122 @@ export class CredentialService {
     this.sessionCredentials.clear();
   }
 
+  // ─── TOTP Secret (2FA) ──────────────────────────────────────────────
+  // One optional secret per host (user@host:port), used to answer the
+  // "Verification code" prompt of keyboard-interactive logins. Kept apart
+  // from the credential index so deleteAll() after a failed login (e.g. a
+  // rejected code) does not throw away the enrolment.
+
+  private static totpKey(hostId: string): string {
+    return `sshLite:${hostId}:totp`;
+  }
+
+  async getTotpSecret(hostId: string): Promise<string | undefined> {
+    const key = CredentialService.totpKey(hostId);
+    const session = this.sessionCredentials.get(key);
+    if (session) return session;
+    return this.secretStorage ? await this.secretStorage.get(key) : undefined;
+  }
+
+  async setTotpSecret(hostId: string, secret: string): Promise<void> {
+    const key = CredentialService.totpKey(hostId);
+    this.sessionCredentials.set(key, secret);
+    if (this.secretStorage) {
+      await this.secretStorage.store(key, secret);
+    }
+  }
+
+  async deleteTotpSecret(hostId: string): Promise<void> {
+    const key = CredentialService.totpKey(hostId);
+    this.sessionCredentials.delete(key);
+    if (this.secretStorage) {
+      await this.secretStorage.delete(key);
+    }
+  }
+
+  // ─── Key Passphrases ────────────────────────────────────────────────
+  // A connect without a saved credential may offer several encrypted keys
+  // (IdentityFile entries, ~/.ssh defaults). Each gets its own passphrase,
+  // keyed by host and key path as configured; the legacy get()/save() pair
+  // would hand every key the host's one "Default" secret.
+
+  private static passphraseKey(hostId: string, keyPath: string): string {
+    return `sshLite:${hostId}:passphrase:${keyPath}`;
+  }
+
+  async getKeyPassphrase(hostId: string, keyPath: string): Promise<string | undefined> {
+    const key = CredentialService.passphraseKey(hostId, keyPath);
+    const session = this.sessionCredentials.get(key);
+    if (session) return session;
+    return this.secretStorage ? await this.secretStorage.get(key) : undefined;
+  }
+
+  /** Saved passphrase for this key, or ask for it (and save what was typed) */
+  async getOrPromptKeyPassphrase(hostId: string, keyPath: string, prompt: string): Promise<string | undefined> {
+    const saved = await this.getKeyPassphrase(hostId, keyPath);
+    if (saved) return saved;
+
+    const value = await vscode.window.showInputBox({
+      prompt,
+      password: true,
+      ignoreFocusOut: true,
+    });
+    if (value) {
+      const key = CredentialService.passphraseKey(hostId, keyPath);
+      this.sessionCredentials.set(key, value);
+      if (this.secretStorage) {
+        await this.secretStorage.store(key, value);
+      }
+    }
+    return value;
+  }
+
+  async deleteKeyPassphrase(hostId: string, keyPath: string): Promise<void> {
+    const key = CredentialService.passphraseKey(hostId, keyPath);
+    this.sessionCredentials.delete(key);
+    if (this.secretStorage) {
+      await this.secretStorage.delete(key);
+    }
+  }
+
+  // ─── Last Successful Auth Method ───────────────────────────────────
+  // Which auth attempt (agent, a key, password, ...) logged in last, so the
+  // next connect offers it first. Stored on the SavedCredential when the
+  // connection used one; otherwise per host, next to the TOTP secret.
+
+  private static authMethodKey(hostId: string): string {
+    return `sshLite:${hostId}:authMethod`;
+  }
+
+  async getLastAuthMethod(hostId: string, credentialId?: string): Promise<string | undefined> {
+    if (credentialId) {
+      return this.listCredentials(hostId).find((c) => c.id === credentialId)?.lastAuthMethod;
+    }
+    const key = CredentialService.authMethodKey(hostId);
+    const session = this.sessionCredentials.get(key);
+    if (session) return session;
+    return this.secretStorage ? await this.secretStorage.get(key) : undefined;
+  }
+
+  async setLastAuthMethod(hostId: string, method: string, credentialId?: string): Promise<void> {
+    if (credentialId) {
+      const index = this.getCredentialIndex();
+      const credential = index[hostId]?.find((c) => c.id === credentialId);
+      // Skip the settings write when nothing changed: this runs on every connect
+      if (credential && credential.lastAuthMethod !== method) {
+        credential.lastAuthMethod = method;
+        await this.saveCredentialIndex(index);
+      }
+      return;
+    }
+    const key = CredentialService.authMethodKey(hostId);
+    if (this.sessionCredentials.get(key) === method) return;
+    this.sessionCredentials.set(key, method);
+    if (this.secretStorage) {
+      await this.secretStorage.store(key, method);
+    }
+  }
+
   // ─── Sudo Password Management ────────────────────────────────────────
   // Sudo passwords are stored in-memory only (sessionCredentials map).
   // Never persisted to disk. Cleared on VS Code restart.
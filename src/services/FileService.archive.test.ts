@@ -0,0 +1,278 @@
+/**
+ * FileService server-side archives
+ *
+ * Compress / Extract Here run tar or zip on the server through CommandGuard
+ * (sudo retry on permission denied, audited). Download as Archive streams
+ * `tar czf -` into a local part file; Upload Folder as Archive pipes a local
+ * tar into `tar xzf -` on the server.
+ */
+
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+
+var mockRename = jest.fn().mockResolvedValue(undefined);
+var mockRm = jest.fn().mockResolvedValue(undefined);
+var mockSpawn = jest.fn();
+
+jest.mock('fs', () => ({
+  existsSync: jest.fn().mockReturnValue(false),
+  mkdirSync: jest.fn(),
+  writeFileSync: jest.fn(),
+  readFileSync: jest.fn().mockReturnValue('{}'),
+  readdirSync: jest.fn().mockReturnValue([]),
+  unlinkSync: jest.fn(),
+  statSync: jest.fn().mockReturnValue({ mtimeMs: Date.now(), isDirectory: () => false }),
+  rmdirSync: jest.fn(),
+  createWriteStream: jest.fn(() => 'local-write-stream'),
+  promises: { rename: (...a: unknown[]) => mockRename(...a), rm: (...a: unknown[]) => mockRm(...a) },
+}));
+
+jest.mock('os', () => ({
+  tmpdir: jest.fn().mockReturnValue('/tmp'),
+  platform: jest.fn().mockReturnValue('linux'),
+  homedir: jest.fn().mockReturnValue('/home/test'),
+}));
+
+jest.mock('child_process', () => ({
+  spawn: (...a: unknown[]) => mockSpawn(...a),
+}));
+
+var mockAuditLog = jest.fn();
+var mockGuardExec = jest.fn();
+var mockGuardExecToStream = jest.fn();
+var mockGuardExecFromStream = jest.fn();
+
+jest.mock('../connection/ConnectionManager', () => ({
+  ConnectionManager: {
+    getInstance: jest.fn().mockReturnValue({
+      getConnection: jest.fn(),
+      getAllConnections: jest.fn(() => []),
+      onDidChangeConnections: jest.fn().mockReturnValue({ dispose: jest.fn() }),
+    }),
+  },
+}));
+jest.mock('./AuditService', () => ({
+  AuditService: { getInstance: jest.fn().mockReturnValue({ log: (...a: unknown[]) => mockAuditLog(...a) }) },
+}));
+jest.mock('./FolderHistoryService', () => ({
+  FolderHistoryService: { getInstance: jest.fn().mockReturnValue({ recordVisit: jest.fn(), getFrequentPaths: jest.fn().mockReturnValue([]) }) },
+}));
+jest.mock('./ProgressiveDownloadManager', () => ({
+  ProgressiveDownloadManager: { getInstance: jest.fn().mockReturnValue({ shouldUseProgressiveDownload: jest.fn().mockReturnValue(false), isDownloading: jest.fn().mockReturnValue(false) }) },
+}));
+jest.mock('./PriorityQueueService', () => ({
+  PriorityQueueService: { getInstance: jest.fn().mockReturnValue({ enqueue: jest.fn(), cancelAll: jest.fn(), isProcessing: jest.fn().mockReturnValue(false) }) },
+  PreloadPriority: { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 },
+}));
+jest.mock('./ActivityService', () => ({
+  ActivityService: { getInstance: jest.fn().mockReturnValue({ startActivity: jest.fn().mockReturnValue('act-1'), completeActivity: jest.fn(), failActivity: jest.fn() }) },
+}));
+jest.mock('./CommandGuard', () => ({
+  CommandGuard: {
+    getInstance: jest.fn().mockReturnValue({
+      exec: (...a: unknown[]) => mockGuardExec(...a),
+      execToStream: (...a: unknown[]) => mockGuardExecToStream(...a),
+      execFromStream: (...a: unknown[]) => mockGuardExecFromStream(...a),
+    }),
+  },
+}));
+
+import * as vscode from 'vscode';
+import { IRemoteFile } from '../types';
+import { FileService } from './FileService';
+import { createMockRemoteFile } from '../__mocks__/testHelpers';
+
+function resetFileService(): FileService {
+  try { FileService.getInstance().dispose(); } catch { /* ignore */ }
+  (FileService as any)._instance = undefined;
+  return FileService.getInstance();
+}
+
+function makeConnection() {
+  return {
+    id: 'test-host:22:testuser',
+    host: { id: 'test-host:22:testuser', name: 'Test Server', host: 'test-host', port: 22, username: 'testuser' },
+    state: 'connected',
+    capabilities: { type: 'ssh', supportsExec: true, supportsSudo: true },
+    sudoMode: false,
+    sudoPassword: undefined as string | undefined,
+    fileExists: jest.fn().mockResolvedValue(false),
+    sudoExec: jest.fn().mockResolvedValue(''),
+  };
+}
+
+/**
+ * A local `tar` child process that exits with `code` once its stdout ends;
+ * with `code` null it runs until killed
+ */
+function fakeTar(code: number | null, stderr = '') {
+  const proc = Object.assign(new EventEmitter(), {
+    stdout: new PassThrough(),
+    stderr: new PassThrough(),
+    exitCode: null as number | null,
+    signalCode: null as string | null,
+    kill: jest.fn(() => {
+      proc.signalCode = 'SIGTERM';
+      proc.emit('close', null);
+    }),
+  });
+  if (code !== null) {
+    setImmediate(() => {
+      proc.stderr.write(stderr);
+      proc.exitCode = code;
+      proc.emit('close', code);
+    });
+  }
+  return proc;
+}
+
+const SITE: IRemoteFile = createMockRemoteFile('site', { path: '/var/www/site', isDirectory: true });
+
+describe('FileService - archives', () => {
+  let service: FileService;
+  let conn: ReturnType<typeof makeConnection>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = resetFileService();
+    conn = makeConnection();
+    mockGuardExec.mockResolvedValue('');
+  });
+
+  afterEach(() => {
+    try { service.dispose(); } catch { /* ignore */ }
+  });
+
+  describe('compressRemote', () => {
+    it('packs the selection into a tar.gz next to it and audits it', async () => {
+      (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(async (items) => items[0]);
+      (vscode.window.showInputBox as jest.Mock).mockImplementationOnce(async (opts) => opts.value);
+
+      const archive = await service.compressRemote(conn as any, [SITE]);
+
+      expect(archive).toBe('/var/www/site.tar.gz');
+      expect(mockGuardExec).toHaveBeenCalledWith(
+        conn,
+        "cd '/var/www' && tar czf 'site.tar.gz' './site'",
+        expect.objectContaining({ type: 'archive' })
+      );
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'archive',
+        remotePath: '/var/www/site.tar.gz',
+        detail: 'tar.gz of site',
+        success: true,
+      }));
+    });
+
+    it('refuses items from different folders', async () => {
+      const other = createMockRemoteFile('x', { path: '/etc/x' });
+
+      expect(await service.compressRemote(conn as any, [SITE, other])).toBeUndefined();
+      expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+      expect(mockGuardExec).not.toHaveBeenCalled();
+    });
+
+    it('asks before replacing an existing archive', async () => {
+      (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(async (items) => items[1]);
+      (vscode.window.showInputBox as jest.Mock).mockImplementationOnce(async (opts) => opts.value);
+      conn.fileExists.mockResolvedValueOnce(true);
+
+      expect(await service.compressRemote(conn as any, [SITE])).toBeUndefined();
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith('"site.zip" already exists in /var/www.', { modal: true }, 'Replace');
+      expect(mockGuardExec).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('extractRemote', () => {
+    it('retries through sudo when tar hits permission denied', async () => {
+      mockGuardExec.mockRejectedValueOnce(new Error("Command failed (exit code 2): tar: ./x: Cannot open: Permission denied"));
+      (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Sudo Once');
+      jest.spyOn(service as any, 'getSudoPassword').mockResolvedValue('secret');
+      const file = createMockRemoteFile('backup.tgz', { path: '/opt/backup.tgz' });
+
+      expect(await service.extractRemote(conn as any, file)).toBe(true);
+      expect(conn.sudoExec).toHaveBeenCalledWith("tar xzf '/opt/backup.tgz' -C '/opt'", 'secret');
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'extract', success: true }));
+    });
+
+    it('rejects files that are not archives', async () => {
+      const file = createMockRemoteFile('notes.txt', { path: '/opt/notes.txt' });
+
+      expect(await service.extractRemote(conn as any, file)).toBe(false);
+      expect(mockGuardExec).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('downloadFolderAsArchive', () => {
+    it('streams tar czf - into a part file and renames it when done', async () => {
+      (vscode.window.showSaveDialog as jest.Mock).mockResolvedValueOnce(vscode.Uri.file('/home/test/site.tar.gz'));
+      mockGuardExecToStream.mockResolvedValueOnce(2048);
+
+      await service.downloadFolderAsArchive(conn as any, SITE);
+
+      expect(mockGuardExecToStream).toHaveBeenCalledWith(
+        conn,
+        "tar czf - -C '/var/www' './site'",
+        'local-write-stream',
+        expect.objectContaining({ cancellable: true })
+      );
+      expect(mockRename).toHaveBeenCalledWith('/home/test/site.tar.gz.sshlite-part', '/home/test/site.tar.gz');
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'download', fileSize: 2048, success: true }));
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('Downloaded site.tar.gz (2 KB)', 'Extract Here');
+    });
+
+    it('removes the part file and reports the error when tar fails', async () => {
+      (vscode.window.showSaveDialog as jest.Mock).mockResolvedValueOnce(vscode.Uri.file('/home/test/site.tar.gz'));
+      mockGuardExecToStream.mockRejectedValueOnce(new Error('Command failed (exit code 2): tar: site: Cannot open'));
+
+      await service.downloadFolderAsArchive(conn as any, SITE);
+
+      expect(mockRm).toHaveBeenCalledWith('/home/test/site.tar.gz.sshlite-part', { force: true });
+      expect(mockRename).not.toHaveBeenCalled();
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'download', success: false }));
+    });
+  });
+
+  describe('uploadFolderAsArchive', () => {
+    it('pipes the local tar into tar xzf - on the server', async () => {
+      (vscode.window.showOpenDialog as jest.Mock).mockResolvedValueOnce([vscode.Uri.file('/home/test/project')]);
+      const tar = fakeTar(0);
+      mockSpawn.mockReturnValueOnce(tar);
+      mockGuardExecFromStream.mockResolvedValueOnce(4096);
+
+      expect(await service.uploadFolderAsArchive(conn as any, '/srv')).toBe(true);
+      expect(mockSpawn).toHaveBeenCalledWith('tar', ['czf', '-', '-C', '/home/test', './project'], { windowsHide: true });
+      expect(mockGuardExecFromStream).toHaveBeenCalledWith(
+        conn,
+        "mkdir -p '/srv' && tar xzf - -C '/srv'",
+        tar.stdout,
+        expect.objectContaining({ cancellable: true })
+      );
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'upload', remotePath: '/srv/project', success: true }));
+    });
+
+    it('fails when the local tar could not read everything, even though the stream ended cleanly', async () => {
+      (vscode.window.showOpenDialog as jest.Mock).mockResolvedValueOnce([vscode.Uri.file('/home/test/project')]);
+      mockSpawn.mockReturnValueOnce(fakeTar(2, 'tar: project/secret: Permission denied'));
+      mockGuardExecFromStream.mockResolvedValueOnce(4096);
+
+      expect(await service.uploadFolderAsArchive(conn as any, '/srv')).toBe(false);
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        'Failed to upload project as archive: local tar exited 2: tar: project/secret: Permission denied'
+      );
+    });
+
+    it('reports the server\'s error, not the kill, when the upload fails while tar still runs', async () => {
+      (vscode.window.showOpenDialog as jest.Mock).mockResolvedValueOnce([vscode.Uri.file('/home/test/project')]);
+      const tar = fakeTar(null);
+      mockSpawn.mockReturnValueOnce(tar);
+      mockGuardExecFromStream.mockRejectedValueOnce(new Error("tar: /srv: Cannot open: Permission denied"));
+
+      expect(await service.uploadFolderAsArchive(conn as any, '/srv')).toBe(false);
+      expect(tar.kill).toHaveBeenCalled();
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        'Failed to upload project as archive: tar: /srv: Cannot open: Permission denied'
+      );
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * FileService remote-edit check on save
+ *
+ * Before uploading, the saved file's remote mtime/size is compared with what
+ * we last synced; when it moved and the content differs from both the base
+ * and our version, the upload is held and the user picks Merge (3-way merge
+ * editor), Overwrite Anyway, or Take Theirs. Every outcome is audited.
+ */
+
+jest.mock('fs', () => ({
+  existsSync: jest.fn().mockReturnValue(true),
+  mkdirSync: jest.fn(),
+  writeFileSync: jest.fn(),
+  readFileSync: jest.fn().mockReturnValue('{}'),
+  readdirSync: jest.fn().mockReturnValue([]),
+  unlinkSync: jest.fn(),
+  statSync: jest.fn().mockReturnValue({ mtimeMs: Date.now(), isDirectory: () => false }),
+  rmdirSync: jest.fn(),
+}));
+
+jest.mock('os', () => ({
+  tmpdir: jest.fn().mockReturnValue('/tmp'),
+  platform: jest.fn().mockReturnValue('linux'),
+  homedir: jest.fn().mockReturnValue('/home/test'),
+}));
+
+var mockConnection = {
+  id: 'test-host:22:testuser',
+  host: { name: 'Test Server', host: 'test-host', port: 22, username: 'testuser' },
+  state: 'connected',
+  capabilities: { supportsSudo: true },
+  readFile: jest.fn(),
+  stat: jest.fn(),
+  onFileChange: jest.fn().mockReturnValue({ dispose: jest.fn() }),
+};
+var mockWriteFile = jest.fn().mockResolvedValue(undefined);
+var mockLogConflict = jest.fn();
+var mockLogEdit = jest.fn();
+
+jest.mock('../connection/ConnectionManager', () => ({
+  ConnectionManager: {
+    getInstance: jest.fn().mockReturnValue({
+      getConnection: jest.fn(() => mockConnection),
+      getAllConnections: jest.fn(() => [mockConnection]),
+      onDidChangeConnections: jest.fn().mockReturnValue({ dispose: jest.fn() }),
+    }),
+  },
+}));
+
+jest.mock('./AuditService', () => ({
+  AuditService: { getInstance: jest.fn().mockReturnValue({ log: jest.fn(), logEdit: (...a: unknown[]) => mockLogEdit(...a), logConflict: (...a: unknown[]) => mockLogConflict(...a) }) },
+}));
+jest.mock('./FolderHistoryService', () => ({
+  FolderHistoryService: { getInstance: jest.fn().mockReturnValue({ recordVisit: jest.fn(), getFrequentPaths: jest.fn().mockReturnValue([]) }) },
+}));
+jest.mock('./ProgressiveDownloadManager', () => ({
+  ProgressiveDownloadManager: { getInstance: jest.fn().mockReturnValue({ shouldUseProgressiveDownload: jest.fn().mockReturnValue(false), isDownloading: jest.fn().mockReturnValue(false) }) },
+}));
+jest.mock('./PriorityQueueService', () => ({
+  PriorityQueueService: { getInstance: jest.fn().mockReturnValue({ enqueue: jest.fn(), cancelAll: jest.fn(), isProcessing: jest.fn().mockReturnValue(false) }) },
+  PreloadPriority: { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 },
+}));
+jest.mock('./ActivityService', () => ({
+  ActivityService: { getInstance: jest.fn().mockReturnValue({ startActivity: jest.fn().mockReturnValue('act-1'), completeActivity: jest.fn(), failActivity: jest.fn() }) },
+}));
+jest.mock('./CommandGuard', () => ({
+  CommandGuard: { getInstance: jest.fn().mockReturnValue({ writeFile: (...a: unknown[]) => mockWriteFile(...a) }) },
+}));
+
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { setMockConfig, clearMockConfig } from '../__mocks__/vscode';
+import { FileService, FileMapping } from './FileService';
+
+const LOCAL = '/tmp/ssh-lite/abc/[ssh] app.conf';
+const BASE = 'listen 80\n';
+const OURS = 'listen 8080\n';
+const THEIRS = 'listen 80\nworkers 4\n';
+
+function resetFileService(): FileService {
+  try { FileService.getInstance().dispose(); } catch { /* ignore */ }
+  (FileService as any)._instance = undefined;
+  return FileService.getInstance();
+}
+
+describe('FileService - remote edit check on save', () => {
+  let service: FileService;
+  let mapping: FileMapping;
+
+  function remote(content: string, modifiedTime: number) {
+    mockConnection.stat.mockResolvedValue({ size: Buffer.byteLength(content), modifiedTime });
+    mockConnection.readFile.mockResolvedValue(Buffer.from(content));
+  }
+
+  const upload = () => (service as any).uploadFileWithAudit(mapping, OURS);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = resetFileService();
+    mapping = {
+      connectionId: mockConnection.id,
+      remotePath: '/etc/app.conf',
+      localPath: LOCAL,
+      lastSyncTime: 0,
+      lastRemoteModTime: 1000,
+      lastRemoteSize: BASE.length,
+      originalContent: BASE,
+    };
+    remote(BASE, 1000);
+  });
+
+  afterEach(() => {
+    clearMockConfig();
+    try { service.dispose(); } catch { /* ignore */ }
+  });
+
+  it('uploads without downloading when mtime and size are unchanged', async () => {
+    await upload();
+
+    expect(mockConnection.readFile).not.toHaveBeenCalled();
+    expect(mockWriteFile).toHaveBeenCalled();
+    expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+  });
+
+  it('uploads when only the mtime moved and the content is still the base', async () => {
+    remote(BASE, 2000);
+
+    await upload();
+
+    expect(mockConnection.readFile).toHaveBeenCalledWith('/etc/app.conf');
+    expect(mockWriteFile).toHaveBeenCalled();
+    expect(mockLogConflict).not.toHaveBeenCalled();
+  });
+
+  it('records the remote mtime after its own upload', async () => {
+    mockConnection.stat
+      .mockResolvedValueOnce({ size: BASE.length, modifiedTime: 1000 })
+      .mockResolvedValueOnce({ size: OURS.length, modifiedTime: 3000 });
+
+    await upload();
+
+    expect(mapping.lastRemoteModTime).toBe(3000);
+    expect(mapping.lastRemoteSize).toBe(OURS.length);
+  });
+
+  describe('when someone changed the remote file', () => {
+    beforeEach(() => remote(THEIRS, 2000));
+
+    it('holds the upload when the prompt is dismissed', async () => {
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce(undefined);
+
+      await upload();
+
+      expect(mockWriteFile).not.toHaveBeenCalled();
+      expect(service.isFileUploadFailed(LOCAL)).toBe(true);
+      expect(mockLogConflict).toHaveBeenCalledWith(
+        mockConnection.id, 'Test Server', 'testuser', '/etc/app.conf', LOCAL, BASE, THEIRS, 'cancel'
+      );
+    });
+
+    it('uploads over it on Overwrite Anyway', async () => {
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Overwrite Anyway');
+
+      await upload();
+
+      expect(mockWriteFile).toHaveBeenCalledWith(mockConnection, '/etc/app.conf', Buffer.from(OURS), expect.any(Object));
+      expect(mockLogConflict.mock.calls[0][7]).toBe('overwrite');
+    });
+
+    it('replaces the editor file with the server version on Take Theirs', async () => {
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Take Theirs');
+
+      await upload();
+
+      expect(mockWriteFile).not.toHaveBeenCalled();
+      expect(fs.writeFileSync).toHaveBeenCalledWith(LOCAL, THEIRS);
+      expect(mapping.originalContent).toBe(THEIRS);
+      expect(mapping.lastRemoteModTime).toBe(2000);
+      expect(service.isFileUploadFailed(LOCAL)).toBe(false);
+    });
+
+    it('opens a 3-way merge into the editor file on Merge', async () => {
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Merge');
+      (vscode.commands.getCommands as jest.Mock).mockResolvedValueOnce(['vscode.diff', '_open.mergeEditor']);
+
+      await upload();
+
+      expect(mockWriteFile).not.toHaveBeenCalled();
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('_open.mergeEditor', expect.objectContaining({
+        input1: expect.objectContaining({ title: 'Theirs' }),
+        input2: expect.objectContaining({ title: 'Yours' }),
+        output: vscode.Uri.file(LOCAL),
+      }));
+      const written = (fs.writeFileSync as jest.Mock).mock.calls.map((c) => c[1]);
+      expect(written).toEqual(expect.arrayContaining([BASE, THEIRS, OURS]));
+      // The merged result is checked against the server version on the next save
+      expect(mapping.originalContent).toBe(THEIRS);
+      expect(mockLogConflict.mock.calls[0][7]).toBe('merge');
+    });
+
+    it('falls back to a diff against the server version without the merge editor', async () => {
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Merge');
+      (vscode.commands.getCommands as jest.Mock).mockResolvedValueOnce(['vscode.diff']);
+
+      await upload();
+
+      expect(vscode.commands.executeCommand).not.toHaveBeenCalledWith('_open.mergeEditor', expect.anything());
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        'vscode.diff', expect.anything(), vscode.Uri.file(LOCAL), 'app.conf (Server ↔ Your Changes)'
+      );
+    });
+  });
+
+  it('skips the check when sshLite.checkRemoteChangesOnSave is off', async () => {
+    setMockConfig('sshLite.checkRemoteChangesOnSave', false);
+    remote(THEIRS, 2000);
+
+    await upload();
+
+    expect(mockConnection.readFile).not.toHaveBeenCalled();
+    expect(mockWriteFile).toHaveBeenCalled();
+  });
+});
@@ -4,8 +4,11 @@
  * Covers the new remote copy/move flows backing the SSH clipboard feature:
  *  - copyRemoteSameHost runs `cp` / `cp -r` with shell-safe quoting
  *  - moveRemoteSameHost delegates to SFTP rename
- *  - copyRemoteCrossHost streams file contents and recurses into folders
+ *  - copyRemoteCrossHost streams file contents, verifies sizes and recurses into folders
+ *  - copyRemoteCrossHost copies server to server when the source can reach the destination,
+ *    asks before probing, forgets failed probes and can be cancelled
  *  - nextCopyName produces distinct names when pasting into the source folder
+ *  - pasted copies and the backed-up source of a cross-host move are undoable
  */
 
 jest.mock('fs', () => ({
@@ -19,6 +22,8 @@ jest.mock('fs', () => ({
   rmdirSync: jest.fn(),
 }));
 
+import { Readable, Writable } from 'stream';
+
 jest.mock('os', () => ({
   tmpdir: jest.fn().mockReturnValue('/tmp'),
   platform: jest.fn().mockReturnValue('linux'),
@@ -32,6 +37,21 @@ var mockReadFile = jest.fn().mockResolvedValue(Buffer.from('contents'));
 var mockWriteFile = jest.fn().mockResolvedValue(undefined);
 var mockListFiles = jest.fn().mockResolvedValue([]);
 var mockDeleteFile = jest.fn().mockResolvedValue(undefined);
+// Streamed cross-host copy: sources hold 'hello', destinations record what was piped in
+var mockWritten: Record<string, Buffer> = {};
+var mockOpenReadStream = jest.fn(async () => Readable.from([Buffer.from('hel'), Buffer.from('lo')]));
+var mockOpenWriteStream = jest.fn(async (p: string) => {
+  const chunks: Buffer[] = [];
+  return new Writable({
+    write(chunk: Buffer, _enc, done) {
+      chunks.push(chunk);
+      mockWritten[p] = Buffer.concat(chunks);
+      done();
+    },
+  });
+});
+var statFromWritten = async (p: string) => ({ size: p.startsWith('/dest') ? (mockWritten[p]?.length ?? 0) : 5 });
+var mockStat = jest.fn(statFromWritten);
 
 function makeMockConnection(id: string, hostName: string) {
   return {
@@ -48,6 +68,9 @@ function makeMockConnection(id: string, hostName: string) {
     writeFile: mockWriteFile,
     listFiles: mockListFiles,
     deleteFile: mockDeleteFile,
+    openReadStream: mockOpenReadStream,
+    openWriteStream: mockOpenWriteStream,
+    stat: mockStat,
     searchFiles: jest.fn().mockResolvedValue([]),
     watchFile: jest.fn().mockResolvedValue(false),
     onFileChange: jest.fn().mockReturnValue({ dispose: jest.fn() }),
@@ -81,15 +104,23 @@ jest.mock('./PriorityQueueService', () => ({
   PriorityQueueService: { getInstance: jest.fn().mockReturnValue({ enqueue: jest.fn(), getStatus: jest.fn().mockReturnValue({ active: 0, queued: 0, completed: 0, total: 0, byPriority: {} }), cancelAll: jest.fn(), isProcessing: jest.fn().mockReturnValue(false), cancelConnection: jest.fn(), resetConnection: jest.fn(), isConnectionCancelled: jest.fn().mockReturnValue(false), getConnectionStatus: jest.fn().mockReturnValue({ active: 0, queued: 0, completed: 0, total: 0 }) }) },
   PreloadPriority: { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 },
 }));
+var mockStartActivity = jest.fn().mockReturnValue('act-1');
+var mockCompleteActivity = jest.fn();
+var mockCancelActivity = jest.fn();
 jest.mock('./ActivityService', () => ({
-  ActivityService: { getInstance: jest.fn().mockReturnValue({ startActivity: jest.fn().mockReturnValue('act-1'), completeActivity: jest.fn(), failActivity: jest.fn() }) },
+  ActivityService: { getInstance: jest.fn().mockImplementation(() => ({ startActivity: mockStartActivity, completeActivity: mockCompleteActivity, failActivity: jest.fn(), cancelActivity: mockCancelActivity, updateProgress: jest.fn(), updateDetail: jest.fn() })) },
 }));
+var mockGuardExec = jest.fn().mockResolvedValue('');
+var mockGuardExecDetailed = jest.fn();
 jest.mock('./CommandGuard', () => ({
-  CommandGuard: { getInstance: jest.fn().mockReturnValue({ exec: jest.fn().mockResolvedValue(''), upload: jest.fn().mockResolvedValue(undefined), download: jest.fn().mockResolvedValue(Buffer.from('')) }) },
+  CommandGuard: { getInstance: jest.fn().mockImplementation(() => ({ exec: mockGuardExec, execDetailed: mockGuardExecDetailed, upload: jest.fn().mockResolvedValue(undefined), download: jest.fn().mockResolvedValue(Buffer.from('')) })) },
 }));
 
+import * as vscode from 'vscode';
 import { FileService } from './FileService';
+import { RemoteUndoService } from './RemoteUndoService';
 import { createMockRemoteFile } from '../__mocks__/testHelpers';
+import { setMockConfig, clearMockConfig } from '../__mocks__/vscode';
 
 function resetFileService(): FileService {
   try { FileService.getInstance().dispose(); } catch { /* ignore */ }
@@ -102,6 +133,12 @@ describe('FileService - remote copy/paste', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    clearMockConfig();
+    (vscode.window.showInformationMessage as jest.Mock).mockResolvedValue(undefined);
+    mockWritten = {};
+    mockGuardExec.mockResolvedValue('');
+    mockGuardExecDetailed.mockResolvedValue({ stdout: 'SSHLITE_RC=0\n', stderr: '', exitCode: 0, durationMs: 1 });
+    mockStat.mockImplementation(statFromWritten);
     service = resetFileService();
   });
 
@@ -189,9 +226,7 @@ describe('FileService - remote copy/paste', () => {
   });
 
   describe('copyRemoteCrossHost - file', () => {
-    it('reads from source and writes to destination', async () => {
-      mockReadFile.mockResolvedValueOnce(Buffer.from('hello'));
-
+    it('pipes the source stream into the destination stream and verifies the size', async () => {
       await service.copyRemoteCrossHost(
         mockSrcConnection as any,
         '/src/file.txt',
@@ -200,8 +235,36 @@ describe('FileService - remote copy/paste', () => {
         false
       );
 
-      expect(mockReadFile).toHaveBeenCalledWith('/src/file.txt');
-      expect(mockWriteFile).toHaveBeenCalledWith('/dest/file.txt', Buffer.from('hello'));
+      expect(mockOpenReadStream).toHaveBeenCalledWith('/src/file.txt');
+      expect(mockOpenWriteStream).toHaveBeenCalledWith('/dest/file.txt');
+      expect(mockWritten['/dest/file.txt'].toString()).toBe('hello');
+      expect(mockStat).toHaveBeenCalledWith('/dest/file.txt');
+      expect(mockReadFile).not.toHaveBeenCalled();
+      expect(mockStartActivity).toHaveBeenCalledWith('copy', 'src-1', 'src-host', 'Copy file.txt → dest-host', expect.objectContaining({ cancellable: true }));
+      expect(mockCompleteActivity).toHaveBeenCalledWith('act-1', '5 B');
+    });
+
+    it('removes the copy and fails when the destination ends up short', async () => {
+      mockStat.mockImplementation(async (p: string) => ({ size: p.startsWith('/dest') ? 3 : 5 }));
+
+      await expect(
+        service.copyRemoteCrossHost(mockSrcConnection as any, '/src/file.txt', mockDestConnection as any, '/dest/file.txt', false)
+      ).rejects.toThrow('incomplete');
+      expect(mockDeleteFile).toHaveBeenCalledWith('/dest/file.txt');
+    });
+
+    it('stops the stream and removes the partial file when cancelled from the Activity panel', async () => {
+      mockOpenReadStream.mockImplementationOnce(async () => {
+        // Cancel as soon as the copy is under way; the source never ends on its own
+        mockStartActivity.mock.calls[0][4].onCancel();
+        return new Readable({ read() { /* never ends */ } });
+      });
+
+      await expect(
+        service.copyRemoteCrossHost(mockSrcConnection as any, '/src/file.txt', mockDestConnection as any, '/dest/file.txt', false)
+      ).rejects.toThrow('Cancelled');
+      expect(mockDeleteFile).toHaveBeenCalledWith('/dest/file.txt');
+      expect(mockCancelActivity).toHaveBeenCalledWith('act-1');
     });
 
     it('logs copy audit with dest host name', async () => {
@@ -247,8 +310,9 @@ describe('FileService - remote copy/paste', () => {
 
       expect(mockMkdir).toHaveBeenCalledWith('/dest/dir');
       expect(mockMkdir).toHaveBeenCalledWith('/dest/dir/sub');
-      expect(mockWriteFile).toHaveBeenCalledWith('/dest/dir/a.txt', expect.any(Buffer));
-      expect(mockWriteFile).toHaveBeenCalledWith('/dest/dir/sub/b.txt', expect.any(Buffer));
+      expect(mockWritten['/dest/dir/a.txt'].toString()).toBe('hello');
+      expect(mockWritten['/dest/dir/sub/b.txt'].toString()).toBe('hello');
+      expect(mockCompleteActivity).toHaveBeenCalledWith('act-1', '2 files, 10 B');
     });
 
     it('swallows existing-directory error when recreating dest root', async () => {
@@ -311,6 +375,94 @@ describe('FileService - remote copy/paste', () => {
     });
   });
 
+  describe('copyRemoteCrossHost - server to server', () => {
+    const copied = (stdout: string) => ({ stdout, stderr: '', exitCode: 0, durationMs: 1 });
+
+    it('runs rsync on the source when the setting allows and the probe succeeds', async () => {
+      setMockConfig('sshLite.crossHostCopyMode', 'direct');
+      mockGuardExec.mockResolvedValueOnce('SSHLITE_DIRECT=rsync\n');
+      mockStat.mockResolvedValue({ size: 5 });
+
+      await service.copyRemoteCrossHost(mockSrcConnection as any, '/src/file.txt', mockDestConnection as any, '/dest/file.txt', false);
+
+      expect(mockGuardExec).toHaveBeenCalledTimes(1);
+      expect(mockGuardExecDetailed.mock.calls[0][1]).toContain("rsync -a -s --partial");
+      expect(mockOpenReadStream).not.toHaveBeenCalled();
+      expect(mockStat).toHaveBeenCalledWith('/dest/file.txt');
+    });
+
+    it('reports the tool output when the direct copy fails', async () => {
+      setMockConfig('sshLite.crossHostCopyMode', 'direct');
+      mockGuardExec.mockResolvedValueOnce('SSHLITE_DIRECT=pipe\n');
+      mockGuardExecDetailed.mockResolvedValueOnce(copied('bash: /dest/dir: Permission denied\nSSHLITE_RC=1\n'));
+
+      await expect(
+        service.copyRemoteCrossHost(mockSrcConnection as any, '/src/dir', mockDestConnection as any, '/dest/dir', true)
+      ).rejects.toThrow('Server-to-server copy failed (exit code 1): bash: /dest/dir: Permission denied');
+    });
+
+    it('stops the copy and removes what arrived when cancelled', async () => {
+      setMockConfig('sshLite.crossHostCopyMode', 'direct');
+      mockGuardExec.mockResolvedValueOnce('SSHLITE_DIRECT=pipe\n');
+      mockGuardExecDetailed.mockResolvedValueOnce({ ...copied(''), exitCode: null, signal: 'TERM', cancelled: true });
+      const token = { isCancellationRequested: false, onCancellationRequested: jest.fn() };
+
+      await expect(
+        service.copyRemoteCrossHost(mockSrcConnection as any, '/src/dir', mockDestConnection as any, '/dest/dir', true, token as any)
+      ).rejects.toThrow('Cancelled');
+
+      expect(mockGuardExecDetailed.mock.calls[0][2]).toEqual(expect.objectContaining({ token }));
+      expect(mockExec).toHaveBeenCalledWith("rm -rf -- '/dest/dir'");
+    });
+
+    it('asks before probing, once per host pair, and streams when the user declines', async () => {
+      (vscode.window.showInformationMessage as jest.Mock).mockResolvedValue('Through This Machine');
+
+      await service.copyRemoteCrossHost(mockSrcConnection as any, '/src/a', mockDestConnection as any, '/dest/a', false);
+      await service.copyRemoteCrossHost(mockSrcConnection as any, '/src/b', mockDestConnection as any, '/dest/b', false);
+
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledTimes(1);
+      expect(mockGuardExec).not.toHaveBeenCalled();
+      expect(mockWritten['/dest/b'].toString()).toBe('hello');
+    });
+
+    it('probes once the user picks direct copy', async () => {
+      (vscode.window.showInformationMessage as jest.Mock).mockResolvedValue('Copy Directly');
+      mockGuardExec.mockResolvedValueOnce('SSHLITE_DIRECT=rsync\n');
+      mockStat.mockResolvedValue({ size: 5 });
+
+      await service.copyRemoteCrossHost(mockSrcConnection as any, '/src/a', mockDestConnection as any, '/dest/a', false);
+
+      expect(mockGuardExec).toHaveBeenCalledTimes(1);
+      expect(mockGuardExecDetailed).toHaveBeenCalledTimes(1);
+      expect(mockOpenWriteStream).not.toHaveBeenCalled();
+    });
+
+    it('probes again after a failed probe', async () => {
+      setMockConfig('sshLite.crossHostCopyMode', 'direct');
+      mockGuardExec
+        .mockResolvedValueOnce('SSHLITE_DIRECT=no\n')
+        .mockResolvedValueOnce('SSHLITE_DIRECT=rsync\n');
+
+      await service.copyRemoteCrossHost(mockSrcConnection as any, '/src/a', mockDestConnection as any, '/dest/a', false);
+      mockStat.mockResolvedValue({ size: 5 });
+      await service.copyRemoteCrossHost(mockSrcConnection as any, '/src/b', mockDestConnection as any, '/dest/b', false);
+
+      expect(mockGuardExec).toHaveBeenCalledTimes(2);
+      expect(mockWritten['/dest/a'].toString()).toBe('hello');
+      expect(mockGuardExecDetailed).toHaveBeenCalledTimes(1);
+    });
+
+    it('never probes in relay mode', async () => {
+      setMockConfig('sshLite.crossHostCopyMode', 'relay');
+
+      await service.copyRemoteCrossHost(mockSrcConnection as any, '/src/a', mockDestConnection as any, '/dest/a', false);
+
+      expect(mockGuardExec).not.toHaveBeenCalled();
+      expect(mockOpenWriteStream).toHaveBeenCalledWith('/dest/a');
+    });
+  });
+
   describe('nextCopyName', () => {
     it('returns the original name when no conflict', () => {
       expect(service.nextCopyName('foo.txt', new Set())).toBe('foo.txt');
@@ -393,6 +545,40 @@ describe('FileService - remote copy/paste', () => {
     });
   });
 
+  describe('undo history', () => {
+    const steps = (connectionId: string) => RemoteUndoService.getInstance().getHistory(connectionId).undo.flatMap((e) => e.steps);
+
+    beforeEach(() => {
+      RemoteUndoService.getInstance().clear('src-1');
+      RemoteUndoService.getInstance().clear('dest-1');
+    });
+
+    it('records pasted copies on the host they were pasted to', async () => {
+      await service.copyRemoteSameHost(mockSrcConnection as any, '/src/a.txt', '/src/a (copy).txt', false);
+      await service.copyRemoteCrossHost(mockSrcConnection as any, '/src/file.txt', mockDestConnection as any, '/dest/file.txt', false);
+
+      expect(steps('src-1')).toEqual([
+        { kind: 'copy', path: '/src/a (copy).txt', isDirectory: false, backupFolder: '/tmp/.ssh-lite-backups' },
+      ]);
+      expect(steps('dest-1')).toEqual([
+        { kind: 'copy', path: '/dest/file.txt', isDirectory: false, backupFolder: '/tmp/.ssh-lite-backups' },
+      ]);
+    });
+
+    it('backs up the source of a cross-host move before deleting it', async () => {
+      mockExec.mockImplementation(async (cmd: string) => (cmd.startsWith('test -f') ? 'ok' : ''));
+
+      await service.deleteRemotePath(mockSrcConnection as any, '/src/site', true, { backup: true });
+
+      expect(mockExec.mock.calls.map((c) => c[0] as string).findIndex((c) => c.includes('tar -czf')))
+        .toBeLessThan(mockExec.mock.calls.findIndex((c) => (c[0] as string).startsWith('rm -rf')));
+      expect(steps('src-1')).toEqual([
+        { kind: 'delete', path: '/src/site', isDirectory: true, backupPath: expect.stringMatching(/^\/tmp\/\.ssh-lite-backups\/site_.*\.tar\.gz$/) },
+      ]);
+      mockExec.mockResolvedValue('');
+    });
+  });
+
   describe('copyRemoteSameHost over FTP (issue #14)', () => {
     const makeFtpConn = () => ({
       ...mockSrcConnection,
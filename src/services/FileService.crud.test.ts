@@ -88,6 +88,7 @@ jest.mock('./CommandGuard', () => ({
 
 import * as vscode from 'vscode';
 import { FileService } from './FileService';
+import { RemoteUndoService } from './RemoteUndoService';
 import { createMockRemoteFile } from '../__mocks__/testHelpers';
 import { IRemoteFile } from '../types';
 import { setTabPrefixMode } from '../utils/connectionPrefix';
@@ -761,4 +762,47 @@ describe('FileService - CRUD Operations (Actual)', () => {
       expect(lastShowOptions()).toMatchObject({ preview: false, preserveFocus: false });
     });
   });
+
+  describe('undo history', () => {
+    let undo: RemoteUndoService;
+
+    beforeEach(() => {
+      (RemoteUndoService as any)._instance = undefined;
+      undo = RemoteUndoService.getInstance();
+      service = resetFileService();
+    });
+
+    it('records a rename as a move', async () => {
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValue('renamed.ts');
+
+      await service.renameRemote(mockConnection as any, createMockRemoteFile('test.ts', { path: '/home/user/test.ts' }));
+
+      expect(undo.getHistory(mockConnection.id).undo[0].steps).toEqual([
+        { kind: 'move', from: '/home/user/test.ts', to: '/home/user/renamed.ts', isDirectory: false },
+      ]);
+    });
+
+    it('records a delete with its server backup, and nothing for a permanent delete', async () => {
+      mockExec.mockImplementation(async (cmd: string) => (cmd.startsWith('test -f') ? 'ok' : ''));
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Delete Permanently');
+      await service.deleteRemote(mockConnection as any, createMockRemoteFile('gone.ts', { path: '/home/user/gone.ts' }));
+      expect(undo.canUndo(mockConnection.id)).toBe(false);
+
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Delete with Backup');
+      await service.deleteRemote(mockConnection as any, createMockRemoteFile('test.ts', { path: '/home/user/test.ts' }));
+
+      const [step] = undo.getHistory(mockConnection.id).undo[0].steps;
+      expect(step).toEqual(expect.objectContaining({ kind: 'delete', path: '/home/user/test.ts', isDirectory: false }));
+      expect((step as { backupPath: string }).backupPath).toMatch(/^\/tmp\/\.ssh-lite-backups\/test_.*\.ts$/);
+      mockExec.mockReset().mockResolvedValue('');
+    });
+
+    it('records a new folder as a create', async () => {
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValue('new-dir');
+
+      await service.createFolder(mockConnection as any, '/home/user');
+
+      expect(undo.getHistory(mockConnection.id).undo[0].label).toBe('Create folder new-dir');
+    });
+  });
 });
@@ -6,6 +6,11 @@
  * showSaveDialog returned `vscode-remote://` URIs whose .fsPath resolved
  * to /tmp/<vscode-tmp-id>/... — not the user-chosen path. See .adn/lessons.md
  * "2026-05-22 — fs.writeFileSync(uri.fsPath, …) is unsafe …".
+ *
+ * Over SSH the transfer queue appends each chunk to a `.sshlite-part` file
+ * next to the chosen file and renames it into place. A `file:` part file is
+ * appended to through fs.promises (the only scheme whose fsPath is real);
+ * every other scheme is written through workspace.fs.
  */
 
 jest.mock('fs', () => ({
@@ -17,6 +22,7 @@ jest.mock('fs', () => ({
   unlinkSync: jest.fn(),
   statSync: jest.fn().mockReturnValue({ mtimeMs: Date.now(), isDirectory: () => false }),
   rmdirSync: jest.fn(),
+  promises: { open: jest.fn(async () => mockPartHandle) },
 }));
 
 jest.mock('os', () => ({
@@ -25,12 +31,16 @@ jest.mock('os', () => ({
   platform: jest.fn().mockReturnValue('linux'),
 }));
 
+var mockPartHandle = { writeFile: jest.fn(), close: jest.fn() };
+
 var mockConnection = {
   id: 'test-host:22:testuser',
   host: { name: 'Test Server', host: 'test-host', port: 22, username: 'testuser' },
   state: 'connected',
+  capabilities: { type: 'ssh', supportsExec: true },
   writeFile: jest.fn().mockResolvedValue(undefined),
   readFile: jest.fn().mockResolvedValue(Buffer.from('downloaded-bytes')),
+  readFileChunked: jest.fn(),
   listFiles: jest.fn().mockResolvedValue([]),
   exec: jest.fn().mockResolvedValue(''),
   deleteFile: jest.fn().mockResolvedValue(undefined),
@@ -41,7 +51,7 @@ var mockConnection = {
 jest.mock('../connection/ConnectionManager', () => ({
   ConnectionManager: {
     getInstance: jest.fn().mockReturnValue({
-      getConnection: jest.fn().mockReturnValue(mockConnection),
+      getConnection: jest.fn(() => mockConnection),
       getAllConnections: jest.fn().mockReturnValue([mockConnection]),
       onDidChangeConnections: jest.fn().mockReturnValue({ dispose: jest.fn() }),
     }),
@@ -134,7 +144,10 @@ describe('FileService download — URI-scheme-safe writes (v0.8.17 regression ne
 
   beforeEach(() => {
     jest.clearAllMocks();
-    mockConnection.readFile.mockResolvedValue(Buffer.from('downloaded-bytes'));
+    mockConnection.readFileChunked.mockImplementation(async (_p: string, _progress: unknown, _abort: unknown, _size: number, opts: { onChunk: (c: Buffer) => Promise<void> }) => {
+      await opts.onChunk(Buffer.from('downloaded-bytes'));
+      return Buffer.alloc(0);
+    });
     mockConnection.listFiles.mockResolvedValue([]);
     service = resetFileService();
     (vscode.workspace.fs.writeFile as jest.Mock).mockResolvedValue(undefined);
@@ -158,18 +171,22 @@ describe('FileService download — URI-scheme-safe writes (v0.8.17 regression ne
     connectionId: mockConnection.id,
   };
 
+  /** The part file's URI and the URI it was renamed to */
+  const renamed = () => (vscode.workspace.fs.rename as jest.Mock).mock.calls.map(([from, to]) => [from.toString(), to.toString()]);
+
   describe('downloadFileTo', () => {
-    it('routes the write through vscode.workspace.fs.writeFile when scheme=file:', async () => {
+    it('appends chunks to a part file on disk and renames it into place when scheme=file:', async () => {
       const saveUri = vscode.Uri.file('/home/test/foo.bin');
       (vscode.window.showSaveDialog as jest.Mock).mockResolvedValueOnce(saveUri);
 
       await service.downloadFileTo(mockConnection as any, remoteFile);
 
-      expect(vscode.workspace.fs.writeFile).toHaveBeenCalledTimes(1);
-      const [calledUri, calledBuf] = (vscode.workspace.fs.writeFile as jest.Mock).mock.calls[0];
-      expect(calledUri).toBe(saveUri);
-      expect(Buffer.from(calledBuf).toString()).toBe('downloaded-bytes');
-      // Critical: the direct-fs write must never fire on the dialog return value.
+      expect(fs.promises.open).toHaveBeenCalledWith('/home/test/foo.bin.sshlite-part', 'w');
+      expect(Buffer.from(mockPartHandle.writeFile.mock.calls[0][0]).toString()).toBe('downloaded-bytes');
+      expect(mockPartHandle.close).toHaveBeenCalled();
+      expect(renamed()).toEqual([['file:/home/test/foo.bin.sshlite-part', 'file:/home/test/foo.bin']]);
+      // Nothing is written whole: no workspace.fs.writeFile, and never a direct-fs write.
+      expect(vscode.workspace.fs.writeFile).not.toHaveBeenCalled();
       expect((fs.writeFileSync as jest.Mock)).not.toHaveBeenCalledWith(saveUri.fsPath, expect.anything());
     });
 
@@ -180,9 +197,12 @@ describe('FileService download — URI-scheme-safe writes (v0.8.17 regression ne
       await service.downloadFileTo(mockConnection as any, remoteFile);
 
       expect(vscode.workspace.fs.writeFile).toHaveBeenCalledTimes(1);
-      const [calledUri] = (vscode.workspace.fs.writeFile as jest.Mock).mock.calls[0];
+      const [calledUri, calledBuf] = (vscode.workspace.fs.writeFile as jest.Mock).mock.calls[0];
       expect(calledUri.scheme).toBe('vscode-remote');
-      expect(calledUri.path).toBe('/home/userA/foo.bin');
+      expect(calledUri.path).toBe('/home/userA/foo.bin.sshlite-part');
+      expect(Buffer.from(calledBuf).toString()).toBe('downloaded-bytes');
+      expect(renamed()[0][1]).toBe(saveUri.toString());
+      expect(fs.promises.open).not.toHaveBeenCalled();
       expect((fs.writeFileSync as jest.Mock)).not.toHaveBeenCalledWith(saveUri.fsPath, expect.anything());
     });
 
@@ -195,6 +215,8 @@ describe('FileService download — URI-scheme-safe writes (v0.8.17 regression ne
       expect(vscode.workspace.fs.writeFile).toHaveBeenCalledTimes(1);
       const [calledUri] = (vscode.workspace.fs.writeFile as jest.Mock).mock.calls[0];
       expect(calledUri.scheme).toBe('mem');
+      expect(renamed()[0][1]).toBe(saveUri.toString());
+      expect(fs.promises.open).not.toHaveBeenCalled();
       expect((fs.writeFileSync as jest.Mock)).not.toHaveBeenCalledWith(saveUri.fsPath, expect.anything());
     });
 
@@ -204,12 +226,13 @@ describe('FileService download — URI-scheme-safe writes (v0.8.17 regression ne
       await service.downloadFileTo(mockConnection as any, remoteFile);
 
       expect(vscode.workspace.fs.writeFile).not.toHaveBeenCalled();
+      expect(fs.promises.open).not.toHaveBeenCalled();
       expect(fs.writeFileSync as jest.Mock).not.toHaveBeenCalled();
     });
   });
 
   describe('downloadFolder (recursive)', () => {
-    it('creates directories and writes file bytes via vscode.workspace.fs, not raw fs', async () => {
+    it('creates directories via vscode.workspace.fs and moves each file into place, never writing raw fs', async () => {
       const folderUri = vscode.Uri.file('/home/test/dest');
       (vscode.window.showOpenDialog as jest.Mock).mockResolvedValueOnce([folderUri]);
 
@@ -246,7 +269,7 @@ describe('FileService download — URI-scheme-safe writes (v0.8.17 regression ne
         expect.stringContaining('/dest/dir/sub'),
       ]));
 
-      const fileArgs = (vscode.workspace.fs.writeFile as jest.Mock).mock.calls.map((c) => c[0].path);
+      const fileArgs = (vscode.workspace.fs.rename as jest.Mock).mock.calls.map((c) => c[1].path);
       expect(fileArgs).toEqual(expect.arrayContaining([
         expect.stringContaining('/dest/dir/a.txt'),
         expect.stringContaining('/dest/dir/sub/b.txt'),
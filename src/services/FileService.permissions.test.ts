@@ -0,0 +1,195 @@
+/**
+ * FileService permissions/ownership changes from the Properties panel
+ *
+ * A single path is changed over SFTP (chown before chmod); recursive changes
+ * and sudo mode go through one shell command. Permission denied offers the
+ * sudo retry, and every outcome lands in the audit log as 'permissions'.
+ */
+
+jest.mock('fs', () => ({
+  existsSync: jest.fn().mockReturnValue(true),
+  mkdirSync: jest.fn(),
+  writeFileSync: jest.fn(),
+  readFileSync: jest.fn().mockReturnValue('{}'),
+  readdirSync: jest.fn().mockReturnValue([]),
+  unlinkSync: jest.fn(),
+  statSync: jest.fn().mockReturnValue({ mtimeMs: Date.now(), isDirectory: () => false }),
+  rmdirSync: jest.fn(),
+}));
+
+jest.mock('os', () => ({
+  tmpdir: jest.fn().mockReturnValue('/tmp'),
+  platform: jest.fn().mockReturnValue('linux'),
+  homedir: jest.fn().mockReturnValue('/home/test'),
+}));
+
+var mockAuditLog = jest.fn();
+var mockGuardExec = jest.fn();
+
+jest.mock('../connection/ConnectionManager', () => ({
+  ConnectionManager: {
+    getInstance: jest.fn().mockReturnValue({
+      getConnection: jest.fn(),
+      getAllConnections: jest.fn(() => []),
+      onDidChangeConnections: jest.fn().mockReturnValue({ dispose: jest.fn() }),
+    }),
+  },
+}));
+jest.mock('./AuditService', () => ({
+  AuditService: { getInstance: jest.fn().mockReturnValue({ log: (...a: unknown[]) => mockAuditLog(...a) }) },
+}));
+jest.mock('./FolderHistoryService', () => ({
+  FolderHistoryService: { getInstance: jest.fn().mockReturnValue({ recordVisit: jest.fn(), getFrequentPaths: jest.fn().mockReturnValue([]) }) },
+}));
+jest.mock('./ProgressiveDownloadManager', () => ({
+  ProgressiveDownloadManager: { getInstance: jest.fn().mockReturnValue({ shouldUseProgressiveDownload: jest.fn().mockReturnValue(false), isDownloading: jest.fn().mockReturnValue(false) }) },
+}));
+jest.mock('./PriorityQueueService', () => ({
+  PriorityQueueService: { getInstance: jest.fn().mockReturnValue({ enqueue: jest.fn(), cancelAll: jest.fn(), isProcessing: jest.fn().mockReturnValue(false) }) },
+  PreloadPriority: { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 },
+}));
+jest.mock('./ActivityService', () => ({
+  ActivityService: { getInstance: jest.fn().mockReturnValue({ startActivity: jest.fn().mockReturnValue('act-1'), completeActivity: jest.fn(), failActivity: jest.fn() }) },
+}));
+jest.mock('./CommandGuard', () => ({
+  CommandGuard: { getInstance: jest.fn().mockReturnValue({ exec: (...a: unknown[]) => mockGuardExec(...a) }) },
+}));
+
+import * as vscode from 'vscode';
+import { IRemoteProperties } from '../types';
+import { FileService } from './FileService';
+
+const ROOT = { name: 'root', id: 0 };
+const WWW = { name: 'www-data', id: 33 };
+
+function resetFileService(): FileService {
+  try { FileService.getInstance().dispose(); } catch { /* ignore */ }
+  (FileService as any)._instance = undefined;
+  return FileService.getInstance();
+}
+
+function makeConnection() {
+  return {
+    id: 'test-host:22:testuser',
+    host: { id: 'test-host:22:testuser', name: 'Test Server', host: 'test-host', port: 22, username: 'testuser' },
+    state: 'connected',
+    capabilities: { supportsExec: true, supportsSudo: true },
+    sudoMode: false,
+    sudoPassword: undefined as string | undefined,
+    exec: jest.fn(),
+    chmod: jest.fn().mockResolvedValue(undefined),
+    chown: jest.fn().mockResolvedValue(undefined),
+    sudoExec: jest.fn().mockResolvedValue(''),
+    enableSudoMode: jest.fn(),
+    disableSudoMode: jest.fn(),
+  };
+}
+
+const FILE: IRemoteProperties = {
+  path: '/var/www/index.php',
+  isDirectory: false,
+  type: 'regular file',
+  size: 12,
+  mode: 0o644,
+  symbolic: '-rw-r--r--',
+  owner: ROOT,
+  group: ROOT,
+  modified: '',
+  accessed: '',
+  quotedName: "'/var/www/index.php'",
+};
+
+describe('FileService - permissions and ownership', () => {
+  let service: FileService;
+  let conn: ReturnType<typeof makeConnection>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = resetFileService();
+    conn = makeConnection();
+    mockGuardExec.mockResolvedValue('');
+  });
+
+  afterEach(() => {
+    try { service.dispose(); } catch { /* ignore */ }
+  });
+
+  it('reads structured properties from stat', async () => {
+    conn.exec.mockResolvedValueOnce("directory|4096|drwxrwsr-x|2775|root|0|www-data|33|m|a|'/srv'\n");
+
+    const props = await service.statRemoteProperties(conn as any, { path: '/srv', isDirectory: true } as any);
+
+    expect(props).toMatchObject({ mode: 0o2775, symbolic: 'drwxrwsr-x', owner: ROOT, group: WWW, size: 4096 });
+  });
+
+  it('lists users and groups from getent', async () => {
+    conn.exec.mockResolvedValueOnce('root:x:0:0::/root:/bin/bash\n--SSHLITE-GROUPS--\nroot:x:0:\nwww-data:x:33:\n');
+
+    const accounts = await service.listRemoteAccounts(conn as any);
+
+    expect(accounts).toEqual({ users: [ROOT], groups: [ROOT, WWW] });
+  });
+
+  it('changes a single file over SFTP, chown before chmod, and audits it', async () => {
+    const ok = await service.applyPermissionChange(conn as any, FILE, { mode: 0o640, group: WWW });
+
+    expect(ok).toBe(true);
+    expect(conn.chown).toHaveBeenCalledWith('/var/www/index.php', 0, 33);
+    expect(conn.chmod).toHaveBeenCalledWith('/var/www/index.php', 0o640);
+    expect(conn.chown.mock.invocationCallOrder[0]).toBeLessThan(conn.chmod.mock.invocationCallOrder[0]);
+    expect(mockGuardExec).not.toHaveBeenCalled();
+    expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'permissions',
+      remotePath: '/var/www/index.php',
+      detail: 'mode 0644 → 0640; group root → www-data',
+      success: true,
+    }));
+  });
+
+  it('runs recursive changes as one shell command', async () => {
+    const dir = { ...FILE, path: '/var/www', isDirectory: true, mode: 0o755 };
+
+    await service.applyPermissionChange(conn as any, dir, { mode: 0o755, fileMode: 0o644, owner: WWW, recursive: true });
+
+    expect(mockGuardExec).toHaveBeenCalledWith(
+      conn,
+      "chown -R -- 'www-data' '/var/www' && find '/var/www' -type d -exec chmod 0755 {} + && find '/var/www' -type f -exec chmod 0644 {} +",
+      expect.any(Object)
+    );
+    expect(conn.chmod).not.toHaveBeenCalled();
+  });
+
+  it('offers sudo on permission denied and retries the shell command', async () => {
+    conn.chown.mockRejectedValueOnce(new Error('Failed to chown: Permission denied'));
+    (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Sudo Once');
+    jest.spyOn(service as any, 'getSudoPassword').mockResolvedValue('secret');
+
+    const ok = await service.applyPermissionChange(conn as any, FILE, { owner: WWW });
+
+    expect(ok).toBe(true);
+    expect(conn.sudoExec).toHaveBeenCalledWith("chown -- 'www-data' '/var/www/index.php'", 'secret');
+    expect(mockAuditLog).toHaveBeenLastCalledWith(expect.objectContaining({ action: 'permissions', success: true }));
+  });
+
+  it('audits the failure when sudo is declined', async () => {
+    conn.chmod.mockRejectedValueOnce(new Error('Failed to chmod: Operation not permitted'));
+    (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Cancel');
+
+    const ok = await service.applyPermissionChange(conn as any, FILE, { mode: 0o600 });
+
+    expect(ok).toBe(false);
+    expect(conn.sudoExec).not.toHaveBeenCalled();
+    expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'permissions',
+      success: false,
+      error: 'Failed to chmod: Operation not permitted',
+    }));
+  });
+
+  it('rejects account names that are not safe to pass to a shell', async () => {
+    await expect(
+      service.applyPermissionChange(conn as any, FILE, { owner: { name: "x'; reboot; '", id: 1 } })
+    ).rejects.toThrow(/Invalid user or group name/);
+    expect(conn.chown).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * FileService symlink operations
+ *
+ * Deleting a link removes only the link (no backup, no recursion into the
+ * target). Create/edit go over SFTP; editing re-creates the link and puts the
+ * old target back if that fails. Both are audited with the link's detail.
+ * Folder download and copy never follow a linked folder.
+ */
+
+jest.mock('fs', () => ({
+  existsSync: jest.fn().mockReturnValue(true),
+  mkdirSync: jest.fn(),
+  writeFileSync: jest.fn(),
+  readFileSync: jest.fn().mockReturnValue('{}'),
+  readdirSync: jest.fn().mockReturnValue([]),
+  unlinkSync: jest.fn(),
+  statSync: jest.fn().mockReturnValue({ mtimeMs: Date.now(), isDirectory: () => false }),
+  rmdirSync: jest.fn(),
+}));
+
+jest.mock('os', () => ({
+  tmpdir: jest.fn().mockReturnValue('/tmp'),
+  platform: jest.fn().mockReturnValue('linux'),
+  homedir: jest.fn().mockReturnValue('/home/test'),
+}));
+
+var mockAuditLog = jest.fn();
+var mockGuardExec = jest.fn();
+
+jest.mock('../connection/ConnectionManager', () => ({
+  ConnectionManager: {
+    getInstance: jest.fn().mockReturnValue({
+      getConnection: jest.fn(),
+      getAllConnections: jest.fn(() => []),
+      onDidChangeConnections: jest.fn().mockReturnValue({ dispose: jest.fn() }),
+    }),
+  },
+}));
+jest.mock('./AuditService', () => ({
+  AuditService: { getInstance: jest.fn().mockReturnValue({ log: (...a: unknown[]) => mockAuditLog(...a) }) },
+}));
+jest.mock('./FolderHistoryService', () => ({
+  FolderHistoryService: { getInstance: jest.fn().mockReturnValue({ recordVisit: jest.fn(), getFrequentPaths: jest.fn().mockReturnValue([]) }) },
+}));
+jest.mock('./ProgressiveDownloadManager', () => ({
+  ProgressiveDownloadManager: { getInstance: jest.fn().mockReturnValue({ shouldUseProgressiveDownload: jest.fn().mockReturnValue(false), isDownloading: jest.fn().mockReturnValue(false) }) },
+}));
+jest.mock('./PriorityQueueService', () => ({
+  PriorityQueueService: { getInstance: jest.fn().mockReturnValue({ enqueue: jest.fn(), cancelAll: jest.fn(), isProcessing: jest.fn().mockReturnValue(false) }) },
+  PreloadPriority: { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 },
+}));
+jest.mock('./ActivityService', () => ({
+  ActivityService: { getInstance: jest.fn().mockReturnValue({ startActivity: jest.fn().mockReturnValue('act-1'), completeActivity: jest.fn(), failActivity: jest.fn() }) },
+}));
+jest.mock('./CommandGuard', () => ({
+  CommandGuard: { getInstance: jest.fn().mockReturnValue({ exec: (...a: unknown[]) => mockGuardExec(...a) }) },
+}));
+
+import * as vscode from 'vscode';
+import { IRemoteFile } from '../types';
+import { FileService } from './FileService';
+
+function resetFileService(): FileService {
+  try { FileService.getInstance().dispose(); } catch { /* ignore */ }
+  (FileService as any)._instance = undefined;
+  return FileService.getInstance();
+}
+
+function makeConnection() {
+  return {
+    id: 'test-host:22:testuser',
+    host: { id: 'test-host:22:testuser', name: 'Test Server', host: 'test-host', port: 22, username: 'testuser' },
+    state: 'connected',
+    capabilities: { type: 'ssh', supportsExec: true, supportsSudo: true },
+    sudoMode: false,
+    sudoPassword: undefined as string | undefined,
+    exec: jest.fn(),
+    listFiles: jest.fn().mockResolvedValue([]),
+    deleteFile: jest.fn().mockResolvedValue(undefined),
+    fileExists: jest.fn().mockResolvedValue(false),
+    readlink: jest.fn().mockRejectedValue(new Error('No such file')),
+    symlink: jest.fn().mockResolvedValue(undefined),
+    mkdir: jest.fn().mockResolvedValue(undefined),
+    sudoExec: jest.fn().mockResolvedValue(''),
+  };
+}
+
+const LINK: IRemoteFile = {
+  name: 'current',
+  path: '/srv/current',
+  isDirectory: true,
+  size: 0,
+  modifiedTime: 0,
+  connectionId: 'test-host:22:testuser',
+  isSymlink: true,
+  linkTarget: 'releases/3',
+};
+
+describe('FileService - symlinks', () => {
+  let service: FileService;
+  let conn: ReturnType<typeof makeConnection>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = resetFileService();
+    conn = makeConnection();
+    mockGuardExec.mockResolvedValue('');
+  });
+
+  afterEach(() => {
+    try { service.dispose(); } catch { /* ignore */ }
+  });
+
+  describe('deleteRemote', () => {
+    it('removes only the link of a link to a folder, without backup', async () => {
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Delete Link');
+      const backupSpy = jest.spyOn(service as any, 'createDirectoryBackup');
+
+      const ok = await service.deleteRemote(conn as any, LINK);
+
+      expect(ok).toBe(true);
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        'Delete link "current"?',
+        expect.objectContaining({ modal: true, detail: expect.stringContaining('releases/3 is left alone') }),
+        'Delete Link'
+      );
+      expect(conn.deleteFile).toHaveBeenCalledWith('/srv/current');
+      expect(conn.listFiles).not.toHaveBeenCalled();
+      expect(backupSpy).not.toHaveBeenCalled();
+    });
+
+    it('does not descend through links inside a folder being deleted', async () => {
+      conn.listFiles.mockImplementation(async (p: string) => (p === '/srv' ? [LINK] : []));
+
+      await service.deleteRemote(conn as any, { ...LINK, name: 'srv', path: '/srv', isSymlink: undefined, linkTarget: undefined }, { skipConfirm: true, createBackup: false });
+
+      expect(conn.listFiles).toHaveBeenCalledTimes(1);
+      expect(conn.deleteFile).toHaveBeenCalledWith('/srv/current');
+    });
+  });
+
+  describe('createSymlink', () => {
+    it('asks for target then name and creates the link', async () => {
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('/etc/nginx/').mockResolvedValueOnce('nginx');
+
+      const linkPath = await service.createSymlink(conn as any, '/home/testuser');
+
+      expect(linkPath).toBe('/home/testuser/nginx');
+      expect((vscode.window.showInputBox as jest.Mock).mock.calls[1][0].value).toBe('nginx');
+      expect(conn.symlink).toHaveBeenCalledWith('/etc/nginx/', '/home/testuser/nginx');
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'create',
+        remotePath: '/home/testuser/nginx',
+        detail: 'symlink → /etc/nginx/',
+        success: true,
+      }));
+    });
+
+    it('refuses a name that already exists, even as a broken link', async () => {
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('/gone').mockResolvedValueOnce('gone');
+      conn.readlink.mockResolvedValueOnce('/gone');
+
+      expect(await service.createSymlink(conn as any, '/srv')).toBeUndefined();
+      expect(conn.symlink).not.toHaveBeenCalled();
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith('"gone" already exists in /srv');
+    });
+
+    it('falls back to ln -sfn through sudo on permission denied', async () => {
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('/opt/app').mockResolvedValueOnce('app');
+      conn.symlink.mockRejectedValueOnce(new Error('Failed to create symlink: Permission denied'));
+      (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Sudo Once');
+      jest.spyOn(service as any, 'getSudoPassword').mockResolvedValue('secret');
+
+      expect(await service.createSymlink(conn as any, '/srv')).toBe('/srv/app');
+      expect(conn.sudoExec).toHaveBeenCalledWith("ln -sfn -- '/opt/app' '/srv/app'", 'secret');
+    });
+  });
+
+  describe('editLinkTarget', () => {
+    it('replaces the link and audits old and new targets', async () => {
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('releases/4');
+
+      expect(await service.editLinkTarget(conn as any, LINK)).toBe(true);
+      expect(conn.deleteFile).toHaveBeenCalledWith('/srv/current');
+      expect(conn.symlink).toHaveBeenCalledWith('releases/4', '/srv/current');
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'edit',
+        detail: 'symlink releases/3 → releases/4',
+        success: true,
+      }));
+    });
+
+    it('restores the old target when the new link cannot be created', async () => {
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('releases/4');
+      conn.symlink.mockRejectedValueOnce(new Error('Failed to create symlink: Failure'));
+
+      expect(await service.editLinkTarget(conn as any, LINK)).toBe(false);
+      expect(conn.symlink).toHaveBeenLastCalledWith('releases/3', '/srv/current');
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'edit', success: false }));
+    });
+
+    it('does nothing when the target is unchanged', async () => {
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('releases/3');
+
+      expect(await service.editLinkTarget(conn as any, LINK)).toBe(false);
+      expect(conn.deleteFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recursive walks', () => {
+    // /srv/app holds `loop -> ..`, which lists as a folder
+    const LOOP: IRemoteFile = { ...LINK, name: 'loop', path: '/srv/app/loop', linkTarget: '..' };
+    const cyclic = async (p: string): Promise<IRemoteFile[]> => (p === '/srv/app' ? [LOOP] : [{ ...LOOP, path: `${p}/loop` }]);
+
+    it('does not follow a cyclic link when downloading a folder', async () => {
+      conn.listFiles.mockImplementation(cyclic);
+      const files: unknown[] = [];
+
+      await (service as any).collectFolderFiles(
+        conn, '/srv/app', vscode.Uri.file('/tmp/app'), files, { report: jest.fn() }, { isCancellationRequested: false }
+      );
+
+      expect(conn.listFiles).toHaveBeenCalledTimes(1);
+      expect(files).toEqual([]);
+    });
+
+    it('copies a cyclic link as a link', async () => {
+      conn.listFiles.mockImplementation(cyclic);
+      const dest = makeConnection();
+
+      await (service as any).copyFolderCrossHost(conn, '/srv/app', dest, '/backup/app');
+
+      expect(conn.listFiles).toHaveBeenCalledTimes(1);
+      expect(dest.mkdir).toHaveBeenCalledTimes(1);
+      expect(dest.symlink).toHaveBeenCalledWith('..', '/backup/app/loop');
+    });
+
+    it('leaves a linked folder out when the destination is FTP', async () => {
+      conn.listFiles.mockImplementation(cyclic);
+      const dest = { ...makeConnection(), capabilities: { type: 'ftp', supportsExec: false, supportsSudo: false } };
+
+      await (service as any).copyFolderCrossHost(conn, '/srv/app', dest, '/backup/app');
+
+      expect(conn.listFiles).toHaveBeenCalledTimes(1);
+      expect(dest.symlink).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -3,21 +3,48 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import * as crypto from 'crypto';
+import { spawn } from 'child_process';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
 import { ConnectionManager } from '../connection/ConnectionManager';
 import { SSHConnection } from '../connection/SSHConnection';
-import { IRemoteFile } from '../types';
-import { AuditService } from './AuditService';
+import { IPermissionChange, IRemoteAccount, IRemoteFile, IRemoteProperties, isSSHConnection } from '../types';
+import { AuditService, ConflictResolution } from './AuditService';
 import { FolderHistoryService } from './FolderHistoryService';
 import { ProgressiveDownloadManager } from './ProgressiveDownloadManager';
 import { PriorityQueueService, PreloadPriority } from './PriorityQueueService';
 import { ActivityService } from './ActivityService';
+import { PART_SUFFIX, TransferQueueService } from './TransferQueueService';
 import { CommandGuard } from './CommandGuard';
+import { RemoteUndoService } from './RemoteUndoService';
 import { CredentialService } from './CredentialService';
 import { formatFileSize, normalizeLocalPath, decodeUriComponentSafe } from '../utils/helpers';
 import { isLikelyBinary, isImageFile, DEFAULT_PROGRESSIVE_CONFIG } from '../types/progressive';
 import { registerTabLabel, buildLocalTempPath, buildAuxTempFileName } from '../utils/connectionPrefix';
 import { infoLog } from '../utils/diagnosticLog';
 import { assertCapability, hasCapability } from '../utils/capabilityGuard';
+import {
+  buildPermissionCommand,
+  describePermissionChange,
+  isValidAccountName,
+  modeToApply,
+  parseAccounts,
+} from '../utils/permissions';
+import {
+  DirectCopyTool,
+  buildDirectCopyCommand,
+  buildProbeCommand,
+  parseDirectCopyResult,
+  parseProbeResult,
+} from '../utils/directCopy';
+import {
+  ArchiveFormat,
+  archiveKind,
+  buildCompressCommand,
+  buildExtractCommand,
+  buildPackStreamCommand,
+  buildUnpackStreamCommand,
+} from '../utils/archive';
 
 /**
  * Large file size threshold (100MB default)
@@ -52,11 +79,35 @@ export interface FileMapping {
   connection?: SSHConnection; // Connection for display info (optional for preload)
 }
 
+/**
+ * Remote file as found by the pre-upload check when someone else changed it
+ * after we opened (or last synced) it
+ */
+interface RemoteEditConflict {
+  content: string;
+  modifiedTime: number;
+  size: number;
+}
+
 /**
  * Server-side backup folder name
  */
 const SERVER_BACKUP_FOLDER = '/tmp/.ssh-lite-backups';
 
+/**
+ * One cross-host copy in flight: the activity it reports to, how it gets
+ * cancelled, and what it has moved so far (shared by the files of a folder)
+ */
+interface CrossHostCopyState {
+  activityId: string;
+  abort: AbortController;
+  isDirectory: boolean;
+  totalBytes?: number; // Known for a single file; folders report bytes and file count only
+  bytes: number;
+  files: number;
+  lastReport: number;
+}
+
 /**
  * Backup entry for file revert
  */
@@ -90,6 +141,8 @@ export class FileService {
   private activeDownloads: Map<string, { connectionId: string; remotePath: string }> = new Map(); // Track paths currently being downloaded
   private pendingUploads: Map<string, { timer: NodeJS.Timeout; uploadFn: () => Promise<void> }> = new Map(); // Pending debounced uploads
   private pendingUploadPromises: Map<string, Promise<void>> = new Map(); // In-flight upload promises
+  private directCopyProbes: Map<string, Promise<DirectCopyTool | undefined>> = new Map(); // "srcId->destId" -> how the source can push to the destination
+  private directCopyChoices: Map<string, boolean> = new Map(); // "srcId->destId" -> user's "copy server to server?" answer this session
 
   private autoCleanupTimer: NodeJS.Timeout | null = null;
 
@@ -106,6 +159,9 @@ export class FileService {
   // Command guard for activity tracking (man in the middle)
   private commandGuard: CommandGuard;
 
+  // Undo/redo history of renames, moves, deletes and creates
+  private undoService: RemoteUndoService;
+
   // File watcher state - now tracks ALL open SSH files, not just the active one
   private currentWatchedFile: { localPath: string; remotePath: string; connectionId: string } | null = null;
   private currentWatchActivityId: string | null = null; // Activity tracking for file monitoring
@@ -171,6 +227,8 @@ export class FileService {
     this.folderHistoryService = FolderHistoryService.getInstance();
     this.priorityQueue = PriorityQueueService.getInstance();
     this.commandGuard = CommandGuard.getInstance();
+    this.undoService = RemoteUndoService.getInstance();
+    this.undoService.onDidMovePath((e) => this.updateFileMappingsAfterRename(e.connectionId, e.from, e.to, e.isDirectory));
     this.startGlobalRefreshTimer();
     this.startAutoCleanupTimer();
   }
@@ -2155,6 +2213,14 @@ export class FileService {
       }
     }
 
+    // Refuse to silently overwrite edits someone made on the server since we opened the file
+    if (config.get<boolean>('checkRemoteChangesOnSave', true)) {
+      const conflict = await this.detectRemoteEdit(connection, mapping, newContent);
+      if (conflict && !(await this.resolveRemoteEditConflict(connection, mapping, newContent, conflict))) {
+        return;
+      }
+    }
+
     // Save backup of old content before upload
     const oldContent = mapping.originalContent || '';
     if (oldContent) {
@@ -2192,6 +2258,7 @@ export class FileService {
       mapping.originalContent = newContent;
       mapping.lastRemoteSize = content.length;
       mapping.lastSyncTime = Date.now();
+      await this.recordRemoteStat(connection, mapping);
 
       // Clear upload state — upload succeeded, tab badge removed
       this.uploadingFiles.delete(mapping.localPath);
@@ -2254,6 +2321,7 @@ export class FileService {
             mapping.originalContent = newContent;
             mapping.lastRemoteSize = content.length;
             mapping.lastSyncTime = Date.now();
+            await this.recordRemoteStat(connection, mapping);
             this.failedUploadFiles.delete(mapping.localPath);
             this._onUploadStateChanged.fire();
 
@@ -2292,6 +2360,190 @@ export class FileService {
     }
   }
 
+  /**
+   * Check whether the remote file changed since we opened or last synced it.
+   * An unchanged mtime and size is trusted; otherwise the content is compared,
+   * because mtime alone also moves on a `touch` or a rewrite of the same bytes.
+   * Returns the remote version when it differs from both the base we edited
+   * and what we are about to write. A failed check never blocks the save.
+   */
+  private async detectRemoteEdit(
+    connection: SSHConnection,
+    mapping: FileMapping,
+    newContent: string
+  ): Promise<RemoteEditConflict | undefined> {
+    const base = mapping.originalContent;
+    if (base === undefined) {
+      return undefined; // No base to merge against
+    }
+    try {
+      const stats = await connection.stat(mapping.remotePath);
+      if (stats.modifiedTime === mapping.lastRemoteModTime && stats.size === mapping.lastRemoteSize) {
+        return undefined;
+      }
+      const theirs = (await connection.readFile(mapping.remotePath)).toString('utf-8');
+      if (theirs === base || theirs === newContent) {
+        mapping.lastRemoteModTime = stats.modifiedTime;
+        mapping.lastRemoteSize = stats.size;
+        return undefined;
+      }
+      infoLog('file-service', 'save/remote-changed', {
+        connectionId: connection.id,
+        remotePath: mapping.remotePath,
+        knownMTime: mapping.lastRemoteModTime,
+        remoteMTime: stats.modifiedTime,
+      });
+      return { content: theirs, modifiedTime: stats.modifiedTime, size: stats.size };
+    } catch {
+      // Remote deleted or unreadable: the upload itself recreates it or reports the error
+      return undefined;
+    }
+  }
+
+  /**
+   * Ask what to do about a remote edit made since the file was opened.
+   * Returns true only for "Overwrite Anyway"; every other choice handles the
+   * file here and ends this upload. The outcome is recorded in the audit log.
+   */
+  private async resolveRemoteEditConflict(
+    connection: SSHConnection,
+    mapping: FileMapping,
+    newContent: string,
+    conflict: RemoteEditConflict
+  ): Promise<boolean> {
+    const fileName = path.basename(mapping.remotePath);
+    const base = mapping.originalContent || '';
+    this.uploadSpinners.get(mapping.localPath)?.dispose();
+    this.uploadSpinners.delete(mapping.localPath);
+
+    const choice = await vscode.window.showWarningMessage(
+      `${fileName} was changed on ${connection.host.name} after you opened it.`,
+      {
+        modal: true,
+        detail: 'Uploading now would overwrite those changes. Merge them with yours, keep yours, or take the server version.',
+      },
+      'Merge',
+      'Overwrite Anyway',
+      'Take Theirs'
+    );
+    const resolution: ConflictResolution =
+      choice === 'Merge' ? 'merge' : choice === 'Overwrite Anyway' ? 'overwrite' : choice === 'Take Theirs' ? 'theirs' : 'cancel';
+
+    this.auditService.logConflict(
+      connection.id,
+      connection.host.name,
+      connection.host.username,
+      mapping.remotePath,
+      mapping.localPath,
+      base,
+      conflict.content,
+      resolution
+    );
+
+    if (resolution === 'overwrite') {
+      return true;
+    }
+
+    // From here the server version is the new base: a later save is checked
+    // against it, so an edit made while merging is caught again.
+    if (resolution === 'merge' || resolution === 'theirs') {
+      mapping.originalContent = conflict.content;
+      mapping.lastRemoteModTime = conflict.modifiedTime;
+      mapping.lastRemoteSize = conflict.size;
+      mapping.lastSyncTime = Date.now();
+    }
+
+    this.uploadingFiles.delete(mapping.localPath);
+    if (resolution === 'theirs') {
+      this.failedUploadFiles.delete(mapping.localPath);
+      this.ensureTempDir();
+      fs.writeFileSync(mapping.localPath, conflict.content);
+      const document = vscode.workspace.textDocuments.find((d) => d.uri.fsPath === mapping.localPath);
+      if (document) {
+        await vscode.commands.executeCommand('workbench.action.files.revert', document.uri);
+      }
+      vscode.window.setStatusBarMessage(`$(sync) Took server version of ${fileName}`, 3000);
+    } else {
+      // Not on the server yet — tab shows ✗ until the next save uploads
+      this.failedUploadFiles.add(mapping.localPath);
+      if (resolution === 'merge') {
+        await this.openMergeEditor(connection, mapping, base, conflict.content, newContent);
+      } else {
+        vscode.window.setStatusBarMessage(`$(x) Upload cancelled: ${fileName} changed on server`, 5000);
+      }
+    }
+    this._onUploadStateChanged.fire();
+    return false;
+  }
+
+  /**
+   * Open VS Code's 3-way merge editor with the editor file as the result.
+   * Falls back to a two-way diff against the server version when the merge
+   * editor is unavailable.
+   */
+  private async openMergeEditor(
+    connection: SSHConnection,
+    mapping: FileMapping,
+    base: string,
+    theirs: string,
+    ours: string
+  ): Promise<void> {
+    const fileName = path.basename(mapping.remotePath);
+    const write = (kind: string, content: string): vscode.Uri => {
+      const tempPath = path.join(this.tempDir, buildAuxTempFileName(kind, mapping.connectionId, mapping.remotePath));
+      fs.writeFileSync(tempPath, content);
+      return vscode.Uri.file(tempPath);
+    };
+
+    try {
+      this.ensureTempDir();
+      const baseUri = write('merge-base', base);
+      const theirsUri = write('merge-theirs', theirs);
+      const oursUri = write('merge-ours', ours);
+      // `_open.mergeEditor` is internal to VS Code: only use it where this build
+      // registers it, and fall back if its arguments have changed
+      let merging = false;
+      if ((await vscode.commands.getCommands(true)).includes('_open.mergeEditor')) {
+        try {
+          await vscode.commands.executeCommand('_open.mergeEditor', {
+            base: baseUri,
+            input1: { uri: theirsUri, title: 'Theirs', description: `${connection.host.name}:${mapping.remotePath}` },
+            input2: { uri: oursUri, title: 'Yours', description: 'Your saved changes' },
+            output: vscode.Uri.file(mapping.localPath),
+          });
+          merging = true;
+        } catch {
+          // Fall through to the two-way diff
+        }
+      }
+      if (!merging) {
+        await vscode.commands.executeCommand(
+          'vscode.diff',
+          theirsUri,
+          vscode.Uri.file(mapping.localPath),
+          `${fileName} (Server ↔ Your Changes)`
+        );
+      }
+      vscode.window.setStatusBarMessage(`$(git-merge) Merge ${fileName}, then save to upload`, 10000);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to open merge for ${fileName}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Remember the remote mtime/size after our own write, so the next save's
+   * remote-edit check does not mistake it for someone else's change.
+   */
+  private async recordRemoteStat(connection: SSHConnection, mapping: FileMapping): Promise<void> {
+    try {
+      const stats = await connection.stat(mapping.remotePath);
+      mapping.lastRemoteModTime = stats.modifiedTime;
+      mapping.lastRemoteSize = stats.size;
+    } catch {
+      // Next save falls back to comparing content
+    }
+  }
+
   /**
    * Show diff between local changes and original content
    */
@@ -3685,36 +3937,6 @@ export class FileService {
     }
   }
 
-  /**
-   * Write bytes to a URI returned by showSaveDialog / showOpenDialog.
-   * Goes through vscode.workspace.fs which respects the URI scheme — handles
-   * file:, vscode-remote:, vscode-vfs:, and any registered FileSystemProvider
-   * scheme. The older direct fs.writeFileSync(uri.fsPath, ...) call silently
-   * broke when the dialog returned a non-file: URI (e.g. on Remote-SSH
-   * workspace host, downloads landed in /tmp/<vscode-tmp-id>/ instead of the
-   * user-chosen path). See .adn/lessons.md 2026-05-22.
-   */
-  private async writeUserSelectedUri(uri: vscode.Uri, content: Buffer): Promise<void> {
-    await vscode.workspace.fs.writeFile(uri, content);
-  }
-
-  /**
-   * Read bytes from a URI returned by showOpenDialog. Goes through
-   * vscode.workspace.fs which respects the URI scheme — handles file:,
-   * vscode-remote:, vscode-vfs:, and any registered FileSystemProvider scheme.
-   * The older direct fs.readFileSync(uri.fsPath, ...) / fs.statSync(uri.fsPath)
-   * calls broke when the dialog returned a non-file: URI (e.g. on a Remote-SSH
-   * workspace host the picker returns `vscode-remote://` URIs whose .fsPath the
-   * raw `fs` module cannot reach). See .adn/lessons.md 2026-05-22.
-   */
-  private async readUserSelectedUri(uri: vscode.Uri): Promise<{ content: Buffer; size: number }> {
-    // stat() rejects on failure (it never resolves to null), so a successful
-    // resolve guarantees a numeric size.
-    const stat = await vscode.workspace.fs.stat(uri);
-    const data = await vscode.workspace.fs.readFile(uri);
-    return { content: Buffer.from(data), size: stat.size };
-  }
-
   /**
    * Whether this extension instance is running on the VS Code workspace
    * (remote) extension host while connected over Remote-SSH. In that placement
@@ -3757,7 +3979,10 @@ export class FileService {
   }
 
   /**
-   * Download a file to a user-selected location
+   * Download a file to a user-selected location through the transfer queue.
+   * The destination is a URI, not an fsPath: dialogs can return
+   * vscode-remote:, vscode-vfs: or provider schemes, which only
+   * vscode.workspace.fs can write (see .adn/lessons.md 2026-05-22).
    */
   async downloadFileTo(connection: SSHConnection, remoteFile: IRemoteFile): Promise<void> {
     const defaultUri = vscode.Uri.file(path.join(os.homedir(), remoteFile.name));
@@ -3773,74 +3998,21 @@ export class FileService {
       return;
     }
 
-    const activityService = ActivityService.getInstance();
-    const activityId = activityService.startActivity(
-      'download',
-      connection.id,
-      connection.host.name,
-      `Download: ${remoteFile.name}`,
-      {
-        detail: formatFileSize(remoteFile.size),
-        cancellable: false,
-      }
-    );
-
-    try {
-      const fileSizeStr = formatFileSize(remoteFile.size);
-      await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: `Downloading ${remoteFile.name} (${fileSizeStr})`,
-          cancellable: false,
-        },
-        async (progress) => {
-          progress.report({ increment: 10, message: 'Starting download...' });
-          activityService.updateProgress(activityId, 10);
-
-          // Start download with progress simulation
-          const downloadPromise = connection.readFile(remoteFile.path);
-
-          let currentProgress = 10;
-          const progressInterval = setInterval(() => {
-            if (currentProgress < 80) {
-              const increment = Math.min(5, 80 - currentProgress);
-              currentProgress += increment;
-              progress.report({ increment, message: `Downloading... ${currentProgress}%` });
-              activityService.updateProgress(activityId, currentProgress);
-            }
-          }, 200);
-
-          const content = await downloadPromise;
-          clearInterval(progressInterval);
-
-          progress.report({ increment: 90 - currentProgress, message: 'Saving file...' });
-          activityService.updateProgress(activityId, 90, 'Saving file...');
-          await this.writeUserSelectedUri(saveUri, content);
-          progress.report({ increment: 10, message: 'Complete!' });
-        }
-      );
-
-      this.auditService.log({
-        action: 'download',
-        connectionId: connection.id,
-        hostName: connection.host.name,
-        username: connection.host.username,
-        remotePath: remoteFile.path,
-        localPath: saveUri.fsPath,
-        fileSize: remoteFile.size,
-        success: true,
-      });
-
-      activityService.completeActivity(activityId, 'Saved');
+    const queue = TransferQueueService.getInstance();
+    const item = queue.enqueueDownload(connection, remoteFile.path, saveUri, {
+      size: remoteFile.size,
+      modifiedTime: remoteFile.modifiedTime,
+    });
+    const done = await queue.whenDone(item.id);
+    if (done.status === 'completed') {
       vscode.window.setStatusBarMessage(`$(check) Downloaded ${remoteFile.name}`, 3000);
-    } catch (error) {
-      activityService.failActivity(activityId, (error as Error).message);
-      vscode.window.showErrorMessage(`Failed to download file: ${(error as Error).message}`);
+    } else if (done.status === 'failed') {
+      vscode.window.showErrorMessage(`Failed to download file: ${done.error}`);
     }
   }
 
   /**
-   * Download a folder recursively
+   * Download a folder recursively: create the local tree, then queue every file
    */
   async downloadFolder(connection: SSHConnection, remoteFile: IRemoteFile): Promise<void> {
     const folderUri = await vscode.window.showOpenDialog({
@@ -3855,64 +4027,82 @@ export class FileService {
     }
 
     // Resolve the destination as a URI (not a string fsPath) so non-file
-    // schemes (vscode-remote:, vscode-vfs:, custom providers) work — same
-    // motivation as writeUserSelectedUri above.
+    // schemes (vscode-remote:, vscode-vfs:, custom providers) work.
     const targetUri = vscode.Uri.joinPath(folderUri[0], remoteFile.name);
 
+    const files: Array<{ file: IRemoteFile; uri: vscode.Uri }> = [];
     try {
-      await vscode.window.withProgress(
+      const scanned = await vscode.window.withProgress(
         {
           location: vscode.ProgressLocation.Notification,
-          title: `Downloading folder: ${remoteFile.name}`,
-          cancellable: false,
+          title: `Scanning folder: ${remoteFile.name}`,
+          cancellable: true,
         },
-        async (progress) => {
-          progress.report({ increment: 5, message: 'Scanning folder...' });
-          await this.downloadFolderRecursive(connection, remoteFile.path, targetUri, progress, { count: 0 });
-          progress.report({ increment: 5, message: 'Complete!' });
+        async (progress, token) => {
+          await this.collectFolderFiles(connection, remoteFile.path, targetUri, files, progress, token);
+          return !token.isCancellationRequested;
         }
       );
-
-      vscode.window.setStatusBarMessage(`$(check) Downloaded folder ${remoteFile.name}`, 3000);
+      if (!scanned) {
+        return;
+      }
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to download folder: ${(error as Error).message}`);
+      return;
+    }
+
+    const queue = TransferQueueService.getInstance();
+    const items = files.map(({ file, uri }) =>
+      queue.enqueueDownload(connection, file.path, uri, { size: file.size, modifiedTime: file.modifiedTime })
+    );
+    const results = await Promise.all(items.map((item) => queue.whenDone(item.id)));
+    const failed = results.filter((r) => r.status === 'failed');
+    if (failed.length > 0) {
+      vscode.window.showErrorMessage(
+        `Failed to download ${failed.length} of ${results.length} files from ${remoteFile.name}: ${failed[0].error}`
+      );
+    } else if (results.every((r) => r.status === 'completed')) {
+      vscode.window.setStatusBarMessage(`$(check) Downloaded folder ${remoteFile.name}`, 3000);
     }
   }
 
   /**
-   * Recursively download a folder
+   * Create the local folder tree and collect the files to download into it
    */
-  private async downloadFolderRecursive(
+  private async collectFolderFiles(
     connection: SSHConnection,
     remotePath: string,
     destFolderUri: vscode.Uri,
+    files: Array<{ file: IRemoteFile; uri: vscode.Uri }>,
     progress: vscode.Progress<{ message?: string; increment?: number }>,
-    counter: { count: number }
+    token: vscode.CancellationToken
   ): Promise<void> {
     // createDirectory is idempotent — no need for existsSync guard.
     await vscode.workspace.fs.createDirectory(destFolderUri);
 
-    // List remote directory
-    const files = await connection.listFiles(remotePath);
-
-    for (const file of files) {
-      const childUri = vscode.Uri.joinPath(destFolderUri, file.name);
-      counter.count++;
+    const entries = await connection.listFiles(remotePath);
 
-      if (file.isDirectory) {
-        progress.report({ increment: 1, message: `Folder: ${file.name}` });
-        await this.downloadFolderRecursive(connection, file.path, childUri, progress, counter);
+    for (const entry of entries) {
+      if (token.isCancellationRequested) {
+        return;
+      }
+      // A linked folder is not followed: `a -> ..` would never end and a link
+      // to `/` would pull in the whole server. Linked files download as content.
+      if (entry.isSymlink && entry.isDirectory) {
+        continue;
+      }
+      const childUri = vscode.Uri.joinPath(destFolderUri, entry.name);
+      if (entry.isDirectory) {
+        progress.report({ message: `Folder: ${entry.name}` });
+        await this.collectFolderFiles(connection, entry.path, childUri, files, progress, token);
       } else {
-        const fileSizeStr = formatFileSize(file.size);
-        progress.report({ increment: 1, message: `${file.name} (${fileSizeStr})` });
-        const content = await connection.readFile(file.path);
-        await vscode.workspace.fs.writeFile(childUri, content);
+        files.push({ file: entry, uri: childUri });
       }
     }
   }
 
   /**
-   * Upload a file from local to remote
+   * Upload a file from local to remote through the transfer queue
    */
   async uploadFileTo(connection: SSHConnection, remoteFolderPath: string): Promise<void> {
     // On the remote workspace host the picker browses the server, not the
@@ -3942,60 +4132,26 @@ export class FileService {
     // be percent-encoded (e.g. "my%20file.txt") — decode it, but guard against a
     // literal '%' in a file: path that isn't valid encoding (e.g. "100%.txt").
     const fileName = decodeUriComponentSafe(path.posix.basename(selectedUri.path));
-    const localPath = selectedUri.fsPath; // display/audit only — never fed to raw fs
     const remotePath = `${remoteFolderPath}/${fileName}`;
 
-    const activityService = ActivityService.getInstance();
-    // Read BEFORE starting the activity; a read failure must surface to the user
-    // (the caller only logs), matching the download path's error handling.
-    let localContent: Buffer;
+    // The queue reads the file through vscode.workspace.fs (never raw fs on a
+    // dialog URI — it may be vscode-remote: etc., see .adn/lessons.md 2026-05-22).
+    // stat() first so a missing file fails before anything is queued.
     let fileSize: number;
     try {
-      ({ content: localContent, size: fileSize } = await this.readUserSelectedUri(selectedUri));
+      fileSize = (await vscode.workspace.fs.stat(selectedUri)).size;
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to read file for upload: ${(error as Error).message}`);
       return;
     }
-    const activityId = activityService.startActivity(
-      'upload',
-      connection.id,
-      connection.host.name,
-      `Upload: ${fileName}`,
-      {
-        detail: formatFileSize(fileSize),
-        cancellable: false,
-      }
-    );
-
-    try {
-      await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: `Uploading ${fileName}...`,
-          cancellable: false,
-        },
-        async () => {
-          activityService.updateProgress(activityId, 50, 'Uploading...');
-          await connection.writeFile(remotePath, localContent);
-        }
-      );
-
-      this.auditService.log({
-        action: 'upload',
-        connectionId: connection.id,
-        hostName: connection.host.name,
-        username: connection.host.username,
-        remotePath,
-        localPath,
-        fileSize,
-        success: true,
-      });
 
-      activityService.completeActivity(activityId, 'Done');
+    const queue = TransferQueueService.getInstance();
+    const item = queue.enqueueUpload(connection, selectedUri, remotePath, fileSize);
+    const done = await queue.whenDone(item.id);
+    if (done.status === 'completed') {
       vscode.window.setStatusBarMessage(`$(check) Uploaded ${fileName}`, 3000);
-    } catch (error) {
-      activityService.failActivity(activityId, (error as Error).message);
-      vscode.window.showErrorMessage(`Failed to upload file: ${(error as Error).message}`);
+    } else if (done.status === 'failed') {
+      vscode.window.showErrorMessage(`Failed to upload file: ${done.error}`);
     }
   }
 
@@ -4007,10 +4163,23 @@ export class FileService {
     remoteFile: IRemoteFile,
     opts: { skipConfirm?: boolean; createBackup?: boolean } = {}
   ): Promise<boolean> {
-    const typeLabel = remoteFile.isDirectory ? 'folder' : 'file';
+    const typeLabel = remoteFile.isSymlink ? 'link' : remoteFile.isDirectory ? 'folder' : 'file';
 
     let createBackup: boolean;
-    if (opts.skipConfirm) {
+    if (remoteFile.isSymlink) {
+      // Only the link itself is removed — a backup would copy the target instead
+      if (!opts.skipConfirm) {
+        const confirm = await vscode.window.showWarningMessage(
+          `Delete link "${remoteFile.name}"?`,
+          { modal: true, detail: `Only the link is removed; its target ${remoteFile.linkTarget ?? ''} is left alone.` },
+          'Delete Link'
+        );
+        if (!confirm) {
+          return false;
+        }
+      }
+      createBackup = false;
+    } else if (opts.skipConfirm) {
       // Bulk delete path: caller already showed one summary confirm, so we
       // skip the per-item dialog. Default to "Delete with Backup" unless the
       // caller explicitly opts out via createBackup: false.
@@ -4043,8 +4212,8 @@ export class FileService {
         }
       }
 
-      // Perform deletion
-      if (remoteFile.isDirectory) {
+      // Perform deletion (deleteFile unlinks a symlink without following it)
+      if (remoteFile.isDirectory && !remoteFile.isSymlink) {
         await this.deleteDirectoryRecursive(connection, remoteFile.path);
       } else {
         await connection.deleteFile(remoteFile.path);
@@ -4059,6 +4228,9 @@ export class FileService {
         fileSize: remoteFile.size,
         success: true,
       });
+      if (backupPath) {
+        this.undoService.record(connection, { kind: 'delete', path: remoteFile.path, isDirectory: remoteFile.isDirectory, backupPath });
+      }
 
       // Show non-blocking status bar message
       if (backupPath) {
@@ -4153,7 +4325,8 @@ export class FileService {
     const files = await connection.listFiles(remotePath);
 
     for (const file of files) {
-      if (file.isDirectory) {
+      // Never descend through a link into its target
+      if (file.isDirectory && !file.isSymlink) {
         await this.deleteDirectoryRecursive(connection, file.path);
       } else {
         await connection.deleteFile(file.path);
@@ -4199,6 +4372,7 @@ export class FileService {
         remotePath,
         success: true,
       });
+      this.undoService.record(connection, { kind: 'create', path: remotePath, isDirectory: true });
 
       vscode.window.setStatusBarMessage(`$(check) Created folder ${folderName}`, 3000);
       return remotePath;
@@ -4274,6 +4448,7 @@ export class FileService {
         remotePath,
         success: true,
       });
+      this.undoService.record(connection, { kind: 'create', path: remotePath, isDirectory: false });
 
       vscode.window.setStatusBarMessage(`$(check) Created file ${fileName}`, 3000);
       return remotePath;
@@ -4308,13 +4483,13 @@ export class FileService {
   }
 
   /**
-   * Read remote file/folder metadata and format it for the Properties viewer.
+   * Read remote file/folder metadata for the Properties panel.
    * Uses GNU stat over the existing SSH connection (NOT Node child_process).
    * Path is shell-quoted with the codebase's existing single-quote escape
    * pattern (see FileService backup helpers) so paths with literal quotes
    * are safe.
    */
-  async getRemoteProperties(connection: SSHConnection, remoteFile: IRemoteFile): Promise<string> {
+  async statRemoteProperties(connection: SSHConnection, remoteFile: IRemoteFile): Promise<IRemoteProperties> {
     assertCapability(connection, 'supportsExec');
     const escapedPath = remoteFile.path.replace(/'/g, "'\\''");
     const statFormat = '%F|%s|%A|%a|%U|%u|%G|%g|%y|%x|%N';
@@ -4326,68 +4501,190 @@ export class FileService {
       throw new Error(`Unexpected stat output: ${line}`);
     }
     const [type, sizeStr, permsStr, permsOctal, ownerName, ownerUid, groupName, groupGid, modified, accessed, quotedName] = parts;
-    const sizeBytes = parseInt(sizeStr, 10);
-    const sizeHuman = !isNaN(sizeBytes) ? formatFileSize(sizeBytes) : sizeStr;
+    return {
+      path: remoteFile.path,
+      isDirectory: remoteFile.isDirectory,
+      type,
+      size: parseInt(sizeStr, 10),
+      mode: parseInt(permsOctal, 8),
+      symbolic: permsStr,
+      owner: { name: ownerName, id: parseInt(ownerUid, 10) },
+      group: { name: groupName, id: parseInt(groupGid, 10) },
+      modified,
+      accessed,
+      quotedName,
+    };
+  }
+
+  /**
+   * Read remote file/folder metadata and format it as plain text.
+   */
+  async getRemoteProperties(connection: SSHConnection, remoteFile: IRemoteFile): Promise<string> {
+    const props = await this.statRemoteProperties(connection, remoteFile);
+    const sizeHuman = !isNaN(props.size) ? formatFileSize(props.size) : '';
     return [
-      `Type:        ${type}`,
-      `Size:        ${sizeBytes} bytes${!isNaN(sizeBytes) ? ` (${sizeHuman})` : ''}`,
-      `Permissions: ${permsStr}  (${permsOctal})`,
-      `Owner:       ${ownerName} (${ownerUid})`,
-      `Group:       ${groupName} (${groupGid})`,
-      `Modified:    ${modified}`,
-      `Accessed:    ${accessed}`,
-      `Name:        ${quotedName}`,
+      `Type:        ${props.type}`,
+      `Size:        ${props.size} bytes${sizeHuman ? ` (${sizeHuman})` : ''}`,
+      `Permissions: ${props.symbolic}  (${props.mode.toString(8)})`,
+      `Owner:       ${props.owner.name} (${props.owner.id})`,
+      `Group:       ${props.group.name} (${props.group.id})`,
+      `Modified:    ${props.modified}`,
+      `Accessed:    ${props.accessed}`,
+      `Name:        ${props.quotedName}`,
     ].join('\n');
   }
 
   /**
-   * Rename a remote file or folder (SFTP rename - instant, zero data transfer)
+   * Users and groups for the Properties panel's owner/group pickers.
+   * `getent` also lists LDAP/NIS accounts; /etc/passwd and /etc/group are the
+   * fallback on systems without it.
    */
-  async renameRemote(connection: SSHConnection, remoteFile: IRemoteFile): Promise<string | undefined> {
-    const typeLabel = remoteFile.isDirectory ? 'folder' : 'file';
-    const oldName = remoteFile.name;
-    const parentDir = remoteFile.path.substring(0, remoteFile.path.lastIndexOf('/'));
-
-    const newName = await vscode.window.showInputBox({
-      prompt: `Rename ${typeLabel}`,
-      value: oldName,
-      valueSelection: remoteFile.isDirectory
-        ? [0, oldName.length]
-        : [0, oldName.lastIndexOf('.') > 0 ? oldName.lastIndexOf('.') : oldName.length],
-      ignoreFocusOut: true,
-      validateInput: (value) => {
-        if (!value || value.trim().length === 0) {
-          return 'Name cannot be empty';
-        }
-        if (value.includes('/') || value.includes('\\')) {
-          return 'Name cannot contain slashes';
-        }
-        if (value.trim() === oldName) {
-          return 'Name is unchanged';
-        }
-        return null;
-      },
-    });
+  async listRemoteAccounts(connection: SSHConnection): Promise<{ users: IRemoteAccount[]; groups: IRemoteAccount[] }> {
+    assertCapability(connection, 'supportsExec');
+    const marker = '--SSHLITE-GROUPS--';
+    const output = await connection.exec(
+      `{ getent passwd || cat /etc/passwd; } 2>/dev/null; echo '${marker}'; { getent group || cat /etc/group; } 2>/dev/null`
+    );
+    const [passwd, group = ''] = output.split(marker);
+    return { users: parseAccounts(passwd), groups: parseAccounts(group) };
+  }
 
-    if (!newName) {
-      return undefined;
+  /**
+   * Apply a Properties panel change. A single path goes over SFTP (chown,
+   * then chmod — chown clears setuid/setgid); recursive changes run
+   * chown -R / find -exec chmod in one shell command. On permission denied
+   * the same shell command is offered through sudo. Every attempt is audited.
+   * Returns true on success; failures are reported to the user.
+   */
+  async applyPermissionChange(
+    connection: SSHConnection,
+    props: IRemoteProperties,
+    change: IPermissionChange
+  ): Promise<boolean> {
+    for (const account of [change.owner, change.group]) {
+      if (account && !isValidAccountName(account.name)) {
+        throw new Error(`Invalid user or group name: ${account.name}`);
+      }
+    }
+    for (const mode of [change.mode, change.fileMode]) {
+      if (mode !== undefined && (!Number.isInteger(mode) || mode < 0 || mode > 0o7777)) {
+        throw new Error(`Invalid mode: ${mode}`);
+      }
     }
 
-    const newPath = `${parentDir}/${newName.trim()}`;
-
-    try {
-      await connection.rename(remoteFile.path, newPath);
-      this.updateFileMappingsAfterRename(connection.id, remoteFile.path, newPath, remoteFile.isDirectory);
-
+    const recursive = !!change.recursive && props.isDirectory;
+    const command = buildPermissionCommand(props, change);
+    const detail = describePermissionChange(props, change);
+    const audit = (success: boolean, error?: string): void => {
       this.auditService.log({
-        action: 'rename',
+        action: 'permissions',
         connectionId: connection.id,
         hostName: connection.host.name,
         username: connection.host.username,
-        remotePath: remoteFile.path,
-        localPath: newPath,
+        remotePath: props.path,
+        detail,
+        success,
+        error,
+      });
+    };
+
+    try {
+      if (recursive || (connection.sudoMode && connection.sudoPassword)) {
+        // CommandGuard routes through sudo when sudo mode is on
+        await this.commandGuard.exec(connection, command, {
+          description: `Permissions: ${path.posix.basename(props.path)}`,
+          detail,
+        });
+      } else {
+        if (change.owner || change.group) {
+          await connection.chown(props.path, (change.owner ?? props.owner).id, (change.group ?? props.group).id);
+        }
+        const mode = modeToApply(props, change);
+        if (mode !== undefined) {
+          await connection.chmod(props.path, mode);
+        }
+      }
+      audit(true);
+      vscode.window.setStatusBarMessage(`$(check) Updated permissions of ${path.posix.basename(props.path)}`, 3000);
+      return true;
+    } catch (error) {
+      const err = error as Error;
+      const denied = this.isPermissionDenied(err) || /operation not permitted|eperm/i.test(err.message);
+
+      // Permission denied — offer sudo retry (SSH only; FTP has no sudo)
+      if (denied && !connection.sudoMode && connection.capabilities.supportsSudo) {
+        const sudoHandled = await this.handlePermissionDenied(
+          connection,
+          path.posix.basename(props.path),
+          async (password: string) => {
+            if (connection.sudoMode) {
+              // "Sudo All" — CommandGuard now routes via sudo
+              await this.commandGuard.exec(connection, command);
+            } else {
+              await connection.sudoExec(command, password);
+            }
+            audit(true);
+            vscode.window.setStatusBarMessage(`$(check) Updated permissions of ${path.posix.basename(props.path)} (sudo)`, 3000);
+          }
+        );
+        if (sudoHandled) { return true; }
+      }
+
+      audit(false, err.message);
+      vscode.window.showErrorMessage(`Failed to change permissions: ${err.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Rename a remote file or folder (SFTP rename - instant, zero data transfer)
+   */
+  async renameRemote(connection: SSHConnection, remoteFile: IRemoteFile): Promise<string | undefined> {
+    const typeLabel = remoteFile.isDirectory ? 'folder' : 'file';
+    const oldName = remoteFile.name;
+    const parentDir = remoteFile.path.substring(0, remoteFile.path.lastIndexOf('/'));
+
+    const newName = await vscode.window.showInputBox({
+      prompt: `Rename ${typeLabel}`,
+      value: oldName,
+      valueSelection: remoteFile.isDirectory
+        ? [0, oldName.length]
+        : [0, oldName.lastIndexOf('.') > 0 ? oldName.lastIndexOf('.') : oldName.length],
+      ignoreFocusOut: true,
+      validateInput: (value) => {
+        if (!value || value.trim().length === 0) {
+          return 'Name cannot be empty';
+        }
+        if (value.includes('/') || value.includes('\\')) {
+          return 'Name cannot contain slashes';
+        }
+        if (value.trim() === oldName) {
+          return 'Name is unchanged';
+        }
+        return null;
+      },
+    });
+
+    if (!newName) {
+      return undefined;
+    }
+
+    const newPath = `${parentDir}/${newName.trim()}`;
+
+    try {
+      await connection.rename(remoteFile.path, newPath);
+      this.updateFileMappingsAfterRename(connection.id, remoteFile.path, newPath, remoteFile.isDirectory);
+
+      this.auditService.log({
+        action: 'rename',
+        connectionId: connection.id,
+        hostName: connection.host.name,
+        username: connection.host.username,
+        remotePath: remoteFile.path,
+        localPath: newPath,
         success: true,
       });
+      this.undoService.record(connection, { kind: 'move', from: remoteFile.path, to: newPath, isDirectory: remoteFile.isDirectory });
 
       vscode.window.setStatusBarMessage(`$(check) Renamed ${oldName} → ${newName.trim()}`, 3000);
       return newPath;
@@ -4477,6 +4774,7 @@ export class FileService {
         localPath: trimmedPath,
         success: true,
       });
+      this.undoService.record(connection, { kind: 'move', from: remoteFile.path, to: trimmedPath, isDirectory: remoteFile.isDirectory });
 
       const newDir = trimmedPath.substring(0, trimmedPath.lastIndexOf('/'));
       vscode.window.setStatusBarMessage(`$(check) Moved ${remoteFile.name} → ${newDir}/`, 3000);
@@ -4551,11 +4849,32 @@ export class FileService {
   /**
    * Delete a remote file or folder (thin wrapper used by paste-cut flow).
    * Uses `rm -rf` for folders to handle non-empty directories; SFTP rmdir
-   * only works on empty dirs.
+   * only works on empty dirs. With `backup` (the source of a cross-host
+   * move), a server backup is taken first and the delete recorded for Undo.
    */
-  async deleteRemotePath(connection: SSHConnection, remotePath: string, isDirectory: boolean): Promise<void> {
+  async deleteRemotePath(
+    connection: SSHConnection,
+    remotePath: string,
+    isDirectory: boolean,
+    opts: { backup?: boolean } = {}
+  ): Promise<void> {
+    if (opts.backup && connection.capabilities.supportsServerBackup) {
+      const backupPath = isDirectory
+        ? await this.createDirectoryBackup(connection, remotePath)
+        : await this.createServerBackup(connection, remotePath);
+      await this.deleteRemotePath(connection, remotePath, isDirectory);
+      if (backupPath) {
+        this.undoService.record(connection, { kind: 'delete', path: remotePath, isDirectory, backupPath });
+      }
+      return;
+    }
     if (isDirectory) {
       if (!connection.capabilities.supportsExec) {
+        // A link to a folder: remove the link, not the tree it points at
+        if (connection.capabilities.type === 'ssh' && (await this.isSymlink(connection, remotePath))) {
+          await connection.deleteFile(remotePath);
+          return;
+        }
         // FTP has no shell: delete the tree with IConnection methods instead of `rm -rf`.
         await this.deleteDirectoryRecursive(connection, remotePath);
         return;
@@ -4567,6 +4886,512 @@ export class FileService {
     }
   }
 
+  /**
+   * Create a symlink in `parentPath`. Asks for the target first (absolute, or
+   * relative to the folder) and offers its basename as the link name.
+   */
+  async createSymlink(connection: SSHConnection, parentPath: string): Promise<string | undefined> {
+    const target = await vscode.window.showInputBox({
+      prompt: `Link target (absolute, or relative to ${parentPath})`,
+      placeHolder: '/var/www/releases/current',
+      ignoreFocusOut: true,
+      validateInput: (value) => (!value || value.trim().length === 0 ? 'Link target cannot be empty' : null),
+    });
+    if (!target) {
+      return undefined;
+    }
+
+    const linkName = await vscode.window.showInputBox({
+      prompt: 'Enter link name',
+      value: path.posix.basename(target.replace(/\/+$/, '')) || 'link',
+      ignoreFocusOut: true,
+      validateInput: (value) => {
+        if (!value || value.trim().length === 0) {
+          return 'Link name cannot be empty';
+        }
+        if (value.includes('/') || value.includes('\\')) {
+          return 'Link name cannot contain slashes';
+        }
+        return null;
+      },
+    });
+    if (!linkName) {
+      return undefined;
+    }
+
+    const linkPath = parentPath === '/' ? `/${linkName}` : `${parentPath}/${linkName}`;
+    if (await this.isSymlink(connection, linkPath) || await connection.fileExists(linkPath)) {
+      vscode.window.showErrorMessage(`"${linkName}" already exists in ${parentPath}`);
+      return undefined;
+    }
+
+    const ok = await this.writeSymlink(connection, target, linkPath, 'create', `symlink → ${target}`);
+    if (ok) {
+      vscode.window.setStatusBarMessage(`$(check) Created link ${linkName} → ${target}`, 3000);
+      return linkPath;
+    }
+    return undefined;
+  }
+
+  /**
+   * Point an existing symlink somewhere else. SFTP cannot retarget a link, so
+   * it is removed and re-created; the old target is restored if that fails.
+   */
+  async editLinkTarget(connection: SSHConnection, remoteFile: IRemoteFile): Promise<boolean> {
+    const current = remoteFile.linkTarget ?? (await connection.readlink(remoteFile.path));
+    const target = await vscode.window.showInputBox({
+      prompt: `New target for ${remoteFile.name} (absolute, or relative to its folder)`,
+      value: current,
+      ignoreFocusOut: true,
+      validateInput: (value) => (!value || value.trim().length === 0 ? 'Link target cannot be empty' : null),
+    });
+    if (!target || target === current) {
+      return false;
+    }
+
+    const ok = await this.writeSymlink(connection, target, remoteFile.path, 'edit', `symlink ${current} → ${target}`, current);
+    if (ok) {
+      vscode.window.setStatusBarMessage(`$(check) ${remoteFile.name} → ${target}`, 3000);
+    }
+    return ok;
+  }
+
+  /**
+   * Create (or, with `previousTarget`, replace) a symlink over SFTP, falling
+   * back to `ln -sfn` through sudo on permission denied. Audited either way.
+   */
+  private async writeSymlink(
+    connection: SSHConnection,
+    target: string,
+    linkPath: string,
+    action: 'create' | 'edit',
+    detail: string,
+    previousTarget?: string
+  ): Promise<boolean> {
+    const audit = (success: boolean, error?: string): void => {
+      this.auditService.log({
+        action,
+        connectionId: connection.id,
+        hostName: connection.host.name,
+        username: connection.host.username,
+        remotePath: linkPath,
+        detail,
+        success,
+        error,
+      });
+    };
+
+    const command = `ln -sfn -- '${this.escapePathForShell(target)}' '${this.escapePathForShell(linkPath)}'`;
+
+    try {
+      if (connection.sudoMode && connection.sudoPassword) {
+        // CommandGuard routes through sudo when sudo mode is on
+        await this.commandGuard.exec(connection, command);
+      } else if (previousTarget !== undefined) {
+        await connection.deleteFile(linkPath);
+        try {
+          await connection.symlink(target, linkPath);
+        } catch (error) {
+          await connection.symlink(previousTarget, linkPath).catch(() => undefined);
+          throw error;
+        }
+      } else {
+        await connection.symlink(target, linkPath);
+      }
+      audit(true);
+      return true;
+    } catch (error) {
+      const err = error as Error;
+
+      if (this.isPermissionDenied(err) && !connection.sudoMode && connection.capabilities.supportsSudo) {
+        const sudoHandled = await this.handlePermissionDenied(
+          connection,
+          path.posix.basename(linkPath),
+          async (password: string) => {
+            if (connection.sudoMode) {
+              await this.commandGuard.exec(connection, command);
+            } else {
+              await connection.sudoExec(command, password);
+            }
+            audit(true);
+          }
+        );
+        if (sudoHandled) { return true; }
+      }
+
+      audit(false, err.message);
+      vscode.window.showErrorMessage(`Failed to ${action === 'create' ? 'create' : 'update'} link: ${err.message}`);
+      return false;
+    }
+  }
+
+  private async isSymlink(connection: SSHConnection, remotePath: string): Promise<boolean> {
+    try {
+      await connection.readlink(remotePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+
+  /**
+   * Pack files and folders of one remote folder into a tar.gz or zip next to
+   * them, on the server. Returns the archive path, or undefined when
+   * cancelled or failed (the error is shown).
+   */
+  async compressRemote(connection: SSHConnection, files: IRemoteFile[]): Promise<string | undefined> {
+    const parentDir = path.posix.dirname(files[0].path);
+    if (files.some((f) => path.posix.dirname(f.path) !== parentDir)) {
+      vscode.window.showErrorMessage('Select files and folders from one folder to compress them together.');
+      return undefined;
+    }
+    const names = files.map((f) => f.name);
+    const base = files.length === 1 ? files[0].name : path.posix.basename(parentDir) || 'archive';
+
+    const pick = await vscode.window.showQuickPick(
+      [
+        { label: 'tar.gz', description: 'Keeps permissions and links', format: 'tar.gz' as ArchiveFormat },
+        { label: 'zip', description: 'Opens anywhere; needs zip on the server', format: 'zip' as ArchiveFormat },
+      ],
+      { placeHolder: `Compress ${files.length === 1 ? base : `${files.length} items`} as`, ignoreFocusOut: true }
+    );
+    if (!pick) {
+      return undefined;
+    }
+
+    const archiveName = await vscode.window.showInputBox({
+      prompt: `Archive name (created in ${parentDir})`,
+      value: `${base}.${pick.format}`,
+      valueSelection: [0, base.length],
+      ignoreFocusOut: true,
+      validateInput: (value) => {
+        if (!value || value.trim().length === 0) {
+          return 'Name cannot be empty';
+        }
+        if (value.includes('/') || value.includes('\\')) {
+          return 'Name cannot contain slashes';
+        }
+        if (names.includes(value)) {
+          return 'Name is one of the items being compressed';
+        }
+        return null;
+      },
+    });
+    if (!archiveName) {
+      return undefined;
+    }
+
+    const archivePath = path.posix.join(parentDir, archiveName);
+    if (await connection.fileExists(archivePath)) {
+      const replace = await vscode.window.showWarningMessage(
+        `"${archiveName}" already exists in ${parentDir}.`,
+        { modal: true },
+        'Replace'
+      );
+      if (replace !== 'Replace') {
+        return undefined;
+      }
+    }
+
+    const ok = await this.runArchiveCommand(connection, buildCompressCommand(parentDir, names, archiveName, pick.format), {
+      action: 'archive',
+      remotePath: archivePath,
+      detail: `${pick.format} of ${names.join(', ')}`,
+      title: `Compressing ${files.length === 1 ? base : `${files.length} items`} on ${connection.host.name}`,
+    });
+    if (ok) {
+      vscode.window.setStatusBarMessage(`$(check) Created ${archiveName}`, 3000);
+    }
+    return ok ? archivePath : undefined;
+  }
+
+  /**
+   * Unpack a remote archive into the folder that holds it, on the server.
+   */
+  async extractRemote(connection: SSHConnection, remoteFile: IRemoteFile): Promise<boolean> {
+    const kind = archiveKind(remoteFile.name);
+    if (!kind) {
+      vscode.window.showErrorMessage(`${remoteFile.name} is not a tar, tar.gz, tar.bz2, tar.xz, zip or gz archive.`);
+      return false;
+    }
+    const destDir = path.posix.dirname(remoteFile.path);
+    const ok = await this.runArchiveCommand(connection, buildExtractCommand(remoteFile.path, destDir, kind), {
+      action: 'extract',
+      remotePath: remoteFile.path,
+      detail: `into ${destDir}`,
+      title: `Extracting ${remoteFile.name} on ${connection.host.name}`,
+    });
+    if (ok) {
+      vscode.window.setStatusBarMessage(`$(check) Extracted ${remoteFile.name}`, 3000);
+    }
+    return ok;
+  }
+
+  /**
+   * Run a compress/extract command under a progress notification, offering
+   * the sudo retry on permission denied (as applyPermissionChange does).
+   * Audited either way; errors are shown.
+   */
+  private async runArchiveCommand(
+    connection: SSHConnection,
+    command: string,
+    job: { action: 'archive' | 'extract'; remotePath: string; detail: string; title: string }
+  ): Promise<boolean> {
+    const audit = (success: boolean, error?: string): void => {
+      this.auditService.log({
+        action: job.action,
+        connectionId: connection.id,
+        hostName: connection.host.name,
+        username: connection.host.username,
+        remotePath: job.remotePath,
+        detail: job.detail,
+        success,
+        error,
+      });
+    };
+    const withProgress = <T>(task: () => Promise<T>): Thenable<T> =>
+      vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: job.title }, task);
+    // CommandGuard routes through sudo when sudo mode is on
+    const run = () => withProgress(() => this.commandGuard.exec(connection, command, {
+      type: 'archive',
+      description: job.title,
+      detail: job.detail,
+    }));
+    const name = path.posix.basename(job.remotePath);
+
+    try {
+      await run();
+      audit(true);
+      return true;
+    } catch (error) {
+      const err = error as Error;
+
+      if (this.isPermissionDenied(err) && !connection.sudoMode && connection.capabilities.supportsSudo) {
+        const sudoHandled = await this.handlePermissionDenied(connection, name, async (password: string) => {
+          if (connection.sudoMode) {
+            await run();
+          } else {
+            await withProgress(() => connection.sudoExec(command, password));
+          }
+          audit(true);
+        });
+        if (sudoHandled) { return true; }
+      }
+
+      audit(false, err.message);
+      vscode.window.showErrorMessage(`Failed to ${job.action === 'archive' ? 'compress' : 'extract'} ${name}: ${err.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Download a folder as one .tar.gz: `tar czf -` on the server streamed over
+   * a single exec channel into a local file, instead of one SFTP request per
+   * file. Written to a part file and renamed when complete. Offers to unpack
+   * it locally afterwards.
+   */
+  async downloadFolderAsArchive(connection: SSHConnection, remoteFile: IRemoteFile): Promise<void> {
+    const archiveName = `${remoteFile.name || connection.host.name}.tar.gz`;
+    const saveUri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(os.homedir(), archiveName)),
+      filters: { 'Gzipped tar': ['gz', 'tgz'] },
+    });
+    if (!saveUri) {
+      return;
+    }
+    if (saveUri.scheme !== 'file') {
+      vscode.window.showErrorMessage('Download as Archive can only save to a folder on this machine.');
+      return;
+    }
+
+    const localPath = saveUri.fsPath;
+    const partPath = localPath + PART_SUFFIX;
+    const abort = new AbortController();
+    const audit = (success: boolean, fileSize?: number, error?: string): void => {
+      this.auditService.log({
+        action: 'download',
+        connectionId: connection.id,
+        hostName: connection.host.name,
+        username: connection.host.username,
+        remotePath: remoteFile.path,
+        localPath,
+        fileSize,
+        detail: 'tar.gz archive',
+        success,
+        error,
+      });
+    };
+
+    let bytes: number;
+    try {
+      bytes = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Downloading ${remoteFile.name} as archive`, cancellable: true },
+        (_progress, token) => {
+          token.onCancellationRequested(() => abort.abort());
+          return this.commandGuard.execToStream(connection, buildPackStreamCommand(remoteFile.path), fs.createWriteStream(partPath), {
+            description: `Download as archive: ${remoteFile.name}`,
+            detail: localPath,
+            cancellable: true,
+            onCancel: () => abort.abort(),
+            signal: abort.signal,
+          });
+        }
+      );
+      await fs.promises.rename(partPath, localPath);
+    } catch (error) {
+      await fs.promises.rm(partPath, { force: true }).catch(() => undefined);
+      const err = error as Error;
+      if (err.message === 'Cancelled') {
+        return;
+      }
+      audit(false, undefined, err.message);
+      vscode.window.showErrorMessage(`Failed to download ${remoteFile.name} as archive: ${err.message}`);
+      return;
+    }
+    audit(true, bytes);
+
+    const choice = await vscode.window.showInformationMessage(
+      `Downloaded ${path.basename(localPath)} (${formatFileSize(bytes)})`,
+      'Extract Here'
+    );
+    if (choice !== 'Extract Here') {
+      return;
+    }
+    const targetDir = path.dirname(localPath);
+    if (remoteFile.name && fs.existsSync(path.join(targetDir, remoteFile.name))) {
+      const merge = await vscode.window.showWarningMessage(
+        `${remoteFile.name} already exists in ${targetDir}. Files with the same name will be replaced.`,
+        { modal: true },
+        'Extract Anyway'
+      );
+      if (merge !== 'Extract Anyway') {
+        return;
+      }
+    }
+    try {
+      await this.runLocalTar(['xzf', localPath, '-C', targetDir]);
+      vscode.window.setStatusBarMessage(`$(check) Extracted ${path.basename(localPath)}`, 3000);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to extract ${path.basename(localPath)}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Upload a local folder into `remoteDir` as one stream: the local `tar czf -`
+   * piped over a single exec channel into `tar xzf -` on the server.
+   */
+  async uploadFolderAsArchive(connection: SSHConnection, remoteDir: string): Promise<boolean> {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectFolders: true,
+      canSelectFiles: false,
+      canSelectMany: false,
+      openLabel: 'Upload as Archive',
+    });
+    if (!picked || picked.length === 0) {
+      return false;
+    }
+    if (picked[0].scheme !== 'file') {
+      vscode.window.showErrorMessage('Upload Folder as Archive needs a folder on this machine.');
+      return false;
+    }
+
+    const localPath = picked[0].fsPath;
+    const name = path.basename(localPath);
+    const remotePath = path.posix.join(remoteDir, name);
+    if (await connection.fileExists(remotePath)) {
+      const merge = await vscode.window.showWarningMessage(
+        `${name} already exists in ${remoteDir}. Files with the same name will be replaced.`,
+        { modal: true },
+        'Upload Anyway'
+      );
+      if (merge !== 'Upload Anyway') {
+        return false;
+      }
+    }
+
+    const abort = new AbortController();
+    const tar = spawn('tar', ['czf', '-', '-C', path.dirname(localPath), `./${name}`], { windowsHide: true });
+    let tarError = '';
+    tar.stderr?.on('data', (d) => { tarError += d.toString(); });
+    const tarExit = new Promise<string | undefined>((resolve) => {
+      tar.on('error', (err) => resolve(`tar failed to start: ${err.message}`));
+      tar.on('close', (code) => resolve(code === 0 ? undefined : `local tar exited ${code}: ${tarError.trim()}`));
+    });
+    const audit = (success: boolean, fileSize?: number, error?: string): void => {
+      this.auditService.log({
+        action: 'upload',
+        connectionId: connection.id,
+        hostName: connection.host.name,
+        username: connection.host.username,
+        remotePath,
+        localPath,
+        fileSize,
+        detail: 'tar.gz archive',
+        success,
+        error,
+      });
+    };
+
+    try {
+      const bytes = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Uploading ${name} as archive`, cancellable: true },
+        (_progress, token) => {
+          token.onCancellationRequested(() => abort.abort());
+          return this.commandGuard.execFromStream(connection, buildUnpackStreamCommand(remoteDir), tar.stdout, {
+            description: `Upload as archive: ${name}`,
+            detail: remotePath,
+            cancellable: true,
+            onCancel: () => abort.abort(),
+            signal: abort.signal,
+          });
+        }
+      );
+      // A file tar could not read still ends the stream cleanly; its exit code tells
+      const localFailure = await tarExit;
+      if (localFailure) {
+        throw new Error(localFailure);
+      }
+      audit(true, bytes);
+      vscode.window.setStatusBarMessage(`$(check) Uploaded ${name} (${formatFileSize(bytes)} compressed)`, 3000);
+      return true;
+    } catch (error) {
+      // tar still running means the upload failed on its own; its exit would
+      // then only report our kill, so the upload's error is the one to show
+      const killedTar = tar.exitCode === null && tar.signalCode === null;
+      if (killedTar) {
+        tar.kill();
+      }
+      const err = error as Error;
+      if (err.message === 'Cancelled') {
+        return false;
+      }
+      const message = killedTar ? err.message : (await tarExit) ?? err.message;
+      audit(false, undefined, message);
+      vscode.window.showErrorMessage(`Failed to upload ${name} as archive: ${message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Run the local `tar` (bundled with Windows 10+, macOS and Linux)
+   */
+  private runLocalTar(args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const proc = spawn('tar', args, { windowsHide: true });
+      let stderr = '';
+      proc.stderr?.on('data', (d) => { stderr += d.toString(); });
+      proc.on('error', (err) => reject(new Error(`tar failed to start: ${err.message}`)));
+      proc.on('close', (code) => {
+        if (code !== 0) {
+          reject(new Error(`tar exited ${code}: ${stderr.trim()}`));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
   /**
    * Copy a remote file or folder on the same host.
    * Runs `cp -r` over the SSH channel; paths are single-quote escaped.
@@ -4635,6 +5460,7 @@ export class FileService {
         localPath: destPath,
         success: true,
       });
+      this.recordCopy(connection, destPath, isDirectory);
     } catch (error) {
       const err = error as Error;
       if (this.isPermissionDenied(err) && !connection.sudoMode && connection.capabilities.supportsSudo) {
@@ -4664,6 +5490,13 @@ export class FileService {
     }
   }
 
+  /** Make a pasted copy undoable; Undo needs a shell to put it aside */
+  private recordCopy(connection: SSHConnection, destPath: string, isDirectory: boolean): void {
+    if (connection.capabilities.supportsServerBackup) {
+      this.undoService.record(connection, { kind: 'copy', path: destPath, isDirectory, backupFolder: SERVER_BACKUP_FOLDER });
+    }
+  }
+
   /**
    * Compute a non-conflicting destination name when pasting into a folder that already
    * contains an entry with the same name. Produces "name (copy).ext", "name (copy) 2.ext", etc.
@@ -4699,7 +5532,8 @@ export class FileService {
   async moveRemoteSameHost(
     connection: SSHConnection,
     srcPath: string,
-    destPath: string
+    destPath: string,
+    isDirectory = false
   ): Promise<void> {
     try {
       await connection.rename(srcPath, destPath);
@@ -4712,6 +5546,7 @@ export class FileService {
         localPath: destPath,
         success: true,
       });
+      this.undoService.record(connection, { kind: 'move', from: srcPath, to: destPath, isDirectory });
     } catch (error) {
       const err = error as Error;
       if (this.isPermissionDenied(err) && !connection.sudoMode && connection.capabilities.supportsSudo) {
@@ -4743,7 +5578,9 @@ export class FileService {
 
   /**
    * Copy a remote file or folder across two hosts.
-   * Streams via SFTP read → SFTP write, recursing into folders. No local temp files.
+   * Server to server when the source can reach the destination (see
+   * resolveDirectCopy); otherwise streamed SFTP read → SFTP write through this
+   * machine, recursing into folders. No local temp files, no whole-file buffers.
    */
   async copyRemoteCrossHost(
     srcConn: SSHConnection,
@@ -4754,10 +5591,11 @@ export class FileService {
     token?: vscode.CancellationToken
   ): Promise<void> {
     try {
-      if (isDirectory) {
-        await this.copyFolderCrossHost(srcConn, srcPath, destConn, destPath, token);
+      const tool = await this.resolveDirectCopy(srcConn, destConn);
+      if (tool) {
+        await this.copyDirect(tool, srcConn, srcPath, destConn, destPath, isDirectory, token);
       } else {
-        await this.copyFileCrossHost(srcConn, srcPath, destConn, destPath, token);
+        await this.relayCrossHost(srcConn, srcPath, destConn, destPath, isDirectory, token);
       }
       this.auditService.log({
         action: 'copy',
@@ -4768,6 +5606,7 @@ export class FileService {
         localPath: `${destConn.host.name}:${destPath}`,
         success: true,
       });
+      this.recordCopy(destConn, destPath, isDirectory);
     } catch (error) {
       const err = error as Error;
       this.auditService.log({
@@ -4784,18 +5623,192 @@ export class FileService {
   }
 
   /**
-   * Copy a single file across two hosts by reading into memory then writing.
+   * Whether to copy server to server, and with which tool. Needs shell access
+   * on both ends, no sudo on the source (its ssh would run as root, with
+   * root's keys), and a successful probe from the source to the destination.
+   * `crossHostCopyMode: ask` asks once per host pair per session, before the
+   * probe: nothing runs on the source until the user picks direct copy.
    */
-  private async copyFileCrossHost(
+  private async resolveDirectCopy(srcConn: SSHConnection, destConn: SSHConnection): Promise<DirectCopyTool | undefined> {
+    const mode = vscode.workspace.getConfiguration('sshLite').get<string>('crossHostCopyMode', 'ask');
+    if (mode === 'relay' || srcConn.sudoMode || !isSSHConnection(srcConn) || !isSSHConnection(destConn)) {
+      return undefined;
+    }
+    const key = `${srcConn.id}->${destConn.id}`;
+
+    if (mode === 'ask') {
+      let direct = this.directCopyChoices.get(key);
+      if (direct === undefined) {
+        const choice = await vscode.window.showInformationMessage(
+          `Copy server to server from ${srcConn.host.name} to ${destConn.host.name}?`,
+          {
+            modal: true,
+            detail: `If ${srcConn.host.name} can log in to ${destConn.host.name} over SSH, the data goes straight ` +
+              'from one server to the other instead of through this machine.',
+          },
+          'Copy Directly',
+          'Always Copy Directly',
+          'Through This Machine'
+        );
+        if (!choice) {
+          return undefined;
+        }
+        if (choice === 'Always Copy Directly') {
+          await vscode.workspace.getConfiguration('sshLite').update('crossHostCopyMode', 'direct', vscode.ConfigurationTarget.Global);
+        }
+        direct = choice !== 'Through This Machine';
+        this.directCopyChoices.set(key, direct);
+      }
+      if (!direct) {
+        return undefined;
+      }
+    }
+
+    let probe = this.directCopyProbes.get(key);
+    if (!probe) {
+      probe = this.commandGuard
+        .exec(srcConn, buildProbeCommand(destConn.host), {
+          type: 'copy',
+          description: `Copy: check ${srcConn.host.name} → ${destConn.host.name}`,
+        })
+        .then(parseProbeResult, () => undefined);
+      this.directCopyProbes.set(key, probe);
+    }
+    const tool = await probe;
+    infoLog('file-service', 'copy/direct-probe', { src: srcConn.host.name, dest: destConn.host.name, tool: tool ?? 'none' });
+    if (!tool) {
+      // Only a working route is remembered: keys or a host that is down now may be fixed by the next copy
+      if (this.directCopyProbes.get(key) === probe) {
+        this.directCopyProbes.delete(key);
+      }
+      vscode.window.setStatusBarMessage(
+        `$(info) ${srcConn.host.name} cannot reach ${destConn.host.name} over SSH; copying through this machine`,
+        5000
+      );
+    }
+    return tool;
+  }
+
+  /**
+   * Copy by running rsync/ssh on the source host. Cancelling (the token or
+   * the Activity panel) stops the command and removes what reached the
+   * destination.
+   */
+  private async copyDirect(
+    tool: DirectCopyTool,
     srcConn: SSHConnection,
     srcPath: string,
     destConn: SSHConnection,
     destPath: string,
+    isDirectory: boolean,
     token?: vscode.CancellationToken
   ): Promise<void> {
     if (token?.isCancellationRequested) {
       throw new Error('Cancelled');
     }
+    const result = await this.commandGuard.execDetailed(
+      srcConn,
+      buildDirectCopyCommand(tool, srcPath, destConn.host, destPath, isDirectory),
+      {
+        type: 'copy',
+        description: `Copy ${path.posix.basename(srcPath)} → ${destConn.host.name} (server to server)`,
+        detail: `${tool === 'rsync' ? 'rsync' : 'ssh'} from ${srcConn.host.name}`,
+        token,
+      }
+    );
+    if (result.cancelled) {
+      await this.deleteRemotePath(destConn, destPath, isDirectory).catch((error) => {
+        infoLog('file-service', 'copy/direct-cleanup-failed', { dest: destConn.host.name, destPath, error: (error as Error).message });
+      });
+      throw new Error('Cancelled');
+    }
+    const { code, message } = parseDirectCopyResult(result.stdout);
+    if (code !== 0) {
+      throw new Error(`Server-to-server copy failed (exit code ${code})${message ? `: ${message}` : ''}`);
+    }
+    if (!isDirectory) {
+      const srcStat = await srcConn.stat(srcPath);
+      await this.verifyCopiedSize(destConn, destPath, srcStat.size);
+    }
+  }
+
+  /**
+   * Copy through this machine. SSH on both ends streams with progress in the
+   * Activity panel; FTP falls back to the buffered per-file copy.
+   */
+  private async relayCrossHost(
+    srcConn: SSHConnection,
+    srcPath: string,
+    destConn: SSHConnection,
+    destPath: string,
+    isDirectory: boolean,
+    token?: vscode.CancellationToken
+  ): Promise<void> {
+    if (!isSSHConnection(srcConn) || !isSSHConnection(destConn)) {
+      if (isDirectory) {
+        await this.copyFolderCrossHost(srcConn, srcPath, destConn, destPath, token);
+      } else {
+        await this.copyFileCrossHost(srcConn, srcPath, destConn, destPath, token);
+      }
+      return;
+    }
+
+    const activityService = ActivityService.getInstance();
+    const abort = new AbortController();
+    const state: CrossHostCopyState = {
+      activityId: activityService.startActivity(
+        'copy',
+        srcConn.id,
+        srcConn.host.name,
+        `Copy ${path.posix.basename(srcPath)} → ${destConn.host.name}`,
+        { detail: destPath, cancellable: true, onCancel: () => abort.abort() }
+      ),
+      abort,
+      isDirectory,
+      bytes: 0,
+      files: 0,
+      lastReport: 0,
+    };
+    const subscription = token?.onCancellationRequested(() => abort.abort());
+    try {
+      if (isDirectory) {
+        await this.copyFolderCrossHost(srcConn, srcPath, destConn, destPath, token, state);
+        activityService.completeActivity(state.activityId, `${state.files} files, ${formatFileSize(state.bytes)}`);
+      } else {
+        await this.copyFileCrossHost(srcConn, srcPath, destConn, destPath, token, state);
+        activityService.completeActivity(state.activityId, formatFileSize(state.bytes));
+      }
+    } catch (error) {
+      if ((error as Error).message === 'Cancelled') {
+        activityService.cancelActivity(state.activityId);
+      } else {
+        activityService.failActivity(state.activityId, (error as Error).message);
+      }
+      throw error;
+    } finally {
+      subscription?.dispose();
+    }
+  }
+
+  /**
+   * Copy a single file across two hosts. With a copy state it streams (see
+   * streamFileCrossHost); without one (FTP) it reads into memory then writes.
+   */
+  private async copyFileCrossHost(
+    srcConn: SSHConnection,
+    srcPath: string,
+    destConn: SSHConnection,
+    destPath: string,
+    token?: vscode.CancellationToken,
+    state?: CrossHostCopyState
+  ): Promise<void> {
+    if (token?.isCancellationRequested || state?.abort.signal.aborted) {
+      throw new Error('Cancelled');
+    }
+    if (state) {
+      await this.streamFileCrossHost(srcConn, srcPath, destConn, destPath, state);
+      return;
+    }
     const buffer = await srcConn.readFile(srcPath);
     if (token?.isCancellationRequested) {
       throw new Error('Cancelled');
@@ -4803,6 +5816,79 @@ export class FileService {
     await destConn.writeFile(destPath, buffer);
   }
 
+  /**
+   * Pipe an SFTP read stream into an SFTP write stream. pipeline() handles
+   * backpressure, so memory stays at a few chunks whatever the file size.
+   * A cancelled, failed or short copy removes the partial destination file.
+   */
+  private async streamFileCrossHost(
+    srcConn: SSHConnection,
+    srcPath: string,
+    destConn: SSHConnection,
+    destPath: string,
+    state: CrossHostCopyState
+  ): Promise<void> {
+    const { size } = await srcConn.stat(srcPath);
+    if (!state.isDirectory) {
+      state.totalBytes = size;
+    }
+    const source = await srcConn.openReadStream(srcPath);
+    const target = await destConn.openWriteStream(destPath);
+    const meter = new Transform({
+      transform: (chunk: Buffer, _encoding, done) => {
+        state.bytes += chunk.length;
+        this.reportCrossHostProgress(state);
+        done(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(source, meter, target, { signal: state.abort.signal });
+    } catch (error) {
+      await destConn.deleteFile(destPath).catch(() => undefined);
+      throw state.abort.signal.aborted ? new Error('Cancelled') : error;
+    }
+    await this.verifyCopiedSize(destConn, destPath, size);
+    state.files++;
+    this.reportCrossHostProgress(state, true);
+  }
+
+  /**
+   * Compare the copied file's size with the source's; on a mismatch remove
+   * the truncated copy so it cannot pass for the real thing.
+   */
+  private async verifyCopiedSize(destConn: SSHConnection, destPath: string, expected: number): Promise<void> {
+    const { size } = await destConn.stat(destPath);
+    if (size !== expected) {
+      await destConn.deleteFile(destPath).catch(() => undefined);
+      throw new Error(
+        `Copy of ${path.posix.basename(destPath)} is incomplete: ${formatFileSize(size)} of ${formatFileSize(expected)}`
+      );
+    }
+  }
+
+  /**
+   * Push copy progress to the Activity panel, at most twice a second: percent
+   * when the total is known (single file), otherwise files and bytes so far.
+   */
+  private reportCrossHostProgress(state: CrossHostCopyState, force = false): void {
+    const now = Date.now();
+    if (!force && now - state.lastReport < 500) {
+      return;
+    }
+    state.lastReport = now;
+    const activityService = ActivityService.getInstance();
+    if (state.totalBytes) {
+      activityService.updateProgress(
+        state.activityId,
+        Math.round((state.bytes / state.totalBytes) * 100),
+        `${formatFileSize(state.bytes)} of ${formatFileSize(state.totalBytes)}`
+      );
+    } else {
+      activityService.updateDetail(state.activityId, `${state.files} files, ${formatFileSize(state.bytes)}`);
+    }
+  }
+
   /**
    * Recursively copy a folder across two hosts.
    */
@@ -4811,9 +5897,10 @@ export class FileService {
     srcPath: string,
     destConn: SSHConnection,
     destPath: string,
-    token?: vscode.CancellationToken
+    token?: vscode.CancellationToken,
+    state?: CrossHostCopyState
   ): Promise<void> {
-    if (token?.isCancellationRequested) {
+    if (token?.isCancellationRequested || state?.abort.signal.aborted) {
       throw new Error('Cancelled');
     }
     try {
@@ -4827,15 +5914,21 @@ export class FileService {
 
     const entries = await srcConn.listFiles(srcPath);
     for (const entry of entries) {
-      if (token?.isCancellationRequested) {
+      if (token?.isCancellationRequested || state?.abort.signal.aborted) {
         throw new Error('Cancelled');
       }
       const childSrc = `${srcPath}/${entry.name}`;
       const childDest = `${destPath}/${entry.name}`;
-      if (entry.isDirectory) {
-        await this.copyFolderCrossHost(srcConn, childSrc, destConn, childDest, token);
+      if (entry.isSymlink && entry.linkTarget !== undefined && destConn.capabilities.type !== 'ftp') {
+        // Copy the link as a link, never the tree it points at (`a -> ..` would not end)
+        await destConn.symlink(entry.linkTarget, childDest);
+      } else if (entry.isSymlink && entry.isDirectory) {
+        // FTP cannot hold a link: leave a linked folder out rather than follow it
+        continue;
+      } else if (entry.isDirectory) {
+        await this.copyFolderCrossHost(srcConn, childSrc, destConn, childDest, token, state);
       } else {
-        await this.copyFileCrossHost(srcConn, childSrc, destConn, childDest, token);
+        await this.copyFileCrossHost(srcConn, childSrc, destConn, childDest, token, state);
       }
     }
   }
@@ -7,6 +7,10 @@
  * not be reached by the raw `fs` module (or read from the wrong host). Mirror
  * of FileService.downloadUri.test.ts. See .adn/lessons.md
  * "2026-05-22 — fs.writeFileSync(uri.fsPath, …) is unsafe …".
+ *
+ * Over SSH the transfer queue writes a remote part file range by range. A
+ * `file:` URI is read in ranges with fs.createReadStream (the only scheme
+ * whose fsPath is real); every other scheme is read through workspace.fs.
  */
 
 jest.mock('fs', () => ({
@@ -18,6 +22,7 @@ jest.mock('fs', () => ({
   unlinkSync: jest.fn(),
   statSync: jest.fn().mockReturnValue({ size: 999, mtimeMs: Date.now(), isDirectory: () => false }),
   rmdirSync: jest.fn(),
+  createReadStream: jest.fn(),
 }));
 
 jest.mock('os', () => ({
@@ -30,7 +35,11 @@ var mockConnection = {
   id: 'test-host:22:testuser',
   host: { name: 'Test Server', host: 'test-host', port: 22, username: 'testuser' },
   state: 'connected',
+  capabilities: { type: 'ssh', supportsExec: true },
   writeFile: jest.fn().mockResolvedValue(undefined),
+  writeFileAt: jest.fn().mockResolvedValue(undefined),
+  replaceFile: jest.fn().mockResolvedValue(undefined),
+  fileExists: jest.fn().mockResolvedValue(false),
   readFile: jest.fn().mockResolvedValue(Buffer.from('downloaded-bytes')),
   listFiles: jest.fn().mockResolvedValue([]),
   exec: jest.fn().mockResolvedValue(''),
@@ -42,7 +51,7 @@ var mockConnection = {
 jest.mock('../connection/ConnectionManager', () => ({
   ConnectionManager: {
     getInstance: jest.fn().mockReturnValue({
-      getConnection: jest.fn().mockReturnValue(mockConnection),
+      getConnection: jest.fn(() => mockConnection),
       getAllConnections: jest.fn().mockReturnValue([mockConnection]),
       onDidChangeConnections: jest.fn().mockReturnValue({ dispose: jest.fn() }),
     }),
@@ -117,6 +126,7 @@ jest.mock('./CommandGuard', () => ({
 }));
 
 import * as fs from 'fs';
+import { Readable } from 'stream';
 import * as vscode from 'vscode';
 import { FileService } from './FileService';
 
@@ -138,7 +148,15 @@ describe('FileService upload — URI-scheme-safe reads (v0.8.18 regression net)'
     service = resetFileService();
     (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(Buffer.from('local-bytes'));
     (vscode.workspace.fs.stat as jest.Mock).mockResolvedValue({ size: 11 });
-    mockConnection.writeFile.mockResolvedValue(undefined);
+    mockConnection.writeFileAt.mockResolvedValue(undefined);
+    (fs.createReadStream as jest.Mock).mockImplementation(() => Readable.from([Buffer.from('local-bytes')]));
+  });
+
+  /** Bytes written to the remote part file, and the path it was moved to */
+  const uploaded = () => ({
+    part: mockConnection.writeFileAt.mock.calls[0]?.[0],
+    bytes: Buffer.concat(mockConnection.writeFileAt.mock.calls.map((c) => c[1])).toString(),
+    target: mockConnection.replaceFile.mock.calls[0]?.[1],
   });
 
   afterEach(() => {
@@ -149,22 +167,18 @@ describe('FileService upload — URI-scheme-safe reads (v0.8.18 regression net)'
     }
   });
 
-  it('reads the selected file via vscode.workspace.fs.readFile when scheme=file:', async () => {
+  it('streams a file: pick in ranges from its fsPath into a remote part file', async () => {
     const pickUri = vscode.Uri.file('/home/test/foo.bin');
     (vscode.window.showOpenDialog as jest.Mock).mockResolvedValueOnce([pickUri]);
 
     await service.uploadFileTo(mockConnection as any, '/remote/dir');
 
-    expect(vscode.workspace.fs.readFile).toHaveBeenCalledTimes(1);
-    expect((vscode.workspace.fs.readFile as jest.Mock).mock.calls[0][0]).toBe(pickUri);
-
-    // Bytes flow from the URI read straight to the remote write.
-    expect(mockConnection.writeFile).toHaveBeenCalledTimes(1);
-    const [remotePath, buf] = mockConnection.writeFile.mock.calls[0];
-    expect(remotePath).toBe('/remote/dir/foo.bin');
-    expect(Buffer.from(buf).toString()).toBe('local-bytes');
+    expect(fs.createReadStream).toHaveBeenCalledWith(pickUri.fsPath, expect.objectContaining({ start: 0 }));
+    expect(vscode.workspace.fs.readFile).not.toHaveBeenCalled();
+    // Bytes flow from the ranged read straight to the remote part file, then into place.
+    expect(uploaded()).toEqual({ part: '/remote/dir/foo.bin.sshlite-part', bytes: 'local-bytes', target: '/remote/dir/foo.bin' });
 
-    // Critical: raw fs must never touch the dialog return value.
+    // Whole-file raw fs reads never happen.
     expect(fs.readFileSync as jest.Mock).not.toHaveBeenCalled();
     expect(fs.statSync as jest.Mock).not.toHaveBeenCalledWith(pickUri.fsPath);
   });
@@ -180,8 +194,8 @@ describe('FileService upload — URI-scheme-safe reads (v0.8.18 regression net)'
     expect(calledUri.scheme).toBe('vscode-remote');
     expect(calledUri.path).toBe('/home/userA/report.pdf');
 
-    expect(mockConnection.writeFile).toHaveBeenCalledTimes(1);
-    expect(mockConnection.writeFile.mock.calls[0][0]).toBe('/remote/dir/report.pdf');
+    expect(uploaded()).toEqual({ part: '/remote/dir/report.pdf.sshlite-part', bytes: 'local-bytes', target: '/remote/dir/report.pdf' });
+    expect(fs.createReadStream as jest.Mock).not.toHaveBeenCalled();
     expect(fs.readFileSync as jest.Mock).not.toHaveBeenCalled();
   });
 
@@ -193,7 +207,8 @@ describe('FileService upload — URI-scheme-safe reads (v0.8.18 regression net)'
 
     expect(vscode.workspace.fs.readFile).toHaveBeenCalledTimes(1);
     expect((vscode.workspace.fs.readFile as jest.Mock).mock.calls[0][0].scheme).toBe('mem');
-    expect(mockConnection.writeFile.mock.calls[0][0]).toBe('/remote/dir/blob.dat');
+    expect(uploaded().target).toBe('/remote/dir/blob.dat');
+    expect(fs.createReadStream as jest.Mock).not.toHaveBeenCalled();
     expect(fs.readFileSync as jest.Mock).not.toHaveBeenCalled();
   });
 
@@ -203,7 +218,8 @@ describe('FileService upload — URI-scheme-safe reads (v0.8.18 regression net)'
     await service.uploadFileTo(mockConnection as any, '/remote/dir');
 
     expect(vscode.workspace.fs.readFile).not.toHaveBeenCalled();
-    expect(mockConnection.writeFile).not.toHaveBeenCalled();
+    expect(fs.createReadStream as jest.Mock).not.toHaveBeenCalled();
+    expect(mockConnection.writeFileAt).not.toHaveBeenCalled();
     expect(fs.readFileSync as jest.Mock).not.toHaveBeenCalled();
   });
 
@@ -227,14 +243,17 @@ describe('FileService upload — URI-scheme-safe reads (v0.8.18 regression net)'
   it('surfaces an error and does not upload when the read fails', async () => {
     const pickUri = vscode.Uri.file('/home/test/gone.bin');
     (vscode.window.showOpenDialog as jest.Mock).mockResolvedValueOnce([pickUri]);
-    (vscode.workspace.fs.readFile as jest.Mock).mockRejectedValueOnce(new Error('FileNotFound'));
+    (fs.createReadStream as jest.Mock).mockImplementationOnce(() => new Readable({
+      read() { this.destroy(new Error('FileNotFound')); },
+    }));
 
     // Must not throw out of the method (would become an unhandled rejection).
     await expect(service.uploadFileTo(mockConnection as any, '/remote/dir')).resolves.toBeUndefined();
 
     expect(vscode.window.showErrorMessage).toHaveBeenCalledTimes(1);
     expect((vscode.window.showErrorMessage as jest.Mock).mock.calls[0][0]).toContain('FileNotFound');
-    expect(mockConnection.writeFile).not.toHaveBeenCalled();
+    expect(mockConnection.writeFileAt).not.toHaveBeenCalled();
+    expect(mockConnection.replaceFile).not.toHaveBeenCalled();
   });
 
   it('decodes a percent-encoded leaf name for the remote path', async () => {
@@ -244,8 +263,7 @@ describe('FileService upload — URI-scheme-safe reads (v0.8.18 regression net)'
 
     await service.uploadFileTo(mockConnection as any, '/remote/dir');
 
-    expect(mockConnection.writeFile).toHaveBeenCalledTimes(1);
-    expect(mockConnection.writeFile.mock.calls[0][0]).toBe('/remote/dir/my report.pdf');
+    expect(uploaded().target).toBe('/remote/dir/my report.pdf');
   });
 
   it('preserves a literal percent in a file: leaf name (no throw on bad encoding)', async () => {
@@ -254,7 +272,6 @@ describe('FileService upload — URI-scheme-safe reads (v0.8.18 regression net)'
 
     await service.uploadFileTo(mockConnection as any, '/remote/dir');
 
-    expect(mockConnection.writeFile).toHaveBeenCalledTimes(1);
-    expect(mockConnection.writeFile.mock.calls[0][0]).toBe('/remote/dir/100%.txt');
+    expect(uploaded().target).toBe('/remote/dir/100%.txt');
   });
 });
@@ -0,0 +1,350 @@
+/**
+ * FolderCompareService tests
+ *
+ * Scans come from a mocked FolderSyncService (the scanners have their own
+ * tests); the servers answer through a mocked CommandGuard and in-memory
+ * SFTP streams, local files through a temp folder.
+ */
+
+var mockExec = jest.fn();
+var mockGuardRead = jest.fn();
+var mockGuardWrite = jest.fn().mockResolvedValue(undefined);
+var mockAuditLog = jest.fn();
+var mockScanRemote = jest.fn();
+var mockScanLocal = jest.fn();
+var mockDiffFiles = jest.fn().mockResolvedValue(undefined);
+var mockStartActivity = jest.fn().mockReturnValue('act-1');
+var mockCompleteActivity = jest.fn();
+var mockCancelActivity = jest.fn();
+
+jest.mock('./CommandGuard', () => ({
+  CommandGuard: {
+    getInstance: jest.fn().mockReturnValue({
+      exec: (...a: unknown[]) => mockExec(...a),
+      readFile: (...a: unknown[]) => mockGuardRead(...a),
+      writeFile: (...a: unknown[]) => mockGuardWrite(...a),
+    }),
+  },
+}));
+jest.mock('./ActivityService', () => ({
+  ActivityService: {
+    getInstance: jest.fn().mockImplementation(() => ({
+      startActivity: mockStartActivity,
+      completeActivity: mockCompleteActivity,
+      cancelActivity: mockCancelActivity,
+      failActivity: jest.fn(),
+      updateProgress: jest.fn(),
+    })),
+  },
+}));
+jest.mock('./AuditService', () => ({
+  AuditService: { getInstance: jest.fn().mockReturnValue({ log: (...a: unknown[]) => mockAuditLog(...a) }) },
+}));
+jest.mock('./FolderSyncService', () => ({
+  FolderSyncService: {
+    getInstance: jest.fn().mockReturnValue({
+      scanRemote: (...a: unknown[]) => mockScanRemote(...a),
+      scanLocal: (...a: unknown[]) => mockScanLocal(...a),
+    }),
+  },
+}));
+jest.mock('./RemoteDiffService', () => ({
+  RemoteDiffService: { getInstance: jest.fn().mockReturnValue({ diffFiles: (...a: unknown[]) => mockDiffFiles(...a) }) },
+}));
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable, Writable } from 'stream';
+import { CompareSide, FolderCompareService } from './FolderCompareService';
+import { ISyncFileState } from '../types';
+
+const T = 1_700_000_000_000;
+
+/** A server whose SFTP streams read from and write to `files` */
+function makeConnection(name: string, supportsExec = true) {
+  const files = new Map<string, Buffer>();
+  return {
+    id: `${name}:22:deploy`,
+    host: { name, host: name, port: 22, username: 'deploy' },
+    capabilities: { type: 'ssh', supportsExec },
+    sudoMode: false,
+    files,
+    fileExists: jest.fn().mockResolvedValue(true),
+    mkdir: jest.fn().mockResolvedValue(undefined),
+    deleteFile: jest.fn().mockResolvedValue(undefined),
+    setModifiedTime: jest.fn().mockResolvedValue(undefined),
+    openReadStream: jest.fn(async (p: string) => Readable.from([files.get(p) ?? Buffer.from('data')])),
+    openWriteStream: jest.fn(async (p: string) => {
+      const chunks: Buffer[] = [];
+      return new Writable({
+        write(chunk: Buffer, _encoding, done) { chunks.push(chunk); done(); },
+        final(done) { files.set(p, Buffer.concat(chunks)); done(); },
+      });
+    }),
+  };
+}
+
+function tree(entries: Array<[string, number, number?]>): Map<string, ISyncFileState> {
+  return new Map(entries.map(([rel, size, mtime]) => [rel, { size, mtime: mtime ?? T }]));
+}
+
+function reset(): FolderCompareService {
+  (FolderCompareService as any)._instance = undefined;
+  return FolderCompareService.getInstance();
+}
+
+describe('FolderCompareService', () => {
+  let service: FolderCompareService;
+  let prod: ReturnType<typeof makeConnection>;
+  let staging: ReturnType<typeof makeConnection>;
+  let left: CompareSide;
+  let right: CompareSide;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = reset();
+    prod = makeConnection('prod');
+    staging = makeConnection('staging');
+    left = { connection: prod as any, path: '/var/www' };
+    right = { connection: staging as any, path: '/srv/www' };
+    mockExec.mockResolvedValue('');
+    mockScanRemote.mockImplementation(async (conn: { id: string }) =>
+      conn.id === prod.id
+        ? tree([['index.html', 10], ['app.js', 20], ['old.css', 5]])
+        : tree([['index.html', 10], ['app.js', 25], ['lib/new.js', 7]])
+    );
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  describe('compare', () => {
+    it('lists added, removed and modified files across two servers', async () => {
+      const onChange = jest.fn();
+      service.onDidChange(onChange);
+
+      const comparison = (await service.compare(left, right, 'mtime', ['node_modules']))!;
+
+      expect(mockScanRemote).toHaveBeenCalledWith(prod, '/var/www', ['node_modules'], { type: 'compare', label: 'Compare' });
+      expect(comparison.entries.map((e) => [e.path, e.status])).toEqual([
+        ['app.js', 'modified'],
+        ['lib/new.js', 'added'],
+        ['old.css', 'removed'],
+      ]);
+      expect(comparison.identical).toBe(1);
+      expect(service.getComparison()).toBe(comparison);
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('setContext', 'sshLite.hasFolderCompare', true);
+      expect(onChange).toHaveBeenCalled();
+    });
+
+    it('hashes same-size files on both servers in checksum mode', async () => {
+      mockScanRemote.mockImplementation(async (conn: { id: string }) =>
+        tree([['a.txt', 3, conn.id === prod.id ? T : T + 60_000], ['b.txt', 4, T]])
+      );
+      mockExec.mockImplementation(async (_conn: unknown, command: string) =>
+        command.startsWith("cd '/var/www'")
+          ? `${'1'.repeat(64)}  a.txt\n${'2'.repeat(64)}  b.txt\n`
+          : `${'1'.repeat(64)}  a.txt\n${'3'.repeat(64)}  b.txt\n`
+      );
+
+      const comparison = (await service.compare(left, right, 'checksum', []))!;
+
+      expect(mockExec).toHaveBeenCalledWith(prod, "cd '/var/www' && sha256sum -- 'a.txt' 'b.txt'", expect.objectContaining({ type: 'compare' }));
+      // a.txt: different mtime but same hash; b.txt: same mtime, different hash
+      expect(comparison.entries.map((e) => e.path)).toEqual(['b.txt']);
+      expect(comparison.checksumUnavailable).toBe(false);
+    });
+
+    it('falls back to size and time when a server has no shell', async () => {
+      right = { connection: makeConnection('ftp', false) as any, path: '/www' };
+
+      const comparison = (await service.compare(left, right, 'checksum', []))!;
+
+      expect(comparison.checksumUnavailable).toBe(true);
+      expect(mockExec).not.toHaveBeenCalled();
+    });
+
+    it('keeps the previous comparison when cancelled', async () => {
+      const previous = await service.compare(left, right, 'size', []);
+      (vscode.window.withProgress as jest.Mock).mockImplementationOnce(async (_options, task) =>
+        task({ report: jest.fn() }, { isCancellationRequested: true, onCancellationRequested: jest.fn() })
+      );
+
+      expect(await service.compare(left, right, 'checksum', [])).toBeUndefined();
+      expect(mockScanRemote).toHaveBeenCalledTimes(3);
+      expect(mockExec).not.toHaveBeenCalledWith(prod, expect.stringContaining('sha256sum'), expect.anything());
+      expect(service.getComparison()).toBe(previous);
+    });
+
+    it('clears the view context on close', async () => {
+      await service.compare(left, right, 'size', []);
+      service.clear();
+
+      expect(service.getComparison()).toBeUndefined();
+      expect(vscode.commands.executeCommand).toHaveBeenLastCalledWith('setContext', 'sshLite.hasFolderCompare', false);
+    });
+  });
+
+  describe('copy', () => {
+    it('streams left to right between servers, creating folders, and audits a copy', async () => {
+      const comparison = (await service.compare(left, right, 'mtime', []))!;
+      const modified = comparison.entries.find((e) => e.path === 'app.js')!;
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Copy');
+      prod.files.set('/var/www/app.js', Buffer.from('x'.repeat(20)));
+
+      const result = await service.copy([modified], 'toRight');
+
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        'Copy 1 file from prod:/var/www to staging:/srv/www?',
+        { modal: true, detail: '1 file will be overwritten.' },
+        'Copy'
+      );
+      expect(mockExec).toHaveBeenCalledWith(staging, "mkdir -p -- '/srv/www'", expect.anything());
+      expect(staging.files.get('/srv/www/app.js')?.toString()).toBe('x'.repeat(20));
+      expect(mockGuardRead).not.toHaveBeenCalled();
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'copy',
+        connectionId: staging.id,
+        remotePath: '/srv/www/app.js',
+        fileSize: 20,
+        detail: 'folder compare, from prod:/var/www',
+        success: true,
+      }));
+      expect(mockCompleteActivity).toHaveBeenCalledWith('act-1', '1/1 changes');
+      expect(result).toEqual({ copied: 1, deleted: 0, failed: [], cancelled: false });
+      expect(comparison.entries.map((e) => e.path)).toEqual(['lib/new.js', 'old.css']);
+      expect(comparison.identical).toBe(2);
+    });
+
+    it('gives the copy the source\'s modification time', async () => {
+      mockScanRemote.mockImplementation(async (conn: { id: string }) =>
+        conn.id === prod.id ? tree([['app.js', 20, T - 5000]]) : tree([['app.js', 25, T]])
+      );
+      const comparison = (await service.compare(left, right, 'mtime', []))!;
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Copy');
+
+      await service.copy(comparison.entries, 'toRight');
+
+      expect(staging.setModifiedTime).toHaveBeenCalledWith('/srv/www/app.js', T - 5000);
+    });
+
+    it('goes through CommandGuard on a server in sudo mode', async () => {
+      staging.sudoMode = true;
+      const comparison = (await service.compare(left, right, 'mtime', []))!;
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Copy');
+      mockGuardRead.mockResolvedValueOnce(Buffer.from('x'.repeat(20)));
+
+      await service.copy([comparison.entries[0]], 'toRight');
+
+      expect(mockGuardRead).toHaveBeenCalledWith(prod, '/var/www/app.js', expect.objectContaining({ type: 'compare' }));
+      expect(mockGuardWrite).toHaveBeenCalledWith(staging, '/srv/www/app.js', expect.any(Buffer), expect.anything());
+      expect(staging.openWriteStream).not.toHaveBeenCalled();
+      expect(staging.setModifiedTime).toHaveBeenCalledWith('/srv/www/app.js', T);
+    });
+
+    it('stops the file in flight when cancelled and removes the partial copy', async () => {
+      const comparison = (await service.compare(left, right, 'mtime', []))!;
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Copy Only');
+      // A source that never ends until the copy is cancelled
+      prod.openReadStream.mockImplementationOnce(async () => {
+        const stalled = new Readable({ read() { /* waits */ } });
+        stalled.push(Buffer.from('partial'));
+        setImmediate(() => mockStartActivity.mock.calls[0][4].onCancel());
+        return stalled;
+      });
+
+      const result = await service.copy([...comparison.entries], 'toRight');
+
+      expect(result).toMatchObject({ copied: 0, failed: [], cancelled: true });
+      expect(staging.deleteFile).toHaveBeenCalledWith('/srv/www/app.js');
+      expect(mockCancelActivity).toHaveBeenCalledWith('act-1');
+      expect(comparison.entries).toHaveLength(3);
+    });
+
+    it('deletes files only the target has when asked to', async () => {
+      const comparison = (await service.compare(left, right, 'mtime', []))!;
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Copy and Delete');
+
+      const result = await service.copy([...comparison.entries], 'toLeft');
+
+      // app.js and lib/new.js come from the right; old.css exists only on the left
+      expect(prod.files.get('/var/www/lib/new.js')?.toString()).toBe('data');
+      expect(mockExec).toHaveBeenCalledWith(prod, "rm -f -- '/var/www/old.css'", expect.anything());
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'delete', remotePath: '/var/www/old.css', success: true }));
+      expect(result).toMatchObject({ copied: 2, deleted: 1 });
+      expect(comparison.entries).toEqual([]);
+    });
+
+    it('keeps target-only files on "Copy Only"', async () => {
+      const comparison = (await service.compare(left, right, 'mtime', []))!;
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Copy Only');
+
+      const result = await service.copy([...comparison.entries], 'toLeft');
+
+      expect(mockExec).not.toHaveBeenCalledWith(prod, expect.stringContaining('rm -f'), expect.anything());
+      expect(result).toMatchObject({ copied: 2, deleted: 0 });
+      expect(comparison.entries.map((e) => e.path)).toEqual(['old.css']);
+    });
+
+    it('does nothing when the confirmation is dismissed', async () => {
+      const comparison = (await service.compare(left, right, 'mtime', []))!;
+
+      expect(await service.copy(comparison.entries, 'toRight')).toBeUndefined();
+      expect(prod.openReadStream).not.toHaveBeenCalled();
+      expect(staging.openWriteStream).not.toHaveBeenCalled();
+    });
+
+    it('downloads into a local folder, keeping the time, and audits a download', async () => {
+      const localRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sshlite-compare-'));
+      try {
+        mockScanLocal.mockResolvedValue(tree([]));
+        const local: CompareSide = { path: localRoot };
+        const comparison = (await service.compare(left, local, 'mtime', []))!;
+        (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Copy');
+
+        await service.copy([comparison.entries[0]], 'toRight');
+
+        const copied = path.join(localRoot, 'app.js');
+        expect(fs.readFileSync(copied, 'utf8')).toBe('data');
+        expect(fs.statSync(copied).mtimeMs).toBe(T);
+        expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+          action: 'download',
+          remotePath: '/var/www/app.js',
+          localPath: copied,
+        }));
+      } finally {
+        fs.rmSync(localRoot, { recursive: true, force: true });
+      }
+    });
+
+    it('reports files that failed and leaves them in the comparison', async () => {
+      const comparison = (await service.compare(left, right, 'mtime', []))!;
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Copy');
+      prod.openReadStream.mockRejectedValueOnce(new Error('Permission denied'));
+
+      const result = await service.copy([comparison.entries[0]], 'toRight');
+
+      expect(result?.failed).toEqual([{ path: 'app.js', error: 'Permission denied' }]);
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        '1 of 1 changes to staging:/srv/www failed (app.js: Permission denied)'
+      );
+      expect(comparison.entries).toHaveLength(3);
+    });
+  });
+
+  it('diffs an entry with the missing side shown empty', async () => {
+    const comparison = (await service.compare(left, right, 'mtime', []))!;
+    const added = comparison.entries.find((e) => e.status === 'added')!;
+
+    await service.openDiff(added);
+
+    expect(mockDiffFiles).toHaveBeenCalledWith(
+      undefined,
+      { connection: staging, path: '/srv/www/lib/new.js' },
+      'lib/new.js (prod ↔ staging)'
+    );
+  });
+});
@@ -0,0 +1,576 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { SSHConnection } from '../connection/SSHConnection';
+import { CompareMode, ICompareEntry, ISyncFileState, isSftpConnection } from '../types';
+import { ActivityService } from './ActivityService';
+import { AuditAction, AuditService } from './AuditService';
+import { CommandGuard } from './CommandGuard';
+import { FolderSyncService } from './FolderSyncService';
+import { RemoteDiffService } from './RemoteDiffService';
+import { infoLog } from '../utils/diagnosticLog';
+import { compareTrees, summarizeComparison } from '../utils/folderCompare';
+import {
+  CHECKSUM_BATCH,
+  buildChecksumCommand,
+  buildRemoteDeleteCommand,
+  buildRemoteMkdirCommand,
+  checksumCandidates,
+  parseChecksums,
+} from '../utils/folderSync';
+
+const HAS_COMPARE_KEY = 'sshLite.hasFolderCompare';
+const HAS_SELECTION_KEY = 'sshLite.hasCompareSelection';
+
+/** One compared folder: on a server, or local (fsPath) when `connection` is absent */
+export interface CompareSide {
+  connection?: SSHConnection;
+  path: string;
+}
+
+/** The comparison shown in the Folder Compare view */
+export interface FolderComparison {
+  left: CompareSide;
+  right: CompareSide;
+  mode: CompareMode;
+  excludes: string[];
+  /** Differences still open; copying one removes it */
+  entries: ICompareEntry[];
+  /** Files that matched */
+  identical: number;
+  /** Checksums were asked for but a server has no shell; same-size files were compared by time */
+  checksumUnavailable: boolean;
+}
+
+export type CompareCopyDirection = 'toRight' | 'toLeft';
+
+/** What copying differences did */
+export interface CompareCopyResult {
+  copied: number;
+  deleted: number;
+  failed: Array<{ path: string; error: string }>;
+  cancelled: boolean;
+}
+
+/** `host:/path` for a remote side, the fsPath for a local one */
+export function describeSide(side: CompareSide): string {
+  return side.connection ? `${side.connection.host.name}:${side.path}` : side.path;
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+/**
+ * Compare two folders — remote/remote across any connections, or
+ * remote/local — and reconcile selected differences.
+ *
+ * Both trees are scanned with the folder sync scanners (one `find` over exec,
+ * or an SFTP walk), optionally hashing same-size files with `sha256sum`.
+ * One comparison is kept at a time and shown in the Folder Compare view;
+ * copying a difference across updates it in place. Copies stream from side to
+ * side and keep the source's modification time, so a re-compare by time
+ * finds them identical.
+ */
+export class FolderCompareService {
+  private static _instance: FolderCompareService;
+  private readonly commandGuard: CommandGuard;
+  private readonly auditService: AuditService;
+  private current: FolderComparison | undefined;
+  private selection: CompareSide | undefined;
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private constructor() {
+    this.commandGuard = CommandGuard.getInstance();
+    this.auditService = AuditService.getInstance();
+  }
+
+  static getInstance(): FolderCompareService {
+    if (!FolderCompareService._instance) {
+      FolderCompareService._instance = new FolderCompareService();
+    }
+    return FolderCompareService._instance;
+  }
+
+  getComparison(): FolderComparison | undefined {
+    return this.current;
+  }
+
+  /** Remember a folder for "Compare with Selected" */
+  selectForCompare(side: CompareSide): void {
+    this.selection = side;
+    void vscode.commands.executeCommand('setContext', HAS_SELECTION_KEY, true);
+  }
+
+  getSelection(): CompareSide | undefined {
+    return this.selection;
+  }
+
+  /**
+   * Scan both folders and show the differences, replacing any previous
+   * comparison. Undefined if the user cancelled (between scans or checksum
+   * batches); the previous comparison then stays.
+   */
+  async compare(left: CompareSide, right: CompareSide, mode: CompareMode, excludes: string[]): Promise<FolderComparison | undefined> {
+    const comparison = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Comparing folders...', cancellable: true },
+      async (progress, token): Promise<FolderComparison | undefined> => {
+        progress.report({ message: describeSide(left) });
+        const leftFiles = await this.scanSide(left, excludes);
+        if (token.isCancellationRequested) { return undefined; }
+        progress.report({ message: describeSide(right) });
+        const rightFiles = await this.scanSide(right, excludes);
+        if (token.isCancellationRequested) { return undefined; }
+
+        let checksumUnavailable = false;
+        if (mode === 'checksum') {
+          if (this.canHash(left) && this.canHash(right)) {
+            progress.report({ message: 'Comparing checksums...' });
+            const candidates = checksumCandidates(leftFiles, rightFiles);
+            await this.addChecksums(left, leftFiles, candidates, token);
+            await this.addChecksums(right, rightFiles, candidates, token);
+            if (token.isCancellationRequested) { return undefined; }
+          } else {
+            checksumUnavailable = true;
+          }
+        }
+
+        const { entries, identical } = compareTrees(leftFiles, rightFiles, mode);
+        return { left, right, mode, excludes, entries, identical, checksumUnavailable };
+      }
+    );
+    if (!comparison) {
+      infoLog('folder-compare', 'cancelled', { left: describeSide(left), right: describeSide(right) });
+      return undefined;
+    }
+
+    infoLog('folder-compare', 'compared', {
+      left: describeSide(left),
+      right: describeSide(right),
+      mode,
+      identical: comparison.identical,
+      summary: summarizeComparison(comparison.entries),
+    });
+    this.current = comparison;
+    void vscode.commands.executeCommand('setContext', HAS_COMPARE_KEY, true);
+    this._onDidChange.fire();
+    return comparison;
+  }
+
+  /** Re-scan the current comparison */
+  async refresh(): Promise<FolderComparison | undefined> {
+    const c = this.current;
+    return c ? this.compare(c.left, c.right, c.mode, c.excludes) : undefined;
+  }
+
+  clear(): void {
+    if (!this.current) {
+      return;
+    }
+    this.current = undefined;
+    void vscode.commands.executeCommand('setContext', HAS_COMPARE_KEY, false);
+    this._onDidChange.fire();
+  }
+
+  /** Diff one entry; the side it is missing from shows as an empty file */
+  async openDiff(entry: ICompareEntry): Promise<void> {
+    const c = this.current;
+    if (!c) {
+      return;
+    }
+    const source = (side: CompareSide, present: boolean) =>
+      present ? { connection: side.connection, path: this.pathOf(side, entry.path) } : undefined;
+    const sideName = (side: CompareSide) => side.connection?.host.name ?? 'local';
+    await RemoteDiffService.getInstance().diffFiles(
+      source(c.left, !!entry.left),
+      source(c.right, !!entry.right),
+      `${entry.path} (${sideName(c.left)} ↔ ${sideName(c.right)})`
+    );
+  }
+
+  /**
+   * Make the target side match the source for `entries`: files the source
+   * has are copied over (overwriting), and — if the user agrees — files only
+   * the target has are deleted there. Returns undefined if the user declined.
+   */
+  async copy(entries: ICompareEntry[], direction: CompareCopyDirection): Promise<CompareCopyResult | undefined> {
+    const c = this.current;
+    if (!c || entries.length === 0) {
+      return undefined;
+    }
+    const fromKey = direction === 'toRight' ? 'left' : 'right';
+    const from = direction === 'toRight' ? c.left : c.right;
+    const to = direction === 'toRight' ? c.right : c.left;
+    const copies = entries.filter((e) => e[fromKey]);
+    const orphans = entries.filter((e) => !e[fromKey]);
+
+    const deleteOrphans = await this.confirmCopy(from, to, copies, orphans);
+    if (deleteOrphans === undefined) {
+      return undefined;
+    }
+    const deletes = deleteOrphans ? orphans : [];
+    const total = copies.length + deletes.length;
+    if (total === 0) {
+      return undefined;
+    }
+
+    const result: CompareCopyResult = { copied: 0, deleted: 0, failed: [], cancelled: false };
+    const fail = (rel: string, error: unknown): void => {
+      const message = (error as Error).message ?? String(error);
+      result.failed.push({ path: rel, error: message });
+      infoLog('folder-compare', 'copy/item-failed', { path: rel, error: message });
+    };
+
+    // Cancelling (notification or Activity panel) also stops the file in flight
+    const abort = new AbortController();
+    const activityService = ActivityService.getInstance();
+    const server = to.connection ?? from.connection;
+    const activityId = server && activityService.startActivity('compare', server.id, server.host.name, `Compare: copy to ${describeSide(to)}`, {
+      detail: `${total} changes`,
+      cancellable: true,
+      onCancel: () => abort.abort(),
+    });
+
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Copying to ${describeSide(to)}`, cancellable: true },
+      async (progress, token) => {
+        token.onCancellationRequested(() => abort.abort());
+        let count = 0;
+        const step = (rel: string): boolean => {
+          if (abort.signal.aborted) {
+            result.cancelled = true;
+            return false;
+          }
+          count++;
+          progress.report({ increment: 100 / total, message: `${count}/${total} ${rel}` });
+          if (activityId) {
+            activityService.updateProgress(activityId, Math.round((count / total) * 100), `${count}/${total} ${rel}`);
+          }
+          return true;
+        };
+        const knownDirs = new Set<string>();
+
+        for (const entry of copies) {
+          if (!step(entry.path)) { break; }
+          try {
+            const bytes = await this.copyFile(from, to, entry.path, entry[fromKey]!.mtime, knownDirs, abort.signal);
+            this.audit(from, to, entry.path, true, undefined, bytes);
+            this.resolve(entry, true);
+            result.copied++;
+          } catch (error) {
+            if (abort.signal.aborted) {
+              result.cancelled = true;
+              break;
+            }
+            this.audit(from, to, entry.path, false, (error as Error).message);
+            fail(entry.path, error);
+          }
+        }
+
+        for (const entry of deletes) {
+          if (!step(entry.path)) { break; }
+          try {
+            await this.deleteSide(to, entry.path);
+            this.audit(undefined, to, entry.path, true);
+            this.resolve(entry, false);
+            result.deleted++;
+          } catch (error) {
+            this.audit(undefined, to, entry.path, false, (error as Error).message);
+            fail(entry.path, error);
+          }
+        }
+      }
+    );
+
+    this._onDidChange.fire();
+    infoLog('folder-compare', 'copy/done', { direction, copied: result.copied, deleted: result.deleted, failed: result.failed.length });
+    if (activityId) {
+      const detail = `${result.copied + result.deleted}/${total} changes`;
+      if (result.cancelled) {
+        activityService.cancelActivity(activityId);
+      } else if (result.failed.length > 0) {
+        activityService.failActivity(activityId, `${detail}, ${result.failed.length} failed`);
+      } else {
+        activityService.completeActivity(activityId, detail);
+      }
+    }
+
+    const done = [result.copied && `copied ${plural(result.copied, 'file')}`, result.deleted && `deleted ${result.deleted}`]
+      .filter(Boolean)
+      .join(', ');
+    if (result.failed.length > 0) {
+      const first = result.failed[0];
+      vscode.window.showErrorMessage(
+        `${result.failed.length} of ${total} changes to ${describeSide(to)} failed (${first.path}: ${first.error})`
+      );
+    } else if (result.cancelled) {
+      vscode.window.showWarningMessage(`Copy to ${describeSide(to)} cancelled after ${result.copied + result.deleted} of ${total} changes.`);
+    } else {
+      vscode.window.setStatusBarMessage(`$(check) ${describeSide(to)}: ${done}`, 4000);
+    }
+    return result;
+  }
+
+  /**
+   * Modal confirmation. Resolves to whether target-only files should be
+   * deleted, or undefined if the user cancelled.
+   */
+  private async confirmCopy(
+    from: CompareSide,
+    to: CompareSide,
+    copies: ICompareEntry[],
+    orphans: ICompareEntry[]
+  ): Promise<boolean | undefined> {
+    const overwrites = copies.filter((e) => e.status === 'modified').length;
+    const target = describeSide(to);
+
+    if (copies.length === 0) {
+      const choice = await vscode.window.showWarningMessage(
+        `Delete ${plural(orphans.length, 'file')} from ${target}? They do not exist in ${describeSide(from)}.`,
+        { modal: true },
+        'Delete'
+      );
+      return choice === 'Delete' ? true : undefined;
+    }
+
+    const message = `Copy ${plural(copies.length, 'file')} from ${describeSide(from)} to ${target}?`;
+    const detail = [
+      overwrites ? `${plural(overwrites, 'file')} will be overwritten.` : '',
+      orphans.length ? `${plural(orphans.length, 'file')} exist only in ${target}; "Copy and Delete" removes them there.` : '',
+    ].filter(Boolean).join(' ') || undefined;
+
+    if (orphans.length === 0) {
+      const choice = await vscode.window.showWarningMessage(message, { modal: true, detail }, 'Copy');
+      return choice === 'Copy' ? false : undefined;
+    }
+    const choice = await vscode.window.showWarningMessage(message, { modal: true, detail }, 'Copy and Delete', 'Copy Only');
+    return choice === 'Copy and Delete' ? true : choice === 'Copy Only' ? false : undefined;
+  }
+
+  /** Drop a reconciled entry from the comparison */
+  private resolve(entry: ICompareEntry, nowIdentical: boolean): void {
+    const c = this.current;
+    if (!c) {
+      return;
+    }
+    const index = c.entries.indexOf(entry);
+    if (index >= 0) {
+      c.entries.splice(index, 1);
+      if (nowIdentical) {
+        c.identical++;
+      }
+    }
+  }
+
+  private pathOf(side: CompareSide, rel: string): string {
+    return side.connection ? path.posix.join(side.path, rel) : path.join(side.path, ...rel.split('/'));
+  }
+
+  private canHash(side: CompareSide): boolean {
+    return !side.connection || side.connection.capabilities.supportsExec;
+  }
+
+  private scanSide(side: CompareSide, excludes: string[]): Promise<Map<string, ISyncFileState>> {
+    const sync = FolderSyncService.getInstance();
+    return side.connection
+      ? sync.scanRemote(side.connection, side.path, excludes, { type: 'compare', label: 'Compare' })
+      : sync.scanLocal(vscode.Uri.file(side.path), excludes);
+  }
+
+  /** Fill in `hash` for `candidates` on one side: sha256sum in batches on a server, node crypto locally */
+  private async addChecksums(
+    side: CompareSide,
+    files: Map<string, ISyncFileState>,
+    candidates: string[],
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    if (side.connection) {
+      for (let i = 0; i < candidates.length && !token.isCancellationRequested; i += CHECKSUM_BATCH) {
+        const batch = candidates.slice(i, i + CHECKSUM_BATCH);
+        const output = await this.commandGuard.exec(side.connection, buildChecksumCommand(side.path, batch), {
+          type: 'compare',
+          description: `Compare: checksums (${i + batch.length}/${candidates.length})`,
+        });
+        for (const [rel, hash] of parseChecksums(output)) {
+          const state = files.get(rel);
+          if (state) {
+            state.hash = hash;
+          }
+        }
+      }
+      return;
+    }
+    for (const rel of candidates) {
+      if (token.isCancellationRequested) {
+        return;
+      }
+      try {
+        const content = await vscode.workspace.fs.readFile(vscode.Uri.file(this.pathOf(side, rel)));
+        files.get(rel)!.hash = crypto.createHash('sha256').update(content).digest('hex');
+      } catch {
+        // Unreadable: compared by size and mtime instead
+      }
+    }
+  }
+
+  /**
+   * Copy one file across and give it the source's modification time; returns
+   * the bytes copied. Streams (SFTP or local file streams, with backpressure)
+   * so memory stays at a few chunks whatever the size. A server in sudo mode,
+   * or one without SFTP streams (FTP), goes through readSide/writeSide, which
+   * buffer the file but take CommandGuard's sudo route.
+   */
+  private async copyFile(
+    from: CompareSide,
+    to: CompareSide,
+    rel: string,
+    mtime: number,
+    knownDirs: Set<string>,
+    signal: AbortSignal
+  ): Promise<number> {
+    const target = this.pathOf(to, rel);
+    const streamable = (side: CompareSide) => !side.connection || (isSftpConnection(side.connection) && !side.connection.sudoMode);
+    let bytes: number;
+    if (streamable(from) && streamable(to)) {
+      await this.ensureDir(to, target, knownDirs);
+      bytes = await this.streamFile(from, to, rel, signal);
+    } else {
+      const content = await this.readSide(from, rel);
+      await this.writeSide(to, rel, content, knownDirs);
+      bytes = content.length;
+    }
+    if (to.connection) {
+      await to.connection.setModifiedTime(target, mtime);
+    } else {
+      await fs.promises.utimes(target, new Date(mtime), new Date(mtime));
+    }
+    return bytes;
+  }
+
+  /** Pipe one file from side to side; a failed or cancelled copy removes the partial target */
+  private async streamFile(from: CompareSide, to: CompareSide, rel: string, signal: AbortSignal): Promise<number> {
+    const source: Readable = from.connection
+      ? await from.connection.openReadStream(this.pathOf(from, rel))
+      : fs.createReadStream(this.pathOf(from, rel));
+    const target = this.pathOf(to, rel);
+    const sink: Writable = to.connection ? await to.connection.openWriteStream(target) : fs.createWriteStream(target);
+    let bytes = 0;
+    const meter = new Transform({
+      transform: (chunk: Buffer, _encoding, done) => {
+        bytes += chunk.length;
+        done(null, chunk);
+      },
+    });
+    try {
+      await pipeline(source, meter, sink, { signal });
+    } catch (error) {
+      await (to.connection ? to.connection.deleteFile(target) : fs.promises.unlink(target)).catch(() => undefined);
+      throw signal.aborted ? new Error('Cancelled') : error;
+    }
+    infoLog('folder-compare', 'copy/streamed', { path: rel, bytes });
+    return bytes;
+  }
+
+  /** Create the target's folder once per run */
+  private async ensureDir(side: CompareSide, target: string, knownDirs: Set<string>): Promise<void> {
+    if (!side.connection) {
+      await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(target)));
+      return;
+    }
+    const dir = path.posix.dirname(target);
+    if (!knownDirs.has(dir)) {
+      await this.ensureRemoteDir(side.connection, dir);
+      knownDirs.add(dir);
+    }
+  }
+
+  private async readSide(side: CompareSide, rel: string): Promise<Buffer> {
+    if (side.connection) {
+      return this.commandGuard.readFile(side.connection, this.pathOf(side, rel), {
+        type: 'compare',
+        description: `Compare: read ${rel}`,
+      });
+    }
+    return Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(this.pathOf(side, rel))));
+  }
+
+  private async writeSide(side: CompareSide, rel: string, content: Buffer, knownDirs: Set<string>): Promise<void> {
+    const target = this.pathOf(side, rel);
+    await this.ensureDir(side, target, knownDirs);
+    if (!side.connection) {
+      await vscode.workspace.fs.writeFile(vscode.Uri.file(target), content);
+      return;
+    }
+    await this.commandGuard.writeFile(side.connection, target, content, {
+      type: 'compare',
+      description: `Compare: write ${rel}`,
+    });
+  }
+
+  /** `mkdir -p` when the server has a shell, otherwise each missing ancestor over SFTP */
+  private async ensureRemoteDir(connection: SSHConnection, dir: string): Promise<void> {
+    if (connection.capabilities.supportsExec) {
+      await this.commandGuard.exec(connection, buildRemoteMkdirCommand([dir]), { type: 'compare', description: 'Compare: create folders' });
+      return;
+    }
+    const parts = dir.split('/').filter(Boolean);
+    for (let i = 1; i <= parts.length; i++) {
+      const ancestor = (dir.startsWith('/') ? '/' : '') + parts.slice(0, i).join('/');
+      if (!(await connection.fileExists(ancestor))) {
+        await connection.mkdir(ancestor);
+      }
+    }
+  }
+
+  private async deleteSide(side: CompareSide, rel: string): Promise<void> {
+    const target = this.pathOf(side, rel);
+    if (!side.connection) {
+      await vscode.workspace.fs.delete(vscode.Uri.file(target), { useTrash: true });
+    } else if (side.connection.capabilities.supportsExec) {
+      await this.commandGuard.exec(side.connection, buildRemoteDeleteCommand([target]), {
+        type: 'compare',
+        description: `Compare: delete ${rel}`,
+      });
+    } else {
+      await side.connection.deleteFile(target);
+    }
+  }
+
+  /**
+   * Audit a copy (from → to) or a deletion (no `from`) against the server
+   * involved; local-to-local changes are not audited. Server to server is a
+   * `copy` on the target.
+   */
+  private audit(from: CompareSide | undefined, to: CompareSide, rel: string, success: boolean, error?: string, fileSize?: number): void {
+    const remote = to.connection ? to : from;
+    if (!remote?.connection) {
+      return;
+    }
+    const local = !from ? undefined : !to.connection ? to : !from.connection ? from : undefined;
+    let action: AuditAction = 'delete';
+    if (from) {
+      action = !to.connection ? 'download' : !from.connection ? 'upload' : 'copy';
+    }
+    this.auditService.log({
+      action,
+      connectionId: remote.connection.id,
+      hostName: remote.connection.host.name,
+      username: remote.connection.host.username,
+      remotePath: this.pathOf(remote, rel),
+      localPath: local ? this.pathOf(local, rel) : undefined,
+      fileSize,
+      detail: action === 'copy' ? `folder compare, from ${describeSide(from!)}` : 'folder compare',
+      success,
+      error,
+    });
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+}
@@ -0,0 +1,363 @@
+/**
+ * FolderSyncService tests
+ *
+ * Local files live in an in-memory map behind the workspace.fs mock; the
+ * server answers through a mocked CommandGuard (exec/readFile/writeFile) or
+ * the connection's SFTP methods. The plan review panel is mocked to accept
+ * (or cancel) whatever plan it is shown.
+ */
+
+import * as crypto from 'crypto';
+
+var mockExec = jest.fn();
+var mockGuardWrite = jest.fn().mockResolvedValue(undefined);
+var mockGuardRead = jest.fn();
+var mockStartSync = jest.fn().mockReturnValue('sync-act');
+var mockCompleteSync = jest.fn();
+var mockFailSync = jest.fn();
+var mockAuditLog = jest.fn();
+var mockReview = jest.fn();
+
+jest.mock('./CommandGuard', () => ({
+  CommandGuard: {
+    getInstance: jest.fn().mockReturnValue({
+      exec: (...a: unknown[]) => mockExec(...a),
+      writeFile: (...a: unknown[]) => mockGuardWrite(...a),
+      readFile: (...a: unknown[]) => mockGuardRead(...a),
+      startSync: (...a: unknown[]) => mockStartSync(...a),
+      updateSync: jest.fn(),
+      completeSync: (...a: unknown[]) => mockCompleteSync(...a),
+      failSync: (...a: unknown[]) => mockFailSync(...a),
+    }),
+  },
+}));
+jest.mock('./AuditService', () => ({
+  AuditService: { getInstance: jest.fn().mockReturnValue({ log: (...a: unknown[]) => mockAuditLog(...a) }) },
+}));
+jest.mock('../webviews/SyncPlanPanel', () => ({
+  SyncPlanPanel: { review: (...a: unknown[]) => mockReview(...a) },
+}));
+
+import * as vscode from 'vscode';
+import { FolderSyncService } from './FolderSyncService';
+import { ISyncProfile } from '../types';
+
+const T = 1_700_000_000_000;
+const LOCAL_ROOT = '/home/me/site';
+const REMOTE_ROOT = '/var/www/site';
+
+/** Local tree: fsPath -> content (folders are implied by file paths) */
+let localFiles: Map<string, { content: Buffer; mtime: number }>;
+let localDirs: Set<string>;
+
+function setLocal(rel: string, content: string, mtime = T): void {
+  const full = `${LOCAL_ROOT}/${rel}`;
+  localFiles.set(full, { content: Buffer.from(content), mtime });
+  const parts = rel.split('/');
+  for (let i = 0; i < parts.length; i++) {
+    localDirs.add([LOCAL_ROOT, ...parts.slice(0, i)].join('/'));
+  }
+}
+
+function installLocalFs(): void {
+  const fs = vscode.workspace.fs as unknown as Record<string, jest.Mock>;
+  fs.stat.mockImplementation(async (uri: vscode.Uri) => {
+    const file = localFiles.get(uri.fsPath);
+    if (file) {
+      return { type: vscode.FileType.File, size: file.content.length, mtime: file.mtime, ctime: 0 };
+    }
+    if (localDirs.has(uri.fsPath)) {
+      return { type: vscode.FileType.Directory, size: 0, mtime: 0, ctime: 0 };
+    }
+    throw new Error('ENOENT');
+  });
+  fs.readDirectory.mockImplementation(async (uri: vscode.Uri) => {
+    const prefix = `${uri.fsPath}/`;
+    const entries = new Map<string, vscode.FileType>();
+    for (const p of [...localFiles.keys(), ...localDirs]) {
+      if (p.startsWith(prefix)) {
+        const rest = p.slice(prefix.length).split('/');
+        entries.set(rest[0], rest.length > 1 || localDirs.has(prefix + rest[0]) ? vscode.FileType.Directory : vscode.FileType.File);
+      }
+    }
+    return [...entries];
+  });
+  fs.readFile.mockImplementation(async (uri: vscode.Uri) => {
+    const file = localFiles.get(uri.fsPath);
+    if (!file) { throw new Error('ENOENT'); }
+    return new Uint8Array(file.content);
+  });
+  fs.writeFile.mockImplementation(async (uri: vscode.Uri, content: Uint8Array) => {
+    localFiles.set(uri.fsPath, { content: Buffer.from(content), mtime: T + 500_000 });
+  });
+  fs.delete.mockImplementation(async (uri: vscode.Uri) => {
+    localFiles.delete(uri.fsPath);
+  });
+}
+
+/** `find -printf` output for the remote scan */
+function findOutput(entries: Array<[string, number, number]>): string {
+  return entries.map(([rel, size, mtime]) => `${rel}\t${size}\t${mtime / 1000}`).join('\n') + '\n';
+}
+
+function makeConnection(supportsExec = true) {
+  return {
+    id: 'web:22:deploy',
+    host: { name: 'web', host: 'web', port: 22, username: 'deploy' },
+    capabilities: { supportsExec },
+    stat: jest.fn().mockResolvedValue({ size: 5, modifiedTime: T + 600_000 }),
+    fileExists: jest.fn().mockResolvedValue(true),
+    listFiles: jest.fn().mockResolvedValue([]),
+    mkdir: jest.fn().mockResolvedValue(undefined),
+    deleteFile: jest.fn().mockResolvedValue(undefined),
+  } as any;
+}
+
+function mockContext() {
+  const storage = new Map<string, unknown>();
+  return {
+    globalState: {
+      get: jest.fn().mockImplementation((k: string, def?: unknown) => storage.get(k) ?? def),
+      update: jest.fn().mockImplementation((k: string, v: unknown) => { storage.set(k, v); return Promise.resolve(); }),
+    },
+  } as any;
+}
+
+function resetService(): FolderSyncService {
+  (FolderSyncService as any)._instance = undefined;
+  const service = FolderSyncService.getInstance();
+  service.initialize(mockContext());
+  return service;
+}
+
+const PROFILE: Omit<ISyncProfile, 'id'> = {
+  name: 'site',
+  hostId: 'web:22:deploy',
+  localPath: LOCAL_ROOT,
+  remotePath: REMOTE_ROOT,
+  direction: 'both',
+  excludes: ['.git'],
+  useChecksum: false,
+};
+
+describe('FolderSyncService', () => {
+  let service: FolderSyncService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localFiles = new Map();
+    localDirs = new Set([LOCAL_ROOT]);
+    installLocalFs();
+    service = resetService();
+    // Accept every plan as proposed, minus the skipped conflicts
+    mockReview.mockImplementation(async (plan: Array<{ action: string }>) => plan.filter((i) => i.action !== 'skip'));
+  });
+
+  describe('profiles', () => {
+    it('saves, sorts, updates and deletes profiles', async () => {
+      const listener = jest.fn();
+      service.onDidChangeProfiles(listener);
+      const b = await service.saveProfile({ ...PROFILE, name: 'b' });
+      const a = await service.saveProfile({ ...PROFILE, name: 'a', hostId: 'other' });
+      expect(service.getProfiles().map((p) => p.name)).toEqual(['a', 'b']);
+      expect(service.getProfiles('other')).toEqual([a]);
+
+      await service.saveProfile({ ...b, direction: 'upload' });
+      expect(service.getProfile(b.id)?.direction).toBe('upload');
+      expect(service.getProfiles()).toHaveLength(2);
+
+      expect(await service.deleteProfile(a.id)).toBe(true);
+      expect(await service.deleteProfile(a.id)).toBe(false);
+      expect(service.getProfiles()).toHaveLength(1);
+      expect(listener).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('scanLocal', () => {
+    it('walks folders and skips excluded entries and symlinks', async () => {
+      setLocal('index.html', 'hi');
+      setLocal('css/app.css', 'body{}');
+      setLocal('.git/HEAD', 'ref');
+      const fs = vscode.workspace.fs as unknown as Record<string, jest.Mock>;
+      const realReadDir = fs.readDirectory.getMockImplementation()!;
+      fs.readDirectory.mockImplementation(async (uri: vscode.Uri) => {
+        const entries = await realReadDir(uri);
+        return uri.fsPath === LOCAL_ROOT ? [...entries, ['link', vscode.FileType.SymbolicLink | vscode.FileType.File]] : entries;
+      });
+
+      const files = await service.scanLocal(vscode.Uri.file(LOCAL_ROOT), ['.git']);
+      expect([...files.keys()].sort()).toEqual(['css/app.css', 'index.html']);
+      expect(files.get('css/app.css')).toEqual({ size: 6, mtime: T });
+    });
+
+    it('treats a missing folder as empty', async () => {
+      expect((await service.scanLocal(vscode.Uri.file('/nope'), [])).size).toBe(0);
+    });
+  });
+
+  describe('scanRemote', () => {
+    it('lists the tree with one find command', async () => {
+      mockExec.mockResolvedValueOnce(findOutput([['a.txt', 3, T], ['sub/b.txt', 4, T]]));
+      const files = await service.scanRemote(makeConnection(), REMOTE_ROOT, ['.git']);
+      expect(mockExec.mock.calls[0][1]).toContain("find . -mindepth 1 \\( -name '.git' \\) -prune");
+      expect(files.get('sub/b.txt')).toEqual({ size: 4, mtime: T });
+    });
+
+    it('falls back to an SFTP walk without a shell, skipping symlinks', async () => {
+      const connection = makeConnection(false);
+      connection.listFiles.mockImplementation(async (dir: string) => dir === REMOTE_ROOT
+        ? [
+          { name: 'sub', path: `${REMOTE_ROOT}/sub`, isDirectory: true, size: 0, modifiedTime: 0 },
+          { name: 'link', path: `${REMOTE_ROOT}/link`, isDirectory: false, isSymlink: true, size: 1, modifiedTime: 0 },
+        ]
+        : [{ name: 'b.txt', path: `${REMOTE_ROOT}/sub/b.txt`, isDirectory: false, size: 4, modifiedTime: T }]);
+      const files = await service.scanRemote(connection, REMOTE_ROOT, []);
+      expect(mockExec).not.toHaveBeenCalled();
+      expect([...files.keys()]).toEqual(['sub/b.txt']);
+    });
+
+    it('returns nothing when the remote folder does not exist yet', async () => {
+      const connection = makeConnection(false);
+      connection.fileExists.mockResolvedValue(false);
+      expect((await service.scanRemote(connection, REMOTE_ROOT, [])).size).toBe(0);
+      expect(connection.listFiles).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('run', () => {
+    it('copies new files both ways and records a baseline', async () => {
+      const profile = await service.saveProfile(PROFILE);
+      const connection = makeConnection();
+      setLocal('css/app.css', 'body{}');
+      mockExec.mockImplementation(async (_c: unknown, command: string) =>
+        command.includes('find') ? findOutput([['robots.txt', 5, T]]) : '');
+      mockGuardRead.mockResolvedValue(Buffer.from('allow'));
+
+      const result = await service.run(connection, profile);
+
+      expect(result).toEqual({ applied: 2, failed: [], cancelled: false });
+      expect(mockExec.mock.calls.some(([, c]) => c === `mkdir -p -- '${REMOTE_ROOT}/css'`)).toBe(true);
+      expect(mockGuardWrite).toHaveBeenCalledWith(connection, `${REMOTE_ROOT}/css/app.css`, Buffer.from('body{}'), expect.objectContaining({ type: 'sync' }));
+      expect(localFiles.get(`${LOCAL_ROOT}/robots.txt`)?.content.toString()).toBe('allow');
+      expect(Object.keys(service.getBaseline(profile.id)).sort()).toEqual(['css/app.css', 'robots.txt']);
+      expect(service.getProfile(profile.id)?.lastSyncTime).toBeDefined();
+      expect(mockStartSync).toHaveBeenCalledWith(connection, 'site', expect.objectContaining({ cancellable: true }));
+      expect(mockCompleteSync).toHaveBeenCalledWith('sync-act', '2/2 applied');
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'upload', detail: 'sync "site"', success: true }));
+    });
+
+    it('finds nothing to do on the run after a two-way sync', async () => {
+      const profile = await service.saveProfile(PROFILE);
+      const connection = makeConnection();
+      connection.stat.mockResolvedValue({ size: 6, modifiedTime: T + 600_000 });
+      setLocal('css/app.css', 'body{}');
+      mockExec.mockImplementation(async (_c: unknown, command: string) =>
+        command.includes('find') ? findOutput([['robots.txt', 5, T]]) : '');
+      mockGuardRead.mockResolvedValue(Buffer.from('allow'));
+      expect((await service.run(connection, profile))?.applied).toBe(2);
+
+      // Both copies now carry the time of the copy, not of their source
+      mockExec.mockImplementation(async (_c: unknown, command: string) =>
+        command.includes('find') ? findOutput([['css/app.css', 6, T + 600_000], ['robots.txt', 5, T]]) : '');
+      const second = await service.run(connection, profile);
+
+      expect(mockReview).toHaveBeenCalledTimes(1);
+      expect(second?.applied).toBe(0);
+      expect(vscode.window.setStatusBarMessage).toHaveBeenCalledWith(expect.stringContaining('already in sync'), 3000);
+    });
+
+    it('reports "already in sync" without opening the review', async () => {
+      const profile = await service.saveProfile(PROFILE);
+      setLocal('a.txt', 'abc');
+      mockExec.mockResolvedValue(findOutput([['a.txt', 3, T + 1000]]));
+
+      const result = await service.run(makeConnection(), profile);
+
+      expect(result?.applied).toBe(0);
+      expect(mockReview).not.toHaveBeenCalled();
+      expect(vscode.window.setStatusBarMessage).toHaveBeenCalledWith(expect.stringContaining('already in sync'), 3000);
+      expect(service.getBaseline(profile.id)['a.txt']).toBeDefined();
+    });
+
+    it('changes nothing when the review is cancelled', async () => {
+      const profile = await service.saveProfile(PROFILE);
+      setLocal('a.txt', 'abc');
+      mockExec.mockResolvedValue('');
+      mockReview.mockResolvedValue(undefined);
+
+      expect(await service.run(makeConnection(), profile)).toBeUndefined();
+      expect(mockGuardWrite).not.toHaveBeenCalled();
+      expect(mockStartSync).not.toHaveBeenCalled();
+    });
+
+    it('deletes on the server what was deleted locally since the last sync', async () => {
+      const profile = await service.saveProfile(PROFILE);
+      const connection = makeConnection();
+      setLocal('keep.txt', 'k');
+      mockExec.mockResolvedValue(findOutput([['keep.txt', 1, T], ['old.txt', 3, T]]));
+      const both = { local: { size: 1, mtime: T }, remote: { size: 1, mtime: T } };
+      await (service as any).context.globalState.update(`sshLite.syncBaseline.${profile.id}`, {
+        'keep.txt': both,
+        'old.txt': { local: { size: 3, mtime: T }, remote: { size: 3, mtime: T } },
+      });
+      mockExec.mockImplementation(async (_c: unknown, command: string) =>
+        command.includes('find') ? findOutput([['keep.txt', 1, T], ['old.txt', 3, T]]) : '');
+
+      const result = await service.run(connection, profile);
+
+      expect(mockReview.mock.calls[0][0]).toEqual([expect.objectContaining({ path: 'old.txt', kind: 'deleted', action: 'deleteRemote' })]);
+      expect(mockExec.mock.calls.some(([, c]) => c === `rm -f -- '${REMOTE_ROOT}/old.txt'`)).toBe(true);
+      expect(result?.applied).toBe(1);
+      expect(service.getBaseline(profile.id)['old.txt']).toBeUndefined();
+    });
+
+    it('compares checksums when sizes match but times differ', async () => {
+      const profile = await service.saveProfile({ ...PROFILE, useChecksum: true });
+      setLocal('a.txt', 'same');
+      const hash = crypto.createHash('sha256').update('same').digest('hex');
+      mockExec.mockImplementation(async (_c: unknown, command: string) =>
+        command.includes('sha256sum') ? `${hash}  a.txt\n` : findOutput([['a.txt', 4, T + 3_600_000]]));
+
+      const result = await service.run(makeConnection(), profile);
+
+      expect(mockExec.mock.calls.some(([, c]) => c === `cd '${REMOTE_ROOT}' && sha256sum -- 'a.txt'`)).toBe(true);
+      expect(mockReview).not.toHaveBeenCalled();
+      expect(result?.applied).toBe(0);
+    });
+
+    it('keeps going past a failed file and reports it', async () => {
+      const profile = await service.saveProfile({ ...PROFILE, direction: 'upload' });
+      setLocal('a.txt', 'a');
+      setLocal('b.txt', 'b');
+      mockExec.mockResolvedValue('');
+      mockGuardWrite.mockRejectedValueOnce(new Error('Permission denied'));
+
+      const result = await service.run(makeConnection(), profile);
+
+      expect(result?.failed).toEqual([{ path: 'a.txt', error: 'Permission denied' }]);
+      expect(result?.applied).toBe(1);
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('1 of 2 changes failed'));
+      // The failed file is looked at again next time
+      expect(Object.keys(service.getBaseline(profile.id))).toEqual(['b.txt']);
+    });
+
+    it('fails the activity when the remote folders cannot be created', async () => {
+      const profile = await service.saveProfile({ ...PROFILE, direction: 'upload' });
+      setLocal('css/app.css', 'body{}');
+      mockExec.mockImplementation(async (_c: unknown, command: string) => {
+        if (command.startsWith('mkdir')) {
+          throw new Error('Read-only file system');
+        }
+        return '';
+      });
+
+      const result = await service.run(makeConnection(), profile);
+
+      expect(result).toBeUndefined();
+      expect(mockGuardWrite).not.toHaveBeenCalled();
+      expect(mockFailSync).toHaveBeenCalledWith('sync-act', 'Read-only file system');
+      expect(mockCompleteSync).not.toHaveBeenCalled();
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith('Sync "site" failed: Read-only file system');
+    });
+  });
+});
@@ -0,0 +1,582 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { SSHConnection } from '../connection/SSHConnection';
+import { ISyncFileState, ISyncPlanItem, ISyncProfile, SyncBaseline } from '../types';
+import { ActivityType } from './ActivityService';
+import { AuditService } from './AuditService';
+import { CommandGuard } from './CommandGuard';
+import { SyncPlanPanel } from '../webviews/SyncPlanPanel';
+import { infoLog } from '../utils/diagnosticLog';
+import {
+  CHECKSUM_BATCH,
+  buildChecksumCommand,
+  buildRemoteDeleteCommand,
+  buildRemoteMkdirCommand,
+  buildRemoteScanCommand,
+  buildSyncPlan,
+  checksumCandidates,
+  isExcluded,
+  parseChecksums,
+  parseRemoteScan,
+  sameContent,
+  summarizePlan,
+} from '../utils/folderSync';
+
+const PROFILES_KEY = 'sshLite.syncProfiles';
+/** Baselines can hold thousands of entries, so each profile's lives under its own key */
+const BASELINE_KEY_PREFIX = 'sshLite.syncBaseline.';
+
+/** Both trees as scanned for one run */
+export interface SyncScan {
+  local: Map<string, ISyncFileState>;
+  remote: Map<string, ISyncFileState>;
+  /** Checksums were asked for but the server has no shell to run sha256sum */
+  checksumUnavailable: boolean;
+}
+
+/** What applying a plan did */
+export interface SyncResult {
+  applied: number;
+  failed: Array<{ path: string; error: string }>;
+  cancelled: boolean;
+}
+
+/**
+ * Two-way (or one-way) sync between a local folder and a remote folder.
+ *
+ * A run scans both trees (remote: one `find` over exec, or an SFTP walk),
+ * optionally hashes same-size files (`sha256sum` on the server), builds a plan
+ * against the state recorded after the previous run, lets the user review it
+ * in {@link SyncPlanPanel}, then applies it through CommandGuard. Profiles are
+ * saved so a sync can be re-run from the host tree.
+ */
+export class FolderSyncService {
+  private static _instance: FolderSyncService;
+  private context: vscode.ExtensionContext | null = null;
+  private profiles: ISyncProfile[] = [];
+  private readonly commandGuard: CommandGuard;
+  private readonly auditService: AuditService;
+  private readonly running = new Set<string>();
+
+  private readonly _onDidChangeProfiles = new vscode.EventEmitter<void>();
+  readonly onDidChangeProfiles = this._onDidChangeProfiles.event;
+
+  private constructor() {
+    this.commandGuard = CommandGuard.getInstance();
+    this.auditService = AuditService.getInstance();
+  }
+
+  static getInstance(): FolderSyncService {
+    if (!FolderSyncService._instance) {
+      FolderSyncService._instance = new FolderSyncService();
+    }
+    return FolderSyncService._instance;
+  }
+
+  initialize(context: vscode.ExtensionContext): void {
+    this.context = context;
+    const stored = context.globalState.get<ISyncProfile[]>(PROFILES_KEY, []);
+    this.profiles = Array.isArray(stored) ? stored.filter((p) => p && p.id && p.hostId) : [];
+  }
+
+  /** Profiles, optionally only those for one host, sorted by name */
+  getProfiles(hostId?: string): ISyncProfile[] {
+    return this.profiles
+      .filter((p) => !hostId || p.hostId === hostId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getProfile(id: string): ISyncProfile | undefined {
+    return this.profiles.find((p) => p.id === id);
+  }
+
+  /** Add a profile, or replace the one with the same id */
+  async saveProfile(profile: Omit<ISyncProfile, 'id'> & { id?: string }): Promise<ISyncProfile> {
+    const saved: ISyncProfile = { ...profile, id: profile.id ?? `sync-${Date.now()}-${Math.random().toString(36).slice(2, 8)}` };
+    const index = this.profiles.findIndex((p) => p.id === saved.id);
+    if (index >= 0) {
+      this.profiles[index] = saved;
+    } else {
+      this.profiles.push(saved);
+    }
+    await this.persist();
+    return saved;
+  }
+
+  async deleteProfile(id: string): Promise<boolean> {
+    const before = this.profiles.length;
+    this.profiles = this.profiles.filter((p) => p.id !== id);
+    if (this.profiles.length === before) {
+      return false;
+    }
+    await this.context?.globalState.update(BASELINE_KEY_PREFIX + id, undefined);
+    await this.persist();
+    return true;
+  }
+
+  getBaseline(id: string): SyncBaseline {
+    return this.context?.globalState.get<SyncBaseline>(BASELINE_KEY_PREFIX + id) ?? {};
+  }
+
+  private async persist(): Promise<void> {
+    await this.context?.globalState.update(PROFILES_KEY, this.profiles);
+    this._onDidChangeProfiles.fire();
+  }
+
+  /**
+   * Scan, review and apply one profile. Returns undefined if the user
+   * cancelled before anything was changed.
+   */
+  async run(connection: SSHConnection, profile: ISyncProfile): Promise<SyncResult | undefined> {
+    if (this.running.has(profile.id)) {
+      vscode.window.showWarningMessage(`Sync "${profile.name}" is already running.`);
+      return undefined;
+    }
+    this.running.add(profile.id);
+    try {
+      const scan = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Comparing ${profile.name}...`, cancellable: false },
+        (progress) => this.scan(connection, profile, progress)
+      );
+      const baseline = this.getBaseline(profile.id);
+      const plan = buildSyncPlan(scan.local, scan.remote, baseline, profile.direction);
+      infoLog('folder-sync', 'plan', {
+        profile: profile.id,
+        local: scan.local.size,
+        remote: scan.remote.size,
+        summary: summarizePlan(plan),
+      });
+
+      if (plan.length === 0) {
+        await this.finish(profile, scan, baseline, new Map());
+        vscode.window.setStatusBarMessage(`$(check) ${profile.name} is already in sync`, 3000);
+        return { applied: 0, failed: [], cancelled: false };
+      }
+
+      const notes: string[] = [];
+      if (scan.checksumUnavailable) {
+        notes.push('Checksums need a shell on the server; files were compared by size and modification time.');
+      }
+      const selected = await SyncPlanPanel.review(plan, {
+        profile,
+        hostName: connection.host.name,
+        notes,
+      });
+      if (!selected) {
+        return undefined;
+      }
+
+      const result = await this.apply(connection, profile, selected, scan, baseline);
+      if (result.failed.length > 0) {
+        const first = result.failed[0];
+        vscode.window.showErrorMessage(
+          `Sync "${profile.name}": ${result.failed.length} of ${selected.length} changes failed (${first.path}: ${first.error})`
+        );
+      } else if (result.cancelled) {
+        vscode.window.showWarningMessage(`Sync "${profile.name}" cancelled after ${result.applied} of ${selected.length} changes.`);
+      } else {
+        vscode.window.setStatusBarMessage(`$(check) Synced ${profile.name}: ${summarizePlan(selected)}`, 4000);
+      }
+      return result;
+    } catch (error) {
+      infoLog('folder-sync', 'run/failed', { profile: profile.id, error: (error as Error).message });
+      vscode.window.showErrorMessage(`Sync "${profile.name}" failed: ${(error as Error).message}`);
+      return undefined;
+    } finally {
+      this.running.delete(profile.id);
+    }
+  }
+
+  /** Scan both trees, with checksums for same-size pairs when the profile asks for them */
+  async scan(
+    connection: SSHConnection,
+    profile: ISyncProfile,
+    progress?: vscode.Progress<{ message?: string }>
+  ): Promise<SyncScan> {
+    progress?.report({ message: 'Scanning local folder...' });
+    const local = await this.scanLocal(vscode.Uri.file(profile.localPath), profile.excludes);
+    progress?.report({ message: `Scanning ${connection.host.name}:${profile.remotePath}...` });
+    const remote = await this.scanRemote(connection, profile.remotePath, profile.excludes);
+
+    let checksumUnavailable = false;
+    if (profile.useChecksum) {
+      if (connection.capabilities.supportsExec) {
+        progress?.report({ message: 'Comparing checksums...' });
+        await this.addChecksums(connection, profile, local, remote);
+      } else {
+        checksumUnavailable = true;
+      }
+    }
+    return { local, remote, checksumUnavailable };
+  }
+
+  /** Every regular file under `root` by relative path. Symlinks are skipped; a missing root is empty. */
+  async scanLocal(root: vscode.Uri, excludes: string[]): Promise<Map<string, ISyncFileState>> {
+    const files = new Map<string, ISyncFileState>();
+    try {
+      await vscode.workspace.fs.stat(root);
+    } catch {
+      return files;
+    }
+
+    const walk = async (dir: vscode.Uri, prefix: string): Promise<void> => {
+      const entries = await vscode.workspace.fs.readDirectory(dir);
+      const stats = entries.map(async ([name, type]) => {
+        const rel = prefix ? `${prefix}/${name}` : name;
+        if (type & vscode.FileType.SymbolicLink || isExcluded(rel, excludes)) {
+          return;
+        }
+        const uri = vscode.Uri.joinPath(dir, name);
+        if (type === vscode.FileType.Directory) {
+          await walk(uri, rel);
+        } else if (type === vscode.FileType.File) {
+          const stat = await vscode.workspace.fs.stat(uri);
+          files.set(rel, { size: stat.size, mtime: stat.mtime });
+        }
+      });
+      await Promise.all(stats);
+    };
+    await walk(root, '');
+    return files;
+  }
+
+  /**
+   * Every regular file under `root` by relative path. One `find` when the
+   * server has a shell (falling back if its find lacks -printf), otherwise
+   * a listFiles walk. Symlinks are skipped; a missing root is empty.
+   * `tracking` labels the scan in the Activity panel (Folder Compare reuses it).
+   */
+  async scanRemote(
+    connection: SSHConnection,
+    root: string,
+    excludes: string[],
+    tracking: { type: ActivityType; label: string } = { type: 'sync', label: 'Sync' }
+  ): Promise<Map<string, ISyncFileState>> {
+    if (connection.capabilities.supportsExec) {
+      try {
+        const output = await this.commandGuard.exec(connection, buildRemoteScanCommand(root, excludes), {
+          type: tracking.type,
+          description: `${tracking.label}: scan ${path.posix.basename(root) || root}`,
+          detail: root,
+        });
+        return parseRemoteScan(output, excludes);
+      } catch (error) {
+        infoLog('folder-sync', 'scan-remote/exec-failed', { root, error: (error as Error).message });
+      }
+    }
+
+    const files = new Map<string, ISyncFileState>();
+    if (!(await connection.fileExists(root))) {
+      return files;
+    }
+    const walk = async (dir: string, prefix: string): Promise<void> => {
+      for (const entry of await connection.listFiles(dir)) {
+        const rel = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.isSymlink || isExcluded(rel, excludes)) {
+          continue;
+        }
+        if (entry.isDirectory) {
+          await walk(entry.path, rel);
+        } else {
+          files.set(rel, { size: entry.size, mtime: entry.modifiedTime });
+        }
+      }
+    };
+    await walk(root, '');
+    return files;
+  }
+
+  /** Fill in `hash` on both sides for files whose sizes match */
+  private async addChecksums(
+    connection: SSHConnection,
+    profile: ISyncProfile,
+    local: Map<string, ISyncFileState>,
+    remote: Map<string, ISyncFileState>
+  ): Promise<void> {
+    const candidates = checksumCandidates(local, remote);
+    for (let i = 0; i < candidates.length; i += CHECKSUM_BATCH) {
+      const batch = candidates.slice(i, i + CHECKSUM_BATCH);
+      const output = await this.commandGuard.exec(connection, buildChecksumCommand(profile.remotePath, batch), {
+        type: 'sync',
+        description: `Sync: checksums (${i + batch.length}/${candidates.length})`,
+      });
+      for (const [rel, hash] of parseChecksums(output)) {
+        const state = remote.get(rel);
+        if (state) {
+          state.hash = hash;
+        }
+      }
+    }
+
+    const root = vscode.Uri.file(profile.localPath);
+    for (const rel of candidates) {
+      const state = local.get(rel)!;
+      if (!remote.get(rel)?.hash) {
+        continue;
+      }
+      try {
+        const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(root, ...rel.split('/')));
+        state.hash = crypto.createHash('sha256').update(content).digest('hex');
+      } catch {
+        // Unreadable locally: compared by size and mtime, and the copy will fail visibly
+      }
+    }
+  }
+
+  /**
+   * Apply reviewed plan items: remote folders first, then transfers, then
+   * deletions. Every file is tried even if others fail; the baseline is saved
+   * for what got done, so a cancelled or partly failed run picks up from there.
+   */
+  async apply(
+    connection: SSHConnection,
+    profile: ISyncProfile,
+    items: ISyncPlanItem[],
+    scan: SyncScan,
+    baseline: SyncBaseline
+  ): Promise<SyncResult> {
+    const result: SyncResult = { applied: 0, failed: [], cancelled: false };
+    const done = new Map<string, { local: ISyncFileState; remote: ISyncFileState } | null>();
+    const localRoot = vscode.Uri.file(profile.localPath);
+    const remotePathOf = (rel: string): string => path.posix.join(profile.remotePath, rel);
+    const localUriOf = (rel: string): vscode.Uri => vscode.Uri.joinPath(localRoot, ...rel.split('/'));
+    const fail = (rel: string, error: unknown): void => {
+      const message = (error as Error).message ?? String(error);
+      result.failed.push({ path: rel, error: message });
+      infoLog('folder-sync', 'apply/item-failed', { profile: profile.id, path: rel, error: message });
+    };
+    const audit = (action: 'upload' | 'download' | 'delete', rel: string, success: boolean, error?: string, fileSize?: number): void => {
+      this.auditService.log({
+        action,
+        connectionId: connection.id,
+        hostName: connection.host.name,
+        username: connection.host.username,
+        remotePath: remotePathOf(rel),
+        localPath: localUriOf(rel).fsPath,
+        fileSize,
+        detail: `sync "${profile.name}"`,
+        success,
+        error,
+      });
+    };
+
+    const uploads = items.filter((i) => i.action === 'upload');
+    const downloads = items.filter((i) => i.action === 'download');
+    const remoteDeletes = items.filter((i) => i.action === 'deleteRemote');
+    const localDeletes = items.filter((i) => i.action === 'deleteLocal');
+    const total = uploads.length + downloads.length + remoteDeletes.length + localDeletes.length;
+
+    let cancelled = false;
+    const activityId = this.commandGuard.startSync(connection, profile.name, {
+      detail: `${profile.localPath} ⇄ ${profile.remotePath}`,
+      cancellable: true,
+      onCancel: () => { cancelled = true; },
+    });
+
+    let fatal: Error | undefined;
+    try {
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Syncing ${profile.name}`, cancellable: true },
+        async (progress, token) => {
+          token.onCancellationRequested(() => { cancelled = true; });
+          let count = 0;
+          const step = (rel: string): boolean => {
+            count++;
+            progress.report({ increment: 100 / total, message: `${count}/${total} ${rel}` });
+            this.commandGuard.updateSync(activityId, Math.round((count / total) * 100), `${count}/${total} ${rel}`);
+            return !cancelled;
+          };
+
+          const remoteDirs = [...new Set(uploads.map((i) => path.posix.dirname(remotePathOf(i.path))))];
+          await this.ensureRemoteDirs(connection, remoteDirs);
+
+          for (const item of uploads) {
+            if (!step(item.path)) { break; }
+            try {
+              const content = await vscode.workspace.fs.readFile(localUriOf(item.path));
+              await this.commandGuard.writeFile(connection, remotePathOf(item.path), Buffer.from(content), {
+                type: 'sync',
+                description: `Sync ↑ ${item.path}`,
+              });
+              const stat = await connection.stat(remotePathOf(item.path));
+              done.set(item.path, {
+                local: item.local!,
+                remote: { size: stat.size, mtime: stat.modifiedTime, hash: item.local!.hash },
+              });
+              audit('upload', item.path, true, undefined, content.length);
+              result.applied++;
+            } catch (error) {
+              audit('upload', item.path, false, (error as Error).message);
+              fail(item.path, error);
+            }
+          }
+
+          for (const item of downloads) {
+            if (cancelled || !step(item.path)) { break; }
+            try {
+              const content = await this.commandGuard.readFile(connection, remotePathOf(item.path), {
+                type: 'sync',
+                description: `Sync ↓ ${item.path}`,
+              });
+              const uri = localUriOf(item.path);
+              await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(localRoot, ...item.path.split('/').slice(0, -1)));
+              await vscode.workspace.fs.writeFile(uri, content);
+              const stat = await vscode.workspace.fs.stat(uri);
+              done.set(item.path, {
+                local: { size: stat.size, mtime: stat.mtime, hash: item.remote!.hash },
+                remote: item.remote!,
+              });
+              audit('download', item.path, true, undefined, content.length);
+              result.applied++;
+            } catch (error) {
+              audit('download', item.path, false, (error as Error).message);
+              fail(item.path, error);
+            }
+          }
+
+          if (!cancelled && remoteDeletes.length > 0) {
+            for (const item of remoteDeletes) {
+              step(item.path);
+            }
+            const errors = await this.deleteRemoteFiles(connection, remoteDeletes.map((i) => remotePathOf(i.path)));
+            for (const item of remoteDeletes) {
+              const error = errors.get(remotePathOf(item.path));
+              audit('delete', item.path, !error, error?.message);
+              if (error) {
+                fail(item.path, error);
+              } else {
+                done.set(item.path, null);
+                result.applied++;
+              }
+            }
+          }
+
+          for (const item of localDeletes) {
+            if (cancelled || !step(item.path)) { break; }
+            try {
+              await vscode.workspace.fs.delete(localUriOf(item.path), { useTrash: true });
+              done.set(item.path, null);
+              result.applied++;
+            } catch (error) {
+              fail(item.path, error);
+            }
+          }
+        }
+      );
+    } catch (error) {
+      // Not one file's failure (e.g. the remote folders could not be created):
+      // nothing further is tried, but what got done is still recorded
+      fatal = error as Error;
+    }
+
+    result.cancelled = cancelled;
+    await this.finish(profile, scan, baseline, done);
+    if (fatal) {
+      this.commandGuard.failSync(activityId, fatal.message);
+      infoLog('folder-sync', 'apply/failed', { profile: profile.id, applied: result.applied, error: fatal.message });
+      throw fatal;
+    }
+
+    const summary = `${result.applied}/${total} applied${result.failed.length ? `, ${result.failed.length} failed` : ''}`;
+    if (result.failed.length > 0 && result.applied === 0) {
+      this.commandGuard.failSync(activityId, summary);
+    } else {
+      this.commandGuard.completeSync(activityId, summary);
+    }
+    infoLog('folder-sync', 'apply/done', { profile: profile.id, applied: result.applied, failed: result.failed.length, cancelled });
+    return result;
+  }
+
+  /**
+   * Record the new baseline: files already equal on both sides, plus what
+   * this run copied or deleted. Anything skipped, unticked or failed keeps its
+   * old entry so it is looked at again next time.
+   */
+  private async finish(
+    profile: ISyncProfile,
+    scan: SyncScan,
+    previous: SyncBaseline,
+    done: Map<string, { local: ISyncFileState; remote: ISyncFileState } | null>
+  ): Promise<void> {
+    const next: SyncBaseline = {};
+    for (const [rel, l] of scan.local) {
+      const r = scan.remote.get(rel);
+      if (r && sameContent(l, r)) {
+        next[rel] = { local: l, remote: r };
+      }
+    }
+    for (const rel of Object.keys(previous)) {
+      if (!(rel in next) && !done.has(rel) && (scan.local.has(rel) || scan.remote.has(rel))) {
+        next[rel] = previous[rel];
+      }
+    }
+    for (const [rel, state] of done) {
+      if (state) {
+        next[rel] = state;
+      } else {
+        delete next[rel];
+      }
+    }
+
+    await this.context?.globalState.update(BASELINE_KEY_PREFIX + profile.id, next);
+    const stored = this.getProfile(profile.id);
+    if (stored) {
+      stored.lastSyncTime = Date.now();
+      await this.persist();
+    }
+  }
+
+  /** `mkdir -p` in one command when possible, otherwise each missing ancestor over SFTP */
+  private async ensureRemoteDirs(connection: SSHConnection, dirs: string[]): Promise<void> {
+    if (dirs.length === 0) {
+      return;
+    }
+    if (connection.capabilities.supportsExec) {
+      await this.commandGuard.exec(connection, buildRemoteMkdirCommand(dirs), { type: 'sync', description: 'Sync: create folders' });
+      return;
+    }
+    const known = new Set<string>();
+    for (const dir of dirs.sort()) {
+      const parts = dir.split('/').filter(Boolean);
+      for (let i = 1; i <= parts.length; i++) {
+        const ancestor = (dir.startsWith('/') ? '/' : '') + parts.slice(0, i).join('/');
+        if (known.has(ancestor)) {
+          continue;
+        }
+        known.add(ancestor);
+        if (!(await connection.fileExists(ancestor))) {
+          await connection.mkdir(ancestor);
+        }
+      }
+    }
+  }
+
+  /** Delete remote files (one `rm` when possible); returns the error for each path that was not deleted */
+  private async deleteRemoteFiles(connection: SSHConnection, paths: string[]): Promise<Map<string, Error>> {
+    const errors = new Map<string, Error>();
+    if (connection.capabilities.supportsExec) {
+      try {
+        await this.commandGuard.exec(connection, buildRemoteDeleteCommand(paths), {
+          type: 'sync',
+          description: `Sync: delete ${paths.length} file${paths.length > 1 ? 's' : ''}`,
+        });
+      } catch (error) {
+        paths.forEach((p) => errors.set(p, error as Error));
+      }
+      return errors;
+    }
+    for (const p of paths) {
+      try {
+        await connection.deleteFile(p);
+      } catch (error) {
+        errors.set(p, error as Error);
+      }
+    }
+    return errors;
+  }
+
+  dispose(): void {
+    this._onDidChangeProfiles.dispose();
+  }
+}
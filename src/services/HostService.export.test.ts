@@ -10,24 +10,16 @@
 import { setMockConfig, clearMockConfig, workspace } from '../__mocks__/vscode';
 import * as os from 'os';
 
+// ~/.ssh/config with ONE concrete host: myserver -> 1.2.3.4:22 bob, key ~/.ssh/id_rsa
 jest.mock('fs', () => ({
   existsSync: jest.fn().mockReturnValue(true),
-  readFileSync: jest.fn().mockReturnValue('Host myserver'),
+  readFileSync: jest.fn().mockReturnValue(
+    'Host myserver\n  HostName 1.2.3.4\n  Port 22\n  User bob\n  IdentityFile ~/.ssh/id_rsa\n'
+  ),
   statSync: jest.fn().mockReturnValue({ mtimeMs: 1000 }),
   writeFileSync: jest.fn(),
 }));
 
-// ssh-config mock that yields ONE concrete host: myserver -> 1.2.3.4:22 bob, key ~/.ssh/id_rsa
-jest.mock('ssh-config', () => ({
-  parse: jest.fn(() => ({
-    [Symbol.iterator]: function* () {
-      yield { type: 1, param: 'Host', value: 'myserver' };
-    },
-    compute: () => ({ HostName: '1.2.3.4', Port: '22', User: 'bob', IdentityFile: '~/.ssh/id_rsa' }),
-  })),
-  DIRECTIVE: 1,
-}));
-
 import { HostService } from './HostService';
 
 function resetHostService(): HostService {
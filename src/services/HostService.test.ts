@@ -2,12 +2,12 @@
  * HostService tests
  *
  * Tests host management: loading from config, saving, removing, merging,
- * cache invalidation.
+ * cache invalidation, `Match exec` on connect.
  *
  * File system and SSH config parsing are mocked.
  */
 
-import { setMockConfig, clearMockConfig, workspace } from '../__mocks__/vscode';
+import { setMockConfig, clearMockConfig, workspace, window, resetWindowMocks } from '../__mocks__/vscode';
 
 // Mock fs and ssh-config
 var mockWriteFileSync = jest.fn();
@@ -30,6 +30,11 @@ jest.mock('ssh-config', () => ({
   DIRECTIVE: 1,
 }));
 
+// Key file picker: "No key" unless a test says otherwise
+jest.mock('../utils/keyFilePicker', () => ({
+  pickPrivateKeyPath: jest.fn().mockResolvedValue(''),
+}));
+
 import { HostService, effectiveHostPort } from './HostService';
 
 describe('effectiveHostPort', () => {
@@ -226,6 +231,80 @@ describe('HostService', () => {
     });
   });
 
+  describe('setForwardAgent', () => {
+    it('turns agent forwarding on and off for a saved host', async () => {
+      setMockConfig('sshLite.hosts', [{ name: 'Web', host: '10.0.0.1', port: 22, username: 'admin' }]);
+
+      await service.setForwardAgent('10.0.0.1:22:admin', true);
+      expect((workspace.getConfiguration('sshLite').get('hosts') as any[])[0].forwardAgent).toBe(true);
+      service.invalidateCache();
+      expect(service.getAllHosts()[0].forwardAgent).toBe(true);
+
+      await service.setForwardAgent('10.0.0.1:22:admin', false);
+      expect((workspace.getConfiguration('sshLite').get('hosts') as any[])[0]).not.toHaveProperty('forwardAgent');
+    });
+  });
+
+  describe('promptEditHost jump credentials', () => {
+    const web: any = { id: 'web:22:app', name: 'Web', host: 'web', port: 22, username: 'app', source: 'saved' };
+
+    /** Answer the SSH edit prompts, with `jumps` as the ProxyJump spec and `pickCredential` for the hop picker */
+    function answer(jumps: string, pickCredential: (items: any[]) => any): void {
+      resetWindowMocks();
+      (window.showInputBox as jest.Mock).mockImplementation(async (opts: any) =>
+        opts.prompt.startsWith('Jump hosts') ? jumps : opts.value
+      );
+      (window.showQuickPick as jest.Mock).mockImplementation(async (items: any[], opts: any) =>
+        opts.title === 'Connection type' ? items[0] : pickCredential(items)
+      );
+    }
+
+    beforeEach(() => {
+      setMockConfig('sshLite.hosts', [{ name: 'Web', host: 'web', port: 22, username: 'app' }]);
+      setMockConfig('sshLite.credentialIndex', {
+        'bastion:22:ops': [
+          { id: 'cred_1', label: 'ops', type: 'password' },
+          { id: 'cred_2', label: 'ops key', type: 'privateKey', privateKeyPath: '/keys/ops' },
+        ],
+      });
+    });
+
+    it('stores the credential picked for a hop', async () => {
+      answer('ops@bastion', (items) => items.find((i) => i.credentialId === 'cred_2'));
+
+      const edited = await service.promptEditHost(web);
+
+      expect(edited?.jumpHosts).toEqual([{ host: 'bastion', port: 22, username: 'ops', credentialId: 'cred_2' }]);
+      const saved = workspace.getConfiguration('sshLite').get('hosts') as any[];
+      expect(saved[0].jumpHosts[0].credentialId).toBe('cred_2');
+      service.invalidateCache();
+      expect(service.getAllHosts()[0].jumpHosts?.[0].credentialId).toBe('cred_2');
+    });
+
+    it('marks the current choice and can go back to no saved credential', async () => {
+      const chained = { ...web, jumpHosts: [{ host: 'bastion', port: 22, username: 'ops', credentialId: 'cred_1' }] };
+      let offered: any[] = [];
+      answer('ops@bastion', (items) => {
+        offered = items;
+        return items[0];
+      });
+
+      const edited = await service.promptEditHost(chained);
+
+      expect(offered.map((i) => i.description)).toEqual([undefined, 'Password · Current', 'Private Key']);
+      expect(edited?.jumpHosts).toEqual([{ host: 'bastion', port: 22, username: 'ops' }]);
+    });
+
+    it('does not ask about hops without saved credentials, and cancels with the picker', async () => {
+      answer('me@other', () => undefined);
+      const edited = await service.promptEditHost(web);
+      expect(edited?.jumpHosts).toEqual([{ host: 'other', port: 22, username: 'me' }]);
+
+      answer('ops@bastion', () => undefined);
+      expect(await service.promptEditHost(web)).toBeUndefined();
+    });
+  });
+
   describe('removeHost', () => {
     it('should remove host by ID', async () => {
       setMockConfig('sshLite.hosts', [
@@ -269,6 +348,48 @@ describe('HostService', () => {
     });
   });
 
+  describe('applyMatchExec', () => {
+    const CONFIG = 'Match originalhost web exec "on-vpn"\n  IdentityFile /keys/vpn\n  HostName vpn.lan\nHost web\n  HostName web.lan\n  User deploy\n';
+    let execFile: jest.SpyInstance;
+
+    beforeEach(() => {
+      const fs = require('fs');
+      fs.existsSync.mockReturnValue(true);
+      fs.readFileSync.mockReturnValue(CONFIG);
+      setMockConfig('sshLite.sshConfigPath', '/home/me/.ssh/config');
+      execFile = jest.spyOn(require('child_process'), 'execFile')
+        .mockImplementation((...args: unknown[]) => (args[2] as (e: Error | null) => void)(null));
+    });
+
+    afterEach(() => {
+      execFile.mockRestore();
+      const fs = require('fs');
+      fs.existsSync.mockReturnValue(false);
+      fs.readFileSync.mockReturnValue('');
+    });
+
+    it('lists hosts without running Match exec commands', () => {
+      const [web] = service.getAllHosts();
+      expect(web).toMatchObject({ name: 'web', host: 'web.lan', username: 'deploy' });
+      expect(web.privateKeyPath).toBeUndefined();
+      expect(execFile).not.toHaveBeenCalled();
+    });
+
+    it('runs them when connecting, keeping the host\'s address and id', async () => {
+      const [web] = service.getAllHosts();
+      const applied = await service.applyMatchExec(web);
+
+      expect(execFile).toHaveBeenCalledWith('on-vpn', expect.objectContaining({ shell: true }), expect.any(Function));
+      expect(applied).toMatchObject({ id: web.id, host: 'web.lan', privateKeyPath: '/keys/vpn', identityFiles: ['/keys/vpn'] });
+    });
+
+    it('leaves saved hosts alone', async () => {
+      const saved: any = { id: 'h:22:u', name: 'web', host: 'h', port: 22, username: 'u', source: 'saved' };
+      expect(await service.applyMatchExec(saved)).toBe(saved);
+      expect(execFile).not.toHaveBeenCalled();
+    });
+  });
+
   describe('invalidateCache', () => {
     it('should clear the SSH config cache', () => {
       service.invalidateCache();
@@ -3,10 +3,13 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import SSHConfig from 'ssh-config';
-import { IHostConfig } from '../types';
+import { IHostConfig, IJumpHost } from '../types';
 import { expandPath, validatePort } from '../utils/helpers';
 import { pickPrivateKeyPath } from '../utils/keyFilePicker';
 import { buildHostId, parseHostId } from '../utils/hostId';
+import { parseProxyJump, formatProxyJump, jumpHostId } from '../utils/proxyJump';
+import { CredentialService } from './CredentialService';
+import { readSSHConfig, listSSHConfigAliases, resolveSSHConfigHost, runMatchExecs, ISSHConfigFile, MatchExecResults } from '../utils/sshConfig';
 
 /**
  * Resolve a saved host's effective port, defaulting by connection type:
@@ -27,9 +30,10 @@ export function effectiveHostPort(h: { port?: number; connectionType?: 'ssh' | '
 export class HostService {
   private static _instance: HostService;
 
-  // Cache for SSH config hosts (parsed once, invalidated manually)
+  // Cache for SSH config hosts (re-parsed when any file in the Include tree changes)
   private sshConfigHostsCache: IHostConfig[] | null = null;
-  private sshConfigMtime: number = 0;
+  private sshConfigFiles: string[] = [];
+  private sshConfigSignature: string = '';
 
   private constructor() {}
 
@@ -77,7 +81,12 @@ export class HostService {
   }
 
   /**
-   * Load hosts from ~/.ssh/config (with caching for performance)
+   * Load hosts from ~/.ssh/config (with caching for performance).
+   *
+   * Every concrete alias (from the main file or any Include) is resolved the
+   * way `ssh <alias>` would: wildcard `Host` blocks and `Match` blocks supply
+   * inherited values, and all IdentityFile entries are kept in order.
+   * `Match exec` blocks do not apply here; applyMatchExec() adds them on connect.
    */
   private loadSSHConfigHosts(): IHostConfig[] {
     const configPath = this.getSSHConfigPath();
@@ -87,65 +96,24 @@ export class HostService {
       return [];
     }
 
-    // Check if file has been modified since last cache
-    try {
-      const stats = fs.statSync(configPath);
-      if (this.sshConfigHostsCache !== null && stats.mtimeMs === this.sshConfigMtime) {
-        // Return cached hosts - file hasn't changed
-        return this.sshConfigHostsCache;
-      }
-      this.sshConfigMtime = stats.mtimeMs;
-    } catch {
-      // If stat fails, proceed to parse
+    // Reuse the cache while no file in the Include tree has changed
+    if (this.sshConfigHostsCache !== null && this.sshConfigSignature === this.statSignature(this.sshConfigFiles)) {
+      return this.sshConfigHostsCache;
     }
 
     try {
-      const content = fs.readFileSync(configPath, 'utf-8');
-      const parsed = SSHConfig.parse(content);
+      const config = readSSHConfig(configPath);
+      const localUser = os.userInfo().username;
       const hosts: IHostConfig[] = [];
 
-      for (const section of parsed) {
-        if (section.type === SSHConfig.DIRECTIVE && section.param === 'Host') {
-          const hostPattern = section.value as string;
-
-          // Skip wildcard patterns
-          if (hostPattern.includes('*') || hostPattern.includes('?')) {
-            continue;
-          }
-
-          // Compute effective config for this host
-          const computed = parsed.compute(hostPattern);
-
-          const hostnameVal = computed.HostName || hostPattern;
-          const hostname = Array.isArray(hostnameVal) ? hostnameVal[0] : hostnameVal;
-          const portVal = computed.Port;
-          const port = parseInt(Array.isArray(portVal) ? portVal[0] : (portVal as string), 10) || 22;
-          const userVal = computed.User || os.userInfo().username;
-          const username = Array.isArray(userVal) ? userVal[0] : userVal;
-          const identityFile = computed.IdentityFile;
-
-          // Get first identity file if it's an array
-          let privateKeyPath: string | undefined;
-          if (Array.isArray(identityFile)) {
-            privateKeyPath = identityFile[0];
-          } else if (identityFile) {
-            privateKeyPath = identityFile;
-          }
-
-          hosts.push({
-            id: `${hostname}:${port}:${username}`,
-            name: hostPattern,
-            host: hostname,
-            port,
-            username,
-            privateKeyPath: privateKeyPath ? expandPath(privateKeyPath) : undefined,
-            source: 'ssh-config',
-          });
-        }
+      for (const alias of listSSHConfigAliases(config)) {
+        hosts.push(this.toHostConfig(config, alias, localUser));
       }
 
       // Cache the parsed hosts
       this.sshConfigHostsCache = hosts;
+      this.sshConfigFiles = config.files;
+      this.sshConfigSignature = this.statSignature(config.files);
       return hosts;
     } catch (error) {
       console.error('Failed to parse SSH config:', error);
@@ -154,12 +122,89 @@ export class HostService {
     }
   }
 
+  private toHostConfig(config: ISSHConfigFile, alias: string, localUser: string, execResults?: MatchExecResults): IHostConfig {
+    const resolved = resolveSSHConfigHost(config, alias, localUser, execResults);
+
+    // ProxyJump hops may name other Host aliases; resolve each through
+    // the same config so `ProxyJump bastion` picks up its HostName/User/key.
+    const jumpHosts = resolved.proxyJump
+      ? parseProxyJump(resolved.proxyJump, localUser, (hopAlias) => {
+          const hop = resolveSSHConfigHost(config, hopAlias, localUser);
+          return {
+            host: hop.hostName,
+            port: hop.port,
+            username: hop.user,
+            privateKeyPath: hop.identityFiles[0],
+          };
+        })
+      : [];
+
+    return {
+      id: `${resolved.hostName}:${resolved.port}:${resolved.user}`,
+      name: alias,
+      host: resolved.hostName,
+      port: resolved.port,
+      username: resolved.user,
+      privateKeyPath: resolved.identityFiles[0],
+      identityFiles: resolved.identityFiles.length > 0 ? resolved.identityFiles : undefined,
+      sshOptions: Object.keys(resolved.options).length > 0 ? resolved.options : undefined,
+      forwardAgent: resolved.forwardAgent || undefined,
+      source: 'ssh-config',
+      jumpHosts: jumpHosts.length > 0 ? jumpHosts : undefined,
+    };
+  }
+
+  /**
+   * An ssh-config host with its `Match exec` blocks applied: runs the alias's
+   * exec commands (asynchronously, this alias only) and re-resolves it. Keys,
+   * options, ProxyJump and ForwardAgent follow the result; HostName, Port and
+   * User stay as listed, since they make up the host's id. Other hosts, and
+   * configs without `Match exec`, come back unchanged.
+   */
+  async applyMatchExec(host: IHostConfig): Promise<IHostConfig> {
+    if (host.source !== 'ssh-config') {
+      return host;
+    }
+    const configPath = this.getSSHConfigPath();
+    if (!fs.existsSync(configPath)) {
+      return host;
+    }
+    const config = readSSHConfig(configPath);
+    const localUser = os.userInfo().username;
+    const execResults = await runMatchExecs(config, host.name, localUser);
+    if (execResults.size === 0) {
+      return host;
+    }
+    const resolved = this.toHostConfig(config, host.name, localUser, execResults);
+    return {
+      ...host,
+      privateKeyPath: resolved.privateKeyPath,
+      identityFiles: resolved.identityFiles,
+      sshOptions: resolved.sshOptions,
+      forwardAgent: resolved.forwardAgent,
+      jumpHosts: resolved.jumpHosts,
+    };
+  }
+
+  /** mtime fingerprint of the config files (and Include glob directories) last read. */
+  private statSignature(files: string[]): string {
+    return files
+      .map((file) => {
+        try {
+          return `${file}:${fs.statSync(file).mtimeMs}`;
+        } catch {
+          return `${file}:missing`;
+        }
+      })
+      .join('|');
+  }
+
   /**
    * Invalidate the SSH config cache (call when user modifies SSH config externally)
    */
   invalidateCache(): void {
     this.sshConfigHostsCache = null;
-    this.sshConfigMtime = 0;
+    this.sshConfigSignature = '';
   }
 
   /**
@@ -178,6 +223,8 @@ export class HostService {
       connectionType?: 'ssh' | 'ftp';
       secure?: boolean;
       anonymous?: boolean;
+      jumpHosts?: IJumpHost[];
+      forwardAgent?: boolean;
     }>>('hosts', []);
 
     const validHosts: IHostConfig[] = [];
@@ -209,6 +256,14 @@ export class HostService {
         connectionType: host.connectionType,
         secure: host.secure,
         anonymous: host.anonymous,
+        jumpHosts: host.jumpHosts?.length
+          ? host.jumpHosts.map((h) => ({
+              ...h,
+              port: h.port || 22,
+              privateKeyPath: h.privateKeyPath ? expandPath(h.privateKeyPath) : undefined,
+            }))
+          : undefined,
+        forwardAgent: host.forwardAgent || undefined,
       });
     }
     return validHosts;
@@ -230,6 +285,8 @@ export class HostService {
       connectionType?: 'ssh' | 'ftp';
       secure?: boolean;
       anonymous?: boolean;
+      jumpHosts?: IJumpHost[];
+      forwardAgent?: boolean;
     }>>('hosts', []);
 
     // Check for duplicate. Normalise username to '' so an endpoint (no username)
@@ -249,6 +306,8 @@ export class HostService {
       connectionType: host.connectionType,
       secure: host.secure,
       anonymous: host.anonymous,
+      jumpHosts: host.jumpHosts?.length ? host.jumpHosts : undefined,
+      forwardAgent: host.forwardAgent || undefined,
     };
 
     if (existingIndex >= 0) {
@@ -617,6 +676,36 @@ export class HostService {
     }
   }
 
+  /**
+   * Turn agent forwarding on or off for a saved host (takes effect on the next connect)
+   */
+  async setForwardAgent(hostId: string, forwardAgent: boolean): Promise<void> {
+    const config = vscode.workspace.getConfiguration('sshLite');
+    const savedHosts = config.get<Array<{
+      name: string;
+      host: string;
+      port?: number;
+      username: string;
+      connectionType?: 'ssh' | 'ftp';
+      forwardAgent?: boolean;
+    }>>('hosts', []);
+
+    const { host: hostAddr, port, username } = parseHostId(hostId);
+
+    const host = savedHosts.find(
+      (h) => h.host === hostAddr && effectiveHostPort(h) === port && (h.username ?? '') === username
+    );
+
+    if (host) {
+      if (forwardAgent) {
+        host.forwardAgent = true;
+      } else {
+        delete host.forwardAgent;
+      }
+      await config.update('hosts', savedHosts, vscode.ConfigurationTarget.Global);
+    }
+  }
+
   /**
    * Prompt user to add a new host
    */
@@ -760,6 +849,52 @@ export class HostService {
     return { secure: securePick.value, anonymous, username };
   }
 
+  /**
+   * Let the user pick, per hop, which saved credential logs in to that bastion.
+   * Only hops that have password or key credentials saved under their own host
+   * id are asked about; a hop kept from the previous chain starts on its
+   * previous choice. Returns undefined if the user cancels.
+   */
+  private async promptJumpCredentials(hops: IJumpHost[], previous: IJumpHost[]): Promise<IJumpHost[] | undefined> {
+    const creds = CredentialService.getInstance();
+    const picked: IJumpHost[] = [];
+    for (const hop of hops) {
+      const hopId = jumpHostId(hop);
+      const saved = creds.listCredentials(hopId).filter((c) => c.type === 'password' || c.type === 'privateKey');
+      if (saved.length === 0) {
+        picked.push(hop);
+        continue;
+      }
+      const current = previous.find((p) => jumpHostId(p) === hopId)?.credentialId;
+      const items = [
+        {
+          label: 'No saved credential',
+          description: current === undefined ? 'Current' : undefined,
+          detail: 'Use the hop\'s key or the SSH agent, or ask for a password',
+          credentialId: undefined as string | undefined,
+        },
+        ...saved.map((c) => ({
+          label: c.label,
+          description: [c.type === 'password' ? 'Password' : 'Private Key', c.id === current ? 'Current' : '']
+            .filter(Boolean)
+            .join(' · '),
+          detail: c.privateKeyPath,
+          credentialId: c.id as string | undefined,
+        })),
+      ];
+      const choice = await vscode.window.showQuickPick(items, {
+        title: `Jump host ${hop.username}@${hop.host}:${hop.port}`,
+        placeHolder: 'Saved credential for this hop',
+        ignoreFocusOut: true,
+      });
+      if (!choice) {
+        return undefined;
+      }
+      picked.push(choice.credentialId ? { ...hop, credentialId: choice.credentialId } : hop);
+    }
+    return picked;
+  }
+
   /**
    * Prompt user to edit a host
    */
@@ -815,6 +950,7 @@ export class HostService {
     let privateKeyPath: string | undefined;
     let secure: boolean | undefined;
     let anonymous: boolean | undefined;
+    let jumpHosts: IJumpHost[] | undefined;
 
     if (isFtp) {
       const ftp = await this.promptFtpOptions({
@@ -847,6 +983,27 @@ export class HostService {
         optional: true,
       });
       privateKeyPath = pickedKey === undefined ? hostConfig.privateKeyPath : (pickedKey || undefined);
+
+      // Jump hosts use OpenSSH ProxyJump syntax; empty = direct connection.
+      const jumpSpec = await vscode.window.showInputBox({
+        prompt: 'Jump hosts (optional, ProxyJump syntax: user@bastion[:port],user@next-hop)',
+        placeHolder: 'Leave empty to connect directly',
+        value: formatProxyJump(hostConfig.jumpHosts ?? []),
+        ignoreFocusOut: true,
+        validateInput: (value) => {
+          const hops = value.split(',').map((v) => v.trim()).filter(Boolean);
+          return parseProxyJump(value, username!).length === hops.length
+            ? null
+            : 'Each hop must look like user@host or user@host:port';
+        },
+      });
+      if (jumpSpec === undefined) {
+        return undefined;
+      }
+      jumpHosts = await this.promptJumpCredentials(parseProxyJump(jumpSpec, username), hostConfig.jumpHosts ?? []);
+      if (!jumpHosts) {
+        return undefined;
+      }
     }
 
     // Remove old host
@@ -862,6 +1019,8 @@ export class HostService {
       connectionType,
       secure: isFtp ? secure : undefined,
       anonymous: isFtp ? anonymous : undefined,
+      jumpHosts: jumpHosts?.length ? jumpHosts : undefined,
+      forwardAgent: isFtp ? undefined : hostConfig.forwardAgent,
     };
 
     await this.saveHost(newConfig);
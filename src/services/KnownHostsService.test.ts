@@ -0,0 +1,237 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { resetWindowMocks } from '../__mocks__/vscode';
+import { KnownHostsService } from './KnownHostsService';
+import { parseKnownHosts, hashKnownHostName } from '../utils/knownHosts';
+
+var mockHosts: any[] = [];
+jest.mock('./HostService', () => ({
+  HostService: { getInstance: () => ({ getAllHosts: () => mockHosts }) },
+}));
+
+function keyBlob(type: string, seed: string): Buffer {
+  const t = Buffer.from(type);
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(t.length);
+  return Buffer.concat([len, t, Buffer.from(seed)]);
+}
+
+const ED = keyBlob('ssh-ed25519', 'one');
+const ED2 = keyBlob('ssh-ed25519', 'two');
+const b64 = (b: Buffer) => b.toString('base64');
+
+// ssh-keygen -s ca -h -I web-host -n host.example,127.0.0.1 host.pub
+const HOST_CERT = Buffer.from(
+  'AAAAIHNzaC1lZDI1NTE5LWNlcnQtdjAxQG9wZW5zc2guY29tAAAAINkMMn+qLnw08EyAj3D3N1UXMp02qtMnFmEbfopcNNiaAAAA' +
+  'IPWucT/P+DW1lsE/snQ/fWfUxPWZLd5+PC1YeenWVXkoAAAAAAAAAAAAAAACAAAACHdlYi1ob3N0AAAAHQAAAAxob3N0LmV4YW1w' +
+  'bGUAAAAJMTI3LjAuMC4xAAAAAAAAAAD//////////wAAAAAAAAAAAAAAAAAAADMAAAALc3NoLWVkMjU1MTkAAAAg4RZnPcBXWAp7' +
+  'majVO1vxe0boWzT/GRrjRpngG+jKUD8AAABTAAAAC3NzaC1lZDI1NTE5AAAAQMRx3hGldXYggfMLc+hu1oKMowd7jV285JtwwW/V' +
+  'r2/cOHYxteOA7NElJVymfplzksdJvA/DZtvDovfgFquewQA=',
+  'base64'
+);
+const HOST_KEY = 'AAAAC3NzaC1lZDI1NTE5AAAAIPWucT/P+DW1lsE/snQ/fWfUxPWZLd5+PC1YeenWVXko';
+const CA = 'AAAAC3NzaC1lZDI1NTE5AAAAIOEWZz3AV1gKe5mo1Ttb8XtG6Fs0/xka40aZ4BvoylA/';
+
+function memento(initial: Record<string, unknown> = {}): vscode.Memento {
+  const data = new Map(Object.entries(initial));
+  return {
+    keys: () => Array.from(data.keys()),
+    get: (key: string, def?: unknown) => (data.has(key) ? data.get(key) : def),
+    update: async (key: string, value: unknown) => {
+      if (value === undefined) {
+        data.delete(key);
+      } else {
+        data.set(key, value);
+      }
+    },
+  } as vscode.Memento;
+}
+
+describe('KnownHostsService', () => {
+  let dir: string;
+  let userFile: string;
+  let globalFile: string;
+  let service: KnownHostsService;
+  let options: { userKnownHostsFiles: string[]; globalKnownHostsFiles: string[]; hashKnownHosts?: boolean };
+
+  const read = () => fs.readFileSync(userFile, 'utf-8');
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sshlite-kh-'));
+    userFile = path.join(dir, 'ssh', 'known_hosts');
+    globalFile = path.join(dir, 'ssh_known_hosts');
+    options = { userKnownHostsFiles: [userFile], globalKnownHostsFiles: [globalFile] };
+    (KnownHostsService as any)._instance = undefined;
+    service = KnownHostsService.getInstance();
+    service.setLegacyStore(memento());
+    mockHosts = [];
+    resetWindowMocks();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('resolveFiles', () => {
+    it('falls back to the OpenSSH defaults', () => {
+      const files = service.resolveFiles();
+      expect(files.user).toEqual([
+        path.join(os.homedir(), '.ssh', 'known_hosts'),
+        path.join(os.homedir(), '.ssh', 'known_hosts2'),
+      ]);
+      expect(files.hash).toBe(false);
+    });
+
+    it('lists files configured on hosts alongside the defaults', () => {
+      mockHosts = [{ sshOptions: { userKnownHostsFiles: ['/custom/kh'] } }, {}];
+      expect(service.listFiles()).toContain('/custom/kh');
+      expect(service.listFiles()).toContain(path.join(os.homedir(), '.ssh', 'known_hosts'));
+    });
+  });
+
+  describe('verifyHostKey', () => {
+    it('accepts a key already in the global file without prompting', async () => {
+      fs.writeFileSync(globalFile, `[web]:2222 ssh-ed25519 ${b64(ED)}\n`);
+      await expect(service.verifyHostKey('web', 2222, ED, options)).resolves.toBe(true);
+      expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+      expect(fs.existsSync(userFile)).toBe(false);
+    });
+
+    it('prompts for an unknown host and appends the key (creating the directory)', async () => {
+      (vscode.window.showInformationMessage as jest.Mock).mockResolvedValue('Yes, Connect');
+      await expect(service.verifyHostKey('web', 22, ED, options)).resolves.toBe(true);
+      expect(read()).toBe(`web ssh-ed25519 ${b64(ED)}\n`);
+    });
+
+    it('hashes the new entry under HashKnownHosts', async () => {
+      (vscode.window.showInformationMessage as jest.Mock).mockResolvedValue('Yes, Connect');
+      await service.verifyHostKey('web', 22, ED, { ...options, hashKnownHosts: true });
+      const [entry] = parseKnownHosts(read(), userFile);
+      expect(entry.hashed).toBe(true);
+      await expect(service.verifyHostKey('web', 22, ED, options)).resolves.toBe(true);
+    });
+
+    it('rejects an unknown host when the user declines, writing nothing', async () => {
+      (vscode.window.showInformationMessage as jest.Mock).mockResolvedValue('No');
+      await expect(service.verifyHostKey('web', 22, ED, options)).resolves.toBe(false);
+      expect(fs.existsSync(userFile)).toBe(false);
+    });
+
+    it('refuses a @revoked key', async () => {
+      fs.writeFileSync(globalFile, `@revoked * ssh-ed25519 ${b64(ED)}\n`);
+      await expect(service.verifyHostKey('web', 22, ED, options)).resolves.toBe(false);
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('@revoked'));
+    });
+
+    it('warns on a changed key and replaces the old entry when accepted', async () => {
+      fs.mkdirSync(path.dirname(userFile));
+      fs.writeFileSync(userFile, `other ssh-rsa AAAA\nweb ssh-ed25519 ${b64(ED)}\n`);
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Accept New Key');
+      await expect(service.verifyHostKey('web', 22, ED2, options)).resolves.toBe(true);
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        expect.stringContaining('HOST KEY CHANGED'), { modal: true }, 'Accept New Key', 'Reject'
+      );
+      expect(read()).toBe(`other ssh-rsa AAAA\nweb ssh-ed25519 ${b64(ED2)}\n`);
+    });
+
+    it('keeps the file untouched when a changed key is rejected', async () => {
+      fs.mkdirSync(path.dirname(userFile));
+      fs.writeFileSync(userFile, `web ssh-ed25519 ${b64(ED)}\n`);
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Reject');
+      await expect(service.verifyHostKey('web', 22, ED2, options)).resolves.toBe(false);
+      expect(read()).toBe(`web ssh-ed25519 ${b64(ED)}\n`);
+    });
+  });
+
+  describe('host certificates', () => {
+    it('accepts a certificate from a CA trusted for the host without prompting or writing', async () => {
+      fs.writeFileSync(globalFile, `@cert-authority *.example ssh-ed25519 ${CA}\n`);
+      expect(service.hasCertificateAuthority('host.example', 22, options)).toBe(true);
+      await expect(service.verifyHostKey('host.example', 22, HOST_CERT, options)).resolves.toBe(true);
+      expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+      expect(fs.existsSync(userFile)).toBe(false);
+    });
+
+    it('checks the certified key as a plain host key when no CA is trusted for the host', async () => {
+      expect(service.hasCertificateAuthority('host.example', 22, options)).toBe(false);
+      (vscode.window.showInformationMessage as jest.Mock).mockResolvedValue('Yes, Connect');
+      await expect(service.verifyHostKey('host.example', 22, HOST_CERT, options)).resolves.toBe(true);
+      expect(read()).toBe(`host.example ssh-ed25519 ${HOST_KEY}\n`);
+      await expect(service.verifyHostKey('host.example', 22, HOST_CERT, options)).resolves.toBe(true);
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('says why a certificate from a trusted CA was not accepted', async () => {
+      fs.writeFileSync(globalFile, `@cert-authority * ssh-ed25519 ${CA}\n`);
+      (vscode.window.showInformationMessage as jest.Mock).mockResolvedValue('No');
+      await expect(service.verifyHostKey('db.example', 22, HOST_CERT, options)).resolves.toBe(false);
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        expect.stringContaining('Its host certificate was not accepted: not issued for db.example'), { modal: true }, 'Yes, Connect', 'No'
+      );
+    });
+
+    it('refuses a certificate signed by a @revoked CA', async () => {
+      fs.writeFileSync(globalFile, `@cert-authority * ssh-ed25519 ${CA}\n@revoked * ssh-ed25519 ${CA}\n`);
+      await expect(service.verifyHostKey('host.example', 22, HOST_CERT, options)).resolves.toBe(false);
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('@revoked'));
+      expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('legacy globalState pins', () => {
+    const legacy = (key: Buffer) => crypto.createHash('sha256').update(key).digest('base64');
+
+    it('migrates a matching pin to known_hosts without prompting', async () => {
+      const store = memento({ 'sshLite.knownHosts': { 'web:22': legacy(ED), 'db:22': 'x' } });
+      service.setLegacyStore(store);
+      await expect(service.verifyHostKey('web', 22, ED, options)).resolves.toBe(true);
+      expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+      expect(read()).toContain(b64(ED));
+      expect(service.getLegacyPins()).toEqual([{ hostPort: 'db:22', fingerprint: 'x' }]);
+    });
+
+    it('treats a pin mismatch as a changed key', async () => {
+      service.setLegacyStore(memento({ 'sshLite.knownHosts': { 'web:22': legacy(ED) } }));
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Reject');
+      await expect(service.verifyHostKey('web', 22, ED2, options)).resolves.toBe(false);
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        expect.stringContaining('pinned by SSH Lite'), { modal: true }, 'Accept New Key', 'Reject'
+      );
+      expect(service.getLegacyPins()).toHaveLength(1);
+    });
+
+    it('drops the store key once the last pin is gone', async () => {
+      const store = memento({ 'sshLite.knownHosts': { 'web:22': 'x' } });
+      service.setLegacyStore(store);
+      await service.removeLegacyPin('web:22');
+      expect(store.keys()).toEqual([]);
+    });
+  });
+
+  describe('removeEntry', () => {
+    it('removes the entry even if lines above it changed, and fires onDidChange', async () => {
+      fs.mkdirSync(path.dirname(userFile));
+      const hashed = hashKnownHostName('web');
+      fs.writeFileSync(userFile, `a ssh-rsa AAAA\n${hashed} ssh-ed25519 ${b64(ED)}\n`);
+      const [, entry] = service.readEntries([userFile]);
+      fs.writeFileSync(userFile, `# added\na ssh-rsa AAAA\n${hashed} ssh-ed25519 ${b64(ED)}\n`);
+      const listener = jest.fn();
+      service.onDidChange(listener);
+
+      await service.removeEntry(entry);
+      expect(read()).toBe('# added\na ssh-rsa AAAA\n');
+      expect(listener).toHaveBeenCalled();
+    });
+
+    it('fails when the line is gone', async () => {
+      fs.mkdirSync(path.dirname(userFile));
+      fs.writeFileSync(userFile, `web ssh-ed25519 ${b64(ED)}\n`);
+      const [entry] = service.readEntries([userFile]);
+      fs.writeFileSync(userFile, '');
+      await expect(service.removeEntry(entry)).rejects.toThrow('no longer in');
+    });
+  });
+});
@@ -0,0 +1,367 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Client } from 'ssh2';
+import { ISSHConfigOptions } from '../types';
+import {
+  KnownHostEntry,
+  parseKnownHosts,
+  knownHostsName,
+  checkKnownHost,
+  checkHostCertificate,
+  certificateAuthorities,
+  formatKnownHostLine,
+  fingerprintSHA256,
+  hostKeyType,
+} from '../utils/knownHosts';
+import { SshCertificate, decodeSshCertificate } from '../utils/sshCertificate';
+import { infoLog } from '../utils/diagnosticLog';
+import { HostService } from './HostService';
+
+/** globalState key of the pre-known_hosts fingerprint map (`host:port` → base64 SHA256 of the key blob). */
+const LEGACY_KNOWN_HOSTS_KEY = 'sshLite.knownHosts';
+
+/** The known_hosts files that apply to one host. */
+export interface KnownHostsFiles {
+  /** UserKnownHostsFile — read, and the first one receives new keys */
+  user: string[];
+  /** GlobalKnownHostsFile — read only */
+  global: string[];
+  /** HashKnownHosts */
+  hash: boolean;
+}
+
+/** A fingerprint pinned by an older SSH Lite version, not yet moved to known_hosts. */
+export interface LegacyHostPin {
+  /** `host:port` */
+  hostPort: string;
+  /** base64 SHA256 of the raw key blob (padded, as the old code stored it) */
+  fingerprint: string;
+}
+
+/**
+ * Host key verification backed by the OpenSSH known_hosts files, so hosts
+ * trusted by the `ssh` CLI are trusted here and keys accepted here are visible
+ * to the CLI.
+ *
+ * Older versions kept their own fingerprint map in globalState. Those pins
+ * only hold a hash, not the key, so they are migrated lazily: the next time
+ * the host presents a key with the pinned fingerprint, the key is written to
+ * known_hosts and the pin is dropped.
+ */
+export class KnownHostsService {
+  private static _instance: KnownHostsService;
+  private legacyStore: vscode.Memento | null = null;
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private constructor() {}
+
+  static getInstance(): KnownHostsService {
+    if (!KnownHostsService._instance) {
+      KnownHostsService._instance = new KnownHostsService();
+    }
+    return KnownHostsService._instance;
+  }
+
+  initialize(context: vscode.ExtensionContext): void {
+    this.legacyStore = context.globalState;
+  }
+
+  /** Use a bare Memento for the legacy pins (test harnesses without an ExtensionContext). */
+  setLegacyStore(store: vscode.Memento): void {
+    this.legacyStore = store;
+  }
+
+  /**
+   * known_hosts files for a host: its ssh-config UserKnownHostsFile /
+   * GlobalKnownHostsFile when set, otherwise OpenSSH's defaults.
+   */
+  resolveFiles(options?: ISSHConfigOptions): KnownHostsFiles {
+    const home = os.homedir();
+    const defaultGlobal = process.platform === 'win32'
+      ? [path.join(process.env.PROGRAMDATA || 'C:\\ProgramData', 'ssh', 'ssh_known_hosts')]
+      : ['/etc/ssh/ssh_known_hosts', '/etc/ssh/ssh_known_hosts2'];
+    return {
+      user: options?.userKnownHostsFiles ?? [path.join(home, '.ssh', 'known_hosts'), path.join(home, '.ssh', 'known_hosts2')],
+      global: options?.globalKnownHostsFiles ?? defaultGlobal,
+      hash: options?.hashKnownHosts ?? false,
+    };
+  }
+
+  /** Every known_hosts file worth showing: the defaults plus any configured on an ssh-config host. */
+  listFiles(): string[] {
+    const files = new Set<string>();
+    const add = (f: KnownHostsFiles): void => {
+      [...f.user, ...f.global].forEach((file) => files.add(file));
+    };
+    add(this.resolveFiles());
+    for (const host of HostService.getInstance().getAllHosts()) {
+      if (host.sshOptions?.userKnownHostsFiles || host.sshOptions?.globalKnownHostsFiles) {
+        add(this.resolveFiles(host.sshOptions));
+      }
+    }
+    return Array.from(files);
+  }
+
+  /** Parsed entries of the given files; missing or unreadable files contribute nothing. */
+  readEntries(files: string[]): KnownHostEntry[] {
+    const entries: KnownHostEntry[] = [];
+    for (const file of files) {
+      let content: string;
+      try {
+        content = fs.readFileSync(file, 'utf-8');
+      } catch {
+        continue;
+      }
+      entries.push(...parseKnownHosts(content, file));
+    }
+    return entries;
+  }
+
+  getLegacyPins(): LegacyHostPin[] {
+    const map = this.legacyStore?.get<Record<string, string>>(LEGACY_KNOWN_HOSTS_KEY, {}) ?? {};
+    return Object.entries(map).map(([hostPort, fingerprint]) => ({ hostPort, fingerprint }));
+  }
+
+  async removeLegacyPin(hostPort: string): Promise<void> {
+    if (!this.legacyStore) {
+      return;
+    }
+    const map = { ...this.legacyStore.get<Record<string, string>>(LEGACY_KNOWN_HOSTS_KEY, {}) };
+    if (!(hostPort in map)) {
+      return;
+    }
+    delete map[hostPort];
+    await this.legacyStore.update(LEGACY_KNOWN_HOSTS_KEY, Object.keys(map).length > 0 ? map : undefined);
+    this._onDidChange.fire();
+  }
+
+  /** Whether a `@cert-authority` line covers the host, i.e. it is worth asking the server for a host certificate. */
+  hasCertificateAuthority(host: string, port: number, options?: ISSHConfigOptions): boolean {
+    const files = this.resolveFiles(options);
+    return certificateAuthorities(this.readEntries([...files.user, ...files.global]), knownHostsName(host, port)).length > 0;
+  }
+
+  /**
+   * Verify a presented host key, prompting the user for new or changed keys.
+   * A host certificate signed by a CA trusted for the host is accepted
+   * without asking; any other certificate is checked as the plain key it
+   * certifies, as OpenSSH does. Returns true if the connection should proceed.
+   */
+  async verifyHostKey(host: string, port: number, presented: Buffer, options?: ISSHConfigOptions): Promise<boolean> {
+    const files = this.resolveFiles(options);
+    const name = knownHostsName(host, port);
+    const entries = this.readEntries([...files.user, ...files.global]);
+    let hostKey = presented;
+    let certificateNote = '';
+    if (hostKeyType(presented).endsWith('-cert-v01@openssh.com')) {
+      let cert: SshCertificate;
+      try {
+        cert = decodeSshCertificate(presented);
+      } catch (err) {
+        void vscode.window.showErrorMessage(`'${name}' presented an unreadable host certificate: ${(err as Error).message}. Connection refused.`);
+        return false;
+      }
+      const certCheck = checkHostCertificate(entries, name, host, cert);
+      infoLog('known-hosts', 'verify certificate', {
+        host: name,
+        keyId: cert.keyId,
+        ca: fingerprintSHA256(cert.caKey),
+        status: certCheck.status,
+        reason: certCheck.reason,
+      });
+      if (certCheck.status === 'ok') {
+        return true;
+      }
+      if (certCheck.status === 'revoked') {
+        const where = certCheck.entry!;
+        void vscode.window.showErrorMessage(
+          `The host certificate for '${name}' (or its CA) is marked @revoked in ${where.file}:${where.line}. Connection refused.`
+        );
+        return false;
+      }
+      if (certCheck.status === 'invalid') {
+        certificateNote = `Its host certificate was not accepted: ${certCheck.reason}.\n\n`;
+      }
+      hostKey = cert.publicKey;
+    }
+
+    const fingerprint = fingerprintSHA256(hostKey);
+    const keyType = hostKeyType(hostKey);
+    const check = checkKnownHost(entries, name, hostKey);
+    const hostPort = `${host}:${port}`;
+    const legacyPin = this.getLegacyPins().find((p) => p.hostPort === hostPort)?.fingerprint;
+
+    infoLog('known-hosts', 'verify', { host: name, keyType, fingerprint, status: check.status, legacyPin: !!legacyPin });
+
+    if (check.status === 'ok') {
+      if (legacyPin) {
+        await this.removeLegacyPin(hostPort);
+      }
+      return true;
+    }
+
+    if (check.status === 'revoked') {
+      const where = check.entries[0];
+      void vscode.window.showErrorMessage(
+        `The ${keyType} host key for '${name}' is marked @revoked in ${where.file}:${where.line}. Connection refused.`
+      );
+      return false;
+    }
+
+    if (check.status === 'unknown' && legacyPin === crypto.createHash('sha256').update(hostKey).digest('base64')) {
+      // Pinned by an older version: move it to known_hosts without asking again
+      await this.addHostKey(host, port, hostKey, options);
+      await this.removeLegacyPin(hostPort);
+      infoLog('known-hosts', 'migrated legacy pin', { host: name, fingerprint });
+      return true;
+    }
+
+    if (check.status === 'changed' || legacyPin) {
+      const old = check.entries[0];
+      const oldDescription = old
+        ? `Old fingerprint: ${fingerprintSHA256(old.key)} (${old.file}:${old.line})`
+        : `Old fingerprint: SHA256:${legacyPin!.replace(/=+$/, '')} (pinned by SSH Lite)`;
+      const choice = await vscode.window.showWarningMessage(
+        `⚠️ WARNING: HOST KEY CHANGED for ${name}!\n\n` +
+        `This could indicate a man-in-the-middle attack or server reconfiguration.\n\n` +
+        certificateNote +
+        `${oldDescription}\n` +
+        `New ${keyType} fingerprint: ${fingerprint}`,
+        { modal: true },
+        'Accept New Key',
+        'Reject'
+      );
+      if (choice !== 'Accept New Key') {
+        return false;
+      }
+      await this.replaceHostKey(host, port, hostKey, options);
+      await this.removeLegacyPin(hostPort);
+      return true;
+    }
+
+    const otherTypes = check.entries.map((e) => e.keyType);
+    const choice = await vscode.window.showInformationMessage(
+      `The authenticity of host '${name}' can't be established.\n\n` +
+      certificateNote +
+      `${keyType} key fingerprint is ${fingerprint}.\n` +
+      (otherTypes.length > 0 ? `This host is known by other key types: ${Array.from(new Set(otherTypes)).join(', ')}.\n` : '') +
+      `\nAre you sure you want to continue connecting?`,
+      { modal: true },
+      'Yes, Connect',
+      'No'
+    );
+    if (choice !== 'Yes, Connect') {
+      return false;
+    }
+    await this.addHostKey(host, port, hostKey, options);
+    return true;
+  }
+
+  /**
+   * Append a host key to the first UserKnownHostsFile. With
+   * `UserKnownHostsFile none` there is nowhere to write and the key is
+   * trusted for this connection only.
+   */
+  async addHostKey(host: string, port: number, hostKey: Buffer, options?: ISSHConfigOptions): Promise<void> {
+    const files = this.resolveFiles(options);
+    const target = files.user[0];
+    if (!target) {
+      return;
+    }
+    const line = formatKnownHostLine(knownHostsName(host, port), hostKey, files.hash);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true, mode: 0o700 });
+    let prefix = '';
+    try {
+      const existing = await fs.promises.readFile(target, 'utf-8');
+      if (existing.length > 0 && !existing.endsWith('\n')) {
+        prefix = '\n';
+      }
+    } catch {
+      // New file
+    }
+    await fs.promises.appendFile(target, `${prefix}${line}\n`, { mode: 0o600 });
+    infoLog('known-hosts', 'added', { host: knownHostsName(host, port), file: target, hashed: files.hash });
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Replace the pinned key of this type: drop same-type entries for the host
+   * from the user files (global files are left alone — the new user entry
+   * takes precedence) and append the new key.
+   */
+  async replaceHostKey(host: string, port: number, hostKey: Buffer, options?: ISSHConfigOptions): Promise<void> {
+    const files = this.resolveFiles(options);
+    const check = checkKnownHost(this.readEntries(files.user), knownHostsName(host, port), hostKey);
+    if (check.status === 'changed') {
+      // Bottom-up so earlier line numbers stay valid
+      for (const entry of [...check.entries].sort((a, b) => b.line - a.line)) {
+        await this.removeEntry(entry);
+      }
+    }
+    if (check.status !== 'ok') {
+      await this.addHostKey(host, port, hostKey, options);
+    }
+  }
+
+  /** Delete one entry from its file. Fails if the line is no longer in the file. */
+  async removeEntry(entry: KnownHostEntry): Promise<void> {
+    const content = await fs.promises.readFile(entry.file, 'utf-8');
+    const lines = content.split('\n');
+    const same = (i: number): boolean => lines[i]?.replace(/\r$/, '') === entry.raw;
+    const index = same(entry.line - 1) ? entry.line - 1 : lines.findIndex((_, i) => same(i));
+    if (index === -1) {
+      throw new Error(`Entry for ${entry.hosts} is no longer in ${entry.file} (file changed on disk)`);
+    }
+    lines.splice(index, 1);
+    await fs.promises.writeFile(entry.file, lines.join('\n'), 'utf-8');
+    infoLog('known-hosts', 'removed', { file: entry.file, line: index + 1, keyType: entry.keyType });
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Fetch the key a server presents, without authenticating: the handshake
+   * is aborted right after the host key arrives.
+   */
+  fetchHostKey(host: string, port: number, timeoutMs = 10000): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const client = new Client();
+      let key: Buffer | undefined;
+      const done = (): void => {
+        try {
+          client.end();
+        } catch {
+          // Ignore cleanup errors
+        }
+      };
+      client.on('error', (err) => {
+        done();
+        if (key) {
+          resolve(key);
+        } else {
+          reject(err);
+        }
+      });
+      client.on('ready', done);
+      client.connect({
+        host,
+        port,
+        username: 'sshlite-hostkey-probe',
+        readyTimeout: timeoutMs,
+        hostVerifier: (presented: Buffer) => {
+          key = presented;
+          resolve(presented);
+          return false;
+        },
+      });
+    });
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+}
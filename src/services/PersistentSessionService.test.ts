@@ -0,0 +1,81 @@
+/**
+ * PersistentSessionService tests
+ *
+ * Covers:
+ *  - off by default, and never for hosts that cannot run commands
+ *  - backend detection once per connection, honouring the preference
+ *  - a failed detection falls back to a plain shell
+ *  - listing sessions on a host
+ */
+
+import { setMockConfig, clearMockConfig } from '../__mocks__/vscode';
+import { PersistentSessionService } from './PersistentSessionService';
+
+function makeConnection(detected = 'tmux\nscreen\nnohup\n') {
+  return {
+    id: 'web1:22:deploy',
+    host: { name: 'web1' },
+    capabilities: { type: 'ssh', supportsExec: true },
+    execDetailed: jest.fn().mockResolvedValue({ stdout: detected, stderr: '', exitCode: 0, durationMs: 4 }),
+  };
+}
+
+function reset(): PersistentSessionService {
+  (PersistentSessionService as any)._instance = undefined;
+  return PersistentSessionService.getInstance();
+}
+
+describe('PersistentSessionService', () => {
+  let service: PersistentSessionService;
+
+  beforeEach(() => {
+    clearMockConfig();
+    service = reset();
+  });
+
+  it('gives plain shells while persistent sessions are off', async () => {
+    const conn = makeConnection();
+    expect(await service.newSession(conn as any)).toBeUndefined();
+    expect(conn.execDetailed).not.toHaveBeenCalled();
+  });
+
+  it('gives plain shells on hosts that cannot run commands', async () => {
+    setMockConfig('sshLite.terminal.persistentSessions', true);
+    const conn = { ...makeConnection(), capabilities: { type: 'ssh', supportsExec: false } };
+    expect(await service.newSession(conn as any)).toBeUndefined();
+  });
+
+  it('detects the backend once per connection and names each session', async () => {
+    setMockConfig('sshLite.terminal.persistentSessions', true);
+    const conn = makeConnection();
+
+    const first = await service.newSession(conn as any);
+    const second = await service.newSession(conn as any);
+
+    expect(first).toEqual({ backend: 'tmux', name: expect.stringMatching(/^sshlite-[0-9a-z]+-1$/) });
+    expect(second?.name).toMatch(/-2$/);
+    expect(conn.execDetailed).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the preferred backend when the host has it', async () => {
+    setMockConfig('sshLite.terminal.persistentSessions', true);
+    setMockConfig('sshLite.terminal.sessionBackend', 'screen');
+    expect((await service.newSession(makeConnection() as any))?.backend).toBe('screen');
+  });
+
+  it('falls back to a plain shell when detection fails', async () => {
+    setMockConfig('sshLite.terminal.persistentSessions', true);
+    const conn = makeConnection();
+    conn.execDetailed.mockResolvedValueOnce({ stdout: '', stderr: 'sh: not found', exitCode: 127, durationMs: 2 });
+    expect(await service.newSession(conn as any)).toBeUndefined();
+  });
+
+  it('lists the sessions running on a host', async () => {
+    const conn = makeConnection();
+    conn.execDetailed.mockResolvedValueOnce({ stdout: 'tmux sshlite-abc-1 0\ntmux work 1\n', stderr: '', exitCode: 0, durationMs: 6 });
+
+    const sessions = await service.listSessions(conn as any);
+
+    expect(sessions).toEqual([expect.objectContaining({ backend: 'tmux', name: 'sshlite-abc-1', attached: false })]);
+  });
+});
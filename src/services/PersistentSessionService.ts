@@ -0,0 +1,85 @@
+import * as vscode from 'vscode';
+import { SSHConnection } from '../connection/SSHConnection';
+import { hasCapability } from '../utils/capabilityGuard';
+import { checkExecResult } from '../utils/execResult';
+import { infoLog } from '../utils/diagnosticLog';
+import {
+  PersistentSession,
+  RemoteSession,
+  SessionBackend,
+  buildDetectCommand,
+  buildListCommand,
+  chooseBackend,
+  newSessionName,
+  parseSessionList,
+} from '../utils/persistentSession';
+
+/**
+ * Opt-in persistent terminal sessions (`sshLite.terminal.persistentSessions`):
+ * which session tool a host has, new session names, and the sessions still
+ * running on a host. TerminalService runs terminals inside them and
+ * reattaches after a reconnect.
+ */
+export class PersistentSessionService {
+  private static _instance: PersistentSessionService;
+  /** Detected backend per connection; hosts rarely gain or lose tmux mid-session */
+  private backends: Map<string, SessionBackend> = new Map();
+  private counter = 0;
+
+  private constructor() {}
+
+  static getInstance(): PersistentSessionService {
+    if (!PersistentSessionService._instance) {
+      PersistentSessionService._instance = new PersistentSessionService();
+    }
+    return PersistentSessionService._instance;
+  }
+
+  isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('sshLite').get<boolean>('terminal.persistentSessions', false);
+  }
+
+  /** tmux, screen or nohup, by `sshLite.terminal.sessionBackend` among what the host has */
+  async getBackend(connection: SSHConnection): Promise<SessionBackend> {
+    const cached = this.backends.get(connection.id);
+    if (cached) {
+      return cached;
+    }
+    const preference = vscode.workspace
+      .getConfiguration('sshLite')
+      .get<SessionBackend | 'auto'>('terminal.sessionBackend', 'auto');
+    const result = checkExecResult(await connection.execDetailed(buildDetectCommand(), { timeoutMs: 10_000 }));
+    const backend = chooseBackend(result.stdout, preference);
+    this.backends.set(connection.id, backend);
+    infoLog('terminal-session', 'backend', { connectionId: connection.id, backend, preference });
+    return backend;
+  }
+
+  /**
+   * A session for a new terminal, or undefined for a plain shell: when
+   * persistent sessions are off, the host cannot run commands, or detecting
+   * the backend failed (logged; the terminal still opens).
+   */
+  async newSession(connection: SSHConnection): Promise<PersistentSession | undefined> {
+    if (!this.isEnabled() || !hasCapability(connection, 'supportsExec')) {
+      return undefined;
+    }
+    try {
+      const backend = await this.getBackend(connection);
+      return { backend, name: newSessionName(++this.counter) };
+    } catch (error) {
+      infoLog('terminal-session', 'detect/failed', { connectionId: connection.id, errorMessage: (error as Error).message });
+      return undefined;
+    }
+  }
+
+  /** Our sessions still running on the host, newest first */
+  async listSessions(connection: SSHConnection): Promise<RemoteSession[]> {
+    const result = checkExecResult(await connection.execDetailed(buildListCommand(), { timeoutMs: 15_000 }));
+    return parseSessionList(result.stdout);
+  }
+
+  dispose(): void {
+    this.backends.clear();
+  }
+}
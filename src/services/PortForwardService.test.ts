@@ -94,7 +94,7 @@ describe('PortForwardService', () => {
 
       await service.forwardPort(mockConn as any, 8080, 'localhost', 80);
 
-      expect(mockAddForward).toHaveBeenCalledWith(mockConn.id, 8080, 'localhost', 80);
+      expect(mockAddForward).toHaveBeenCalledWith(mockConn.id, 8080, 'localhost', 80, 'local', undefined, 80);
     });
 
     it('should show success status bar message', async () => {
@@ -179,7 +179,7 @@ describe('PortForwardService', () => {
 
       await service.stopForward(forward);
 
-      expect(mockRemoveForward).toHaveBeenCalledWith(8080, mockConn.id);
+      expect(mockRemoveForward).toHaveBeenCalledWith(8080, mockConn.id, undefined);
     });
 
     it('should show warning if connection no longer active', async () => {
@@ -416,7 +416,7 @@ describe('PortForwardService', () => {
       await service.restoreForwardsForConnection(mockConn as any);
 
       expect(mockConn.forwardPort).toHaveBeenCalledWith(3000, 'localhost', 3000);
-      expect(mockAddForward).toHaveBeenCalledWith(mockConn.id, 3000, 'localhost', 3000);
+      expect(mockAddForward).toHaveBeenCalledWith(mockConn.id, 3000, 'localhost', 3000, 'local', undefined, 3000);
     });
 
     it('should restore multiple forwards', async () => {
@@ -448,7 +448,7 @@ describe('PortForwardService', () => {
 
       // First forward should be added to tree, second should not
       expect(mockAddForward).toHaveBeenCalledTimes(1);
-      expect(mockAddForward).toHaveBeenCalledWith(mockConn.id, 3000, 'localhost', 3000);
+      expect(mockAddForward).toHaveBeenCalledWith(mockConn.id, 3000, 'localhost', 3000, 'local', undefined, 3000);
     });
 
     it('should do nothing when no saved rules', async () => {
@@ -547,14 +547,168 @@ describe('PortForwardService', () => {
     it('should prompt for local port after connection selection', async () => {
       const mockConn = createMockConnection();
       mockGetAllConnections.mockReturnValue([mockConn]);
-      (window.showQuickPick as jest.Mock).mockResolvedValue({
-        connection: mockConn,
-      });
+      (window.showQuickPick as jest.Mock)
+        .mockResolvedValueOnce({ connection: mockConn })
+        .mockResolvedValueOnce({ forwardKind: 'local' });
       (window.showInputBox as jest.Mock).mockResolvedValue(undefined); // User cancels
 
       await service.promptForwardPort();
 
       expect(window.showInputBox).toHaveBeenCalled();
     });
+
+    it('should cancel if user dismisses the forward type picker', async () => {
+      const mockConn = createMockConnection();
+      mockGetAllConnections.mockReturnValue([mockConn]);
+      (window.showQuickPick as jest.Mock)
+        .mockResolvedValueOnce({ connection: mockConn })
+        .mockResolvedValueOnce(undefined);
+
+      await service.promptForwardPort();
+
+      expect(window.showInputBox).not.toHaveBeenCalled();
+    });
+
+    it('should create a remote forward from server port, local host and local port', async () => {
+      const mockConn = createMockConnection();
+      mockGetAllConnections.mockReturnValue([mockConn]);
+      (window.showQuickPick as jest.Mock)
+        .mockResolvedValueOnce({ connection: mockConn })
+        .mockResolvedValueOnce({ forwardKind: 'remote' });
+      (window.showInputBox as jest.Mock)
+        .mockResolvedValueOnce('9000')
+        .mockResolvedValueOnce('localhost')
+        .mockResolvedValueOnce('3000');
+
+      await service.promptForwardPort();
+
+      expect(mockConn.forwardRemotePort).toHaveBeenCalledWith('localhost', 9000, 'localhost', 3000);
+      expect(mockConn.forwardPort).not.toHaveBeenCalled();
+    });
+
+    it('should create a dynamic forward from the SOCKS port alone', async () => {
+      const mockConn = createMockConnection();
+      mockGetAllConnections.mockReturnValue([mockConn]);
+      (window.showQuickPick as jest.Mock)
+        .mockResolvedValueOnce({ connection: mockConn })
+        .mockResolvedValueOnce({ forwardKind: 'dynamic' });
+      (window.showInputBox as jest.Mock).mockResolvedValueOnce('1080');
+
+      await service.promptForwardPort();
+
+      expect(window.showInputBox).toHaveBeenCalledTimes(1);
+      expect(window.showInputBox).toHaveBeenCalledWith(expect.objectContaining({ value: '1080' }));
+      expect(mockConn.forwardDynamic).toHaveBeenCalledWith(1080);
+    });
+  });
+
+  describe('remote and dynamic forwards', () => {
+    it('should open a remote forward with forwardIn semantics and add it to the tree', async () => {
+      const mockConn = createMockConnection();
+
+      await service.forwardPort(mockConn as any, 3000, 'localhost', 9000, 'remote', '127.0.0.1');
+
+      expect(mockConn.forwardRemotePort).toHaveBeenCalledWith('localhost', 9000, '127.0.0.1', 3000);
+      expect(mockAddForward).toHaveBeenCalledWith(mockConn.id, 3000, 'localhost', 9000, 'remote', '127.0.0.1', 9000);
+      expect(window.setStatusBarMessage).toHaveBeenCalledWith(
+        expect.stringContaining('server:9000 → 127.0.0.1:3000'),
+        5000
+      );
+    });
+
+    it('should show and track the port the server picked for remote port 0', async () => {
+      service.initialize(mockContext);
+      const mockConn = createMockConnection();
+      mockConn.forwardRemotePort.mockResolvedValueOnce(41234);
+
+      await service.forwardPort(mockConn as any, 3000, 'localhost', 0, 'remote', 'localhost');
+
+      expect(mockAddForward).toHaveBeenCalledWith(mockConn.id, 3000, 'localhost', 41234, 'remote', 'localhost', 0);
+      expect(window.setStatusBarMessage).toHaveBeenCalledWith(expect.stringContaining('server:41234 → localhost:3000'), 5000);
+      expect(service.getSavedRules(mockConn.id)[0]).toMatchObject({ kind: 'remote', remotePort: 0 });
+    });
+
+    it('should open a dynamic forward as a local SOCKS listener', async () => {
+      const mockConn = createMockConnection();
+
+      await service.forwardPort(mockConn as any, 1080, '', 0, 'dynamic');
+
+      expect(mockConn.forwardDynamic).toHaveBeenCalledWith(1080);
+      expect(mockConn.forwardPort).not.toHaveBeenCalled();
+      expect(mockAddForward).toHaveBeenCalledWith(mockConn.id, 1080, '', 0, 'dynamic', undefined, 0);
+    });
+
+    it('should persist the kind only for non-local rules', async () => {
+      service.initialize(mockContext);
+      const mockConn = createMockConnection();
+
+      await service.forwardPort(mockConn as any, 3000, 'localhost', 3000);
+      await service.forwardPort(mockConn as any, 3000, 'localhost', 9000, 'remote', 'localhost');
+      await service.forwardPort(mockConn as any, 1080, '', 0, 'dynamic');
+
+      const rules = service.getSavedRules(mockConn.id);
+      expect(rules).toHaveLength(3);
+      expect(rules[0]).not.toHaveProperty('kind');
+      expect(rules[1]).toMatchObject({ kind: 'remote', localHost: 'localhost', remotePort: 9000 });
+      expect(rules[2]).toMatchObject({ kind: 'dynamic', localPort: 1080 });
+    });
+
+    it('should not dedupe a remote rule against a local rule with the same ports', async () => {
+      service.initialize(mockContext);
+
+      await service.saveRule('host1:22:user', 3000, 'localhost', 3000);
+      await service.saveRule('host1:22:user', 3000, 'localhost', 3000, 'remote', 'localhost');
+      await service.saveRule('host1:22:user', 3000, 'localhost', 3000, 'remote', 'localhost');
+
+      expect(service.getSavedRules('host1:22:user')).toHaveLength(2);
+    });
+
+    it('should restore each saved kind through its own connection method', async () => {
+      service.initialize(mockContext);
+      const mockConn = createMockConnection();
+      await service.saveRule(mockConn.id, 3000, 'localhost', 9000, 'remote', 'localhost');
+      await service.saveRule(mockConn.id, 1080, '', 0, 'dynamic');
+      jest.clearAllMocks();
+
+      await service.restoreForwardsForConnection(mockConn as any);
+
+      expect(mockConn.forwardRemotePort).toHaveBeenCalledWith('localhost', 9000, 'localhost', 3000);
+      expect(mockConn.forwardDynamic).toHaveBeenCalledWith(1080);
+      expect(mockConn.forwardPort).not.toHaveBeenCalled();
+      expect(mockAddForward).toHaveBeenCalledWith(mockConn.id, 3000, 'localhost', 9000, 'remote', 'localhost', 9000);
+    });
+
+    it('should stop a remote forward by its server port', async () => {
+      const mockConn = createMockConnection();
+      mockGetConnection.mockReturnValue(mockConn);
+      const forward = createMockPortForward({
+        connectionId: mockConn.id,
+        kind: 'remote',
+        localPort: 3000,
+        remotePort: 9000,
+        localHost: 'localhost',
+      });
+
+      await service.stopForward(forward);
+
+      expect(mockConn.stopRemoteForward).toHaveBeenCalledWith(9000);
+      expect(mockConn.stopForward).not.toHaveBeenCalled();
+      expect(mockRemoveForward).toHaveBeenCalledWith(9000, mockConn.id, 'remote');
+    });
+
+    it('should deactivate remote forwards with stopRemoteForward', async () => {
+      const mockConn = createMockConnection();
+      mockGetConnection.mockReturnValue(mockConn);
+      mockGetForwardsForConnection.mockReturnValue([
+        createMockPortForward({ connectionId: mockConn.id, localPort: 3000 }),
+        createMockPortForward({ connectionId: mockConn.id, kind: 'remote', localPort: 3000, remotePort: 9000 }),
+      ]);
+
+      await service.deactivateAllForwardsForConnection(mockConn.id);
+
+      expect(mockConn.stopForward).toHaveBeenCalledWith(3000);
+      expect(mockConn.stopRemoteForward).toHaveBeenCalledWith(9000);
+      expect(mockRemoveForward).toHaveBeenCalledWith(9000, mockConn.id, 'remote');
+    });
   });
 });
@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import { ConnectionManager } from '../connection/ConnectionManager';
 import { SSHConnection } from '../connection/SSHConnection';
 import { PortForwardTreeProvider } from '../providers/PortForwardTreeProvider';
-import { IPortForward, ISavedPortForwardRule } from '../types';
+import { IPortForward, ISavedPortForwardRule, PortForwardKind } from '../types';
 import { infoLog } from '../utils/diagnosticLog';
 import { assertCapability, hasCapability } from '../utils/capabilityGuard';
 
@@ -13,6 +13,33 @@ interface SavedPortForwardIndex {
   [hostId: string]: ISavedPortForwardRule[];
 }
 
+const PORT_VALIDATION_MESSAGE = 'Please enter a valid port number (1-65535)';
+
+function validatePort(value: string): string | null {
+  const port = parseInt(value, 10);
+  if (isNaN(port) || port < 1 || port > 65535) {
+    return PORT_VALIDATION_MESSAGE;
+  }
+  return null;
+}
+
+/**
+ * Human-readable summary for status messages, e.g.
+ * `localhost:8080 → db:5432`, `server:9000 → localhost:3000`, `SOCKS localhost:1080`
+ */
+export function describePortForward(
+  forward: Pick<IPortForward, 'kind' | 'localPort' | 'remoteHost' | 'remotePort' | 'localHost'>,
+): string {
+  switch (forward.kind) {
+    case 'remote':
+      return `server:${forward.remotePort} → ${forward.localHost || 'localhost'}:${forward.localPort}`;
+    case 'dynamic':
+      return `SOCKS localhost:${forward.localPort}`;
+    default:
+      return `localhost:${forward.localPort} → ${forward.remoteHost}:${forward.remotePort}`;
+  }
+}
+
 /**
  * Service for managing port forwards with persistence
  */
@@ -88,13 +115,15 @@ export class PortForwardService {
   }
 
   /**
-   * Save a port forward rule (dedup by localPort+remoteHost+remotePort)
+   * Save a port forward rule (dedup by kind+localPort+remoteHost+remotePort+localHost)
    */
   async saveRule(
     hostId: string,
     localPort: number,
     remoteHost: string,
-    remotePort: number
+    remotePort: number,
+    kind: PortForwardKind = 'local',
+    localHost?: string
   ): Promise<ISavedPortForwardRule> {
     if (!this.savedRules[hostId]) {
       this.savedRules[hostId] = [];
@@ -102,7 +131,12 @@ export class PortForwardService {
 
     // Dedup: check if an identical rule already exists
     const existing = this.savedRules[hostId].find(
-      (r) => r.localPort === localPort && r.remoteHost === remoteHost && r.remotePort === remotePort
+      (r) =>
+        (r.kind ?? 'local') === kind &&
+        r.localPort === localPort &&
+        r.remoteHost === remoteHost &&
+        r.remotePort === remotePort &&
+        r.localHost === localHost
     );
     if (existing) {
       return existing;
@@ -114,6 +148,13 @@ export class PortForwardService {
       remoteHost,
       remotePort,
     };
+    // Rules saved before forward kinds existed have neither field; keep local rules in that shape
+    if (kind !== 'local') {
+      rule.kind = kind;
+    }
+    if (localHost !== undefined) {
+      rule.localHost = localHost;
+    }
 
     this.savedRules[hostId].push(rule);
     await this.saveSavedRules();
@@ -172,18 +213,39 @@ export class PortForwardService {
       return;
     }
 
+    const kindPick = await vscode.window.showQuickPick(
+      [
+        { label: 'Local (-L)', description: 'Reach a server-side port from this machine', forwardKind: 'local' as const },
+        { label: 'Remote (-R)', description: 'Expose a port on this machine to the server', forwardKind: 'remote' as const },
+        { label: 'Dynamic SOCKS (-D)', description: 'SOCKS5 proxy on this machine that exits from the server', forwardKind: 'dynamic' as const },
+      ],
+      { placeHolder: 'Forward type', ignoreFocusOut: true }
+    );
+
+    if (!kindPick) {
+      return;
+    }
+
+    const connection = selectedConnection.connection;
+    if (kindPick.forwardKind === 'remote') {
+      await this.promptRemoteForward(connection);
+    } else if (kindPick.forwardKind === 'dynamic') {
+      await this.promptDynamicForward(connection);
+    } else {
+      await this.promptLocalForward(connection);
+    }
+  }
+
+  /**
+   * Ask for a local (-L) forward: server-side target, then the local listen port
+   */
+  private async promptLocalForward(connection: SSHConnection): Promise<void> {
     // Get remote port first — this is the port the user wants to reach
     const remotePortStr = await vscode.window.showInputBox({
       prompt: 'Server port to forward',
       placeHolder: '8080',
       ignoreFocusOut: true,
-      validateInput: (value) => {
-        const port = parseInt(value, 10);
-        if (isNaN(port) || port < 1 || port > 65535) {
-          return 'Please enter a valid port number (1-65535)';
-        }
-        return null;
-      },
+      validateInput: validatePort,
     });
 
     if (!remotePortStr) {
@@ -204,32 +266,90 @@ export class PortForwardService {
     }
 
     // Get local port — the port on the user's machine
+    const localPort = await this.promptLocalListenPort(connection, remotePortStr);
+    if (localPort === undefined) {
+      return;
+    }
+
+    // Create the forward
+    await this.forwardPort(connection, localPort, remoteHost, remotePort);
+  }
+
+  /**
+   * Ask for a remote (-R) forward: the port the server listens on, then the
+   * target on this machine
+   */
+  private async promptRemoteForward(connection: SSHConnection): Promise<void> {
+    const remotePortStr = await vscode.window.showInputBox({
+      prompt: 'Port for the server to listen on (0 = any free port)',
+      placeHolder: '8080',
+      ignoreFocusOut: true,
+      validateInput: (value) => (value.trim() === '0' ? null : validatePort(value)),
+    });
+
+    if (!remotePortStr) {
+      return;
+    }
+
+    const localHost = await vscode.window.showInputBox({
+      prompt: 'Forward to host (localhost = this machine)',
+      value: 'localhost',
+      ignoreFocusOut: true,
+    });
+
+    if (!localHost) {
+      return;
+    }
+
+    const localPortStr = await vscode.window.showInputBox({
+      prompt: `Forward to port on ${localHost}`,
+      value: remotePortStr.trim() === '0' ? '' : remotePortStr,
+      ignoreFocusOut: true,
+      validateInput: validatePort,
+    });
+
+    if (!localPortStr) {
+      return;
+    }
+
+    // Bind on the server's loopback; sshd's GatewayPorts decides whether others may connect
+    await this.forwardPort(connection, parseInt(localPortStr, 10), 'localhost', parseInt(remotePortStr, 10), 'remote', localHost);
+  }
+
+  /**
+   * Ask for a dynamic (-D) forward: just the local SOCKS port
+   */
+  private async promptDynamicForward(connection: SSHConnection): Promise<void> {
+    const localPort = await this.promptLocalListenPort(connection, '1080', 'SOCKS proxy port on this machine');
+    if (localPort === undefined) {
+      return;
+    }
+    await this.forwardPort(connection, localPort, '', 0, 'dynamic');
+  }
+
+  private async promptLocalListenPort(
+    connection: SSHConnection,
+    defaultPort: string,
+    prompt = 'Listen on local port'
+  ): Promise<number | undefined> {
     const localPortStr = await vscode.window.showInputBox({
-      prompt: 'Listen on local port',
-      value: remotePortStr, // Default to same as remote
+      prompt,
+      value: defaultPort,
       ignoreFocusOut: true,
       validateInput: (value) => {
-        const port = parseInt(value, 10);
-        if (isNaN(port) || port < 1 || port > 65535) {
-          return 'Please enter a valid port number (1-65535)';
+        const invalid = validatePort(value);
+        if (invalid) {
+          return invalid;
         }
         // Check if port is already in use locally
-        const existingForwards = selectedConnection.connection.getActiveForwards();
-        if (existingForwards.includes(port)) {
+        if (connection.getActiveForwards().includes(parseInt(value, 10))) {
           return 'This local port is already forwarded';
         }
         return null;
       },
     });
 
-    if (!localPortStr) {
-      return;
-    }
-
-    const localPort = parseInt(localPortStr, 10);
-
-    // Create the forward
-    await this.forwardPort(selectedConnection.connection, localPort, remoteHost, remotePort);
+    return localPortStr ? parseInt(localPortStr, 10) : undefined;
   }
 
   /**
@@ -239,7 +359,9 @@ export class PortForwardService {
     connection: SSHConnection,
     localPort: number,
     remoteHost: string,
-    remotePort: number
+    remotePort: number,
+    kind: PortForwardKind = 'local',
+    localHost?: string
   ): Promise<void> {
     // Backstop: FTP has no port forwarding. Covers promptForwardPort,
     // activateSavedForward, and restoreSavedForwards (all route through here).
@@ -248,35 +370,38 @@ export class PortForwardService {
     infoLog('port-forward', 'create/begin', {
       connectionId: connection.id,
       hostName: connection.host.name,
+      kind,
       localPort,
       remoteHost,
       remotePort,
     });
     try {
-      await connection.forwardPort(localPort, remoteHost, remotePort);
+      const boundPort = await this.startForward(connection, { kind, localPort, remoteHost, remotePort, localHost });
 
       // Update tree provider
       if (this.treeProvider) {
-        this.treeProvider.addForward(connection.id, localPort, remoteHost, remotePort);
+        this.treeProvider.addForward(connection.id, localPort, remoteHost, boundPort, kind, localHost, remotePort);
       }
 
-      // Auto-save the rule for persistence
-      await this.saveRule(connection.id, localPort, remoteHost, remotePort);
+      // Auto-save the rule for persistence (with the port asked for: 0 asks for any port again)
+      await this.saveRule(connection.id, localPort, remoteHost, remotePort, kind, localHost);
 
       infoLog('port-forward', 'create/success', {
         connectionId: connection.id,
+        kind,
         localPort,
         remoteHost,
-        remotePort,
+        remotePort: boundPort,
         durationMs: Date.now() - t0,
       });
       vscode.window.setStatusBarMessage(
-        `$(check) Port forward: localhost:${localPort} → ${remoteHost}:${remotePort}`, 5000
+        `$(check) Port forward: ${describePortForward({ kind, localPort, remoteHost, remotePort: boundPort, localHost })}`, 5000
       );
     } catch (error) {
       const e = error as Error;
       infoLog('port-forward', 'create/failed', {
         connectionId: connection.id,
+        kind,
         localPort,
         remoteHost,
         remotePort,
@@ -288,6 +413,38 @@ export class PortForwardService {
     }
   }
 
+  /**
+   * Open a forward of any kind on the connection. Returns the remote port in
+   * use: the one the server bound for a remote forward (it picks one for 0).
+   */
+  private async startForward(
+    connection: SSHConnection,
+    rule: Pick<ISavedPortForwardRule, 'kind' | 'localPort' | 'remoteHost' | 'remotePort' | 'localHost'>
+  ): Promise<number> {
+    switch (rule.kind) {
+      case 'remote':
+        return connection.forwardRemotePort(rule.remoteHost, rule.remotePort, rule.localHost || 'localhost', rule.localPort);
+      case 'dynamic':
+        await connection.forwardDynamic(rule.localPort);
+        return rule.remotePort;
+      default:
+        await connection.forwardPort(rule.localPort, rule.remoteHost, rule.remotePort);
+        return rule.remotePort;
+    }
+  }
+
+  /**
+   * Close a forward of any kind: remote forwards are keyed by the server port,
+   * local and dynamic ones by the local listener
+   */
+  private async closeForward(connection: SSHConnection, forward: IPortForward): Promise<void> {
+    if (forward.kind === 'remote') {
+      await connection.stopRemoteForward(forward.remotePort);
+    } else {
+      await connection.stopForward(forward.localPort);
+    }
+  }
+
   /**
    * Stop a port forward (keeps the saved rule for later reactivation)
    */
@@ -302,20 +459,21 @@ export class PortForwardService {
 
     infoLog('port-forward', 'stop/begin', {
       connectionId: forward.connectionId,
+      kind: forward.kind ?? 'local',
       localPort: forward.localPort,
       remoteHost: forward.remoteHost,
       remotePort: forward.remotePort,
     });
     try {
-      await connection.stopForward(forward.localPort);
+      await this.closeForward(connection, forward);
 
       // Remove active forward from tree (saved rule remains visible as dimmed)
       if (this.treeProvider) {
-        this.treeProvider.removeForward(forward.localPort, forward.connectionId);
+        this.treeProvider.removeForward(forward.kind === 'remote' ? forward.remotePort : forward.localPort, forward.connectionId, forward.kind);
       }
 
       infoLog('port-forward', 'stop/success', { connectionId: forward.connectionId, localPort: forward.localPort });
-      vscode.window.setStatusBarMessage(`$(check) Port forward stopped: localhost:${forward.localPort}`, 3000);
+      vscode.window.setStatusBarMessage(`$(check) Port forward stopped: ${describePortForward(forward)}`, 3000);
     } catch (error) {
       const e = error as Error;
       infoLog('port-forward', 'stop/failed', { connectionId: forward.connectionId, localPort: forward.localPort, errorName: e.name, errorMessage: e.message });
@@ -338,7 +496,7 @@ export class PortForwardService {
     if (connection && hasCapability(connection, 'supportsPortForward')) {
       for (const forward of forwards) {
         try {
-          await connection.stopForward(forward.localPort);
+          await this.closeForward(connection, forward);
         } catch {
           // Connection may already be dead, ignore errors
         }
@@ -347,7 +505,7 @@ export class PortForwardService {
 
     // Remove active forwards from tree (saved rules will re-render as dimmed)
     for (const forward of forwards) {
-      this.treeProvider.removeForward(forward.localPort, connectionId);
+      this.treeProvider.removeForward(forward.kind === 'remote' ? forward.remotePort : forward.localPort, connectionId, forward.kind);
     }
   }
 
@@ -370,10 +528,12 @@ export class PortForwardService {
 
     for (const rule of rules) {
       try {
-        await connection.forwardPort(rule.localPort, rule.remoteHost, rule.remotePort);
+        const boundPort = await this.startForward(connection, rule);
 
         if (this.treeProvider) {
-          this.treeProvider.addForward(connection.id, rule.localPort, rule.remoteHost, rule.remotePort);
+          this.treeProvider.addForward(
+            connection.id, rule.localPort, rule.remoteHost, boundPort, rule.kind ?? 'local', rule.localHost, rule.remotePort
+          );
         }
 
         restored++;
@@ -411,7 +571,7 @@ export class PortForwardService {
       return;
     }
 
-    await this.forwardPort(connection, rule.localPort, rule.remoteHost, rule.remotePort);
+    await this.forwardPort(connection, rule.localPort, rule.remoteHost, rule.remotePort, rule.kind ?? 'local', rule.localHost);
   }
 
   /**
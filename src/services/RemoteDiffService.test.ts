@@ -72,6 +72,23 @@ describe('RemoteDiffService', () => {
     );
   });
 
+  it('diffFiles() downloads remote sides, opens local ones in place and shows a missing side empty', async () => {
+    const conn = { host: { name: 'prod' }, readFile: jest.fn().mockResolvedValue(Buffer.from('remote')) } as any;
+
+    await service.diffFiles({ connection: conn, path: '/srv/app.js' }, { path: '/local/app.js' }, 'app.js');
+    expect(conn.readFile).toHaveBeenCalledWith('/srv/app.js');
+    expect(fs.writeFileSync).toHaveBeenCalledWith(expect.stringContaining('left-app.js'), Buffer.from('remote'));
+    expect(executeCommand).toHaveBeenLastCalledWith(
+      'vscode.diff',
+      expect.objectContaining({ fsPath: expect.stringContaining('left-app.js') }),
+      expect.objectContaining({ fsPath: '/local/app.js' }),
+      'app.js'
+    );
+
+    await service.diffFiles(undefined, { connection: conn, path: '/srv/new.js' }, 'new.js');
+    expect(fs.writeFileSync).toHaveBeenCalledWith(expect.stringContaining('left-new.js'), Buffer.alloc(0));
+  });
+
   it('dispose() removes tracked temp directories', async () => {
     (fs.existsSync as jest.Mock).mockReturnValue(true);
     const conn = { host: { name: 'dev-box' }, readFile: jest.fn().mockResolvedValue(Buffer.from('x')) } as any;
@@ -8,6 +8,12 @@ import { diagLog, infoLog } from '../utils/diagnosticLog';
 /** Prefix of the per-diff temp directories created under os.tmpdir(). */
 export const DIFF_TMP_PREFIX = 'sshlite-diff-';
 
+/** One side of {@link RemoteDiffService.diffFiles}: a remote file, or a local one without `connection`. */
+export interface DiffSource {
+  connection?: SSHConnection;
+  path: string;
+}
+
 /**
  * Download a remote file to a read-only temp path and open it in a VS Code
  * diff editor against a chosen local file.
@@ -50,10 +56,7 @@ export class RemoteDiffService {
 
     const buffer = await connection.readFile(remotePath);
     const baseName = path.basename(remotePath);
-    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), DIFF_TMP_PREFIX));
-    const tmpPath = path.join(tmpDir, `remote-${baseName}`);
-    fs.writeFileSync(tmpPath, buffer);
-    this.tempDirs.set(tmpDir, tmpPath);
+    const tmpPath = this.writeTemp(`remote-${baseName}`, buffer);
     this.ensureTabListener();
 
     const title = `${path.basename(localPath)} ↔ ${connection.host.name}:${baseName}`;
@@ -65,6 +68,35 @@ export class RemoteDiffService {
     );
   }
 
+  /**
+   * Open a diff editor between any two files (Folder Compare). Remote sides
+   * are downloaded to temp like above; a missing side shows as an empty file.
+   */
+  async diffFiles(left: DiffSource | undefined, right: DiffSource | undefined, title: string): Promise<void> {
+    const name = path.posix.basename((left ?? right)?.path ?? 'file');
+    const leftUri = await this.materialize(left, `left-${name}`);
+    const rightUri = await this.materialize(right, `right-${name}`);
+    this.ensureTabListener();
+    await vscode.commands.executeCommand('vscode.diff', leftUri, rightUri, title);
+  }
+
+  private async materialize(source: DiffSource | undefined, tmpName: string): Promise<vscode.Uri> {
+    if (source && !source.connection) {
+      return vscode.Uri.file(source.path);
+    }
+    const content = source?.connection ? await source.connection.readFile(source.path) : Buffer.alloc(0);
+    return vscode.Uri.file(this.writeTemp(tmpName, content));
+  }
+
+  /** Write `content` into a fresh tracked temp dir; returns the file path. */
+  private writeTemp(name: string, content: Buffer): string {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), DIFF_TMP_PREFIX));
+    const tmpPath = path.join(tmpDir, name);
+    fs.writeFileSync(tmpPath, content);
+    this.tempDirs.set(tmpDir, tmpPath);
+    return tmpPath;
+  }
+
   /** Subscribe once to tab changes so we can clean up when a diff tab closes. */
   private ensureTabListener(): void {
     if (this.tabListener) {
@@ -0,0 +1,265 @@
+/**
+ * RemoteUndoService tests
+ *
+ * Covers:
+ *  - per-connection history, batching and the redo reset
+ *  - batches kept apart from operations running at the same time
+ *  - undo / redo of moves, backed-up deletes, creates and pasted copies
+ *  - refusing to overwrite, and partial undo of a batch
+ *  - audit entries and context keys
+ */
+
+var mockAuditLog = jest.fn();
+
+jest.mock('./AuditService', () => ({
+  AuditService: { getInstance: jest.fn().mockReturnValue({ log: (...a: unknown[]) => mockAuditLog(...a) }) },
+}));
+
+var mockExecDetailed = jest.fn();
+
+jest.mock('./CommandGuard', () => ({
+  CommandGuard: { getInstance: () => ({ execDetailed: (...a: unknown[]) => mockExecDetailed(...a) }) },
+}));
+
+import * as vscode from 'vscode';
+import { RemoteUndoService, MAX_UNDO_HISTORY, describeStep } from './RemoteUndoService';
+
+function makeConnection(name = 'web1') {
+  return {
+    id: `${name}:22:deploy`,
+    host: { name, host: name, port: 22, username: 'deploy' },
+    rename: jest.fn().mockResolvedValue(undefined),
+    fileExists: jest.fn().mockResolvedValue(false),
+    mkdir: jest.fn().mockResolvedValue(undefined),
+    writeFile: jest.fn().mockResolvedValue(undefined),
+    deleteFile: jest.fn().mockResolvedValue(undefined),
+    listFiles: jest.fn().mockResolvedValue([]),
+    stat: jest.fn().mockResolvedValue({ size: 0 }),
+  };
+}
+
+function reset(): RemoteUndoService {
+  (RemoteUndoService as any)._instance = undefined;
+  return RemoteUndoService.getInstance();
+}
+
+describe('RemoteUndoService', () => {
+  let service: RemoteUndoService;
+  let conn: ReturnType<typeof makeConnection>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExecDetailed.mockResolvedValue({ stdout: '', stderr: '', exitCode: 0, durationMs: 1 });
+    service = reset();
+    conn = makeConnection();
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  describe('history', () => {
+    it('keeps operations per connection, newest first', () => {
+      const other = makeConnection('web2');
+      service.record(conn as any, { kind: 'create', path: '/srv/a.txt', isDirectory: false });
+      service.record(conn as any, { kind: 'move', from: '/srv/a.txt', to: '/srv/b.txt', isDirectory: false });
+      service.record(other as any, { kind: 'create', path: '/tmp/x', isDirectory: true });
+
+      expect(service.getHistory(conn.id).undo.map((e) => e.label)).toEqual(['Rename a.txt → b.txt', 'Create file a.txt']);
+      expect(service.getHistory(other.id).undo.map((e) => e.label)).toEqual(['Create folder x']);
+      expect(service.latestConnectionId()).toBe(other.id);
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('setContext', 'sshLite.canUndoRemote', true);
+    });
+
+    it('groups everything recorded in a batch into one entry', async () => {
+      await service.batch('Move 2 items → /dst/', async () => {
+        service.record(conn as any, { kind: 'move', from: '/src/a', to: '/dst/a', isDirectory: false });
+        service.record(conn as any, { kind: 'move', from: '/src/b', to: '/dst/b', isDirectory: true });
+      });
+
+      const [entry] = service.getHistory(conn.id).undo;
+      expect(entry.label).toBe('Move 2 items → /dst/');
+      expect(entry.steps).toHaveLength(2);
+    });
+
+    it('keeps an operation that runs during a batch out of it', async () => {
+      let release!: () => void;
+      const paused = new Promise<void>((resolve) => { release = resolve; });
+      const drop = service.batch('Move 2 items → /dst/', async () => {
+        service.record(conn as any, { kind: 'move', from: '/src/a', to: '/dst/a', isDirectory: false });
+        await paused;
+        service.record(conn as any, { kind: 'move', from: '/src/b', to: '/dst/b', isDirectory: false });
+      });
+
+      service.record(conn as any, { kind: 'create', path: '/srv/new', isDirectory: true });
+      release();
+      await drop;
+
+      expect(service.getHistory(conn.id).undo.map((e) => e.label)).toEqual(['Create folder new', 'Move 2 items → /dst/']);
+    });
+
+    it('labels a one-step batch by its step', async () => {
+      await service.batch('Delete 3 items', async () => {
+        service.record(conn as any, { kind: 'delete', path: '/srv/logs', isDirectory: true, backupPath: '/tmp/.ssh-lite-backups/logs_1.tar.gz' });
+      });
+
+      expect(service.getHistory(conn.id).undo[0].label).toBe('Delete logs');
+    });
+
+    it('drops the oldest entries past the limit', () => {
+      for (let i = 0; i <= MAX_UNDO_HISTORY; i++) {
+        service.record(conn as any, { kind: 'create', path: `/srv/f${i}`, isDirectory: false });
+      }
+
+      const { undo } = service.getHistory(conn.id);
+      expect(undo).toHaveLength(MAX_UNDO_HISTORY);
+      expect(undo[undo.length - 1].label).toBe('Create file f1');
+    });
+
+    it('forgets what could be redone once something new happens', async () => {
+      service.record(conn as any, { kind: 'create', path: '/srv/a', isDirectory: true });
+      await service.undo(conn as any);
+      expect(service.canRedo(conn.id)).toBe(true);
+
+      service.record(conn as any, { kind: 'create', path: '/srv/b', isDirectory: true });
+
+      expect(service.canRedo(conn.id)).toBe(false);
+    });
+  });
+
+  describe('undo and redo', () => {
+    it('moves a renamed file back, and forward again on redo', async () => {
+      const moved = jest.fn();
+      service.onDidMovePath(moved);
+      service.record(conn as any, { kind: 'move', from: '/srv/a.txt', to: '/srv/b.txt', isDirectory: false });
+
+      const entry = await service.undo(conn as any);
+
+      expect(entry?.label).toBe('Rename a.txt → b.txt');
+      expect(conn.rename).toHaveBeenCalledWith('/srv/b.txt', '/srv/a.txt');
+      expect(moved).toHaveBeenCalledWith({ connectionId: conn.id, from: '/srv/b.txt', to: '/srv/a.txt', isDirectory: false });
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'undo',
+        remotePath: '/srv/b.txt',
+        localPath: '/srv/a.txt',
+        detail: 'Rename a.txt → b.txt',
+        success: true,
+      }));
+
+      await service.redo(conn as any);
+
+      expect(conn.rename).toHaveBeenLastCalledWith('/srv/a.txt', '/srv/b.txt');
+      expect(mockAuditLog).toHaveBeenLastCalledWith(expect.objectContaining({ action: 'redo', success: true }));
+      expect(service.canUndo(conn.id)).toBe(true);
+    });
+
+    it('reverses a batch last step first', async () => {
+      await service.batch('Move 2 items → /dst/', async () => {
+        service.record(conn as any, { kind: 'move', from: '/src/a', to: '/dst/a', isDirectory: false });
+        service.record(conn as any, { kind: 'move', from: '/src/b', to: '/dst/b', isDirectory: false });
+      });
+
+      await service.undo(conn as any);
+
+      expect(conn.rename.mock.calls).toEqual([['/dst/b', '/src/b'], ['/dst/a', '/src/a']]);
+    });
+
+    it('restores a deleted folder from its backup, and backs it up again on redo', async () => {
+      const backupPath = '/tmp/.ssh-lite-backups/site_2026-01-01T00-00-00-000Z.tar.gz';
+      service.record(conn as any, { kind: 'delete', path: "/var/www/it's", isDirectory: true, backupPath });
+
+      await service.undo(conn as any);
+
+      expect(mockExecDetailed).toHaveBeenCalledWith(
+        conn,
+        `mkdir -p -- '/var/www' && tar -xzf '${backupPath}' -C '/var/www'`,
+        { description: "Undo: Delete it's" }
+      );
+
+      await service.redo(conn as any);
+
+      const stash = mockExecDetailed.mock.calls[1][1] as string;
+      expect(stash).toMatch(/^mkdir -p -- '\/tmp\/\.ssh-lite-backups' && tar -czf '\/tmp\/\.ssh-lite-backups\/it'\\''s_.*\.tar\.gz' -C '\/var\/www' 'it'\\''s' && rm -rf -- '\/var\/www\/it'\\''s'$/);
+    });
+
+    it('restores a deleted file with cp', async () => {
+      service.record(conn as any, { kind: 'delete', path: '/etc/app.conf', isDirectory: false, backupPath: '/tmp/.ssh-lite-backups/app_1.conf' });
+
+      await service.undo(conn as any);
+
+      expect(mockExecDetailed).toHaveBeenCalledWith(
+        conn,
+        "mkdir -p -- '/etc' && cp -p -- '/tmp/.ssh-lite-backups/app_1.conf' '/etc/app.conf'",
+        expect.anything()
+      );
+    });
+
+    it('keeps the entry when the restore command fails', async () => {
+      service.record(conn as any, { kind: 'delete', path: '/etc/app.conf', isDirectory: false, backupPath: '/tmp/.ssh-lite-backups/app_1.conf' });
+      mockExecDetailed.mockResolvedValueOnce({ stdout: '', stderr: 'cp: cannot stat: No such file\n', exitCode: 1, durationMs: 1 });
+
+      await expect(service.undo(conn as any)).rejects.toThrow('Exit code 1: cp: cannot stat: No such file');
+      expect(service.canUndo(conn.id)).toBe(true);
+      expect(service.canRedo(conn.id)).toBe(false);
+    });
+
+    it('puts a pasted copy aside on undo, and back on redo', async () => {
+      service.record(conn as any, { kind: 'copy', path: '/srv/site', isDirectory: true, backupFolder: '/tmp/.ssh-lite-backups' });
+      expect(service.getHistory(conn.id).undo[0].label).toBe('Copy site → /srv/');
+
+      await service.undo(conn as any);
+
+      const stash = mockExecDetailed.mock.calls[0][1] as string;
+      expect(stash).toMatch(/^mkdir -p -- '\/tmp\/\.ssh-lite-backups' && tar -czf '\/tmp\/\.ssh-lite-backups\/site_.*\.tar\.gz' -C '\/srv' 'site' && rm -rf -- '\/srv\/site'$/);
+      const backupPath = stash.match(/tar -czf '([^']+)'/)![1];
+
+      await service.redo(conn as any);
+
+      expect(mockExecDetailed).toHaveBeenLastCalledWith(
+        conn,
+        `mkdir -p -- '/srv' && tar -xzf '${backupPath}' -C '/srv'`,
+        { description: 'Redo: Copy site → /srv/' }
+      );
+    });
+
+    it('deletes a created file only while it is still empty', async () => {
+      service.record(conn as any, { kind: 'create', path: '/srv/notes.txt', isDirectory: false });
+      conn.stat.mockResolvedValueOnce({ size: 12 });
+
+      await expect(service.undo(conn as any)).rejects.toThrow('notes.txt has content now');
+      expect(conn.deleteFile).not.toHaveBeenCalled();
+      expect(service.canUndo(conn.id)).toBe(true);
+      expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'undo', success: false }));
+
+      await service.undo(conn as any);
+      expect(conn.deleteFile).toHaveBeenCalledWith('/srv/notes.txt');
+    });
+
+    it('never overwrites a path that is taken again', async () => {
+      service.record(conn as any, { kind: 'move', from: '/srv/a.txt', to: '/srv/b.txt', isDirectory: false });
+      conn.fileExists.mockResolvedValue(true);
+
+      await expect(service.undo(conn as any)).rejects.toThrow('/srv/a.txt already exists');
+      expect(conn.rename).not.toHaveBeenCalled();
+    });
+
+    it('splits a batch that failed halfway between undo and redo', async () => {
+      await service.batch('Move 2 items → /dst/', async () => {
+        service.record(conn as any, { kind: 'move', from: '/src/a', to: '/dst/a', isDirectory: false });
+        service.record(conn as any, { kind: 'move', from: '/src/b', to: '/dst/b', isDirectory: false });
+      });
+      conn.rename.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('No such file'));
+
+      await expect(service.undo(conn as any)).rejects.toThrow('No such file');
+
+      const { undo, redo } = service.getHistory(conn.id);
+      expect(undo[0].steps.map(describeStep)).toEqual(['Move a → /dst/']);
+      expect(redo[0].steps.map(describeStep)).toEqual(['Move b → /dst/']);
+    });
+
+    it('returns undefined with nothing to undo', async () => {
+      expect(await service.undo(conn as any)).toBeUndefined();
+      expect(await service.redo(conn as any)).toBeUndefined();
+    });
+  });
+});
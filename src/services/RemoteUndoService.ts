@@ -0,0 +1,418 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { SSHConnection } from '../connection/SSHConnection';
+import { AuditService } from './AuditService';
+import { CommandGuard } from './CommandGuard';
+import { infoLog } from '../utils/diagnosticLog';
+import { checkExecResult } from '../utils/execResult';
+
+const CAN_UNDO_KEY = 'sshLite.canUndoRemote';
+const CAN_REDO_KEY = 'sshLite.canRedoRemote';
+
+/** Undo entries kept per connection; the oldest fall off */
+export const MAX_UNDO_HISTORY = 50;
+
+/**
+ * One reversible change on a server. Renames are moves within a folder.
+ * Deletes are only reversible when a server backup was taken first. A pasted
+ * copy is put aside into `backupFolder` on Undo (it may have been edited
+ * since), and `backupPath` then says where Redo takes it back from.
+ */
+export type UndoStep =
+  | { kind: 'move'; from: string; to: string; isDirectory: boolean }
+  | { kind: 'delete'; path: string; isDirectory: boolean; backupPath: string }
+  | { kind: 'create'; path: string; isDirectory: boolean }
+  | { kind: 'copy'; path: string; isDirectory: boolean; backupFolder: string; backupPath?: string };
+
+/** What one Undo reverses: a single operation, or every step of a drop / paste / bulk delete */
+export interface UndoEntry {
+  id: number;
+  connectionId: string;
+  hostName: string;
+  label: string;
+  timestamp: number;
+  steps: UndoStep[];
+}
+
+interface History {
+  undo: UndoEntry[];
+  redo: UndoEntry[];
+}
+
+interface Batch {
+  label: string;
+  entries: Map<string, UndoEntry>;
+}
+
+function quote(s: string): string {
+  return `'${s.replace(/'/g, "'\\''")}'`;
+}
+
+/** "Rename a.txt → b.txt", "Move a.txt → /srv/", "Delete logs", "Create folder x" */
+export function describeStep(step: UndoStep): string {
+  switch (step.kind) {
+    case 'move':
+      return path.posix.dirname(step.from) === path.posix.dirname(step.to)
+        ? `Rename ${path.posix.basename(step.from)} → ${path.posix.basename(step.to)}`
+        : `Move ${path.posix.basename(step.from)} → ${path.posix.dirname(step.to)}/`;
+    case 'delete':
+      return `Delete ${path.posix.basename(step.path)}`;
+    case 'create':
+      return `Create ${step.isDirectory ? 'folder' : 'file'} ${path.posix.basename(step.path)}`;
+    case 'copy':
+      return `Copy ${path.posix.basename(step.path)} → ${path.posix.dirname(step.path)}/`;
+  }
+}
+
+/** Folders whose listing a step changes */
+export function affectedFolders(step: UndoStep): string[] {
+  const paths = step.kind === 'move' ? [step.from, step.to] : [step.path];
+  return [...new Set(paths.map((p) => path.posix.dirname(p) || '/'))];
+}
+
+type BackedUpPath = { path: string; isDirectory: boolean };
+
+/**
+ * Shell command putting a backup back: `cp` for a file, `tar -x` for a folder
+ * (FileService's folder backups are tarred relative to the parent).
+ */
+function buildRestoreCommand(step: BackedUpPath, backupPath: string): string {
+  const parent = path.posix.dirname(step.path);
+  return step.isDirectory
+    ? `mkdir -p -- ${quote(parent)} && tar -xzf ${quote(backupPath)} -C ${quote(parent)}`
+    : `mkdir -p -- ${quote(parent)} && cp -p -- ${quote(backupPath)} ${quote(step.path)}`;
+}
+
+/**
+ * Shell command deleting a path again on Redo (or a pasted copy on Undo),
+ * saving it to `backupPath` first: it may have been edited since.
+ */
+function buildStashCommand(step: BackedUpPath, backupPath: string): string {
+  const folder = quote(path.posix.dirname(backupPath));
+  return step.isDirectory
+    ? `mkdir -p -- ${folder} && tar -czf ${quote(backupPath)} -C ${quote(path.posix.dirname(step.path))} ${quote(path.posix.basename(step.path))} && rm -rf -- ${quote(step.path)}`
+    : `mkdir -p -- ${folder} && mv -- ${quote(step.path)} ${quote(backupPath)}`;
+}
+
+/** A fresh backup name in `folder`, in the same scheme as FileService's */
+function nextBackupPath(step: BackedUpPath, folder: string): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const name = path.posix.basename(step.path);
+  if (step.isDirectory) {
+    return `${folder}/${name}_${timestamp}.tar.gz`;
+  }
+  const ext = path.posix.extname(name);
+  return `${folder}/${path.posix.basename(name, ext)}_${timestamp}${ext}`;
+}
+
+/**
+ * Per-connection undo/redo history of file tree operations.
+ *
+ * FileService records each rename, move, delete (with backup), create and
+ * pasted copy as it succeeds; the tree's drop, paste and bulk delete wrap
+ * their loops in `batch()` so one Undo reverses the whole gesture. A batch
+ * follows its own async call chain, so an unrelated operation that runs
+ * meanwhile still gets an entry of its own.
+ */
+export class RemoteUndoService {
+  private static _instance: RemoteUndoService;
+  private histories = new Map<string, History>();
+  private nextId = 1;
+  private readonly batches = new AsyncLocalStorage<Batch>();
+  private auditService: AuditService;
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  /** Fired when Undo/Redo moves a path, so open editors can follow it */
+  private readonly _onDidMovePath = new vscode.EventEmitter<{ connectionId: string; from: string; to: string; isDirectory: boolean }>();
+  readonly onDidMovePath = this._onDidMovePath.event;
+
+  private constructor() {
+    this.auditService = AuditService.getInstance();
+  }
+
+  static getInstance(): RemoteUndoService {
+    if (!RemoteUndoService._instance) {
+      RemoteUndoService._instance = new RemoteUndoService();
+    }
+    return RemoteUndoService._instance;
+  }
+
+  /**
+   * Record a completed operation. Inside a batch the step joins that
+   * connection's batch entry. Any new operation drops the redo history.
+   */
+  record(connection: SSHConnection, step: UndoStep): void {
+    const history = this.historyOf(connection.id);
+    history.redo = [];
+
+    const batch = this.batches.getStore();
+    const batched = batch?.entries.get(connection.id);
+    if (batched) {
+      batched.steps.push(step);
+      batched.label = batched.steps.length === 1 ? describeStep(step) : batch!.label;
+    } else {
+      const entry: UndoEntry = {
+        id: this.nextId++,
+        connectionId: connection.id,
+        hostName: connection.host.name,
+        label: describeStep(step),
+        timestamp: Date.now(),
+        steps: [step],
+      };
+      history.undo.push(entry);
+      batch?.entries.set(connection.id, entry);
+      if (history.undo.length > MAX_UNDO_HISTORY) {
+        history.undo.shift();
+      }
+    }
+    this.changed();
+  }
+
+  /**
+   * Run `fn`, grouping everything it records into one entry per connection
+   * (labelled `label` when it holds more than one step). Nested calls join
+   * the outer batch.
+   */
+  async batch<T>(label: string, fn: () => Promise<T>): Promise<T> {
+    if (this.batches.getStore()) {
+      return fn();
+    }
+    return this.batches.run({ label, entries: new Map() }, fn);
+  }
+
+  /** Undo entries newest first, and what Redo would re-apply, next first */
+  getHistory(connectionId: string): History {
+    const history = this.histories.get(connectionId);
+    return {
+      undo: history ? [...history.undo].reverse() : [],
+      redo: history ? [...history.redo].reverse() : [],
+    };
+  }
+
+  canUndo(connectionId: string): boolean {
+    return (this.histories.get(connectionId)?.undo.length ?? 0) > 0;
+  }
+
+  canRedo(connectionId: string): boolean {
+    return (this.histories.get(connectionId)?.redo.length ?? 0) > 0;
+  }
+
+  /** The connection whose last undoable (or redoable) entry is newest, for Ctrl+Z with nothing selected */
+  latestConnectionId(stack: 'undo' | 'redo' = 'undo'): string | undefined {
+    let latest: UndoEntry | undefined;
+    for (const history of this.histories.values()) {
+      const top = history[stack][history[stack].length - 1];
+      if (top && (!latest || top.id > latest.id)) {
+        latest = top;
+      }
+    }
+    return latest?.connectionId;
+  }
+
+  /**
+   * Reverse the connection's last entry, steps in reverse order. If a step
+   * fails, the steps already reversed move to the redo history and the rest
+   * stay undoable; the error is rethrown.
+   */
+  async undo(connection: SSHConnection): Promise<UndoEntry | undefined> {
+    const history = this.historyOf(connection.id);
+    const entry = history.undo.pop();
+    if (!entry) {
+      return undefined;
+    }
+    const steps = [...entry.steps].reverse();
+    let done = 0;
+    try {
+      for (const step of steps) {
+        await this.applyStep(connection, step, 'undo');
+        done++;
+      }
+      history.redo.push(entry);
+      return entry;
+    } catch (error) {
+      const undone = steps.slice(0, done).reverse();
+      const remaining = entry.steps.slice(0, entry.steps.length - done);
+      history.undo.push({ ...entry, steps: remaining });
+      if (undone.length > 0) {
+        history.redo.push({ ...entry, id: this.nextId++, steps: undone });
+      }
+      throw error;
+    } finally {
+      this.changed();
+    }
+  }
+
+  /** Re-apply the last undone entry, steps in their original order */
+  async redo(connection: SSHConnection): Promise<UndoEntry | undefined> {
+    const history = this.historyOf(connection.id);
+    const entry = history.redo.pop();
+    if (!entry) {
+      return undefined;
+    }
+    let done = 0;
+    try {
+      for (const step of entry.steps) {
+        await this.applyStep(connection, step, 'redo');
+        done++;
+      }
+      history.undo.push(entry);
+      return entry;
+    } catch (error) {
+      if (done > 0) {
+        history.undo.push({ ...entry, id: this.nextId++, steps: entry.steps.slice(0, done) });
+      }
+      history.redo.push({ ...entry, steps: entry.steps.slice(done) });
+      throw error;
+    } finally {
+      this.changed();
+    }
+  }
+
+  /** Forget a connection's history (e.g. "Clear History" in the picker) */
+  clear(connectionId: string): void {
+    if (this.histories.delete(connectionId)) {
+      this.changed();
+    }
+  }
+
+  private historyOf(connectionId: string): History {
+    let history = this.histories.get(connectionId);
+    if (!history) {
+      history = { undo: [], redo: [] };
+      this.histories.set(connectionId, history);
+    }
+    return history;
+  }
+
+  /**
+   * Reverse (`undo`) or re-apply (`redo`) one step. Never overwrites: a path
+   * that is occupied again, or a created file that has content now, is an error.
+   */
+  private async applyStep(connection: SSHConnection, step: UndoStep, direction: 'undo' | 'redo'): Promise<void> {
+    const detail = describeStep(step);
+    const activity = `${direction === 'undo' ? 'Undo' : 'Redo'}: ${detail}`;
+    let remotePath: string;
+    let resultPath: string | undefined;
+    try {
+      switch (step.kind) {
+        case 'move': {
+          const [from, to] = direction === 'undo' ? [step.to, step.from] : [step.from, step.to];
+          remotePath = from;
+          resultPath = to;
+          if (await connection.fileExists(to)) {
+            throw new Error(`${to} already exists`);
+          }
+          await connection.rename(from, to);
+          this._onDidMovePath.fire({ connectionId: connection.id, from, to, isDirectory: step.isDirectory });
+          break;
+        }
+        case 'delete':
+          remotePath = step.path;
+          if (direction === 'undo') {
+            resultPath = step.backupPath;
+            await this.restore(connection, step, step.backupPath, activity);
+          } else {
+            resultPath = await this.stash(connection, step, path.posix.dirname(step.backupPath), activity);
+            step.backupPath = resultPath;
+          }
+          break;
+        case 'copy':
+          remotePath = step.path;
+          if (direction === 'undo') {
+            resultPath = await this.stash(connection, step, step.backupFolder, activity);
+            step.backupPath = resultPath;
+          } else {
+            resultPath = step.backupPath!;
+            await this.restore(connection, step, resultPath, activity);
+          }
+          break;
+        case 'create':
+          remotePath = step.path;
+          if (direction === 'undo') {
+            await this.removeCreated(connection, step);
+          } else if (step.isDirectory) {
+            await connection.mkdir(step.path);
+          } else {
+            if (await connection.fileExists(step.path)) {
+              throw new Error(`${step.path} already exists`);
+            }
+            await connection.writeFile(step.path, Buffer.alloc(0));
+          }
+          break;
+      }
+    } catch (error) {
+      const err = error as Error;
+      infoLog('remote-undo', `${direction}-failed`, { connectionId: connection.id, step: detail, error: err.message });
+      this.auditService.log({
+        action: direction,
+        connectionId: connection.id,
+        hostName: connection.host.name,
+        username: connection.host.username,
+        remotePath: step.kind === 'move' ? step.from : step.path,
+        detail,
+        success: false,
+        error: err.message,
+      });
+      throw err;
+    }
+
+    infoLog('remote-undo', direction, { connectionId: connection.id, step: detail });
+    this.auditService.log({
+      action: direction,
+      connectionId: connection.id,
+      hostName: connection.host.name,
+      username: connection.host.username,
+      remotePath,
+      localPath: resultPath,
+      detail,
+      success: true,
+    });
+  }
+
+  /** Put a backed-up path back; refuses when the path is occupied again */
+  private async restore(connection: SSHConnection, step: BackedUpPath, backupPath: string, description: string): Promise<void> {
+    if (await connection.fileExists(step.path)) {
+      throw new Error(`${step.path} already exists`);
+    }
+    checkExecResult(await CommandGuard.getInstance().execDetailed(connection, buildRestoreCommand(step, backupPath), { description }));
+  }
+
+  /** Move a path into a fresh backup in `folder`; returns the backup's path */
+  private async stash(connection: SSHConnection, step: BackedUpPath, folder: string, description: string): Promise<string> {
+    const backupPath = nextBackupPath(step, folder);
+    checkExecResult(await CommandGuard.getInstance().execDetailed(connection, buildStashCommand(step, backupPath), { description }));
+    return backupPath;
+  }
+
+  /** Undo a create, refusing when the file or folder has been filled since */
+  private async removeCreated(connection: SSHConnection, step: Extract<UndoStep, { kind: 'create' }>): Promise<void> {
+    const name = path.posix.basename(step.path);
+    if (step.isDirectory) {
+      const children = await connection.listFiles(step.path);
+      if (children.length > 0) {
+        throw new Error(`${name} is no longer empty`);
+      }
+    } else {
+      const stat = await connection.stat(step.path);
+      if (stat.size > 0) {
+        throw new Error(`${name} has content now`);
+      }
+    }
+    await connection.deleteFile(step.path);
+  }
+
+  private changed(): void {
+    const all = [...this.histories.values()];
+    void vscode.commands.executeCommand('setContext', CAN_UNDO_KEY, all.some((h) => h.undo.length > 0));
+    void vscode.commands.executeCommand('setContext', CAN_REDO_KEY, all.some((h) => h.redo.length > 0));
+    this._onDidChange.fire();
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+    this._onDidMovePath.dispose();
+  }
+}
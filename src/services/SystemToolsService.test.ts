@@ -2,6 +2,14 @@
  * SystemToolsService tests
  */
 
+jest.mock('./CommandGuard', () => ({
+  CommandGuard: {
+    getInstance: jest.fn().mockReturnValue({
+      execDetailed: (conn: { execDetailed: (cmd: string) => unknown }, cmd: string) => conn.execDetailed(cmd),
+    }),
+  },
+}));
+
 import { SystemToolsService } from './SystemToolsService';
 
 function reset(): SystemToolsService {
@@ -9,6 +17,10 @@ function reset(): SystemToolsService {
   return SystemToolsService.getInstance();
 }
 
+function result(stdout = '', exitCode = 0, stderr = '') {
+  return { stdout, stderr, exitCode, durationMs: 5 };
+}
+
 function mockConnection() {
   return {
     id: 'test-1',
@@ -16,7 +28,7 @@ function mockConnection() {
     state: 'connected',
     sudoMode: false,
     sudoPassword: null,
-    exec: jest.fn().mockResolvedValue(''),
+    execDetailed: jest.fn().mockResolvedValue(result()),
     sudoExec: jest.fn().mockResolvedValue(''),
   } as any;
 }
@@ -103,17 +115,17 @@ describe('SystemToolsService', () => {
   describe('listProcesses', () => {
     it('caps limit at 5000 and runs ps', async () => {
       const conn = mockConnection();
-      conn.exec.mockResolvedValueOnce('PID USER %CPU %MEM COMMAND\n1 root 0 0 init');
+      conn.execDetailed.mockResolvedValueOnce(result('PID USER %CPU %MEM COMMAND\n1 root 0 0 init'));
       await service.listProcesses(conn, 10 ** 9);
-      const cmd = conn.exec.mock.calls[0][0] as string;
+      const cmd = conn.execDetailed.mock.calls[0][0] as string;
       expect(cmd).toContain('head -5001');
     });
 
     it('uses fallback ps aux command structure', async () => {
       const conn = mockConnection();
-      conn.exec.mockResolvedValueOnce('PID USER %CPU %MEM COMMAND\n1 root 0 0 init');
+      conn.execDetailed.mockResolvedValueOnce(result('PID USER %CPU %MEM COMMAND\n1 root 0 0 init'));
       await service.listProcesses(conn, 10);
-      const cmd = conn.exec.mock.calls[0][0] as string;
+      const cmd = conn.execDetailed.mock.calls[0][0] as string;
       expect(cmd).toContain('ps -eo pid,user,%cpu,%mem,comm');
       expect(cmd).toContain('ps aux');
       expect(cmd).toContain('2>/dev/null');
@@ -122,16 +134,36 @@ describe('SystemToolsService', () => {
     it('clamps negative/NaN limits to 1', async () => {
       const conn = mockConnection();
       await service.listProcesses(conn, -5);
-      const cmd = conn.exec.mock.calls[0][0] as string;
+      const cmd = conn.execDetailed.mock.calls[0][0] as string;
       expect(cmd).toContain('head -2');
     });
+
+    it('reports a failing ps instead of an empty list', async () => {
+      const conn = mockConnection();
+      conn.execDetailed.mockResolvedValueOnce(result('', 127, 'sh: ps: not found'));
+      await expect(service.listProcesses(conn)).rejects.toThrow('Exit code 127: sh: ps: not found');
+    });
+  });
+
+  describe('listServices', () => {
+    it('reports a host without systemctl instead of no services', async () => {
+      const conn = mockConnection();
+      conn.execDetailed.mockResolvedValueOnce(result('', 127, 'sh: systemctl: not found'));
+      await expect(service.listServices(conn)).rejects.toThrow('sh: systemctl: not found');
+    });
   });
 
   describe('killProcess', () => {
     it('uses kill -TERM by default', async () => {
       const conn = mockConnection();
       await service.killProcess(conn, 1234, false);
-      expect(conn.exec).toHaveBeenCalledWith('kill -TERM 1234');
+      expect(conn.execDetailed).toHaveBeenCalledWith('kill -TERM 1234');
+    });
+
+    it('reports a kill that was refused', async () => {
+      const conn = mockConnection();
+      conn.execDetailed.mockResolvedValueOnce(result('', 1, 'kill: (1234): Operation not permitted'));
+      await expect(service.killProcess(conn, 1234, false)).rejects.toThrow('Exit code 1: kill: (1234): Operation not permitted');
     });
 
     it('routes through sudoExec when useSudo', async () => {
@@ -162,7 +194,17 @@ describe('SystemToolsService', () => {
     it('accepts template units like getty@tty1.service', async () => {
       const conn = mockConnection();
       await service.runServiceAction(conn, 'getty@tty1.service', 'status', false);
-      expect(conn.exec).toHaveBeenCalledWith('systemctl status getty@tty1.service');
+      expect(conn.execDetailed).toHaveBeenCalledWith('systemctl status getty@tty1.service');
+    });
+
+    it('returns the status of a stopped unit (exit 3) but reports a failed start', async () => {
+      const conn = mockConnection();
+      conn.execDetailed
+        .mockResolvedValueOnce(result('○ nginx.service\n   Active: inactive (dead)', 3))
+        .mockResolvedValueOnce(result('', 1, 'Failed to start nginx.service: Access denied'));
+
+      expect(await service.runServiceAction(conn, 'nginx.service', 'status', false)).toContain('inactive (dead)');
+      await expect(service.runServiceAction(conn, 'nginx.service', 'start', false)).rejects.toThrow('Access denied');
     });
 
     it('uses sudoExec for non-status actions when useSudo', async () => {
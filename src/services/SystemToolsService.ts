@@ -1,5 +1,7 @@
 import { SSHConnection } from '../connection/SSHConnection';
 import { assertCapability } from '../utils/capabilityGuard';
+import { checkExecResult } from '../utils/execResult';
+import { CommandGuard } from './CommandGuard';
 
 export interface ProcessEntry {
   pid: number;
@@ -108,16 +110,19 @@ export class SystemToolsService {
     // Try GNU ps with cpu/mem first; capture exit code separately so || fallback works correctly.
     // Busybox ps does not support %cpu/%mem columns, so we fall back to ps aux.
     const cmd = `{ ps -eo pid,user,%cpu,%mem,comm 2>/dev/null && true || ps aux 2>/dev/null; } | head -${safeLimit + 1}`;
-    const out = await connection.exec(cmd);
-    return this.parseProcessOutput(out);
+    const result = await CommandGuard.getInstance().execDetailed(connection, cmd, { description: 'List processes' });
+    return this.parseProcessOutput(checkExecResult(result).stdout);
   }
 
   async listServices(connection: SSHConnection): Promise<ServiceEntry[]> {
     assertCapability(connection, 'supportsExec');
-    const out = await connection.exec(
-      'systemctl list-units --type=service --no-pager --plain --state=loaded 2>/dev/null || true'
+    // A host without systemd fails here with systemctl's own message
+    const result = await CommandGuard.getInstance().execDetailed(
+      connection,
+      'systemctl list-units --type=service --no-pager --plain --state=loaded',
+      { description: 'List services' }
     );
-    return this.parseServiceOutput(out);
+    return this.parseServiceOutput(checkExecResult(result).stdout);
   }
 
   async killProcess(connection: SSHConnection, pid: number, useSudo: boolean, signal: string = 'TERM'): Promise<void> {
@@ -132,7 +137,8 @@ export class SystemToolsService {
     if (useSudo) {
       await connection.sudoExec(cmd, connection.sudoPassword || '');
     } else {
-      await connection.exec(cmd);
+      // kill prints "Operation not permitted" / "No such process" and exits 1
+      checkExecResult(await CommandGuard.getInstance().execDetailed(connection, cmd, { description: `Kill PID ${pid}` }));
     }
   }
 
@@ -150,6 +156,9 @@ export class SystemToolsService {
     if (useSudo) {
       return connection.sudoExec(cmd, connection.sudoPassword || '');
     }
-    return connection.exec(cmd);
+    // `systemctl status` exits 3 for a unit that is not running: still a status
+    const okCodes = action === 'status' ? [0, 3] : [0];
+    const result = await CommandGuard.getInstance().execDetailed(connection, cmd, { description: `systemctl ${action} ${serviceName}` });
+    return checkExecResult(result, okCodes).stdout;
   }
 }
@@ -0,0 +1,126 @@
+/**
+ * TerminalRecordingService tests
+ *
+ * Covers:
+ *  - a recording writes an asciicast v2 file: header, output, resizes
+ *  - keystrokes only with `terminal.recordInput`
+ *  - the Activity panel and audit log see the recording under its host
+ *  - listing the recordings folder, newest first, skipping other files
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { setMockConfig, clearMockConfig } from '../__mocks__/vscode';
+
+var mockStartActivity = jest.fn().mockReturnValue('activity-1');
+var mockCompleteActivity = jest.fn();
+jest.mock('./ActivityService', () => ({
+  ActivityService: {
+    getInstance: () => ({
+      startActivity: (...a: unknown[]) => mockStartActivity(...a),
+      completeActivity: (...a: unknown[]) => mockCompleteActivity(...a),
+    }),
+  },
+}));
+
+var mockAuditLog = jest.fn();
+jest.mock('./AuditService', () => ({
+  AuditService: { getInstance: () => ({ log: (...a: unknown[]) => mockAuditLog(...a) }) },
+}));
+
+import { TerminalRecordingService, formatSeconds } from './TerminalRecordingService';
+import { parseCast } from '../utils/asciicast';
+import { IHostConfig } from '../types';
+
+const HOST: IHostConfig = { id: 'web1:22:deploy', name: 'web1', host: '10.0.0.5', port: 22, username: 'deploy', source: 'saved' };
+const TARGET = { connectionId: HOST.id, host: HOST, terminalName: 'SSH: web1', term: 'xterm-256color', columns: 100, rows: 30 };
+
+describe('TerminalRecordingService', () => {
+  let dir: string;
+  let service: TerminalRecordingService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearMockConfig();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sshlite-rec-'));
+    setMockConfig('sshLite.terminal.recordingsPath', dir);
+    (TerminalRecordingService as any)._instance = undefined;
+    service = TerminalRecordingService.getInstance();
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('records output and resizes to an asciicast v2 file', async () => {
+    const recording = service.start(TARGET);
+    recording.output('$ uptime\r\n');
+    recording.resize(120, 40);
+    recording.input('secret\r');
+    await service.stop(recording);
+
+    const cast = parseCast(fs.readFileSync(recording.filePath, 'utf-8'));
+    expect(cast.header).toEqual(expect.objectContaining({ width: 100, height: 30, title: 'deploy@web1', env: { TERM: 'xterm-256color' } }));
+    expect(cast.events.map((e) => [e.code, e.data])).toEqual([['o', '$ uptime\r\n'], ['r', '120x40']]);
+    expect(path.basename(recording.filePath)).toMatch(/^web1-\d{8}-\d{6}\.cast$/);
+  });
+
+  it('records keystrokes only when asked to', async () => {
+    setMockConfig('sshLite.terminal.recordInput', true);
+    const recording = service.start(TARGET);
+    recording.input('ls\r');
+    await service.stop(recording);
+    expect(parseCast(fs.readFileSync(recording.filePath, 'utf-8')).events).toEqual([
+      expect.objectContaining({ code: 'i', data: 'ls\r' }),
+    ]);
+  });
+
+  it('drops events after the recording stops', async () => {
+    const recording = service.start(TARGET);
+    await service.stop(recording);
+    recording.output('late');
+    expect(parseCast(fs.readFileSync(recording.filePath, 'utf-8')).events).toEqual([]);
+  });
+
+  it('shows the recording under its host in the Activity panel and audits it', async () => {
+    const recording = service.start(TARGET);
+    expect(mockStartActivity).toHaveBeenCalledWith('terminal', HOST.id, 'web1', 'Recording SSH: web1', {
+      detail: path.basename(recording.filePath),
+    });
+    await service.stop(recording);
+    expect(mockCompleteActivity).toHaveBeenCalledWith('activity-1', `Saved ${path.basename(recording.filePath)}`);
+    expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'record',
+      connectionId: HOST.id,
+      hostName: 'web1',
+      username: 'deploy',
+      localPath: recording.filePath,
+      success: true,
+      detail: expect.stringMatching(/^Terminal recording 0s, \d+ B/),
+    }));
+  });
+
+  it('lists recordings newest first and skips files that are not recordings', async () => {
+    const header = (title: string) => JSON.stringify({ version: 2, width: 80, height: 24, timestamp: 1760000000, title });
+    fs.writeFileSync(path.join(dir, 'old.cast'), `${header('a@old')}\n[1.5,"o","x"]\n`);
+    fs.writeFileSync(path.join(dir, 'new.cast'), `${header('a@new')}\n[0.5,"o","x"]\n[42,"o","y"]\n`);
+    fs.writeFileSync(path.join(dir, 'broken.cast'), 'not json\n');
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'hi');
+    fs.utimesSync(path.join(dir, 'old.cast'), new Date(2026, 0, 1), new Date(2026, 0, 1));
+
+    const list = await service.listRecordings();
+
+    expect(list.map((r) => [r.title, r.duration])).toEqual([['a@new', 42], ['a@old', 1.5]]);
+    expect(list[0].startedAt).toBe(1760000000000);
+  });
+
+  it('lists nothing when the folder does not exist yet', async () => {
+    setMockConfig('sshLite.terminal.recordingsPath', path.join(dir, 'missing'));
+    expect(await service.listRecordings()).toEqual([]);
+  });
+
+  it('formats durations', () => {
+    expect(formatSeconds(42)).toBe('42s');
+    expect(formatSeconds(95)).toBe('1m 35s');
+    expect(formatSeconds(3 * 3600 + 120)).toBe('3h 2m');
+  });
+});
@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IHostConfig } from '../types';
+import { ActivityService } from './ActivityService';
+import { AuditService } from './AuditService';
+import { infoLog } from '../utils/diagnosticLog';
+import { formatFileSize } from '../utils/helpers';
+import { CastEventCode, castEventLine, castHeaderLine, parseCast, recordingFileName, resizeData } from '../utils/asciicast';
+
+/**
+ * What a recording needs to know about the terminal it records
+ */
+export interface RecordingTarget {
+  connectionId: string;
+  host: IHostConfig;
+  terminalName: string;
+  term: string;
+  columns: number;
+  rows: number;
+}
+
+/**
+ * A `.cast` file in the recordings folder, as listed by listRecordings()
+ */
+export interface RecordingInfo {
+  filePath: string;
+  title?: string;
+  /** Unix ms, from the header */
+  startedAt?: number;
+  /** Seconds to the last event */
+  duration: number;
+  size: number;
+}
+
+/**
+ * One terminal being recorded: appends asciicast v2 events to its file as
+ * the terminal produces them. Input is only written when
+ * `sshLite.terminal.recordInput` was on at start (it captures passwords
+ * typed at prompts that do not echo).
+ */
+export class TerminalRecording {
+  private readonly start = Date.now();
+  private closed = false;
+
+  constructor(
+    readonly filePath: string,
+    readonly target: RecordingTarget,
+    readonly recordInput: boolean,
+    readonly activityId: string,
+    private readonly stream: fs.WriteStream
+  ) {}
+
+  get startedAt(): number {
+    return this.start;
+  }
+
+  output(data: string): void {
+    this.write('o', data);
+  }
+
+  input(data: string): void {
+    if (this.recordInput) {
+      this.write('i', data);
+    }
+  }
+
+  resize(columns: number, rows: number): void {
+    this.write('r', resizeData(columns, rows));
+  }
+
+  /** Flush and close the file; later events are dropped */
+  close(): Promise<void> {
+    if (this.closed) {
+      return Promise.resolve();
+    }
+    this.closed = true;
+    return new Promise((resolve) => this.stream.end(resolve));
+  }
+
+  private write(code: CastEventCode, data: string): void {
+    if (!this.closed) {
+      this.stream.write(castEventLine((Date.now() - this.start) / 1000, code, data));
+    }
+  }
+}
+
+/**
+ * Opt-in terminal recordings: asciicast v2 files in the recordings folder
+ * (`sshLite.terminal.recordingsPath`, default `~/.ssh-lite/recordings`). A
+ * running recording shows in the Activity panel under its host; a finished
+ * one is written to the audit log with the file path.
+ */
+export class TerminalRecordingService {
+  private static _instance: TerminalRecordingService;
+
+  private constructor() {}
+
+  static getInstance(): TerminalRecordingService {
+    if (!TerminalRecordingService._instance) {
+      TerminalRecordingService._instance = new TerminalRecordingService();
+    }
+    return TerminalRecordingService._instance;
+  }
+
+  getRecordingsDir(): string {
+    const custom = vscode.workspace.getConfiguration('sshLite').get<string>('terminal.recordingsPath', '');
+    return custom || path.join(os.homedir(), '.ssh-lite', 'recordings');
+  }
+
+  /** Create the `.cast` file, write its header and track it in the Activity panel */
+  start(target: RecordingTarget): TerminalRecording {
+    const dir = this.getRecordingsDir();
+    fs.mkdirSync(dir, { recursive: true });
+    const now = new Date();
+    const filePath = path.join(dir, recordingFileName(target.host.name, now));
+    // Owner-only: output can hold anything the server printed
+    const stream = fs.createWriteStream(filePath, { flags: 'a', mode: 0o600 });
+    stream.write(
+      castHeaderLine({
+        width: target.columns,
+        height: target.rows,
+        timestamp: Math.floor(now.getTime() / 1000),
+        title: `${target.host.username}@${target.host.name}`,
+        env: { TERM: target.term },
+      })
+    );
+    const recordInput = vscode.workspace.getConfiguration('sshLite').get<boolean>('terminal.recordInput', false);
+    const activityId = ActivityService.getInstance().startActivity(
+      'terminal',
+      target.connectionId,
+      target.host.name,
+      `Recording ${target.terminalName}`,
+      { detail: path.basename(filePath) }
+    );
+    infoLog('terminal-recording', 'start', { connectionId: target.connectionId, file: path.basename(filePath), recordInput });
+    return new TerminalRecording(filePath, target, recordInput, activityId, stream);
+  }
+
+  /** Close the file, finish the activity and audit the recording */
+  async stop(recording: TerminalRecording): Promise<void> {
+    await recording.close();
+    const seconds = Math.round((Date.now() - recording.startedAt) / 1000);
+    let size = 0;
+    try {
+      size = (await fs.promises.stat(recording.filePath)).size;
+    } catch {
+      // reported as 0 bytes
+    }
+    const name = path.basename(recording.filePath);
+    const detail = `${formatSeconds(seconds)}, ${formatFileSize(size)}${recording.recordInput ? ', with input' : ''}`;
+    ActivityService.getInstance().completeActivity(recording.activityId, `Saved ${name}`);
+    AuditService.getInstance().log({
+      action: 'record',
+      connectionId: recording.target.connectionId,
+      hostName: recording.target.host.name,
+      username: recording.target.host.username,
+      remotePath: '',
+      localPath: recording.filePath,
+      fileSize: size,
+      detail: `Terminal recording ${detail}`,
+      success: true,
+    });
+    infoLog('terminal-recording', 'stop', { connectionId: recording.target.connectionId, file: name, seconds, size });
+  }
+
+  /** Recordings in the recordings folder, newest first. Unreadable files are left out. */
+  async listRecordings(): Promise<RecordingInfo[]> {
+    const dir = this.getRecordingsDir();
+    let names: string[];
+    try {
+      names = (await fs.promises.readdir(dir)).filter((n) => n.endsWith('.cast'));
+    } catch {
+      return [];
+    }
+    const out: Array<{ info: RecordingInfo; mtime: number }> = [];
+    for (const name of names) {
+      const filePath = path.join(dir, name);
+      try {
+        const info = await readSummary(filePath);
+        if (info) {
+          out.push(info);
+        }
+      } catch {
+        // unreadable
+      }
+    }
+    return out.sort((a, b) => b.mtime - a.mtime).map((r) => r.info);
+  }
+}
+
+/**
+ * Header and duration of a `.cast` file from its first and last few KB, so
+ * listing a folder of long recordings does not read them whole.
+ */
+async function readSummary(filePath: string): Promise<{ info: RecordingInfo; mtime: number } | undefined> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const stat = await handle.stat();
+    const chunk = 8192;
+    const head = Buffer.alloc(Math.min(chunk, stat.size));
+    await handle.read(head, 0, head.length, 0);
+    const headText = head.toString('utf-8');
+    let header;
+    try {
+      header = parseCast(headText.split('\n')[0]).header;
+    } catch {
+      return undefined;
+    }
+    const tail = Buffer.alloc(Math.min(chunk, stat.size));
+    await handle.read(tail, 0, tail.length, stat.size - tail.length);
+    const lastEvents = parseCast(`${JSON.stringify(header)}\n${tail.toString('utf-8').split('\n').slice(1).join('\n')}`);
+    return {
+      info: {
+        filePath,
+        title: header.title,
+        startedAt: header.timestamp ? header.timestamp * 1000 : undefined,
+        duration: lastEvents.duration,
+        size: stat.size,
+      },
+      mtime: stat.mtimeMs,
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+/** 95 → "1m 35s" */
+export function formatSeconds(seconds: number): string {
+  const s = Math.max(0, Math.round(seconds));
+  if (s < 60) {
+    return `${s}s`;
+  }
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  return h > 0 ? `${h}h ${m}m` : `${m}m ${s % 60}s`;
+}
@@ -6,6 +6,10 @@
  * - Terminal counting per connection
  * - Terminal ID generation
  * - Error handling on terminal creation
+ * - Persistent sessions: waiting through a dropped connection, reattaching
+ * - Recording: output, input and resizes reach the recording; closing ends it
+ * - Broadcast: leader input fans out to members, pausing, markers, closing
+ * - Working directory: OSC 7 from the shell, Open Terminal Here, the reportCwd hook
  *
  * The actual pseudoterminal creation and SSH shell integration
  * are too tightly coupled to VS Code to unit test meaningfully.
@@ -14,6 +18,10 @@
 import { EventEmitter } from 'events';
 import * as vscode from 'vscode';
 import { TerminalService } from './TerminalService';
+import { CommandGuard } from './CommandGuard';
+import { TerminalRecordingService } from './TerminalRecordingService';
+import { setMockConfig, clearMockConfig } from '../__mocks__/vscode';
+import { CWD_REPORT_HOOK } from '../utils/terminalPaths';
 
 function resetService(): TerminalService {
   (TerminalService as any)._instance = undefined;
@@ -228,4 +236,317 @@ describe('TerminalService', () => {
       expect(shellSpy).not.toHaveBeenCalled();
     });
   });
+
+  describe('persistent sessions', () => {
+    const session = { backend: 'tmux' as const, name: 'sshlite-abc-1' };
+    let pty: any;
+    let write: jest.Mock;
+    let closed: jest.Mock;
+
+    function makeShell(): any {
+      const shell: any = new EventEmitter();
+      shell.write = jest.fn();
+      shell.setWindow = jest.fn();
+      shell.end = jest.fn();
+      return shell;
+    }
+
+    async function open(shell: any, name = 'web1') {
+      const connection: any = { id: `${name}:22:u`, host: { name }, shell: jest.fn() };
+      await service.createTerminal(connection, shell, session);
+      write = jest.fn();
+      closed = jest.fn();
+      pty.onDidWrite(write);
+      pty.onDidClose(closed);
+      pty.open({ rows: 40, columns: 120 });
+      return connection;
+    }
+
+    beforeEach(() => {
+      (vscode.window.createTerminal as jest.Mock).mockImplementation((opts: { pty: unknown }) => {
+        pty = opts.pty;
+        return { show: jest.fn(), dispose: jest.fn() };
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      (vscode.window.createTerminal as jest.Mock).mockReset().mockReturnValue({ show: jest.fn(), dispose: jest.fn() });
+    });
+
+    it('runs the attach command on the channel and names the tab after the backend', () => {
+      expect(service.shellOptions(session).command).toBe(
+        "tmux attach-session -d -t 'sshlite-abc-1' 2>/dev/null || tmux new-session -s 'sshlite-abc-1'"
+      );
+      expect(service.shellOptions().command).toBeUndefined();
+    });
+
+    it('keeps the tab open when the connection drops, then reattaches it', async () => {
+      const first = makeShell();
+      const connection = await open(first);
+      expect(vscode.window.createTerminal).toHaveBeenCalledWith(expect.objectContaining({ name: 'SSH: web1 · tmux' }));
+
+      first.emit('close'); // no exit status: the connection went away
+
+      expect(closed).not.toHaveBeenCalled();
+      expect(write).toHaveBeenLastCalledWith(expect.stringContaining('Session sshlite-abc-1 keeps running'));
+      pty.handleInput('ls\r');
+      expect(first.write).not.toHaveBeenCalled();
+
+      const second = makeShell();
+      const openShell = jest.spyOn(CommandGuard.getInstance(), 'openShell').mockResolvedValue(second);
+      await service.reattachSessions(connection);
+
+      expect(openShell).toHaveBeenCalledWith(connection, expect.anything(), expect.objectContaining({ command: expect.stringContaining('sshlite-abc-1') }));
+      expect(second.setWindow).toHaveBeenCalledWith(40, 120, 0, 0);
+      pty.handleInput('ls\r');
+      expect(second.write).toHaveBeenCalledWith('ls\r');
+      second.emit('data', 'still building');
+      expect(write).toHaveBeenLastCalledWith('still building');
+    });
+
+    it('closes the tab when the session itself ends', async () => {
+      const shell = makeShell();
+      await open(shell);
+
+      shell.emit('exit', 0);
+      shell.emit('close');
+
+      expect(closed).toHaveBeenCalled();
+      expect(service.getSessionNames('web1:22:u')).toEqual([]);
+    });
+
+    it('lists the sessions open in tabs and only reattaches the waiting ones', async () => {
+      const shell = makeShell();
+      const connection = await open(shell);
+      const openShell = jest.spyOn(CommandGuard.getInstance(), 'openShell');
+
+      await service.reattachSessions(connection);
+
+      expect(service.getSessionNames(connection.id)).toEqual(['sshlite-abc-1']);
+      expect(openShell).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recording', () => {
+    let pty: any;
+    let terminal: any;
+    let shell: any;
+    let recording: any;
+    let start: jest.SpyInstance;
+    let stop: jest.SpyInstance;
+
+    beforeEach(async () => {
+      (vscode.window.createTerminal as jest.Mock).mockImplementation((opts: { pty: unknown; name: string }) => {
+        pty = opts.pty;
+        terminal = { name: opts.name, show: jest.fn(), dispose: jest.fn() };
+        return terminal;
+      });
+      recording = { filePath: '/rec/web1.cast', output: jest.fn(), input: jest.fn(), resize: jest.fn() };
+      start = jest.spyOn(TerminalRecordingService.getInstance(), 'start').mockReturnValue(recording);
+      stop = jest.spyOn(TerminalRecordingService.getInstance(), 'stop').mockResolvedValue();
+      shell = new EventEmitter();
+      shell.write = jest.fn();
+      shell.setWindow = jest.fn();
+      shell.end = jest.fn();
+      const connection: any = { id: 'web1:22:deploy', host: { name: 'web1', username: 'deploy' }, shell: jest.fn() };
+      await service.createTerminal(connection, shell);
+      pty.open({ rows: 30, columns: 100 });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      (vscode.window.createTerminal as jest.Mock).mockReset().mockReturnValue({ show: jest.fn(), dispose: jest.fn() });
+    });
+
+    it('records output, input and resizes of the terminal at its current size', () => {
+      expect(service.startRecording(terminal)).toBe('/rec/web1.cast');
+      expect(start).toHaveBeenCalledWith(expect.objectContaining({
+        connectionId: 'web1:22:deploy',
+        terminalName: 'SSH: web1',
+        columns: 100,
+        rows: 30,
+      }));
+      expect(service.isRecording(terminal)).toBe(true);
+
+      shell.emit('data', Buffer.from('$ '));
+      pty.handleInput('ls\r');
+      pty.setDimensions({ rows: 40, columns: 132 });
+
+      expect(recording.output).toHaveBeenCalledWith('$ ');
+      expect(recording.input).toHaveBeenCalledWith('ls\r');
+      expect(recording.resize).toHaveBeenCalledWith(132, 40);
+    });
+
+    it('refuses terminals that are not ours or already recording', () => {
+      expect(() => service.startRecording({ name: 'bash' } as any)).toThrow('Not an SSH Lite terminal');
+      service.startRecording(terminal);
+      expect(() => service.startRecording(terminal)).toThrow('Already recording to /rec/web1.cast');
+    });
+
+    it('stops on request and when the terminal closes', async () => {
+      expect(await service.stopRecording(terminal)).toBeUndefined();
+      service.startRecording(terminal);
+      expect(await service.stopRecording(terminal)).toBe('/rec/web1.cast');
+      expect(stop).toHaveBeenCalledTimes(1);
+
+      service.startRecording(terminal);
+      pty.close();
+      expect(stop).toHaveBeenCalledTimes(2);
+      expect(service.isSshTerminal(terminal)).toBe(false);
+    });
+  });
+
+  describe('broadcast', () => {
+    const made: Array<{ pty: any; terminal: any; shell: any; names: string[] }> = [];
+
+    async function open(host: string) {
+      const shell: any = new EventEmitter();
+      shell.write = jest.fn();
+      shell.setWindow = jest.fn();
+      shell.end = jest.fn();
+      const connection: any = { id: `${host}:22:u`, host: { name: host }, shell: jest.fn() };
+      await service.createTerminal(connection, shell);
+      const t = made[made.length - 1];
+      t.shell = shell;
+      t.pty.onDidChangeName((n: string) => t.names.push(n));
+      t.pty.open({ rows: 24, columns: 80 });
+      return t;
+    }
+
+    beforeEach(() => {
+      made.length = 0;
+      (vscode.window.createTerminal as jest.Mock).mockImplementation((opts: { pty: unknown; name: string }) => {
+        const terminal = { name: opts.name, show: jest.fn(), dispose: jest.fn() };
+        made.push({ pty: opts.pty, terminal, shell: undefined, names: [] });
+        return terminal;
+      });
+    });
+
+    afterEach(() => {
+      (vscode.window.createTerminal as jest.Mock).mockReset().mockReturnValue({ show: jest.fn(), dispose: jest.fn() });
+    });
+
+    it('writes what is typed in the leader to every member, and member input only to itself', async () => {
+      const a = await open('web1');
+      const b = await open('web2');
+      const c = await open('web3');
+      service.startBroadcast(a.terminal, [a.terminal, b.terminal, c.terminal]);
+
+      a.pty.handleInput('apt upgrade\r');
+      b.pty.handleInput('q');
+
+      expect(a.shell.write).toHaveBeenCalledWith('apt upgrade\r');
+      expect(b.shell.write).toHaveBeenCalledWith('apt upgrade\r');
+      expect(c.shell.write).toHaveBeenCalledWith('apt upgrade\r');
+      expect(a.shell.write).not.toHaveBeenCalledWith('q');
+      expect(c.shell.write).not.toHaveBeenCalledWith('q');
+    });
+
+    it('marks the tab names and restores them when stopped', async () => {
+      const a = await open('web1');
+      const b = await open('web2');
+      service.startBroadcast(a.terminal, [b.terminal]);
+
+      expect(a.names.at(-1)).toBe('📡 Leader · SSH: web1');
+      expect(b.names.at(-1)).toBe('📡 SSH: web2');
+
+      service.setBroadcastPaused(b.terminal, true);
+      expect(b.names.at(-1)).toBe('⏸ Paused · SSH: web2');
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('setContext', 'sshLite.broadcasting', true);
+
+      service.stopBroadcast();
+      expect(a.names.at(-1)).toBe('SSH: web1');
+      expect(b.names.at(-1)).toBe('SSH: web2');
+      expect(service.getBroadcast()).toBeUndefined();
+      expect(vscode.commands.executeCommand).toHaveBeenLastCalledWith('setContext', 'sshLite.broadcasting', false);
+    });
+
+    it('skips paused members', async () => {
+      const a = await open('web1');
+      const b = await open('web2');
+      const c = await open('web3');
+      service.startBroadcast(a.terminal, [b.terminal, c.terminal]);
+      service.setBroadcastPaused(c.terminal, true);
+
+      a.pty.handleInput('x');
+
+      expect(b.shell.write).toHaveBeenCalledWith('x');
+      expect(c.shell.write).not.toHaveBeenCalled();
+      expect(service.getBroadcast()!.members.map((m) => m.paused)).toEqual([false, true]);
+    });
+
+    it('ends when the leader or the last member closes', async () => {
+      const a = await open('web1');
+      const b = await open('web2');
+      const c = await open('web3');
+      service.startBroadcast(a.terminal, [b.terminal, c.terminal]);
+
+      b.pty.close();
+      expect(service.getBroadcast()!.members).toHaveLength(1);
+      a.pty.close();
+      expect(service.getBroadcast()).toBeUndefined();
+      expect(c.names.at(-1)).toBe('SSH: web3');
+
+      const d = await open('web4');
+      service.startBroadcast(c.terminal, [d.terminal]);
+      d.pty.close();
+      expect(service.getBroadcast()).toBeUndefined();
+    });
+
+    it('needs SSH Lite terminals and at least one member', async () => {
+      const a = await open('web1');
+      expect(() => service.startBroadcast(a.terminal, [a.terminal])).toThrow('at least one terminal besides the leader');
+      expect(() => service.startBroadcast(a.terminal, [{ name: 'bash' } as any])).toThrow('bash is not an SSH Lite terminal');
+    });
+  });
+
+  describe('working directory', () => {
+    let pty: any;
+    let terminal: any;
+    let shell: any;
+
+    async function open() {
+      (vscode.window.createTerminal as jest.Mock).mockImplementation((opts: { pty: unknown; name: string }) => {
+        pty = opts.pty;
+        terminal = { name: opts.name, show: jest.fn(), dispose: jest.fn() };
+        return terminal;
+      });
+      shell = new EventEmitter();
+      shell.write = jest.fn();
+      shell.setWindow = jest.fn();
+      shell.end = jest.fn();
+      const connection: any = { id: 'web1:22:deploy', host: { name: 'web1', username: 'deploy' }, shell: jest.fn() };
+      await service.createTerminal(connection, shell);
+      pty.open({ rows: 24, columns: 80 });
+    }
+
+    afterEach(() => {
+      clearMockConfig();
+      (vscode.window.createTerminal as jest.Mock).mockReset().mockReturnValue({ show: jest.fn(), dispose: jest.fn() });
+    });
+
+    it('follows the directory the shell reports and the one Open Terminal Here sends it to', async () => {
+      await open();
+      expect(service.getTerminalLocation(terminal)).toEqual({ connectionId: 'web1:22:deploy', cwd: undefined });
+
+      service.setCwd(terminal, '/srv/app');
+      expect(service.getTerminalLocation(terminal)!.cwd).toBe('/srv/app');
+
+      shell.emit('data', Buffer.from('\x1b]7;file://web1/var/'));
+      shell.emit('data', Buffer.from('log\x07$ '));
+      expect(service.getTerminalLocation(terminal)!.cwd).toBe('/var/log');
+      expect(service.getTerminalLocation({ name: 'bash' } as any)).toBeUndefined();
+    });
+
+    it('types the reporting hook only when asked to', async () => {
+      await open();
+      expect(shell.write).not.toHaveBeenCalled();
+
+      setMockConfig('sshLite.terminal.reportCwd', true);
+      await open();
+      expect(shell.write).toHaveBeenCalledWith(`${CWD_REPORT_HOOK}\n`);
+    });
+  });
 });
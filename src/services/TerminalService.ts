@@ -1,8 +1,17 @@
 import * as vscode from 'vscode';
 import { SSHConnection } from '../connection/SSHConnection';
+import { IHostConfig } from '../types';
 import { assertCapability } from '../utils/capabilityGuard';
 import { ClientChannel } from 'ssh2';
 import { diagLog, infoLog } from '../utils/diagnosticLog';
+import { PersistentSession, buildAttachCommand } from '../utils/persistentSession';
+import { PersistentSessionService } from './PersistentSessionService';
+import { CommandGuard } from './CommandGuard';
+import { TerminalRecording, TerminalRecordingService } from './TerminalRecordingService';
+import { CwdTracker, CWD_REPORT_HOOK } from '../utils/terminalPaths';
+
+/** Context key: a broadcast group is running (terminal menu entries) */
+const BROADCASTING_KEY = 'sshLite.broadcasting';
 
 /**
  * Terminal info for tracking resources
@@ -11,6 +20,35 @@ interface TerminalInfo {
   terminal: vscode.Terminal;
   writeEmitter: vscode.EventEmitter<string>;
   closeEmitter: vscode.EventEmitter<number | void>;
+  /** Renames the tab (broadcast markers); `name` is the name without them */
+  nameEmitter: vscode.EventEmitter<string>;
+  name: string;
+  connectionId: string;
+  host: IHostConfig;
+  /** Current size, kept up to date by the pseudoterminal */
+  size: { rows: number; columns: number };
+  /** The shell's working directory, as last reported (OSC 7) or set by Open Terminal Here */
+  cwd?: string;
+  /** Set while the terminal is being recorded */
+  recording?: TerminalRecording;
+  /** Set when the terminal runs inside a persistent session */
+  session?: PersistentSession;
+  /** The connection dropped under a persistent session; reattachSessions() resumes it */
+  waitingForReconnect?: boolean;
+  /** Hand the pseudoterminal a new channel into its session */
+  attach?: (shell: ClientChannel) => void;
+  /** Write input to the shell as if typed in this terminal (broadcast) */
+  send?: (data: string) => void;
+}
+
+/**
+ * Input typed in the leader terminal is also written to every member that
+ * is not paused. One group at a time.
+ */
+interface BroadcastGroup {
+  leaderId: string;
+  /** Member terminal id → paused */
+  members: Map<string, boolean>;
 }
 
 /**
@@ -20,6 +58,7 @@ export class TerminalService {
   private static _instance: TerminalService;
   private terminals: Map<string, TerminalInfo> = new Map();
   private terminalCounters: Map<string, number> = new Map(); // connectionId -> counter
+  private broadcast?: BroadcastGroup;
 
   /**
    * Fires on terminal activity so consumers (e.g. the Support view NPC) can react.
@@ -97,11 +136,25 @@ export class TerminalService {
     return env;
   }
 
+  /**
+   * Shell channel options for a new terminal: the forwarded env, and for a
+   * persistent session the command that attaches to it.
+   */
+  shellOptions(session?: PersistentSession): { env: Record<string, string>; command?: string } {
+    const env = this.buildShellEnv();
+    return session ? { env, command: buildAttachCommand(session) } : { env };
+  }
+
   /**
    * Create a new SSH terminal for a connection.
    * Multiple terminals can be opened on the same connection without re-authentication.
+   * A pre-opened shell must already run `session`'s attach command (see shellOptions).
    */
-  async createTerminal(connection: SSHConnection, preOpenedShell?: ClientChannel): Promise<vscode.Terminal> {
+  async createTerminal(
+    connection: SSHConnection,
+    preOpenedShell?: ClientChannel,
+    session?: PersistentSession
+  ): Promise<vscode.Terminal> {
     // Backstop: FTP has no interactive shell.
     assertCapability(connection, 'supportsShell');
     // Increment terminal counter for this connection
@@ -116,6 +169,7 @@ export class TerminalService {
       hostName: connection.host.name,
       terminalNumber,
       preOpened: !!preOpenedShell,
+      session: session?.name,
     });
 
     try {
@@ -126,12 +180,13 @@ export class TerminalService {
       if (preOpenedShell) {
         shell = preOpenedShell;
       } else {
+        session = session ?? await PersistentSessionService.getInstance().newSession(connection);
         const term = this.getTermType();
-        const env = this.buildShellEnv();
-        infoLog('terminal', 'pty/open', { connectionId: connection.id, term, envKeys: Object.keys(env) });
-        shell = await connection.shell({ term }, { env });
+        const options = this.shellOptions(session);
+        infoLog('terminal', 'pty/open', { connectionId: connection.id, term, envKeys: Object.keys(options.env), backend: session?.backend });
+        shell = await connection.shell({ term }, options);
       }
-      const terminalInfo = this.createPseudoTerminal(connection, shell, terminalId, terminalNumber);
+      const terminalInfo = this.createPseudoTerminal(connection, shell, terminalId, terminalNumber, session);
 
       this.terminals.set(terminalId, terminalInfo);
       terminalInfo.terminal.show();
@@ -169,89 +224,200 @@ export class TerminalService {
     return count;
   }
 
+  /** Names of the persistent sessions open in terminal tabs for a connection */
+  getSessionNames(connectionId: string): string[] {
+    return [...this.terminals.values()]
+      .filter((info) => info.connectionId === connectionId && info.session)
+      .map((info) => info.session!.name);
+  }
+
   /**
-   * Create a VS Code terminal with a custom pseudoterminal
+   * Give every terminal whose persistent session lost its connection a new
+   * channel into the session. Called when a connection (re)connects; a
+   * terminal that fails to reattach keeps waiting for the next reconnect.
+   */
+  async reattachSessions(connection: SSHConnection): Promise<void> {
+    const waiting = [...this.terminals.entries()].filter(
+      ([, info]) => info.connectionId === connection.id && info.waitingForReconnect && info.session
+    );
+    for (const [terminalId, info] of waiting) {
+      try {
+        const shell = await CommandGuard.getInstance().openShell(
+          connection,
+          { term: this.getTermType() },
+          this.shellOptions(info.session)
+        );
+        info.attach?.(shell);
+        infoLog('terminal', 'reattach/success', { connectionId: connection.id, terminalId, session: info.session!.name });
+      } catch (error) {
+        const e = error as Error;
+        infoLog('terminal', 'reattach/failed', { connectionId: connection.id, terminalId, errorMessage: e.message });
+        info.writeEmitter.fire(`\r\nReattach failed: ${e.message}\r\n`);
+      }
+    }
+  }
+
+  /**
+   * Create a VS Code terminal with a custom pseudoterminal. Under a persistent
+   * session, a channel that closes without an exit status (the connection
+   * dropped) leaves the terminal open, waiting for reattachSessions().
    */
   private createPseudoTerminal(
     connection: SSHConnection,
-    shell: ClientChannel,
+    initialShell: ClientChannel,
     terminalId: string,
-    terminalNumber: number
+    terminalNumber: number,
+    session?: PersistentSession
   ): TerminalInfo {
     const writeEmitter = new vscode.EventEmitter<string>();
     const closeEmitter = new vscode.EventEmitter<number | void>();
+    const nameEmitter = new vscode.EventEmitter<string>();
+
+    const dimensions = { rows: 24, columns: 80 };
+    let shell = initialShell;
+    let closing = false;
+    const isWaiting = () => !!this.terminals.get(terminalId)?.waitingForReconnect;
 
-    let dimensions = { rows: 24, columns: 80 };
+    const recording = () => this.terminals.get(terminalId)?.recording;
+    const cwdTracker = new CwdTracker();
 
     const cleanup = () => {
       const info = this.terminals.get(terminalId);
       if (info) {
+        this.endRecording(info);
+        this.leaveBroadcast(terminalId);
         info.writeEmitter.dispose();
         info.closeEmitter.dispose();
+        info.nameEmitter.dispose();
         this.terminals.delete(terminalId);
       }
     };
 
+    const bind = (channel: ClientChannel) => {
+      // exit-status / exit-signal: the remote side ended. A dropped
+      // connection closes the channel without one.
+      let exited = false;
+
+      // Handle data from remote
+      channel.on('data', (data: Buffer | string) => {
+        // Coarse activity signal only — never the data itself.
+        this._onActivity.fire('output');
+        const str = typeof data === 'string' ? data : data.toString('utf-8');
+        recording()?.output(str);
+        const cwd = cwdTracker.feed(str);
+        const info = this.terminals.get(terminalId);
+        if (cwd && info) {
+          info.cwd = cwd;
+        }
+        writeEmitter.fire(str);
+      });
+
+      channel.on('exit', () => {
+        exited = true;
+      });
+
+      // Handle shell close
+      channel.on('close', () => {
+        diagLog('terminal', 'shell-close', { connectionId: connection.id, terminalId, exited });
+        const info = this.terminals.get(terminalId);
+        if (session && info && !exited && !closing) {
+          info.waitingForReconnect = true;
+          infoLog('terminal', 'session/detached', { connectionId: connection.id, terminalId, session: session.name });
+          writeEmitter.fire(
+            `\r\n[Connection lost. Session ${session.name} keeps running on the server; reattaching when ${connection.host.name} reconnects…]\r\n`
+          );
+          return;
+        }
+        closeEmitter.fire();
+        cleanup();
+      });
+
+      channel.on('error', (err: Error) => {
+        infoLog('terminal', 'shell-error', { connectionId: connection.id, terminalId, errorName: err.name, errorMessage: err.message });
+        writeEmitter.fire(`\r\nConnection error: ${err.message}\r\n`);
+        // A persistent session waits for the close that follows instead
+        if (!session) {
+          closeEmitter.fire();
+          cleanup();
+        }
+      });
+    };
+
+    const attach = (channel: ClientChannel) => {
+      shell = channel;
+      const info = this.terminals.get(terminalId);
+      if (info) {
+        info.waitingForReconnect = false;
+      }
+      bind(channel);
+      channel.setWindow(dimensions.rows, dimensions.columns, 0, 0);
+      writeEmitter.fire(`[Reattached to ${session?.name}]\r\n`);
+    };
+
+    const send = (data: string) => {
+      recording()?.input(data);
+      // Send input to remote shell
+      if (!isWaiting()) {
+        shell.write(data);
+      }
+    };
+
     const pty: vscode.Pseudoterminal = {
       onDidWrite: writeEmitter.event,
       onDidClose: closeEmitter.event,
+      onDidChangeName: nameEmitter.event,
 
       open: (initialDimensions) => {
         if (initialDimensions) {
-          dimensions = initialDimensions;
+          Object.assign(dimensions, initialDimensions);
           // Set initial window size
           shell.setWindow(dimensions.rows, dimensions.columns, 0, 0);
         }
 
-        // Handle data from remote
-        shell.on('data', (data: Buffer | string) => {
-          // Coarse activity signal only — never the data itself.
-          this._onActivity.fire('output');
-          const str = typeof data === 'string' ? data : data.toString('utf-8');
-          writeEmitter.fire(str);
-        });
-
-        // Handle shell close
-        shell.on('close', () => {
-          diagLog('terminal', 'shell-close', { connectionId: connection.id, terminalId });
-          closeEmitter.fire();
-          cleanup();
-        });
+        bind(shell);
 
-        shell.on('error', (err: Error) => {
-          infoLog('terminal', 'shell-error', { connectionId: connection.id, terminalId, errorName: err.name, errorMessage: err.message });
-          writeEmitter.fire(`\r\nConnection error: ${err.message}\r\n`);
-          closeEmitter.fire();
-          cleanup();
-        });
+        // Inside tmux/screen the hook would run in whichever window is
+        // current, and the multiplexer keeps OSC 7 to itself
+        if (!session && vscode.workspace.getConfiguration('sshLite').get<boolean>('terminal.reportCwd', false)) {
+          shell.write(`${CWD_REPORT_HOOK}\n`);
+        }
 
         // Send welcome message
-        writeEmitter.fire(`Connected to ${connection.host.name}\r\n`);
+        const where = session ? ` (${session.backend} session ${session.name})` : '';
+        writeEmitter.fire(`Connected to ${connection.host.name}${where}\r\n`);
       },
 
       close: () => {
-        shell.end();
+        closing = true;
+        if (!isWaiting()) {
+          // Ends the attach client only: a persistent session keeps running
+          shell.end();
+        }
         cleanup();
       },
 
       handleInput: (data: string) => {
         // Coarse activity signal only — never the keystroke content.
         this._onActivity.fire('input');
-        // Send input to remote shell
-        shell.write(data);
+        send(data);
+        this.fanOut(terminalId, data);
       },
 
       setDimensions: (newDimensions) => {
-        dimensions = newDimensions;
+        Object.assign(dimensions, newDimensions);
+        recording()?.resize(dimensions.columns, dimensions.rows);
         // Resize the remote terminal
-        shell.setWindow(dimensions.rows, dimensions.columns, 0, 0);
+        if (!isWaiting()) {
+          shell.setWindow(dimensions.rows, dimensions.columns, 0, 0);
+        }
       },
     };
 
     // Include terminal number in name for multiple terminals
-    const terminalName = terminalNumber > 1
+    const baseName = terminalNumber > 1
       ? `SSH: ${connection.host.name} (${terminalNumber})`
       : `SSH: ${connection.host.name}`;
+    const terminalName = session ? `${baseName} · ${session.backend}` : baseName;
 
     const terminal = vscode.window.createTerminal({
       name: terminalName,
@@ -259,7 +425,207 @@ export class TerminalService {
       iconPath: new vscode.ThemeIcon('terminal'),
     });
 
-    return { terminal, writeEmitter, closeEmitter };
+    return {
+      terminal,
+      writeEmitter,
+      closeEmitter,
+      nameEmitter,
+      name: terminalName,
+      connectionId: connection.id,
+      host: connection.host,
+      size: dimensions,
+      session,
+      attach,
+      send,
+    };
+  }
+
+  /** Whether a VS Code terminal is one of ours (an SSH terminal) */
+  isSshTerminal(terminal: vscode.Terminal): boolean {
+    return !!this.findTerminal(terminal);
+  }
+
+  isRecording(terminal: vscode.Terminal): boolean {
+    return !!this.findTerminal(terminal)?.recording;
+  }
+
+  /**
+   * Start recording an SSH terminal to an asciicast file. Returns the file
+   * path; throws for terminals that are not ours or already recording.
+   */
+  startRecording(terminal: vscode.Terminal): string {
+    const info = this.findTerminal(terminal);
+    if (!info) {
+      throw new Error('Not an SSH Lite terminal');
+    }
+    if (info.recording) {
+      throw new Error(`Already recording to ${info.recording.filePath}`);
+    }
+    info.recording = TerminalRecordingService.getInstance().start({
+      connectionId: info.connectionId,
+      host: info.host,
+      terminalName: terminal.name,
+      term: this.getTermType(),
+      columns: info.size.columns,
+      rows: info.size.rows,
+    });
+    return info.recording.filePath;
+  }
+
+  /** Stop a terminal's recording; resolves with the file path, or undefined when it was not recording */
+  async stopRecording(terminal: vscode.Terminal): Promise<string | undefined> {
+    const info = this.findTerminal(terminal);
+    const recording = info?.recording;
+    if (!info || !recording) {
+      return undefined;
+    }
+    info.recording = undefined;
+    await TerminalRecordingService.getInstance().stop(recording);
+    return recording.filePath;
+  }
+
+  private findTerminal(terminal: vscode.Terminal): TerminalInfo | undefined {
+    const id = this.findTerminalId(terminal);
+    return id ? this.terminals.get(id) : undefined;
+  }
+
+  private findTerminalId(terminal: vscode.Terminal): string | undefined {
+    return [...this.terminals.entries()].find(([, info]) => info.terminal === terminal)?.[0];
+  }
+
+  /** A terminal closing ends its recording */
+  private endRecording(info: TerminalInfo): void {
+    const recording = info.recording;
+    if (recording) {
+      info.recording = undefined;
+      TerminalRecordingService.getInstance().stop(recording).catch((err: Error) => {
+        infoLog('terminal-recording', 'stop/failed', { connectionId: info.connectionId, errorMessage: err.message });
+      });
+    }
+  }
+
+  /**
+   * Connection and working directory of an SSH terminal; `cwd` is unset until
+   * the shell reports it (see `terminal.reportCwd`) or Open Terminal Here sets it.
+   */
+  getTerminalLocation(terminal: vscode.Terminal): { connectionId: string; cwd?: string } | undefined {
+    const info = this.findTerminal(terminal);
+    return info && { connectionId: info.connectionId, cwd: info.cwd };
+  }
+
+  /** Record a directory the terminal was sent to (Open Terminal Here's `cd`) */
+  setCwd(terminal: vscode.Terminal, cwd: string): void {
+    const info = this.findTerminal(terminal);
+    if (info) {
+      info.cwd = cwd;
+    }
+  }
+
+  /** Open SSH Lite terminals with their host */
+  getTerminals(): Array<{ terminal: vscode.Terminal; connectionId: string; host: IHostConfig }> {
+    return [...this.terminals.values()].map(({ terminal, connectionId, host }) => ({ terminal, connectionId, host }));
+  }
+
+  /**
+   * Send what is typed in `leader` to every terminal in `members` as well,
+   * replacing any current group. Marks the tab names of all of them.
+   */
+  startBroadcast(leader: vscode.Terminal, members: vscode.Terminal[]): void {
+    const idOf = (terminal: vscode.Terminal): string => {
+      const id = this.findTerminalId(terminal);
+      if (!id) {
+        throw new Error(`${terminal.name} is not an SSH Lite terminal`);
+      }
+      return id;
+    };
+    const leaderId = idOf(leader);
+    const memberIds = members.map(idOf).filter((id) => id !== leaderId);
+    if (memberIds.length === 0) {
+      throw new Error('A broadcast needs at least one terminal besides the leader');
+    }
+    this.stopBroadcast();
+    this.broadcast = { leaderId, members: new Map(memberIds.map((id) => [id, false])) };
+    void vscode.commands.executeCommand('setContext', BROADCASTING_KEY, true);
+    infoLog('terminal', 'broadcast/start', { leaderId, members: memberIds.length });
+    this.refreshBroadcastNames();
+  }
+
+  /** End the broadcast group and restore the tab names */
+  stopBroadcast(): void {
+    const group = this.broadcast;
+    if (!group) {
+      return;
+    }
+    this.broadcast = undefined;
+    void vscode.commands.executeCommand('setContext', BROADCASTING_KEY, false);
+    infoLog('terminal', 'broadcast/stop', { leaderId: group.leaderId });
+    for (const id of [group.leaderId, ...group.members.keys()]) {
+      const info = this.terminals.get(id);
+      info?.nameEmitter.fire(info.name);
+    }
+  }
+
+  /** The current broadcast group, if any */
+  getBroadcast(): { leader: vscode.Terminal; members: Array<{ terminal: vscode.Terminal; paused: boolean }> } | undefined {
+    const group = this.broadcast;
+    const leader = group && this.terminals.get(group.leaderId);
+    if (!group || !leader) {
+      return undefined;
+    }
+    const members = [...group.members.entries()]
+      .filter(([id]) => this.terminals.has(id))
+      .map(([id, paused]) => ({ terminal: this.terminals.get(id)!.terminal, paused }));
+    return { leader: leader.terminal, members };
+  }
+
+  /** Stop (or resume) sending the leader's input to one member */
+  setBroadcastPaused(terminal: vscode.Terminal, paused: boolean): void {
+    const group = this.broadcast;
+    const id = this.findTerminalId(terminal);
+    if (!group || !id || !group.members.has(id)) {
+      return;
+    }
+    group.members.set(id, paused);
+    this.refreshBroadcastNames();
+  }
+
+  /** Leader input goes to every member that is not paused */
+  private fanOut(terminalId: string, data: string): void {
+    const group = this.broadcast;
+    if (!group || group.leaderId !== terminalId) {
+      return;
+    }
+    for (const [id, paused] of group.members) {
+      if (!paused) {
+        this.terminals.get(id)?.send?.(data);
+      }
+    }
+  }
+
+  /** A closed leader ends the group; a closed member leaves it */
+  private leaveBroadcast(terminalId: string): void {
+    const group = this.broadcast;
+    if (!group) {
+      return;
+    }
+    if (group.leaderId === terminalId) {
+      this.stopBroadcast();
+    } else if (group.members.delete(terminalId) && group.members.size === 0) {
+      this.stopBroadcast();
+    }
+  }
+
+  private refreshBroadcastNames(): void {
+    const group = this.broadcast;
+    if (!group) {
+      return;
+    }
+    const leader = this.terminals.get(group.leaderId);
+    leader?.nameEmitter.fire(`📡 Leader · ${leader.name}`);
+    for (const [id, paused] of group.members) {
+      const info = this.terminals.get(id);
+      info?.nameEmitter.fire(paused ? `⏸ Paused · ${info.name}` : `📡 ${info.name}`);
+    }
   }
 
   /**
@@ -269,9 +635,12 @@ export class TerminalService {
     let count = 0;
     for (const [terminalId, info] of this.terminals) {
       if (terminalId.startsWith(connectionId)) {
+        this.endRecording(info);
+        this.leaveBroadcast(terminalId);
         info.terminal.dispose();
         info.writeEmitter.dispose();
         info.closeEmitter.dispose();
+        info.nameEmitter.dispose();
         this.terminals.delete(terminalId);
         count++;
       }
@@ -285,10 +654,13 @@ export class TerminalService {
    * Close all terminals
    */
   closeAllTerminals(): void {
+    this.broadcast = undefined;
     for (const info of this.terminals.values()) {
+      this.endRecording(info);
       info.terminal.dispose();
       info.writeEmitter.dispose();
       info.closeEmitter.dispose();
+      info.nameEmitter.dispose();
     }
     this.terminals.clear();
   }
@@ -0,0 +1,370 @@
+/**
+ * TransferQueueService tests
+ *
+ * Local files are real files in a temp directory (see installLocalFs).
+ * Connections are fakes looked up by id through a mocked ConnectionManager,
+ * so a test can drop one (state change) and bring it back (connections
+ * changed event) the way a reconnect does.
+ */
+
+var mockConnections = new Map<string, any>();
+var mockConnectionsChanged: (() => void) | undefined;
+var mockAuditLog = jest.fn();
+
+jest.mock('../connection/ConnectionManager', () => ({
+  ConnectionManager: {
+    getInstance: jest.fn(() => ({
+      getConnection: (id: string) => mockConnections.get(id),
+      onDidChangeConnections: (cb: () => void) => {
+        mockConnectionsChanged = cb;
+        return { dispose: jest.fn() };
+      },
+    })),
+  },
+}));
+jest.mock('./AuditService', () => ({
+  AuditService: { getInstance: jest.fn().mockReturnValue({ log: (...a: unknown[]) => mockAuditLog(...a) }) },
+}));
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { setMockConfig, clearMockConfig } from '../__mocks__/vscode';
+import { TransferQueueService, TransferItem } from './TransferQueueService';
+
+const T = 1_700_000_000_000;
+
+// Local files live in a temp directory: `file:` URIs are streamed through
+// Node's fs, and the workspace.fs mock serves every scheme from the same place.
+let root: string;
+const onDisk = (p: string) => path.join(root, p);
+
+function installLocalFs(): void {
+  const wfs = vscode.workspace.fs as unknown as Record<string, jest.Mock>;
+  wfs.readFile.mockImplementation(async (uri: vscode.Uri) => new Uint8Array(fs.readFileSync(uri.path)));
+  wfs.writeFile.mockImplementation(async (uri: vscode.Uri, content: Uint8Array) => fs.writeFileSync(uri.path, content));
+  wfs.stat.mockImplementation(async (uri: vscode.Uri) => {
+    const st = fs.statSync(uri.path);
+    return { type: vscode.FileType.File, size: st.size, mtime: st.mtimeMs, ctime: 0 };
+  });
+  wfs.delete.mockImplementation(async (uri: vscode.Uri) => fs.unlinkSync(uri.path));
+  wfs.rename.mockImplementation(async (from: vscode.Uri, to: vscode.Uri) => fs.renameSync(from.path, to.path));
+  wfs.createDirectory.mockImplementation(async (uri: vscode.Uri) => fs.mkdirSync(uri.path, { recursive: true }));
+}
+
+function writeLocal(p: string, content: string | Buffer): void {
+  fs.mkdirSync(path.dirname(onDisk(p)), { recursive: true });
+  fs.writeFileSync(onDisk(p), content);
+}
+const readLocal = (p: string) => fs.readFileSync(onDisk(p)).toString();
+const hasLocal = (p: string) => fs.existsSync(onDisk(p));
+
+/** Remote side: path -> content and mtime */
+function fakeConnection(id: string, remote: Map<string, { content: Buffer; mtime: number }>, ssh = true) {
+  const connection = {
+    id,
+    host: { name: id, username: 'deploy' },
+    state: 'connected',
+    capabilities: { type: ssh ? 'ssh' : 'ftp', supportsExec: ssh },
+    stat: jest.fn(async (p: string) => {
+      const f = remote.get(p);
+      if (!f) { throw new Error('No such file'); }
+      return { name: p, path: p, isDirectory: false, size: f.content.length, modifiedTime: f.mtime, connectionId: id };
+    }),
+    readFile: jest.fn(async (p: string) => remote.get(p)!.content),
+    writeFile: jest.fn(async (p: string, c: Buffer) => { remote.set(p, { content: c, mtime: T }); }),
+    readFileChunked: jest.fn(async (p: string, onProgress: (t: number, total: number) => void, _abort: unknown, _size: number, opts: { start?: number; onChunk?: (c: Buffer) => Promise<void> }): Promise<Buffer> => {
+      const rest = remote.get(p)!.content.subarray(opts.start ?? 0);
+      await opts.onChunk?.(rest);
+      onProgress((opts.start ?? 0) + rest.length, remote.get(p)!.content.length);
+      return Buffer.alloc(0);
+    }),
+    writeFileAt: jest.fn(async (p: string, c: Buffer, offset: number) => {
+      const before = remote.get(p)?.content ?? Buffer.alloc(0);
+      remote.set(p, { content: Buffer.concat([before.subarray(0, offset), c]), mtime: T });
+    }),
+    replaceFile: jest.fn(async (from: string, to: string) => {
+      remote.set(to, remote.get(from)!);
+      remote.delete(from);
+    }),
+    fileExists: jest.fn(async (p: string) => remote.has(p)),
+    deleteFile: jest.fn(async (p: string) => { remote.delete(p); }),
+  };
+  mockConnections.set(id, connection);
+  return connection;
+}
+
+function deferred<T>() {
+  let resolve!: (v: T) => void;
+  let reject!: (e: Error) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+}
+
+const flush = () => new Promise((r) => setImmediate(r));
+/** Disk I/O takes more than a tick: poll until `check` holds */
+async function until(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !check(); i++) {
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+const local = (p: string) => vscode.Uri.file(onDisk(p));
+
+describe('TransferQueueService', () => {
+  let queue: TransferQueueService;
+  let remote: Map<string, { content: Buffer; mtime: number }>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearMockConfig();
+    mockConnections.clear();
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'sshlite-transfers-'));
+    remote = new Map([['/srv/data.bin', { content: Buffer.from('abcdef'), mtime: T }]]);
+    installLocalFs();
+    (TransferQueueService as any)._instance = undefined;
+    queue = TransferQueueService.getInstance();
+  });
+
+  afterEach(() => {
+    queue.dispose();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('downloads a file and writes it through workspace.fs', async () => {
+    const conn = fakeConnection('web', remote);
+    const item = queue.enqueueDownload(conn as any, '/srv/data.bin', local('/home/me/data.bin'));
+
+    const done = await queue.whenDone(item.id);
+
+    expect(done.status).toBe('completed');
+    expect(done.transferred).toBe(6);
+    expect(readLocal('/home/me/data.bin')).toBe('abcdef');
+    expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'download', success: true }));
+  });
+
+  it('resumes a download from the local part file when the remote file is unchanged', async () => {
+    const conn = fakeConnection('web', remote);
+    writeLocal('/home/me/data.bin.sshlite-part', 'abc');
+
+    const item = queue.enqueueDownload(conn as any, '/srv/data.bin', local('/home/me/data.bin'), { modifiedTime: T });
+    await queue.whenDone(item.id);
+
+    expect(conn.readFileChunked.mock.calls[0][4]).toMatchObject({ start: 3 });
+    expect(readLocal('/home/me/data.bin')).toBe('abcdef');
+    expect(hasLocal('/home/me/data.bin.sshlite-part')).toBe(false);
+  });
+
+  it('starts over when the remote file changed since the part was written', async () => {
+    const conn = fakeConnection('web', remote);
+    writeLocal('/home/me/data.bin.sshlite-part', 'xyz');
+
+    const item = queue.enqueueDownload(conn as any, '/srv/data.bin', local('/home/me/data.bin'), { modifiedTime: T - 5000 });
+    await queue.whenDone(item.id);
+
+    expect(conn.readFileChunked.mock.calls[0][4]).toMatchObject({ start: 0 });
+    expect(readLocal('/home/me/data.bin')).toBe('abcdef');
+  });
+
+  it('keeps what arrived when paused and continues from there on resume', async () => {
+    const conn = fakeConnection('web', remote);
+    const stopped = deferred<Buffer>();
+    conn.readFileChunked.mockImplementationOnce(async (_p, _prog, _abort, _size, opts) => {
+      await opts.onChunk?.(Buffer.from('ab'));
+      return stopped.promise;
+    });
+
+    const item = queue.enqueueDownload(conn as any, '/srv/data.bin', local('/home/me/data.bin'));
+    await until(() => hasLocal('/home/me/data.bin.sshlite-part') && readLocal('/home/me/data.bin.sshlite-part') === 'ab');
+    // On disk as it arrived, while the read is still going
+    expect(queue.get(item.id)!.status).toBe('running');
+
+    queue.pause(item.id);
+    stopped.reject(new Error('Download cancelled by user'));
+    await until(() => !(queue as any).aborts.has(item.id));
+
+    expect(queue.get(item.id)!.status).toBe('paused');
+    expect(readLocal('/home/me/data.bin.sshlite-part')).toBe('ab');
+
+    queue.resume(item.id);
+    const done = await queue.whenDone(item.id);
+
+    expect(done.status).toBe('completed');
+    expect(done.attempts).toBe(2);
+    expect(conn.readFileChunked.mock.calls[1][4]).toMatchObject({ start: 2 });
+    expect(readLocal('/home/me/data.bin')).toBe('abcdef');
+  });
+
+  it('waits through a dropped connection and resumes after the reconnect', async () => {
+    const conn = fakeConnection('web', remote);
+    conn.readFileChunked.mockImplementationOnce(async (_p, _prog, _abort, _size, opts) => {
+      await opts.onChunk?.(Buffer.from('abcd'));
+      conn.state = 'disconnected';
+      throw new Error('Connection lost');
+    });
+
+    const item = queue.enqueueDownload(conn as any, '/srv/data.bin', local('/home/me/data.bin'));
+    await until(() => queue.get(item.id)!.status === 'waiting');
+    expect(queue.get(item.id)!.status).toBe('waiting');
+
+    // ConnectionManager reconnects under the same id with a new connection
+    const again = fakeConnection('web', remote);
+    mockConnectionsChanged!();
+    const done = await queue.whenDone(item.id);
+
+    expect(done.status).toBe('completed');
+    expect(again.readFileChunked.mock.calls[0][4]).toMatchObject({ start: 4 });
+    expect(readLocal('/home/me/data.bin')).toBe('abcdef');
+  });
+
+  it('runs at most maxChannelsPerServer transfers per server at once', async () => {
+    setMockConfig('sshLite.maxChannelsPerServer', 2);
+    const conn = fakeConnection('ftp', remote, false);
+    const reads = [deferred<Buffer>(), deferred<Buffer>(), deferred<Buffer>()];
+    reads.forEach((r) => conn.readFile.mockImplementationOnce(() => r.promise));
+
+    const items = [1, 2, 3].map((n) => queue.enqueueDownload(conn as any, '/srv/data.bin', local(`/home/me/${n}.bin`)));
+    await flush();
+    await flush();
+
+    expect(conn.readFile).toHaveBeenCalledTimes(2);
+    expect(items.map((i) => queue.get(i.id)!.status)).toEqual(['running', 'running', 'queued']);
+
+    reads[0].resolve(Buffer.from('one'));
+    await queue.whenDone(items[0].id);
+    await flush();
+    expect(conn.readFile).toHaveBeenCalledTimes(3);
+
+    reads[1].resolve(Buffer.from('two'));
+    reads[2].resolve(Buffer.from('three'));
+    await Promise.all(items.map((i) => queue.whenDone(i.id)));
+  });
+
+  it('marks a failure, and a retry resumes the upload at the remote part size', async () => {
+    const conn = fakeConnection('web', remote);
+    writeLocal('/home/me/up.txt', '0123456789');
+    conn.writeFileAt.mockImplementationOnce(async (p: string, c: Buffer) => {
+      remote.set(p, { content: c.subarray(0, 4), mtime: T });
+      throw new Error('Failure');
+    });
+
+    const item = queue.enqueueUpload(conn as any, local('/home/me/up.txt'), '/srv/up.txt');
+    const failed = await queue.whenDone(item.id);
+
+    expect(failed.status).toBe('failed');
+    expect(failed.error).toBe('Failure');
+    expect(mockAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'upload', success: false }));
+
+    queue.retry(item.id);
+    const done = await queue.whenDone(item.id);
+
+    expect(done.status).toBe('completed');
+    const [partPath, rest, offset] = conn.writeFileAt.mock.calls[1];
+    expect([partPath, rest.toString(), offset]).toEqual(['/srv/up.txt.sshlite-part', '456789', 4]);
+    expect(conn.replaceFile).toHaveBeenCalledWith('/srv/up.txt.sshlite-part', '/srv/up.txt');
+    expect(remote.get('/srv/up.txt')!.content.toString()).toBe('0123456789');
+  });
+
+  it('overwrites an existing file in place instead of renaming over it', async () => {
+    const conn = fakeConnection('web', remote);
+    writeLocal('/home/me/data.bin', 'new');
+
+    const done = await queue.whenDone(queue.enqueueUpload(conn as any, local('/home/me/data.bin'), '/srv/data.bin').id);
+
+    expect(done.status).toBe('completed');
+    expect(conn.writeFileAt).toHaveBeenCalledWith('/srv/data.bin', Buffer.from('new'), 0, expect.any(Function), expect.anything(), expect.any(Number));
+    expect(conn.replaceFile).not.toHaveBeenCalled();
+    expect(remote.has('/srv/data.bin.sshlite-part')).toBe(false);
+  });
+
+  it('uploads a large file range by range, never reading it whole', async () => {
+    const conn = fakeConnection('web', remote);
+    const big = Buffer.alloc(8 * 1024 * 1024 + 3, 7);
+    writeLocal('/home/me/big.iso', big);
+
+    const done = await queue.whenDone(queue.enqueueUpload(conn as any, local('/home/me/big.iso'), '/srv/big.iso').id);
+
+    expect(done.status).toBe('completed');
+    expect(conn.writeFileAt.mock.calls.map((c) => [c[0], c[1].length, c[2]])).toEqual([
+      ['/srv/big.iso.sshlite-part', 8 * 1024 * 1024, 0],
+      ['/srv/big.iso.sshlite-part', 3, 8 * 1024 * 1024],
+    ]);
+    expect(vscode.workspace.fs.readFile).not.toHaveBeenCalled();
+    expect(remote.get('/srv/big.iso')!.content.equals(big)).toBe(true);
+  });
+
+  it('creates an empty remote file for an empty upload', async () => {
+    const conn = fakeConnection('web', remote);
+    writeLocal('/home/me/empty.txt', '');
+
+    await queue.whenDone(queue.enqueueUpload(conn as any, local('/home/me/empty.txt'), '/srv/empty.txt').id);
+
+    expect(conn.writeFileAt).toHaveBeenCalledWith('/srv/empty.txt.sshlite-part', Buffer.alloc(0), 0);
+    expect(remote.get('/srv/empty.txt')!.content.length).toBe(0);
+  });
+
+  it('goes through workspace.fs for local URIs that are not file:', async () => {
+    const conn = fakeConnection('web', remote);
+    const mem = (p: string) => vscode.Uri.parse(`mem://box${onDisk(p)}`);
+    writeLocal('/home/me/up.txt', 'hello');
+
+    await queue.whenDone(queue.enqueueDownload(conn as any, '/srv/data.bin', mem('/home/me/data.bin')).id);
+    await queue.whenDone(queue.enqueueUpload(conn as any, mem('/home/me/up.txt'), '/srv/up.txt').id);
+
+    expect(readLocal('/home/me/data.bin')).toBe('abcdef');
+    expect(vscode.workspace.fs.writeFile).toHaveBeenCalledWith(expect.objectContaining({ scheme: 'mem' }), expect.anything());
+    expect(vscode.workspace.fs.readFile).toHaveBeenCalledWith(expect.objectContaining({ scheme: 'mem', path: onDisk('/home/me/up.txt') }));
+    expect(remote.get('/srv/up.txt')!.content.toString()).toBe('hello');
+  });
+
+  it('resumes over SFTP on servers that allow no shell', async () => {
+    const conn = fakeConnection('sftp', remote, false);
+    conn.capabilities.type = 'ssh';
+    writeLocal('/home/me/up.txt', 'hello');
+
+    await queue.whenDone(queue.enqueueUpload(conn as any, local('/home/me/up.txt'), '/srv/up.txt').id);
+
+    expect(conn.writeFile).not.toHaveBeenCalled();
+    expect(conn.replaceFile).toHaveBeenCalledWith('/srv/up.txt.sshlite-part', '/srv/up.txt');
+  });
+
+  it('uploads whole files over FTP', async () => {
+    const conn = fakeConnection('ftp', remote, false);
+    writeLocal('/home/me/up.txt', 'hello');
+
+    await queue.whenDone(queue.enqueueUpload(conn as any, local('/home/me/up.txt'), '/srv/up.txt').id);
+
+    expect(conn.writeFile).toHaveBeenCalledWith('/srv/up.txt', Buffer.from('hello'));
+    expect(conn.writeFileAt).not.toHaveBeenCalled();
+  });
+
+  it('cancel drops the part file and settles the transfer', async () => {
+    const conn = fakeConnection('web', remote);
+    conn.state = 'disconnected';
+    writeLocal('/home/me/data.bin.sshlite-part', 'abc');
+
+    const item = queue.enqueueDownload(conn as any, '/srv/data.bin', local('/home/me/data.bin'));
+    expect(item.status).toBe('waiting');
+    queue.cancel(item.id);
+
+    expect((await queue.whenDone(item.id)).status).toBe('cancelled');
+    await flush();
+    expect(hasLocal('/home/me/data.bin.sshlite-part')).toBe(false);
+  });
+
+  it('summarises pending bytes and ETA across running transfers', () => {
+    const item = (over: Partial<TransferItem>) => ({ id: Math.random().toString(), queuedAt: 0, ...over }) as TransferItem;
+    (queue as any).items = [
+      item({ status: 'running', size: 1000, transferred: 400, bytesPerSecond: 100 }),
+      item({ status: 'running', size: 500, transferred: 0, bytesPerSecond: 100 }),
+      item({ status: 'queued', size: 600, transferred: 0, bytesPerSecond: 0 }),
+      item({ status: 'paused', size: 50, transferred: 10, bytesPerSecond: 0 }),
+      item({ status: 'failed', size: 50, transferred: 0, bytesPerSecond: 0 }),
+    ];
+
+    expect(queue.getSummary()).toEqual({
+      running: 2, pending: 1, paused: 1, failed: 1, bytesPerSecond: 200, remainingBytes: 1700, etaSeconds: 9,
+    });
+    expect(queue.getTransfers().map((t) => t.status)).toEqual(['running', 'running', 'queued', 'paused', 'failed']);
+  });
+});
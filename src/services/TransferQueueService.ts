@@ -0,0 +1,663 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConnectionManager } from '../connection/ConnectionManager';
+import { ConnectionState, IConnection, ISSHConnection, isSftpConnection } from '../types';
+import { AuditService } from './AuditService';
+import { infoLog } from '../utils/diagnosticLog';
+
+export type TransferDirection = 'upload' | 'download';
+
+/**
+ * queued → running → completed / failed / cancelled. `paused` and `waiting`
+ * (connection down, resumes by itself on reconnect) go back to queued.
+ */
+export type TransferStatus = 'queued' | 'running' | 'paused' | 'waiting' | 'completed' | 'failed' | 'cancelled';
+
+export interface TransferItem {
+  id: string;
+  direction: TransferDirection;
+  connectionId: string;
+  hostName: string;
+  remotePath: string;
+  localUri: vscode.Uri;
+  /** File name shown in the view */
+  name: string;
+  /** Bytes in the file; 0 until known */
+  size: number;
+  /** Bytes done, including any resumed part */
+  transferred: number;
+  status: TransferStatus;
+  error?: string;
+  /** Smoothed rate while running */
+  bytesPerSecond: number;
+  /** Times the transfer was started (retries and resumes included) */
+  attempts: number;
+  queuedAt: number;
+  finishedAt?: number;
+  /** Download: remote mtime the partial data belongs to */
+  remoteModifiedTime?: number;
+  /** Upload: local mtime the remote partial data belongs to */
+  localModifiedTime?: number;
+}
+
+/** Aggregate numbers for the view title */
+export interface TransferSummary {
+  running: number;
+  pending: number;
+  paused: number;
+  failed: number;
+  bytesPerSecond: number;
+  remainingBytes: number;
+  /** Seconds left at the current rate; undefined while nothing is moving */
+  etaSeconds?: number;
+}
+
+/** Suffix of partial files: local `<file>.sshlite-part` for downloads, remote for uploads */
+export const PART_SUFFIX = '.sshlite-part';
+/** SFTP chunk size for queued transfers */
+const CHUNK_SIZE = 256 * 1024;
+/** Local bytes read (and written with one `writeFileAt`) at a time for an upload */
+const UPLOAD_RANGE_SIZE = 8 * 1024 * 1024;
+/** Progress events are coalesced to at most one tree refresh per this many ms */
+const CHANGE_THROTTLE_MS = 500;
+/** Rate samples closer together than this are folded into the next one */
+const RATE_SAMPLE_MS = 1000;
+/** Finished transfers kept in the view before the oldest are dropped */
+const MAX_FINISHED = 200;
+
+const ACTIVE: TransferStatus[] = ['queued', 'running', 'waiting'];
+const FINISHED: TransferStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * One queue for all uploads and downloads. Transfers run in parallel up to
+ * `sshLite.maxChannelsPerServer` per server and survive dropped connections:
+ * a transfer whose connection goes away waits and resumes once
+ * ConnectionManager has reconnected (same connection id).
+ *
+ * Over SSH a paused, failed or interrupted transfer continues from where it
+ * stopped: downloads append each chunk to a local `.sshlite-part` file as it
+ * arrives (resuming from the part file's size with `readFileChunked`) and
+ * rename it into place when done; uploads of new files write a remote
+ * `.sshlite-part` range by range with positional writes and move it into
+ * place. Uploads over an existing file write into it, so it keeps its owner,
+ * group, ACLs, hard links and symlinks; those and FTP transfers restart from
+ * zero. Neither direction holds a whole `file:` file in memory; other local
+ * URI schemes go through `vscode.workspace.fs`, which only reads and writes
+ * whole files.
+ */
+export class TransferQueueService {
+  private static _instance: TransferQueueService;
+  private items: TransferItem[] = [];
+  private counter = 0;
+  /** Abort flags of running transfers */
+  private readonly aborts = new Map<string, { aborted: boolean }>();
+  /** Last rate sample per running transfer */
+  private readonly samples = new Map<string, { at: number; bytes: number }>();
+  /** Callers waiting for a transfer to finish */
+  private readonly waiters = new Map<string, Array<(item: TransferItem) => void>>();
+  private changeTimer: NodeJS.Timeout | undefined;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private readonly _onDidComplete = new vscode.EventEmitter<TransferItem>();
+  /** Fires when a transfer completes (e.g. to refresh the folder it landed in) */
+  readonly onDidComplete = this._onDidComplete.event;
+
+  private constructor() {
+    this.disposables.push(
+      ConnectionManager.getInstance().onDidChangeConnections(() => this.pump())
+    );
+  }
+
+  static getInstance(): TransferQueueService {
+    if (!TransferQueueService._instance) {
+      TransferQueueService._instance = new TransferQueueService();
+    }
+    return TransferQueueService._instance;
+  }
+
+  /** Queue a download of `remotePath` to `localUri` */
+  enqueueDownload(
+    connection: IConnection,
+    remotePath: string,
+    localUri: vscode.Uri,
+    known: { size?: number; modifiedTime?: number } = {}
+  ): TransferItem {
+    return this.add({
+      direction: 'download',
+      connection,
+      remotePath,
+      localUri,
+      size: known.size ?? 0,
+      remoteModifiedTime: known.modifiedTime,
+    });
+  }
+
+  /** Queue an upload of `localUri` to `remotePath` */
+  enqueueUpload(connection: IConnection, localUri: vscode.Uri, remotePath: string, size = 0): TransferItem {
+    return this.add({ direction: 'upload', connection, remotePath, localUri, size });
+  }
+
+  private add(opts: {
+    direction: TransferDirection;
+    connection: IConnection;
+    remotePath: string;
+    localUri: vscode.Uri;
+    size: number;
+    remoteModifiedTime?: number;
+  }): TransferItem {
+    const item: TransferItem = {
+      id: `transfer-${++this.counter}-${Date.now()}`,
+      direction: opts.direction,
+      connectionId: opts.connection.id,
+      hostName: opts.connection.host.name,
+      remotePath: opts.remotePath,
+      localUri: opts.localUri,
+      name: path.posix.basename(opts.direction === 'download' ? opts.remotePath : opts.localUri.path),
+      size: opts.size,
+      transferred: 0,
+      status: 'queued',
+      bytesPerSecond: 0,
+      attempts: 0,
+      queuedAt: Date.now(),
+      remoteModifiedTime: opts.remoteModifiedTime,
+    };
+    this.items.push(item);
+    infoLog('transfer-queue', 'enqueue', { id: item.id, direction: item.direction, connectionId: item.connectionId, remotePath: item.remotePath });
+    this.changed();
+    this.pump();
+    return item;
+  }
+
+  /**
+   * Resolves once the transfer completes, fails or is cancelled (a paused or
+   * waiting transfer keeps the promise pending).
+   */
+  whenDone(id: string): Promise<TransferItem> {
+    const item = this.get(id);
+    if (!item || FINISHED.includes(item.status)) {
+      return Promise.resolve(item as TransferItem);
+    }
+    return new Promise((resolve) => {
+      const list = this.waiters.get(id) ?? [];
+      list.push(resolve);
+      this.waiters.set(id, list);
+    });
+  }
+
+  get(id: string): TransferItem | undefined {
+    return this.items.find((i) => i.id === id);
+  }
+
+  /** Running first, then waiting/queued/paused in queue order, then finished (newest first) */
+  getTransfers(): TransferItem[] {
+    const rank: Record<TransferStatus, number> = {
+      running: 0, waiting: 1, queued: 1, paused: 2, failed: 3, cancelled: 3, completed: 3,
+    };
+    return [...this.items].sort((a, b) => {
+      const byRank = rank[a.status] - rank[b.status];
+      if (byRank !== 0) {
+        return byRank;
+      }
+      return rank[a.status] === 3 ? (b.finishedAt ?? 0) - (a.finishedAt ?? 0) : a.queuedAt - b.queuedAt;
+    });
+  }
+
+  getSummary(): TransferSummary {
+    const summary: TransferSummary = { running: 0, pending: 0, paused: 0, failed: 0, bytesPerSecond: 0, remainingBytes: 0 };
+    for (const item of this.items) {
+      if (item.status === 'running') {
+        summary.running++;
+        summary.bytesPerSecond += item.bytesPerSecond;
+      } else if (item.status === 'queued' || item.status === 'waiting') {
+        summary.pending++;
+      } else if (item.status === 'paused') {
+        summary.paused++;
+      } else if (item.status === 'failed') {
+        summary.failed++;
+      }
+      if (ACTIVE.includes(item.status)) {
+        summary.remainingBytes += Math.max(0, item.size - item.transferred);
+      }
+    }
+    if (summary.bytesPerSecond > 0) {
+      summary.etaSeconds = Math.ceil(summary.remainingBytes / summary.bytesPerSecond);
+    }
+    return summary;
+  }
+
+  /** Stop a queued or running transfer, keeping its progress */
+  pause(id: string): void {
+    const item = this.get(id);
+    if (!item || !ACTIVE.includes(item.status)) {
+      return;
+    }
+    item.status = 'paused';
+    item.bytesPerSecond = 0;
+    this.abort(id);
+    this.changed();
+  }
+
+  resume(id: string): void {
+    const item = this.get(id);
+    if (item?.status !== 'paused') {
+      return;
+    }
+    item.status = 'queued';
+    this.changed();
+    this.pump();
+  }
+
+  /** Stop a transfer for good and remove its partial data */
+  cancel(id: string): void {
+    const item = this.get(id);
+    if (!item || FINISHED.includes(item.status)) {
+      return;
+    }
+    const wasRunning = item.status === 'running';
+    this.finish(item, 'cancelled');
+    this.abort(id);
+    if (!wasRunning) {
+      // A running one cleans up when its read/write unwinds
+      void this.removePart(item);
+    }
+  }
+
+  /** Queue a failed or cancelled transfer again (a failed one resumes from its partial data) */
+  retry(id: string): void {
+    const item = this.get(id);
+    if (item?.status !== 'failed' && item?.status !== 'cancelled') {
+      return;
+    }
+    if (item.status === 'cancelled') {
+      item.transferred = 0;
+    }
+    item.status = 'queued';
+    item.error = undefined;
+    item.finishedAt = undefined;
+    this.changed();
+    this.pump();
+  }
+
+  pauseAll(): void {
+    this.items.filter((i) => ACTIVE.includes(i.status)).forEach((i) => this.pause(i.id));
+  }
+
+  resumeAll(): void {
+    this.items.filter((i) => i.status === 'paused').forEach((i) => { i.status = 'queued'; });
+    this.changed();
+    this.pump();
+  }
+
+  clearFinished(): void {
+    this.items = this.items.filter((i) => !FINISHED.includes(i.status));
+    this.changed();
+  }
+
+  /** Start what fits; park transfers whose connection is down */
+  private pump(): void {
+    const limit = Math.max(1, vscode.workspace.getConfiguration('sshLite').get<number>('maxChannelsPerServer', 8));
+    const running = new Map<string, number>();
+    for (const item of this.items) {
+      if (item.status === 'running') {
+        running.set(item.connectionId, (running.get(item.connectionId) ?? 0) + 1);
+      }
+    }
+
+    let changed = false;
+    for (const item of this.items) {
+      if (item.status !== 'queued' && item.status !== 'waiting') {
+        continue;
+      }
+      const connection = ConnectionManager.getInstance().getConnection(item.connectionId);
+      if (!connection || connection.state !== ConnectionState.Connected) {
+        if (item.status !== 'waiting') {
+          item.status = 'waiting';
+          changed = true;
+        }
+        continue;
+      }
+      if (item.status === 'waiting') {
+        item.status = 'queued';
+        changed = true;
+      }
+      const count = running.get(item.connectionId) ?? 0;
+      if (count < limit) {
+        running.set(item.connectionId, count + 1);
+        void this.run(item, connection);
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.changed();
+    }
+  }
+
+  private async run(item: TransferItem, connection: IConnection): Promise<void> {
+    const abort = { aborted: false };
+    this.aborts.set(item.id, abort);
+    this.samples.delete(item.id);
+    item.status = 'running';
+    item.error = undefined;
+    item.attempts++;
+    infoLog('transfer-queue', 'start', { id: item.id, direction: item.direction, attempt: item.attempts, resumeAt: item.transferred });
+
+    try {
+      if (item.direction === 'download') {
+        await this.download(item, connection, abort);
+      } else {
+        await this.upload(item, connection, abort);
+      }
+      // pause()/cancel() may have changed the status while the transfer ran
+      if ((item.status as TransferStatus) === 'running') {
+        item.transferred = item.size;
+        this.audit(item, connection, true);
+        this.finish(item, 'completed');
+        this._onDidComplete.fire(item);
+      }
+    } catch (error) {
+      const message = (error as Error).message;
+      const status = item.status as TransferStatus;
+      if (status === 'cancelled') {
+        await this.removePart(item);
+      } else if (status === 'paused') {
+        infoLog('transfer-queue', 'paused', { id: item.id, transferred: item.transferred });
+      } else if (connection.state !== ConnectionState.Connected) {
+        // Dropped connection: not the transfer's fault, pick it up after reconnect
+        infoLog('transfer-queue', 'wait-for-reconnect', { id: item.id, connectionId: item.connectionId, transferred: item.transferred });
+        item.status = 'waiting';
+        item.bytesPerSecond = 0;
+      } else {
+        infoLog('transfer-queue', 'failed', { id: item.id, error: message });
+        item.error = message;
+        this.audit(item, connection, false, message);
+        this.finish(item, 'failed');
+      }
+    } finally {
+      this.aborts.delete(item.id);
+      this.samples.delete(item.id);
+      this.changed();
+      this.pump();
+    }
+  }
+
+  private async download(item: TransferItem, connection: IConnection, abort: { aborted: boolean }): Promise<void> {
+    const remote = await connection.stat(item.remotePath);
+    item.size = remote.size;
+    await vscode.workspace.fs.createDirectory(parentUri(item.localUri));
+
+    if (!isSftpConnection(connection)) {
+      item.remoteModifiedTime = remote.modifiedTime;
+      item.transferred = 0;
+      this.changed();
+      const content = await connection.readFile(item.remotePath);
+      if (abort.aborted) {
+        throw new Error('Download stopped');
+      }
+      await vscode.workspace.fs.writeFile(item.localUri, content);
+      return;
+    }
+
+    // Resume from what the part file really holds, if it is of this version of the file
+    const part = partUri(item.localUri);
+    let offset = await localSize(part);
+    const sameVersion = item.remoteModifiedTime === undefined || item.remoteModifiedTime === remote.modifiedTime;
+    if (!sameVersion || offset > remote.size) {
+      offset = 0;
+    }
+    item.remoteModifiedTime = remote.modifiedTime;
+    item.transferred = offset;
+    this.changed();
+
+    const writer = await openPartFile(part, offset);
+    try {
+      await connection.readFileChunked(
+        item.remotePath,
+        (transferred) => this.progress(item, transferred),
+        abort,
+        CHUNK_SIZE,
+        { start: offset, onChunk: (chunk) => writer.append(chunk) }
+      );
+    } finally {
+      // Also when stopped or failed: the part file is what the next attempt resumes from
+      await writer.close();
+    }
+    if (abort.aborted) {
+      throw new Error('Download stopped');
+    }
+    await vscode.workspace.fs.rename(part, item.localUri, { overwrite: true });
+  }
+
+  private async upload(item: TransferItem, connection: IConnection, abort: { aborted: boolean }): Promise<void> {
+    const local = await vscode.workspace.fs.stat(item.localUri);
+    item.size = local.size;
+
+    if (!isSftpConnection(connection)) {
+      await connection.writeFile(item.remotePath, Buffer.from(await vscode.workspace.fs.readFile(item.localUri)));
+      return;
+    }
+
+    // Renaming a part file over an existing target would replace its inode
+    if (await connection.fileExists(item.remotePath)) {
+      item.transferred = 0;
+      this.changed();
+      await this.writeRanges(item, connection, item.remotePath, 0, abort);
+      return;
+    }
+
+    const part = item.remotePath + PART_SUFFIX;
+    let offset = 0;
+    if (item.localModifiedTime !== undefined && item.localModifiedTime === local.mtime) {
+      try {
+        const stat = await connection.stat(part);
+        offset = stat.size <= local.size ? stat.size : 0;
+      } catch {
+        // No partial upload on the server
+      }
+    }
+    item.localModifiedTime = local.mtime;
+    item.transferred = offset;
+    this.changed();
+
+    await this.writeRanges(item, connection, part, offset, abort);
+    await connection.replaceFile(part, item.remotePath);
+  }
+
+  /**
+   * Write the local file from `offset` on into `remotePath`, one range at a
+   * time, so a large file is never held in memory whole.
+   */
+  private async writeRanges(
+    item: TransferItem,
+    connection: ISSHConnection,
+    remotePath: string,
+    offset: number,
+    abort: { aborted: boolean }
+  ): Promise<void> {
+    let position = offset;
+    for await (const range of readLocalRanges(item.localUri, offset)) {
+      await connection.writeFileAt(
+        remotePath,
+        range,
+        position,
+        (transferred) => this.progress(item, transferred),
+        abort,
+        CHUNK_SIZE
+      );
+      position += range.length;
+      if (abort.aborted) {
+        throw new Error('Upload stopped');
+      }
+    }
+    if (position === 0) {
+      // An empty file still has to be created, or an existing one emptied
+      await connection.writeFileAt(remotePath, Buffer.alloc(0), 0);
+    }
+  }
+
+  /** Record progress and update the smoothed rate */
+  private progress(item: TransferItem, transferred: number): void {
+    const now = Date.now();
+    const sample = this.samples.get(item.id);
+    if (!sample) {
+      this.samples.set(item.id, { at: now, bytes: transferred });
+    } else if (now - sample.at >= RATE_SAMPLE_MS) {
+      const rate = ((transferred - sample.bytes) * 1000) / (now - sample.at);
+      item.bytesPerSecond = item.bytesPerSecond ? item.bytesPerSecond * 0.6 + rate * 0.4 : rate;
+      this.samples.set(item.id, { at: now, bytes: transferred });
+    }
+    item.transferred = transferred;
+    this.changedSoon();
+  }
+
+  private finish(item: TransferItem, status: 'completed' | 'failed' | 'cancelled'): void {
+    item.status = status;
+    item.bytesPerSecond = 0;
+    item.finishedAt = Date.now();
+    for (const resolve of this.waiters.get(item.id) ?? []) {
+      resolve(item);
+    }
+    this.waiters.delete(item.id);
+    this.trimFinished();
+    this.changed();
+  }
+
+  private trimFinished(): void {
+    const finished = this.items.filter((i) => FINISHED.includes(i.status));
+    if (finished.length <= MAX_FINISHED) {
+      return;
+    }
+    const drop = new Set(
+      finished.sort((a, b) => (a.finishedAt ?? 0) - (b.finishedAt ?? 0)).slice(0, finished.length - MAX_FINISHED)
+    );
+    this.items = this.items.filter((i) => !drop.has(i));
+  }
+
+  private abort(id: string): void {
+    const flag = this.aborts.get(id);
+    if (flag) {
+      flag.aborted = true;
+    }
+  }
+
+  /** Best-effort removal of a transfer's partial data */
+  private async removePart(item: TransferItem): Promise<void> {
+    try {
+      if (item.direction === 'download') {
+        await vscode.workspace.fs.delete(partUri(item.localUri));
+      } else {
+        const connection = ConnectionManager.getInstance().getConnection(item.connectionId);
+        if (connection?.state === ConnectionState.Connected && (await connection.fileExists(item.remotePath + PART_SUFFIX))) {
+          await connection.deleteFile(item.remotePath + PART_SUFFIX);
+        }
+      }
+    } catch {
+      // Nothing to remove
+    }
+  }
+
+  private audit(item: TransferItem, connection: IConnection, success: boolean, error?: string): void {
+    AuditService.getInstance().log({
+      action: item.direction,
+      connectionId: connection.id,
+      hostName: connection.host.name,
+      username: connection.host.username,
+      remotePath: item.remotePath,
+      localPath: item.localUri.fsPath,
+      fileSize: item.size,
+      success,
+      error,
+    });
+  }
+
+  private changed(): void {
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+      this.changeTimer = undefined;
+    }
+    this._onDidChange.fire();
+  }
+
+  /** Coalesce progress updates; state changes go through changed() right away */
+  private changedSoon(): void {
+    if (!this.changeTimer) {
+      this.changeTimer = setTimeout(() => {
+        this.changeTimer = undefined;
+        this._onDidChange.fire();
+      }, CHANGE_THROTTLE_MS);
+    }
+  }
+
+  dispose(): void {
+    this.pauseAll();
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+    }
+    this.disposables.forEach((d) => d.dispose());
+    this._onDidChange.dispose();
+    this._onDidComplete.dispose();
+  }
+}
+
+/** Appends to a download's part file; `close` keeps what was written */
+interface PartWriter {
+  append(chunk: Buffer): Promise<void>;
+  close(): Promise<void>;
+}
+
+// vscode.workspace.fs has no append or ranged read, so `file:` URIs (the
+// extension runs on the user's machine) use Node's fs on their fsPath. Any
+// other scheme (vscode-remote:, virtual file systems) must stay on
+// workspace.fs, and is read or written whole — see .adn/lessons.md 2026-05-22.
+function isLocalDisk(uri: vscode.Uri): boolean {
+  return uri.scheme === 'file';
+}
+
+async function localSize(uri: vscode.Uri): Promise<number> {
+  try {
+    return (await vscode.workspace.fs.stat(uri)).size;
+  } catch {
+    return 0;
+  }
+}
+
+/** Open a part file to append at `offset` (0 starts it afresh) */
+async function openPartFile(uri: vscode.Uri, offset: number): Promise<PartWriter> {
+  if (isLocalDisk(uri)) {
+    const handle = await fs.promises.open(uri.fsPath, offset > 0 ? 'a' : 'w');
+    return {
+      append: (chunk) => handle.writeFile(chunk),
+      close: () => handle.close(),
+    };
+  }
+  const chunks: Buffer[] = offset > 0 ? [Buffer.from(await vscode.workspace.fs.readFile(uri))] : [];
+  return {
+    append: async (chunk) => {
+      chunks.push(chunk);
+    },
+    close: () => Promise.resolve(vscode.workspace.fs.writeFile(uri, Buffer.concat(chunks))),
+  };
+}
+
+/** The local file from byte `start` on, in ranges of at most UPLOAD_RANGE_SIZE */
+async function* readLocalRanges(uri: vscode.Uri, start: number): AsyncGenerator<Buffer> {
+  if (isLocalDisk(uri)) {
+    yield* fs.createReadStream(uri.fsPath, { start, highWaterMark: UPLOAD_RANGE_SIZE }) as AsyncIterable<Buffer>;
+    return;
+  }
+  const content = Buffer.from(await vscode.workspace.fs.readFile(uri));
+  for (let at = start; at < content.length; at += UPLOAD_RANGE_SIZE) {
+    yield content.subarray(at, at + UPLOAD_RANGE_SIZE);
+  }
+}
+
+function partUri(uri: vscode.Uri): vscode.Uri {
+  return uri.with({ path: uri.path + PART_SUFFIX });
+}
+
+function parentUri(uri: vscode.Uri): vscode.Uri {
+  return uri.with({ path: path.posix.dirname(uri.path) });
+}
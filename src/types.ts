@@ -1,5 +1,6 @@
 import type { Client, ClientChannel } from 'ssh2';
 import type * as vscode from 'vscode';
+import type { Readable, Writable } from 'stream';
 
 /**
  * Connection transport protocol. Absence of `connectionType` on a saved host
@@ -7,6 +8,58 @@ import type * as vscode from 'vscode';
  */
 export type ConnectionType = 'ssh' | 'ftp';
 
+/**
+ * One hop of a jump-host (ProxyJump) chain. Hops are dialled in order; each
+ * later hop and the final host are reached through a `forwardOut` stream of the
+ * previous hop. Credentials are looked up per hop under its own host id
+ * (`host:port:username`), exactly like a directly-connected host.
+ */
+export interface IJumpHost {
+  /** Hostname or IP address of the bastion */
+  host: string;
+  /** SSH port of the bastion (default: 22) */
+  port: number;
+  /** Username on the bastion */
+  username: string;
+  /** Path to a private key for this hop (optional) */
+  privateKeyPath?: string;
+  /**
+   * Saved credential to log in to this hop with: the id of one of the
+   * credentials stored under the hop's host id. Unset means the hop's key,
+   * the SSH agent, then a password prompt.
+   */
+  credentialId?: string;
+}
+
+/**
+ * Per-host client options read from ~/.ssh/config (ssh-config hosts only).
+ * Values keep OpenSSH's units and syntax; SSHConnection maps them onto ssh2.
+ */
+export interface ISSHConfigOptions {
+  /** IdentitiesOnly: offer only the configured IdentityFile keys, not agent keys */
+  identitiesOnly?: boolean;
+  /** ConnectTimeout in seconds */
+  connectTimeout?: number;
+  /** ServerAliveInterval in seconds (0 disables keepalives) */
+  serverAliveInterval?: number;
+  /** ServerAliveCountMax */
+  serverAliveCountMax?: number;
+  /** Ciphers, e.g. "aes256-gcm@openssh.com,aes128-ctr" or "+aes128-cbc" */
+  ciphers?: string;
+  /** HostKeyAlgorithms, same list syntax as ciphers */
+  hostKeyAlgorithms?: string;
+  /** KexAlgorithms, same list syntax as ciphers */
+  kexAlgorithms?: string;
+  /** MACs, same list syntax as ciphers */
+  macs?: string;
+  /** UserKnownHostsFile entries (expanded); the first is where new keys are written */
+  userKnownHostsFiles?: string[];
+  /** GlobalKnownHostsFile entries (expanded); read-only */
+  globalKnownHostsFiles?: string[];
+  /** HashKnownHosts: hash host names of newly added known_hosts lines */
+  hashKnownHosts?: boolean;
+}
+
 /**
  * SSH host configuration
  */
@@ -35,6 +88,17 @@ export interface IHostConfig {
   secure?: boolean;
   /** FTP only: anonymous login (username 'anonymous', empty password). */
   anonymous?: boolean;
+  /** SSH only: bastion chain to tunnel through, first hop first (ProxyJump). */
+  jumpHosts?: IJumpHost[];
+  /** SSH only: every IdentityFile from ssh config, in order (privateKeyPath is the first). */
+  identityFiles?: string[];
+  /** SSH only: OpenSSH client options from ssh config. */
+  sshOptions?: ISSHConfigOptions;
+  /**
+   * SSH only: forward the local SSH agent to the server (ForwardAgent), so
+   * `git` and `ssh` in SSH Lite terminals can use this machine's keys.
+   */
+  forwardAgent?: boolean;
 }
 
 /**
@@ -70,22 +134,165 @@ export interface IRemoteFile {
   group?: string;
   /** Unix permissions string (e.g., "rwxr-xr-x") - optional */
   permissions?: string;
+  /** Whether this entry is a symlink; `isDirectory`/`size` then describe its target */
+  isSymlink?: boolean;
+  /** Symlink target as stored (may be relative to the link's folder) */
+  linkTarget?: string;
+  /** Symlink whose target does not exist */
+  linkBroken?: boolean;
   /** Connection this file belongs to */
   connectionId: string;
 }
 
+/**
+ * A remote user or group, as listed by `getent passwd` / `getent group`
+ */
+export interface IRemoteAccount {
+  name: string;
+  /** uid or gid */
+  id: number;
+}
+
+/**
+ * Ownership and mode of a remote path, read with GNU `stat` for the
+ * Properties panel
+ */
+export interface IRemoteProperties {
+  path: string;
+  isDirectory: boolean;
+  /** stat's file type, e.g. "regular file", "directory" */
+  type: string;
+  size: number;
+  /** Permission bits including setuid (0o4000), setgid (0o2000) and sticky (0o1000) */
+  mode: number;
+  /** `ls -l` style mode, e.g. "-rw-r--r--" */
+  symbolic: string;
+  owner: IRemoteAccount;
+  group: IRemoteAccount;
+  modified: string;
+  accessed: string;
+  /** stat's quoted name (shows the link target for symlinks) */
+  quotedName: string;
+}
+
+/**
+ * Changes picked in the Properties panel. Absent fields stay as they are.
+ */
+export interface IPermissionChange {
+  mode?: number;
+  owner?: IRemoteAccount;
+  group?: IRemoteAccount;
+  /**
+   * Folders only: apply to everything below too — `mode` to the folder and
+   * its sub-folders, `fileMode` to the files, owner/group to all of them
+   */
+  recursive?: boolean;
+  fileMode?: number;
+}
+
+/**
+ * Which way a folder sync copies:
+ * - `both`: two-way, each side's changes since the last sync win; changes on both are conflicts
+ * - `upload`: local → server only
+ * - `download`: server → local only
+ */
+export type SyncDirection = 'both' | 'upload' | 'download';
+
+/**
+ * One file on one side of a sync. `mtime` is in milliseconds; `hash` (sha256,
+ * hex) is only filled in when checksums are on and the sizes on both sides match.
+ */
+export interface ISyncFileState {
+  size: number;
+  mtime: number;
+  hash?: string;
+}
+
+/**
+ * A saved local ↔ remote folder pairing, listed under its host and re-runnable
+ */
+export interface ISyncProfile {
+  id: string;
+  name: string;
+  hostId: string;
+  /** Local folder (fsPath) */
+  localPath: string;
+  remotePath: string;
+  direction: SyncDirection;
+  /** Globs relative to the folder; a pattern without `/` matches any path segment */
+  excludes: string[];
+  /** Compare same-size files by sha256 instead of mtime (needs exec on the server) */
+  useChecksum: boolean;
+  lastSyncTime?: number;
+}
+
+/**
+ * Both sides of every file as they were after the last sync, by relative path.
+ * This is what tells a deletion from a new file, and who changed what.
+ */
+export type SyncBaseline = Record<string, { local: ISyncFileState; remote: ISyncFileState }>;
+
+export type SyncChangeKind = 'new' | 'changed' | 'deleted' | 'conflict';
+
+export type SyncAction = 'upload' | 'download' | 'deleteLocal' | 'deleteRemote' | 'skip';
+
+/**
+ * One line of a sync plan. Conflicts are proposed as `skip` until the user
+ * picks a side in the plan review.
+ */
+export interface ISyncPlanItem {
+  /** Relative to both roots, `/`-separated */
+  path: string;
+  kind: SyncChangeKind;
+  action: SyncAction;
+  local?: ISyncFileState;
+  remote?: ISyncFileState;
+}
+
+/**
+ * How Folder Compare decides that two files with the same path differ:
+ * size only, size then mtime, or size then sha256
+ */
+export type CompareMode = 'size' | 'mtime' | 'checksum';
+
+/** Relative to the left folder: `added` exists only on the right, `removed` only on the left */
+export type CompareStatus = 'added' | 'removed' | 'modified';
+
+/**
+ * One difference between two compared folders
+ */
+export interface ICompareEntry {
+  /** Relative to both roots, `/`-separated */
+  path: string;
+  status: CompareStatus;
+  left?: ISyncFileState;
+  right?: ISyncFileState;
+}
+
+/**
+ * Port forward kind, as in OpenSSH:
+ * - `local` (`ssh -L`): listen on localPort here, connect to remoteHost:remotePort from the server
+ * - `remote` (`ssh -R`): the server listens on remoteHost:remotePort, connections come back to localHost:localPort here
+ * - `dynamic` (`ssh -D`): SOCKS5 proxy on localPort here, each connection goes wherever the client asks, from the server
+ */
+export type PortForwardKind = 'local' | 'remote' | 'dynamic';
+
 /**
  * Saved port forward rule (persisted, per-host)
  */
 export interface ISavedPortForwardRule {
   /** Unique identifier */
   id: string;
-  /** Local port to listen on */
+  /** Forward kind; absent on rules saved before remote/dynamic forwards existed (= local) */
+  kind?: PortForwardKind;
+  /** Local port (listening for local/dynamic, target for remote) */
   localPort: number;
-  /** Remote host (usually localhost or 127.0.0.1) */
+  /** Remote host: target for local (usually localhost), bind address for remote, empty for dynamic */
   remoteHost: string;
-  /** Remote port */
+  /** Remote port: target for local, listening on the server for remote, 0 for dynamic */
   remotePort: number;
+  /** Remote forwards only: local host connections are sent to (default localhost) */
+  localHost?: string;
 }
 
 /**
@@ -96,12 +303,18 @@ export interface IPortForward {
   id: string;
   /** Connection ID */
   connectionId: string;
-  /** Local port */
+  /** Forward kind; absent = local */
+  kind?: PortForwardKind;
+  /** Local port (listening for local/dynamic, target for remote) */
   localPort: number;
-  /** Remote host (usually localhost or 127.0.0.1) */
+  /** Remote host: target for local (usually localhost), bind address for remote, empty for dynamic */
   remoteHost: string;
-  /** Remote port */
+  /** Remote port: target for local, listening on the server for remote, 0 for dynamic */
   remotePort: number;
+  /** Remote forwards only: local host connections are sent to */
+  localHost?: string;
+  /** Remote forwards only: the port asked for, when the server bound another (0 = any free port) */
+  requestedRemotePort?: number;
   /** Whether the forward is active */
   active: boolean;
 }
@@ -120,6 +333,96 @@ export interface ITransferProgress {
   direction: 'upload' | 'download';
 }
 
+/**
+ * One completed SFTP transfer, reported by the connection for throughput figures
+ */
+export interface ITransferSample {
+  /** Bytes moved */
+  bytes: number;
+  /** Wall time from the first request to completion */
+  durationMs: number;
+  /** Transfer direction */
+  direction: 'upload' | 'download';
+}
+
+/**
+ * Options for a command whose stdin or stdout is streamed (see execToStream)
+ */
+export interface IExecStreamOptions {
+  /** Closes the channel; the call then rejects with 'Cancelled' */
+  signal?: AbortSignal;
+  /** Bytes moved so far, called per chunk */
+  onProgress?: (bytes: number) => void;
+}
+
+/**
+ * Options for execDetailed / execStream
+ */
+export interface IExecOptions {
+  /** Written to the command's stdin, then EOF. Without it stdin is closed at once. */
+  stdin?: string | Buffer;
+  /** Variables exported before the command runs (names must be shell identifiers) */
+  env?: Record<string, string>;
+  /** Stop the command after this long; the result then has `timedOut` */
+  timeoutMs?: number;
+  /** Cancelling stops the command; the result then has `cancelled` */
+  token?: vscode.CancellationToken;
+  /** Signal sent to the remote process on cancel or timeout (default TERM) */
+  killSignal?: string;
+  /** Live output, decoded per chunk as it arrives */
+  onData?: (chunk: string, stream: 'stdout' | 'stderr') => void;
+}
+
+/**
+ * What a command did. `exitCode` is null when it was killed by a signal or
+ * the channel closed without reporting one.
+ */
+export interface IExecResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  /** Signal that ended the command, e.g. 'TERM' */
+  signal?: string;
+  durationMs: number;
+  timedOut?: boolean;
+  cancelled?: boolean;
+}
+
+/**
+ * One latency probe. A field is undefined when that probe failed or timed out.
+ */
+export interface ILatencySample {
+  /** SSH keepalive round trip: answered by sshd itself, so it is the network */
+  transportMs?: number;
+  /** SFTP realpath round trip: the network plus the server's sftp-server */
+  sftpMs?: number;
+}
+
+/** Where a slow connection is slow, as far as the samples can tell */
+export type ConnectionHealthStatus = 'unknown' | 'healthy' | 'slow-network' | 'slow-server' | 'saturated' | 'unresponsive';
+
+/**
+ * Health figures for one connection, from ConnectionManager's sampler.
+ * Latencies are medians over the recent samples.
+ */
+export interface IConnectionHealth {
+  status: ConnectionHealthStatus;
+  /** Network round trip (keepalive), ms */
+  transportMs?: number;
+  /** SFTP round trip, ms */
+  sftpMs?: number;
+  /** Recent download / upload throughput, bytes per second */
+  downloadBps?: number;
+  uploadBps?: number;
+  /** Exec/shell channel slots in use, the current limit, and callers waiting */
+  channels?: { active: number; max: number; queued: number };
+  /** Unexpected drops and successful auto-reconnects since the first connect */
+  drops: number;
+  reconnects: number;
+  /** Epoch ms of the newest latency sample */
+  sampledAt?: number;
+}
+
 /**
  * What a connection's transport can actually do. Used to gate shell-only
  * features (terminal, search, monitor, sudo, server-side backup, native watch,
@@ -143,6 +446,18 @@ export interface IConnectionCapabilities {
   readonly supportsSudo: boolean;
 }
 
+/**
+ * Options for one connect attempt.
+ */
+export interface IConnectOptions {
+  /**
+   * Whether the user may be asked for input during authentication
+   * (keyboard-interactive prompts). False for auto-reconnect, which fails
+   * with InteractiveAuthRequiredError instead. Default true.
+   */
+  interactive?: boolean;
+}
+
 /**
  * Protocol-agnostic connection contract. Both SSHConnection and FTPConnection
  * implement this. Consumers that only browse/transfer files (FileTreeProvider,
@@ -165,7 +480,7 @@ export interface IConnection {
   readonly onFileChange: vscode.Event<{ remotePath: string; event: 'modify' | 'delete' | 'create' }>;
 
   /** Connect to the remote host */
-  connect(): Promise<void>;
+  connect(options?: IConnectOptions): Promise<void>;
   /** Disconnect from the remote host */
   disconnect(): Promise<void>;
   /** Release all resources */
@@ -206,13 +521,68 @@ export interface ISSHConnection extends IConnection {
 
   /** Execute a command on the remote host */
   exec(command: string): Promise<string>;
+  /** Run a command and report stdout, stderr, exit code and timing; never rejects on a failing exit */
+  execDetailed(command: string, options?: IExecOptions): Promise<IExecResult>;
+  /** Like execDetailed, but output only goes to `onData` (the result keeps the tail of stderr) */
+  execStream(command: string, onData: NonNullable<IExecOptions['onData']>, options?: IExecOptions): Promise<IExecResult>;
   /** Create an interactive shell */
   shell(): Promise<ClientChannel>;
 
   /** Forward a local port to a remote port */
   forwardPort(localPort: number, remoteHost: string, remotePort: number): Promise<void>;
-  /** Stop a port forward */
+  /** Have the server listen on a port and send its connections to a local host:port; resolves with the bound port */
+  forwardRemotePort(remoteHost: string, remotePort: number, localHost: string, localPort: number): Promise<number>;
+  /** Run a local SOCKS5 proxy whose connections are opened from the server */
+  forwardDynamic(localPort: number): Promise<void>;
+  /** Stop a local or dynamic port forward */
   stopForward(localPort: number): Promise<void>;
+  /** Stop a remote port forward */
+  stopRemoteForward(remotePort: number): Promise<void>;
+
+  /** Fires when a file read or write over SFTP completes */
+  readonly onDidTransfer: vscode.Event<ITransferSample>;
+  /** Read a file chunk by chunk from byte `options.start`, with progress and abort; `options.onChunk` takes the data instead of the result */
+  readFileChunked(
+    remotePath: string,
+    onProgress: (transferred: number, total: number) => void,
+    abortSignal?: { aborted: boolean },
+    chunkSize?: number,
+    options?: { start?: number; onChunk?: (chunk: Buffer) => void | Promise<void> }
+  ): Promise<Buffer>;
+  /** Write `content` at byte `offset` (0 truncates), chunk by chunk over one handle */
+  writeFileAt(
+    remotePath: string,
+    content: Buffer,
+    offset: number,
+    onProgress?: (transferred: number, total: number) => void,
+    abortSignal?: { aborted: boolean },
+    chunkSize?: number
+  ): Promise<void>;
+  /** Move a temp file over its target, keeping the target's permission bits */
+  replaceFile(sourcePath: string, targetPath: string): Promise<void>;
+  /** SFTP read stream, for piping without buffering the whole file */
+  openReadStream(remotePath: string, chunkSize?: number): Promise<Readable>;
+  /** SFTP write stream (truncates) */
+  openWriteStream(remotePath: string): Promise<Writable>;
+  /** Set modification (and access) time, in ms since the epoch */
+  setModifiedTime(remotePath: string, mtimeMs: number): Promise<void>;
+  /** Run a command, piping its stdout into `target`; resolves with the byte count on exit 0 */
+  execToStream(command: string, target: Writable, options?: IExecStreamOptions): Promise<number>;
+  /** Run a command with `source` piped into its stdin; resolves with the byte count on exit 0 */
+  execFromStream(command: string, source: Readable, options?: IExecStreamOptions): Promise<number>;
+  /** Time one keepalive and one SFTP realpath round trip */
+  measureLatency(timeoutMs: number): Promise<ILatencySample>;
+
+  /** Set permission bits (including setuid/setgid/sticky) over SFTP */
+  chmod(remotePath: string, mode: number): Promise<void>;
+  /** Set numeric owner and group over SFTP */
+  chown(remotePath: string, uid: number, gid: number): Promise<void>;
+  /** Target of a symlink, as stored */
+  readlink(remotePath: string): Promise<string>;
+  /** Create a symlink at `linkPath` pointing to `targetPath` */
+  symlink(targetPath: string, linkPath: string): Promise<void>;
+  /** Canonical absolute path, following every symlink */
+  realpath(remotePath: string): Promise<string>;
 }
 
 /** Resolve a host's transport protocol, defaulting to 'ssh' for legacy configs. */
@@ -225,6 +595,15 @@ export function isSSHConnection(c: IConnection): c is ISSHConnection {
   return c.capabilities.supportsExec;
 }
 
+/**
+ * Type guard for the SFTP-level methods of ISSHConnection (positional
+ * writes, chunked reads, rename): every SSH connection, including servers
+ * that only allow SFTP and so fail `isSSHConnection`.
+ */
+export function isSftpConnection(c: IConnection): c is ISSHConnection {
+  return c.capabilities.type !== 'ftp';
+}
+
 /**
  * Last connection attempt result for failed connection indicator
  */
@@ -256,6 +635,14 @@ export class AuthenticationError extends SSHError {
   }
 }
 
+/** The server asked for input (e.g. a verification code) during a connect that must not prompt. */
+export class InteractiveAuthRequiredError extends AuthenticationError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InteractiveAuthRequiredError';
+  }
+}
+
 export class ConnectionError extends SSHError {
   constructor(message: string, cause?: Error) {
     super(message, 'CONNECTION_FAILED', cause);
@@ -270,6 +657,14 @@ export class SFTPError extends SSHError {
   }
 }
 
+/** A command that ran but failed: non-zero exit, killed, timed out or cancelled */
+export class ExecError extends SSHError {
+  constructor(message: string, public readonly result: IExecResult) {
+    super(message, 'EXEC_FAILED');
+    this.name = 'ExecError';
+  }
+}
+
 /** A generic FTP transport error. Extends SSHError so existing error-classifier code keeps working. */
 export class FTPError extends SSHError {
   constructor(message: string, cause?: Error) {
@@ -0,0 +1,80 @@
+/**
+ * archive helper tests: recognising archives by name, and the tar/zip
+ * commands run on the server for Compress / Extract Here / archive transfers.
+ */
+
+import {
+  archiveKind,
+  buildCompressCommand,
+  buildExtractCommand,
+  buildPackStreamCommand,
+  buildUnpackStreamCommand,
+  stripArchiveExtension,
+} from './archive';
+
+describe('archive', () => {
+  describe('archiveKind', () => {
+    it('prefers the longest suffix', () => {
+      expect(archiveKind('site.tar.gz')).toBe('tar.gz');
+      expect(archiveKind('site.TGZ')).toBe('tar.gz');
+      expect(archiveKind('dump.sql.gz')).toBe('gz');
+      expect(archiveKind('logs.tbz2')).toBe('tar.bz2');
+      expect(archiveKind('logs.tar.xz')).toBe('tar.xz');
+      expect(archiveKind('a.zip')).toBe('zip');
+    });
+
+    it('is undefined for other files', () => {
+      expect(archiveKind('notes.txt')).toBeUndefined();
+      expect(archiveKind('data.bz2')).toBeUndefined();
+    });
+
+    it('strips the archive extension', () => {
+      expect(stripArchiveExtension('site.tar.gz')).toBe('site');
+      expect(stripArchiveExtension('dump.sql.gz')).toBe('dump.sql');
+      expect(stripArchiveExtension('notes.txt')).toBe('notes.txt');
+    });
+  });
+
+  describe('compress', () => {
+    it('passes entries as ./name so a leading dash is not an option', () => {
+      expect(buildCompressCommand('/srv', ['-rf', 'b c'], 'out.tar.gz', 'tar.gz'))
+        .toBe("cd '/srv' && tar czf 'out.tar.gz' './-rf' './b c'");
+    });
+
+    it('replaces an existing zip and fails readably when zip is missing', () => {
+      const cmd = buildCompressCommand('/srv', ['a'], 'a.zip', 'zip');
+      expect(cmd).toMatch(/^command -v zip .*zip is not installed on the server/);
+      expect(cmd).toContain("rm -f 'a.zip' && zip -r -q -y 'a.zip' './a'");
+    });
+  });
+
+  describe('extract', () => {
+    it('uses the tar flag for the compression', () => {
+      expect(buildExtractCommand('/o/a.tar.xz', '/o', 'tar.xz')).toBe("tar xJf '/o/a.tar.xz' -C '/o'");
+      expect(buildExtractCommand('/o/a.tar', '/o', 'tar')).toBe("tar xf '/o/a.tar' -C '/o'");
+    });
+
+    it('overwrites with unzip instead of prompting', () => {
+      expect(buildExtractCommand('/o/a.zip', '/o', 'zip')).toContain("unzip -o -q '/o/a.zip' -d '/o'");
+    });
+
+    it('decompresses a plain .gz next to itself', () => {
+      expect(buildExtractCommand('/o/dump.sql.gz', '/o', 'gz')).toBe("gzip -dc '/o/dump.sql.gz' > '/o/dump.sql'");
+    });
+
+    it('shell-quotes paths with single quotes', () => {
+      expect(buildExtractCommand("/o/it's.tgz", '/o', 'tar.gz')).toContain(`'/o/it'\\''s.tgz'`);
+    });
+  });
+
+  describe('streams', () => {
+    it('packs a folder under its own name', () => {
+      expect(buildPackStreamCommand('/var/www/site')).toBe("tar czf - -C '/var/www' './site'");
+      expect(buildPackStreamCommand('/')).toBe("tar czf - -C '/' '.'");
+    });
+
+    it('creates the destination before unpacking', () => {
+      expect(buildUnpackStreamCommand('/srv/new')).toBe("mkdir -p '/srv/new' && tar xzf - -C '/srv/new'");
+    });
+  });
+});
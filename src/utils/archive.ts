@@ -0,0 +1,87 @@
+import * as path from 'path';
+
+/**
+ * Server-side archives: shell commands that pack and unpack on the server
+ * (run through CommandGuard, so sudo mode applies), and the `tar` streams
+ * that move a whole folder over one exec channel instead of one SFTP
+ * request per file.
+ */
+
+/** Formats "Compress…" can create */
+export type ArchiveFormat = 'tar.gz' | 'zip';
+
+/** What "Extract Here" can unpack, by file name */
+export type ArchiveKind = 'tar.gz' | 'tar.bz2' | 'tar.xz' | 'tar' | 'zip' | 'gz';
+
+/** Longest suffix first, so `a.tar.gz` is a tarball and not just gzip */
+const KINDS: Array<[RegExp, ArchiveKind]> = [
+  [/\.(tar\.gz|tgz)$/i, 'tar.gz'],
+  [/\.(tar\.bz2|tbz2?)$/i, 'tar.bz2'],
+  [/\.(tar\.xz|txz)$/i, 'tar.xz'],
+  [/\.tar$/i, 'tar'],
+  [/\.zip$/i, 'zip'],
+  [/\.gz$/i, 'gz'],
+];
+
+/** tar's decompression flag per kind */
+const TAR_FLAGS: Partial<Record<ArchiveKind, string>> = { 'tar.gz': 'z', 'tar.bz2': 'j', 'tar.xz': 'J', tar: '' };
+
+function quote(s: string): string {
+  return `'${s.replace(/'/g, "'\\''")}'`;
+}
+
+/** Fail with a readable message instead of `sh: zip: not found` */
+function requireTool(tool: string): string {
+  return `command -v ${tool} >/dev/null 2>&1 || { echo "${tool} is not installed on the server" >&2; exit 127; }`;
+}
+
+export function archiveKind(name: string): ArchiveKind | undefined {
+  return KINDS.find(([pattern]) => pattern.test(name))?.[1];
+}
+
+/** `site.tar.gz` → `site`; names that are not archives come back unchanged */
+export function stripArchiveExtension(name: string): string {
+  const match = KINDS.find(([pattern]) => pattern.test(name));
+  return match ? name.replace(match[0], '') : name;
+}
+
+/**
+ * Pack `names` (entries of `parentDir`) into `parentDir/archiveName`. Entries
+ * are passed as `./name` so a name starting with `-` is never an option. An
+ * existing zip is removed first — zip would otherwise add to it.
+ */
+export function buildCompressCommand(parentDir: string, names: string[], archiveName: string, format: ArchiveFormat): string {
+  const entries = names.map((n) => quote(`./${n}`)).join(' ');
+  if (format === 'zip') {
+    return `${requireTool('zip')} && cd ${quote(parentDir)} && rm -f ${quote(archiveName)} && zip -r -q -y ${quote(archiveName)} ${entries}`;
+  }
+  return `cd ${quote(parentDir)} && tar czf ${quote(archiveName)} ${entries}`;
+}
+
+/**
+ * Unpack `archivePath` into `destDir`. Like tar, unzip overwrites existing
+ * files (`-o`) rather than stopping at a prompt nobody can answer; a plain
+ * `.gz` is decompressed next to itself and the original kept.
+ */
+export function buildExtractCommand(archivePath: string, destDir: string, kind: ArchiveKind): string {
+  const archive = quote(archivePath);
+  if (kind === 'zip') {
+    return `${requireTool('unzip')} && unzip -o -q ${archive} -d ${quote(destDir)}`;
+  }
+  if (kind === 'gz') {
+    const output = path.posix.join(destDir, stripArchiveExtension(path.posix.basename(archivePath)));
+    return `gzip -dc ${archive} > ${quote(output)}`;
+  }
+  return `tar x${TAR_FLAGS[kind]}f ${archive} -C ${quote(destDir)}`;
+}
+
+/** `tar czf -` of one folder to stdout; entries are stored under the folder's own name */
+export function buildPackStreamCommand(folderPath: string): string {
+  const name = path.posix.basename(folderPath);
+  return `tar czf - -C ${quote(path.posix.dirname(folderPath))} ${quote(name ? `./${name}` : '.')}`;
+}
+
+/** Unpack a `.tar.gz` arriving on stdin into `destDir` (created if missing) */
+export function buildUnpackStreamCommand(destDir: string): string {
+  return `mkdir -p ${quote(destDir)} && tar xzf - -C ${quote(destDir)}`;
+}
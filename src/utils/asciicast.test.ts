@@ -0,0 +1,58 @@
+import {
+  castHeaderLine,
+  castEventLine,
+  parseCast,
+  parseResize,
+  limitIdle,
+  recordingFileName,
+} from './asciicast';
+
+describe('asciicast', () => {
+  it('writes a v2 header and microsecond event lines', () => {
+    expect(castHeaderLine({ width: 80, height: 24, timestamp: 1760000000 }))
+      .toBe('{"version":2,"width":80,"height":24,"timestamp":1760000000}\n');
+    expect(castEventLine(1.23456789, 'o', 'ls\r\n')).toBe('[1.234568,"o","ls\\r\\n"]\n');
+  });
+
+  it('reads back what it writes', () => {
+    const text = castHeaderLine({ width: 100, height: 30, title: 'deploy@web1' }) +
+      castEventLine(0.5, 'o', '$ ') + castEventLine(2, 'r', '120x40') + castEventLine(2.25, 'i', 'x');
+    const cast = parseCast(text);
+    expect(cast.header).toEqual({ version: 2, width: 100, height: 30, title: 'deploy@web1' });
+    expect(cast.events).toEqual([
+      { time: 0.5, code: 'o', data: '$ ' },
+      { time: 2, code: 'r', data: '120x40' },
+      { time: 2.25, code: 'i', data: 'x' },
+    ]);
+    expect(cast.duration).toBe(2.25);
+  });
+
+  it('replays a recording cut off mid-line up to its last complete event', () => {
+    const text = castHeaderLine({ width: 80, height: 24 }) + castEventLine(1, 'o', 'a') + '[2.5, "o", "unfinis';
+    expect(parseCast(text).events).toHaveLength(1);
+  });
+
+  it('rejects files that are not asciicast v2', () => {
+    expect(() => parseCast('{"version":1,"width":80,"height":24}\n')).toThrow('Not an asciicast v2 recording');
+    expect(() => parseCast('hello')).toThrow('Not an asciicast v2 recording');
+  });
+
+  it('parses resize data', () => {
+    expect(parseResize('132x43')).toEqual({ columns: 132, rows: 43 });
+    expect(parseResize('wide')).toBeUndefined();
+  });
+
+  it('shortens long pauses to the idle limit', () => {
+    const events = [
+      { time: 1, code: 'o' as const, data: 'a' },
+      { time: 31, code: 'o' as const, data: 'b' },
+      { time: 32, code: 'o' as const, data: 'c' },
+    ];
+    expect(limitIdle(events, 2).map((e) => e.time)).toEqual([1, 3, 4]);
+    expect(limitIdle(events, undefined)).toBe(events);
+  });
+
+  it('names files by host then local time', () => {
+    expect(recordingFileName('web 1/prod', new Date(2026, 9, 19, 9, 5, 7))).toBe('web_1_prod-20261019-090507.cast');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * asciicast v2 (asciinema `.cast`) encoding: one JSON header line, then one
+ * `[seconds, code, data]` line per event. See
+ * https://docs.asciinema.org/manual/asciicast/v2/
+ */
+
+/** o = output, i = input, r = resize ("COLSxROWS"), m = marker */
+export type CastEventCode = 'o' | 'i' | 'r' | 'm';
+
+export interface CastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  /** Unix seconds */
+  timestamp?: number;
+  title?: string;
+  env?: Record<string, string>;
+  /** Replays shorten longer pauses to this many seconds */
+  idle_time_limit?: number;
+}
+
+export interface CastEvent {
+  time: number;
+  code: CastEventCode;
+  data: string;
+}
+
+export interface Cast {
+  header: CastHeader;
+  events: CastEvent[];
+  /** Seconds from start to the last event */
+  duration: number;
+}
+
+export function castHeaderLine(header: Omit<CastHeader, 'version'>): string {
+  return JSON.stringify({ version: 2, ...header }) + '\n';
+}
+
+/** Times are kept to the microsecond, like asciinema's own recorder */
+export function castEventLine(time: number, code: CastEventCode, data: string): string {
+  return JSON.stringify([Math.round(time * 1e6) / 1e6, code, data]) + '\n';
+}
+
+export function resizeData(columns: number, rows: number): string {
+  return `${columns}x${rows}`;
+}
+
+/** `COLSxROWS` from a resize event, or undefined when malformed */
+export function parseResize(data: string): { columns: number; rows: number } | undefined {
+  const m = /^(\d+)x(\d+)$/.exec(data);
+  return m ? { columns: Number(m[1]), rows: Number(m[2]) } : undefined;
+}
+
+/**
+ * Parse a `.cast` file. Lines that are not valid events are skipped, so a
+ * recording cut off mid-write (VS Code crashed, disk full) still replays up
+ * to its last complete line. Throws only when the header is not asciicast v2.
+ */
+export function parseCast(text: string): Cast {
+  const lines = text.split('\n');
+  let header: CastHeader | undefined;
+  try {
+    header = JSON.parse(lines[0]);
+  } catch {
+    // reported below
+  }
+  if (!header || header.version !== 2 || !(header.width > 0) || !(header.height > 0)) {
+    throw new Error('Not an asciicast v2 recording');
+  }
+
+  const events: CastEvent[] = [];
+  for (const line of lines.slice(1)) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const [time, code, data] = JSON.parse(line);
+      if (typeof time === 'number' && typeof code === 'string' && typeof data === 'string') {
+        events.push({ time, code: code as CastEventCode, data });
+      }
+    } catch {
+      // truncated line
+    }
+  }
+  return { header, events, duration: events.length ? events[events.length - 1].time : 0 };
+}
+
+/**
+ * Shorten pauses longer than `limit` seconds to `limit`, as asciinema does
+ * for `idle_time_limit`. Returns new events; the input is left alone.
+ */
+export function limitIdle(events: CastEvent[], limit: number | undefined): CastEvent[] {
+  if (!limit || limit <= 0) {
+    return events;
+  }
+  let shift = 0;
+  let prev = 0;
+  return events.map((e) => {
+    const gap = e.time - prev;
+    if (gap > limit) {
+      shift += gap - limit;
+    }
+    prev = e.time;
+    return { ...e, time: e.time - shift };
+  });
+}
+
+/** `web1-20261019-091244.cast`: host first so a folder of recordings sorts by host, then time */
+export function recordingFileName(hostName: string, date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const host = hostName.replace(/[^A-Za-z0-9._-]+/g, '_') || 'host';
+  const stamp =
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `${host}-${stamp}.cast`;
+}
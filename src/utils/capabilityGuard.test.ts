@@ -1,15 +1,16 @@
-import { hasCapability, ensureCapability, assertCapability } from './capabilityGuard';
+import { hasCapability, ensureCapability, assertCapability, isSftpOnly, contextMarker, canFindFilenames } from './capabilityGuard';
 import * as vscode from 'vscode';
 import { IConnection } from '../types';
 
-function conn(type: 'ssh' | 'ftp'): IConnection {
+function conn(type: 'ssh' | 'ftp' | 'sftp-only'): IConnection {
   const ssh = type === 'ssh';
   return {
+    host: { name: 'files' },
     capabilities: {
-      type,
+      type: type === 'ftp' ? 'ftp' : 'ssh',
       supportsExec: ssh,
       supportsShell: ssh,
-      supportsPortForward: ssh,
+      supportsPortForward: type !== 'ftp',
       supportsNativeWatch: ssh,
       supportsSearch: ssh,
       supportsServerBackup: ssh,
@@ -63,4 +64,30 @@ describe('capabilityGuard', () => {
       expect(msg).toMatch(/FTP/);
     });
   });
+
+  describe('SFTP-only servers', () => {
+    it('are SSH connections without exec', () => {
+      expect(isSftpOnly(conn('sftp-only'))).toBe(true);
+      expect(isSftpOnly(conn('ssh'))).toBe(false);
+      expect(isSftpOnly(conn('ftp'))).toBe(false);
+    });
+
+    it('get their own context marker', () => {
+      expect(contextMarker(conn('ssh'))).toBe('');
+      expect(contextMarker(conn('ftp'))).toBe('.ftp');
+      expect(contextMarker(conn('sftp-only'))).toBe('.sftp');
+    });
+
+    it('still allow filename search, unlike FTP', () => {
+      expect(canFindFilenames(conn('sftp-only'))).toBe(true);
+      expect(canFindFilenames(conn('ftp'))).toBe(false);
+      expect(hasCapability(conn('sftp-only'), 'supportsSearch')).toBe(false);
+    });
+
+    it('name the server instead of the protocol when refusing', () => {
+      expect(() => assertCapability(conn('sftp-only'), 'supportsShell')).toThrow('Opening a terminal is not available on files: the server only allows SFTP.');
+      expect(ensureCapability(conn('sftp-only'), 'supportsSudo')).toBe(false);
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith('Sudo escalation is not available on files: the server only allows SFTP.');
+    });
+  });
 });
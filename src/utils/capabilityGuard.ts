@@ -11,7 +11,11 @@ import { IConnection, IConnectionCapabilities } from '../types';
  * compiler does NOT catch an SSH-only call landing on an FTP connection - it
  * would throw a runtime "x is not a function" TypeError.
  *
- * Menu `when` clauses hide SSH-only rows for FTP (`(?!\.ftp)`), but keybindings,
+ * SSH connections to SFTP-only servers (`ForceCommand internal-sftp`) report
+ * the same shell capabilities as false once the connect-time exec probe fails.
+ *
+ * Menu `when` clauses hide SSH-only rows for FTP (`(?!\.ftp)`) and shell rows
+ * for SFTP-only servers (`(?!\.s?ftp)`, see contextMarker), but keybindings,
  * the command palette, connection pickers, and the active-connection path all
  * bypass menu gating. So every SSH-only feature must be capability-gated in code:
  *   - `ensureCapability` at a command-handler entry (shows a friendly message),
@@ -33,6 +37,39 @@ function protocolLabel(connection: IConnection): string {
   return (connection.capabilities?.type ?? 'this').toUpperCase();
 }
 
+/** An SSH connection whose server only allows SFTP (no commands, no shell) */
+export function isSftpOnly(connection: IConnection): boolean {
+  const caps = connection?.capabilities;
+  return caps?.type === 'ssh' && caps.supportsExec === false;
+}
+
+/**
+ * Context-value marker for tree items of this connection: `.ftp` for FTP,
+ * `.sftp` for an SFTP-only SSH server, '' otherwise. It goes right after the
+ * item kind (`connectedServer`, `connection`, `file`, `folder`) so menus can
+ * hide SSH-only rows with `(?!\.ftp)` and shell rows with `(?!\.s?ftp)`.
+ */
+export function contextMarker(connection: IConnection): string {
+  if (connection?.capabilities?.type === 'ftp') {
+    return '.ftp';
+  }
+  return isSftpOnly(connection) ? '.sftp' : '';
+}
+
+/**
+ * Whether a filename search can run: anywhere remote search can, and on
+ * SFTP-only servers, where searchFiles() walks the tree over SFTP instead.
+ */
+export function canFindFilenames(connection: IConnection): boolean {
+  return hasCapability(connection, 'supportsSearch') || isSftpOnly(connection);
+}
+
+function unavailableMessage(connection: IConnection, what: string): string {
+  return isSftpOnly(connection)
+    ? `${what} is not available on ${connection.host.name}: the server only allows SFTP.`
+    : `${what} is not available over ${protocolLabel(connection)} connections.`;
+}
+
 /**
  * True if the connection supports the capability. A capability is treated as
  * UNSUPPORTED only when it is explicitly `false` (which is exactly what an FTP
@@ -63,7 +100,7 @@ export function ensureCapability(
   }
   const what = action ?? ACTION_BY_CAP[capability];
   void vscode.window.showWarningMessage(
-    `${what} is not available over ${protocolLabel(connection)} connections. Use an SSH connection.`
+    isSftpOnly(connection) ? unavailableMessage(connection, what) : `${unavailableMessage(connection, what)} Use an SSH connection.`
   );
   return false;
 }
@@ -81,6 +118,6 @@ export function assertCapability(
 ): void {
   if (!hasCapability(connection, capability)) {
     const what = action ?? ACTION_BY_CAP[capability];
-    throw new Error(`${what} is not available over ${protocolLabel(connection)} connections.`);
+    throw new Error(unavailableMessage(connection, what));
   }
 }
@@ -0,0 +1,71 @@
+/**
+ * directCopy helper tests: the probe and copy commands run on the source host
+ * for server-to-server copies, and parsing their marker lines.
+ */
+
+import { createMockHostConfig } from '../__mocks__/testHelpers';
+import {
+  buildDirectCopyCommand,
+  buildProbeCommand,
+  parseDirectCopyResult,
+  parseProbeResult,
+  sshCommand,
+  sshTarget,
+} from './directCopy';
+
+const DEST = createMockHostConfig({ host: 'db.internal', port: 2222, username: 'deploy' });
+
+describe('directCopy', () => {
+  describe('ssh target', () => {
+    it('uses batch mode, a connect timeout and the destination port', () => {
+      expect(sshCommand(DEST)).toBe("ssh -o BatchMode=yes -o ConnectTimeout=8 -p 2222 'deploy@db.internal'");
+    });
+
+    it('brackets IPv6 literals for rsync host:path syntax', () => {
+      expect(sshTarget(createMockHostConfig({ host: 'fe80::1', username: 'u' }))).toBe('u@[fe80::1]');
+    });
+  });
+
+  describe('probe', () => {
+    it('never accepts unknown host keys', () => {
+      const cmd = buildProbeCommand(DEST);
+      expect(cmd).toContain('BatchMode=yes');
+      expect(cmd).not.toContain('StrictHostKeyChecking');
+    });
+
+    it('parses the tool, or undefined when the destination is unreachable', () => {
+      expect(parseProbeResult('SSHLITE_DIRECT=rsync\n')).toBe('rsync');
+      expect(parseProbeResult('motd noise\nSSHLITE_DIRECT=pipe\n')).toBe('pipe');
+      expect(parseProbeResult('SSHLITE_DIRECT=no\n')).toBeUndefined();
+      expect(parseProbeResult('')).toBeUndefined();
+    });
+  });
+
+  describe('copy command', () => {
+    it('rsyncs a folder with trailing slashes so contents land in the destination folder', () => {
+      const cmd = buildDirectCopyCommand('rsync', '/srv/data', DEST, '/backup/data', true);
+      expect(cmd).toContain("rsync -a -s --partial -e 'ssh -o BatchMode=yes -o ConnectTimeout=8 -p 2222' '/srv/data/' 'deploy@db.internal:/backup/data/'");
+      expect(cmd).toMatch(/2>&1; echo "SSHLITE_RC=\$\?"$/);
+    });
+
+    it('pipes a file through cat and a folder through tar when rsync is missing', () => {
+      expect(buildDirectCopyCommand('pipe', '/srv/a.sql', DEST, '/backup/a.sql', false))
+        .toContain(`'cat > '\\''/backup/a.sql'\\'''`);
+      const folder = buildDirectCopyCommand('pipe', '/srv/data', DEST, '/backup/data', true);
+      expect(folder).toContain("tar cf - -C '/srv/data' . |");
+      expect(folder).toContain('tar xf - -C');
+    });
+
+    it('shell-quotes paths with single quotes', () => {
+      const cmd = buildDirectCopyCommand('rsync', "/srv/it's", DEST, '/backup/x', false);
+      expect(cmd).toContain(`'/srv/it'\\''s'`);
+    });
+
+    it('parses the exit code and what the tool printed', () => {
+      expect(parseDirectCopyResult('SSHLITE_RC=0\n')).toEqual({ code: 0, message: '' });
+      expect(parseDirectCopyResult('Permission denied (publickey).\nSSHLITE_RC=255\n'))
+        .toEqual({ code: 255, message: 'Permission denied (publickey).' });
+      expect(parseDirectCopyResult('').code).toBe(-1);
+    });
+  });
+});
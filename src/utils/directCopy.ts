@@ -0,0 +1,93 @@
+import { IHostConfig } from '../types';
+
+/**
+ * Server-to-server copy: shell commands run on the SOURCE host that push a
+ * file or folder straight to the destination host over ssh, so the bytes
+ * never pass through this machine. Only key/agent auth is used
+ * (`BatchMode=yes`) and unknown host keys are refused, so nothing can hang
+ * on a prompt and no host key is trusted behind the user's back.
+ */
+
+/** How the source host can push to the destination: rsync on both ends, or a plain ssh pipe */
+export type DirectCopyTool = 'rsync' | 'pipe';
+
+/** Marker lines the commands print, so the outcome survives exec() ignoring exit codes */
+const PROBE_MARKER = 'SSHLITE_DIRECT=';
+const RC_MARKER = 'SSHLITE_RC=';
+
+/** Seconds the source host waits for the destination before giving up */
+const CONNECT_TIMEOUT = 8;
+
+function quote(s: string): string {
+  return `'${s.replace(/'/g, "'\\''")}'`;
+}
+
+/** `user@host`, with IPv6 literals bracketed for rsync's `host:path` syntax */
+export function sshTarget(host: IHostConfig): string {
+  const name = host.host.includes(':') ? `[${host.host}]` : host.host;
+  return `${host.username}@${name}`;
+}
+
+/** The `ssh …` prefix the source host uses to reach the destination */
+export function sshCommand(host: IHostConfig): string {
+  return `ssh -o BatchMode=yes -o ConnectTimeout=${CONNECT_TIMEOUT} -p ${host.port} ${quote(`${host.username}@${host.host}`)}`;
+}
+
+/**
+ * Run on the source: can it log in to the destination without a prompt, and
+ * do both ends have rsync? Prints one marker line (see parseProbeResult).
+ */
+export function buildProbeCommand(dest: IHostConfig): string {
+  const remote = quote('command -v rsync >/dev/null 2>&1 && echo rsync || echo pipe');
+  return (
+    `if out=$(${sshCommand(dest)} ${remote} 2>/dev/null); then ` +
+    `if [ "$out" = rsync ] && command -v rsync >/dev/null 2>&1; then echo ${PROBE_MARKER}rsync; ` +
+    `else echo ${PROBE_MARKER}pipe; fi; ` +
+    `else echo ${PROBE_MARKER}no; fi`
+  );
+}
+
+/** The tool to use, or undefined if the source cannot reach the destination */
+export function parseProbeResult(output: string): DirectCopyTool | undefined {
+  const match = output.match(new RegExp(`${PROBE_MARKER}(rsync|pipe|no)`));
+  return match && match[1] !== 'no' ? (match[1] as DirectCopyTool) : undefined;
+}
+
+/**
+ * Run on the source: copy `srcPath` to `destPath` on the destination. rsync
+ * keeps partial files and runs with `-s` so the remote path is not word-split
+ * by the remote shell; the pipe variant streams `cat` (file) or `tar`
+ * (folder) through ssh. stderr is folded into the output, which ends with an
+ * exit-code marker line.
+ */
+export function buildDirectCopyCommand(
+  tool: DirectCopyTool,
+  srcPath: string,
+  dest: IHostConfig,
+  destPath: string,
+  isDirectory: boolean
+): string {
+  let command: string;
+  if (tool === 'rsync') {
+    const slash = isDirectory ? '/' : '';
+    const shell = quote(`ssh -o BatchMode=yes -o ConnectTimeout=${CONNECT_TIMEOUT} -p ${dest.port}`);
+    command = `rsync -a -s --partial -e ${shell} ${quote(srcPath + slash)} ${quote(`${sshTarget(dest)}:${destPath}${slash}`)}`;
+  } else if (isDirectory) {
+    const remote = quote(`mkdir -p ${quote(destPath)} && tar xf - -C ${quote(destPath)}`);
+    command = `tar cf - -C ${quote(srcPath)} . | ${sshCommand(dest)} ${remote}`;
+  } else {
+    const remote = quote(`cat > ${quote(destPath)}`);
+    command = `${sshCommand(dest)} ${remote} < ${quote(srcPath)}`;
+  }
+  return `{ ${command}; } 2>&1; echo "${RC_MARKER}$?"`;
+}
+
+/**
+ * Exit code (-1 if the marker is missing, e.g. the channel died) and what
+ * the copy printed before it — rsync/ssh/tar errors, stderr folded in.
+ */
+export function parseDirectCopyResult(output: string): { code: number; message: string } {
+  const match = output.match(new RegExp(`${RC_MARKER}(\\d+)`));
+  const message = output.replace(new RegExp(`${RC_MARKER}\\d+\\s*`), '').trim();
+  return { code: match ? parseInt(match[1], 10) : -1, message };
+}
@@ -0,0 +1,64 @@
+import { ExecError, IExecResult } from '../types';
+import { withEnv, execFailure, checkExecResult } from './execResult';
+
+function result(over: Partial<IExecResult> = {}): IExecResult {
+  return { stdout: '', stderr: '', exitCode: 0, durationMs: 10, ...over };
+}
+
+describe('execResult', () => {
+  describe('withEnv', () => {
+    it('leaves the command alone without variables', () => {
+      expect(withEnv('ls')).toBe('ls');
+      expect(withEnv('ls', {})).toBe('ls');
+    });
+    it('exports quoted variables before the command', () => {
+      expect(withEnv('make', { CC: 'gcc', MSG: "it's $HOME" })).toBe("export CC='gcc' MSG='it'\\''s $HOME'; make");
+    });
+    it('rejects names that are not shell identifiers', () => {
+      expect(() => withEnv('ls', { '1A': 'x' })).toThrow('Invalid environment variable name: 1A');
+      expect(() => withEnv('ls', { 'A=B': 'x' })).toThrow('Invalid environment variable name');
+    });
+  });
+
+  describe('execFailure', () => {
+    it('is undefined for exit 0 and for allowed codes', () => {
+      expect(execFailure(result())).toBeUndefined();
+      expect(execFailure(result({ exitCode: 3 }), [0, 3])).toBeUndefined();
+    });
+    it('quotes stderr, falling back to stdout', () => {
+      expect(execFailure(result({ exitCode: 1, stderr: ' no such file \n' }))).toBe('Exit code 1: no such file');
+      expect(execFailure(result({ exitCode: 2, stdout: 'usage: foo' }))).toBe('Exit code 2: usage: foo');
+      expect(execFailure(result({ exitCode: 4 }))).toBe('Exit code 4');
+    });
+    it('keeps the end of long output', () => {
+      const message = execFailure(result({ exitCode: 1, stderr: 'x'.repeat(1000) + 'END' }))!;
+      expect(message.length).toBeLessThan(520);
+      expect(message.endsWith('END')).toBe(true);
+    });
+    it('explains commands that did not exit on their own', () => {
+      expect(execFailure(result({ exitCode: null, cancelled: true }))).toBe('Cancelled');
+      expect(execFailure(result({ exitCode: null, timedOut: true, durationMs: 30_000 }))).toBe('Timed out after 30s');
+      expect(execFailure(result({ exitCode: null, signal: 'KILL' }))).toBe('Killed by signal KILL');
+      expect(execFailure(result({ exitCode: null }))).toBe('Command ended without an exit code');
+    });
+  });
+
+  describe('checkExecResult', () => {
+    it('returns a successful result', () => {
+      const ok = result({ stdout: 'hi' });
+      expect(checkExecResult(ok)).toBe(ok);
+    });
+    it('throws an ExecError carrying the result', () => {
+      const failed = result({ exitCode: 1, stderr: 'denied' });
+      try {
+        checkExecResult(failed);
+        fail('expected a throw');
+      } catch (err) {
+        expect(err).toBeInstanceOf(ExecError);
+        expect((err as ExecError).message).toBe('Exit code 1: denied');
+        expect((err as ExecError).result).toBe(failed);
+        expect((err as ExecError).code).toBe('EXEC_FAILED');
+      }
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { ExecError, IExecResult } from '../types';
+
+/**
+ * Reading an execDetailed / execStream result: what went wrong, if anything,
+ * in one line a user can act on, and the env prefix those calls put in
+ * front of a command.
+ */
+
+/** Longest stderr excerpt quoted in a failure message */
+const MAX_EXCERPT = 500;
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function quote(s: string): string {
+  return `'${s.replace(/'/g, "'\\''")}'`;
+}
+
+/** `export A='1' B='2'; command`, or the command as is without variables */
+export function withEnv(command: string, env?: Record<string, string>): string {
+  const entries = Object.entries(env ?? {});
+  if (entries.length === 0) {
+    return command;
+  }
+  for (const [name] of entries) {
+    if (!ENV_NAME.test(name)) {
+      throw new Error(`Invalid environment variable name: ${name}`);
+    }
+  }
+  return `export ${entries.map(([name, value]) => `${name}=${quote(value)}`).join(' ')}; ${command}`;
+}
+
+/** The end of a command's output, where the error usually is */
+function excerpt(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_EXCERPT ? `…${trimmed.slice(-MAX_EXCERPT)}` : trimmed;
+}
+
+/**
+ * Why a command failed, or undefined when it succeeded. `okCodes` lists the
+ * exit codes that count as success (e.g. `systemctl status` exits 3 for a
+ * stopped unit). A failing command with nothing on stderr quotes stdout.
+ */
+export function execFailure(result: IExecResult, okCodes: number[] = [0]): string | undefined {
+  if (result.cancelled) {
+    return 'Cancelled';
+  }
+  if (result.timedOut) {
+    return `Timed out after ${Math.round(result.durationMs / 1000)}s`;
+  }
+  if (result.exitCode === null) {
+    return result.signal ? `Killed by signal ${result.signal}` : 'Command ended without an exit code';
+  }
+  if (okCodes.includes(result.exitCode)) {
+    return undefined;
+  }
+  const output = excerpt(result.stderr) || excerpt(result.stdout);
+  return output ? `Exit code ${result.exitCode}: ${output}` : `Exit code ${result.exitCode}`;
+}
+
+/** The result when the command succeeded; otherwise an ExecError carrying it */
+export function checkExecResult(result: IExecResult, okCodes: number[] = [0]): IExecResult {
+  const failure = execFailure(result, okCodes);
+  if (failure) {
+    throw new ExecError(failure, result);
+  }
+  return result;
+}
@@ -0,0 +1,62 @@
+/**
+ * folderCompare helper tests: which files differ under each compare mode,
+ * and the counts shown in the view.
+ */
+
+import { ISyncFileState } from '../types';
+import { compareTrees, entriesUnder, filesDiffer, summarizeComparison } from './folderCompare';
+
+const T = 1_700_000_000_000;
+
+function state(size: number, mtime = T, hash?: string): ISyncFileState {
+  return { size, mtime, hash };
+}
+
+describe('folderCompare', () => {
+  describe('filesDiffer', () => {
+    it('always compares sizes', () => {
+      expect(filesDiffer(state(1), state(2), 'size')).toBe(true);
+      expect(filesDiffer(state(1, T), state(1, T + 3_600_000), 'size')).toBe(false);
+    });
+
+    it('treats mtimes within the tolerance as equal', () => {
+      expect(filesDiffer(state(1, T), state(1, T + 1500), 'mtime')).toBe(false);
+      expect(filesDiffer(state(1, T), state(1, T + 5000), 'mtime')).toBe(true);
+    });
+
+    it('trusts hashes over mtimes in checksum mode, and falls back to mtime without them', () => {
+      expect(filesDiffer(state(1, T, 'a'), state(1, T + 60_000, 'a'), 'checksum')).toBe(false);
+      expect(filesDiffer(state(1, T, 'a'), state(1, T, 'b'), 'checksum')).toBe(true);
+      expect(filesDiffer(state(1, T, 'a'), state(1, T + 60_000), 'checksum')).toBe(true);
+    });
+  });
+
+  it('classifies every path relative to the left folder, sorted', () => {
+    const left = new Map([['b.txt', state(1)], ['same.txt', state(2)], ['gone.txt', state(3)]]);
+    const right = new Map([['b.txt', state(9)], ['same.txt', state(2)], ['a/new.txt', state(4)]]);
+
+    const { entries, identical } = compareTrees(left, right, 'mtime');
+
+    expect(entries.map((e) => [e.path, e.status])).toEqual([
+      ['a/new.txt', 'added'],
+      ['b.txt', 'modified'],
+      ['gone.txt', 'removed'],
+    ]);
+    expect(identical).toBe(1);
+  });
+
+  it('selects entries under a folder, not siblings sharing its prefix', () => {
+    const entries = ['lib/a.js', 'lib/sub/b.js', 'library.js'].map((path) => ({ path, status: 'added' as const }));
+    expect(entriesUnder(entries, 'lib').map((e) => e.path)).toEqual(['lib/a.js', 'lib/sub/b.js']);
+    expect(entriesUnder(entries, '')).toHaveLength(3);
+  });
+
+  it('summarizes counts, leaving out empty kinds', () => {
+    expect(summarizeComparison([
+      { path: 'a', status: 'added' },
+      { path: 'b', status: 'modified' },
+      { path: 'c', status: 'modified' },
+    ])).toBe('1 added, 2 modified');
+    expect(summarizeComparison([])).toBe('identical');
+  });
+});
@@ -0,0 +1,74 @@
+import { CompareMode, CompareStatus, ICompareEntry, ISyncFileState } from '../types';
+import { MTIME_TOLERANCE_MS } from './folderSync';
+
+/**
+ * Folder compare helpers: which files differ between two scanned trees, and
+ * the counts shown in the view title. Scanning reuses the folder sync
+ * scanners, so both trees are maps of relative path → size/mtime(/hash).
+ */
+
+/** Whether two files at the same path count as different under `mode` */
+export function filesDiffer(a: ISyncFileState, b: ISyncFileState, mode: CompareMode): boolean {
+  if (a.size !== b.size) {
+    return true;
+  }
+  if (mode === 'size') {
+    return false;
+  }
+  // Checksum mode without a hash on both sides (unreadable, or no shell) falls back to mtime
+  if (mode === 'checksum' && a.hash && b.hash) {
+    return a.hash !== b.hash;
+  }
+  return Math.abs(a.mtime - b.mtime) >= MTIME_TOLERANCE_MS;
+}
+
+/**
+ * Every difference between `left` and `right`, sorted by path. Files that
+ * match are left out; `identical` counts them.
+ */
+export function compareTrees(
+  left: Map<string, ISyncFileState>,
+  right: Map<string, ISyncFileState>,
+  mode: CompareMode
+): { entries: ICompareEntry[]; identical: number } {
+  const entries: ICompareEntry[] = [];
+  let identical = 0;
+  for (const [path, l] of left) {
+    const r = right.get(path);
+    if (!r) {
+      entries.push({ path, status: 'removed', left: l });
+    } else if (filesDiffer(l, r, mode)) {
+      entries.push({ path, status: 'modified', left: l, right: r });
+    } else {
+      identical++;
+    }
+  }
+  for (const [path, r] of right) {
+    if (!left.has(path)) {
+      entries.push({ path, status: 'added', right: r });
+    }
+  }
+  return { entries: entries.sort((a, b) => a.path.localeCompare(b.path)), identical };
+}
+
+/** Entries at or below a folder (relative path, `''` for the root) */
+export function entriesUnder(entries: ICompareEntry[], folder: string): ICompareEntry[] {
+  if (!folder) {
+    return entries;
+  }
+  const prefix = `${folder}/`;
+  return entries.filter((e) => e.path.startsWith(prefix));
+}
+
+/** "2 added, 1 removed, 3 modified" — empty kinds left out */
+export function summarizeComparison(entries: ICompareEntry[]): string {
+  const counts: Record<CompareStatus, number> = { added: 0, removed: 0, modified: 0 };
+  for (const entry of entries) {
+    counts[entry.status]++;
+  }
+  const parts: string[] = [];
+  if (counts.added) { parts.push(`${counts.added} added`); }
+  if (counts.removed) { parts.push(`${counts.removed} removed`); }
+  if (counts.modified) { parts.push(`${counts.modified} modified`); }
+  return parts.join(', ') || 'identical';
+}
@@ -0,0 +1,211 @@
+/**
+ * folderSync tests — exclude globs, remote scan/checksum parsing and plan building
+ */
+
+import {
+  globToRegExp,
+  parseExcludes,
+  isExcluded,
+  buildRemoteScanCommand,
+  parseRemoteScan,
+  buildChecksumCommand,
+  parseChecksums,
+  sameContent,
+  buildSyncPlan,
+  checksumCandidates,
+  summarizePlan,
+} from './folderSync';
+import { ISyncFileState, SyncBaseline } from '../types';
+
+const T = 1_700_000_000_000;
+
+function files(entries: Record<string, ISyncFileState>): Map<string, ISyncFileState> {
+  return new Map(Object.entries(entries));
+}
+
+describe('folderSync', () => {
+  describe('globToRegExp', () => {
+    it('keeps * and ? inside one segment', () => {
+      expect(globToRegExp('*.log').test('app.log')).toBe(true);
+      expect(globToRegExp('*.log').test('logs/app.log')).toBe(false);
+      expect(globToRegExp('a?c').test('abc')).toBe(true);
+    });
+
+    it('lets ** span folders, including none', () => {
+      expect(globToRegExp('dist/**').test('dist/a/b.js')).toBe(true);
+      expect(globToRegExp('**/*.map').test('a.map')).toBe(true);
+      expect(globToRegExp('**/*.map').test('x/y/a.map')).toBe(true);
+    });
+
+    it('escapes regex characters', () => {
+      expect(globToRegExp('a+b.txt').test('a+b.txt')).toBe(true);
+      expect(globToRegExp('a+b.txt').test('aab_txt')).toBe(false);
+    });
+  });
+
+  describe('parseExcludes', () => {
+    it('splits, trims and drops trailing slashes and empties', () => {
+      expect(parseExcludes(' node_modules/, *.log ,, dist/** ')).toEqual(['node_modules', '*.log', 'dist/**']);
+      expect(parseExcludes(['.git/', ''])).toEqual(['.git']);
+    });
+  });
+
+  describe('isExcluded', () => {
+    it('matches names at any depth', () => {
+      expect(isExcluded('node_modules/x/index.js', ['node_modules'])).toBe(true);
+      expect(isExcluded('src/node_modules/x.js', ['node_modules'])).toBe(true);
+      expect(isExcluded('src/debug.log', ['*.log'])).toBe(true);
+      expect(isExcluded('src/app.ts', ['node_modules', '*.log'])).toBe(false);
+    });
+
+    it('anchors patterns containing a slash at the root', () => {
+      expect(isExcluded('dist/a/b.js', ['dist/**'])).toBe(true);
+      expect(isExcluded('build/out/x', ['build/out'])).toBe(true);
+      expect(isExcluded('src/dist/a.js', ['dist/**'])).toBe(false);
+    });
+  });
+
+  describe('remote scan', () => {
+    it('prunes single-name excludes in find and quotes the root', () => {
+      const cmd = buildRemoteScanCommand("/srv/it's", ['.git', 'dist/**']);
+      expect(cmd).toContain("cd '/srv/it'\\''s'");
+      expect(cmd).toContain("-name '.git'");
+      expect(cmd).not.toContain('dist');
+      expect(cmd).toContain("-printf '%P\\t%s\\t%T@\\n'");
+    });
+
+    it('parses size and fractional mtime, skipping excluded and malformed lines', () => {
+      const out = 'a.txt\t12\t1700000000.5\nsub/b.bin\t0\t1700000001.0\ndist/x.js\t5\t1\nbroken line\n';
+      const scan = parseRemoteScan(out, ['dist/**']);
+      expect([...scan.keys()]).toEqual(['a.txt', 'sub/b.bin']);
+      expect(scan.get('a.txt')).toEqual({ size: 12, mtime: 1700000000500 });
+    });
+  });
+
+  describe('checksums', () => {
+    it('builds a quoted sha256sum command', () => {
+      expect(buildChecksumCommand('/r', ['a b.txt', 'c'])).toBe("cd '/r' && sha256sum -- 'a b.txt' 'c'");
+    });
+
+    it('parses text and binary mode lines and skips escaped names', () => {
+      const h = 'a'.repeat(64);
+      const out = `${h}  a b.txt\n${h} *bin.dat\n\\${h}  we\\nird\n`;
+      const hashes = parseChecksums(out);
+      expect(hashes.get('a b.txt')).toBe(h);
+      expect(hashes.get('bin.dat')).toBe(h);
+      expect(hashes.size).toBe(2);
+    });
+  });
+
+  describe('sameContent', () => {
+    it('prefers hashes when both sides have one', () => {
+      expect(sameContent({ size: 1, mtime: T, hash: 'x' }, { size: 1, mtime: T + 60_000, hash: 'x' })).toBe(true);
+      expect(sameContent({ size: 1, mtime: T, hash: 'x' }, { size: 1, mtime: T, hash: 'y' })).toBe(false);
+    });
+
+    it('otherwise allows a small mtime difference', () => {
+      expect(sameContent({ size: 1, mtime: T }, { size: 1, mtime: T + 1000 })).toBe(true);
+      expect(sameContent({ size: 1, mtime: T }, { size: 1, mtime: T + 5000 })).toBe(false);
+      expect(sameContent({ size: 1, mtime: T }, { size: 2, mtime: T })).toBe(false);
+    });
+  });
+
+  describe('buildSyncPlan', () => {
+    const same = { size: 3, mtime: T };
+    const edited = { size: 4, mtime: T + 60_000 };
+
+    it('copies new files both ways on a first two-way sync', () => {
+      const plan = buildSyncPlan(files({ 'l.txt': same }), files({ 'r.txt': same }), {}, 'both');
+      expect(plan.map((p) => [p.path, p.kind, p.action])).toEqual([
+        ['l.txt', 'new', 'upload'],
+        ['r.txt', 'new', 'download'],
+      ]);
+    });
+
+    it('skips files equal on both sides', () => {
+      expect(buildSyncPlan(files({ a: same }), files({ a: same }), {}, 'both')).toEqual([]);
+    });
+
+    it('sends a one-sided edit the right way', () => {
+      const baseline: SyncBaseline = { a: { local: same, remote: same }, b: { local: same, remote: same } };
+      const plan = buildSyncPlan(files({ a: edited, b: same }), files({ a: same, b: edited }), baseline, 'both');
+      expect(plan.map((p) => [p.path, p.kind, p.action])).toEqual([
+        ['a', 'changed', 'upload'],
+        ['b', 'changed', 'download'],
+      ]);
+    });
+
+    it('leaves files as the last sync copied them, though their times differ', () => {
+      const copied = { size: 3, mtime: T + 500_000 };
+      const baseline: SyncBaseline = { a: { local: same, remote: copied } };
+      expect(buildSyncPlan(files({ a: same }), files({ a: copied }), baseline, 'both')).toEqual([]);
+      expect(buildSyncPlan(files({ a: same }), files({ a: copied }), baseline, 'upload')).toEqual([]);
+    });
+
+    it('flags edits on both sides, or differences without a baseline, as conflicts', () => {
+      const baseline: SyncBaseline = { a: { local: same, remote: same } };
+      const plan = buildSyncPlan(
+        files({ a: edited, b: same }),
+        files({ a: { size: 9, mtime: T + 90_000 }, b: edited }),
+        baseline,
+        'both'
+      );
+      expect(plan.map((p) => [p.path, p.kind, p.action])).toEqual([
+        ['a', 'conflict', 'skip'],
+        ['b', 'conflict', 'skip'],
+      ]);
+    });
+
+    it('propagates deletions and treats delete-vs-edit as a conflict', () => {
+      const baseline: SyncBaseline = {
+        gone: { local: same, remote: same },
+        'edited-here': { local: same, remote: same },
+      };
+      const plan = buildSyncPlan(files({ gone: same, 'edited-here': edited }), files({}), baseline, 'both');
+      expect(plan.map((p) => [p.path, p.kind, p.action])).toEqual([
+        ['edited-here', 'conflict', 'skip'],
+        ['gone', 'deleted', 'deleteLocal'],
+      ]);
+    });
+
+    it('one-way upload overwrites and never deletes files it never synced', () => {
+      const baseline: SyncBaseline = { old: { local: same, remote: same } };
+      const plan = buildSyncPlan(
+        files({ a: edited, n: same }),
+        files({ a: same, old: same, extra: same }),
+        baseline,
+        'upload'
+      );
+      expect(plan.map((p) => [p.path, p.kind, p.action])).toEqual([
+        ['a', 'changed', 'upload'],
+        ['n', 'new', 'upload'],
+        ['old', 'deleted', 'deleteRemote'],
+      ]);
+    });
+
+    it('one-way download mirrors the server side', () => {
+      const baseline: SyncBaseline = { old: { local: same, remote: same } };
+      const plan = buildSyncPlan(files({ old: same, mine: same }), files({ r: same }), baseline, 'download');
+      expect(plan.map((p) => [p.path, p.action])).toEqual([
+        ['old', 'deleteLocal'],
+        ['r', 'download'],
+      ]);
+    });
+  });
+
+  it('checksumCandidates picks same-size paths present on both sides', () => {
+    const local = files({ a: { size: 1, mtime: T }, b: { size: 2, mtime: T }, c: { size: 3, mtime: T } });
+    const remote = files({ a: { size: 1, mtime: T + 9000 }, b: { size: 5, mtime: T } });
+    expect(checksumCandidates(local, remote)).toEqual(['a']);
+  });
+
+  it('summarizePlan counts each kind', () => {
+    expect(summarizePlan([])).toBe('no changes');
+    expect(summarizePlan([
+      { path: 'a', kind: 'new', action: 'upload' },
+      { path: 'b', kind: 'new', action: 'download' },
+      { path: 'c', kind: 'conflict', action: 'skip' },
+      { path: 'd', kind: 'conflict', action: 'skip' },
+    ])).toBe('2 new, 2 conflicts');
+  });
+});
@@ -0,0 +1,276 @@
+import { ISyncFileState, ISyncPlanItem, SyncBaseline, SyncChangeKind, SyncDirection } from '../types';
+
+/**
+ * Folder sync helpers: exclude globs, the shell commands that scan and
+ * checksum the remote tree, and the plan itself — which file goes which way,
+ * decided from both trees and the state they were in after the last sync.
+ */
+
+/**
+ * mtimes closer than this count as equal: FAT and many FTP/SFTP servers only
+ * keep whole or even seconds, and the remote side reports what it stored.
+ */
+export const MTIME_TOLERANCE_MS = 2000;
+
+/** Paths per `sha256sum` call, to stay well under the server's ARG_MAX */
+export const CHECKSUM_BATCH = 200;
+
+/** Field separator of the remote scan output (tabs in names are rare enough to skip) */
+const FIELD_SEP = '\t';
+
+function quote(s: string): string {
+  return `'${s.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Glob → RegExp. `**` spans folders, `*` and `?` stay inside one segment.
+ * Patterns with a `/` match the whole relative path (a leading `/` anchors
+ * nothing extra); patterns without one match a single segment.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      // `**/` also matches no folder at all
+      if (glob[i + 2] === '/') {
+        re += '(?:.*/)?';
+        i += 2;
+      } else {
+        re += '.*';
+        i += 1;
+      }
+    } else if (c === '*') {
+      re += '[^/]*';
+    } else if (c === '?') {
+      re += '[^/]';
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/** Normalize user input: trim, drop empties and trailing slashes */
+export function parseExcludes(value: string | string[]): string[] {
+  const list = Array.isArray(value) ? value : value.split(',');
+  return list.map((g) => g.trim().replace(/\/+$/, '')).filter((g) => g.length > 0);
+}
+
+/** Whether a relative path, or any folder above it, is excluded */
+export function isExcluded(relPath: string, excludes: string[]): boolean {
+  if (excludes.length === 0) {
+    return false;
+  }
+  const segments = relPath.split('/');
+  for (const glob of excludes) {
+    const anchored = glob.includes('/');
+    const re = globToRegExp(anchored ? glob.replace(/^\/+/, '') : glob);
+    if (anchored) {
+      // Match the path itself or any of its parent folders
+      for (let i = segments.length; i > 0; i--) {
+        if (re.test(segments.slice(0, i).join('/'))) {
+          return true;
+        }
+      }
+    } else if (segments.some((s) => re.test(s))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * List every regular file under `root` as `relative-path<TAB>size<TAB>mtime`.
+ * Single-segment excludes are pruned by `find` itself so excluded trees
+ * (node_modules…) are never walked; path excludes are applied afterwards.
+ * A missing root lists nothing rather than failing, for a first upload.
+ */
+export function buildRemoteScanCommand(root: string, excludes: string[]): string {
+  const names = excludes.filter((g) => !g.includes('/'));
+  const prune = names.length
+    ? `\\( ${names.map((g) => `-name ${quote(g.replace(/\*\*/g, '*'))}`).join(' -o ')} \\) -prune -o `
+    : '';
+  return `if [ -d ${quote(root)} ]; then cd ${quote(root)} && find . -mindepth 1 ${prune}-type f -printf '%P\\t%s\\t%T@\\n'; fi`;
+}
+
+/** Parse {@link buildRemoteScanCommand} output. mtime comes as fractional seconds. */
+export function parseRemoteScan(output: string, excludes: string[]): Map<string, ISyncFileState> {
+  const files = new Map<string, ISyncFileState>();
+  for (const line of output.split('\n')) {
+    const parts = line.split(FIELD_SEP);
+    if (parts.length !== 3 || !parts[0]) {
+      continue;
+    }
+    const size = parseInt(parts[1], 10);
+    const seconds = parseFloat(parts[2]);
+    if (isNaN(size) || isNaN(seconds) || isExcluded(parts[0], excludes)) {
+      continue;
+    }
+    files.set(parts[0], { size, mtime: Math.round(seconds * 1000) });
+  }
+  return files;
+}
+
+/** `sha256sum` over relative paths, run from `root` */
+export function buildChecksumCommand(root: string, relPaths: string[]): string {
+  return `cd ${quote(root)} && sha256sum -- ${relPaths.map((p) => quote(p)).join(' ')}`;
+}
+
+/**
+ * Parse `sha256sum` output (`<hex>  <path>`, or `<hex> *<path>` in binary
+ * mode). Lines for names sha256sum had to escape start with `\` and are
+ * skipped — those files are compared by size and mtime instead.
+ */
+export function parseChecksums(output: string): Map<string, string> {
+  const hashes = new Map<string, string>();
+  for (const line of output.split('\n')) {
+    const m = line.match(/^([0-9a-f]{64}) [ *](.+)$/);
+    if (m) {
+      hashes.set(m[2], m[1]);
+    }
+  }
+  return hashes;
+}
+
+/** `mkdir -p` for the remote folders new files go into */
+export function buildRemoteMkdirCommand(dirs: string[]): string {
+  return `mkdir -p -- ${dirs.map((d) => quote(d)).join(' ')}`;
+}
+
+/** `rm -f` for remote files the sync deletes */
+export function buildRemoteDeleteCommand(paths: string[]): string {
+  return `rm -f -- ${paths.map((p) => quote(p)).join(' ')}`;
+}
+
+/** Same content: hashes when both sides have one, otherwise size and mtime */
+export function sameContent(a: ISyncFileState, b: ISyncFileState): boolean {
+  if (a.size !== b.size) {
+    return false;
+  }
+  if (a.hash && b.hash) {
+    return a.hash === b.hash;
+  }
+  return Math.abs(a.mtime - b.mtime) < MTIME_TOLERANCE_MS;
+}
+
+/** A side is unchanged since the last sync if size and mtime still match what was recorded */
+export function unchangedSince(now: ISyncFileState, before: ISyncFileState): boolean {
+  if (now.size !== before.size) {
+    return false;
+  }
+  if (now.hash && before.hash) {
+    return now.hash === before.hash;
+  }
+  return Math.abs(now.mtime - before.mtime) < MTIME_TOLERANCE_MS;
+}
+
+/**
+ * Work out what a sync would do. Every file present on either side is
+ * classified against the baseline (both sides as of the last sync):
+ *
+ * - On both sides and different: in sync if neither side changed since the
+ *   last sync; otherwise whoever changed wins, and both (or no baseline yet)
+ *   is a conflict. One-way syncs copy whatever changed.
+ * - On one side only, not in the baseline: new, copied over (one-way syncs
+ *   only copy from their source side and leave the other side's extras alone).
+ * - On one side only, in the baseline: deleted on the other side, so deleted
+ *   here too — unless it changed here since, which is a conflict. A one-way
+ *   sync copies it back if the source still has it.
+ *
+ * Conflicts are proposed as `skip`. The result is sorted by path.
+ */
+export function buildSyncPlan(
+  local: Map<string, ISyncFileState>,
+  remote: Map<string, ISyncFileState>,
+  baseline: SyncBaseline,
+  direction: SyncDirection
+): ISyncPlanItem[] {
+  const plan: ISyncPlanItem[] = [];
+  const add = (path: string, kind: SyncChangeKind, action: ISyncPlanItem['action'], l?: ISyncFileState, r?: ISyncFileState): void => {
+    plan.push({ path, kind, action, local: l, remote: r });
+  };
+  const paths = new Set([...local.keys(), ...remote.keys()]);
+
+  for (const path of paths) {
+    const l = local.get(path);
+    const r = remote.get(path);
+    const base = baseline[path];
+
+    if (l && r) {
+      if (sameContent(l, r)) {
+        continue;
+      }
+      const localChanged = !base || !unchangedSince(l, base.local);
+      const remoteChanged = !base || !unchangedSince(r, base.remote);
+      if (!localChanged && !remoteChanged) {
+        // As the last sync left them: a copy gets a new mtime, so the two sides
+        // differ in time (not content) ever after
+        continue;
+      }
+      if (direction === 'upload') {
+        add(path, 'changed', 'upload', l, r);
+      } else if (direction === 'download') {
+        add(path, 'changed', 'download', l, r);
+      } else if (!remoteChanged) {
+        add(path, 'changed', 'upload', l, r);
+      } else if (!localChanged) {
+        add(path, 'changed', 'download', l, r);
+      } else {
+        add(path, 'conflict', 'skip', l, r);
+      }
+    } else if (l) {
+      if (direction === 'download') {
+        if (base) {
+          add(path, 'deleted', 'deleteLocal', l);
+        }
+      } else if (!base || direction === 'upload') {
+        add(path, 'new', 'upload', l);
+      } else if (unchangedSince(l, base.local)) {
+        add(path, 'deleted', 'deleteLocal', l);
+      } else {
+        add(path, 'conflict', 'skip', l);
+      }
+    } else if (r) {
+      if (direction === 'upload') {
+        if (base) {
+          add(path, 'deleted', 'deleteRemote', undefined, r);
+        }
+      } else if (!base || direction === 'download') {
+        add(path, 'new', 'download', undefined, r);
+      } else if (unchangedSince(r, base.remote)) {
+        add(path, 'deleted', 'deleteRemote', undefined, r);
+      } else {
+        add(path, 'conflict', 'skip', undefined, r);
+      }
+    }
+  }
+
+  return plan.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Paths present on both sides with the same size: the only ones worth hashing */
+export function checksumCandidates(local: Map<string, ISyncFileState>, remote: Map<string, ISyncFileState>): string[] {
+  const out: string[] = [];
+  for (const [path, l] of local) {
+    const r = remote.get(path);
+    if (r && r.size === l.size) {
+      out.push(path);
+    }
+  }
+  return out;
+}
+
+/** "3 new, 1 changed, 2 deleted, 1 conflict" — empty kinds left out */
+export function summarizePlan(plan: ISyncPlanItem[]): string {
+  const counts: Record<SyncChangeKind, number> = { new: 0, changed: 0, deleted: 0, conflict: 0 };
+  for (const item of plan) {
+    counts[item.kind]++;
+  }
+  const parts: string[] = [];
+  if (counts.new) { parts.push(`${counts.new} new`); }
+  if (counts.changed) { parts.push(`${counts.changed} changed`); }
+  if (counts.deleted) { parts.push(`${counts.deleted} deleted`); }
+  if (counts.conflict) { parts.push(`${counts.conflict} conflict${counts.conflict > 1 ? 's' : ''}`); }
+  return parts.join(', ') || 'no changes';
+}
@@ -0,0 +1,185 @@
+import * as crypto from 'crypto';
+import {
+  parseKnownHosts,
+  knownHostsName,
+  hashKnownHostName,
+  knownHostMatches,
+  hostKeyType,
+  fingerprintSHA256,
+  formatKnownHostLine,
+  checkKnownHost,
+  checkHostCertificate,
+  certificateAuthorities,
+} from './knownHosts';
+import { parseSshCertificate } from './sshCertificate';
+
+/** SSH wire-format key blob: string type + some opaque bytes. */
+function keyBlob(type: string, seed: string): Buffer {
+  const t = Buffer.from(type);
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(t.length);
+  return Buffer.concat([len, t, Buffer.from(seed)]);
+}
+
+const ED = keyBlob('ssh-ed25519', 'one');
+const ED2 = keyBlob('ssh-ed25519', 'two');
+const RSA = keyBlob('ssh-rsa', 'rsa');
+const b64 = (b: Buffer) => b.toString('base64');
+
+// ssh-keygen -s ca -h -I web-host -n host.example,127.0.0.1 host.pub
+const HOST_CERT = parseSshCertificate(
+  'ssh-ed25519-cert-v01@openssh.com AAAAIHNzaC1lZDI1NTE5LWNlcnQtdjAxQG9wZW5zc2guY29tAAAAINkMMn+qLnw08EyAj3D3N1UXMp02qtMnFmEbfopcNNiaAAAA' +
+  'IPWucT/P+DW1lsE/snQ/fWfUxPWZLd5+PC1YeenWVXkoAAAAAAAAAAAAAAACAAAACHdlYi1ob3N0AAAAHQAAAAxob3N0LmV4YW1w' +
+  'bGUAAAAJMTI3LjAuMC4xAAAAAAAAAAD//////////wAAAAAAAAAAAAAAAAAAADMAAAALc3NoLWVkMjU1MTkAAAAg4RZnPcBXWAp7' +
+  'majVO1vxe0boWzT/GRrjRpngG+jKUD8AAABTAAAAC3NzaC1lZDI1NTE5AAAAQMRx3hGldXYggfMLc+hu1oKMowd7jV285JtwwW/V' +
+  'r2/cOHYxteOA7NElJVymfplzksdJvA/DZtvDovfgFquewQA='
+);
+// Same key and CA, -V 20260101:20260201 (TZ=UTC)
+const WINDOW_CERT = parseSshCertificate(
+  'ssh-ed25519-cert-v01@openssh.com AAAAIHNzaC1lZDI1NTE5LWNlcnQtdjAxQG9wZW5zc2guY29tAAAAILoOp2P8JTxuM7FoB8uoTnkYU1UGrQ035NHeys8EJz4AAAAA' +
+  'IPWucT/P+DW1lsE/snQ/fWfUxPWZLd5+PC1YeenWVXkoAAAAAAAAAAAAAAACAAAACHdlYi0yMDI2AAAAEAAAAAxob3N0LmV4YW1w' +
+  'bGUAAAAAaVW5AAAAAABpfpeAAAAAAAAAAAAAAAAAAAAAMwAAAAtzc2gtZWQyNTUxOQAAACDhFmc9wFdYCnuZqNU7W/F7RuhbNP8Z' +
+  'GuNGmeAb6MpQPwAAAFMAAAALc3NoLWVkMjU1MTkAAABACD0kB/vEDG91M84c34tpO1zqJ6C3YSUDsRc9opRpaLiD4eMAt4orD+00' +
+  '9/wgrvxhjmFvP1vzZc7u5znAafTSCQ=='
+);
+const CA = 'AAAAC3NzaC1lZDI1NTE5AAAAIOEWZz3AV1gKe5mo1Ttb8XtG6Fs0/xka40aZ4BvoylA/';
+
+describe('knownHosts', () => {
+  describe('parseKnownHosts', () => {
+    it('parses plain, marked and commented lines, skipping comments and junk', () => {
+      const entries = parseKnownHosts(
+        [
+          '# comment',
+          '',
+          `web,10.0.0.1 ssh-ed25519 ${b64(ED)} me@laptop`,
+          `@cert-authority *.corp ssh-rsa ${b64(RSA)}`,
+          `@revoked old ssh-ed25519 ${b64(ED2)}`,
+          `@bogus host ssh-rsa ${b64(RSA)}`,
+          'truncated ssh-rsa',
+        ].join('\r\n'),
+        '/kh'
+      );
+      expect(entries).toHaveLength(3);
+      expect(entries[0]).toMatchObject({ file: '/kh', line: 3, hosts: 'web,10.0.0.1', keyType: 'ssh-ed25519', comment: 'me@laptop', hashed: false });
+      expect(entries[1]).toMatchObject({ marker: 'cert-authority', hosts: '*.corp', line: 4 });
+      expect(entries[2]).toMatchObject({ marker: 'revoked', hosts: 'old' });
+    });
+  });
+
+  describe('host matching', () => {
+    it('names non-default ports [host]:port', () => {
+      expect(knownHostsName('web', 22)).toBe('web');
+      expect(knownHostsName('web', 2222)).toBe('[web]:2222');
+    });
+
+    it('matches pattern lists and bracketed ports', () => {
+      const [entry] = parseKnownHosts(`*.prod,!db.prod,[web]:2222 ssh-ed25519 ${b64(ED)}`, '/kh');
+      expect(knownHostMatches(entry, 'api.prod')).toBe(true);
+      expect(knownHostMatches(entry, 'db.prod')).toBe(false);
+      expect(knownHostMatches(entry, '[web]:2222')).toBe(true);
+      expect(knownHostMatches(entry, 'web')).toBe(false);
+    });
+
+    it('matches hashed names (HMAC-SHA1 with the stored salt)', () => {
+      const salt = crypto.randomBytes(20);
+      const hashed = hashKnownHostName('[web]:2222', salt);
+      expect(hashed).toMatch(/^\|1\|[^|]+\|[^|]+$/);
+      const [entry] = parseKnownHosts(`${hashed} ssh-ed25519 ${b64(ED)}`, '/kh');
+      expect(entry.hashed).toBe(true);
+      expect(knownHostMatches(entry, '[web]:2222')).toBe(true);
+      expect(knownHostMatches(entry, 'web')).toBe(false);
+    });
+  });
+
+  describe('keys', () => {
+    it('reads the key type from the blob and fingerprints like ssh-keygen -l', () => {
+      expect(hostKeyType(ED)).toBe('ssh-ed25519');
+      const expected = 'SHA256:' + crypto.createHash('sha256').update(ED).digest('base64').replace(/=+$/, '');
+      expect(fingerprintSHA256(ED)).toBe(expected);
+      expect(fingerprintSHA256(b64(ED))).toBe(expected);
+    });
+
+    it('formats plain and hashed lines that parse back to a match', () => {
+      expect(formatKnownHostLine('[web]:2222', ED, false)).toBe(`[web]:2222 ssh-ed25519 ${b64(ED)}`);
+      const [entry] = parseKnownHosts(formatKnownHostLine('[web]:2222', ED, true), '/kh');
+      expect(entry.hashed).toBe(true);
+      expect(knownHostMatches(entry, '[web]:2222')).toBe(true);
+    });
+  });
+
+  describe('checkKnownHost', () => {
+    const entries = parseKnownHosts(
+      [
+        `web ssh-ed25519 ${b64(ED)}`,
+        `web ssh-rsa ${b64(RSA)}`,
+        `@revoked * ssh-ed25519 ${b64(ED2)}`,
+        `@cert-authority * ssh-ed25519 ${b64(ED)}`,
+      ].join('\n'),
+      '/kh'
+    );
+
+    it('accepts a matching key', () => {
+      expect(checkKnownHost(entries, 'web', ED)).toMatchObject({ status: 'ok', entries: [{ line: 1 }] });
+    });
+
+    it('refuses a revoked key before anything else', () => {
+      expect(checkKnownHost(entries, 'web', ED2).status).toBe('revoked');
+    });
+
+    it('reports a changed key when the same type is pinned with another key', () => {
+      const other = keyBlob('ssh-rsa', 'other');
+      expect(checkKnownHost(entries, 'web', other)).toMatchObject({ status: 'changed', entries: [{ line: 2 }] });
+    });
+
+    it('treats a key of a new type, or an unknown host, as unknown (CA lines do not count)', () => {
+      const ecdsa = keyBlob('ecdsa-sha2-nistp256', 'x');
+      expect(checkKnownHost(entries, 'web', ecdsa)).toMatchObject({ status: 'unknown' });
+      expect(checkKnownHost(entries, 'web', ecdsa).entries).toHaveLength(2);
+      expect(checkKnownHost(entries, 'other', ED)).toEqual({ status: 'unknown', entries: [] });
+    });
+  });
+
+  describe('checkHostCertificate', () => {
+    const entries = parseKnownHosts(
+      [
+        `web ssh-ed25519 ${b64(ED)}`,
+        `@cert-authority *.example,[host.example]:2222 ssh-ed25519 ${CA}`,
+        `@cert-authority * ssh-ed25519 ${b64(ED2)}`,
+      ].join('\n'),
+      '/kh'
+    );
+    const JAN_15 = Date.UTC(2026, 0, 15);
+
+    it('accepts a certificate signed by a CA trusted for the host', () => {
+      expect(checkHostCertificate(entries, 'host.example', 'host.example', HOST_CERT)).toMatchObject({ status: 'ok', entry: { line: 2 } });
+      expect(checkHostCertificate(entries, '[host.example]:2222', 'host.example', HOST_CERT).status).toBe('ok');
+      expect(checkHostCertificate(entries, 'host.example', 'host.example', WINDOW_CERT, JAN_15).status).toBe('ok');
+    });
+
+    it('reports no CA when the signing CA is not trusted for this host name', () => {
+      expect(checkHostCertificate(entries, '127.0.0.1', '127.0.0.1', HOST_CERT)).toEqual({ status: 'no-ca' });
+      expect(certificateAuthorities(entries, '127.0.0.1').map((e) => e.line)).toEqual([3]);
+    });
+
+    it('refuses a certificate whose CA or key is revoked', () => {
+      for (const key of [CA, b64(HOST_CERT.publicKey)]) {
+        const revoked = parseKnownHosts(`@revoked * ssh-ed25519 ${key}`, '/revoked');
+        expect(checkHostCertificate([...entries, ...revoked], 'host.example', 'host.example', HOST_CERT)).toMatchObject({
+          status: 'revoked',
+          entry: { file: '/revoked' },
+        });
+      }
+    });
+
+    it('explains why a certificate from a trusted CA is not valid', () => {
+      const check = (hostname: string, cert = HOST_CERT, now?: number) =>
+        checkHostCertificate(entries, 'db.example', hostname, cert, now).reason;
+      expect(check('db.example')).toBe('not issued for db.example (principals: host.example, 127.0.0.1)');
+      expect(check('host.example', { ...HOST_CERT, certType: 'user' })).toBe('not a host certificate');
+      expect(check('host.example', { ...HOST_CERT, signedData: Buffer.concat([HOST_CERT.signedData, Buffer.from('x')]) })).toBe('bad CA signature');
+      expect(check('host.example', WINDOW_CERT, Date.UTC(2026, 2, 1))).toBe('expired 2026-02-01T00:00:00.000Z');
+      expect(check('host.example', WINDOW_CERT, Date.UTC(2025, 11, 1))).toBe('not valid before 2026-01-01T00:00:00.000Z');
+      expect(check('host.example', { ...HOST_CERT, principals: [] })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import * as crypto from 'crypto';
+import { matchSSHPatternList } from './sshConfig';
+import { SshCertificate, certificateValidity, verifyCertificateSignature } from './sshCertificate';
+
+/**
+ * OpenSSH `known_hosts` format (`man sshd` → SSH_KNOWN_HOSTS FILE FORMAT).
+ *
+ *   [@cert-authority|@revoked] hostpatterns keytype base64-key [comment]
+ *
+ * Host patterns are a comma-separated pattern list (`*`, `?`, `!`), with
+ * non-default ports written as `[host]:port`, or a single hashed name
+ * `|1|base64(salt)|base64(HMAC-SHA1(salt, name))` (HashKnownHosts).
+ */
+
+export type KnownHostMarker = 'cert-authority' | 'revoked';
+
+export interface KnownHostEntry {
+  /** File the entry was read from */
+  file: string;
+  /** 1-based line number */
+  line: number;
+  /** The line exactly as it appears in the file (used to find it again before editing) */
+  raw: string;
+  marker?: KnownHostMarker;
+  /** Host field as written: a pattern list, or a `|1|…` hashed name */
+  hosts: string;
+  hashed: boolean;
+  keyType: string;
+  /** Base64 key blob, as written */
+  key: string;
+  comment?: string;
+}
+
+/** Parse known_hosts content. Comments, blank and malformed lines are skipped. */
+export function parseKnownHosts(content: string, file: string): KnownHostEntry[] {
+  const entries: KnownHostEntry[] = [];
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i];
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      continue;
+    }
+    const fields = trimmed.split(/\s+/);
+    let marker: KnownHostMarker | undefined;
+    if (fields[0].startsWith('@')) {
+      const m = fields.shift()!.slice(1).toLowerCase();
+      if (m !== 'cert-authority' && m !== 'revoked') {
+        continue; // unknown marker — OpenSSH ignores the line too
+      }
+      marker = m;
+    }
+    if (fields.length < 3) {
+      continue;
+    }
+    const [hosts, keyType, key, ...comment] = fields;
+    entries.push({
+      file,
+      line: i + 1,
+      raw,
+      marker,
+      hosts,
+      hashed: hosts.startsWith('|1|'),
+      keyType,
+      key,
+      comment: comment.length > 0 ? comment.join(' ') : undefined,
+    });
+  }
+  return entries;
+}
+
+/** Name a host is looked up under: `host` on port 22, `[host]:port` otherwise. */
+export function knownHostsName(host: string, port: number): string {
+  return port === 22 ? host : `[${host}]:${port}`;
+}
+
+/** Hash a host name the way `HashKnownHosts yes` does. A random salt is used unless one is given. */
+export function hashKnownHostName(name: string, salt: Buffer = crypto.randomBytes(20)): string {
+  const hash = crypto.createHmac('sha1', salt).update(name).digest('base64');
+  return `|1|${salt.toString('base64')}|${hash}`;
+}
+
+/** Whether an entry's host field covers `name` (a `knownHostsName` value). */
+export function knownHostMatches(entry: KnownHostEntry, name: string): boolean {
+  if (entry.hashed) {
+    const parts = entry.hosts.split('|'); // ['', '1', salt, hash]
+    if (parts.length !== 4) {
+      return false;
+    }
+    return hashKnownHostName(name, Buffer.from(parts[2], 'base64')) === entry.hosts;
+  }
+  return matchSSHPatternList(entry.hosts.split(','), name);
+}
+
+/** Key type from an SSH wire-format public key blob (its first string field). */
+export function hostKeyType(blob: Buffer): string {
+  if (blob.length < 4) {
+    return 'unknown';
+  }
+  const len = blob.readUInt32BE(0);
+  return blob.subarray(4, 4 + len).toString('ascii');
+}
+
+/** OpenSSH-style fingerprint: `SHA256:` + unpadded base64. */
+export function fingerprintSHA256(blob: Buffer | string): string {
+  const buf = typeof blob === 'string' ? Buffer.from(blob, 'base64') : blob;
+  return 'SHA256:' + crypto.createHash('sha256').update(buf).digest('base64').replace(/=+$/, '');
+}
+
+/** A known_hosts line for a host key. */
+export function formatKnownHostLine(name: string, blob: Buffer, hash: boolean): string {
+  return `${hash ? hashKnownHostName(name) : name} ${hostKeyType(blob)} ${blob.toString('base64')}`;
+}
+
+export type KnownHostStatus = 'ok' | 'revoked' | 'changed' | 'unknown';
+
+export interface KnownHostCheck {
+  status: KnownHostStatus;
+  /** Plain entries for the host: the matching one ('ok'), or the conflicting ones ('changed'/'unknown') */
+  entries: KnownHostEntry[];
+}
+
+/**
+ * Check a presented host key against known_hosts entries, like OpenSSH:
+ * a `@revoked` key is refused outright; any plain entry for the host with the
+ * same key is accepted; an entry with the same key type but a different key
+ * means the key changed. Keys of other types only inform (status 'unknown').
+ * `@cert-authority` lines never match a plain host key; certificates are
+ * checked by checkHostCertificate().
+ */
+export function checkKnownHost(entries: KnownHostEntry[], name: string, blob: Buffer): KnownHostCheck {
+  const key = blob.toString('base64');
+  const type = hostKeyType(blob);
+
+  const revoked = entries.filter((e) => e.marker === 'revoked' && e.key === key && knownHostMatches(e, name));
+  if (revoked.length > 0) {
+    return { status: 'revoked', entries: revoked };
+  }
+
+  const forHost = entries.filter((e) => !e.marker && knownHostMatches(e, name));
+  const exact = forHost.filter((e) => e.key === key);
+  if (exact.length > 0) {
+    return { status: 'ok', entries: exact };
+  }
+  const sameType = forHost.filter((e) => e.keyType === type);
+  if (sameType.length > 0) {
+    return { status: 'changed', entries: sameType };
+  }
+  return { status: 'unknown', entries: forHost };
+}
+
+/** `@cert-authority` entries whose host field covers `name`. */
+export function certificateAuthorities(entries: KnownHostEntry[], name: string): KnownHostEntry[] {
+  return entries.filter((e) => e.marker === 'cert-authority' && knownHostMatches(e, name));
+}
+
+export type HostCertificateStatus = 'ok' | 'revoked' | 'no-ca' | 'invalid';
+
+export interface HostCertificateCheck {
+  status: HostCertificateStatus;
+  /** The `@cert-authority` line naming the signing CA ('ok' / 'invalid'), or the `@revoked` line */
+  entry?: KnownHostEntry;
+  /** Why a certificate from a trusted CA was not accepted ('invalid') */
+  reason?: string;
+}
+
+/**
+ * Check a host certificate like OpenSSH: refused if the certificate, its key
+ * or its CA is `@revoked`; 'no-ca' unless a `@cert-authority` line for the
+ * host holds the signing CA; otherwise it must be a host certificate with a
+ * valid CA signature, inside its validity window, listing `hostname` among
+ * its principals (an empty list allows any host). On 'no-ca' and 'invalid'
+ * OpenSSH goes on to check the certified key as a plain host key.
+ */
+export function checkHostCertificate(
+  entries: KnownHostEntry[],
+  name: string,
+  hostname: string,
+  cert: SshCertificate,
+  now: number = Date.now()
+): HostCertificateCheck {
+  const keys = [cert.blob, cert.publicKey, cert.caKey].map((k) => k.toString('base64'));
+  const revoked = entries.find((e) => e.marker === 'revoked' && keys.includes(e.key) && knownHostMatches(e, name));
+  if (revoked) {
+    return { status: 'revoked', entry: revoked };
+  }
+
+  const entry = certificateAuthorities(entries, name).find((e) => e.key === keys[2]);
+  if (!entry) {
+    return { status: 'no-ca' };
+  }
+  const invalid = (reason: string): HostCertificateCheck => ({ status: 'invalid', entry, reason });
+  if (cert.certType !== 'host') {
+    return invalid('not a host certificate');
+  }
+  if (!verifyCertificateSignature(cert)) {
+    return invalid('bad CA signature');
+  }
+  const validity = certificateValidity(cert, now);
+  if (validity.state === 'expired') {
+    return invalid(`expired ${cert.validBefore!.toISOString()}`);
+  }
+  if (validity.state === 'not-yet-valid') {
+    return invalid(`not valid before ${cert.validAfter!.toISOString()}`);
+  }
+  if (cert.principals.length > 0 && !cert.principals.some((p) => matchSSHPatternList([p], hostname))) {
+    return invalid(`not issued for ${hostname} (principals: ${cert.principals.join(', ')})`);
+  }
+  return { status: 'ok', entry };
+}
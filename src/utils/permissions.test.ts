@@ -0,0 +1,117 @@
+/**
+ * permissions helper tests: octal/symbolic notation, getent parsing, and the
+ * shell command used for recursive changes and the sudo fallback.
+ */
+
+import { IRemoteProperties } from '../types';
+import {
+  buildPermissionCommand,
+  describePermissionChange,
+  formatOctalMode,
+  formatSymbolicMode,
+  isEmptyPermissionChange,
+  isValidAccountName,
+  modeToApply,
+  parseAccounts,
+  parseOctalMode,
+} from './permissions';
+
+const ROOT = { name: 'root', id: 0 };
+const WWW = { name: 'www-data', id: 33 };
+
+function props(overrides: Partial<IRemoteProperties> = {}): IRemoteProperties {
+  return {
+    path: '/var/www/site',
+    isDirectory: true,
+    type: 'directory',
+    size: 4096,
+    mode: 0o755,
+    symbolic: 'drwxr-xr-x',
+    owner: ROOT,
+    group: ROOT,
+    modified: '',
+    accessed: '',
+    quotedName: "'/var/www/site'",
+    ...overrides,
+  };
+}
+
+describe('permissions', () => {
+  describe('octal and symbolic notation', () => {
+    it('formats modes as 4 octal digits', () => {
+      expect(formatOctalMode(0o644)).toBe('0644');
+      expect(formatOctalMode(0o104755)).toBe('4755'); // file type bits dropped
+    });
+
+    it('parses 3 or 4 octal digits only', () => {
+      expect(parseOctalMode('755')).toBe(0o755);
+      expect(parseOctalMode(' 2775 ')).toBe(0o2775);
+      expect(parseOctalMode('778')).toBeUndefined();
+      expect(parseOctalMode('75')).toBeUndefined();
+      expect(parseOctalMode('07555')).toBeUndefined();
+    });
+
+    it('renders special bits the way ls does', () => {
+      expect(formatSymbolicMode(0o4755, false)).toBe('-rwsr-xr-x');
+      expect(formatSymbolicMode(0o2745, true)).toBe('drwxr-Sr-x');
+      expect(formatSymbolicMode(0o1777, true)).toBe('drwxrwxrwt');
+      expect(formatSymbolicMode(0o1776, true)).toBe('drwxrwxrwT');
+    });
+  });
+
+  describe('parseAccounts', () => {
+    it('reads name and id from passwd/group lines, sorted and de-duplicated', () => {
+      const out = 'www-data:x:33:33::/var/www:/usr/sbin/nologin\nroot:x:0:0:root:/root:/bin/bash\nroot:x:0:\n\ngarbage\n';
+      expect(parseAccounts(out)).toEqual([ROOT, WWW]);
+    });
+  });
+
+  it('accepts only safe account names', () => {
+    expect(isValidAccountName('www-data')).toBe(true);
+    expect(isValidAccountName('HOST$')).toBe(true);
+    expect(isValidAccountName("root'; rm -rf /")).toBe(false);
+    expect(isValidAccountName('-rf')).toBe(false);
+  });
+
+  describe('modeToApply', () => {
+    it('re-applies setuid/setgid after an owner change', () => {
+      expect(modeToApply(props({ mode: 0o2775 }), { group: WWW })).toBe(0o2775);
+      expect(modeToApply(props({ mode: 0o755 }), { group: WWW })).toBeUndefined();
+      expect(modeToApply(props(), { mode: 0o700, owner: WWW })).toBe(0o700);
+    });
+  });
+
+  describe('buildPermissionCommand', () => {
+    it('chowns before chmod for a single path', () => {
+      expect(buildPermissionCommand(props(), { mode: 0o750, owner: WWW, group: WWW })).toBe(
+        "chown -- 'www-data:www-data' '/var/www/site' && chmod 0750 -- '/var/www/site'"
+      );
+    });
+
+    it('sets folder and file modes separately when recursive', () => {
+      expect(buildPermissionCommand(props(), { mode: 0o755, fileMode: 0o644, group: WWW, recursive: true })).toBe(
+        "chown -R -- ':www-data' '/var/www/site'" +
+          " && find '/var/www/site' -type d -exec chmod 0755 {} +" +
+          " && find '/var/www/site' -type f -exec chmod 0644 {} +"
+      );
+    });
+
+    it('ignores recursive for files and quotes awkward paths', () => {
+      expect(buildPermissionCommand(props({ path: "/tmp/it's", isDirectory: false }), { mode: 0o600, recursive: true })).toBe(
+        "chmod 0600 -- '/tmp/it'\\''s'"
+      );
+    });
+  });
+
+  it('describes the change for the audit log', () => {
+    expect(describePermissionChange(props(), { mode: 0o750, owner: WWW, recursive: true, fileMode: 0o640 })).toBe(
+      'mode 0755 → 0750; owner root → www-data; recursive (folders 0750, files 0640)'
+    );
+  });
+
+  it('detects an empty change', () => {
+    expect(isEmptyPermissionChange({})).toBe(true);
+    expect(isEmptyPermissionChange({ recursive: true })).toBe(true);
+    expect(isEmptyPermissionChange({ group: WWW })).toBe(false);
+  });
+});
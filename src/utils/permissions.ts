@@ -0,0 +1,127 @@
+import { IPermissionChange, IRemoteAccount, IRemoteProperties } from '../types';
+
+/**
+ * Unix mode and ownership helpers for the Properties panel: octal and
+ * `ls -l` notation, `getent` parsing, and the shell commands used when a
+ * change has to go through a shell (recursive changes and the sudo fallback).
+ */
+
+/** setuid, setgid and sticky — cleared by the kernel when a file changes owner */
+const SPECIAL_BITS = 0o7000;
+
+/** "0755", "4755" */
+export function formatOctalMode(mode: number): string {
+  return (mode & 0o7777).toString(8).padStart(4, '0');
+}
+
+/** Accepts 3 or 4 octal digits ("644", "2775"); anything else is undefined */
+export function parseOctalMode(text: string): number | undefined {
+  const trimmed = text.trim();
+  return /^[0-7]{3,4}$/.test(trimmed) ? parseInt(trimmed, 8) : undefined;
+}
+
+/** `ls -l` notation: "drwxr-sr-x", "-rwsr-xr-x", "drwxrwxrwt" */
+export function formatSymbolicMode(mode: number, isDirectory: boolean): string {
+  const triplet = (shift: number, special: number, specialChar: string): string => {
+    const bits = (mode >> shift) & 7;
+    const x = bits & 1;
+    const exec = mode & special ? (x ? specialChar : specialChar.toUpperCase()) : (x ? 'x' : '-');
+    return `${bits & 4 ? 'r' : '-'}${bits & 2 ? 'w' : '-'}${exec}`;
+  };
+  return (isDirectory ? 'd' : '-') + triplet(6, 0o4000, 's') + triplet(3, 0o2000, 's') + triplet(0, 0o1000, 't');
+}
+
+/**
+ * Parse `getent passwd` / `getent group` (or /etc/passwd, /etc/group)
+ * output: `name:x:id:...` per line. Sorted by name, first entry per name wins.
+ */
+export function parseAccounts(output: string): IRemoteAccount[] {
+  const byName = new Map<string, IRemoteAccount>();
+  for (const line of output.split('\n')) {
+    const [name, , idStr] = line.trim().split(':');
+    const id = Number(idStr);
+    if (name && idStr !== undefined && /^\d+$/.test(idStr) && !byName.has(name)) {
+      byName.set(name, { name, id });
+    }
+  }
+  return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Names are spliced into shell commands (single-quoted, but still): allow only
+ * what useradd/groupadd allow, plus the trailing `$` of Samba machine accounts.
+ */
+export function isValidAccountName(name: string): boolean {
+  return /^[A-Za-z0-9_.][A-Za-z0-9_.-]*\$?$/.test(name);
+}
+
+/**
+ * The mode to set after any owner change: the new mode, or the current one
+ * again when the owner changes and special bits would otherwise be lost.
+ */
+export function modeToApply(props: IRemoteProperties, change: IPermissionChange): number | undefined {
+  if (change.mode !== undefined) {
+    return change.mode;
+  }
+  const chowned = !!(change.owner || change.group);
+  return chowned && props.mode & SPECIAL_BITS ? props.mode : undefined;
+}
+
+function quote(s: string): string {
+  return `'${s.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * The change as one shell command: chown first (it clears setuid/setgid),
+ * then chmod. Recursive changes set folders and files separately with find.
+ */
+export function buildPermissionCommand(props: IRemoteProperties, change: IPermissionChange): string {
+  const target = quote(props.path);
+  const commands: string[] = [];
+  const recursive = !!change.recursive && props.isDirectory;
+
+  if (change.owner || change.group) {
+    const spec = `${change.owner?.name ?? ''}${change.group ? `:${change.group.name}` : ''}`;
+    commands.push(`chown ${recursive ? '-R ' : ''}-- ${quote(spec)} ${target}`);
+  }
+
+  const mode = modeToApply(props, change);
+  if (recursive) {
+    if (mode !== undefined) {
+      commands.push(`find ${target} -type d -exec chmod ${formatOctalMode(mode)} {} +`);
+    }
+    if (change.fileMode !== undefined) {
+      commands.push(`find ${target} -type f -exec chmod ${formatOctalMode(change.fileMode)} {} +`);
+    }
+  } else if (mode !== undefined) {
+    commands.push(`chmod ${formatOctalMode(mode)} -- ${target}`);
+  }
+  return commands.join(' && ');
+}
+
+/** One-line summary for the audit log: "mode 0644 → 0755; owner root → www-data" */
+export function describePermissionChange(props: IRemoteProperties, change: IPermissionChange): string {
+  const parts: string[] = [];
+  if (change.mode !== undefined) {
+    parts.push(`mode ${formatOctalMode(props.mode)} → ${formatOctalMode(change.mode)}`);
+  }
+  if (change.owner) {
+    parts.push(`owner ${props.owner.name} → ${change.owner.name}`);
+  }
+  if (change.group) {
+    parts.push(`group ${props.group.name} → ${change.group.name}`);
+  }
+  if (change.recursive && props.isDirectory) {
+    const modes = [
+      change.mode !== undefined ? `folders ${formatOctalMode(change.mode)}` : '',
+      change.fileMode !== undefined ? `files ${formatOctalMode(change.fileMode)}` : '',
+    ].filter(Boolean);
+    parts.push(`recursive${modes.length ? ` (${modes.join(', ')})` : ''}`);
+  }
+  return parts.join('; ');
+}
+
+/** True when the change would do nothing */
+export function isEmptyPermissionChange(change: IPermissionChange): boolean {
+  return change.mode === undefined && !change.owner && !change.group && change.fileMode === undefined;
+}
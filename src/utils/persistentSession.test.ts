@@ -0,0 +1,76 @@
+import {
+  newSessionName,
+  sessionCreatedAt,
+  chooseBackend,
+  buildAttachCommand,
+  parseSessionList,
+} from './persistentSession';
+
+describe('persistentSession', () => {
+  describe('session names', () => {
+    it('carries the creation time and terminal number', () => {
+      const name = newSessionName(2, 1_760_000_000_000);
+      expect(name).toMatch(/^sshlite-[0-9a-z]+-2$/);
+      expect(sessionCreatedAt(name)).toBe(1_760_000_000_000);
+    });
+    it('has no creation time for names that are not ours', () => {
+      expect(sessionCreatedAt('work')).toBeUndefined();
+    });
+  });
+
+  describe('chooseBackend', () => {
+    it('prefers tmux, then screen, then nohup', () => {
+      expect(chooseBackend('tmux\nscreen\nnohup\n')).toBe('tmux');
+      expect(chooseBackend('screen\nnohup\n')).toBe('screen');
+      expect(chooseBackend('nohup\n')).toBe('nohup');
+      expect(chooseBackend('')).toBe('nohup');
+    });
+    it('honours a preference the host can meet, else falls back to auto', () => {
+      expect(chooseBackend('tmux\nscreen\nnohup\n', 'screen')).toBe('screen');
+      expect(chooseBackend('tmux\nnohup\n', 'screen')).toBe('tmux');
+      expect(chooseBackend('tmux\nnohup\n', 'nohup')).toBe('nohup');
+    });
+  });
+
+  describe('buildAttachCommand', () => {
+    it('attaches to a tmux session, detaching stale clients, or creates it', () => {
+      expect(buildAttachCommand({ backend: 'tmux', name: 'sshlite-a-1' }))
+        .toBe("tmux attach-session -d -t 'sshlite-a-1' 2>/dev/null || tmux new-session -s 'sshlite-a-1'");
+    });
+    it('reattaches or creates a screen session', () => {
+      expect(buildAttachCommand({ backend: 'screen', name: 'sshlite-a-1' })).toBe("screen -D -R -S 'sshlite-a-1'");
+    });
+    it('runs the nohup fallback with sh, whatever the login shell', () => {
+      const cmd = buildAttachCommand({ backend: 'nohup', name: 'sshlite-a-1' });
+      expect(cmd.startsWith("sh -c '")).toBe(true);
+      expect(cmd).toContain('.ssh-lite-sessions/');
+      expect(cmd).toContain('mkfifo');
+      expect(cmd).toContain('nohup sh -c');
+    });
+  });
+
+  describe('parseSessionList', () => {
+    it('reads tmux, screen and nohup sessions of ours, newest first', () => {
+      const older = newSessionName(1, 1_700_000_000_000);
+      const newer = newSessionName(1, 1_760_000_000_000);
+      const middle = newSessionName(3, 1_750_000_000_000);
+      const output = [
+        `tmux ${older} 0`,
+        'tmux work 1',
+        'screen There are screens on:',
+        `screen \t4242.${newer}\t(10/19/2026 09:12:44 AM)\t(Attached)`,
+        'screen \t4243.other\t(Detached)',
+        `nohup ${middle} 0`,
+      ].join('\n');
+
+      expect(parseSessionList(output)).toEqual([
+        { backend: 'screen', name: newer, attached: true, createdAt: 1_760_000_000_000 },
+        { backend: 'nohup', name: middle, attached: false, createdAt: 1_750_000_000_000 },
+        { backend: 'tmux', name: older, attached: false, createdAt: 1_700_000_000_000 },
+      ]);
+    });
+    it('is empty when nothing runs', () => {
+      expect(parseSessionList('')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Persistent terminal sessions: shell commands that start or reattach a named
+ * session on the server, so a terminal's shell (and whatever runs in it)
+ * outlives the SSH connection. tmux and screen are used when installed;
+ * otherwise a shell is kept alive with nohup, reading a FIFO and writing a
+ * log file under ~/.ssh-lite-sessions/<name>/.
+ */
+
+export type SessionBackend = 'tmux' | 'screen' | 'nohup';
+
+/** A session a terminal runs in */
+export interface PersistentSession {
+  backend: SessionBackend;
+  name: string;
+}
+
+/** A session found on the server */
+export interface RemoteSession extends PersistentSession {
+  /** Some client (here or elsewhere) is attached right now; unknown for nohup sessions */
+  attached: boolean;
+  /** From the name, when it is one of ours */
+  createdAt?: number;
+}
+
+/** Every session this extension starts is named `sshlite-<created, base 36>-<terminal number>` */
+export const SESSION_PREFIX = 'sshlite-';
+
+/** Preference order when the setting is `auto` */
+const BACKEND_ORDER: SessionBackend[] = ['tmux', 'screen', 'nohup'];
+
+function quote(s: string): string {
+  return `'${s.replace(/'/g, "'\\''")}'`;
+}
+
+/** Run `script` with sh whatever the login shell is (fish, csh, …) */
+function inSh(script: string): string {
+  return `sh -c ${quote(script)}`;
+}
+
+function nohupDir(name: string): string {
+  return `"$HOME"/.ssh-lite-sessions/${quote(name)}`;
+}
+
+export function newSessionName(terminalNumber: number, now = Date.now()): string {
+  return `${SESSION_PREFIX}${now.toString(36)}-${terminalNumber}`;
+}
+
+/** When a session of ours was created, from its name */
+export function sessionCreatedAt(name: string): number | undefined {
+  const match = /^sshlite-([0-9a-z]+)-\d+$/.exec(name);
+  if (!match) {
+    return undefined;
+  }
+  const ms = parseInt(match[1], 36);
+  return Number.isFinite(ms) ? ms : undefined;
+}
+
+/** Prints one installed backend per line; nohup is always there */
+export function buildDetectCommand(): string {
+  return inSh('for t in tmux screen; do command -v "$t" >/dev/null 2>&1 && echo "$t"; done; echo nohup');
+}
+
+/** The preferred backend among those the server has */
+export function chooseBackend(detectOutput: string, preference: SessionBackend | 'auto' = 'auto'): SessionBackend {
+  const available = new Set(detectOutput.split('\n').map((l) => l.trim()).filter(Boolean));
+  available.add('nohup');
+  if (preference !== 'auto' && available.has(preference)) {
+    return preference;
+  }
+  return BACKEND_ORDER.find((b) => available.has(b)) ?? 'nohup';
+}
+
+/**
+ * The command a terminal's channel runs: attach to the session, creating it
+ * first when it does not exist (yet, or any more). Other clients still
+ * attached, e.g. from before the connection dropped, are detached.
+ *
+ * The nohup fallback has no terminal of its own: output is replayed from the
+ * log and input goes to the FIFO, so line editing is local and full-screen
+ * programs do not work. Ctrl+D detaches; `exit` ends the session.
+ */
+export function buildAttachCommand(session: PersistentSession): string {
+  const name = quote(session.name);
+  switch (session.backend) {
+    case 'tmux':
+      return `tmux attach-session -d -t ${name} 2>/dev/null || tmux new-session -s ${name}`;
+    case 'screen':
+      return `screen -D -R -S ${name}`;
+    case 'nohup':
+      return inSh([
+        `d=${nohupDir(session.name)}`,
+        'mkdir -p "$d" && { [ -p "$d/in" ] || mkfifo "$d/in"; } || exit 1',
+        'if ! kill -0 "$(cat "$d/pid" 2>/dev/null)" 2>/dev/null; then',
+        // fd 3 holds the FIFO open for writing too, so the shell never reads
+        // EOF between attaches
+        '  nohup sh -c \'exec 3<>"$1/in"; "${SHELL:-/bin/sh}" -i <&3 >>"$1/log" 2>&1; rm -rf "$1"\' sh "$d" >/dev/null 2>&1 &',
+        '  echo $! > "$d/pid"',
+        'fi',
+        'touch "$d/log"',
+        'tail -n 200 -f "$d/log" & t=$!',
+        'p=$(cat "$d/pid")',
+        // Detach when the session's shell exits
+        '( while kill -0 "$p" 2>/dev/null; do sleep 2; done; kill $$ ) 2>/dev/null &',
+        'trap \'kill $t 2>/dev/null\' EXIT HUP INT TERM',
+        'cat > "$d/in"',
+      ].join('\n'));
+  }
+}
+
+/** Lists our sessions of every backend; see parseSessionList */
+export function buildListCommand(): string {
+  return inSh([
+    "tmux list-sessions -F 'tmux #{session_name} #{session_attached}' 2>/dev/null",
+    "screen -ls 2>/dev/null | awk '{ print \"screen \" $0 }'",
+    'for d in "$HOME"/.ssh-lite-sessions/sshlite-*; do',
+    '  [ -d "$d" ] && kill -0 "$(cat "$d/pid" 2>/dev/null)" 2>/dev/null && echo "nohup ${d##*/} 0"',
+    'done',
+    'true',
+  ].join('\n'));
+}
+
+/** Sessions of ours in buildListCommand output, newest first */
+export function parseSessionList(output: string): RemoteSession[] {
+  const sessions: RemoteSession[] = [];
+  for (const raw of output.split('\n')) {
+    const line = raw.trim();
+    let session: RemoteSession | undefined;
+    // screen -ls: "12345.sshlite-abc-1	(10/19/2026 09:12:44 AM)	(Detached)"
+    const screen = /^screen\s+\d+\.(\S+)\s.*\((Attached|Detached|Multi[^)]*)\)/.exec(line);
+    if (screen) {
+      session = { backend: 'screen', name: screen[1], attached: screen[2] !== 'Detached' };
+    } else {
+      const [backend, name, attached] = line.split(/\s+/);
+      if ((backend === 'tmux' || backend === 'nohup') && name) {
+        session = { backend, name, attached: Number(attached) > 0 };
+      }
+    }
+    if (session && session.name.startsWith(SESSION_PREFIX)) {
+      sessions.push({ ...session, createdAt: sessionCreatedAt(session.name) });
+    }
+  }
+  return sessions.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+}
@@ -0,0 +1,74 @@
+import { parseJumpHop, parseProxyJump, formatProxyJump, describeJumpChain, jumpHostId } from './proxyJump';
+
+describe('proxyJump', () => {
+  describe('parseJumpHop', () => {
+    it('parses user@host', () => {
+      expect(parseJumpHop('ops@bastion.corp', 'me')).toEqual({ host: 'bastion.corp', port: 22, username: 'ops' });
+    });
+    it('parses user@host:port', () => {
+      expect(parseJumpHop('ops@10.0.0.1:2222', 'me')).toEqual({ host: '10.0.0.1', port: 2222, username: 'ops' });
+    });
+    it('defaults the username when omitted', () => {
+      expect(parseJumpHop('bastion', 'me')).toEqual({ host: 'bastion', port: 22, username: 'me' });
+    });
+    it('accepts the ssh:// URI form', () => {
+      expect(parseJumpHop('ssh://ops@bastion:2200', 'me')).toEqual({ host: 'bastion', port: 2200, username: 'ops' });
+    });
+    it('parses bracketed IPv6 literals', () => {
+      expect(parseJumpHop('ops@[fe80::1]:2222', 'me')).toEqual({ host: 'fe80::1', port: 2222, username: 'ops' });
+      expect(parseJumpHop('[::1]', 'me')).toEqual({ host: '::1', port: 22, username: 'me' });
+    });
+    it('rejects malformed hops', () => {
+      expect(parseJumpHop('', 'me')).toBeUndefined();
+      expect(parseJumpHop('ops@host:abc', 'me')).toBeUndefined();
+      expect(parseJumpHop('ops@host:70000', 'me')).toBeUndefined();
+      expect(parseJumpHop('fe80::1', 'me')).toBeUndefined();
+    });
+    it('lets an alias supply HostName/Port/User/key, with explicit parts winning', () => {
+      const resolve = (alias: string) =>
+        alias === 'jump' ? { host: 'jump.internal', port: 2022, username: 'jumper', privateKeyPath: '/k/jump' } : undefined;
+      expect(parseJumpHop('jump', 'me', resolve)).toEqual({
+        host: 'jump.internal',
+        port: 2022,
+        username: 'jumper',
+        privateKeyPath: '/k/jump',
+      });
+      expect(parseJumpHop('admin@jump:22', 'me', resolve)).toMatchObject({ host: 'jump.internal', port: 22, username: 'admin' });
+      expect(parseJumpHop('other', 'me', resolve)).toEqual({ host: 'other', port: 22, username: 'me' });
+    });
+  });
+
+  describe('parseProxyJump', () => {
+    it('splits a comma-separated chain in order', () => {
+      expect(parseProxyJump('a@one, b@two:2222', 'me')).toEqual([
+        { host: 'one', port: 22, username: 'a' },
+        { host: 'two', port: 2222, username: 'b' },
+      ]);
+    });
+    it('treats "none" and empty values as a direct connection', () => {
+      expect(parseProxyJump('none', 'me')).toEqual([]);
+      expect(parseProxyJump('NONE', 'me')).toEqual([]);
+      expect(parseProxyJump('  ', 'me')).toEqual([]);
+    });
+    it('skips malformed hops', () => {
+      expect(parseProxyJump('a@one,,b@two:bad', 'me')).toEqual([{ host: 'one', port: 22, username: 'a' }]);
+    });
+  });
+
+  describe('formatting', () => {
+    const chain = [
+      { host: 'one', port: 22, username: 'a' },
+      { host: '::1', port: 2222, username: 'b' },
+    ];
+    it('formatProxyJump round-trips through parseProxyJump', () => {
+      expect(formatProxyJump(chain)).toBe('a@one,b@[::1]:2222');
+      expect(parseProxyJump(formatProxyJump(chain), 'me')).toEqual(chain);
+    });
+    it('describeJumpChain omits usernames and the default port', () => {
+      expect(describeJumpChain(chain)).toBe('one → ::1:2222');
+    });
+    it('jumpHostId keys a hop like a direct connection', () => {
+      expect(jumpHostId(chain[0])).toBe('one:22:a');
+    });
+  });
+});
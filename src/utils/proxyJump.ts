@@ -0,0 +1,114 @@
+import type { IJumpHost } from '../types';
+import { buildHostId } from './hostId';
+
+/**
+ * Resolves a bare hop name (an ssh-config `Host` alias such as `bastion`) to
+ * its effective HostName/Port/User/IdentityFile. Returns undefined when the
+ * name is not an alias, in which case it is treated as a literal hostname.
+ */
+export type JumpAliasResolver = (alias: string) => Partial<IJumpHost> | undefined;
+
+/**
+ * Parse one ProxyJump hop: `[ssh://][user@]host[:port]`. IPv6 literals must be
+ * bracketed (`[::1]:2222`), matching OpenSSH. Returns undefined for an empty or
+ * malformed hop so callers can skip it instead of dialling garbage.
+ */
+export function parseJumpHop(
+  spec: string,
+  defaultUser: string,
+  resolveAlias?: JumpAliasResolver
+): IJumpHost | undefined {
+  let rest = spec.trim().replace(/^ssh:\/\//, '');
+  if (!rest) {
+    return undefined;
+  }
+
+  let user: string | undefined;
+  const at = rest.lastIndexOf('@');
+  if (at !== -1) {
+    user = rest.slice(0, at) || undefined;
+    rest = rest.slice(at + 1);
+  }
+
+  let host: string;
+  let port: number | undefined;
+  const bracketed = rest.match(/^\[([^\]]+)\](?::(\d+))?$/);
+  if (bracketed) {
+    host = bracketed[1];
+    port = bracketed[2] ? parseInt(bracketed[2], 10) : undefined;
+  } else {
+    const parts = rest.split(':');
+    if (parts.length > 2) {
+      return undefined; // unbracketed IPv6 — ambiguous, OpenSSH rejects it too
+    }
+    host = parts[0];
+    if (parts.length === 2) {
+      if (!/^\d+$/.test(parts[1])) {
+        return undefined;
+      }
+      port = parseInt(parts[1], 10);
+    }
+  }
+  if (!host || (port !== undefined && (port < 1 || port > 65535))) {
+    return undefined;
+  }
+
+  // An alias supplies defaults; anything spelled out in the hop itself wins.
+  const alias = resolveAlias?.(host);
+  const hop: IJumpHost = {
+    host: alias?.host || host,
+    port: port ?? alias?.port ?? 22,
+    username: user || alias?.username || defaultUser,
+  };
+  if (alias?.privateKeyPath) {
+    hop.privateKeyPath = alias.privateKeyPath;
+  }
+  return hop;
+}
+
+/**
+ * Parse a ProxyJump value (comma-separated hops, first hop first) into a jump
+ * chain. `none` (OpenSSH's explicit opt-out) and an empty string yield [].
+ */
+export function parseProxyJump(
+  value: string,
+  defaultUser: string,
+  resolveAlias?: JumpAliasResolver
+): IJumpHost[] {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.toLowerCase() === 'none') {
+    return [];
+  }
+  const hops: IJumpHost[] = [];
+  for (const part of trimmed.split(',')) {
+    const hop = parseJumpHop(part, defaultUser, resolveAlias);
+    if (hop) {
+      hops.push(hop);
+    }
+  }
+  return hops;
+}
+
+/** Serialize a jump chain back to ProxyJump syntax (`user@host[:port],...`), omitting port 22. */
+export function formatProxyJump(hops: IJumpHost[]): string {
+  return hops
+    .map((h) => {
+      const host = h.host.includes(':') ? `[${h.host}]` : h.host;
+      const port = h.port && h.port !== 22 ? `:${h.port}` : '';
+      return `${h.username}@${host}${port}`;
+    })
+    .join(',');
+}
+
+/**
+ * Human-readable chain for the host tree, e.g. `bastion.corp → 10.0.1.5:2222`.
+ * Usernames are left out to keep the description short; the tooltip has them.
+ */
+export function describeJumpChain(hops: IJumpHost[]): string {
+  return hops.map((h) => (h.port && h.port !== 22 ? `${h.host}:${h.port}` : h.host)).join(' → ');
+}
+
+/** Host id a hop's credentials are stored under — the same key a direct connection would use. */
+export function jumpHostId(hop: IJumpHost): string {
+  return buildHostId({ host: hop.host, port: hop.port, username: hop.username });
+}
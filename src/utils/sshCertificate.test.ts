@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  certificatePathFor,
+  certificateValidity,
+  decodeSshCertificate,
+  describeCertificate,
+  formatCertificateDuration,
+  parseSshCertificate,
+  readSshCertificate,
+  verifyCertificateSignature,
+} from './sshCertificate';
+
+// ssh-keygen -s ca -I alice-2026 -n alice,deploy -z 42 -V 20260101:20260102 id_ed25519.pub (TZ=UTC)
+const ED25519_CERT =
+  'ssh-ed25519-cert-v01@openssh.com AAAAIHNzaC1lZDI1NTE5LWNlcnQtdjAxQG9wZW5zc2guY29tAAAAIHA2NhljDI9RDYD' +
+  'ddTh4aHh/LyPO5N4EJ/Dw/czIG/ryAAAAIPj1JBFYfvSeHmT5qbXbkqKD9L1sDs7n2X3goO8ERZgnAAAAAAAAACoAAAABAAAACmF' +
+  'saWNlLTIwMjYAAAATAAAABWFsaWNlAAAABmRlcGxveQAAAABpVbkAAAAAAGlXCoAAAAAAAAAAggAAABVwZXJtaXQtWDExLWZvcnd' +
+  'hcmRpbmcAAAAAAAAAF3Blcm1pdC1hZ2VudC1mb3J3YXJkaW5nAAAAAAAAABZwZXJtaXQtcG9ydC1mb3J3YXJkaW5nAAAAAAAAAAp' +
+  'wZXJtaXQtcHR5AAAAAAAAAA5wZXJtaXQtdXNlci1yYwAAAAAAAAAAAAAAMwAAAAtzc2gtZWQyNTUxOQAAACBb26lyDXFPOyIaRrD' +
+  '1I2Evx2RfH8m9VZZBS+ex66EAowAAAFMAAAALc3NoLWVkMjU1MTkAAABAI46MfBBzRTm+44RpXnGg9OXg90R4SyRw2QrT8sUr7Qj' +
+  'hijytGbt+EuGnvkGtSJgXjZGP0hcJNMSB/ExgdAAqCA== alice@laptop';
+const ED25519_PUB = 'AAAAC3NzaC1lZDI1NTE5AAAAIPj1JBFYfvSeHmT5qbXbkqKD9L1sDs7n2X3goO8ERZgn';
+// ssh-keygen -s ca -I ec-forever id_ecdsa.pub — no principals, no validity limit
+const ECDSA_CERT =
+  'ecdsa-sha2-nistp256-cert-v01@openssh.com AAAAKGVjZHNhLXNoYTItbmlzdHAyNTYtY2VydC12MDFAb3BlbnNzaC5jb20' +
+  'AAAAgH2Y4y5XVd5onLwyY553e7yR89YDMH/YQEwbiD5PZayUAAAAIbmlzdHAyNTYAAABBBOL/7c/ubP33XSnlaTntxtlRbFyU5O3' +
+  'YEYtxsBeH0R7SgNdH8zefbDNEbVI8P0TeVlGm9ywv0dgOZjuRqTYuHtQAAAAAAAAAAAAAAAEAAAAKZWMtZm9yZXZlcgAAAAAAAAA' +
+  'AAAAAAP//////////AAAAAAAAAIIAAAAVcGVybWl0LVgxMS1mb3J3YXJkaW5nAAAAAAAAABdwZXJtaXQtYWdlbnQtZm9yd2FyZGl' +
+  'uZwAAAAAAAAAWcGVybWl0LXBvcnQtZm9yd2FyZGluZwAAAAAAAAAKcGVybWl0LXB0eQAAAAAAAAAOcGVybWl0LXVzZXItcmMAAAA' +
+  'AAAAAAAAAADMAAAALc3NoLWVkMjU1MTkAAAAgW9upcg1xTzsiGkaw9SNhL8dkXx/JvVWWQUvnseuhAKMAAABTAAAAC3NzaC1lZDI' +
+  '1NTE5AAAAQMb0+TWFoRpqTLamQLJ4okumW+J34Gs0KwSizRhv5d7DI+L0HEHeKJqtU2N1jVretUho2LvUlQkTv6jqw05POwU= ec';
+// ssh-keygen -s ca -I rsa -n root -V 20260101:20260102 id_rsa.pub
+const RSA_CERT =
+  'ssh-rsa-cert-v01@openssh.com AAAAHHNzaC1yc2EtY2VydC12MDFAb3BlbnNzaC5jb20AAAAgzjF3wUqb+i8phOHnI4wD28j' +
+  'gHaKRX3IrF+gI5HA/aTYAAAADAQABAAAAgQDDWnnIuSWUKmDNMPxqVsuYtNCOPQ14mnymkEiRxyTxg+PdrU9rOM1TMhQq0mgKq1C' +
+  'jBZpt6REvVG/OwtfpO3cPmtl9jSTINdNpFd/kdRUecex+XJKkAFSdp8woaI7xhxkS+V5wkUV44/9n2pjE59JVEt4NA+52upOu4JL' +
+  'kVeTQYQAAAAAAAAAAAAAAAQAAAANyc2EAAAAIAAAABHJvb3QAAAAAaVW5AAAAAABpVwqAAAAAAAAAAIIAAAAVcGVybWl0LVgxMS1' +
+  'mb3J3YXJkaW5nAAAAAAAAABdwZXJtaXQtYWdlbnQtZm9yd2FyZGluZwAAAAAAAAAWcGVybWl0LXBvcnQtZm9yd2FyZGluZwAAAAA' +
+  'AAAAKcGVybWl0LXB0eQAAAAAAAAAOcGVybWl0LXVzZXItcmMAAAAAAAAAAAAAADMAAAALc3NoLWVkMjU1MTkAAAAgW9upcg1xTzs' +
+  'iGkaw9SNhL8dkXx/JvVWWQUvnseuhAKMAAABTAAAAC3NzaC1lZDI1NTE5AAAAQO+O2oYxWTaNUC+uzJtiZPZDTj06HPKkRUwOIxr' +
+  'IthRZpXUAG/KUMkBRNznK3GVSvYuY+hzYnhZAZjvZRPxDDgM= rsa';
+// ssh-keygen -s ca_ec -h -I web-host-ec -n host.example host.pub (ECDSA P-256 CA)
+const HOST_CERT_EC_CA =
+  'ssh-ed25519-cert-v01@openssh.com AAAAIHNzaC1lZDI1NTE5LWNlcnQtdjAxQG9wZW5zc2guY29tAAAAIJy9O0cVr6gH4albc/mvSM1JToqwbkfyC8iZM91lue9SAAAA' +
+  'IPWucT/P+DW1lsE/snQ/fWfUxPWZLd5+PC1YeenWVXkoAAAAAAAAAAAAAAACAAAAC3dlYi1ob3N0LWVjAAAAEAAAAAxob3N0LmV4' +
+  'YW1wbGUAAAAAAAAAAP//////////AAAAAAAAAAAAAAAAAAAAaAAAABNlY2RzYS1zaGEyLW5pc3RwMjU2AAAACG5pc3RwMjU2AAAA' +
+  'QQTsEFE2y+UZf9WG743Xt+BDzhdmyeZY7dyLPFLDNBSL3PI6aZTUoTpFZ251rpNL9ZRjDORum4A8RLpbUaNRwUsOAAAAZAAAABNl' +
+  'Y2RzYS1zaGEyLW5pc3RwMjU2AAAASQAAACEAjGxov5hM1k07WepSVbFO2LmFb5FxLLIPZXg17XXdJYYAAAAgcnAsdO/lG0I5IPFF' +
+  'BGL0C9icr/QDSljvTtquODu5WU0=';
+const EC_CA_PUB =
+  'AAAAE2VjZHNhLXNoYTItbmlzdHAyNTYAAAAIbmlzdHAyNTYAAABBBOwQUTbL5Rl/1Ybvjde34EPOF2bJ5ljt3Is8UsM0FIvc8jpp' +
+  'lNShOkVnbnWuk0v1lGMM5G6bgDxEultRo1HBSw4=';
+// ssh-keygen -s ca_rsa -t rsa-sha2-512 -h -I web-host-rsa -n host.example host.pub (RSA CA)
+const HOST_CERT_RSA_CA =
+  'ssh-ed25519-cert-v01@openssh.com AAAAIHNzaC1lZDI1NTE5LWNlcnQtdjAxQG9wZW5zc2guY29tAAAAIM2rIWn2jGoZDPrR6Dfc+VpWteJ2ZcOUD9ZL9c4ccn5fAAAA' +
+  'IPWucT/P+DW1lsE/snQ/fWfUxPWZLd5+PC1YeenWVXkoAAAAAAAAAAAAAAACAAAADHdlYi1ob3N0LXJzYQAAABAAAAAMaG9zdC5l' +
+  'eGFtcGxlAAAAAAAAAAD//////////wAAAAAAAAAAAAAAAAAAAJcAAAAHc3NoLXJzYQAAAAMBAAEAAACBANsFd63mYzhy2CoacJjd' +
+  'uBXwjSzvXIxvrnnsUHhK11VL3KNsl89eVRniIWXAZ2L4y4c182vmU57ZqT8ibzfKWds24f1HxxqmFoCd85XrZtvT+3LFw4oKvcSY' +
+  'aDpkNbVtibyUVarUcEpW1LGsYHyXGvNbLQPDAeonkw+gJQr5OP/7AAAAlAAAAAxyc2Etc2hhMi01MTIAAACAVaNPoLGlZoHpiH7A' +
+  'jBSGG5dyXCpxwLJxEn0d4JJFXs9z5mhTzJmhTfxlbU3E8o7iv3zRT2hwlhoJr4vQyuVdwyg4jZNyu/tkBuLgtqWa4spcT6z6gvC3' +
+  'K5NoQppeBJkmOclba6h1FbKN88g6rT3VaWsHLvg8HpX/PRWAMZqdFsM=';
+
+const JAN_1 = Date.UTC(2026, 0, 1);
+const HOUR = 3600_000;
+
+describe('parseSshCertificate', () => {
+  it('reads the fields shown by ssh-keygen -L', () => {
+    const cert = parseSshCertificate(ED25519_CERT);
+    expect(cert).toMatchObject({
+      type: 'ssh-ed25519-cert-v01@openssh.com',
+      keyType: 'ssh-ed25519',
+      serial: 42n,
+      certType: 'user',
+      keyId: 'alice-2026',
+      principals: ['alice', 'deploy'],
+      validAfter: new Date(JAN_1),
+      validBefore: new Date(JAN_1 + 24 * HOUR),
+      caKeyType: 'ssh-ed25519',
+      comment: 'alice@laptop',
+    });
+  });
+
+  it('extracts the certified key in plain wire format and keeps the whole blob', () => {
+    const cert = parseSshCertificate(ED25519_CERT);
+    expect(cert.publicKey).toEqual(Buffer.from(ED25519_PUB, 'base64'));
+    expect(cert.blob).toEqual(Buffer.from(ED25519_CERT.split(' ')[1], 'base64'));
+  });
+
+  it('handles ECDSA and RSA certificates and an unlimited validity', () => {
+    const ec = parseSshCertificate(ECDSA_CERT);
+    expect(ec).toMatchObject({ keyType: 'ecdsa-sha2-nistp256', keyId: 'ec-forever', principals: [] });
+    expect(ec.validAfter).toBeUndefined();
+    expect(ec.validBefore).toBeUndefined();
+    expect(ec.publicKey.subarray(4, 23).toString()).toBe('ecdsa-sha2-nistp256');
+
+    const rsa = parseSshCertificate(RSA_CERT);
+    expect(rsa).toMatchObject({ keyType: 'ssh-rsa', principals: ['root'] });
+  });
+
+  it('rejects plain public keys and damaged certificates', () => {
+    expect(() => parseSshCertificate(`ssh-ed25519 ${ED25519_PUB}`)).toThrow(/Not an OpenSSH certificate/);
+    expect(() => parseSshCertificate('ssh-foo-cert-v01@openssh.com AAAA')).toThrow(/Unsupported/);
+    const [type, base64] = ED25519_CERT.split(' ');
+    const truncated = Buffer.from(base64, 'base64').subarray(0, 80).toString('base64');
+    expect(() => parseSshCertificate(`${type} ${truncated}`)).toThrow(/Truncated/);
+  });
+});
+
+describe('decodeSshCertificate', () => {
+  it('reads a host certificate from the blob a server presents', () => {
+    const blob = Buffer.from(HOST_CERT_EC_CA.split(' ')[1], 'base64');
+    const cert = decodeSshCertificate(blob);
+    expect(cert).toMatchObject({ certType: 'host', keyId: 'web-host-ec', principals: ['host.example'], caKeyType: 'ecdsa-sha2-nistp256' });
+    expect(cert.caKey).toEqual(Buffer.from(EC_CA_PUB, 'base64'));
+    expect(cert.blob).toBe(blob);
+  });
+
+  it('rejects a plain key blob', () => {
+    expect(() => decodeSshCertificate(Buffer.from(ED25519_PUB, 'base64'))).toThrow(/Not an OpenSSH certificate/);
+  });
+});
+
+describe('verifyCertificateSignature', () => {
+  it('accepts signatures by ed25519, ECDSA and RSA CAs', () => {
+    expect(verifyCertificateSignature(parseSshCertificate(ED25519_CERT))).toBe(true);
+    expect(verifyCertificateSignature(parseSshCertificate(RSA_CERT))).toBe(true);
+    expect(verifyCertificateSignature(parseSshCertificate(HOST_CERT_EC_CA))).toBe(true);
+    expect(verifyCertificateSignature(parseSshCertificate(HOST_CERT_RSA_CA))).toBe(true);
+  });
+
+  it('refuses a certificate changed after signing, or claiming another CA', () => {
+    const [type, base64] = HOST_CERT_EC_CA.split(' ');
+    const blob = Buffer.from(base64, 'base64');
+    const edited = Buffer.from(blob);
+    edited[blob.indexOf('host.example')] ^= 0x20; // Host.example
+    expect(verifyCertificateSignature(parseSshCertificate(`${type} ${edited.toString('base64')}`))).toBe(false);
+
+    const other = parseSshCertificate(ECDSA_CERT);
+    expect(verifyCertificateSignature({ ...parseSshCertificate(HOST_CERT_EC_CA), caKey: other.caKey })).toBe(false);
+  });
+});
+
+describe('readSshCertificate', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sshlite-cert-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads the certificate next to a key, and is undefined when there is none', () => {
+    const keyPath = path.join(dir, 'id_ed25519');
+    expect(readSshCertificate(certificatePathFor(keyPath))).toBeUndefined();
+    fs.writeFileSync(`${keyPath}-cert.pub`, ED25519_CERT + '\n');
+    expect(readSshCertificate(certificatePathFor(keyPath))?.keyId).toBe('alice-2026');
+  });
+});
+
+describe('certificateValidity', () => {
+  const cert = parseSshCertificate(ED25519_CERT);
+
+  it('covers before, during and after the validity window', () => {
+    expect(certificateValidity(cert, JAN_1 - HOUR)).toEqual({ state: 'not-yet-valid', validInMs: HOUR });
+    expect(certificateValidity(cert, JAN_1 + 20 * HOUR)).toEqual({ state: 'valid', expiresInMs: 4 * HOUR });
+    expect(certificateValidity(cert, JAN_1 + 26 * HOUR)).toEqual({ state: 'expired', expiredMsAgo: 2 * HOUR });
+  });
+
+  it('never expires a certificate without an end date', () => {
+    expect(certificateValidity(parseSshCertificate(ECDSA_CERT), JAN_1)).toEqual({ state: 'valid', expiresInMs: undefined });
+  });
+});
+
+describe('formatCertificateDuration', () => {
+  it('keeps the two largest units', () => {
+    expect(formatCertificateDuration(2 * 24 * HOUR + 3 * HOUR + 5 * 60_000)).toBe('2d 3h');
+    expect(formatCertificateDuration(7 * HOUR + 59 * 60_000)).toBe('7h 59m');
+    expect(formatCertificateDuration(3 * HOUR)).toBe('3h');
+    expect(formatCertificateDuration(45 * 60_000)).toBe('45m');
+    expect(formatCertificateDuration(30_000)).toBe('30s');
+  });
+});
+
+describe('describeCertificate', () => {
+  it('shows principals and expiry', () => {
+    const cert = parseSshCertificate(ED25519_CERT);
+    expect(describeCertificate(cert, JAN_1 + 16 * HOUR + 60_000)).toBe('alice, deploy · expires in 7h 59m');
+    expect(describeCertificate(cert, JAN_1 + 48 * HOUR)).toBe('alice, deploy · expired 1d ago');
+    expect(describeCertificate(cert, JAN_1 - 30 * 60_000)).toBe('alice, deploy · valid in 30m');
+    expect(describeCertificate(parseSshCertificate(ECDSA_CERT), JAN_1)).toBe('any principal · no expiry');
+  });
+});
@@ -0,0 +1,307 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+/**
+ * OpenSSH certificates (`id_ed25519-cert.pub`, format per OpenSSH's
+ * PROTOCOL.certkeys): a public key plus the principals it may log in as and
+ * a validity window, signed by a CA the server trusts.
+ *
+ * Only what the extension needs is decoded — enough to show the
+ * certificate, warn before it expires, check it belongs to a private key,
+ * and hand the raw blob to the server at login. The CA signature of a user
+ * certificate is the server's job; verifyCertificateSignature() is for host
+ * certificates, which the client checks.
+ */
+
+export interface SshCertificate {
+  /** Certificate algorithm, e.g. `ssh-ed25519-cert-v01@openssh.com` */
+  type: string;
+  /** Plain type of the certified key, e.g. `ssh-ed25519` */
+  keyType: string;
+  /** The whole certificate — sent as the public key blob at login */
+  blob: Buffer;
+  /** The certified key in plain SSH wire format (same bytes as the private key's public half) */
+  publicKey: Buffer;
+  serial: bigint;
+  certType: 'user' | 'host';
+  keyId: string;
+  /** Empty means any principal */
+  principals: string[];
+  /** undefined = valid since forever */
+  validAfter: Date | undefined;
+  /** undefined = never expires */
+  validBefore: Date | undefined;
+  /** Key type of the signing CA */
+  caKeyType: string;
+  /** The signing CA's public key in SSH wire format */
+  caKey: Buffer;
+  /** Everything the CA signed: the blob up to the signature */
+  signedData: Buffer;
+  /** The CA's signature (algorithm name + signature bytes) */
+  signature: Buffer;
+  comment: string;
+}
+
+export type CertificateValidity =
+  | { state: 'valid'; expiresInMs: number | undefined }
+  | { state: 'expired'; expiredMsAgo: number }
+  | { state: 'not-yet-valid'; validInMs: number };
+
+/** Number of public-key fields (string/mpint) between the nonce and the serial, per key type */
+const KEY_FIELDS: Record<string, number> = {
+  'ssh-rsa': 2,
+  'ssh-dss': 4,
+  'ecdsa-sha2-nistp256': 2,
+  'ecdsa-sha2-nistp384': 2,
+  'ecdsa-sha2-nistp521': 2,
+  'ssh-ed25519': 1,
+};
+
+const CERT_SUFFIX = '-cert-v01@openssh.com';
+const FOREVER = 0xffffffffffffffffn;
+
+class BlobReader {
+  private pos = 0;
+
+  constructor(private readonly buf: Buffer) {}
+
+  get offset(): number {
+    return this.pos;
+  }
+
+  uint32(): number {
+    this.need(4);
+    const v = this.buf.readUInt32BE(this.pos);
+    this.pos += 4;
+    return v;
+  }
+
+  uint64(): bigint {
+    this.need(8);
+    const v = this.buf.readBigUInt64BE(this.pos);
+    this.pos += 8;
+    return v;
+  }
+
+  bytes(): Buffer {
+    const len = this.uint32();
+    this.need(len);
+    const v = this.buf.subarray(this.pos, this.pos + len);
+    this.pos += len;
+    return v;
+  }
+
+  string(): string {
+    return this.bytes().toString('utf8');
+  }
+
+  private need(n: number): void {
+    if (this.pos + n > this.buf.length) {
+      throw new Error('Truncated SSH certificate');
+    }
+  }
+}
+
+function sshString(value: string | Buffer): Buffer {
+  const data = typeof value === 'string' ? Buffer.from(value) : value;
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(data.length);
+  return Buffer.concat([len, data]);
+}
+
+function toDate(seconds: bigint): Date {
+  return new Date(Number(seconds) * 1000);
+}
+
+/**
+ * Parse a certificate from its `-cert.pub` text (`<type> <base64> [comment]`).
+ * Throws for anything that is not a supported OpenSSH certificate.
+ */
+export function parseSshCertificate(text: string | Buffer): SshCertificate {
+  const [type, base64, ...comment] = text.toString().trim().split(/\s+/);
+  if (!type?.endsWith(CERT_SUFFIX) || !base64) {
+    throw new Error('Not an OpenSSH certificate (expected a *-cert.pub file)');
+  }
+  if (KEY_FIELDS[type.slice(0, -CERT_SUFFIX.length)] === undefined) {
+    throw new Error(`Unsupported certificate type: ${type}`);
+  }
+  const cert = decodeSshCertificate(Buffer.from(base64, 'base64'), comment.join(' '));
+  if (cert.type !== type) {
+    throw new Error('Malformed SSH certificate: type mismatch');
+  }
+  return cert;
+}
+
+/**
+ * Decode a certificate from its wire-format blob, as a server presents it
+ * for its host key. Throws for anything that is not a supported OpenSSH
+ * certificate.
+ */
+export function decodeSshCertificate(blob: Buffer, comment = ''): SshCertificate {
+  const r = new BlobReader(blob);
+  const type = r.string();
+  if (!type.endsWith(CERT_SUFFIX)) {
+    throw new Error(`Not an OpenSSH certificate: ${type}`);
+  }
+  const keyType = type.slice(0, -CERT_SUFFIX.length);
+  const fieldCount = KEY_FIELDS[keyType];
+  if (fieldCount === undefined) {
+    throw new Error(`Unsupported certificate type: ${type}`);
+  }
+  r.bytes(); // nonce
+  const keyStart = r.offset;
+  for (let i = 0; i < fieldCount; i++) {
+    r.bytes();
+  }
+  const publicKey = Buffer.concat([sshString(keyType), blob.subarray(keyStart, r.offset)]);
+
+  const serial = r.uint64();
+  const certType = r.uint32() === 2 ? 'host' : 'user';
+  const keyId = r.string();
+  const principalBytes = r.bytes();
+  const principalList = new BlobReader(principalBytes);
+  const principals: string[] = [];
+  while (principalList.offset < principalBytes.length) {
+    principals.push(principalList.string());
+  }
+  const validAfter = r.uint64();
+  const validBefore = r.uint64();
+  r.bytes(); // critical options
+  r.bytes(); // extensions
+  r.bytes(); // reserved
+  const caKey = r.bytes();
+  const caKeyType = new BlobReader(caKey).string();
+  const signedData = blob.subarray(0, r.offset);
+  const signature = r.bytes();
+
+  return {
+    type,
+    keyType,
+    blob,
+    publicKey,
+    serial,
+    certType,
+    keyId,
+    principals,
+    validAfter: validAfter === 0n ? undefined : toDate(validAfter),
+    validBefore: validBefore === FOREVER ? undefined : toDate(validBefore),
+    caKeyType,
+    caKey,
+    signedData,
+    signature,
+    comment,
+  };
+}
+
+const ECDSA_CURVES: Record<string, { crv: string; hash: string; size: number }> = {
+  'ecdsa-sha2-nistp256': { crv: 'P-256', hash: 'sha256', size: 32 },
+  'ecdsa-sha2-nistp384': { crv: 'P-384', hash: 'sha384', size: 48 },
+  'ecdsa-sha2-nistp521': { crv: 'P-521', hash: 'sha512', size: 66 },
+};
+
+const RSA_SIGNATURE_HASHES: Record<string, string> = {
+  'ssh-rsa': 'sha1',
+  'rsa-sha2-256': 'sha256',
+  'rsa-sha2-512': 'sha512',
+};
+
+/** An SSH mpint as a fixed-size unsigned big-endian number */
+function unsigned(mpint: Buffer, size?: number): Buffer {
+  let v = mpint;
+  while (v.length > 1 && v[0] === 0) {
+    v = v.subarray(1);
+  }
+  return size === undefined || v.length >= size ? v : Buffer.concat([Buffer.alloc(size - v.length), v]);
+}
+
+/**
+ * Whether the certificate carries a valid signature by its own CA key
+ * (`caKey`). Whether that CA is trusted is up to the caller. Supports
+ * ed25519, ECDSA and RSA CAs; anything else is reported as not valid.
+ */
+export function verifyCertificateSignature(cert: SshCertificate): boolean {
+  try {
+    const key = new BlobReader(cert.caKey);
+    const keyType = key.string();
+    const sig = new BlobReader(cert.signature);
+    const sigAlgo = sig.string();
+    const sigBytes = sig.bytes();
+
+    if (keyType === 'ssh-ed25519' && sigAlgo === keyType) {
+      const publicKey = crypto.createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: key.bytes().toString('base64url') }, format: 'jwk' });
+      return crypto.verify(null, cert.signedData, publicKey, sigBytes);
+    }
+    const curve = ECDSA_CURVES[keyType];
+    if (curve && sigAlgo === keyType) {
+      key.bytes(); // curve name
+      const point = key.bytes(); // 0x04 || x || y
+      const x = point.subarray(1, 1 + curve.size).toString('base64url');
+      const y = point.subarray(1 + curve.size).toString('base64url');
+      const publicKey = crypto.createPublicKey({ key: { kty: 'EC', crv: curve.crv, x, y }, format: 'jwk' });
+      const rs = new BlobReader(sigBytes);
+      const signature = Buffer.concat([unsigned(rs.bytes(), curve.size), unsigned(rs.bytes(), curve.size)]);
+      return crypto.verify(curve.hash, cert.signedData, { key: publicKey, dsaEncoding: 'ieee-p1363' }, signature);
+    }
+    const hash = RSA_SIGNATURE_HASHES[sigAlgo];
+    if (keyType === 'ssh-rsa' && hash) {
+      const e = unsigned(key.bytes()).toString('base64url');
+      const n = unsigned(key.bytes()).toString('base64url');
+      const publicKey = crypto.createPublicKey({ key: { kty: 'RSA', n, e }, format: 'jwk' });
+      return crypto.verify(hash, cert.signedData, publicKey, sigBytes);
+    }
+    return false;
+  } catch {
+    return false;
+  }
+}
+
+/** Read and parse a `-cert.pub` file; undefined if it is missing or unreadable. */
+export function readSshCertificate(certPath: string): SshCertificate | undefined {
+  try {
+    return parseSshCertificate(fs.readFileSync(certPath));
+  } catch {
+    return undefined;
+  }
+}
+
+/** Where OpenSSH looks for the certificate of an identity file: `<key>-cert.pub`. */
+export function certificatePathFor(keyPath: string): string {
+  return `${keyPath}-cert.pub`;
+}
+
+export function certificateValidity(cert: SshCertificate, now: number = Date.now()): CertificateValidity {
+  if (cert.validAfter && now < cert.validAfter.getTime()) {
+    return { state: 'not-yet-valid', validInMs: cert.validAfter.getTime() - now };
+  }
+  if (cert.validBefore && now >= cert.validBefore.getTime()) {
+    return { state: 'expired', expiredMsAgo: now - cert.validBefore.getTime() };
+  }
+  return { state: 'valid', expiresInMs: cert.validBefore ? cert.validBefore.getTime() - now : undefined };
+}
+
+/** "2d 3h", "45m", "30s" — coarse, for tree descriptions and warnings */
+export function formatCertificateDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+  if (days > 0) return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+  if (hours > 0) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${Math.max(0, Math.floor(ms / 1000))}s`;
+}
+
+/** One-line summary for the host tree: principals and expiry, e.g. `alice, deploy · expires in 7h 59m` */
+export function describeCertificate(cert: SshCertificate, now: number = Date.now()): string {
+  const principals = cert.principals.length ? cert.principals.join(', ') : 'any principal';
+  const validity = certificateValidity(cert, now);
+  switch (validity.state) {
+    case 'expired':
+      return `${principals} · expired ${formatCertificateDuration(validity.expiredMsAgo)} ago`;
+    case 'not-yet-valid':
+      return `${principals} · valid in ${formatCertificateDuration(validity.validInMs)}`;
+    default:
+      return validity.expiresInMs === undefined
+        ? `${principals} · no expiry`
+        : `${principals} · expires in ${formatCertificateDuration(validity.expiresInMs)}`;
+  }
+}
@@ -0,0 +1,283 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  tokenizeSSHConfigLine,
+  parseSSHConfig,
+  readSSHConfig,
+  listSSHConfigAliases,
+  computeSSHOptions,
+  resolveSSHConfigHost,
+  runMatchExecs,
+  matchSSHPatternList,
+  expandSSHTokens,
+  toSSH2AlgorithmSpec,
+  buildSSH2Algorithms,
+} from './sshConfig';
+
+const parse = (text: string) => parseSSHConfig(text, '/nonexistent');
+
+describe('sshConfig', () => {
+  describe('tokenizeSSHConfigLine', () => {
+    it('accepts "Key value", "Key=value" and "Key = value"', () => {
+      expect(tokenizeSSHConfigLine('HostName example.com')).toEqual({ keyword: 'hostname', args: ['example.com'] });
+      expect(tokenizeSSHConfigLine('Port=2222')).toEqual({ keyword: 'port', args: ['2222'] });
+      expect(tokenizeSSHConfigLine('  User = bob  ')).toEqual({ keyword: 'user', args: ['bob'] });
+    });
+    it('keeps double-quoted arguments together', () => {
+      expect(tokenizeSSHConfigLine('IdentityFile "~/My Keys/id_ed25519"')?.args).toEqual(['~/My Keys/id_ed25519']);
+    });
+    it('skips blank and comment lines', () => {
+      expect(tokenizeSSHConfigLine('')).toBeUndefined();
+      expect(tokenizeSSHConfigLine('   # comment')).toBeUndefined();
+    });
+  });
+
+  describe('matchSSHPatternList', () => {
+    it('supports * and ? wildcards', () => {
+      expect(matchSSHPatternList(['*.prod'], 'web1.prod')).toBe(true);
+      expect(matchSSHPatternList(['web?'], 'web1')).toBe(true);
+      expect(matchSSHPatternList(['web?'], 'web')).toBe(false);
+    });
+    it('a matching negated pattern vetoes the whole list', () => {
+      expect(matchSSHPatternList(['*.prod', '!db.prod'], 'db.prod')).toBe(false);
+      expect(matchSSHPatternList(['*.prod', '!db.prod'], 'web.prod')).toBe(true);
+      expect(matchSSHPatternList(['!db.prod'], 'web.prod')).toBe(false);
+    });
+  });
+
+  describe('listSSHConfigAliases', () => {
+    it('lists every concrete alias, including multi-pattern Host lines, but no wildcards or negations', () => {
+      const cfg = parse('Host web1 web2 !skip\n  User a\nHost *.prod\n  User b\nHost web1\n  Port 1\n');
+      expect(listSSHConfigAliases(cfg)).toEqual(['web1', 'web2']);
+    });
+  });
+
+  describe('computeSSHOptions', () => {
+    it('is case-insensitive on keywords and keeps the first value obtained', () => {
+      const cfg = parse('host web\n  hostname 10.0.0.1\n  PORT 2200\nHost *\n  HostName ignored\n  Port 22\n  User fallback\n');
+      const opts = computeSSHOptions(cfg, 'web', 'me');
+      expect(opts.get('hostname')).toEqual(['10.0.0.1']);
+      expect(opts.get('port')).toEqual(['2200']);
+      expect(opts.get('user')).toEqual(['fallback']);
+    });
+
+    it('inherits from wildcard Host blocks', () => {
+      const cfg = parse('Host api.prod\n  HostName 10.1.0.5\nHost *.prod\n  User deploy\n  IdentityFile ~/.ssh/prod_ed25519\n');
+      const opts = computeSSHOptions(cfg, 'api.prod', 'me');
+      expect(opts.get('user')).toEqual(['deploy']);
+      expect(opts.get('identityfile')).toEqual(['~/.ssh/prod_ed25519']);
+    });
+
+    it('accumulates every IdentityFile in order', () => {
+      const cfg = parse('Host web\n  IdentityFile ~/.ssh/a\n  IdentityFile ~/.ssh/b\nHost *\n  IdentityFile ~/.ssh/c\n');
+      expect(computeSSHOptions(cfg, 'web', 'me').get('identityfile')).toEqual(['~/.ssh/a', '~/.ssh/b', '~/.ssh/c']);
+    });
+
+    it('applies Match host against the resolved HostName and originalhost against the alias', () => {
+      const cfg = parse(
+        'Host db\n  HostName db.internal\nMatch host *.internal\n  User ops\nMatch originalhost db\n  Port 5022\n'
+      );
+      const opts = computeSSHOptions(cfg, 'db', 'me');
+      expect(opts.get('user')).toEqual(['ops']);
+      expect(opts.get('port')).toEqual(['5022']);
+    });
+
+    it('supports negated Match criteria and Match user/localuser', () => {
+      const cfg = parse(
+        'Match !host skip\n  Port 2000\nMatch localuser me user me\n  Compression yes\nMatch all\n  LogLevel ERROR\n'
+      );
+      const opts = computeSSHOptions(cfg, 'web', 'me');
+      expect(opts.get('port')).toEqual(['2000']);
+      expect(opts.get('compression')).toEqual(['yes']);
+      expect(opts.get('loglevel')).toEqual(['ERROR']);
+      expect(computeSSHOptions(cfg, 'skip', 'me').get('port')).toBeUndefined();
+    });
+
+    it('applies Match exec only with a recorded exit status', () => {
+      const cfg = parse('Host web\n  HostName web.lan\nMatch exec "test-net %h"\n  ProxyJump bastion\n');
+      expect(computeSSHOptions(cfg, 'web', 'me').get('proxyjump')).toBeUndefined();
+      expect(computeSSHOptions(cfg, 'web', 'me', new Map([['test-net web.lan', true]])).get('proxyjump')).toEqual(['bastion']);
+      expect(computeSSHOptions(cfg, 'web', 'me', new Map([['test-net web.lan', false]])).get('proxyjump')).toBeUndefined();
+    });
+
+    it('applies Match final blocks on a second pass without overriding earlier values', () => {
+      const cfg = parse('Match final\n  User late\n  Port 9\nHost web\n  Port 22\n');
+      const opts = computeSSHOptions(cfg, 'web', 'me');
+      expect(opts.get('user')).toEqual(['late']);
+      expect(opts.get('port')).toEqual(['22']);
+    });
+  });
+
+  describe('runMatchExecs', () => {
+    it('runs the commands one alias reaches, following blocks a result activates', async () => {
+      const cfg = parse(
+        'Match exec "on-vpn"\n  User vpn\nMatch user vpn exec "inner %r"\n  Port 2222\nHost other\nMatch originalhost other exec "never"\n'
+      );
+      const run = jest.fn(async (command: string) => command === 'on-vpn' || command === 'inner vpn');
+
+      const results = await runMatchExecs(cfg, 'web', 'me', run);
+
+      expect(run.mock.calls.map(([c]) => c)).toEqual(['on-vpn', 'inner vpn']);
+      expect(computeSSHOptions(cfg, 'web', 'me', results).get('port')).toEqual(['2222']);
+    });
+
+    it('runs commands through the shell, without blocking, and reads the exit status', async () => {
+      const cfg = parse('Match exec "exit 0"\n  User yes\nMatch exec "exit 3"\n  Port 9\n');
+      const results = await runMatchExecs(cfg, 'web', 'me');
+      expect(results).toEqual(new Map([['exit 0', true], ['exit 3', false]]));
+    });
+
+    it('runs nothing for configs without Match exec', async () => {
+      const run = jest.fn();
+      expect((await runMatchExecs(parse('Host web\n  Port 1\n'), 'web', 'me', run)).size).toBe(0);
+      expect(run).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Include', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sshlite-cfg-'));
+      fs.mkdirSync(path.join(dir, 'config.d'));
+    });
+
+    afterEach(() => {
+      try { fs.rmSync(dir, { recursive: true, force: true }); } catch { /* ignore */ }
+    });
+
+    it('expands globbed includes relative to the config directory, in sorted order', () => {
+      fs.writeFileSync(path.join(dir, 'config'), 'Include config.d/*\nHost *\n  User everyone\n');
+      fs.writeFileSync(path.join(dir, 'config.d', '20-web'), 'Host web\n  HostName 10.0.0.20\n');
+      fs.writeFileSync(path.join(dir, 'config.d', '10-db'), 'Host db\n  HostName 10.0.0.10\n');
+      fs.writeFileSync(path.join(dir, 'config.d', '.hidden'), 'Host hidden\n');
+
+      const cfg = readSSHConfig(path.join(dir, 'config'));
+      expect(listSSHConfigAliases(cfg)).toEqual(['db', 'web']);
+      expect(resolveSSHConfigHost(cfg, 'web', 'me')).toMatchObject({ hostName: '10.0.0.20', user: 'everyone' });
+      expect(cfg.files).toEqual(expect.arrayContaining([path.join(dir, 'config'), path.join(dir, 'config.d')]));
+    });
+
+    it('makes an Include inside a Host block conditional on that block', () => {
+      fs.writeFileSync(path.join(dir, 'config'), 'Host web\n  Include extra\n  Port 2222\n');
+      fs.writeFileSync(path.join(dir, 'extra'), 'User fromextra\nHost *\n  Compression yes\n');
+
+      const cfg = readSSHConfig(path.join(dir, 'config'));
+      const web = computeSSHOptions(cfg, 'web', 'me');
+      expect(web.get('user')).toEqual(['fromextra']);
+      expect(web.get('compression')).toEqual(['yes']);
+      // The outer block resumes after the include
+      expect(web.get('port')).toEqual(['2222']);
+
+      const other = computeSSHOptions(cfg, 'other', 'me');
+      expect(other.get('user')).toBeUndefined();
+      expect(other.get('compression')).toBeUndefined();
+    });
+
+    it('stops at the include depth limit instead of recursing forever', () => {
+      fs.writeFileSync(path.join(dir, 'config'), `Include ${path.join(dir, 'config')}\nHost loop\n`);
+      expect(listSSHConfigAliases(readSSHConfig(path.join(dir, 'config')))).toEqual(['loop']);
+    });
+
+    it('returns no entries for a missing file', () => {
+      expect(readSSHConfig(path.join(dir, 'nope')).entries).toEqual([]);
+    });
+  });
+
+  describe('resolveSSHConfigHost', () => {
+    it('expands %h in HostName and tokens/~ in IdentityFile', () => {
+      const cfg = parse('Host web\n  HostName %h.corp.example\n  User deploy\n  IdentityFile ~/.ssh/%r@%h\n  IdentityFile none\n');
+      const host = resolveSSHConfigHost(cfg, 'web', 'me');
+      expect(host.hostName).toBe('web.corp.example');
+      expect(host.identityFiles).toEqual([path.join(os.homedir(), '.ssh', 'deploy@web.corp.example')]);
+    });
+
+    it('defaults port and user', () => {
+      expect(resolveSSHConfigHost(parse('Host web\n'), 'web', 'me')).toMatchObject({ hostName: 'web', port: 22, user: 'me' });
+    });
+
+    it('carries the client options SSH Lite maps onto ssh2', () => {
+      const cfg = parse(
+        [
+          'Host web',
+          '  IdentitiesOnly yes',
+          '  ConnectTimeout 7',
+          '  ServerAliveInterval 15',
+          '  ServerAliveCountMax 4',
+          '  Ciphers aes256-gcm@openssh.com,aes128-ctr',
+          '  HostKeyAlgorithms +ssh-rsa',
+          '  ProxyJump bastion',
+        ].join('\n')
+      );
+      const host = resolveSSHConfigHost(cfg, 'web', 'me');
+      expect(host.proxyJump).toBe('bastion');
+      expect(host.options).toEqual({
+        identitiesOnly: true,
+        connectTimeout: 7,
+        serverAliveInterval: 15,
+        serverAliveCountMax: 4,
+        ciphers: 'aes256-gcm@openssh.com,aes128-ctr',
+        hostKeyAlgorithms: '+ssh-rsa',
+      });
+    });
+
+    it('reads ForwardAgent yes/no; an agent socket path counts as no', () => {
+      expect(resolveSSHConfigHost(parse('Host web\n  ForwardAgent yes\n'), 'web', 'me').forwardAgent).toBe(true);
+      expect(resolveSSHConfigHost(parse('Host web\n  ForwardAgent no\n'), 'web', 'me').forwardAgent).toBe(false);
+      expect(resolveSSHConfigHost(parse('Host web\n  ForwardAgent ~/.ssh/other.sock\n'), 'web', 'me').forwardAgent).toBe(false);
+      expect(resolveSSHConfigHost(parse('Host web\n'), 'web', 'me').forwardAgent).toBeUndefined();
+    });
+
+    it('resolves known_hosts files (tokens, ~, none) and HashKnownHosts', () => {
+      const cfg = parse(
+        'Host web\n  UserKnownHostsFile ~/.ssh/kh_%h /tmp/extra\n  GlobalKnownHostsFile none\n  HashKnownHosts yes\n'
+      );
+      expect(resolveSSHConfigHost(cfg, 'web', 'me').options).toEqual({
+        userKnownHostsFiles: [path.join(os.homedir(), '.ssh', 'kh_web'), '/tmp/extra'],
+        globalKnownHostsFiles: [],
+        hashKnownHosts: true,
+      });
+    });
+  });
+
+  describe('expandSSHTokens', () => {
+    it('replaces known tokens, keeps unknown ones and unescapes %%', () => {
+      expect(expandSSHTokens('%h-%z-100%%', { h: 'web' })).toBe('web-%z-100%');
+    });
+  });
+
+  describe('ssh2 algorithm mapping', () => {
+    it('maps +, - and ^ onto append/remove/prepend', () => {
+      expect(toSSH2AlgorithmSpec('+ssh-rsa')).toEqual({ append: [/^ssh-rsa$/] });
+      expect(toSSH2AlgorithmSpec('-*-cbc')).toEqual({ remove: [/^.*-cbc$/] });
+      expect(toSSH2AlgorithmSpec('^aes128-ctr')).toEqual({ prepend: [/^aes128-ctr$/] });
+    });
+
+    it('replaces the default list for a plain list, preserving order', () => {
+      expect(toSSH2AlgorithmSpec('aes256-ctr,aes128-ctr')).toEqual({
+        remove: [/.*/],
+        append: [/^aes256-ctr$/, /^aes128-ctr$/],
+      });
+    });
+
+    it('produces a list ssh2 accepts, skipping algorithms it does not support', () => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { generateAlgorithmList } = require('ssh2/lib/utils');
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { DEFAULT_CIPHER, SUPPORTED_CIPHER } = require('ssh2/lib/protocol/constants');
+      const spec = toSSH2AlgorithmSpec('aes256-ctr,made-up-cipher,aes128-ctr');
+      expect(generateAlgorithmList(spec, DEFAULT_CIPHER, SUPPORTED_CIPHER)).toEqual(['aes256-ctr', 'aes128-ctr']);
+    });
+
+    it('builds the algorithms option only when a directive is set', () => {
+      expect(buildSSH2Algorithms(undefined)).toBeUndefined();
+      expect(buildSSH2Algorithms({ connectTimeout: 5 })).toBeUndefined();
+      expect(buildSSH2Algorithms({ ciphers: '+aes128-cbc', hostKeyAlgorithms: '+ssh-rsa', macs: '-hmac-sha1' })).toEqual({
+        cipher: { append: [/^aes128-cbc$/] },
+        serverHostKey: { append: [/^ssh-rsa$/] },
+        hmac: { remove: [/^hmac-sha1$/] },
+      });
+    });
+  });
+});
@@ -0,0 +1,564 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import type { ISSHConfigOptions } from '../types';
+
+/**
+ * OpenSSH client config resolution (`man ssh_config`).
+ *
+ * The `ssh-config` package is fine for editing a file but does not resolve a
+ * host the way `ssh <alias>` does: it ignores `Include`, matches keywords
+ * case-sensitively and only understands part of `Match`. This module reads the
+ * config tree and computes the effective options for one alias:
+ *
+ * - `Include` (globs, relative paths, nested up to 16 levels, conditional when
+ *   inside a `Host`/`Match` block)
+ * - `Host` pattern lists with `*`/`?` wildcards and `!` negation
+ * - `Match all|host|originalhost|user|localuser|exec|final|canonical`, with `!`;
+ *   `exec` commands only run through runMatchExecs(), when connecting
+ * - first obtained value wins; `IdentityFile`/`CertificateFile`/forwards accumulate
+ * - `%` tokens in `HostName`, `IdentityFile`, `CertificateFile` and the known_hosts file options
+ */
+
+/** One directive line. `included` holds one entry list per file an `Include` matched. */
+export interface SSHConfigEntry {
+  keyword: string; // lower-cased
+  args: string[];
+  included?: SSHConfigEntry[][];
+}
+
+export interface ISSHConfigFile {
+  entries: SSHConfigEntry[];
+  /** Every file and glob directory read — stat these to tell whether a re-read is needed. */
+  files: string[];
+}
+
+/** Effective options for one host: lower-cased keyword → arguments. */
+export type SSHConfigOptions = Map<string, string[]>;
+
+/** Exit status of each `Match exec` command (tokens expanded) that has run: true for 0 */
+export type MatchExecResults = Map<string, boolean>;
+
+const MATCH_EXEC_TIMEOUT_MS = 5000;
+
+const MAX_INCLUDE_DEPTH = 16; // READCONF_MAX_DEPTH in OpenSSH
+
+const REPEATABLE = new Set(['identityfile', 'certificatefile', 'localforward', 'remoteforward', 'dynamicforward']);
+
+/**
+ * Split a config line into keyword and arguments. Accepts `Key value` and
+ * `Key=value`; double-quoted arguments may contain spaces.
+ */
+export function tokenizeSSHConfigLine(line: string): { keyword: string; args: string[] } | undefined {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith('#')) {
+    return undefined;
+  }
+  const m = trimmed.match(/^([^\s=]+)\s*(?:=\s*|\s)(.*)$/) ?? trimmed.match(/^([^\s=]+)$/);
+  if (!m) {
+    return undefined;
+  }
+  const args: string[] = [];
+  const rest = m[2] ?? '';
+  const re = /"([^"]*)"|(\S+)/g;
+  let tok: RegExpExecArray | null;
+  while ((tok = re.exec(rest)) !== null) {
+    args.push(tok[1] ?? tok[2]);
+  }
+  return { keyword: m[1].toLowerCase(), args };
+}
+
+/** Read a config file and everything it includes. A missing file yields no entries. */
+export function readSSHConfig(configPath: string): ISSHConfigFile {
+  const files: string[] = [];
+  const entries = readFileEntries(configPath, path.dirname(configPath), 0, files);
+  return { entries, files };
+}
+
+/** Parse config text (no file access except for `Include`, resolved against `baseDir`). */
+export function parseSSHConfig(content: string, baseDir: string): ISSHConfigFile {
+  const files: string[] = [];
+  const entries = parseEntries(content, baseDir, 0, files);
+  return { entries, files };
+}
+
+function readFileEntries(file: string, baseDir: string, depth: number, files: string[]): SSHConfigEntry[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch {
+    return [];
+  }
+  files.push(file);
+  return parseEntries(content, baseDir, depth, files);
+}
+
+function parseEntries(content: string, baseDir: string, depth: number, files: string[]): SSHConfigEntry[] {
+  const entries: SSHConfigEntry[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const tok = tokenizeSSHConfigLine(line);
+    if (!tok) {
+      continue;
+    }
+    const entry: SSHConfigEntry = { keyword: tok.keyword, args: tok.args };
+    if (tok.keyword === 'include') {
+      entry.included = [];
+      if (depth < MAX_INCLUDE_DEPTH) {
+        for (const pattern of tok.args) {
+          for (const file of expandIncludePattern(pattern, baseDir, files)) {
+            entry.included.push(readFileEntries(file, baseDir, depth + 1, files));
+          }
+        }
+      }
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Resolve an `Include` argument to files: `~` expands to home, relative paths
+ * are taken from the top-level config's directory (~/.ssh for the user config),
+ * and `*`/`?` may appear in any path segment. Matches are sorted like glob(3)
+ * and dot-files are only matched by a pattern that starts with a dot.
+ */
+function expandIncludePattern(pattern: string, baseDir: string, files: string[]): string[] {
+  let full = pattern.startsWith('~') ? path.join(os.homedir(), pattern.slice(1)) : pattern;
+  if (!path.isAbsolute(full)) {
+    full = path.join(baseDir, full);
+  }
+  if (!/[*?]/.test(full)) {
+    return [full];
+  }
+
+  const { root } = path.parse(full);
+  let candidates = [root];
+  for (const segment of full.slice(root.length).split(/[\\/]+/).filter(Boolean)) {
+    if (!/[*?]/.test(segment)) {
+      candidates = candidates.map((dir) => path.join(dir, segment));
+      continue;
+    }
+    const re = globToRegExp(segment, false);
+    const next: string[] = [];
+    for (const dir of candidates) {
+      let names: string[];
+      try {
+        names = fs.readdirSync(dir);
+      } catch {
+        continue;
+      }
+      files.push(dir);
+      for (const name of names.sort()) {
+        if (name.startsWith('.') && !segment.startsWith('.')) {
+          continue;
+        }
+        if (re.test(name)) {
+          next.push(path.join(dir, name));
+        }
+      }
+    }
+    candidates = next;
+  }
+  return candidates;
+}
+
+function globToRegExp(pattern: string, ignoreCase: boolean): RegExp {
+  const body = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${body}$`, ignoreCase ? 'i' : '');
+}
+
+/**
+ * OpenSSH pattern-list match: true when any pattern matches and no negated
+ * (`!`) pattern does.
+ */
+export function matchSSHPatternList(patterns: string[], value: string, ignoreCase = true): boolean {
+  let matched = false;
+  for (const pattern of patterns) {
+    if (pattern.startsWith('!')) {
+      if (globToRegExp(pattern.slice(1), ignoreCase).test(value)) {
+        return false;
+      }
+    } else if (globToRegExp(pattern, ignoreCase).test(value)) {
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+/** Concrete aliases (no wildcards, not negated) from every `Host` line, in file order. */
+export function listSSHConfigAliases(config: ISSHConfigFile): string[] {
+  const aliases: string[] = [];
+  const seen = new Set<string>();
+  const walk = (entries: SSHConfigEntry[]): void => {
+    for (const entry of entries) {
+      if (entry.keyword === 'host') {
+        for (const pattern of entry.args) {
+          if (pattern.startsWith('!') || /[*?]/.test(pattern) || seen.has(pattern)) {
+            continue;
+          }
+          seen.add(pattern);
+          aliases.push(pattern);
+        }
+      } else if (entry.included) {
+        entry.included.forEach(walk);
+      }
+    }
+  };
+  walk(config.entries);
+  return aliases;
+}
+
+interface EvalContext {
+  alias: string;
+  localUser: string;
+  final: boolean;
+  wantFinal: boolean;
+  execResults: MatchExecResults;
+  /** `Match exec` commands reached that have no result yet */
+  pendingExec: Set<string>;
+}
+
+/**
+ * Compute the effective options for `alias`, as `ssh -G alias` would. Values
+ * are raw (tokens unexpanded) except for the keys `resolveSSHConfigHost` reads.
+ * A `Match exec` without an entry in `execResults` does not match.
+ */
+export function computeSSHOptions(
+  config: ISSHConfigFile,
+  alias: string,
+  localUser = currentLocalUser(),
+  execResults: MatchExecResults = new Map()
+): SSHConfigOptions {
+  return evaluateConfig(config, alias, localUser, execResults).options;
+}
+
+function evaluateConfig(
+  config: ISSHConfigFile,
+  alias: string,
+  localUser: string,
+  execResults: MatchExecResults
+): { options: SSHConfigOptions; pendingExec: Set<string> } {
+  const options: SSHConfigOptions = new Map();
+  const ctx: EvalContext = { alias, localUser, final: false, wantFinal: false, execResults, pendingExec: new Set() };
+  evaluate(config.entries, ctx, options, true, false);
+  if (ctx.wantFinal) {
+    // `Match final` blocks apply on a second pass; values from the first pass still win.
+    ctx.final = true;
+    evaluate(config.entries, ctx, options, true, false);
+  }
+  return { options, pendingExec: ctx.pendingExec };
+}
+
+/**
+ * Run the `Match exec` commands that decide `alias`'s options, for
+ * computeSSHOptions / resolveSSHConfigHost to apply. Only for the alias being
+ * connected: each command may take seconds, and listing hosts treats them as
+ * not matching. A result can activate blocks with further `exec` criteria,
+ * so this repeats until no new command comes up.
+ */
+export async function runMatchExecs(
+  config: ISSHConfigFile,
+  alias: string,
+  localUser = currentLocalUser(),
+  run: (command: string) => Promise<boolean> = runMatchExec
+): Promise<MatchExecResults> {
+  const results: MatchExecResults = new Map();
+  for (;;) {
+    const pending = [...evaluateConfig(config, alias, localUser, results).pendingExec];
+    if (pending.length === 0) {
+      return results;
+    }
+    for (const command of pending) {
+      results.set(command, await run(command));
+    }
+  }
+}
+
+function evaluate(
+  entries: SSHConfigEntry[],
+  ctx: EvalContext,
+  options: SSHConfigOptions,
+  initiallyActive: boolean,
+  neverMatch: boolean
+): void {
+  let active = initiallyActive;
+  for (const entry of entries) {
+    switch (entry.keyword) {
+      case 'host':
+        active = !neverMatch && matchSSHPatternList(entry.args, ctx.alias);
+        break;
+      case 'match':
+        active = evaluateMatch(entry.args, ctx, options) && !neverMatch;
+        break;
+      case 'include':
+        // Each included file starts in the including block's state; a Host/Match
+        // inside it can only activate when that block is active.
+        for (const file of entry.included ?? []) {
+          evaluate(file, ctx, options, active, neverMatch || !active);
+        }
+        break;
+      default:
+        if (active) {
+          setOption(options, entry.keyword, entry.args);
+        }
+    }
+  }
+}
+
+function setOption(options: SSHConfigOptions, keyword: string, args: string[]): void {
+  if (REPEATABLE.has(keyword)) {
+    options.set(keyword, [...(options.get(keyword) ?? []), ...args]);
+  } else if (!options.has(keyword)) {
+    options.set(keyword, args);
+  }
+}
+
+function evaluateMatch(args: string[], ctx: EvalContext, options: SSHConfigOptions): boolean {
+  let result = true;
+  for (let i = 0; i < args.length; i++) {
+    let criterion = args[i].toLowerCase();
+    const negate = criterion.startsWith('!');
+    if (negate) {
+      criterion = criterion.slice(1);
+    }
+
+    let matched: boolean;
+    if (criterion === 'all') {
+      matched = true;
+    } else if (criterion === 'final' || criterion === 'canonical') {
+      ctx.wantFinal = true;
+      matched = ctx.final;
+    } else {
+      const value = args[++i];
+      if (value === undefined) {
+        return false; // malformed: OpenSSH refuses the whole file, we just skip the block
+      }
+      const list = value.split(',');
+      switch (criterion) {
+        case 'host':
+          matched = matchSSHPatternList(list, currentHostName(ctx, options));
+          break;
+        case 'originalhost':
+          matched = matchSSHPatternList(list, ctx.alias);
+          break;
+        case 'user':
+          matched = matchSSHPatternList(list, options.get('user')?.[0] ?? ctx.localUser, false);
+          break;
+        case 'localuser':
+          matched = matchSSHPatternList(list, ctx.localUser, false);
+          break;
+        case 'exec': {
+          if (!result) {
+            // Like OpenSSH: no command runs once an earlier criterion failed
+            matched = false;
+            break;
+          }
+          const command = expandSSHTokens(value, tokenValues(ctx, options));
+          const succeeded = ctx.execResults.get(command);
+          if (succeeded === undefined) {
+            ctx.pendingExec.add(command);
+          }
+          matched = succeeded ?? false;
+          break;
+        }
+        default:
+          matched = false; // localnetwork, tagged, … — not supported, never match
+      }
+    }
+    // Keep evaluating after a miss so `final` is still noticed, like OpenSSH.
+    if (matched === negate) {
+      result = false;
+    }
+  }
+  return result;
+}
+
+/** Run a `Match exec` command through the shell, like ssh; a timeout or spawn error is no match */
+function runMatchExec(command: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    try {
+      execFile(command, { shell: true, timeout: MATCH_EXEC_TIMEOUT_MS }, (error) => resolve(!error));
+    } catch {
+      resolve(false);
+    }
+  });
+}
+
+function currentHostName(ctx: EvalContext, options: SSHConfigOptions): string {
+  const hostName = options.get('hostname')?.[0];
+  return hostName ? expandSSHTokens(hostName, { h: ctx.alias }) : ctx.alias;
+}
+
+function tokenValues(ctx: EvalContext, options: SSHConfigOptions): Record<string, string> {
+  return {
+    d: os.homedir(),
+    h: currentHostName(ctx, options),
+    n: ctx.alias,
+    p: options.get('port')?.[0] ?? '22',
+    r: options.get('user')?.[0] ?? ctx.localUser,
+    u: ctx.localUser,
+    l: os.hostname().split('.')[0],
+    L: os.hostname(),
+  };
+}
+
+/** Expand `%x` tokens; `%%` is a literal percent, unknown tokens are left as-is. */
+export function expandSSHTokens(value: string, tokens: Record<string, string>): string {
+  return value.replace(/%(.)/g, (whole, key: string) => {
+    if (key === '%') {
+      return '%';
+    }
+    return tokens[key] ?? whole;
+  });
+}
+
+function currentLocalUser(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USER || process.env.USERNAME || '';
+  }
+}
+
+/** Effective settings SSH Lite uses for one ssh-config alias. */
+export interface IResolvedSSHHost {
+  hostName: string;
+  port: number;
+  user: string;
+  /** IdentityFile values in config order, tokens and `~` expanded. */
+  identityFiles: string[];
+  proxyJump?: string;
+  /** ForwardAgent yes (a socket path or variable is not supported and reads as no) */
+  forwardAgent?: boolean;
+  options: ISSHConfigOptions;
+}
+
+/** Resolve `alias` to connection settings, like `ssh <alias>` (`Match exec` per `execResults`). */
+export function resolveSSHConfigHost(
+  config: ISSHConfigFile,
+  alias: string,
+  localUser = currentLocalUser(),
+  execResults: MatchExecResults = new Map()
+): IResolvedSSHHost {
+  const opts = computeSSHOptions(config, alias, localUser, execResults);
+  const first = (key: string): string | undefined => opts.get(key)?.[0];
+
+  const hostName = expandSSHTokens(first('hostname') ?? alias, { h: alias, n: alias });
+  const port = parseInt(first('port') ?? '', 10) || 22;
+  const user = first('user') ?? localUser;
+  const tokens = {
+    d: os.homedir(),
+    h: hostName,
+    n: alias,
+    p: String(port),
+    r: user,
+    u: localUser,
+    l: os.hostname().split('.')[0],
+    L: os.hostname(),
+  };
+  const expandFile = (f: string): string => {
+    const expanded = expandSSHTokens(f, tokens);
+    return expanded.startsWith('~') ? path.join(os.homedir(), expanded.slice(1)) : expanded;
+  };
+
+  const identityFiles = (opts.get('identityfile') ?? [])
+    .filter((f) => f.toLowerCase() !== 'none')
+    .map(expandFile);
+
+  const options: ISSHConfigOptions = {};
+  const yesNo = (key: string): boolean | undefined => {
+    const v = first(key);
+    return v === undefined ? undefined : v.toLowerCase() === 'yes';
+  };
+  const fileList = (key: string): string[] | undefined => {
+    const files = opts.get(key);
+    if (!files) {
+      return undefined;
+    }
+    return files[0]?.toLowerCase() === 'none' ? [] : files.map(expandFile);
+  };
+  options.identitiesOnly = yesNo('identitiesonly');
+  const num = (key: string): number | undefined => {
+    const v = parseInt(first(key) ?? '', 10);
+    return isNaN(v) || v < 0 ? undefined : v;
+  };
+  options.connectTimeout = num('connecttimeout');
+  options.serverAliveInterval = num('serveraliveinterval');
+  options.serverAliveCountMax = num('serveralivecountmax');
+  options.ciphers = first('ciphers');
+  options.hostKeyAlgorithms = first('hostkeyalgorithms');
+  options.kexAlgorithms = first('kexalgorithms');
+  options.macs = first('macs');
+  options.userKnownHostsFiles = fileList('userknownhostsfile');
+  options.globalKnownHostsFiles = fileList('globalknownhostsfile');
+  options.hashKnownHosts = yesNo('hashknownhosts');
+  for (const key of Object.keys(options) as Array<keyof ISSHConfigOptions>) {
+    if (options[key] === undefined) {
+      delete options[key];
+    }
+  }
+
+  return {
+    hostName,
+    port,
+    user,
+    identityFiles,
+    proxyJump: first('proxyjump'),
+    forwardAgent: yesNo('forwardagent'),
+    options,
+  };
+}
+
+type AlgorithmSpec = RegExp[] | { append?: RegExp[]; prepend?: RegExp[]; remove?: RegExp[] };
+
+/**
+ * Translate an OpenSSH algorithm list (`Ciphers`, `HostKeyAlgorithms`, …) into
+ * an ssh2 `algorithms` entry. `+list` appends to, `-list` removes from and
+ * `^list` prepends to ssh2's defaults; a plain list replaces them. Names are
+ * matched as patterns against what ssh2 supports, so an algorithm ssh2 lacks
+ * is skipped instead of failing the connect.
+ */
+export function toSSH2AlgorithmSpec(value: string): AlgorithmSpec {
+  const op = value[0];
+  const list = (/^[+\-^]/.test(value) ? value.slice(1) : value)
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((name) => globToRegExp(name, false));
+  switch (op) {
+    case '+':
+      return { append: list };
+    case '-':
+      return { remove: list };
+    case '^':
+      return { prepend: list };
+    default:
+      // "Exactly these": clear the defaults, then add matches in the given order.
+      return { remove: [/.*/], append: list };
+  }
+}
+
+/** ssh2 `algorithms` connect option for the ssh-config algorithm directives, if any are set. */
+export function buildSSH2Algorithms(options: ISSHConfigOptions | undefined): Record<string, AlgorithmSpec> | undefined {
+  if (!options) {
+    return undefined;
+  }
+  const algorithms: Record<string, AlgorithmSpec> = {};
+  if (options.ciphers) {
+    algorithms.cipher = toSSH2AlgorithmSpec(options.ciphers);
+  }
+  if (options.hostKeyAlgorithms) {
+    algorithms.serverHostKey = toSSH2AlgorithmSpec(options.hostKeyAlgorithms);
+  }
+  if (options.kexAlgorithms) {
+    algorithms.kex = toSSH2AlgorithmSpec(options.kexAlgorithms);
+  }
+  if (options.macs) {
+    algorithms.hmac = toSSH2AlgorithmSpec(options.macs);
+  }
+  return Object.keys(algorithms).length > 0 ? algorithms : undefined;
+}
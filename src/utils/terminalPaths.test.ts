@@ -0,0 +1,81 @@
+import { findPathLinks, resolveRemotePath, CwdTracker, CWD_REPORT_HOOK } from './terminalPaths';
+
+const paths = (line: string) => findPathLinks(line).map((l) => line.substr(l.startIndex, l.length));
+
+describe('findPathLinks', () => {
+  it('finds absolute, home and relative paths', () => {
+    expect(paths('tail -f /var/log/nginx/error.log ~/.bashrc ./run.sh ../lib src/app.ts')).toEqual([
+      '/var/log/nginx/error.log', '~/.bashrc', './run.sh', '../lib', 'src/app.ts',
+    ]);
+  });
+
+  it('reads line and column from grep, gcc and tsc output', () => {
+    expect(findPathLinks('src/main.c:12:5: error: expected ;')[0]).toEqual({
+      startIndex: 0, length: 15, path: 'src/main.c', line: 12, column: 5,
+    });
+    expect(findPathLinks('main.c:7:int x;')[0]).toEqual(expect.objectContaining({ path: 'main.c', line: 7, column: undefined }));
+    expect(findPathLinks('src/a.ts(3,9): error TS2304')[0]).toEqual(expect.objectContaining({ path: 'src/a.ts', line: 3, column: 9, length: 13 }));
+  });
+
+  it('skips URLs, scp targets, bare words and sentence dots', () => {
+    expect(paths('see https://example.com/docs and deploy@web1:/srv and 1.2.3 in /etc/hosts.')).toEqual(['/etc/hosts']);
+    expect(paths('cd / && ls')).toEqual([]);
+  });
+
+  it('leaves addresses and host:port alone', () => {
+    expect(paths('listening on 10.0.0.1:22 and 127.0.0.1:8080, proxy example.com:443')).toEqual([]);
+    expect(paths('curl example.com:443/health')).toEqual([]);
+    expect(paths('app.py:10: unused import, conf/site.conf:3')).toEqual(['app.py:10', 'conf/site.conf:3']);
+  });
+});
+
+describe('resolveRemotePath', () => {
+  it('resolves against the working directory and home', () => {
+    expect(resolveRemotePath('../lib/', '/srv/app/bin')).toBe('/srv/app/lib');
+    expect(resolveRemotePath('~/.bashrc', undefined, '/home/deploy')).toBe('/home/deploy/.bashrc');
+    expect(resolveRemotePath('/etc//hosts')).toBe('/etc/hosts');
+  });
+
+  it('gives up without the directory a path is relative to', () => {
+    expect(resolveRemotePath('src/app.ts')).toBeUndefined();
+    expect(resolveRemotePath('~/x')).toBeUndefined();
+  });
+});
+
+describe('CwdTracker', () => {
+  it('reads OSC 7 and OSC 633 working directories', () => {
+    const tracker = new CwdTracker();
+    expect(tracker.feed('\x1b]7;file://web1/srv/my%20app\x07$ ')).toBe('/srv/my app');
+    expect(tracker.feed('\x1b]633;P;Cwd=/opt/a\\x3bb\x1b\\')).toBe('/opt/a;b');
+    expect(tracker.feed('\x1b]0;title\x07plain output')).toBeUndefined();
+  });
+
+  it('joins a sequence split across chunks', () => {
+    const tracker = new CwdTracker();
+    expect(tracker.feed('out\x1b')).toBeUndefined();
+    expect(tracker.feed(']7;file://web1/va')).toBeUndefined();
+    expect(tracker.feed('r/log\x1b')).toBeUndefined();
+    expect(tracker.feed('\\$ ')).toBe('/var/log');
+  });
+
+  it('ignores directories reported by another host', () => {
+    const tracker = new CwdTracker();
+    expect(tracker.feed('\x1b]7;file://web1/srv\x07')).toBe('/srv');
+    expect(tracker.feed('\x1b]7;file://db2/var/lib\x07')).toBeUndefined();
+    expect(tracker.feed('\x1b]7;file://WEB1/tmp\x07\x1b]7;file:///opt\x07')).toBe('/opt');
+  });
+
+  it('keeps the last directory reported in a chunk', () => {
+    const tracker = new CwdTracker();
+    expect(tracker.feed('\x1b]7;file://h/a\x07\x1b]7;file://h/b\x07')).toBe('/b');
+  });
+});
+
+describe('CWD_REPORT_HOOK', () => {
+  it('is one space-prefixed line for bash and zsh', () => {
+    expect(CWD_REPORT_HOOK.startsWith(' ')).toBe(true);
+    expect(CWD_REPORT_HOOK).not.toContain('\n');
+    expect(CWD_REPORT_HOOK).toContain('PROMPT_COMMAND');
+    expect(CWD_REPORT_HOOK).toContain('precmd_functions');
+  });
+});
@@ -0,0 +1,175 @@
+import * as path from 'path';
+
+/**
+ * Remote paths in SSH terminal output: finding clickable paths in a line, and
+ * following the shell's working directory through the escape codes it prints.
+ */
+
+/** A path found in a terminal line, with the position `grep -n` / compilers put after it */
+export interface PathLink {
+  startIndex: number;
+  length: number;
+  /** As printed: absolute, `~/…`, or relative to the shell's working directory */
+  path: string;
+  line?: number;
+  column?: number;
+}
+
+// A path token not glued to a preceding word, URL scheme (`https://`) or
+// `host:` prefix, then `:line[:col]` (grep, gcc) or `(line,col)` (tsc)
+const PATH_PATTERN = /(?<![\w.~/:@-])((?:\.{1,2}\/|~\/|\/)?[\w.@+~-]+(?:\/[\w.@+~-]+)*\/?)(?::(\d+)(?::(\d+))?|\((\d+)(?:,(\d+))?\))?/g;
+
+/**
+ * Paths in one line of terminal output. A bare word counts only as a file
+ * name with a letter extension and a position after it the way grep and
+ * compilers print one (`main.c:12:`, `main.c:12:5`, `a.ts(3,9)`); otherwise a
+ * path needs a slash. That keeps `10.0.0.1:22` and `example.com:443` plain text.
+ */
+export function findPathLinks(line: string): PathLink[] {
+  const links: PathLink[] = [];
+  for (const match of line.matchAll(PATH_PATTERN)) {
+    const lineNumber = match[2] ?? match[4];
+    const columnNumber = match[3] ?? match[5];
+    let text = match[1];
+    let length = match[0].length;
+    if (!lineNumber) {
+      // "see /etc/hosts." ends the sentence, not the path
+      const trimmed = text.replace(/(\w)\.+$/, '$1');
+      length -= text.length - trimmed.length;
+      text = trimmed;
+    }
+    if (!text.includes('/') && !(lineNumber && isBareFileName(text, match, line))) {
+      continue;
+    }
+    if (text === '/' || text === '~/') {
+      continue;
+    }
+    links.push({
+      startIndex: match.index!,
+      length,
+      path: text,
+      line: lineNumber ? parseInt(lineNumber, 10) : undefined,
+      column: columnNumber ? parseInt(columnNumber, 10) : undefined,
+    });
+  }
+  return links;
+}
+
+// `name.ext` followed by `:line:` (grep), `:line:col` (gcc) or `(line…)` (tsc);
+// a bare `host:port` has none of these after the number
+function isBareFileName(text: string, match: RegExpMatchArray, line: string): boolean {
+  if (!/\.[A-Za-z][A-Za-z0-9]*$/.test(text)) {
+    return false;
+  }
+  return match[3] !== undefined || match[4] !== undefined || line[match.index! + match[0].length] === ':';
+}
+
+/**
+ * Absolute form of a path printed in the terminal. Relative paths need the
+ * shell's working directory and `~/…` the home directory; undefined without them.
+ */
+export function resolveRemotePath(printed: string, cwd?: string, home?: string): string | undefined {
+  let absolute: string | undefined;
+  if (printed.startsWith('/')) {
+    absolute = printed;
+  } else if (printed.startsWith('~/')) {
+    absolute = home ? path.posix.join(home, printed.slice(2)) : undefined;
+  } else {
+    absolute = cwd ? path.posix.join(cwd, printed) : undefined;
+  }
+  return absolute && (path.posix.normalize(absolute).replace(/(.)\/$/, '$1'));
+}
+
+// OSC 7 (`ESC ] 7 ; file://host/path`) as printed by zsh/fish/vte prompts and
+// the hook below; OSC 633 `P;Cwd=` from VS Code's own shell integration
+const CWD_OSC_PATTERN = /\x1b\](7|633);([^\x07\x1b]*)(?:\x07|\x1b\\)/g;
+const MAX_PENDING = 4096;
+
+interface CwdReport {
+  cwd: string;
+  /** Host named in an OSC 7 URL; empty for `file:///…` and OSC 633 */
+  host: string;
+}
+
+function parseCwdOsc(code: string, body: string): CwdReport | undefined {
+  if (code === '633') {
+    const cwd = body.startsWith('P;Cwd=')
+      ? body.slice(6).replace(/\\x3b/gi, ';').replace(/\\\\/g, '\\')
+      : '';
+    return cwd ? { cwd, host: '' } : undefined;
+  }
+  if (!body.startsWith('file://')) {
+    return undefined;
+  }
+  const pathStart = body.indexOf('/', 7);
+  if (pathStart === -1) {
+    return undefined;
+  }
+  const host = body.slice(7, pathStart).toLowerCase();
+  const raw = body.slice(pathStart);
+  try {
+    return { cwd: decodeURIComponent(raw), host };
+  } catch {
+    // Shells that do not percent-encode: take the path as printed
+    return { cwd: raw, host };
+  }
+}
+
+/**
+ * Follows the working directory a shell reports through escape codes. Output
+ * arrives in arbitrary chunks, so a sequence cut at a chunk boundary is kept
+ * until the rest arrives.
+ *
+ * The shell starts on the connection's host, so the first host an OSC 7 names
+ * is taken as the server's own hostname; later reports naming another host
+ * (an `ssh` to a further machine inside the terminal) are ignored, as their
+ * paths do not exist on this connection.
+ */
+export class CwdTracker {
+  private pending = '';
+  private shellHost?: string;
+
+  /** Feed terminal output; returns the newest working directory it reported, if any */
+  feed(chunk: string): string | undefined {
+    const text = this.pending + chunk;
+    this.pending = '';
+    if (!text.includes('\x1b')) {
+      return undefined;
+    }
+
+    let cwd: string | undefined;
+    for (const match of text.matchAll(CWD_OSC_PATTERN)) {
+      const report = parseCwdOsc(match[1], match[2]);
+      if (!report) {
+        continue;
+      }
+      if (report.host && report.host !== 'localhost') {
+        this.shellHost = this.shellHost ?? report.host;
+        if (report.host !== this.shellHost) {
+          continue;
+        }
+      }
+      cwd = report.cwd;
+    }
+
+    const open = text.lastIndexOf('\x1b]');
+    const tail = open === -1 ? '' : text.slice(open);
+    if (tail && !/\x07|\x1b\\/.test(tail) && tail.length < MAX_PENDING) {
+      this.pending = tail;
+    } else if (text.endsWith('\x1b')) {
+      this.pending = '\x1b';
+    }
+    return cwd;
+  }
+}
+
+/**
+ * Typed into a new shell by `sshLite.terminal.reportCwd`: makes bash and zsh
+ * print OSC 7 before each prompt. The leading space keeps it out of history
+ * under `HISTCONTROL=ignorespace` / `setopt HIST_IGNORE_SPACE`.
+ */
+export const CWD_REPORT_HOOK =
+  ' if [ -n "$ZSH_VERSION" ]; then _sshlite_cwd() { printf \'\\033]7;file://%s%s\\033\\\\\' "$HOST" "$PWD"; };' +
+  ' precmd_functions+=(_sshlite_cwd);' +
+  ' elif [ -n "$BASH_VERSION" ]; then _sshlite_cwd() { printf \'\\033]7;file://%s%s\\033\\\\\' "$HOSTNAME" "$PWD"; };' +
+  ' PROMPT_COMMAND="_sshlite_cwd${PROMPT_COMMAND:+;$PROMPT_COMMAND}"; fi';
@@ -0,0 +1,90 @@
+import { TerminalScreen } from './terminalScreen';
+
+function screen(cols = 20, rows = 4): TerminalScreen {
+  return new TerminalScreen(cols, rows);
+}
+
+describe('TerminalScreen', () => {
+  it('prints text, handles CR/LF and wraps at the last column', () => {
+    const s = screen(5, 3);
+    s.write('ab\r\ncdefgh');
+    expect(s.text()).toEqual(['ab', 'cdefg', 'h']);
+    expect(s.cursor).toEqual({ x: 1, y: 2 });
+  });
+
+  it('scrolls when output runs past the bottom', () => {
+    const s = screen(10, 2);
+    s.write('one\r\ntwo\r\nthree');
+    expect(s.text()).toEqual(['two', 'three']);
+  });
+
+  it('moves the cursor and erases lines and the display', () => {
+    const s = screen(10, 3);
+    s.write('hello\r\nworld\x1b[1;3H\x1b[K');
+    expect(s.text()).toEqual(['he', 'world', '']);
+    s.write('\x1b[2J\x1b[2;2HX');
+    expect(s.text()).toEqual(['', ' X', '']);
+  });
+
+  it('redraws a prompt line the way shells do on backspace', () => {
+    const s = screen();
+    s.write('$ lss\b \b\b\x1b[K');
+    s.write('s -la');
+    expect(s.text()[0]).toBe('$ ls -la');
+  });
+
+  it('deletes and inserts characters and lines', () => {
+    const s = screen(10, 3);
+    s.write('abcdef\x1b[1;2H\x1b[2P');
+    expect(s.text()[0]).toBe('adef');
+    s.write('\x1b[2@');
+    expect(s.text()[0]).toBe('a  def');
+    s.write('\r\nline2\x1b[1;1H\x1b[L');
+    expect(s.text()).toEqual(['', 'a  def', 'line2']);
+  });
+
+  it('restores the main screen after a full-screen program exits', () => {
+    const s = screen(10, 3);
+    s.write('$ top');
+    s.write('\x1b[?1049h\x1b[H\x1b[2Jtop - 09:12');
+    expect(s.text()[0]).toBe('top - 09:1');
+    s.write('\x1b[?1049l');
+    expect(s.text()[0]).toBe('$ top');
+    expect(s.cursor).toEqual({ x: 5, y: 0 });
+  });
+
+  it('ignores OSC titles and charset selection', () => {
+    const s = screen();
+    s.write('\x1b]0;deploy@web1: ~\x07\x1b(Bok\x1b]7;file://web1/srv\x1b\\!');
+    expect(s.text()[0]).toBe('ok!');
+  });
+
+  it('renders colors as styled spans and escapes HTML', () => {
+    const s = screen(12, 1);
+    s.write('\x1b[1;31mERR\x1b[0m <a>');
+    const [row] = s.renderHtml();
+    expect(row).toContain('<span style="color:var(--vscode-terminal-ansiRed);font-weight:bold">ERR</span>');
+    expect(row).toContain('&lt;a&gt;');
+    expect(row).toContain('class="cursor"');
+  });
+
+  it('renders 256 and true colors', () => {
+    const s = screen(4, 1);
+    s.write('\x1b[38;5;196ma\x1b[48;2;1;2;3mb\x1b[?25l');
+    const [row] = s.renderHtml();
+    expect(row).toContain('color:rgb(255,0,0)');
+    expect(row).toContain('background:rgb(1,2,3)');
+    expect(row).not.toContain('cursor');
+  });
+
+  it('resizes, keeping the cursor row on screen', () => {
+    const s = screen(10, 4);
+    s.write('1\r\n2\r\n3\r\n4');
+    s.resize(5, 2);
+    expect(s.text()).toEqual(['3', '4']);
+    expect(s.cursor).toEqual({ x: 1, y: 1 });
+    s.resize(8, 3);
+    expect(s.rows).toBe(3);
+    expect(s.columns).toBe(8);
+  });
+});
@@ -0,0 +1,480 @@
+/**
+ * A small VT100/xterm screen model for replaying terminal recordings: enough
+ * of the escape sequences shells, prompts, `less`, `top` and editors use
+ * (cursor movement, erase, insert/delete, scroll regions, the alternate
+ * screen, SGR colors) to redraw what the user saw. Not a full emulator: wide
+ * characters take one cell, and modes other than the alternate screen and
+ * cursor visibility are ignored.
+ */
+
+interface CellStyle {
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+}
+
+interface Cell {
+  ch: string;
+  style: CellStyle;
+}
+
+interface Buffer {
+  lines: Cell[][];
+  /** Cursor saved by DECSC / CSI s, or on entering the alternate screen */
+  saved?: { x: number; y: number; style: CellStyle };
+}
+
+const DEFAULT_STYLE: CellStyle = {};
+
+const ANSI_NAMES = ['Black', 'Red', 'Green', 'Yellow', 'Blue', 'Magenta', 'Cyan', 'White'];
+
+/** Theme colors for the 16 ANSI colors, so replays match the user's terminal theme */
+function ansiColor(n: number): string {
+  const name = n < 8 ? ANSI_NAMES[n] : `Bright${ANSI_NAMES[n - 8]}`;
+  return `var(--vscode-terminal-ansi${name})`;
+}
+
+function xterm256(n: number): string {
+  if (n < 16) {
+    return ansiColor(n);
+  }
+  if (n >= 232) {
+    const v = 8 + (n - 232) * 10;
+    return `rgb(${v},${v},${v})`;
+  }
+  const levels = [0, 95, 135, 175, 215, 255];
+  const i = n - 16;
+  return `rgb(${levels[Math.floor(i / 36)]},${levels[Math.floor(i / 6) % 6]},${levels[i % 6]})`;
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function styleCss(style: CellStyle): string {
+  let fg = style.fg;
+  let bg = style.bg;
+  if (style.inverse) {
+    [fg, bg] = [bg ?? 'var(--vscode-terminal-background, var(--vscode-editor-background))', fg ?? 'var(--vscode-terminal-foreground, var(--vscode-editor-foreground))'];
+  }
+  const css: string[] = [];
+  if (fg) { css.push(`color:${fg}`); }
+  if (bg) { css.push(`background:${bg}`); }
+  if (style.bold) { css.push('font-weight:bold'); }
+  if (style.dim) { css.push('opacity:0.6'); }
+  if (style.italic) { css.push('font-style:italic'); }
+  if (style.underline) { css.push('text-decoration:underline'); }
+  return css.join(';');
+}
+
+type ParseState = 'ground' | 'escape' | 'charset' | 'csi' | 'osc' | 'oscEscape';
+
+export class TerminalScreen {
+  private main: Buffer;
+  private alt: Buffer;
+  private buffer: Buffer;
+  private x = 0;
+  private y = 0;
+  private style: CellStyle = DEFAULT_STYLE;
+  private scrollTop = 0;
+  private scrollBottom: number;
+  private cursorVisible = true;
+  private state: ParseState = 'ground';
+  private csi = '';
+
+  constructor(private cols: number, private rowCount: number) {
+    this.main = { lines: this.blankLines(rowCount) };
+    this.alt = { lines: this.blankLines(rowCount) };
+    this.buffer = this.main;
+    this.scrollBottom = rowCount - 1;
+  }
+
+  get columns(): number {
+    return this.cols;
+  }
+
+  get rows(): number {
+    return this.rowCount;
+  }
+
+  get cursor(): { x: number; y: number } {
+    return { x: Math.min(this.x, this.cols - 1), y: this.y };
+  }
+
+  /** Feed terminal output */
+  write(data: string): void {
+    for (const ch of data) {
+      this.feed(ch);
+    }
+  }
+
+  /** Change the size, keeping the cursor row on screen */
+  resize(columns: number, rows: number): void {
+    if (columns < 1 || rows < 1) {
+      return;
+    }
+    // Drop lines above the cursor first so the prompt stays visible
+    const drop = Math.max(0, this.y - rows + 1);
+    for (const buf of [this.main, this.alt]) {
+      buf.lines = buf.lines.map((line) =>
+        line.length > columns ? line.slice(0, columns) : line.concat(this.blankCells(columns - line.length))
+      );
+      if (buf === this.buffer) {
+        buf.lines.splice(0, drop);
+      }
+      buf.lines.length = Math.min(buf.lines.length, rows);
+      while (buf.lines.length < rows) {
+        buf.lines.push(this.blankCells(columns));
+      }
+    }
+    this.cols = columns;
+    this.rowCount = rows;
+    this.y -= drop;
+    this.x = Math.min(this.x, columns);
+    this.scrollTop = 0;
+    this.scrollBottom = rows - 1;
+  }
+
+  /** Plain text of each row, trailing blanks trimmed */
+  text(): string[] {
+    return this.buffer.lines.map((line) => line.map((c) => c.ch).join('').trimEnd());
+  }
+
+  /** Each row as HTML: runs of equally styled cells in `<span style>`; the cursor cell gets class "cursor" */
+  renderHtml(): string[] {
+    const cursor = this.cursor;
+    return this.buffer.lines.map((line, row) => {
+      let html = '';
+      let run = '';
+      let runCss: string | undefined;
+      const flush = () => {
+        if (run) {
+          html += runCss ? `<span style="${runCss}">${escapeHtml(run)}</span>` : escapeHtml(run);
+        }
+        run = '';
+      };
+      line.forEach((cell, col) => {
+        if (this.cursorVisible && row === cursor.y && col === cursor.x) {
+          flush();
+          const css = styleCss(cell.style);
+          html += `<span class="cursor"${css ? ` style="${css}"` : ''}>${escapeHtml(cell.ch)}</span>`;
+          runCss = undefined;
+          return;
+        }
+        const css = styleCss(cell.style);
+        if (css !== runCss) {
+          flush();
+          runCss = css;
+        }
+        run += cell.ch;
+      });
+      flush();
+      return html;
+    });
+  }
+
+  private blankCells(n: number, style: CellStyle = DEFAULT_STYLE): Cell[] {
+    const bg = style.bg ? { bg: style.bg } : DEFAULT_STYLE;
+    return Array.from({ length: Math.max(0, n) }, () => ({ ch: ' ', style: bg }));
+  }
+
+  private blankLines(n: number): Cell[][] {
+    return Array.from({ length: n }, () => this.blankCells(this.cols));
+  }
+
+  private feed(ch: string): void {
+    switch (this.state) {
+      case 'ground':
+        if (ch === '\x1b') {
+          this.state = 'escape';
+        } else if (ch < ' ' || ch === '\x7f') {
+          this.control(ch);
+        } else {
+          this.print(ch);
+        }
+        return;
+      case 'escape':
+        this.state = 'ground';
+        this.escape(ch);
+        return;
+      case 'charset':
+        // ESC ( B and friends: character set designation, ignored
+        this.state = 'ground';
+        return;
+      case 'csi':
+        if (ch >= '@' && ch <= '~') {
+          this.state = 'ground';
+          this.csiDispatch(this.csi, ch);
+        } else {
+          this.csi += ch;
+        }
+        return;
+      case 'osc':
+        // Window titles, cwd (OSC 7), hyperlinks: nothing to draw
+        if (ch === '\x07') {
+          this.state = 'ground';
+        } else if (ch === '\x1b') {
+          this.state = 'oscEscape';
+        }
+        return;
+      case 'oscEscape':
+        this.state = ch === '\\' ? 'ground' : 'osc';
+        return;
+    }
+  }
+
+  private control(ch: string): void {
+    switch (ch) {
+      case '\r': this.x = 0; break;
+      case '\n': case '\v': case '\f': this.lineFeed(); break;
+      case '\b': this.x = Math.max(0, Math.min(this.x, this.cols - 1) - 1); break;
+      case '\t': this.x = Math.min(this.cols - 1, (Math.floor(this.x / 8) + 1) * 8); break;
+      default: break;
+    }
+  }
+
+  private print(ch: string): void {
+    if (this.x >= this.cols) {
+      // Deferred autowrap: the cursor sits past the last column until the next character
+      this.x = 0;
+      this.lineFeed();
+    }
+    this.buffer.lines[this.y][this.x] = { ch, style: this.style };
+    this.x++;
+  }
+
+  private lineFeed(): void {
+    if (this.y === this.scrollBottom) {
+      this.scrollUp(1);
+    } else if (this.y < this.rowCount - 1) {
+      this.y++;
+    }
+  }
+
+  private scrollUp(n: number): void {
+    const lines = this.buffer.lines;
+    for (let i = 0; i < n; i++) {
+      lines.splice(this.scrollTop, 1);
+      lines.splice(this.scrollBottom, 0, this.blankCells(this.cols, this.style));
+    }
+  }
+
+  private scrollDown(n: number): void {
+    const lines = this.buffer.lines;
+    for (let i = 0; i < n; i++) {
+      lines.splice(this.scrollBottom, 1);
+      lines.splice(this.scrollTop, 0, this.blankCells(this.cols, this.style));
+    }
+  }
+
+  private escape(ch: string): void {
+    switch (ch) {
+      case '[': this.state = 'csi'; this.csi = ''; break;
+      case ']': this.state = 'osc'; break;
+      case '(': case ')': case '*': case '+': this.state = 'charset'; break;
+      case '7': this.buffer.saved = { x: this.x, y: this.y, style: this.style }; break;
+      case '8': this.restoreCursor(); break;
+      case 'D': this.lineFeed(); break;
+      case 'E': this.x = 0; this.lineFeed(); break;
+      case 'M':
+        if (this.y === this.scrollTop) {
+          this.scrollDown(1);
+        } else if (this.y > 0) {
+          this.y--;
+        }
+        break;
+      case 'c': this.reset(); break;
+      default: break;
+    }
+  }
+
+  private reset(): void {
+    this.main = { lines: this.blankLines(this.rowCount) };
+    this.alt = { lines: this.blankLines(this.rowCount) };
+    this.buffer = this.main;
+    this.x = 0;
+    this.y = 0;
+    this.style = DEFAULT_STYLE;
+    this.scrollTop = 0;
+    this.scrollBottom = this.rowCount - 1;
+    this.cursorVisible = true;
+  }
+
+  private restoreCursor(): void {
+    const saved = this.buffer.saved;
+    if (saved) {
+      this.x = Math.min(saved.x, this.cols - 1);
+      this.y = Math.min(saved.y, this.rowCount - 1);
+      this.style = saved.style;
+    }
+  }
+
+  private csiDispatch(raw: string, final: string): void {
+    const isPrivate = raw.startsWith('?');
+    const params = (isPrivate ? raw.slice(1) : raw).split(';').map((p) => parseInt(p, 10));
+    const p = (i: number, def = 1) => (Number.isNaN(params[i]) || params[i] === undefined || params[i] === 0 ? def : params[i]);
+    const clampY = (y: number) => Math.max(0, Math.min(this.rowCount - 1, y));
+    const clampX = (x: number) => Math.max(0, Math.min(this.cols - 1, x));
+    const line = this.buffer.lines[this.y];
+
+    if (isPrivate) {
+      if (final === 'h' || final === 'l') {
+        this.setPrivateModes(params, final === 'h');
+      }
+      return;
+    }
+
+    switch (final) {
+      case 'A': this.y = Math.max(this.y >= this.scrollTop ? this.scrollTop : 0, this.y - p(0)); break;
+      case 'B': this.y = Math.min(this.y <= this.scrollBottom ? this.scrollBottom : this.rowCount - 1, this.y + p(0)); break;
+      case 'C': this.x = clampX(this.x + p(0)); break;
+      case 'D': this.x = clampX(Math.min(this.x, this.cols - 1) - p(0)); break;
+      case 'E': this.x = 0; this.y = clampY(this.y + p(0)); break;
+      case 'F': this.x = 0; this.y = clampY(this.y - p(0)); break;
+      case 'G': case '`': this.x = clampX(p(0) - 1); break;
+      case 'd': this.y = clampY(p(0) - 1); break;
+      case 'H': case 'f': this.y = clampY(p(0) - 1); this.x = clampX(p(1) - 1); break;
+      case 'J': this.eraseDisplay(p(0, 0)); break;
+      case 'K': this.eraseLine(p(0, 0)); break;
+      case 'X': {
+        const x = Math.min(this.x, this.cols - 1);
+        line.splice(x, p(0), ...this.blankCells(Math.min(p(0), this.cols - x), this.style));
+        break;
+      }
+      case 'P': {
+        const x = Math.min(this.x, this.cols - 1);
+        const n = Math.min(p(0), this.cols - x);
+        line.splice(x, n);
+        line.push(...this.blankCells(n, this.style));
+        break;
+      }
+      case '@': {
+        const x = Math.min(this.x, this.cols - 1);
+        const n = Math.min(p(0), this.cols - x);
+        line.splice(x, 0, ...this.blankCells(n, this.style));
+        line.length = this.cols;
+        break;
+      }
+      case 'L': case 'M': {
+        if (this.y < this.scrollTop || this.y > this.scrollBottom) {
+          break;
+        }
+        const top = this.scrollTop;
+        this.scrollTop = this.y;
+        if (final === 'L') {
+          this.scrollDown(Math.min(p(0), this.scrollBottom - this.y + 1));
+        } else {
+          this.scrollUp(Math.min(p(0), this.scrollBottom - this.y + 1));
+        }
+        this.scrollTop = top;
+        this.x = 0;
+        break;
+      }
+      case 'S': this.scrollUp(p(0)); break;
+      case 'T': this.scrollDown(p(0)); break;
+      case 'r': {
+        const top = p(0) - 1;
+        const bottom = params[1] ? params[1] - 1 : this.rowCount - 1;
+        if (top < bottom && bottom < this.rowCount) {
+          this.scrollTop = top;
+          this.scrollBottom = bottom;
+          this.x = 0;
+          this.y = 0;
+        }
+        break;
+      }
+      case 's': this.buffer.saved = { x: this.x, y: this.y, style: this.style }; break;
+      case 'u': this.restoreCursor(); break;
+      case 'm': this.sgr(raw === '' ? [0] : params.map((n) => (Number.isNaN(n) ? 0 : n))); break;
+      default: break;
+    }
+  }
+
+  private setPrivateModes(modes: number[], on: boolean): void {
+    for (const mode of modes) {
+      if (mode === 25) {
+        this.cursorVisible = on;
+      } else if (mode === 47 || mode === 1047 || mode === 1049) {
+        if (on && this.buffer !== this.alt) {
+          this.main.saved = { x: this.x, y: this.y, style: this.style };
+          this.alt = { lines: this.blankLines(this.rowCount) };
+          this.buffer = this.alt;
+        } else if (!on && this.buffer === this.alt) {
+          this.buffer = this.main;
+          this.restoreCursor();
+        }
+      }
+    }
+  }
+
+  private eraseDisplay(mode: number): void {
+    const lines = this.buffer.lines;
+    if (mode === 0) {
+      this.eraseLine(0);
+      for (let y = this.y + 1; y < this.rowCount; y++) {
+        lines[y] = this.blankCells(this.cols, this.style);
+      }
+    } else if (mode === 1) {
+      this.eraseLine(1);
+      for (let y = 0; y < this.y; y++) {
+        lines[y] = this.blankCells(this.cols, this.style);
+      }
+    } else {
+      for (let y = 0; y < this.rowCount; y++) {
+        lines[y] = this.blankCells(this.cols, this.style);
+      }
+    }
+  }
+
+  private eraseLine(mode: number): void {
+    const line = this.buffer.lines[this.y];
+    const x = Math.min(this.x, this.cols - 1);
+    const [from, to] = mode === 0 ? [x, this.cols] : mode === 1 ? [0, x + 1] : [0, this.cols];
+    const blank = this.blankCells(to - from, this.style);
+    for (let i = from; i < to; i++) {
+      line[i] = blank[i - from];
+    }
+  }
+
+  private sgr(codes: number[]): void {
+    const s: CellStyle = { ...this.style };
+    for (let i = 0; i < codes.length; i++) {
+      const c = codes[i];
+      if (c === 0) {
+        for (const k of Object.keys(s) as Array<keyof CellStyle>) { delete s[k]; }
+      } else if (c === 1) { s.bold = true; }
+      else if (c === 2) { s.dim = true; }
+      else if (c === 3) { s.italic = true; }
+      else if (c === 4) { s.underline = true; }
+      else if (c === 7) { s.inverse = true; }
+      else if (c === 22) { delete s.bold; delete s.dim; }
+      else if (c === 23) { delete s.italic; }
+      else if (c === 24) { delete s.underline; }
+      else if (c === 27) { delete s.inverse; }
+      else if (c >= 30 && c <= 37) { s.fg = ansiColor(c - 30); }
+      else if (c >= 40 && c <= 47) { s.bg = ansiColor(c - 40); }
+      else if (c >= 90 && c <= 97) { s.fg = ansiColor(c - 90 + 8); }
+      else if (c >= 100 && c <= 107) { s.bg = ansiColor(c - 100 + 8); }
+      else if (c === 39) { delete s.fg; }
+      else if (c === 49) { delete s.bg; }
+      else if (c === 38 || c === 48) {
+        let color: string | undefined;
+        if (codes[i + 1] === 5 && codes[i + 2] !== undefined) {
+          color = xterm256(codes[i + 2]);
+          i += 2;
+        } else if (codes[i + 1] === 2 && codes[i + 4] !== undefined) {
+          color = `rgb(${codes[i + 2]},${codes[i + 3]},${codes[i + 4]})`;
+          i += 4;
+        }
+        if (color) {
+          s[c === 38 ? 'fg' : 'bg'] = color;
+        }
+      }
+    }
+    this.style = Object.keys(s).length ? s : DEFAULT_STYLE;
+  }
+}
@@ -0,0 +1,50 @@
+import { parseTotpSecret, generateTotp, totpCounter } from './totp';
+
+// RFC 6238 appendix B test secrets ("12345678901234567890" repeated to the hash size), base32 encoded
+const SHA1_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const SHA256_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQGEZA';
+
+describe('totp', () => {
+  describe('parseTotpSecret', () => {
+    it('decodes base32, ignoring case, spaces, dashes and padding', () => {
+      const a = parseTotpSecret(SHA1_SECRET);
+      const b = parseTotpSecret(' gezd gnbv-gy3t qojq gezd gnbv gy3t qojq== ');
+      expect(a.key.toString()).toBe('12345678901234567890');
+      expect(b.key.equals(a.key)).toBe(true);
+      expect(a).toMatchObject({ digits: 6, period: 30, algorithm: 'sha1' });
+    });
+
+    it('reads secret, digits, period and algorithm from an otpauth URI', () => {
+      const p = parseTotpSecret(`otpauth://totp/corp:alice?secret=${SHA256_SECRET}&digits=8&period=60&algorithm=SHA256&issuer=corp`);
+      expect(p).toMatchObject({ digits: 8, period: 60, algorithm: 'sha256' });
+      expect(p.key.toString()).toBe('12345678901234567890123456789012');
+    });
+
+    it('rejects non-base32 input and HOTP URIs', () => {
+      expect(() => parseTotpSecret('not a secret!')).toThrow('base32');
+      expect(() => parseTotpSecret(`otpauth://hotp/x?secret=${SHA1_SECRET}`)).toThrow('time-based');
+      expect(() => parseTotpSecret('otpauth://totp/x')).toThrow('no secret');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it.each([
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1234567890, '89005924'],
+      [20000000000, '65353130'],
+    ])('matches the RFC 6238 SHA1 vector at T=%i', (seconds, expected) => {
+      const params = { ...parseTotpSecret(SHA1_SECRET), digits: 8 };
+      expect(generateTotp(params, totpCounter(params, seconds * 1000))).toBe(expected);
+    });
+
+    it('matches the RFC 6238 SHA256 vector', () => {
+      const params = { ...parseTotpSecret(SHA256_SECRET), digits: 8, algorithm: 'sha256' as const };
+      expect(generateTotp(params, totpCounter(params, 59 * 1000))).toBe('46119246');
+    });
+
+    it('defaults to 6 digits for the current step', () => {
+      expect(generateTotp(parseTotpSecret(SHA1_SECRET))).toMatch(/^\d{6}$/);
+    });
+  });
+});
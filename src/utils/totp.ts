@@ -0,0 +1,87 @@
+import * as crypto from 'crypto';
+
+/**
+ * RFC 6238 time-based one-time passwords, for filling the "Verification code"
+ * prompt of PAM second factors (google-authenticator, oathtool, ...).
+ *
+ * A secret is accepted either as the base32 string authenticator apps show
+ * ("JBSW Y3DP EHPK 3PXP", spaces/dashes/case ignored) or as the full
+ * `otpauth://totp/...?secret=...` URI from the enrolment QR code, which may
+ * also carry `digits`, `period` and `algorithm`.
+ */
+
+export interface TotpParams {
+  key: Buffer;
+  digits: number;
+  /** Time step in seconds */
+  period: number;
+  algorithm: 'sha1' | 'sha256' | 'sha512';
+}
+
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function decodeBase32(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s-]/g, '').replace(/=+$/, '');
+  if (!clean || /[^A-Z2-7]/.test(clean)) {
+    throw new Error('TOTP secret must be base32 (A–Z, 2–7) or an otpauth:// URI');
+  }
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const ch of clean) {
+    value = (value << 5) | BASE32.indexOf(ch);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** Parse a base32 secret or otpauth:// URI. Throws on anything else. */
+export function parseTotpSecret(input: string): TotpParams {
+  const trimmed = input.trim();
+  if (!/^otpauth:/i.test(trimmed)) {
+    return { key: decodeBase32(trimmed), digits: 6, period: 30, algorithm: 'sha1' };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error('Invalid otpauth:// URI');
+  }
+  if (url.host.toLowerCase() !== 'totp') {
+    throw new Error(`Only time-based (otpauth://totp) secrets are supported, not ${url.host}`);
+  }
+  const secret = url.searchParams.get('secret');
+  if (!secret) {
+    throw new Error('otpauth:// URI has no secret');
+  }
+  const digits = parseInt(url.searchParams.get('digits') ?? '6', 10);
+  const period = parseInt(url.searchParams.get('period') ?? '30', 10);
+  const algorithm = (url.searchParams.get('algorithm') ?? 'SHA1').toLowerCase();
+  if (algorithm !== 'sha1' && algorithm !== 'sha256' && algorithm !== 'sha512') {
+    throw new Error(`Unsupported TOTP algorithm: ${algorithm}`);
+  }
+  if (!(digits >= 6 && digits <= 10) || !(period > 0)) {
+    throw new Error('Invalid TOTP digits or period');
+  }
+  return { key: decodeBase32(secret), digits, period, algorithm };
+}
+
+/** Time step a moment falls in. */
+export function totpCounter(params: TotpParams, now: number = Date.now()): number {
+  return Math.floor(now / 1000 / params.period);
+}
+
+/** The code for a time step (RFC 4226 HOTP over the step counter). */
+export function generateTotp(params: TotpParams, counter: number = totpCounter(params)): string {
+  const msg = Buffer.alloc(8);
+  msg.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac(params.algorithm, params.key).update(msg).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** params.digits).toString().padStart(params.digits, '0');
+}
@@ -0,0 +1,97 @@
+/**
+ * PropertiesPanel tests — editable permissions and ownership. The panel
+ * resolves with only what changed; invalid input is bounced back to the
+ * webview instead of resolving. Driven via the createWebviewPanel mock.
+ */
+
+import * as vscode from 'vscode';
+import { IRemoteProperties } from '../types';
+import { PropertiesPanel } from './PropertiesPanel';
+
+const ROOT = { name: 'root', id: 0 };
+const WWW = { name: 'www-data', id: 33 };
+const ACCOUNTS = { users: [ROOT, WWW], groups: [ROOT, WWW] };
+const OPTS = { hostName: 'prod', canEditOwnership: true };
+
+const DIR: IRemoteProperties = {
+  path: '/var/www',
+  isDirectory: true,
+  type: 'directory',
+  size: 4096,
+  mode: 0o2775,
+  symbolic: 'drwxrwsr-x',
+  owner: ROOT,
+  group: WWW,
+  modified: '2026-05-19 14:30:21 +0000',
+  accessed: '2026-05-19 14:30:21 +0000',
+  quotedName: "'/var/www'",
+};
+const FILE: IRemoteProperties = { ...DIR, path: '/var/www/index.php', isDirectory: false, type: 'regular file', mode: 0o644, symbolic: '-rw-r--r--' };
+
+const lastPanel = () => (vscode.window.createWebviewPanel as jest.Mock).mock.results.at(-1)!.value;
+const html = () => lastPanel().webview.html as string;
+const apply = (msg: Record<string, unknown>) =>
+  lastPanel()._fireMessage({ type: 'apply', mode: '0644', owner: 'root', group: 'www-data', recursive: false, ...msg });
+
+describe('PropertiesPanel', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('renders the rwx grid, special bits, octal input and owner/group pickers', () => {
+    const p = PropertiesPanel.edit(DIR, ACCOUNTS, OPTS);
+    const h = html();
+    expect(h).toContain('data-bit="256"'); // owner read
+    expect(h).toContain('id="setgid" checked');
+    expect(h).toContain('value="2775"');
+    expect(h).toContain('drwxrwsr-x');
+    expect(h).toContain('<option value="www-data" selected>www-data (33)</option>');
+    expect(h).toContain('id="recursive"');
+    lastPanel()._fireMessage({ type: 'cancel' });
+    return p;
+  });
+
+  it('offers the recursive option for folders only', () => {
+    const p = PropertiesPanel.edit(FILE, ACCOUNTS, OPTS);
+    expect(html()).not.toContain('id="recursive"');
+    lastPanel()._fireMessage({ type: 'cancel' });
+    return p;
+  });
+
+  it('resolves with only the changed parts', async () => {
+    const p = PropertiesPanel.edit(FILE, ACCOUNTS, OPTS);
+    apply({ mode: '640', owner: 'www-data' });
+    expect(await p).toEqual({ mode: 0o640, owner: WWW });
+  });
+
+  it('always sends both modes for a recursive change', async () => {
+    const p = PropertiesPanel.edit(DIR, ACCOUNTS, OPTS);
+    apply({ mode: '2775', fileMode: '0664', recursive: true });
+    expect(await p).toEqual({ recursive: true, mode: 0o2775, fileMode: 0o664 });
+  });
+
+  it('resolves undefined when nothing changed', async () => {
+    const p = PropertiesPanel.edit(FILE, ACCOUNTS, OPTS);
+    apply({});
+    expect(await p).toBeUndefined();
+  });
+
+  it('bounces invalid modes and unknown accounts back to the webview', async () => {
+    const p = PropertiesPanel.edit(FILE, ACCOUNTS, OPTS);
+    apply({ mode: '0999' });
+    apply({ owner: 'nobody' });
+    const posted = (lastPanel().webview.postMessage as jest.Mock).mock.calls.map((c) => c[0]);
+    expect(posted).toEqual([
+      { type: 'invalid', message: expect.stringContaining('octal') },
+      { type: 'invalid', message: 'Unknown user on this server: nobody' },
+    ]);
+    lastPanel()._fireDispose();
+    expect(await p).toBeUndefined();
+  });
+
+  it('escapes HTML in paths and account names', () => {
+    const p = PropertiesPanel.edit({ ...FILE, path: '/tmp/<img src=x>' }, ACCOUNTS, { ...OPTS, hostName: '<b>h</b>' });
+    expect(html()).not.toContain('<img src=x>');
+    expect(html()).not.toContain('<b>h</b>');
+    lastPanel()._fireMessage({ type: 'cancel' });
+    return p;
+  });
+});
@@ -0,0 +1,389 @@
+import * as vscode from 'vscode';
+import { IPermissionChange, IRemoteAccount, IRemoteProperties } from '../types';
+import { infoLog, diagLog } from '../utils/diagnosticLog';
+import { formatFileSize } from '../utils/helpers';
+import {
+  formatOctalMode,
+  formatSymbolicMode,
+  isEmptyPermissionChange,
+  isValidAccountName,
+  parseOctalMode,
+} from '../utils/permissions';
+
+interface PropertiesMessage {
+  type?: string;
+  mode?: unknown;
+  fileMode?: unknown;
+  owner?: unknown;
+  group?: unknown;
+  recursive?: unknown;
+  level?: string;
+  scope?: string;
+  event?: string;
+  payload?: unknown;
+  message?: string;
+  stack?: string;
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Webview panel showing a remote file's properties with editable permissions
+ * and ownership: an rwx checkbox grid kept in sync with an octal input,
+ * setuid/setgid/sticky, owner/group pickers, and (folders only) a recursive
+ * option with separate folder and file modes. Resolves with only the parts
+ * the user actually changed, or undefined if cancelled / closed / unchanged.
+ */
+export class PropertiesPanel {
+  static readonly viewType = 'sshLiteProperties';
+
+  static edit(
+    props: IRemoteProperties,
+    accounts: { users: IRemoteAccount[]; groups: IRemoteAccount[] },
+    opts: { hostName: string; canEditOwnership: boolean }
+  ): Promise<IPermissionChange | undefined> {
+    const name = props.path.split('/').pop() || props.path;
+
+    return new Promise((resolve) => {
+      const panel = vscode.window.createWebviewPanel(
+        PropertiesPanel.viewType,
+        `Properties: ${name}`,
+        vscode.ViewColumn.Active,
+        { enableScripts: true, retainContextWhenHidden: false }
+      );
+
+      let settled = false;
+      const finish = (value: IPermissionChange | undefined): void => {
+        if (!settled) {
+          settled = true;
+          resolve(value);
+        }
+        try {
+          panel.dispose();
+        } catch {
+          // already disposed
+        }
+      };
+
+      panel.webview.onDidReceiveMessage((raw: PropertiesMessage) => {
+        switch (raw?.type) {
+          case 'apply': {
+            const change = PropertiesPanel.toChange(raw, props, accounts);
+            if (typeof change === 'string') {
+              panel.webview.postMessage({ type: 'invalid', message: change });
+              break;
+            }
+            infoLog('properties-panel', 'apply', {
+              mode: change?.mode !== undefined,
+              owner: !!change?.owner,
+              group: !!change?.group,
+              recursive: !!change?.recursive,
+            });
+            finish(change);
+            break;
+          }
+          case 'cancel': {
+            infoLog('properties-panel', 'cancel', {});
+            finish(undefined);
+            break;
+          }
+          case 'log': {
+            const scope = typeof raw.scope === 'string' ? raw.scope : 'properties-webview';
+            const event = typeof raw.event === 'string' ? raw.event : 'unknown';
+            const payload =
+              raw.payload && typeof raw.payload === 'object' ? (raw.payload as Record<string, unknown>) : undefined;
+            if (raw.level === 'diag') {
+              diagLog(scope, event, payload);
+            } else {
+              infoLog(scope, event, payload);
+            }
+            break;
+          }
+          case 'webviewError': {
+            infoLog('properties-webview', 'error', {
+              message: typeof raw.message === 'string' ? raw.message : 'unknown',
+              stack: typeof raw.stack === 'string' ? raw.stack : undefined,
+            });
+            break;
+          }
+          default:
+            break;
+        }
+      });
+
+      panel.onDidDispose(() => {
+        if (!settled) {
+          settled = true;
+          resolve(undefined);
+        }
+      });
+
+      panel.webview.html = PropertiesPanel.getHtml(panel.webview, props, accounts, opts);
+      infoLog('properties-panel', 'open', {
+        isDirectory: props.isDirectory,
+        users: accounts.users.length,
+        groups: accounts.groups.length,
+      });
+    });
+  }
+
+  /**
+   * Validate an `apply` message and reduce it to what changed. Returns an
+   * error message for the webview when something is invalid, or undefined
+   * when nothing changed (treated like cancel).
+   */
+  private static toChange(
+    raw: PropertiesMessage,
+    props: IRemoteProperties,
+    accounts: { users: IRemoteAccount[]; groups: IRemoteAccount[] }
+  ): IPermissionChange | string | undefined {
+    const recursive = props.isDirectory && raw.recursive === true;
+    const mode = typeof raw.mode === 'string' ? parseOctalMode(raw.mode) : undefined;
+    if (mode === undefined) {
+      return 'Mode must be 3 or 4 octal digits, e.g. 0755.';
+    }
+    let fileMode: number | undefined;
+    if (recursive) {
+      fileMode = typeof raw.fileMode === 'string' ? parseOctalMode(raw.fileMode) : undefined;
+      if (fileMode === undefined) {
+        return 'File mode must be 3 or 4 octal digits, e.g. 0644.';
+      }
+    }
+
+    const pick = (value: unknown, list: IRemoteAccount[], current: IRemoteAccount, kind: string): IRemoteAccount | string | undefined => {
+      if (typeof value !== 'string' || value === current.name) {
+        return undefined;
+      }
+      if (!isValidAccountName(value)) {
+        return `Invalid ${kind} name: ${value}`;
+      }
+      return list.find((a) => a.name === value) ?? `Unknown ${kind} on this server: ${value}`;
+    };
+    const owner = pick(raw.owner, accounts.users, props.owner, 'user');
+    if (typeof owner === 'string') {
+      return owner;
+    }
+    const group = pick(raw.group, accounts.groups, props.group, 'group');
+    if (typeof group === 'string') {
+      return group;
+    }
+
+    const change: IPermissionChange = {};
+    if (recursive) {
+      // Recursive applies both modes to every entry, even if the folder's own mode is unchanged
+      change.recursive = true;
+      change.mode = mode;
+      change.fileMode = fileMode;
+    } else if (mode !== (props.mode & 0o7777)) {
+      change.mode = mode;
+    }
+    if (owner) {
+      change.owner = owner;
+    }
+    if (group) {
+      change.group = group;
+    }
+    return isEmptyPermissionChange(change) ? undefined : change;
+  }
+
+  private static makeNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let s = '';
+    for (let i = 0; i < 32; i++) {
+      s += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return s;
+  }
+
+  /** `<option>`s for an owner/group picker; the current account is listed even if getent missed it. */
+  private static optionsHtml(list: IRemoteAccount[], current: IRemoteAccount): string {
+    const all = list.some((a) => a.name === current.name) ? list : [current, ...list];
+    return all
+      .map((a) => `<option value="${escapeHtml(a.name)}"${a.name === current.name ? ' selected' : ''}>${escapeHtml(a.name)} (${a.id})</option>`)
+      .join('');
+  }
+
+  private static getHtml(
+    webview: vscode.Webview,
+    props: IRemoteProperties,
+    accounts: { users: IRemoteAccount[]; groups: IRemoteAccount[] },
+    opts: { hostName: string; canEditOwnership: boolean }
+  ): string {
+    const nonce = PropertiesPanel.makeNonce();
+    const cspSource = webview.cspSource;
+    const csp = [
+      `default-src 'none'`,
+      `style-src ${cspSource} 'unsafe-inline'`,
+      `script-src 'nonce-${nonce}'`,
+      `font-src ${cspSource}`,
+    ].join('; ');
+
+    const mode = props.mode & 0o7777;
+    // Files under a folder rarely want the execute bits the folder needs
+    const defaultFileMode = mode & 0o666;
+    const size = !isNaN(props.size) ? `${props.size} bytes (${formatFileSize(props.size)})` : '';
+    const info: Array<[string, string]> = [
+      ['Path', props.path],
+      ['Type', props.type],
+      ['Size', size],
+      ['Modified', props.modified],
+      ['Accessed', props.accessed],
+    ];
+    const infoHtml = info
+      .filter(([, v]) => v)
+      .map(([k, v]) => `<div class="k">${k}</div><div class="v">${escapeHtml(v)}</div>`)
+      .join('');
+
+    const bit = (who: string, label: string, value: number): string =>
+      `<td><input type="checkbox" data-bit="${value}" aria-label="${who} ${label}"${mode & value ? ' checked' : ''} /></td>`;
+    const gridRow = (who: string, shift: number): string =>
+      `<tr><th>${who}</th>${bit(who, 'read', 4 << shift)}${bit(who, 'write', 2 << shift)}${bit(who, 'execute', 1 << shift)}</tr>`;
+    const special = (id: string, label: string, value: number, hint: string): string =>
+      `<label title="${hint}"><input type="checkbox" data-bit="${value}" id="${id}"${mode & value ? ' checked' : ''} /> ${label}</label>`;
+    const ownershipDisabled = opts.canEditOwnership ? '' : ' disabled';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta http-equiv="Content-Security-Policy" content="${csp}" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<style>
+  body { font-family: var(--vscode-font-family); color: var(--vscode-editor-foreground); background: var(--vscode-editor-background); margin: 0; padding: 16px 20px; }
+  h1 { font-size: 1.15rem; margin: 0 0 4px; overflow-wrap: anywhere; }
+  .summary { color: var(--vscode-descriptionForeground); font-size: 0.85rem; margin-bottom: 12px; }
+  h2 { font-size: 0.72rem; text-transform: uppercase; letter-spacing: 0.04em; color: var(--vscode-descriptionForeground); margin: 18px 0 8px; }
+  .info { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; font-size: 0.85rem; }
+  .info .k { color: var(--vscode-descriptionForeground); }
+  .info .v { overflow-wrap: anywhere; }
+  table.grid { border-collapse: collapse; }
+  table.grid th, table.grid td { padding: 4px 14px 4px 0; text-align: center; font-weight: normal; }
+  table.grid th:first-child { text-align: left; }
+  .row { display: flex; align-items: center; gap: 12px; margin: 8px 0; flex-wrap: wrap; }
+  .row label { display: flex; align-items: center; gap: 4px; }
+  .mono { font-family: var(--vscode-editor-font-family, monospace); }
+  input[type=text], select { font-family: inherit; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 3px 6px; }
+  input.octal { width: 5em; font-family: var(--vscode-editor-font-family, monospace); }
+  input.bad { border-color: var(--vscode-inputValidation-errorBorder, #be1100); }
+  .hint { color: var(--vscode-descriptionForeground); font-size: 0.8rem; }
+  .error { color: var(--vscode-errorForeground); font-size: 0.85rem; min-height: 1.2em; margin-top: 10px; }
+  .recursive-only { display: none; }
+  body.recursive .recursive-only { display: flex; }
+  button { font-family: inherit; font-size: 0.85rem; border: none; border-radius: 4px; padding: 5px 12px; cursor: pointer; }
+  footer { display: flex; justify-content: flex-end; gap: 8px; padding-top: 12px; margin-top: 12px; border-top: 1px solid var(--vscode-input-border, transparent); }
+  .primary { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+  .primary:hover { background: var(--vscode-button-hoverBackground); }
+  .secondary { background: var(--vscode-button-secondaryBackground, #3a3d41); color: var(--vscode-button-secondaryForeground, #fff); }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(props.path.split('/').pop() || props.path)}</h1>
+  <div class="summary">${escapeHtml(opts.hostName)} · <span class="mono" id="symbolic">${formatSymbolicMode(mode, props.isDirectory)}</span></div>
+  <div class="info">${infoHtml}</div>
+
+  <h2>Permissions</h2>
+  <table class="grid">
+    <tr><th></th><th>Read</th><th>Write</th><th>Execute</th></tr>
+    ${gridRow('Owner', 6)}
+    ${gridRow('Group', 3)}
+    ${gridRow('Others', 0)}
+  </table>
+  <div class="row">
+    ${special('setuid', 'Set user ID', 0o4000, 'Run as the file owner (setuid)')}
+    ${special('setgid', 'Set group ID', 0o2000, props.isDirectory ? 'New entries inherit the folder group (setgid)' : 'Run as the file group (setgid)')}
+    ${special('sticky', 'Sticky', 0o1000, 'Only owners may delete or rename entries (sticky bit)')}
+  </div>
+  <div class="row">
+    <label for="mode">Octal</label>
+    <input type="text" class="octal" id="mode" value="${formatOctalMode(mode)}" maxlength="4" />
+  </div>
+
+  <h2>Ownership</h2>
+  <div class="row">
+    <label for="owner">Owner</label>
+    <select id="owner"${ownershipDisabled}>${PropertiesPanel.optionsHtml(accounts.users, props.owner)}</select>
+    <label for="group">Group</label>
+    <select id="group"${ownershipDisabled}>${PropertiesPanel.optionsHtml(accounts.groups, props.group)}</select>
+  </div>
+  ${opts.canEditOwnership ? '' : '<div class="hint">Could not list users and groups on this server.</div>'}
+  ${props.isDirectory ? `
+  <h2>Apply to contents</h2>
+  <div class="row">
+    <label><input type="checkbox" id="recursive" /> Apply to all files and folders inside</label>
+  </div>
+  <div class="row recursive-only">
+    <span class="hint">Folders get the mode above.</span>
+    <label for="fileMode">Files</label>
+    <input type="text" class="octal" id="fileMode" value="${formatOctalMode(defaultFileMode)}" maxlength="4" />
+  </div>` : ''}
+  <div class="error" id="error"></div>
+  <footer>
+    <button class="secondary" id="cancel">Cancel</button>
+    <button class="primary" id="apply">Apply</button>
+  </footer>
+  <script nonce="${nonce}">
+    var vscode = acquireVsCodeApi();
+    try { vscode.postMessage({ type: 'log', level: 'info', scope: 'properties-webview', event: 'ready', payload: { isDirectory: ${props.isDirectory} } }); } catch (e) {}
+    var isDirectory = ${props.isDirectory};
+    var bits = Array.prototype.slice.call(document.querySelectorAll('input[data-bit]'));
+    var modeEl = document.getElementById('mode');
+    var fileModeEl = document.getElementById('fileMode');
+    var recursiveEl = document.getElementById('recursive');
+    var symbolicEl = document.getElementById('symbolic');
+    var errorEl = document.getElementById('error');
+    function valid(text) { return /^[0-7]{3,4}$/.test(text.trim()); }
+    function symbolic(m) {
+      function t(shift, special, ch) {
+        var b = (m >> shift) & 7, x = b & 1;
+        var e = (m & special) ? (x ? ch : ch.toUpperCase()) : (x ? 'x' : '-');
+        return ((b & 4) ? 'r' : '-') + ((b & 2) ? 'w' : '-') + e;
+      }
+      return (isDirectory ? 'd' : '-') + t(6, 2048, 's') + t(3, 1024, 's') + t(0, 512, 't');
+    }
+    // Checkboxes -> octal
+    function fromBits() {
+      var m = 0;
+      bits.forEach(function (b) { if (b.checked) { m |= parseInt(b.getAttribute('data-bit'), 10); } });
+      modeEl.value = ('000' + m.toString(8)).slice(-4);
+      modeEl.classList.remove('bad');
+      symbolicEl.textContent = symbolic(m);
+    }
+    // Octal -> checkboxes
+    function fromOctal() {
+      var ok = valid(modeEl.value);
+      modeEl.classList.toggle('bad', !ok);
+      if (!ok) { return; }
+      var m = parseInt(modeEl.value.trim(), 8);
+      bits.forEach(function (b) { b.checked = (m & parseInt(b.getAttribute('data-bit'), 10)) !== 0; });
+      symbolicEl.textContent = symbolic(m);
+    }
+    bits.forEach(function (b) { b.addEventListener('change', fromBits); });
+    modeEl.addEventListener('input', fromOctal);
+    if (fileModeEl) { fileModeEl.addEventListener('input', function () { fileModeEl.classList.toggle('bad', !valid(fileModeEl.value)); }); }
+    if (recursiveEl) { recursiveEl.addEventListener('change', function () { document.body.classList.toggle('recursive', recursiveEl.checked); }); }
+    window.addEventListener('message', function (e) { if (e.data && e.data.type === 'invalid') { errorEl.textContent = e.data.message; } });
+    document.getElementById('cancel').addEventListener('click', function () { vscode.postMessage({ type: 'cancel' }); });
+    document.getElementById('apply').addEventListener('click', function () {
+      errorEl.textContent = '';
+      vscode.postMessage({
+        type: 'apply',
+        mode: modeEl.value,
+        fileMode: fileModeEl ? fileModeEl.value : undefined,
+        recursive: !!(recursiveEl && recursiveEl.checked),
+        owner: document.getElementById('owner').value,
+        group: document.getElementById('group').value
+      });
+    });
+    window.addEventListener('error', function (e) { try { vscode.postMessage({ type: 'webviewError', message: String(e.message), stack: e.error && e.error.stack }); } catch (x) {} });
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { SSHConnection } from '../connection/SSHConnection';
-import { hasCapability } from '../utils/capabilityGuard';
+import { hasCapability, isSftpOnly } from '../utils/capabilityGuard';
 import { IHostConfig } from '../types';
 import { SavedCredential } from '../services/CredentialService';
 import { formatFileSize, formatRelativeTime } from '../utils/helpers';
@@ -1077,8 +1077,11 @@ export class SearchPanel {
           const connection = connectionMap.get(server.id);
           if (!connection) continue; // failed to connect
           // Backstop: remote search needs find/grep over a shell. FTP scopes are
-          // already excluded at entry, but never call searchFiles on one.
-          if (!hasCapability(connection, 'supportsSearch')) continue;
+          // already excluded at entry, but never call searchFiles on one. An
+          // SFTP-only server goes through: searchFiles() walks it over SFTP for
+          // filenames and reports content search as unavailable.
+          const sftpOnly = isSftpOnly(connection);
+          if (!hasCapability(connection, 'supportsSearch') && !sftpOnly) continue;
 
           // Filter out redundant child paths (already covered by parent)
           // Default to / if no paths specified (user checked server without adding paths)
@@ -1093,7 +1096,7 @@ export class SearchPanel {
             if (signal.aborted) break;
 
             // File-level worker pool: list entries per directory level, batch files to workers
-            if (parallelProcesses > 1 && !sp.isFile) {
+            if (parallelProcesses > 1 && !sp.isFile && !sftpOnly) {
               // 32KB batch limit — safe across all server OS variants (Linux, macOS, FreeBSD, Solaris, AIX)
               const MAX_BATCH_BYTES = 32_000;
               // Pass glob patterns to listEntries (supports comma-separated, but not brace expansion)
@@ -1419,7 +1422,7 @@ export class SearchPanel {
           // entry, but a scope can also arrive via searchInScope — skip rather than hit
           // a runtime "searchFiles is not a function" TypeError. Mirrors the server-list
           // branch guard above.
-          if (!hasCapability(connection, 'supportsSearch')) {
+          if (!hasCapability(connection, 'supportsSearch') && !isSftpOnly(connection)) {
             diagLog('search', 'legacy/scope-skipped-no-search', { scope: scope.displayName, connectionId: connection.id });
             return [];
           }
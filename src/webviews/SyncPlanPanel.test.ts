@@ -0,0 +1,103 @@
+/**
+ * SyncPlanPanel tests — the dry-run review. The panel resolves with the
+ * ticked items (conflicts resolved to the side the user picked), drops
+ * anything the plan did not allow, and resolves undefined on cancel/close.
+ */
+
+import * as vscode from 'vscode';
+import { ISyncPlanItem, ISyncProfile } from '../types';
+import { SyncPlanPanel } from './SyncPlanPanel';
+
+const PROFILE: ISyncProfile = {
+  id: 'sync-1',
+  name: 'site <prod>',
+  hostId: 'web:22:deploy',
+  localPath: '/home/me/site',
+  remotePath: '/var/www/site',
+  direction: 'both',
+  excludes: [],
+  useChecksum: false,
+};
+const STATE = { size: 2048, mtime: 1_700_000_000_000 };
+const PLAN: ISyncPlanItem[] = [
+  { path: 'a.txt', kind: 'new', action: 'upload', local: STATE },
+  { path: 'b.txt', kind: 'changed', action: 'download', local: STATE, remote: STATE },
+  { path: 'c.txt', kind: 'conflict', action: 'skip', local: STATE, remote: STATE },
+  { path: 'd.txt', kind: 'conflict', action: 'skip', remote: STATE },
+  { path: 'old.txt', kind: 'deleted', action: 'deleteRemote', remote: STATE },
+];
+
+const lastPanel = () => (vscode.window.createWebviewPanel as jest.Mock).mock.results.at(-1)!.value;
+const html = () => lastPanel().webview.html as string;
+const open = (notes?: string[]) => SyncPlanPanel.review(PLAN, { profile: PROFILE, hostName: 'web', notes });
+
+describe('SyncPlanPanel', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('renders sections, escaped names, bulk conflict buttons and notes', () => {
+    const p = open(['Checksums need a shell']);
+    const h = html();
+    expect(h).toContain('site &lt;prod&gt;');
+    expect(h).toContain('Conflicts (2)');
+    expect(h).toContain('New (1)');
+    expect(h).toContain('data-resolve="server">Keep server');
+    expect(h).toContain('data-path="a.txt" data-action="upload" checked');
+    expect(h).toContain('<option value="skip" selected>');
+    expect(h).toContain('Checksums need a shell');
+    expect(h).toContain('2 KB');
+    lastPanel()._fireMessage({ type: 'cancel' });
+    return p;
+  });
+
+  it('omits the bulk conflict buttons when there are no conflicts', () => {
+    const p = SyncPlanPanel.review(PLAN.slice(0, 2), { profile: PROFILE, hostName: 'web' });
+    expect(html()).not.toContain('data-resolve="local"');
+    lastPanel()._fireMessage({ type: 'cancel' });
+    return p;
+  });
+
+  it('resolves with the chosen items and actions', async () => {
+    const p = open();
+    lastPanel()._fireMessage({
+      type: 'apply',
+      choices: [
+        { path: 'a.txt', action: 'upload' },
+        { path: 'c.txt', action: 'download' },
+        { path: 'd.txt', action: 'deleteRemote' },
+        { path: 'old.txt', action: 'skip' },
+      ],
+    });
+    expect((await p)?.map((i) => [i.path, i.action])).toEqual([
+      ['a.txt', 'upload'],
+      ['c.txt', 'download'],
+      ['d.txt', 'deleteRemote'],
+    ]);
+  });
+
+  it('drops unknown paths and actions the item does not allow', async () => {
+    const p = open();
+    lastPanel()._fireMessage({
+      type: 'apply',
+      choices: [
+        { path: 'nope.txt', action: 'upload' },
+        { path: 'b.txt', action: 'deleteLocal' },
+        { path: 'd.txt', action: 'upload' },
+        { path: 'a.txt', action: 'upload' },
+        { path: 'a.txt', action: 'upload' },
+      ],
+    });
+    expect((await p)?.map((i) => i.path)).toEqual(['a.txt']);
+  });
+
+  it('resolves undefined when closed', async () => {
+    const p = open();
+    lastPanel()._fireDispose();
+    expect(await p).toBeUndefined();
+  });
+
+  it('lets a conflict go either way, or delete the side that is left', () => {
+    expect(SyncPlanPanel.allowedActions(PLAN[2])).toEqual(['upload', 'download', 'skip']);
+    expect(SyncPlanPanel.allowedActions(PLAN[3])).toEqual(['deleteRemote', 'download', 'skip']);
+    expect(SyncPlanPanel.allowedActions(PLAN[0])).toEqual(['upload', 'skip']);
+  });
+});
@@ -0,0 +1,306 @@
+import * as vscode from 'vscode';
+import { ISyncFileState, ISyncPlanItem, ISyncProfile, SyncAction } from '../types';
+import { infoLog, diagLog } from '../utils/diagnosticLog';
+import { formatDateTime, formatFileSize } from '../utils/helpers';
+import { summarizePlan } from '../utils/folderSync';
+
+interface SyncPlanMessage {
+  type?: string;
+  choices?: unknown;
+  level?: string;
+  scope?: string;
+  event?: string;
+  payload?: unknown;
+  message?: string;
+  stack?: string;
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const ACTION_LABELS: Record<SyncAction, string> = {
+  upload: '↑ Upload',
+  download: '↓ Download',
+  deleteLocal: '✕ Delete local',
+  deleteRemote: '✕ Delete on server',
+  skip: 'Skip',
+};
+
+const KIND_TITLES: Array<[ISyncPlanItem['kind'], string]> = [
+  ['conflict', 'Conflicts'],
+  ['new', 'New'],
+  ['changed', 'Changed'],
+  ['deleted', 'Deleted'],
+];
+
+/**
+ * Webview panel that reviews a folder sync plan before anything is touched
+ * (the dry run). Rows are grouped into conflicts, new, changed and deleted;
+ * each can be unticked, and each conflict gets a keep-local / keep-server /
+ * skip choice (default skip). Resolves with the items to apply, with the
+ * chosen actions, or undefined if cancelled / closed.
+ */
+export class SyncPlanPanel {
+  static readonly viewType = 'sshLiteSyncPlan';
+
+  static review(
+    plan: ISyncPlanItem[],
+    opts: { profile: ISyncProfile; hostName: string; notes?: string[] }
+  ): Promise<ISyncPlanItem[] | undefined> {
+    return new Promise((resolve) => {
+      const panel = vscode.window.createWebviewPanel(
+        SyncPlanPanel.viewType,
+        `Sync: ${opts.profile.name}`,
+        vscode.ViewColumn.Active,
+        { enableScripts: true, retainContextWhenHidden: true }
+      );
+
+      let settled = false;
+      const finish = (value: ISyncPlanItem[] | undefined): void => {
+        if (!settled) {
+          settled = true;
+          resolve(value);
+        }
+        try {
+          panel.dispose();
+        } catch {
+          // already disposed
+        }
+      };
+
+      panel.webview.onDidReceiveMessage((raw: SyncPlanMessage) => {
+        switch (raw?.type) {
+          case 'apply': {
+            const selected = SyncPlanPanel.toSelection(raw.choices, plan);
+            infoLog('sync-plan-panel', 'apply', { selected: selected.length, of: plan.length });
+            finish(selected);
+            break;
+          }
+          case 'cancel': {
+            infoLog('sync-plan-panel', 'cancel', {});
+            finish(undefined);
+            break;
+          }
+          case 'log': {
+            const scope = typeof raw.scope === 'string' ? raw.scope : 'sync-plan-webview';
+            const event = typeof raw.event === 'string' ? raw.event : 'unknown';
+            const payload =
+              raw.payload && typeof raw.payload === 'object' ? (raw.payload as Record<string, unknown>) : undefined;
+            if (raw.level === 'diag') {
+              diagLog(scope, event, payload);
+            } else {
+              infoLog(scope, event, payload);
+            }
+            break;
+          }
+          case 'webviewError': {
+            infoLog('sync-plan-webview', 'error', {
+              message: typeof raw.message === 'string' ? raw.message : 'unknown',
+              stack: typeof raw.stack === 'string' ? raw.stack : undefined,
+            });
+            break;
+          }
+          default:
+            break;
+        }
+      });
+
+      panel.onDidDispose(() => {
+        if (!settled) {
+          settled = true;
+          resolve(undefined);
+        }
+      });
+
+      panel.webview.html = SyncPlanPanel.getHtml(panel.webview, plan, opts);
+      infoLog('sync-plan-panel', 'open', { items: plan.length, summary: summarizePlan(plan) });
+    });
+  }
+
+  /** Actions the user may pick for an item: its proposal or skip; a conflict can go either way */
+  static allowedActions(item: ISyncPlanItem): SyncAction[] {
+    if (item.kind !== 'conflict') {
+      return [item.action, 'skip'];
+    }
+    return [item.local ? 'upload' : 'deleteRemote', item.remote ? 'download' : 'deleteLocal', 'skip'];
+  }
+
+  /**
+   * Turn the webview's `{ path, action }` choices into plan items to apply.
+   * Unknown paths and actions an item does not allow are dropped, as is skip.
+   */
+  private static toSelection(choices: unknown, plan: ISyncPlanItem[]): ISyncPlanItem[] {
+    if (!Array.isArray(choices)) {
+      return [];
+    }
+    const byPath = new Map(plan.map((item) => [item.path, item]));
+    const selected: ISyncPlanItem[] = [];
+    for (const choice of choices as Array<{ path?: unknown; action?: unknown }>) {
+      const item = typeof choice?.path === 'string' ? byPath.get(choice.path) : undefined;
+      const action = choice?.action as SyncAction;
+      if (!item || action === 'skip' || !SyncPlanPanel.allowedActions(item).includes(action)) {
+        continue;
+      }
+      byPath.delete(item.path);
+      selected.push({ ...item, action });
+    }
+    return selected;
+  }
+
+  private static makeNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let s = '';
+    for (let i = 0; i < 32; i++) {
+      s += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return s;
+  }
+
+  private static stateHtml(state: ISyncFileState | undefined): string {
+    if (!state) {
+      return '<span class="none">—</span>';
+    }
+    return `${formatFileSize(state.size)} · ${escapeHtml(formatDateTime(state.mtime))}`;
+  }
+
+  private static rowHtml(item: ISyncPlanItem, index: number): string {
+    const p = escapeHtml(item.path);
+    let control: string;
+    if (item.kind === 'conflict') {
+      const options = SyncPlanPanel.allowedActions(item)
+        .map((a) => `<option value="${a}"${a === 'skip' ? ' selected' : ''}>${a === 'skip' ? 'Skip' : (a === 'upload' || a === 'deleteRemote' ? 'Keep local' : 'Keep server')} (${ACTION_LABELS[a]})</option>`)
+        .join('');
+      control = `<select class="choice" data-path="${p}" aria-label="Resolve ${p}">${options}</select>`;
+    } else {
+      control = `<label><input type="checkbox" class="choice" id="c${index}" data-path="${p}" data-action="${item.action}" checked /> ${ACTION_LABELS[item.action]}</label>`;
+    }
+    return `<tr class="${item.kind}"><td class="path mono">${p}</td><td>${control}</td><td>${SyncPlanPanel.stateHtml(item.local)}</td><td>${SyncPlanPanel.stateHtml(item.remote)}</td></tr>`;
+  }
+
+  private static getHtml(
+    webview: vscode.Webview,
+    plan: ISyncPlanItem[],
+    opts: { profile: ISyncProfile; hostName: string; notes?: string[] }
+  ): string {
+    const nonce = SyncPlanPanel.makeNonce();
+    const cspSource = webview.cspSource;
+    const csp = [
+      `default-src 'none'`,
+      `style-src ${cspSource} 'unsafe-inline'`,
+      `script-src 'nonce-${nonce}'`,
+      `font-src ${cspSource}`,
+    ].join('; ');
+
+    const { profile } = opts;
+    const arrow = profile.direction === 'upload' ? '→' : profile.direction === 'download' ? '←' : '⇄';
+    const conflicts = plan.filter((i) => i.kind === 'conflict').length;
+    const sections = KIND_TITLES
+      .map(([kind, title]) => {
+        const rows = plan.map((item, i) => (item.kind === kind ? SyncPlanPanel.rowHtml(item, i) : '')).join('');
+        if (!rows) {
+          return '';
+        }
+        const count = plan.filter((i) => i.kind === kind).length;
+        return `<tbody><tr class="group"><th colspan="4">${title} (${count})</th></tr>${rows}</tbody>`;
+      })
+      .join('');
+    const notes = (opts.notes ?? []).map((n) => `<div class="note">${escapeHtml(n)}</div>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta http-equiv="Content-Security-Policy" content="${csp}" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<style>
+  body { font-family: var(--vscode-font-family); color: var(--vscode-editor-foreground); background: var(--vscode-editor-background); margin: 0; padding: 16px 20px 72px; }
+  h1 { font-size: 1.15rem; margin: 0 0 4px; overflow-wrap: anywhere; }
+  .summary { color: var(--vscode-descriptionForeground); font-size: 0.85rem; margin-bottom: 12px; overflow-wrap: anywhere; }
+  .note { color: var(--vscode-editorWarning-foreground); font-size: 0.85rem; margin-bottom: 8px; }
+  .mono { font-family: var(--vscode-editor-font-family, monospace); }
+  .bulk { display: flex; gap: 8px; align-items: center; margin: 8px 0 12px; font-size: 0.85rem; flex-wrap: wrap; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.85rem; }
+  th, td { text-align: left; padding: 3px 12px 3px 0; vertical-align: top; }
+  thead th { color: var(--vscode-descriptionForeground); font-weight: normal; border-bottom: 1px solid var(--vscode-input-border, transparent); }
+  tr.group th { padding-top: 14px; font-size: 0.72rem; text-transform: uppercase; letter-spacing: 0.04em; color: var(--vscode-descriptionForeground); }
+  tr.conflict td.path { color: var(--vscode-editorWarning-foreground); }
+  td.path { overflow-wrap: anywhere; }
+  .none { color: var(--vscode-descriptionForeground); }
+  label { display: inline-flex; align-items: center; gap: 4px; white-space: nowrap; }
+  select { font-family: inherit; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 2px 4px; }
+  button { font-family: inherit; font-size: 0.85rem; border: none; border-radius: 4px; padding: 5px 12px; cursor: pointer; }
+  footer { position: fixed; left: 0; right: 0; bottom: 0; display: flex; justify-content: flex-end; align-items: center; gap: 8px; padding: 10px 20px; background: var(--vscode-editor-background); border-top: 1px solid var(--vscode-input-border, transparent); }
+  footer .count { margin-right: auto; color: var(--vscode-descriptionForeground); font-size: 0.85rem; }
+  .primary { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+  .primary:hover { background: var(--vscode-button-hoverBackground); }
+  .primary:disabled { opacity: 0.5; cursor: default; }
+  .secondary { background: var(--vscode-button-secondaryBackground, #3a3d41); color: var(--vscode-button-secondaryForeground, #fff); }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(profile.name)}</h1>
+  <div class="summary"><span class="mono">${escapeHtml(profile.localPath)}</span> ${arrow} <span class="mono">${escapeHtml(opts.hostName)}:${escapeHtml(profile.remotePath)}</span> · ${escapeHtml(summarizePlan(plan))}</div>
+  ${notes}
+  ${conflicts > 0 ? `<div class="bulk">All conflicts:
+    <button class="secondary" data-resolve="local">Keep local</button>
+    <button class="secondary" data-resolve="server">Keep server</button>
+    <button class="secondary" data-resolve="skip">Skip</button>
+  </div>` : ''}
+  <table>
+    <thead><tr><th>File</th><th>Action</th><th>Local</th><th>Server</th></tr></thead>
+    ${sections}
+  </table>
+  <footer>
+    <span class="count" id="count"></span>
+    <button class="secondary" id="cancel">Cancel</button>
+    <button class="primary" id="apply">Apply</button>
+  </footer>
+  <script nonce="${nonce}">
+    var vscode = acquireVsCodeApi();
+    try { vscode.postMessage({ type: 'log', level: 'info', scope: 'sync-plan-webview', event: 'ready', payload: { items: ${plan.length} } }); } catch (e) {}
+    var choices = Array.prototype.slice.call(document.querySelectorAll('.choice'));
+    var countEl = document.getElementById('count');
+    var applyEl = document.getElementById('apply');
+    function picked() {
+      var out = [];
+      choices.forEach(function (c) {
+        if (c.tagName === 'SELECT') {
+          if (c.value !== 'skip') { out.push({ path: c.getAttribute('data-path'), action: c.value }); }
+        } else if (c.checked) {
+          out.push({ path: c.getAttribute('data-path'), action: c.getAttribute('data-action') });
+        }
+      });
+      return out;
+    }
+    function update() {
+      var n = picked().length;
+      countEl.textContent = n + ' of ${plan.length} change' + (${plan.length} === 1 ? '' : 's') + ' selected';
+      applyEl.disabled = n === 0;
+    }
+    choices.forEach(function (c) { c.addEventListener('change', update); });
+    Array.prototype.slice.call(document.querySelectorAll('[data-resolve]')).forEach(function (b) {
+      b.addEventListener('click', function () {
+        var side = b.getAttribute('data-resolve');
+        choices.forEach(function (c) {
+          if (c.tagName !== 'SELECT') { return; }
+          var opts = Array.prototype.slice.call(c.options).map(function (o) { return o.value; });
+          c.value = side === 'local' ? opts[0] : side === 'server' ? opts[1] : 'skip';
+        });
+        update();
+      });
+    });
+    document.getElementById('cancel').addEventListener('click', function () { vscode.postMessage({ type: 'cancel' }); });
+    applyEl.addEventListener('click', function () { vscode.postMessage({ type: 'apply', choices: picked() }); });
+    window.addEventListener('error', function (e) { try { vscode.postMessage({ type: 'webviewError', message: String(e.message), stack: e.error && e.error.stack }); } catch (x) {} });
+    update();
+  </script>
+</body>
+</html>`;
+  }
+}
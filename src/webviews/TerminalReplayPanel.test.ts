@@ -0,0 +1,93 @@
+/**
+ * TerminalReplayPanel tests — playback runs in the extension and the webview
+ * is sent rendered rows. Driven via the createWebviewPanel mock.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TerminalReplayPanel } from './TerminalReplayPanel';
+
+const lastPanel = () => (vscode.window.createWebviewPanel as jest.Mock).mock.results.at(-1)!.value;
+const lastFrame = () => (lastPanel().webview.postMessage as jest.Mock).mock.calls.at(-1)![0];
+const screenText = () => (lastFrame().rows as string[]).map((r) => r.replace(/<[^>]+>/g, '').trimEnd());
+
+describe('TerminalReplayPanel', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sshlite-replay-'));
+    file = path.join(dir, 'web1-20261019-091244.cast');
+    fs.writeFileSync(file, [
+      JSON.stringify({ version: 2, width: 20, height: 3, timestamp: 1760865164, title: 'deploy@web1' }),
+      '[0.5,"o","$ uptime\\r\\n"]',
+      '[1.0,"i","secret"]',
+      '[2.0,"o","up 3 days\\r\\n$ "]',
+      '[3.0,"r","30x3"]',
+      '',
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('opens a tab with the recording details and playback controls', async () => {
+    await TerminalReplayPanel.open(file);
+    expect(vscode.window.createWebviewPanel).toHaveBeenCalledWith(
+      TerminalReplayPanel.viewType, 'Replay: web1-20261019-091244.cast', expect.anything(), expect.anything()
+    );
+    const html = lastPanel().webview.html as string;
+    expect(html).toContain('deploy@web1');
+    expect(html).toContain('id="toggle"');
+    expect(html).toContain('id="seek"');
+    expect(html).toContain('<option value="2">2×</option>');
+  });
+
+  it('seeks forwards and backwards, drawing only output', async () => {
+    await TerminalReplayPanel.open(file);
+    lastPanel()._fireMessage({ type: 'seek', time: 2.5 });
+    expect(screenText()).toEqual(['$ uptime', 'up 3 days', '$']);
+    expect(lastFrame()).toEqual(expect.objectContaining({ time: 2.5, duration: 3, playing: false }));
+
+    lastPanel()._fireMessage({ type: 'seek', time: 1 });
+    expect(screenText()).toEqual(['$ uptime', '', '']);
+
+    lastPanel()._fireMessage({ type: 'seek', time: 99 });
+    expect(lastFrame().columns).toBe(30);
+  });
+
+  it('plays at the chosen speed and stops at the end', async () => {
+    jest.useFakeTimers();
+    const replay = await TerminalReplayPanel.open(file);
+    lastPanel()._fireMessage({ type: 'speed', speed: 2 });
+    lastPanel()._fireMessage({ type: 'play' });
+    expect(replay.playing).toBe(true);
+
+    jest.advanceTimersByTime(600);
+    expect(replay.time).toBeGreaterThanOrEqual(1);
+    expect(screenText()[0]).toBe('$ uptime');
+
+    jest.advanceTimersByTime(2000);
+    expect(replay.playing).toBe(false);
+    expect(replay.time).toBe(3);
+    expect(lastFrame().playing).toBe(false);
+  });
+
+  it('stops playing when the tab closes', async () => {
+    jest.useFakeTimers();
+    const replay = await TerminalReplayPanel.open(file);
+    replay.play();
+    lastPanel()._fireDispose();
+    expect(replay.playing).toBe(false);
+  });
+
+  it('rejects files that are not recordings', async () => {
+    fs.writeFileSync(file, 'hello');
+    await expect(TerminalReplayPanel.open(file)).rejects.toThrow('Not an asciicast v2 recording');
+  });
+});
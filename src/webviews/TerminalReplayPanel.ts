@@ -0,0 +1,300 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { infoLog, diagLog } from '../utils/diagnosticLog';
+import { Cast, CastEvent, limitIdle, parseCast, parseResize } from '../utils/asciicast';
+import { TerminalScreen } from '../utils/terminalScreen';
+
+interface ReplayMessage {
+  type?: string;
+  time?: unknown;
+  speed?: unknown;
+  level?: string;
+  scope?: string;
+  event?: string;
+  payload?: unknown;
+  message?: string;
+  stack?: string;
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+const TICK_MS = 40;
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Webview that replays an asciicast v2 terminal recording with play, pause,
+ * speed and seek. Playback runs here, feeding output events into a
+ * TerminalScreen; the webview only draws the rendered rows it is sent.
+ * Seeking back replays from the start, which is fast for text recordings.
+ */
+export class TerminalReplayPanel {
+  static readonly viewType = 'sshLiteTerminalReplay';
+
+  private readonly events: CastEvent[];
+  private readonly duration: number;
+  private screen!: TerminalScreen;
+  private index = 0;
+  private position = 0;
+  private speed = 1;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private lastTick = 0;
+
+  private constructor(private readonly panel: vscode.WebviewPanel, private readonly cast: Cast) {
+    this.events = limitIdle(cast.events, cast.header.idle_time_limit);
+    this.duration = this.events.length ? this.events[this.events.length - 1].time : 0;
+    this.rewind();
+
+    panel.webview.onDidReceiveMessage((raw: ReplayMessage) => this.onMessage(raw));
+    panel.onDidDispose(() => this.pause());
+  }
+
+  /** Open a `.cast` file in a replay tab */
+  static async open(filePath: string): Promise<TerminalReplayPanel> {
+    const cast = parseCast(await fs.promises.readFile(filePath, 'utf-8'));
+    const name = path.basename(filePath);
+    const panel = vscode.window.createWebviewPanel(
+      TerminalReplayPanel.viewType,
+      `Replay: ${name}`,
+      vscode.ViewColumn.Active,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    const replay = new TerminalReplayPanel(panel, cast);
+    panel.webview.html = TerminalReplayPanel.getHtml(panel.webview, cast, name, replay.duration);
+    infoLog('terminal-replay', 'open', { events: cast.events.length, duration: Math.round(replay.duration) });
+    return replay;
+  }
+
+  get playing(): boolean {
+    return this.timer !== undefined;
+  }
+
+  get time(): number {
+    return this.position;
+  }
+
+  play(): void {
+    if (this.playing) {
+      return;
+    }
+    if (this.position >= this.duration) {
+      this.seek(0);
+    }
+    this.lastTick = Date.now();
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+    this.postFrame();
+  }
+
+  pause(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.postFrame();
+  }
+
+  setSpeed(speed: number): void {
+    if (SPEEDS.includes(speed)) {
+      this.speed = speed;
+    }
+  }
+
+  seek(time: number): void {
+    const target = Math.max(0, Math.min(this.duration, time));
+    if (target < this.position) {
+      this.rewind();
+    }
+    this.advance(target);
+    this.position = target;
+    this.postFrame();
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    this.position = Math.min(this.duration, this.position + ((now - this.lastTick) / 1000) * this.speed);
+    this.lastTick = now;
+    this.advance(this.position);
+    if (this.position >= this.duration) {
+      this.pause();
+    } else {
+      this.postFrame();
+    }
+  }
+
+  private rewind(): void {
+    this.screen = new TerminalScreen(this.cast.header.width, this.cast.header.height);
+    this.index = 0;
+    this.position = 0;
+  }
+
+  /** Apply every event up to `time` */
+  private advance(time: number): void {
+    while (this.index < this.events.length && this.events[this.index].time <= time) {
+      const e = this.events[this.index++];
+      if (e.code === 'o') {
+        this.screen.write(e.data);
+      } else if (e.code === 'r') {
+        const size = parseResize(e.data);
+        if (size) {
+          this.screen.resize(size.columns, size.rows);
+        }
+      }
+    }
+  }
+
+  private postFrame(): void {
+    void this.panel.webview.postMessage({
+      type: 'frame',
+      rows: this.screen.renderHtml(),
+      columns: this.screen.columns,
+      time: this.position,
+      duration: this.duration,
+      playing: this.playing,
+    });
+  }
+
+  private onMessage(raw: ReplayMessage): void {
+    switch (raw?.type) {
+      case 'ready':
+        this.postFrame();
+        break;
+      case 'play':
+        this.play();
+        break;
+      case 'pause':
+        this.pause();
+        break;
+      case 'seek':
+        if (typeof raw.time === 'number') {
+          this.seek(raw.time);
+        }
+        break;
+      case 'speed':
+        if (typeof raw.speed === 'number') {
+          this.setSpeed(raw.speed);
+        }
+        break;
+      case 'log': {
+        const scope = typeof raw.scope === 'string' ? raw.scope : 'replay-webview';
+        const event = typeof raw.event === 'string' ? raw.event : 'unknown';
+        const payload =
+          raw.payload && typeof raw.payload === 'object' ? (raw.payload as Record<string, unknown>) : undefined;
+        if (raw.level === 'diag') {
+          diagLog(scope, event, payload);
+        } else {
+          infoLog(scope, event, payload);
+        }
+        break;
+      }
+      case 'webviewError':
+        infoLog('replay-webview', 'error', {
+          message: typeof raw.message === 'string' ? raw.message : 'unknown',
+          stack: typeof raw.stack === 'string' ? raw.stack : undefined,
+        });
+        break;
+      default:
+        break;
+    }
+  }
+
+  private static makeNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let s = '';
+    for (let i = 0; i < 32; i++) {
+      s += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return s;
+  }
+
+  private static getHtml(webview: vscode.Webview, cast: Cast, name: string, duration: number): string {
+    const nonce = TerminalReplayPanel.makeNonce();
+    const cspSource = webview.cspSource;
+    const csp = [
+      `default-src 'none'`,
+      `style-src ${cspSource} 'unsafe-inline'`,
+      `script-src 'nonce-${nonce}'`,
+      `font-src ${cspSource}`,
+    ].join('; ');
+    const started = cast.header.timestamp ? new Date(cast.header.timestamp * 1000).toLocaleString() : '';
+    const summary = [cast.header.title, started, `${cast.header.width}×${cast.header.height}`].filter(Boolean).join(' · ');
+    const speedOptions = SPEEDS.map((s) => `<option value="${s}"${s === 1 ? ' selected' : ''}>${s}×</option>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta http-equiv="Content-Security-Policy" content="${csp}" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<style>
+  body { font-family: var(--vscode-font-family); color: var(--vscode-editor-foreground); background: var(--vscode-editor-background); margin: 0; padding: 12px 16px; }
+  h1 { font-size: 1.05rem; margin: 0 0 2px; overflow-wrap: anywhere; }
+  .summary { color: var(--vscode-descriptionForeground); font-size: 0.85rem; margin-bottom: 10px; }
+  .controls { display: flex; align-items: center; gap: 10px; margin-bottom: 10px; }
+  .controls input[type=range] { flex: 1; }
+  .time { font-family: var(--vscode-editor-font-family, monospace); font-size: 0.85rem; min-width: 10em; text-align: right; }
+  button { font-family: inherit; font-size: 0.85rem; border: none; border-radius: 4px; padding: 4px 12px; cursor: pointer; background: var(--vscode-button-background); color: var(--vscode-button-foreground); min-width: 5em; }
+  button:hover { background: var(--vscode-button-hoverBackground); }
+  select { font-family: inherit; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 2px 4px; }
+  pre#screen { margin: 0; padding: 8px; overflow: auto; line-height: 1.2; font-family: var(--vscode-editor-font-family, monospace); font-size: var(--vscode-editor-font-size, 13px); color: var(--vscode-terminal-foreground, var(--vscode-editor-foreground)); background: var(--vscode-terminal-background, var(--vscode-editor-background)); border: 1px solid var(--vscode-panel-border, transparent); display: inline-block; min-width: ${cast.header.width}ch; }
+  .cursor { outline: 1px solid var(--vscode-terminalCursor-foreground, var(--vscode-editor-foreground)); }
+  .hint { color: var(--vscode-descriptionForeground); font-size: 0.8rem; margin-top: 8px; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(name)}</h1>
+  <div class="summary">${escapeHtml(summary)}</div>
+  <div class="controls">
+    <button id="toggle">Play</button>
+    <input type="range" id="seek" min="0" max="${duration}" step="0.1" value="0" aria-label="Position" />
+    <span class="time" id="time"></span>
+    <label for="speed">Speed</label>
+    <select id="speed">${speedOptions}</select>
+  </div>
+  <pre id="screen"></pre>
+  <div class="hint">Space plays or pauses, ← and → skip 5 seconds.</div>
+  <script nonce="${nonce}">
+    var vscode = acquireVsCodeApi();
+    var toggleEl = document.getElementById('toggle');
+    var seekEl = document.getElementById('seek');
+    var timeEl = document.getElementById('time');
+    var speedEl = document.getElementById('speed');
+    var screenEl = document.getElementById('screen');
+    var playing = false, time = 0, duration = ${duration}, dragging = false;
+    function fmt(t) { t = Math.floor(t); var m = Math.floor(t / 60), s = t % 60; return m + ':' + (s < 10 ? '0' : '') + s; }
+    function showTime() { timeEl.textContent = fmt(time) + ' / ' + fmt(duration); }
+    window.addEventListener('message', function (e) {
+      var msg = e.data;
+      if (!msg || msg.type !== 'frame') { return; }
+      screenEl.innerHTML = msg.rows.join('\\n');
+      playing = msg.playing; time = msg.time; duration = msg.duration;
+      toggleEl.textContent = playing ? 'Pause' : 'Play';
+      if (!dragging) { seekEl.value = String(time); }
+      showTime();
+    });
+    function toggle() { vscode.postMessage({ type: playing ? 'pause' : 'play' }); }
+    function seekBy(d) { vscode.postMessage({ type: 'seek', time: Math.max(0, Math.min(duration, time + d)) }); }
+    toggleEl.addEventListener('click', toggle);
+    seekEl.addEventListener('input', function () { dragging = true; vscode.postMessage({ type: 'seek', time: parseFloat(seekEl.value) }); });
+    seekEl.addEventListener('change', function () { dragging = false; });
+    speedEl.addEventListener('change', function () { vscode.postMessage({ type: 'speed', speed: parseFloat(speedEl.value) }); });
+    document.addEventListener('keydown', function (e) {
+      if (e.target === speedEl) { return; }
+      if (e.key === ' ') { e.preventDefault(); toggle(); }
+      else if (e.key === 'ArrowLeft') { e.preventDefault(); seekBy(-5); }
+      else if (e.key === 'ArrowRight') { e.preventDefault(); seekBy(5); }
+    });
+    showTime();
+    vscode.postMessage({ type: 'ready' });
+    window.addEventListener('error', function (e) { try { vscode.postMessage({ type: 'webviewError', message: String(e.message), stack: e.error && e.error.stack }); } catch (x) {} });
+  </script>
+</body>
+</html>`;
+  }
+}